@@ -9,8 +9,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label"
 import { FormField, FormError } from "@/components/ui/form"
 import { AppLayout } from "@/components/layouts"
-import { useAuth } from "@/contexts/AuthContext"
-import { Stethoscope, User, Loader2 } from "lucide-react"
+import { useAuth, type SignInResult } from "@/contexts/AuthContext"
+import { Stethoscope, User, Loader2, ShieldCheck } from "lucide-react"
+import type { AuthUser } from "@/lib/auth/types"
 import { useToast } from "@/components/ui/use-toast"
 
 export default function LoginPage() {
@@ -18,67 +19,181 @@ export default function LoginPage() {
   const [password, setPassword] = useState("")
   const [error, setError] = useState("")
   const [loading, setLoading] = useState(false)
+  // Second step, when the account has MFA or the clinic requires it
+  const [challenge, setChallenge] = useState<Extract<SignInResult, { status: "mfa_required" }> | null>(null)
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<{ codes: string[]; user: AuthUser } | null>(null)
   const router = useRouter()
   const searchParams = useSearchParams()
-  const { setUser } = useAuth()
+  const { signIn, verifyMfa, startMfaEnrollment } = useAuth()
   const { toast } = useToast()
 
+  const completeLogin = (user: AuthUser) => {
+    // Handle doctor approval pending
+    if (user.role === "doctor" && !user.metadata?.approved) {
+      toast({
+        title: "Account Pending Approval",
+        description: "Your doctor account is pending admin approval. You'll be notified once approved.",
+        variant: "warning",
+      })
+      router.push("/doctor/pending")
+      return
+    }
+
+    // Redirect to appropriate dashboard
+    const redirect = searchParams.get("redirect") || (user.role === "patient" ? "/patient" : "/dashboard")
+    router.push(redirect)
+
+    toast({
+      title: "Welcome back!",
+      description: "You've successfully logged in.",
+      variant: "success",
+    })
+  }
+
+  const showError = (err: any, title: string) => {
+    setError(err.message || "An error occurred during login")
+    toast({
+      title,
+      description: err.message || "Please check your credentials and try again.",
+      variant: "destructive",
+    })
+  }
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setError("")
 
     try {
-      const response = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      })
-
-      const data = await response.json()
+      // Updates the auth context directly when no second step is needed
+      const result = await signIn(email, password)
 
-      if (!response.ok) {
-        throw new Error(data.error || "Login failed")
+      if (result.status === "mfa_required") {
+        setChallenge(result)
+        if (result.enrollmentRequired) {
+          setEnrollment(await startMfaEnrollment(result.challengeToken))
+        }
+        return
       }
 
-      // Update auth context directly with user data from login response
-      // This avoids an unnecessary API call to /api/auth/session
-      if (data.user) {
-        setUser(data.user)
-      }
+      completeLogin(result.user)
+    } catch (err: any) {
+      showError(err, "Login Failed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challenge) return
+    setLoading(true)
+    setError("")
+
+    try {
+      const { user, recoveryCodes: codes } = await verifyMfa(challenge.challengeToken, code.trim())
 
-      // Handle doctor approval pending
-      if (data.user.role === "doctor" && !data.user.metadata?.approved) {
-        toast({
-          title: "Account Pending Approval",
-          description: "Your doctor account is pending admin approval. You'll be notified once approved.",
-          variant: "warning",
-        })
-        router.push("/doctor/pending")
+      // New enrollment: show the recovery codes once before continuing
+      if (codes?.length) {
+        setRecoveryCodes({ codes, user })
         return
       }
 
-      // Redirect to appropriate dashboard
-      const redirect = searchParams.get("redirect") || (data.user.role === "patient" ? "/patient" : "/dashboard")
-      router.push(redirect)
-      
-      toast({
-        title: "Welcome back!",
-        description: "You've successfully logged in.",
-        variant: "success",
-      })
+      completeLogin(user)
     } catch (err: any) {
-      setError(err.message || "An error occurred during login")
-      toast({
-        title: "Login Failed",
-        description: err.message || "Please check your credentials and try again.",
-        variant: "destructive",
-      })
+      setCode("")
+      showError(err, "Verification Failed")
     } finally {
       setLoading(false)
     }
   }
 
+  const renderMfaStep = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator app, and they won&apos;t be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+            {recoveryCodes.codes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <Button className="w-full" size="lg" onClick={() => completeLogin(recoveryCodes.user)}>
+            I&apos;ve saved my codes
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <FormError message={error} />
+
+        {challenge?.message && (
+          <p className="text-sm text-muted-foreground">{challenge.message}</p>
+        )}
+
+        {enrollment && (
+          <div className="space-y-2 rounded-md border p-4 text-sm">
+            <p>
+              Add this account to your authenticator app by{" "}
+              <a href={enrollment.otpauthUrl} className="text-primary hover:underline">
+                opening the setup link
+              </a>{" "}
+              or entering the key:
+            </p>
+            <p className="break-all font-mono">{enrollment.secret}</p>
+          </div>
+        )}
+
+        <FormField label={enrollment ? "Code from your app" : "Authentication code"} required>
+          <Input
+            id="code"
+            inputMode={enrollment ? "numeric" : "text"}
+            placeholder={enrollment ? "123456" : "123456 or recovery code"}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={loading}
+            required
+            autoComplete="one-time-code"
+            autoFocus
+          />
+        </FormField>
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "Verify"
+          )}
+        </Button>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          disabled={loading}
+          onClick={() => {
+            setChallenge(null)
+            setEnrollment(null)
+            setCode("")
+            setError("")
+          }}
+        >
+          Back to sign in
+        </Button>
+      </form>
+    )
+  }
+
   return (
     <AppLayout showBreadcrumbs={false}>
       <div className="min-h-[calc(100vh-8rem)] flex items-center justify-center py-12">
@@ -90,66 +205,77 @@ export default function LoginPage() {
                   <span className="text-xl font-bold">DD</span>
                 </div>
               </div>
-              <CardTitle className="text-3xl font-bold">Welcome Back</CardTitle>
+              <CardTitle className="text-3xl font-bold">
+                {challenge ? "Two-Step Verification" : "Welcome Back"}
+              </CardTitle>
               <CardDescription>
-                Sign in to your DistanceDoc account
+                {challenge ? (
+                  <span className="inline-flex items-center gap-1">
+                    <ShieldCheck className="h-4 w-4" />
+                    {challenge.enrollmentRequired ? "Set up your authenticator app" : "Confirm it's you"}
+                  </span>
+                ) : (
+                  "Sign in to your DistanceDoc account"
+                )}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleLogin} className="space-y-4">
-                <FormError message={error} />
+              {challenge ? renderMfaStep() : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <FormError message={error} />
                 
-                <FormField label="Email" required>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="name@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    disabled={loading}
-                    required
-                    autoComplete="email"
-                  />
-                </FormField>
-
-                <FormField label="Password" required>
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
+                  <FormField label="Email" required>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="name@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      disabled={loading}
+                      required
+                      autoComplete="email"
+                    />
+                  </FormField>
+
+                  <FormField label="Password" required>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      disabled={loading}
+                      required
+                      autoComplete="current-password"
+                    />
+                  </FormField>
+
+                  <div className="flex items-center justify-between">
+                    <Link
+                      href="/reset"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    size="lg"
                     disabled={loading}
-                    required
-                    autoComplete="current-password"
-                  />
-                </FormField>
-
-                <div className="flex items-center justify-between">
-                  <Link
-                    href="/reset"
-                    className="text-sm text-primary hover:underline"
                   >
-                    Forgot password?
-                  </Link>
-                </div>
-
-                <Button
-                  type="submit"
-                  className="w-full"
-                  size="lg"
-                  disabled={loading}
-                >
-                  {loading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Signing in...
-                    </>
-                  ) : (
-                    "Sign In"
-                  )}
-                </Button>
-              </form>
+                    {loading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Signing in...
+                      </>
+                    ) : (
+                      "Sign In"
+                    )}
+                  </Button>
+                </form>
+              )}
 
               <div className="mt-6">
                 <div className="relative">
@@ -77,6 +77,27 @@ interface PaymentAlert {
   status: string
 }
 
+// Shape /api/messages/threads results for the inbox preview
+const toMessageSummaries = (data: { threads?: any[] }): Message[] =>
+  (data.threads || []).map((thread) => ({
+    id: thread.id,
+    patientName: `${thread.patient?.firstName || ""} ${thread.patient?.lastName || ""}`.trim(),
+    subject: thread.subject || "",
+    preview: thread.lastMessage?.content || "",
+    unreadCount: thread.unreadCount,
+    lastMessageAt: thread.lastMessageAt,
+  }))
+
+// Shape /api/lab-orders/recent results for the labs widget
+const toLabSummaries = (data: { labOrders?: any[] }): LabResult[] =>
+  (data.labOrders || []).map((order) => ({
+    id: order.id,
+    patientName: order.patientName,
+    testName: (order.tests || []).join(", "),
+    status: order.status,
+    orderedAt: order.orderedAt,
+  }))
+
 export default function DashboardPage() {
   const { user, loading: authLoading } = useAuth()
   const [appointments, setAppointments] = useState<Appointment[]>([])
@@ -109,7 +130,7 @@ export default function DashboardPage() {
 
         if (messagesRes.ok) {
           const data = await messagesRes.json()
-          setMessages(data || [])
+          setMessages(toMessageSummaries(data))
         }
 
         if (notesRes.ok) {
@@ -119,7 +140,7 @@ export default function DashboardPage() {
 
         if (labsRes.ok) {
           const data = await labsRes.json()
-          setLabResults(data || [])
+          setLabResults(toLabSummaries(data))
         }
 
         if (paymentsRes.ok) {
@@ -189,7 +210,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {labResults.filter((lab) => lab.status === "PENDING").length}
+                {labResults.filter((lab) => lab.status === "RESULTS_READY").length}
               </div>
               <p className="text-xs text-muted-foreground">Awaiting review</p>
             </CardContent>
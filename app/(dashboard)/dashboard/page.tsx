@@ -62,6 +62,27 @@ interface PaymentAlert {
   createdAt: string
 }
 
+// Shape /api/messages/threads results for the inbox preview
+const toMessageSummaries = (data: { threads?: any[] }): Message[] =>
+  (data.threads || []).map((thread) => ({
+    id: thread.id,
+    patientName: `${thread.patient?.firstName || ""} ${thread.patient?.lastName || ""}`.trim(),
+    subject: thread.subject || "",
+    preview: thread.lastMessage?.content || "",
+    unreadCount: thread.unreadCount,
+    lastMessageAt: thread.lastMessageAt,
+  }))
+
+// Shape /api/labs results for the review list
+const toLabSummaries = (data: { labOrders?: any[] }): LabResult[] =>
+  (data.labOrders || []).map((order) => ({
+    id: order.id,
+    patientName: order.patientName,
+    testName: (order.tests || []).join(", "),
+    orderDate: order.orderedAt,
+    status: order.status,
+  }))
+
 export default function DashboardPage() {
   const { user, loading: authLoading } = useAuth()
   const [dashboardData, setDashboardData] = useState({
@@ -85,10 +106,10 @@ export default function DashboardPage() {
         const appointments = appointmentsRes.ok ? await appointmentsRes.json() : []
 
         // Fetch pending messages
-        const messagesRes = await fetch("/api/messages/threads?unread=true", {
+        const messagesRes = await fetch("/api/messages/threads?unread=true&limit=5", {
           credentials: "include",
         })
-        const messages = messagesRes.ok ? await messagesRes.json() : []
+        const messages: Message[] = messagesRes.ok ? toMessageSummaries(await messagesRes.json()) : []
 
         // Fetch recent AI notes
         const notesRes = await fetch("/api/visit-notes?recent=true&aiGenerated=true", {
@@ -100,7 +121,7 @@ export default function DashboardPage() {
         const labsRes = await fetch("/api/labs?status=RESULTS_READY&unread=true", {
           credentials: "include",
         })
-        const labs = labsRes.ok ? await labsRes.json() : []
+        const labs: LabResult[] = labsRes.ok ? toLabSummaries(await labsRes.json()) : []
 
         // Fetch payment alerts
         const paymentsRes = await fetch("/api/payments?alerts=true", {
@@ -88,13 +88,21 @@ export default function AppointmentsPage() {
         }
 
         const response = await fetch(
-          `/api/appointments?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}`,
+          `/api/appointments?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}&limit=100`,
           { credentials: "include" }
         )
 
         if (response.ok) {
           const data = await response.json()
-          setAppointments(data.appointments || [])
+          setAppointments(
+            (data.appointments || []).map((apt: any) => ({
+              ...apt,
+              patient: {
+                ...apt.patient,
+                name: `${apt.patient?.firstName || ""} ${apt.patient?.lastName || ""}`.trim(),
+              },
+            }))
+          )
         } else {
           // Fallback to empty array if API not implemented
           setAppointments([])
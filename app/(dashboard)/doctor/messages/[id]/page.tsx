@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Chat } from "@/components/Chat"
+import { DoctorDashboardLayout } from "@/components/layouts"
+import { Button } from "@/components/ui/button"
+import { PageSkeleton } from "@/components/ui/loading-skeletons"
+import { useAuth } from "@/contexts/AuthContext"
+
+export default function DoctorMessageThreadPage({ params }: { params: { id: string } }) {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && (!user || user.role !== "doctor")) {
+      router.push("/dashboard")
+    }
+  }, [user, loading, router])
+
+  if (loading || !user || user.role !== "doctor") {
+    return (
+      <DoctorDashboardLayout>
+        <PageSkeleton />
+      </DoctorDashboardLayout>
+    )
+  }
+
+  return (
+    <DoctorDashboardLayout>
+      <div className="flex flex-col h-[calc(100vh-200px)]">
+        <div className="mb-4">
+          <Button variant="ghost" asChild className="mb-2 -ml-3">
+            <Link href="/doctor/messages">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to messages
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold tracking-tight">Messages</h1>
+        </div>
+
+        <Chat threadId={params.id} userId={user.id} className="flex-1" />
+      </div>
+    </DoctorDashboardLayout>
+  )
+}
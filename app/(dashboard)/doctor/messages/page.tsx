@@ -0,0 +1,207 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format, formatDistanceToNow, isPast, parseISO } from "date-fns"
+import { AlertTriangle, Loader2, MessageSquare } from "lucide-react"
+import { DoctorDashboardLayout } from "@/components/layouts"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PageSkeleton } from "@/components/ui/loading-skeletons"
+import { useToast } from "@/components/ui/use-toast"
+import { useAuth } from "@/contexts/AuthContext"
+
+type InboxView = "mine" | "pool" | "all" | "escalated"
+
+interface InboxThread {
+  id: string
+  subject?: string | null
+  category: string
+  inboxStatus: string
+  routedToPool: boolean
+  assigneeId: string | null
+  responseDueAt: string | null
+  escalationLevel: number
+  patient: {
+    firstName?: string | null
+    lastName?: string | null
+  }
+  assignee: { displayName: string } | null
+  lastMessage: { content: string } | null
+  unreadCount: number
+  lastMessageAt: string
+}
+
+const VIEW_LABELS: Record<InboxView, string> = {
+  mine: "Mine",
+  pool: "Care-team pool",
+  all: "All",
+  escalated: "Escalated",
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: "Needs reply",
+  WAITING_ON_PATIENT: "Waiting on patient",
+  RESOLVED: "Resolved",
+}
+
+const titleCase = (value: string) => value.charAt(0) + value.slice(1).toLowerCase()
+
+export default function DoctorMessagesPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+  const [view, setView] = useState<InboxView>("mine")
+  const [threads, setThreads] = useState<InboxThread[]>([])
+  const [loadingThreads, setLoadingThreads] = useState(true)
+  const [claimingId, setClaimingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!loading && (!user || user.role !== "doctor")) {
+      router.push("/dashboard")
+    }
+  }, [user, loading, router])
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/inbox?view=${view}`, { credentials: "include" })
+      if (!response.ok) {
+        throw new Error("Failed to fetch inbox")
+      }
+      const data = await response.json()
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error("Error fetching inbox:", error)
+    } finally {
+      setLoadingThreads(false)
+    }
+  }, [view])
+
+  useEffect(() => {
+    if (user) {
+      fetchThreads()
+      const interval = setInterval(fetchThreads, 30000) // Poll every 30 seconds
+      return () => clearInterval(interval)
+    }
+  }, [user, fetchThreads])
+
+  const claimThread = async (threadId: string) => {
+    setClaimingId(threadId)
+    try {
+      const response = await fetch(`/api/inbox/${threadId}/claim`, {
+        method: "POST",
+        credentials: "include",
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to claim thread")
+      }
+      toast({ title: "Thread claimed", description: "It now appears under Mine." })
+      await fetchThreads()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to claim thread", variant: "destructive" })
+      await fetchThreads()
+    } finally {
+      setClaimingId(null)
+    }
+  }
+
+  if (loading || !user || loadingThreads) {
+    return (
+      <DoctorDashboardLayout>
+        <PageSkeleton />
+      </DoctorDashboardLayout>
+    )
+  }
+
+  return (
+    <DoctorDashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Messages</h1>
+          <p className="text-muted-foreground mt-2">Your patient conversations and the care-team inbox</p>
+        </div>
+
+        <Tabs value={view} onValueChange={(value) => setView(value as InboxView)}>
+          <TabsList>
+            {(Object.keys(VIEW_LABELS) as InboxView[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {VIEW_LABELS[key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {threads.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <MessageSquare className="h-12 w-12 mb-4 opacity-50" />
+              <p>No messages here</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {threads.map((thread) => {
+              const overdue = !!thread.responseDueAt && isPast(parseISO(thread.responseDueAt))
+              return (
+                <div key={thread.id} className="p-4 rounded-lg border hover:bg-accent/50 transition-colors">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <Link href={`/doctor/messages/${thread.id}`} className="font-medium hover:underline">
+                      {`${thread.patient.firstName || ""} ${thread.patient.lastName || ""}`.trim() || "Patient"}
+                    </Link>
+                    <div className="flex items-center gap-2">
+                      {thread.escalationLevel > 0 && (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          Escalated
+                        </Badge>
+                      )}
+                      <Badge variant="outline">{titleCase(thread.category)}</Badge>
+                      {thread.unreadCount > 0 && <Badge>{thread.unreadCount}</Badge>}
+                    </div>
+                  </div>
+                  <Link href={`/doctor/messages/${thread.id}`} className="block">
+                    {thread.subject && <p className="text-sm font-medium truncate">{thread.subject}</p>}
+                    {thread.lastMessage && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{thread.lastMessage.content}</p>
+                    )}
+                  </Link>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+                    <p className="text-xs text-muted-foreground">
+                      {STATUS_LABELS[thread.inboxStatus] || thread.inboxStatus}
+                      {" · "}
+                      {thread.assignee ? `Assigned to ${thread.assignee.displayName}` : "Unassigned"}
+                      {thread.responseDueAt && (
+                        <span className={overdue ? "text-destructive font-medium" : undefined}>
+                          {" · "}
+                          {overdue ? "Reply overdue " : "Reply due "}
+                          {formatDistanceToNow(parseISO(thread.responseDueAt), { addSuffix: true })}
+                        </span>
+                      )}
+                      {" · "}
+                      {format(parseISO(thread.lastMessageAt), "MMM d, h:mm a")}
+                    </p>
+                    {!thread.assigneeId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => claimThread(thread.id)}
+                        disabled={claimingId === thread.id}
+                      >
+                        {claimingId === thread.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Claim
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </DoctorDashboardLayout>
+  )
+}
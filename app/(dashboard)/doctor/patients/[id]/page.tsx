@@ -53,12 +53,115 @@ interface PatientData {
   allergies: string[]
 }
 
+interface ChartData {
+  demographics: PatientData
+  visitHistory: { id: string; date: string; type: string; reason: string; status: string; visitNote: boolean }[]
+  intakeForms: { id: string; type: string; submittedAt: string; status: string; chiefComplaint: string }[]
+  medications: {
+    id: string
+    name: string
+    dosage: string
+    frequency: string
+    route: string
+    startDate: string
+    status: string
+    prescribedBy: string
+  }[]
+  labs: { id: string; testName: string; orderDate: string; resultDate?: string; status: string; results?: string }[]
+  files: { id: string; fileName: string; category: string; uploadedAt: string; fileSize: number }[]
+  notes: { id: string; date: string; type: string; title: string; content: string }[]
+}
+
+// Free-form history/allergy JSON as display strings
+const toStrings = (value: any): string[] =>
+  Array.isArray(value)
+    ? value
+        .map((item) => (typeof item === "string" ? item : item?.name || item?.allergen || item?.condition || ""))
+        .filter(Boolean)
+    : typeof value === "string" && value
+      ? [value]
+      : []
+
+// Shape the /api/patients/[id] chart for the tabs below
+const toChartData = (data: any): ChartData => ({
+  demographics: {
+    id: data.patient.id,
+    name: data.patient.name,
+    email: data.patient.email || undefined,
+    dateOfBirth: data.patient.dateOfBirth,
+    gender: data.patient.genderIdentity || data.patient.sex || undefined,
+    phoneNumber: data.patient.phone || undefined,
+    address:
+      [
+        data.patient.addressLine1,
+        data.patient.addressLine2,
+        data.patient.city,
+        [data.patient.state, data.patient.postalCode].filter(Boolean).join(" "),
+      ]
+        .filter(Boolean)
+        .join(", ") || undefined,
+    emergencyContact: data.patient.emergencyContact || undefined,
+    insuranceProvider: data.patient.insuranceProvider || undefined,
+    insuranceMemberId: data.patient.insuranceMemberId || undefined,
+    medicalHistory: toStrings(data.patient.pastMedicalHistory).join(", ") || undefined,
+    allergies: toStrings(data.patient.allergies),
+  },
+  visitHistory: (data.appointments || []).map((appointment: any) => ({
+    id: appointment.id,
+    date: appointment.scheduledAt,
+    type: appointment.visitType,
+    reason: appointment.reason || "",
+    status: appointment.status,
+    visitNote: false,
+  })),
+  intakeForms: (data.intakeForms || []).map((form: any) => ({
+    id: form.id,
+    type: form.type,
+    submittedAt: form.submittedAt || form.createdAt,
+    status: form.status,
+    chiefComplaint: form.chiefComplaint || "",
+  })),
+  medications: (data.medications || []).map((medication: any) => ({
+    id: medication.id,
+    name: medication.name,
+    dosage: medication.dosage || "",
+    frequency: medication.frequency || "",
+    route: medication.route || "",
+    startDate: medication.startDate,
+    status: medication.status,
+    prescribedBy: medication.prescribedBy || "",
+  })),
+  labs: (data.labOrders || []).map((order: any) => ({
+    id: order.id,
+    testName: (order.tests || []).join(", "),
+    orderDate: order.orderedAt,
+    resultDate: order.completedAt || undefined,
+    status: order.status,
+    results: typeof order.results === "string" ? order.results : undefined,
+  })),
+  files: (data.files || []).map((file: any) => ({
+    id: file.id,
+    fileName: file.fileName,
+    category: file.category || "other",
+    uploadedAt: file.createdAt,
+    fileSize: file.fileSize,
+  })),
+  notes: (data.visitNotes || []).map((note: any) => ({
+    id: note.id,
+    date: note.signedAt || note.createdAt,
+    type: "Visit Note",
+    title: note.chiefComplaint || "Visit Note",
+    content: note.assessment || note.plan || note.subjective || "",
+  })),
+})
+
 export default function PatientProfilePage() {
   const params = useParams()
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
   const { toast } = useToast()
   const [patientData, setPatientData] = useState<PatientData | null>(null)
+  const [chart, setChart] = useState<ChartData | null>(null)
   const [loading, setLoading] = useState(true)
 
   // Sample/placeholder data
@@ -235,8 +338,9 @@ export default function PatientProfilePage() {
         })
 
         if (response.ok) {
-          const data = await response.json()
-          setPatientData(data)
+          const data = toChartData(await response.json())
+          setChart(data)
+          setPatientData(data.demographics)
         } else {
           // Use sample data as placeholder
           setPatientData(sampleData.demographics as PatientData)
@@ -291,6 +395,7 @@ export default function PatientProfilePage() {
   }
 
   const patient = patientData || sampleData.demographics
+  const chartData: ChartData = chart || sampleData
 
   return (
     <DoctorDashboardLayout>
@@ -456,7 +561,7 @@ export default function PatientProfilePage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {sampleData.visitHistory.map((visit) => (
+                    {chartData.visitHistory.map((visit) => (
                       <TableRow key={visit.id}>
                         <TableCell>{format(parseISO(visit.date), "MMM d, yyyy")}</TableCell>
                         <TableCell className="capitalize">{visit.type.toLowerCase()}</TableCell>
@@ -487,7 +592,7 @@ export default function PatientProfilePage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {sampleData.intakeForms.map((form) => (
+                  {chartData.intakeForms.map((form) => (
                     <Card key={form.id}>
                       <CardHeader>
                         <div className="flex items-center justify-between">
@@ -537,7 +642,7 @@ export default function PatientProfilePage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {sampleData.medications.map((med) => (
+                    {chartData.medications.map((med) => (
                       <TableRow key={med.id}>
                         <TableCell className="font-medium">{med.name}</TableCell>
                         <TableCell>{med.dosage}</TableCell>
@@ -561,7 +666,7 @@ export default function PatientProfilePage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {sampleData.labs.map((lab) => (
+                  {chartData.labs.map((lab) => (
                     <Card key={lab.id}>
                       <CardHeader>
                         <div className="flex items-center justify-between">
@@ -620,7 +725,7 @@ export default function PatientProfilePage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {sampleData.files.map((file) => (
+                    {chartData.files.map((file) => (
                       <TableRow key={file.id}>
                         <TableCell className="font-medium">{file.fileName}</TableCell>
                         <TableCell className="capitalize">
@@ -657,7 +762,7 @@ export default function PatientProfilePage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {sampleData.notes.map((note) => (
+                  {chartData.notes.map((note) => (
                     <Card key={note.id}>
                       <CardHeader>
                         <div className="flex items-center justify-between">
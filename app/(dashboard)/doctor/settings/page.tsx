@@ -51,7 +51,14 @@ interface ClinicInfo {
   website?: string
 }
 
+interface AIModelOption {
+  id: string
+  label: string
+  description: string
+}
+
 interface AISettings {
+  aiModel: string
   soapTone: "professional" | "conversational" | "technical"
   soapStyle: "detailed" | "concise" | "standard"
   formality: "formal" | "semi-formal" | "casual"
@@ -111,7 +118,11 @@ export default function DoctorSettingsPage() {
   })
 
   // AI settings
+  const [aiModels, setAIModels] = useState<AIModelOption[]>([])
+  const [aiLocalProvider, setAILocalProvider] = useState(false)
+  const [aiCanEditModel, setAICanEditModel] = useState(false)
   const [aiSettings, setAISettings] = useState<AISettings>({
+    aiModel: "",
     soapTone: "professional",
     soapStyle: "standard",
     formality: "formal",
@@ -152,9 +163,21 @@ export default function DoctorSettingsPage() {
         const data = await response.json()
         setDoctorProfile(data.doctor)
         setUserProfile(data.user)
-        // TODO: Fetch clinic info, AI settings, payment settings, security settings
+        // TODO: Fetch clinic info, payment settings, security settings
         // For now, using defaults
       }
+
+      const aiResponse = await fetch("/api/doctor/ai-settings", {
+        credentials: "include",
+      })
+
+      if (aiResponse.ok) {
+        const data = await aiResponse.json()
+        setAIModels(data.models || [])
+        setAILocalProvider(Boolean(data.localProvider))
+        setAICanEditModel(Boolean(data.canEdit))
+        setAISettings((prev) => ({ ...prev, aiModel: data.settings.aiModel }))
+      }
     } catch (error: any) {
       console.error("Error fetching settings:", error)
       toast({
@@ -229,11 +252,21 @@ export default function DoctorSettingsPage() {
   const handleSaveAI = async () => {
     setSaving("ai")
     try {
-      // TODO: Implement AI settings save API
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      const response = await fetch("/api/doctor/ai-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ aiModel: aiSettings.aiModel }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to save AI settings")
+      }
+
       toast({
         title: "Success",
-        description: "AI settings updated successfully",
+        description: "Clinic AI model updated successfully",
         variant: "success",
       })
     } catch (error: any) {
@@ -610,11 +643,41 @@ export default function DoctorSettingsPage() {
                 <CardDescription>Customize how AI generates your SOAP notes</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="aiModel">Model</Label>
+                  <Select
+                    value={aiSettings.aiModel}
+                    onValueChange={(value) => setAISettings({ ...aiSettings, aiModel: value })}
+                    disabled={!aiCanEditModel}
+                  >
+                    <SelectTrigger id="aiModel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {aiModels.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {aiLocalProvider
+                      ? "This environment uses the local AI provider; the selected model applies once it is switched off."
+                      : aiModels.find((model) => model.id === aiSettings.aiModel)?.description ||
+                        "Used for SOAP notes and transcript summaries across your clinic."}
+                    {!aiCanEditModel && " Only clinic admins can change the model."}
+                  </p>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Tone, style and note content preferences are not available yet.
+                </p>
                 <div className="space-y-2">
                   <Label htmlFor="soapTone">Tone</Label>
                   <Select
                     value={aiSettings.soapTone}
                     onValueChange={(value: any) => setAISettings({ ...aiSettings, soapTone: value })}
+                    disabled
                   >
                     <SelectTrigger id="soapTone">
                       <SelectValue />
@@ -634,6 +697,7 @@ export default function DoctorSettingsPage() {
                   <Select
                     value={aiSettings.soapStyle}
                     onValueChange={(value: any) => setAISettings({ ...aiSettings, soapStyle: value })}
+                    disabled
                   >
                     <SelectTrigger id="soapStyle">
                       <SelectValue />
@@ -653,6 +717,7 @@ export default function DoctorSettingsPage() {
                   <Select
                     value={aiSettings.formality}
                     onValueChange={(value: any) => setAISettings({ ...aiSettings, formality: value })}
+                    disabled
                   >
                     <SelectTrigger id="formality">
                       <SelectValue />
@@ -675,6 +740,7 @@ export default function DoctorSettingsPage() {
                     <Switch
                       checked={aiSettings.autoGenerate}
                       onCheckedChange={(checked) => setAISettings({ ...aiSettings, autoGenerate: checked })}
+                      disabled
                     />
                   </div>
                   <div className="flex items-center justify-between">
@@ -687,6 +753,7 @@ export default function DoctorSettingsPage() {
                     <Switch
                       checked={aiSettings.includeRisks}
                       onCheckedChange={(checked) => setAISettings({ ...aiSettings, includeRisks: checked })}
+                      disabled
                     />
                   </div>
                   <div className="flex items-center justify-between">
@@ -699,10 +766,11 @@ export default function DoctorSettingsPage() {
                     <Switch
                       checked={aiSettings.includeBillingCodes}
                       onCheckedChange={(checked) => setAISettings({ ...aiSettings, includeBillingCodes: checked })}
+                      disabled
                     />
                   </div>
                 </div>
-                <Button onClick={handleSaveAI} disabled={saving === "ai"}>
+                <Button onClick={handleSaveAI} disabled={saving === "ai" || !aiCanEditModel}>
                   {saving === "ai" ? (
                     <>
                       <Save className="h-4 w-4 mr-2 animate-spin" />
@@ -10,7 +10,12 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useAuth } from "@/contexts/AuthContext"
+import { NoteRevisionHistory } from "@/components/visit-notes/NoteRevisionHistory"
+import { NoteSectionEvidence, type NoteEvidence } from "@/components/visit-notes/NoteSectionEvidence"
+import { CodePicker } from "@/components/visit-notes/CodePicker"
 import {
   FileText,
   Download,
@@ -20,10 +25,31 @@ import {
   Save,
   Loader2,
   AlertCircle,
+  FilePlus,
 } from "lucide-react"
 import { format, parseISO } from "date-fns"
 import { useToast } from "@/components/ui/use-toast"
 
+type NoteSection = "chiefComplaint" | "subjective" | "objective" | "assessment" | "plan"
+
+interface NoteAddendum {
+  id: string
+  kind: "ADDENDUM" | "AMENDMENT"
+  section?: NoteSection | null
+  content: string
+  reason?: string | null
+  authorId: string
+  createdAt: string
+}
+
+const SECTION_LABELS: Record<NoteSection, string> = {
+  chiefComplaint: "Chief Complaint",
+  subjective: "Subjective",
+  objective: "Objective",
+  assessment: "Assessment",
+  plan: "Plan",
+}
+
 interface SOAPNote {
   id: string
   appointmentId: string
@@ -39,8 +65,12 @@ interface SOAPNote {
   followUpDate?: string
   aiGenerated: boolean
   aiModel?: string
+  status?: "DRAFT" | "SIGNED" | "AMENDED"
   signedAt?: string
   signedBy?: string
+  revision?: number
+  addenda?: NoteAddendum[]
+  evidence?: NoteEvidence | null // AI draft statements and their transcript spans
   createdAt: string
   updatedAt: string
 }
@@ -56,6 +86,11 @@ export default function SOAPNoteViewerPage() {
   const [isSaving, setIsSaving] = useState(false)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const autosaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const [addendumKind, setAddendumKind] = useState<NoteAddendum["kind"]>("ADDENDUM")
+  const [addendumSection, setAddendumSection] = useState<NoteSection>("assessment")
+  const [addendumContent, setAddendumContent] = useState("")
+  const [addendumReason, setAddendumReason] = useState("")
+  const [isAddingAddendum, setIsAddingAddendum] = useState(false)
 
   // Sample/placeholder data
   const sampleSOAPNote: SOAPNote = {
@@ -192,6 +227,12 @@ Recent Labs (from 2024-01-15):
     setHasUnsavedChanges(true)
   }
 
+  const handleCodesChange = (field: "diagnosis" | "procedures", codes: string[]) => {
+    if (!soapNote) return
+    setSoapNote({ ...soapNote, [field]: codes })
+    setHasUnsavedChanges(true)
+  }
+
   const handleSave = async () => {
     if (!soapNote) return
 
@@ -208,10 +249,15 @@ Recent Labs (from 2024-01-15):
           plan: soapNote.plan,
           diagnosis: soapNote.diagnosis,
           procedures: soapNote.procedures,
+          updatedAt: soapNote.updatedAt, // Rejected with 409 if the note changed elsewhere
         }),
       })
 
       if (response.ok) {
+        const data = await response.json()
+        setSoapNote((current) =>
+          current ? { ...current, updatedAt: data.updatedAt, revision: data.revision } : current
+        )
         setHasUnsavedChanges(false)
         toast({
           title: "Saved",
@@ -219,12 +265,13 @@ Recent Labs (from 2024-01-15):
           variant: "success",
         })
       } else {
-        throw new Error("Failed to save")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to save SOAP note. Please try again.")
       }
     } catch (error) {
       toast({
         title: "Save Error",
-        description: "Failed to save SOAP note. Please try again.",
+        description: (error as Error).message,
         variant: "destructive",
       })
     } finally {
@@ -244,7 +291,13 @@ Recent Labs (from 2024-01-15):
 
       if (response.ok) {
         const data = await response.json()
-        setSoapNote({ ...soapNote, signedAt: data.signedAt, signedBy: data.signedBy })
+        setSoapNote({
+          ...soapNote,
+          status: data.status,
+          signedAt: data.signedAt,
+          signedBy: data.signedBy,
+          updatedAt: data.updatedAt,
+        })
         setIsEditing(false)
         toast({
           title: "Approved",
@@ -252,12 +305,13 @@ Recent Labs (from 2024-01-15):
           variant: "success",
         })
       } else {
-        throw new Error("Failed to approve")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to approve SOAP note. Please try again.")
       }
     } catch (error) {
       toast({
         title: "Approval Error",
-        description: "Failed to approve SOAP note. Please try again.",
+        description: (error as Error).message,
         variant: "destructive",
       })
     } finally {
@@ -265,6 +319,51 @@ Recent Labs (from 2024-01-15):
     }
   }
 
+  const handleAddAddendum = async () => {
+    if (!soapNote || !addendumContent.trim()) return
+
+    setIsAddingAddendum(true)
+    try {
+      const isAmendment = addendumKind === "AMENDMENT"
+      const response = await fetch(`/api/visit-notes/${soapNote.id}/addenda`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          kind: addendumKind,
+          content: addendumContent,
+          ...(isAmendment && { section: addendumSection, reason: addendumReason }),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add addendum. Please try again.")
+      }
+
+      setSoapNote({
+        ...soapNote,
+        status: isAmendment ? "AMENDED" : soapNote.status,
+        addenda: [...(soapNote.addenda || []), data.addendum],
+      })
+      setAddendumContent("")
+      setAddendumReason("")
+      toast({
+        title: isAmendment ? "Amended" : "Addendum added",
+        description: "The signed note is unchanged; this entry has been appended to it.",
+        variant: "success",
+      })
+    } catch (error) {
+      toast({
+        title: "Addendum Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsAddingAddendum(false)
+    }
+  }
+
   const handleDownloadPDF = () => {
     // TODO: Implement PDF generation
     toast({
@@ -292,7 +391,7 @@ Recent Labs (from 2024-01-15):
     )
   }
 
-  const isSigned = !!soapNote.signedAt
+  const isSigned = (soapNote.status && soapNote.status !== "DRAFT") || !!soapNote.signedAt
 
   return (
     <DoctorDashboardLayout>
@@ -318,7 +417,7 @@ Recent Labs (from 2024-01-15):
             {isSigned && (
               <Badge variant="default" className="gap-2">
                 <CheckCircle2 className="h-3 w-3" />
-                Signed
+                {soapNote.status === "AMENDED" ? "Signed • Amended" : "Signed"}
               </Badge>
             )}
             {soapNote.aiGenerated && (
@@ -420,6 +519,9 @@ Recent Labs (from 2024-01-15):
                     </p>
                   </div>
                 )}
+                {!isEditing && soapNote.evidence && (
+                  <NoteSectionEvidence section="subjective" evidence={soapNote.evidence} />
+                )}
               </TabsContent>
 
               <TabsContent value="objective" className="mt-4">
@@ -437,6 +539,9 @@ Recent Labs (from 2024-01-15):
                     </p>
                   </div>
                 )}
+                {!isEditing && soapNote.evidence && (
+                  <NoteSectionEvidence section="objective" evidence={soapNote.evidence} />
+                )}
               </TabsContent>
 
               <TabsContent value="assessment" className="mt-4">
@@ -454,6 +559,9 @@ Recent Labs (from 2024-01-15):
                     </p>
                   </div>
                 )}
+                {!isEditing && soapNote.evidence && (
+                  <NoteSectionEvidence section="assessment" evidence={soapNote.evidence} />
+                )}
               </TabsContent>
 
               <TabsContent value="plan" className="mt-4">
@@ -471,49 +579,187 @@ Recent Labs (from 2024-01-15):
                     </p>
                   </div>
                 )}
+                {!isEditing && soapNote.evidence && (
+                  <NoteSectionEvidence section="plan" evidence={soapNote.evidence} />
+                )}
               </TabsContent>
             </CardContent>
           </Tabs>
         </Card>
 
         {/* Additional Information */}
-        <div className="grid gap-4 md:grid-cols-2">
-          {/* Diagnosis Codes */}
-          {soapNote.diagnosis && soapNote.diagnosis.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Diagnosis Codes (ICD-10)</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex flex-wrap gap-2">
-                  {soapNote.diagnosis.map((code, index) => (
-                    <Badge key={index} variant="outline">
-                      {code}
-                    </Badge>
+        {isEditing ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <CodePicker
+              system="ICD10"
+              title="Diagnosis Codes (ICD-10)"
+              codes={soapNote.diagnosis || []}
+              suggestFrom={[soapNote.assessment, soapNote.plan].filter(Boolean).join("\n")}
+              onChange={(codes) => handleCodesChange("diagnosis", codes)}
+            />
+            <CodePicker
+              system="CPT"
+              title="Procedure Codes (CPT)"
+              codes={soapNote.procedures || []}
+              suggestFrom={[soapNote.assessment, soapNote.plan].filter(Boolean).join("\n")}
+              onChange={(codes) => handleCodesChange("procedures", codes)}
+            />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {/* Diagnosis Codes */}
+            {soapNote.diagnosis && soapNote.diagnosis.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Diagnosis Codes (ICD-10)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {soapNote.diagnosis.map((code, index) => (
+                      <Badge key={index} variant="outline">
+                        {code}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Procedure Codes */}
+            {soapNote.procedures && soapNote.procedures.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Procedure Codes (CPT)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {soapNote.procedures.map((code, index) => (
+                      <Badge key={index} variant="outline">
+                        {code}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
+        {/* Version History */}
+        {soapNote.revision && (
+          <NoteRevisionHistory
+            noteId={soapNote.id}
+            currentRevision={soapNote.revision}
+            canRestore={!isSigned}
+            onRestored={(note) => {
+              setSoapNote({ ...soapNote, ...note })
+              setHasUnsavedChanges(false)
+            }}
+          />
+        )}
+
+        {/* Addenda & Amendments (append-only once signed) */}
+        {isSigned && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Addenda &amp; Amendments</CardTitle>
+              <CardDescription>
+                The signed note is locked. Later information and corrections are appended below.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {soapNote.addenda && soapNote.addenda.length > 0 ? (
+                <div className="space-y-3">
+                  {soapNote.addenda.map((addendum) => (
+                    <div key={addendum.id} className="rounded-md border p-3 text-sm">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge variant={addendum.kind === "AMENDMENT" ? "destructive" : "secondary"}>
+                          {addendum.kind === "AMENDMENT" ? "Amendment" : "Addendum"}
+                        </Badge>
+                        {addendum.section && (
+                          <span className="font-medium">{SECTION_LABELS[addendum.section]}</span>
+                        )}
+                        <span className="text-muted-foreground ml-auto">
+                          {format(parseISO(addendum.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                        </span>
+                      </div>
+                      <p className="whitespace-pre-wrap leading-relaxed">{addendum.content}</p>
+                      {addendum.reason && (
+                        <p className="text-muted-foreground mt-2">Reason: {addendum.reason}</p>
+                      )}
+                    </div>
                   ))}
                 </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Procedure Codes */}
-          {soapNote.procedures && soapNote.procedures.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Procedure Codes (CPT)</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex flex-wrap gap-2">
-                  {soapNote.procedures.map((code, index) => (
-                    <Badge key={index} variant="outline">
-                      {code}
-                    </Badge>
-                  ))}
+              ) : (
+                <p className="text-sm text-muted-foreground">No addenda.</p>
+              )}
+
+              <div className="space-y-3 border-t pt-4">
+                <div className="grid gap-3 md:grid-cols-2">
+                  <Select
+                    value={addendumKind}
+                    onValueChange={(value) => setAddendumKind(value as NoteAddendum["kind"])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ADDENDUM">Addendum</SelectItem>
+                      <SelectItem value="AMENDMENT">Amendment (correct a section)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {addendumKind === "AMENDMENT" && (
+                    <Select
+                      value={addendumSection}
+                      onValueChange={(value) => setAddendumSection(value as NoteSection)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SECTION_LABELS) as NoteSection[]).map((section) => (
+                          <SelectItem key={section} value={section}>
+                            {SECTION_LABELS[section]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
-              </CardContent>
-            </Card>
-          )}
-        </div>
+                <Textarea
+                  value={addendumContent}
+                  onChange={(e) => setAddendumContent(e.target.value)}
+                  className="min-h-[120px] text-sm"
+                  placeholder={
+                    addendumKind === "AMENDMENT" ? "Corrected section text..." : "Additional information..."
+                  }
+                />
+                {addendumKind === "AMENDMENT" && (
+                  <Input
+                    value={addendumReason}
+                    onChange={(e) => setAddendumReason(e.target.value)}
+                    placeholder="Reason for amendment"
+                  />
+                )}
+                <Button
+                  onClick={handleAddAddendum}
+                  disabled={
+                    isAddingAddendum ||
+                    !addendumContent.trim() ||
+                    (addendumKind === "AMENDMENT" && !addendumReason.trim())
+                  }
+                >
+                  {isAddingAddendum ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FilePlus className="h-4 w-4 mr-2" />
+                  )}
+                  {addendumKind === "AMENDMENT" ? "Add Amendment" : "Add Addendum"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Metadata */}
         <Card>
@@ -0,0 +1,181 @@
+'use client'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+
+interface Doctor {
+  id: string
+  specialization?: string | null
+  credentials: string[]
+}
+
+const CARE_TEAM = 'care-team'
+
+const CATEGORIES = [
+  { value: 'GENERAL', label: 'General question' },
+  { value: 'CLINICAL', label: 'Symptoms or medical question' },
+  { value: 'REFILL', label: 'Prescription refill' },
+  { value: 'BILLING', label: 'Billing' },
+  { value: 'SCHEDULING', label: 'Scheduling' },
+]
+
+const doctorLabel = (doctor: Doctor) =>
+  [doctor.specialization || 'General practice', doctor.credentials.join(', ')].filter(Boolean).join(' · ')
+
+export default function NewMessagePage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const [doctors, setDoctors] = useState<Doctor[]>([])
+  const [doctorId, setDoctorId] = useState(CARE_TEAM)
+  const [category, setCategory] = useState('GENERAL')
+  const [subject, setSubject] = useState('')
+  const [content, setContent] = useState('')
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!loading && (!user || user.role !== 'patient')) {
+      router.push('/dashboard')
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    const fetchDoctors = async () => {
+      try {
+        const response = await fetch('/api/doctors', { credentials: 'include' })
+        if (!response.ok) {
+          throw new Error('Failed to load doctors')
+        }
+        const data = await response.json()
+        setDoctors(data.doctors || [])
+      } catch (err) {
+        console.error('Error fetching doctors:', err)
+      }
+    }
+
+    if (user) {
+      fetchDoctors()
+    }
+  }, [user])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!doctorId || !content.trim()) return
+
+    setSending(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/messages/threads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          doctorId: doctorId === CARE_TEAM ? undefined : doctorId,
+          category,
+          subject: subject.trim() || undefined,
+          content: content.trim(),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message')
+      }
+
+      router.push(`/patient/messages/${data.thread.id}`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to send message')
+      setSending(false)
+    }
+  }
+
+  if (loading || !user) {
+    return <div className="text-center py-12">Loading...</div>
+  }
+
+  return (
+    <div className="max-w-2xl">
+      <button
+        onClick={() => router.push('/patient/messages')}
+        className="text-blue-600 hover:text-blue-800 mb-2"
+      >
+        ← Back to Messages
+      </button>
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">New Message</h1>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+        <div>
+          <label htmlFor="doctor" className="block text-sm font-medium text-gray-700 mb-1">
+            To
+          </label>
+          <select
+            id="doctor"
+            value={doctorId}
+            onChange={(e) => setDoctorId(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          >
+            <option value={CARE_TEAM}>Care team</option>
+            {doctors.map((doctor) => (
+              <option key={doctor.id} value={doctor.id}>
+                {doctorLabel(doctor)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+            What is this about?
+          </label>
+          <select
+            id="category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CATEGORIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="subject" className="block text-sm font-medium text-gray-700 mb-1">
+            Subject (optional)
+          </label>
+          <input
+            id="subject"
+            type="text"
+            value={subject}
+            maxLength={200}
+            onChange={(e) => setSubject(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-1">
+            Message
+          </label>
+          <textarea
+            id="content"
+            value={content}
+            maxLength={10000}
+            rows={6}
+            onChange={(e) => setContent(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={sending || !doctorId || !content.trim()}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {sending ? 'Sending...' : 'Send'}
+        </button>
+      </form>
+    </div>
+  )
+}
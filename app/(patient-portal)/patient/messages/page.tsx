@@ -1,10 +1,5 @@
 'use client'
 
-// TODO: Messages page
-// TODO: List message threads with doctors
-// TODO: View and send messages
-// TODO: Real-time updates
-
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
@@ -21,14 +16,22 @@ interface Message {
 
 interface MessageThread {
   id: string
+  subject?: string | null
   doctor: {
-    name: string
-    specialization?: string
-  }
-  lastMessage: Message
+    specialization?: string | null
+    credentials: string[]
+  } | null // Null for threads with the clinic's care team
+  lastMessage: Message | null
   unreadCount: number
+  lastMessageAt: string
 }
 
+const doctorLabel = (doctor: MessageThread['doctor']) =>
+  doctor
+    ? [doctor.specialization || 'Your doctor', doctor.credentials.join(', ')].filter(Boolean).join(' · ')
+    : 'Care team'
+
+
 export default function MessagesPage() {
   const { user, loading } = useAuth()
   const router = useRouter()
@@ -53,7 +56,7 @@ export default function MessagesPage() {
         }
 
         const data = await response.json()
-        setThreads(data)
+        setThreads(data.threads || [])
       } catch (error) {
         console.error('Error fetching threads:', error)
       } finally {
@@ -64,7 +67,7 @@ export default function MessagesPage() {
     if (user) {
       fetchThreads()
       
-      // Set up real-time updates via polling (can be upgraded to WebSocket/SSE)
+      // Thread list refreshes by polling; open threads stream live updates
       const interval = setInterval(fetchThreads, 30000) // Poll every 30 seconds
       
       return () => clearInterval(interval)
@@ -91,7 +94,7 @@ export default function MessagesPage() {
         <div className="bg-white rounded-lg shadow-sm p-12 text-center">
           <span className="text-5xl block mb-4">💬</span>
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No messages</h3>
-          <p className="text-gray-600 mb-6">Start a conversation with your doctor.</p>
+          <p className="text-gray-600 mb-6">Start a conversation with your doctor or care team.</p>
           <Link
             href="/patient/messages/new"
             className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -111,11 +114,11 @@ export default function MessagesPage() {
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="text-lg font-semibold text-gray-900">
-                      {thread.doctor.name}
+                      {thread.subject || doctorLabel(thread.doctor)}
                     </h3>
-                    {thread.doctor.specialization && (
+                    {thread.subject && (
                       <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded">
-                        {thread.doctor.specialization}
+                        {doctorLabel(thread.doctor)}
                       </span>
                     )}
                     {thread.unreadCount > 0 && (
@@ -124,9 +127,11 @@ export default function MessagesPage() {
                       </span>
                     )}
                   </div>
-                  <p className="text-gray-600 mb-1 line-clamp-2">{thread.lastMessage.content}</p>
+                  {thread.lastMessage && (
+                    <p className="text-gray-600 mb-1 line-clamp-2">{thread.lastMessage.content}</p>
+                  )}
                   <p className="text-sm text-gray-500">
-                    {new Date(thread.lastMessage.createdAt).toLocaleDateString()}
+                    {new Date(thread.lastMessageAt).toLocaleDateString()}
                   </p>
                 </div>
                 <span className="text-2xl ml-4">→</span>
@@ -31,7 +31,7 @@ export default function PatientDashboard() {
         const appointmentsRes = await fetch('/api/appointments/patient?upcoming=true', {
           credentials: 'include',
         })
-        const appointments = appointmentsRes.ok ? await appointmentsRes.json() : []
+        const appointments = appointmentsRes.ok ? (await appointmentsRes.json()).appointments || [] : []
 
         // Fetch forms
         const patientRes = await fetch('/api/patient/profile', { credentials: 'include' })
@@ -47,8 +47,8 @@ export default function PatientDashboard() {
           const messagesRes = await fetch('/api/messages/threads', {
             credentials: 'include',
           })
-          const threads = messagesRes.ok ? await messagesRes.json() : []
-          const unreadMessages = threads.reduce((sum: number, t: any) => sum + (t.unreadCount || 0), 0)
+          const messagesData = messagesRes.ok ? await messagesRes.json() : null
+          const unreadMessages = messagesData?.unreadCount || 0
 
           setStats({
             upcomingVisits: appointments.length,
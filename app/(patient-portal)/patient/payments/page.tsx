@@ -106,7 +106,7 @@ export default function PatientBillingPage() {
         credentials: "include",
       })
       if (appointmentsResponse.ok) {
-        const appointments = await appointmentsResponse.ok ? await appointmentsResponse.json() : []
+        const { appointments = [] } = await appointmentsResponse.json()
         // Filter for completed appointments without payments
         const charges: VisitCharge[] = appointments
           .filter((apt: any) => apt.status === "COMPLETED" && !apt.paymentId)
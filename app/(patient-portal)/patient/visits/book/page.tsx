@@ -0,0 +1,485 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { addDays, endOfDay, format, parseISO, startOfDay } from "date-fns"
+import {
+  ArrowLeft,
+  CalendarCheck,
+  ClipboardList,
+  Hourglass,
+  Loader2,
+  MapPin,
+  MessageSquare,
+  Phone,
+  Stethoscope,
+  Video,
+} from "lucide-react"
+import { AppointmentCalendar, CalendarSlot } from "@/components/AppointmentCalendar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { PageSkeleton } from "@/components/ui/loading-skeletons"
+
+type VisitType = "VIDEO" | "PHONE" | "IN_PERSON" | "CHAT"
+
+interface Doctor {
+  id: string
+  specialization?: string | null
+  credentials: string[]
+  languages: string[]
+  bio?: string | null
+}
+
+interface IntakeFormOption {
+  id: string
+  title: string
+  type: string
+  status: string
+}
+
+interface RescheduleTarget {
+  id: string
+  doctorId: string
+  scheduledAt: string
+  duration: number
+  visitType: VisitType
+  reason?: string | null
+}
+
+const VISIT_TYPES: { value: VisitType; label: string; icon: typeof Video }[] = [
+  { value: "VIDEO", label: "Video visit", icon: Video },
+  { value: "PHONE", label: "Phone call", icon: Phone },
+  { value: "IN_PERSON", label: "In person", icon: MapPin },
+  { value: "CHAT", label: "Chat", icon: MessageSquare },
+]
+
+const NO_INTAKE_FORM = "none"
+
+const doctorLabel = (doctor: Doctor) =>
+  [doctor.specialization || "General practice", doctor.credentials.join(", ")].filter(Boolean).join(" · ")
+
+export default function BookAppointmentPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const rescheduleId = searchParams.get("reschedule")
+
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [patientId, setPatientId] = useState<string | null>(null)
+  const [doctors, setDoctors] = useState<Doctor[]>([])
+  const [intakeForms, setIntakeForms] = useState<IntakeFormOption[]>([])
+  const [rescheduleTarget, setRescheduleTarget] = useState<RescheduleTarget | null>(null)
+
+  const [doctorId, setDoctorId] = useState<string>("")
+  const [visitType, setVisitType] = useState<VisitType>("VIDEO")
+  const [reason, setReason] = useState("")
+  const [selectedSlot, setSelectedSlot] = useState<CalendarSlot | null>(null)
+  const [intakeFormId, setIntakeFormId] = useState<string>(NO_INTAKE_FORM)
+
+  const [waitlistFrom, setWaitlistFrom] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [waitlistTo, setWaitlistTo] = useState(() => format(addDays(new Date(), 14), "yyyy-MM-dd"))
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false)
+
+  useEffect(() => {
+    fetchInitialData()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rescheduleId])
+
+  const fetchInitialData = async () => {
+    try {
+      const [profileResponse, doctorsResponse, formsResponse] = await Promise.all([
+        fetch("/api/patient/profile", { credentials: "include" }),
+        fetch("/api/doctors", { credentials: "include" }),
+        fetch("/api/patient/intake-forms?attachable=true", { credentials: "include" }),
+      ])
+
+      if (profileResponse.ok) {
+        const profile = await profileResponse.json()
+        setPatientId(profile.id)
+      }
+
+      if (doctorsResponse.ok) {
+        const data = await doctorsResponse.json()
+        setDoctors(data.doctors || [])
+      }
+
+      if (formsResponse.ok) {
+        const data = await formsResponse.json()
+        setIntakeForms(data.forms || [])
+      }
+
+      if (rescheduleId) {
+        const appointmentResponse = await fetch(`/api/appointments/${rescheduleId}`, {
+          credentials: "include",
+        })
+        if (!appointmentResponse.ok) {
+          throw new Error("Appointment not found")
+        }
+        const appointment: RescheduleTarget = await appointmentResponse.json()
+        setRescheduleTarget(appointment)
+        setDoctorId(appointment.doctorId)
+        setVisitType(appointment.visitType)
+        setReason(appointment.reason || "")
+      }
+    } catch (error: any) {
+      console.error("Error loading booking data:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load booking options",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectDoctor = (id: string) => {
+    setDoctorId(id)
+    setSelectedSlot(null)
+  }
+
+  const handleSubmit = async () => {
+    if (!selectedSlot || !doctorId) return
+
+    setSubmitting(true)
+    try {
+      const response = rescheduleTarget
+        ? await fetch(`/api/appointments/${rescheduleTarget.id}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({
+              scheduledAt: selectedSlot.start,
+              visitType,
+              reason: reason || undefined,
+            }),
+          })
+        : await fetch("/api/appointments", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({
+              doctorId,
+              patientId,
+              scheduledAt: selectedSlot.start,
+              duration: Math.round(
+                (parseISO(selectedSlot.end).getTime() - parseISO(selectedSlot.start).getTime()) / 60000
+              ),
+              visitType,
+              reason: reason || undefined,
+              intakeFormId: intakeFormId === NO_INTAKE_FORM ? undefined : intakeFormId,
+            }),
+          })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to book appointment")
+      }
+
+      toast({
+        title: rescheduleTarget ? "Appointment Rescheduled" : "Appointment Booked",
+        description: `Your visit is on ${format(parseISO(selectedSlot.start), "EEEE, MMMM d 'at' h:mm a")}.`,
+      })
+      router.push("/patient/visits")
+    } catch (error: any) {
+      toast({
+        title: rescheduleTarget ? "Reschedule Failed" : "Booking Failed",
+        description: error.message || "Please choose another time and try again.",
+        variant: "destructive",
+      })
+      // The slot may have just been taken; make the patient pick again
+      setSelectedSlot(null)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleJoinWaitlist = async () => {
+    if (!doctorId) return
+
+    setJoiningWaitlist(true)
+    try {
+      const response = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          doctorId,
+          earliestAt: startOfDay(parseISO(waitlistFrom)).toISOString(),
+          latestAt: endOfDay(parseISO(waitlistTo)).toISOString(),
+          visitTypes: [visitType],
+          reason: reason || undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to join the waitlist")
+      }
+
+      toast({
+        title: "Added to Waitlist",
+        description: "We'll notify you if an earlier time opens up.",
+      })
+      router.push("/patient/visits")
+    } catch (error: any) {
+      toast({
+        title: "Could Not Join Waitlist",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setJoiningWaitlist(false)
+    }
+  }
+
+  if (loading) {
+    return <PageSkeleton />
+  }
+
+  const selectedDoctor = doctors.find((d) => d.id === doctorId)
+  const canSubmit = !!selectedSlot && !!doctorId && (!!patientId || !!rescheduleTarget) && !submitting
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      {/* Header */}
+      <div>
+        <Button variant="ghost" asChild className="mb-2 -ml-3">
+          <Link href="/patient/visits">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to appointments
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">
+          {rescheduleTarget ? "Reschedule Appointment" : "Book an Appointment"}
+        </h1>
+        {rescheduleTarget && (
+          <p className="text-muted-foreground mt-2">
+            Currently scheduled for{" "}
+            {format(parseISO(rescheduleTarget.scheduledAt), "EEEE, MMMM d 'at' h:mm a")}
+          </p>
+        )}
+      </div>
+
+      {/* Step 1: Doctor */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Stethoscope className="h-5 w-5" />
+            1. Choose a doctor
+          </CardTitle>
+          {rescheduleTarget && (
+            <CardDescription>To see a different doctor, cancel this visit and book a new one.</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {doctors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No doctors are currently accepting online bookings. Please contact your clinic.
+            </p>
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {doctors.map((doctor) => (
+                <button
+                  key={doctor.id}
+                  type="button"
+                  onClick={() => handleSelectDoctor(doctor.id)}
+                  disabled={!!rescheduleTarget && doctor.id !== doctorId}
+                  className={`text-left rounded-lg border p-4 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    doctor.id === doctorId ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <p className="font-semibold">{doctorLabel(doctor)}</p>
+                  {doctor.languages.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Speaks {doctor.languages.join(", ")}
+                    </p>
+                  )}
+                  {doctor.bio && <p className="text-sm text-muted-foreground mt-2 line-clamp-2">{doctor.bio}</p>}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step 2: Visit type and reason */}
+      <Card>
+        <CardHeader>
+          <CardTitle>2. Visit details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RadioGroup
+            value={visitType}
+            onValueChange={(value) => setVisitType(value as VisitType)}
+            className="grid grid-cols-2 sm:grid-cols-4 gap-3"
+          >
+            {VISIT_TYPES.map(({ value, label, icon: Icon }) => (
+              <Label
+                key={value}
+                htmlFor={`visit-${value}`}
+                className={`flex items-center gap-2 rounded-lg border p-3 cursor-pointer ${
+                  visitType === value ? "border-primary bg-primary/5" : ""
+                }`}
+              >
+                <RadioGroupItem id={`visit-${value}`} value={value} />
+                <Icon className="h-4 w-4" />
+                {label}
+              </Label>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason for visit (optional)</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              maxLength={5000}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Briefly describe what you'd like to discuss"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Step 3: Time */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            3. Pick a time
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {doctorId ? (
+            <AppointmentCalendar
+              doctorId={doctorId}
+              duration={rescheduleTarget?.duration}
+              selectedSlot={selectedSlot}
+              onSelectSlot={setSelectedSlot}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">Choose a doctor to see available times.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Waitlist (new bookings only) */}
+      {!rescheduleTarget && doctorId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              No time that works?
+            </CardTitle>
+            <CardDescription>
+              Join the waitlist and we&apos;ll offer you a slot if one opens up in your preferred dates.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-from">Earliest date</Label>
+              <Input
+                id="waitlist-from"
+                type="date"
+                value={waitlistFrom}
+                min={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setWaitlistFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-to">Latest date</Label>
+              <Input
+                id="waitlist-to"
+                type="date"
+                value={waitlistTo}
+                min={waitlistFrom}
+                onChange={(e) => setWaitlistTo(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleJoinWaitlist}
+              disabled={joiningWaitlist || !waitlistFrom || !waitlistTo || waitlistTo < waitlistFrom}
+            >
+              {joiningWaitlist && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Join Waitlist
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Step 4: Intake form (new bookings only) */}
+      {!rescheduleTarget && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              4. Attach an intake form (optional)
+            </CardTitle>
+            <CardDescription>Share a pre-visit form so your doctor can prepare</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {intakeForms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no intake forms to attach.</p>
+            ) : (
+              <Select value={intakeFormId} onValueChange={setIntakeFormId}>
+                <SelectTrigger className="max-w-md">
+                  <SelectValue placeholder="Select a form" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_INTAKE_FORM}>No form</SelectItem>
+                  {intakeForms.map((form) => (
+                    <SelectItem key={form.id} value={form.id}>
+                      {form.title} ({form.type.replace("_", " ").toLowerCase()}
+                      {form.status === "DRAFT" ? ", not submitted yet" : ""})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Confirm */}
+      <Card>
+        <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-6">
+          <div className="space-y-1">
+            {selectedSlot && selectedDoctor ? (
+              <>
+                <p className="font-medium">
+                  {format(parseISO(selectedSlot.start), "EEEE, MMMM d 'at' h:mm a")}
+                </p>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>{doctorLabel(selectedDoctor)}</span>
+                  <Badge variant="secondary">{visitType.replace("_", " ")}</Badge>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select a doctor and a time to continue.</p>
+            )}
+          </div>
+          <Button size="lg" onClick={handleSubmit} disabled={!canSubmit}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {rescheduleTarget ? "Confirm New Time" : "Confirm Booking"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -7,6 +7,14 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import { PageSkeleton } from "@/components/ui/loading-skeletons"
 import {
   Calendar,
@@ -22,6 +30,7 @@ import {
   CheckCircle2,
   XCircle,
   AlertCircle,
+  Hourglass,
 } from "lucide-react"
 import { format, parseISO, isPast, isToday, isFuture } from "date-fns"
 import Link from "next/link"
@@ -34,21 +43,49 @@ interface Appointment {
   visitType: "VIDEO" | "PHONE" | "IN_PERSON" | "CHAT"
   reason?: string
   meetingUrl?: string
+  rescheduleBy?: string | null // Last moment the patient may reschedule online
+  cancelBy?: string | null // Last moment the patient may cancel online
   doctor: {
     id: string
-    name: string
+    name?: string
     specialization?: string
+    credentials?: string[]
   }
   visitNote?: {
     id: string
   }
 }
 
+interface WaitlistEntry {
+  id: string
+  earliestAt: string
+  latestAt: string
+  visitTypes: Appointment["visitType"][]
+  status: "ACTIVE" | "OFFERED"
+  doctor: Appointment["doctor"]
+  offers: { id: string; scheduledAt: string; expiresAt: string }[]
+}
+
+interface SchedulingPolicy {
+  rescheduleCutoffHours: number
+  cancellationCutoffHours: number
+}
+
+const doctorDisplayName = (doctor: Appointment["doctor"]) =>
+  doctor.name || [doctor.specialization || "Your doctor", doctor.credentials?.join(", ")].filter(Boolean).join(", ")
+
+const isBeforeDeadline = (deadline?: string | null) => !!deadline && new Date(deadline) > new Date()
+
 export default function PatientAppointmentsPage() {
   const { toast } = useToast()
   const [upcomingAppointments, setUpcomingAppointments] = useState<Appointment[]>([])
   const [pastAppointments, setPastAppointments] = useState<Appointment[]>([])
   const [loading, setLoading] = useState(true)
+  const [policy, setPolicy] = useState<SchedulingPolicy | null>(null)
+  const [cancelTarget, setCancelTarget] = useState<Appointment | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([])
+  const [leavingWaitlistId, setLeavingWaitlistId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchAppointments()
@@ -63,7 +100,8 @@ export default function PatientAppointmentsPage() {
 
       if (upcomingResponse.ok) {
         const upcomingData = await upcomingResponse.json()
-        setUpcomingAppointments(upcomingData || [])
+        setUpcomingAppointments(upcomingData.appointments || [])
+        setPolicy(upcomingData.policy || null)
       }
 
       // Fetch past appointments
@@ -73,7 +111,7 @@ export default function PatientAppointmentsPage() {
 
       if (pastResponse.ok) {
         const pastData = await pastResponse.json()
-        setPastAppointments(pastData || [])
+        setPastAppointments(pastData.appointments || [])
       } else {
         // Fallback: filter from all appointments
         const allResponse = await fetch("/api/appointments/patient", {
@@ -82,13 +120,22 @@ export default function PatientAppointmentsPage() {
         if (allResponse.ok) {
           const allData = await allResponse.json()
           const now = new Date()
-          const past = (allData || []).filter((apt: Appointment) => {
+          const past = (allData.appointments || []).filter((apt: Appointment) => {
             const aptDate = parseISO(apt.scheduledAt)
             return aptDate < now || apt.status === "COMPLETED"
           })
           setPastAppointments(past)
         }
       }
+
+      // Fetch open waitlist entries
+      const waitlistResponse = await fetch("/api/waitlist", {
+        credentials: "include",
+      })
+      if (waitlistResponse.ok) {
+        const waitlistData = await waitlistResponse.json()
+        setWaitlistEntries(waitlistData.entries || [])
+      }
     } catch (error) {
       console.error("Error fetching appointments:", error)
       toast({
@@ -113,6 +160,65 @@ export default function PatientAppointmentsPage() {
     }
   }
 
+  const handleCancel = async () => {
+    if (!cancelTarget) return
+
+    setCancelling(true)
+    try {
+      const response = await fetch(`/api/appointments/${cancelTarget.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel appointment")
+      }
+
+      setUpcomingAppointments((prev) => prev.filter((apt) => apt.id !== cancelTarget.id))
+      toast({
+        title: "Appointment Cancelled",
+        description: "Your appointment has been cancelled.",
+      })
+      setCancelTarget(null)
+    } catch (error: any) {
+      toast({
+        title: "Cancellation Failed",
+        description: error.message || "Please contact the clinic to cancel.",
+        variant: "destructive",
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    setLeavingWaitlistId(entryId)
+    try {
+      const response = await fetch(`/api/waitlist/${entryId}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to leave the waitlist")
+      }
+
+      setWaitlistEntries((prev) => prev.filter((entry) => entry.id !== entryId))
+      toast({
+        title: "Removed from Waitlist",
+        description: "You will no longer be offered earlier times.",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to leave the waitlist",
+        variant: "destructive",
+      })
+    } finally {
+      setLeavingWaitlistId(null)
+    }
+  }
+
   const handleDownloadSummary = async (appointmentId: string) => {
     try {
       // TODO: Implement PDF download
@@ -213,6 +319,10 @@ export default function PatientAppointmentsPage() {
               <FileText className="h-4 w-4 mr-2" />
               Past Visits ({pastAppointments.length})
             </TabsTrigger>
+            <TabsTrigger value="waitlist">
+              <Hourglass className="h-4 w-4 mr-2" />
+              Waitlist ({waitlistEntries.length})
+            </TabsTrigger>
           </TabsList>
 
           {/* Upcoming Appointments */}
@@ -239,6 +349,8 @@ export default function PatientAppointmentsPage() {
                   const appointmentDate = parseISO(appointment.scheduledAt)
                   const canJoin = appointment.meetingUrl && (isToday(appointmentDate) || isPast(appointmentDate))
                   const isSoon = appointmentDate.getTime() - Date.now() < 30 * 60 * 1000 // 30 minutes
+                  const canReschedule = isBeforeDeadline(appointment.rescheduleBy)
+                  const canCancel = isBeforeDeadline(appointment.cancelBy)
 
                   return (
                     <Card key={appointment.id} className="hover:shadow-md transition-shadow">
@@ -248,7 +360,7 @@ export default function PatientAppointmentsPage() {
                             <div className="flex items-start justify-between">
                               <div>
                                 <div className="flex items-center gap-3 mb-2">
-                                  <h3 className="text-xl font-semibold">{appointment.doctor.name}</h3>
+                                  <h3 className="text-xl font-semibold">{doctorDisplayName(appointment.doctor)}</h3>
                                   {getStatusBadge(appointment.status)}
                                 </div>
                                 {appointment.doctor.specialization && (
@@ -315,6 +427,29 @@ export default function PatientAppointmentsPage() {
                                 View Details
                               </Link>
                             </Button>
+                            {canReschedule && (
+                              <Button variant="outline" asChild className="w-full">
+                                <Link href={`/patient/visits/book?reschedule=${appointment.id}`}>
+                                  <CalendarClock className="h-4 w-4 mr-2" />
+                                  Reschedule
+                                </Link>
+                              </Button>
+                            )}
+                            {canCancel && (
+                              <Button
+                                variant="ghost"
+                                className="w-full text-destructive hover:text-destructive"
+                                onClick={() => setCancelTarget(appointment)}
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Cancel
+                              </Button>
+                            )}
+                            {!canReschedule && !canCancel && (
+                              <p className="text-xs text-muted-foreground text-center">
+                                Contact the clinic to change this visit
+                              </p>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -347,7 +482,7 @@ export default function PatientAppointmentsPage() {
                           <div className="flex items-start justify-between">
                             <div>
                               <div className="flex items-center gap-3 mb-2">
-                                <h3 className="text-xl font-semibold">{appointment.doctor.name}</h3>
+                                <h3 className="text-xl font-semibold">{doctorDisplayName(appointment.doctor)}</h3>
                                 {getStatusBadge(appointment.status)}
                               </div>
                               {appointment.doctor.specialization && (
@@ -410,7 +545,85 @@ export default function PatientAppointmentsPage() {
               </div>
             )}
           </TabsContent>
+
+          {/* Waitlist */}
+          <TabsContent value="waitlist" className="space-y-4">
+            {waitlistEntries.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Hourglass className="h-16 w-16 text-muted-foreground mb-4 opacity-50" />
+                  <h3 className="text-lg font-semibold mb-2">Not on Any Waitlist</h3>
+                  <p className="text-muted-foreground text-center">
+                    If no time works when booking, join the waitlist and we&apos;ll offer you openings.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4">
+                {waitlistEntries.map((entry) => {
+                  const offer = entry.offers[0]
+                  return (
+                    <Card key={entry.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <CardTitle className="text-lg">{doctorDisplayName(entry.doctor)}</CardTitle>
+                            <CardDescription>
+                              {format(parseISO(entry.earliestAt), "MMM d")} –{" "}
+                              {format(parseISO(entry.latestAt), "MMM d, yyyy")}
+                              {entry.visitTypes.length > 0 &&
+                                ` · ${entry.visitTypes.map((type) => type.replace("_", " ").toLowerCase()).join(", ")}`}
+                            </CardDescription>
+                          </div>
+                          <Badge variant={offer ? "default" : "secondary"}>
+                            {offer ? "Offer sent" : "Waiting"}
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                        <p className="text-sm text-muted-foreground">
+                          {offer
+                            ? `A time on ${formatAppointmentDate(offer.scheduledAt)} opened up. Claim it by ${format(parseISO(offer.expiresAt), "h:mm a")} using the link in your notification.`
+                            : "We'll notify you when a matching time opens up."}
+                        </p>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleLeaveWaitlist(entry.id)}
+                          disabled={leavingWaitlistId === entry.id}
+                        >
+                          {leavingWaitlistId === entry.id ? "Leaving..." : "Leave Waitlist"}
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
+
+        {/* Cancel confirmation */}
+        <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancel appointment?</DialogTitle>
+              <DialogDescription>
+                {cancelTarget &&
+                  `Your visit with ${doctorDisplayName(cancelTarget.doctor)} on ${formatAppointmentDate(cancelTarget.scheduledAt)} will be cancelled.`}
+                {policy &&
+                  ` Online changes are possible up to ${policy.cancellationCutoffHours} hours before a visit.`}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={cancelling}>
+                Keep Appointment
+              </Button>
+              <Button variant="destructive" onClick={handleCancel} disabled={cancelling}>
+                {cancelling ? "Cancelling..." : "Cancel Appointment"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </PatientPortalLayout>
   )
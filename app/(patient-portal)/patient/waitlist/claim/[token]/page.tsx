@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import { CalendarCheck, Clock, Loader2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/use-toast"
+import { PageSkeleton } from "@/components/ui/loading-skeletons"
+
+interface WaitlistOffer {
+  id: string
+  scheduledAt: string
+  duration: number
+  visitType: "VIDEO" | "PHONE" | "IN_PERSON" | "CHAT"
+  status: "PENDING" | "ACCEPTED" | "DECLINED" | "EXPIRED" | "UNAVAILABLE"
+  expiresAt: string
+  doctor: {
+    specialization?: string | null
+    credentials: string[]
+  } | null
+}
+
+const CLOSED_MESSAGES: Record<Exclude<WaitlistOffer["status"], "PENDING">, string> = {
+  ACCEPTED: "You already claimed this appointment.",
+  DECLINED: "You declined this offer. You're still on the waitlist.",
+  EXPIRED: "This offer has expired. You're still on the waitlist.",
+  UNAVAILABLE: "This time was booked by someone else. You're still on the waitlist.",
+}
+
+export default function ClaimWaitlistOfferPage() {
+  const params = useParams<{ token: string }>()
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [responding, setResponding] = useState<"accept" | "decline" | null>(null)
+
+  useEffect(() => {
+    const fetchOffer = async () => {
+      try {
+        const response = await fetch(`/api/waitlist/offers/${params.token}`, {
+          credentials: "include",
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Offer not found")
+        }
+        setOffer(data.offer)
+      } catch (error: any) {
+        setLoadError(error.message || "Offer not found")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchOffer()
+  }, [params.token])
+
+  const respond = async (action: "accept" | "decline") => {
+    setResponding(action)
+    try {
+      const response = await fetch(`/api/waitlist/offers/${params.token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "This offer is no longer available")
+      }
+
+      toast(
+        action === "accept"
+          ? { title: "Appointment Booked", description: "The appointment has been added to your visits." }
+          : { title: "Offer Declined", description: "You're still on the waitlist." }
+      )
+      router.push("/patient/visits")
+    } catch (error: any) {
+      toast({
+        title: "Could Not Complete Request",
+        description: error.message,
+        variant: "destructive",
+      })
+      setOffer((prev) => (prev ? { ...prev, status: "UNAVAILABLE" } : prev))
+    } finally {
+      setResponding(null)
+    }
+  }
+
+  if (loading) {
+    return <PageSkeleton />
+  }
+
+  return (
+    <div className="max-w-xl mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            An appointment opened up
+          </CardTitle>
+          <CardDescription>
+            Earlier times are offered to waitlisted patients one at a time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loadError || !offer ? (
+            <p className="text-sm text-muted-foreground">{loadError || "Offer not found"}</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <p className="text-lg font-semibold">
+                  {format(parseISO(offer.scheduledAt), "EEEE, MMMM d 'at' h:mm a")}
+                </p>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {offer.doctor && (
+                    <span>
+                      {[offer.doctor.specialization || "Your doctor", offer.doctor.credentials.join(", ")]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  )}
+                  <Badge variant="secondary">{offer.visitType.replace("_", " ")}</Badge>
+                  <span>{offer.duration} min</span>
+                </div>
+              </div>
+              {offer.status === "PENDING" ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  Claim by {format(parseISO(offer.expiresAt), "h:mm a")}. Until then the time can still be
+                  booked by others.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">{CLOSED_MESSAGES[offer.status]}</p>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          {offer?.status === "PENDING" && !loadError ? (
+            <>
+              <Button variant="outline" onClick={() => respond("decline")} disabled={!!responding}>
+                {responding === "decline" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Decline
+              </Button>
+              <Button onClick={() => respond("accept")} disabled={!!responding}>
+                {responding === "accept" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Book This Time
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" asChild>
+              <Link href="/patient/visits">Go to appointments</Link>
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
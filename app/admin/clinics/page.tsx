@@ -34,6 +34,9 @@ import {
   Building2,
   RefreshCw,
   UserPlus,
+  PauseCircle,
+  PlayCircle,
+  Archive,
 } from "lucide-react"
 import { useAuth } from "@/contexts/AuthContext"
 import { useToast } from "@/components/ui/use-toast"
@@ -55,15 +58,41 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 
+type ClinicStatus = "ACTIVE" | "SUSPENDED" | "ARCHIVED"
+
 interface Clinic {
   id: string
   name: string
+  status: ClinicStatus
+  timezone: string
+  city: string | null
+  state: string | null
   totalPatients: number
   totalDoctors: number
   monthlyVisits: number
   monthlyAppointments: number
 }
 
+interface ClinicForm {
+  name: string
+  timezone: string
+  city: string
+  state: string
+}
+
+const EMPTY_CLINIC_FORM: ClinicForm = {
+  name: "",
+  timezone: "America/New_York",
+  city: "",
+  state: "",
+}
+
+const STATUS_BADGE_VARIANTS: Record<ClinicStatus, "default" | "secondary" | "destructive"> = {
+  ACTIVE: "default",
+  SUSPENDED: "destructive",
+  ARCHIVED: "secondary",
+}
+
 export default function AdminClinicsPage() {
   const { user } = useAuth()
   const { toast } = useToast()
@@ -74,6 +103,9 @@ export default function AdminClinicsPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = React.useState(false)
   const [isAssignDoctorDialogOpen, setIsAssignDoctorDialogOpen] = React.useState(false)
   const [editingClinic, setEditingClinic] = React.useState<Clinic | null>(null)
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = React.useState(false)
+  const [clinicForm, setClinicForm] = React.useState<ClinicForm>(EMPTY_CLINIC_FORM)
+  const [savingClinic, setSavingClinic] = React.useState(false)
   const [assigningClinicId, setAssigningClinicId] = React.useState<string | null>(null)
   const [doctors, setDoctors] = React.useState<
     Array<{ id: string; name: string; specialization: string; clinicId: string }>
@@ -205,6 +237,132 @@ export default function AdminClinicsPage() {
     }
   }
 
+  const handleCreateClinic = async () => {
+    setSavingClinic(true)
+    try {
+      const response = await fetch("/api/admin/clinics", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          name: clinicForm.name,
+          timezone: clinicForm.timezone,
+          city: clinicForm.city || undefined,
+          state: clinicForm.state || undefined,
+        }),
+      })
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: "Clinic created successfully",
+        })
+        setIsCreateDialogOpen(false)
+        setClinicForm(EMPTY_CLINIC_FORM)
+        fetchClinics()
+      } else {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to create clinic")
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create clinic",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingClinic(false)
+    }
+  }
+
+  const handleUpdateClinic = async () => {
+    if (!editingClinic) return
+
+    setSavingClinic(true)
+    try {
+      const response = await fetch(`/api/admin/clinics/${editingClinic.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          name: clinicForm.name,
+          timezone: clinicForm.timezone,
+          city: clinicForm.city || null,
+          state: clinicForm.state || null,
+        }),
+      })
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: "Clinic updated successfully",
+        })
+        setIsEditDialogOpen(false)
+        setEditingClinic(null)
+        fetchClinics()
+      } else {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update clinic")
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update clinic",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingClinic(false)
+    }
+  }
+
+  const handleLifecycleAction = async (
+    clinicId: string,
+    action: "suspend" | "reactivate" | "archive"
+  ) => {
+    try {
+      const response = await fetch(`/api/admin/clinics/${clinicId}/actions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ action }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: data.message,
+        })
+        fetchClinics()
+      } else {
+        throw new Error(data.error || "Failed to perform action")
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to perform action",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const openEditDialog = (clinic: Clinic) => {
+    setEditingClinic(clinic)
+    setClinicForm({
+      name: clinic.name,
+      timezone: clinic.timezone,
+      city: clinic.city || "",
+      state: clinic.state || "",
+    })
+    setIsEditDialogOpen(true)
+  }
+
   const openAssignDoctorDialog = (clinicId: string) => {
     setAssigningClinicId(clinicId)
     // Get doctors not assigned to this clinic
@@ -226,7 +384,12 @@ export default function AdminClinicsPage() {
               Manage clinics, assignments, and settings
             </p>
           </div>
-          <Button>
+          <Button
+            onClick={() => {
+              setClinicForm(EMPTY_CLINIC_FORM)
+              setIsCreateDialogOpen(true)
+            }}
+          >
             <Plus className="h-4 w-4 mr-2" />
             Add Clinic
           </Button>
@@ -255,6 +418,9 @@ export default function AdminClinicsPage() {
                         <CardTitle className="flex items-center gap-2">
                           <Building2 className="h-5 w-5" />
                           {clinic.name}
+                          <Badge variant={STATUS_BADGE_VARIANTS[clinic.status]}>
+                            {clinic.status.toLowerCase()}
+                          </Badge>
                         </CardTitle>
                         <CardDescription className="mt-1">
                           ID: {clinic.id}
@@ -269,12 +435,7 @@ export default function AdminClinicsPage() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            onClick={() => {
-                              setEditingClinic(clinic)
-                              setIsEditDialogOpen(true)
-                            }}
-                          >
+                          <DropdownMenuItem onClick={() => openEditDialog(clinic)}>
                             <Edit className="h-4 w-4 mr-2" />
                             Edit Clinic
                           </DropdownMenuItem>
@@ -293,6 +454,32 @@ export default function AdminClinicsPage() {
                             <UserPlus className="h-4 w-4 mr-2" />
                             Assign Doctor
                           </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {clinic.status === "ACTIVE" && (
+                            <DropdownMenuItem
+                              onClick={() => handleLifecycleAction(clinic.id, "suspend")}
+                            >
+                              <PauseCircle className="h-4 w-4 mr-2" />
+                              Suspend Clinic
+                            </DropdownMenuItem>
+                          )}
+                          {clinic.status === "SUSPENDED" && (
+                            <DropdownMenuItem
+                              onClick={() => handleLifecycleAction(clinic.id, "reactivate")}
+                            >
+                              <PlayCircle className="h-4 w-4 mr-2" />
+                              Reactivate Clinic
+                            </DropdownMenuItem>
+                          )}
+                          {clinic.status !== "ARCHIVED" && (
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => handleLifecycleAction(clinic.id, "archive")}
+                            >
+                              <Archive className="h-4 w-4 mr-2" />
+                              Archive Clinic
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -411,13 +598,22 @@ export default function AdminClinicsPage() {
         </DialogContent>
       </Dialog>
 
-      {/* Edit Clinic Dialog */}
-      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+      {/* Create / Edit Clinic Dialog */}
+      <Dialog
+        open={isCreateDialogOpen || isEditDialogOpen}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsCreateDialogOpen(false)
+            setIsEditDialogOpen(false)
+            setEditingClinic(null)
+          }
+        }}
+      >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Edit Clinic</DialogTitle>
+            <DialogTitle>{isEditDialogOpen ? "Edit Clinic" : "Add Clinic"}</DialogTitle>
             <DialogDescription>
-              Update clinic information
+              {isEditDialogOpen ? "Update clinic information" : "Create a new clinic tenant"}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -425,15 +621,44 @@ export default function AdminClinicsPage() {
               <Label htmlFor="clinicName">Clinic Name</Label>
               <Input
                 id="clinicName"
-                defaultValue={editingClinic?.name}
+                value={clinicForm.name}
+                onChange={(e) => setClinicForm((prev) => ({ ...prev, name: e.target.value }))}
                 placeholder="Enter clinic name"
               />
             </div>
+            <div>
+              <Label htmlFor="clinicTimezone">Timezone</Label>
+              <Input
+                id="clinicTimezone"
+                value={clinicForm.timezone}
+                onChange={(e) => setClinicForm((prev) => ({ ...prev, timezone: e.target.value }))}
+                placeholder="America/New_York"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="clinicCity">City</Label>
+                <Input
+                  id="clinicCity"
+                  value={clinicForm.city}
+                  onChange={(e) => setClinicForm((prev) => ({ ...prev, city: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="clinicState">State</Label>
+                <Input
+                  id="clinicState"
+                  value={clinicForm.state}
+                  onChange={(e) => setClinicForm((prev) => ({ ...prev, state: e.target.value }))}
+                />
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button
               variant="outline"
               onClick={() => {
+                setIsCreateDialogOpen(false)
                 setIsEditDialogOpen(false)
                 setEditingClinic(null)
               }}
@@ -441,17 +666,10 @@ export default function AdminClinicsPage() {
               Cancel
             </Button>
             <Button
-              onClick={() => {
-                // TODO: Implement clinic update
-                toast({
-                  title: "Coming Soon",
-                  description: "Clinic editing will be available after Clinic model is created",
-                })
-                setIsEditDialogOpen(false)
-                setEditingClinic(null)
-              }}
+              disabled={savingClinic || !clinicForm.name.trim()}
+              onClick={isEditDialogOpen ? handleUpdateClinic : handleCreateClinic}
             >
-              Save Changes
+              {savingClinic ? "Saving..." : isEditDialogOpen ? "Save Changes" : "Create Clinic"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -146,6 +146,8 @@ interface MFAStats {
   byRole: {
     doctors: { total: number; enrolled: number }
     patients: { total: number; enrolled: number }
+    nurses: { total: number; enrolled: number }
+    staff: { total: number; enrolled: number }
     admins: { total: number; enrolled: number }
   }
   enrollmentTrend: Array<{ date: string; enrolled: number }>
@@ -612,7 +614,7 @@ export default function AdminSecurityPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-3 md:grid-cols-5 gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground">Doctors</p>
                     <p className="text-2xl font-bold">
@@ -642,6 +644,30 @@ export default function AdminSecurityPage() {
                       % enrolled
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Nurses</p>
+                    <p className="text-2xl font-bold">
+                      {mfaStats.byRole.nurses.enrolled} / {mfaStats.byRole.nurses.total}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {mfaStats.byRole.nurses.total > 0
+                        ? Math.round((mfaStats.byRole.nurses.enrolled / mfaStats.byRole.nurses.total) * 100)
+                        : 0}
+                      % enrolled
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Staff</p>
+                    <p className="text-2xl font-bold">
+                      {mfaStats.byRole.staff.enrolled} / {mfaStats.byRole.staff.total}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {mfaStats.byRole.staff.total > 0
+                        ? Math.round((mfaStats.byRole.staff.enrolled / mfaStats.byRole.staff.total) * 100)
+                        : 0}
+                      % enrolled
+                    </p>
+                  </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Admins</p>
                     <p className="text-2xl font-bold">
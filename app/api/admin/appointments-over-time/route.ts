@@ -1,16 +1,11 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { subDays, format, startOfDay, endOfDay } from "date-fns"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const days = parseInt(searchParams.get("days") || "30", 10)
     const startDate = subDays(new Date(), days)
@@ -63,5 +58,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,26 +1,26 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { z } from "zod"
 import { AppointmentStatus } from "@prisma/client"
+import {
+  cancelAppointmentOccurrences,
+  updateAppointmentOccurrences,
+} from "@/lib/scheduling/series"
 
 const actionSchema = z.object({
   action: z.enum(["reschedule", "reassign", "cancel"]),
   appointmentId: z.string(),
   scheduledAt: z.string().optional(), // ISO date string for reschedule
   doctorId: z.string().optional(), // Required for reassign
+  scope: z.enum(["this", "following", "all"]).default("this"), // For recurring series
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
-    const { action, appointmentId, scheduledAt, doctorId } = actionSchema.parse(body)
+    const { action, appointmentId, scheduledAt, doctorId, scope } = actionSchema.parse(body)
 
     // Get appointment to verify clinic access
     const appointment = await prisma.appointment.findUnique({
@@ -57,14 +57,10 @@ export async function POST(request: NextRequest) {
 
         const newDate = new Date(scheduledAt)
 
-        // Update appointment
-        const updated = await prisma.appointment.update({
-          where: { id: appointmentId },
-          data: {
-            scheduledAt: newDate,
-            status: AppointmentStatus.RESCHEDULED,
-            updatedAt: new Date(),
-          },
+        // Update appointment (and following/all series occurrences) with availability checks
+        const updated = await updateAppointmentOccurrences(appointmentId, user.clinicId, scope, {
+          scheduledAt: newDate,
+          status: AppointmentStatus.RESCHEDULED,
         })
 
         // TODO: Send notification to patient and doctor
@@ -72,8 +68,12 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({
           success: true,
-          message: "Appointment rescheduled successfully",
-          appointment: updated,
+          message:
+            updated.length > 1
+              ? `${updated.length} appointments rescheduled successfully`
+              : "Appointment rescheduled successfully",
+          appointment: updated.find((a) => a.id === appointmentId),
+          appointments: updated,
         })
       }
 
@@ -105,13 +105,9 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        // Update appointment
-        const updated = await prisma.appointment.update({
-          where: { id: appointmentId },
-          data: {
-            doctorId: doctorId,
-            updatedAt: new Date(),
-          },
+        // Reassign appointment (and following/all series occurrences) if the new doctor is free
+        const updated = await updateAppointmentOccurrences(appointmentId, user.clinicId, scope, {
+          doctorId,
         })
 
         // TODO: Send notification to new doctor and patient
@@ -119,29 +115,29 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({
           success: true,
-          message: "Appointment reassigned successfully",
-          appointment: updated,
+          message:
+            updated.length > 1
+              ? `${updated.length} appointments reassigned successfully`
+              : "Appointment reassigned successfully",
+          appointment: updated.find((a) => a.id === appointmentId),
+          appointments: updated,
         })
       }
 
       case "cancel": {
-        // Cancel appointment
-        const updated = await prisma.appointment.update({
-          where: { id: appointmentId },
-          data: {
-            status: AppointmentStatus.CANCELLED,
-            cancelledAt: new Date(),
-            updatedAt: new Date(),
-          },
-        })
+        // Cancel appointment (and following/all series occurrences)
+        const result = await cancelAppointmentOccurrences(appointmentId, user.clinicId, scope)
 
         // TODO: Send cancellation notification to patient and doctor
         // TODO: Create audit log entry
 
         return NextResponse.json({
           success: true,
-          message: "Appointment cancelled successfully",
-          appointment: updated,
+          message:
+            result.cancelled > 1
+              ? `${result.cancelled} appointments cancelled successfully`
+              : "Appointment cancelled successfully",
+          ...result,
         })
       }
 
@@ -158,7 +154,12 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
-    if (error.statusCode === 401 || error.statusCode === 403) {
+    if (
+      error.statusCode === 401 ||
+      error.statusCode === 403 ||
+      error.statusCode === 404 ||
+      error.statusCode === 409
+    ) {
       return NextResponse.json(
         { error: error.message },
         { status: error.statusCode }
@@ -170,5 +171,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,16 +1,11 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addDays } from "date-fns"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const doctorId = searchParams.get("doctorId") || "all"
     const status = searchParams.get("status") || "all"
@@ -180,5 +175,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 import { z } from "zod"
 
@@ -9,16 +9,8 @@ const flagSchema = z.object({
   reason: z.string().optional(),
 })
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_AUDIT_LOGS, async (request, { session: user, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const logId = params.id
     const body = await request.json()
     const { flagged, reason } = flagSchema.parse(body)
@@ -76,5 +68,5 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
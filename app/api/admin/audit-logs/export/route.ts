@@ -1,15 +1,10 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_AUDIT_LOGS, async (request) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const userId = searchParams.get("userId") || undefined
     const actionType = searchParams.get("actionType") || undefined
@@ -76,7 +71,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function extractDeviceInfo(userAgent?: string): string {
   if (!userAgent) return "Unknown"
@@ -1,27 +1,11 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireAdmin } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 import type { Firestore } from "@google-cloud/firestore"
 
-export async function GET(request: NextRequest) {
-  // Requirement 2: Return controlled 200 with { allowed: false, reason } - Never 401 or 500
-  const adminCheck = await requireAdmin(request)
-  
-  if (!adminCheck.allowed) {
-    return NextResponse.json(
-      {
-        allowed: false,
-        reason: adminCheck.reason || "unauthenticated",
-      },
-      { status: 200 } // Always return 200, never 401 or 500
-    )
-  }
-
-  // User is guaranteed to be admin here
-  const user = adminCheck.user!
-  
+export const GET = withPermission(PERMISSIONS.ADMIN_AUDIT_LOGS, async (request) => {
   try {
-
     const searchParams = request.nextUrl.searchParams
     const userId = searchParams.get("userId") || undefined
     const actionType = searchParams.get("actionType") || undefined
@@ -105,7 +89,7 @@ export async function GET(request: NextRequest) {
       { status: 200 } // Always return 200, never 500
     )
   }
-}
+})
 
 function extractDeviceInfo(userAgent?: string): string {
   if (!userAgent) return "Unknown"
@@ -119,4 +103,3 @@ function extractDeviceInfo(userAgent?: string): string {
   }
   return "Desktop"
 }
-
@@ -1,15 +1,10 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { stripe } from "@/lib/stripe"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const limit = parseInt(searchParams.get("limit") || "100", 10)
     const customerId = searchParams.get("customerId") || undefined
@@ -73,5 +68,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { prisma } from "@/db/prisma"
+import { reconcilePayments } from "@/lib/payments/reconciliation"
+import { z } from "zod"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const listSchema = z.object({
+  status: z.enum(["open", "resolved", "all"]).default("open"),
+  clinicId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+const runSchema = z.object({
+  days: z.number().int().min(1).max(90).default(7),
+  clinicId: z.string().optional(),
+})
+
+// GET - List payment discrepancies found by reconciliation
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request) => {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const { status, clinicId, limit } = listSchema.parse({
+      status: searchParams.get("status") || undefined,
+      clinicId: searchParams.get("clinicId") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    })
+
+    const discrepancies = await prisma.paymentDiscrepancy.findMany({
+      where: {
+        ...(clinicId && { clinicId }),
+        ...(status === "open" && { resolvedAt: null }),
+        ...(status === "resolved" && { resolvedAt: { not: null } }),
+      },
+      orderBy: { lastSeenAt: "desc" },
+      take: limit,
+    })
+
+    return NextResponse.json({ discrepancies })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors[0].message }, { status: 400 })
+    }
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    console.error("Error fetching payment discrepancies:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch payment discrepancies" },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Run reconciliation over the last `days` days
+export const POST = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { days, clinicId } = runSchema.parse(body)
+
+    const result = await reconcilePayments({
+      since: new Date(Date.now() - days * DAY_MS),
+      clinicId,
+    })
+
+    return NextResponse.json({ success: true, result })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors[0].message }, { status: 400 })
+    }
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    console.error("Error reconciling payments:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to reconcile payments" },
+      { status: 500 }
+    )
+  }
+})
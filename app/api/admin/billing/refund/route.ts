@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { stripe } from "@/lib/stripe"
 import { z } from "zod"
 
@@ -12,13 +12,8 @@ const refundSchema = z.object({
   metadata: z.record(z.string()).optional(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
     const { paymentIntentId, chargeId, amount, reason, metadata } = refundSchema.parse(body)
 
@@ -68,5 +63,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { stripe } from "@/lib/stripe"
 import { z } from "zod"
 
@@ -10,16 +10,8 @@ const updateSubscriptionSchema = z.object({
   cancelAtPeriodEnd: z.boolean().optional(),
 })
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const subscriptionId = params.id
     const body = await request.json()
     const { action, priceId, cancelAtPeriodEnd } = updateSubscriptionSchema.parse(body)
@@ -104,5 +96,5 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
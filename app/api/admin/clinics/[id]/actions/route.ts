@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { transitionClinicStatus } from "@/lib/clinics/lifecycle"
+import { logAccess } from "@/lib/logging/audit"
+import { z } from "zod"
+
+const actionSchema = z.object({
+  action: z.enum(["suspend", "reactivate", "archive"]),
+  reason: z.string().max(1000).optional(),
+})
+
+export const POST = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user, context, params }) => {
+  try {
+    const body = await request.json()
+    const { action, reason } = actionSchema.parse(body)
+
+    // Admins cannot lock themselves out by suspending or archiving their own clinic
+    if (params.id === user.clinicId && action !== "reactivate") {
+      return NextResponse.json(
+        { error: "You cannot suspend or archive your own clinic" },
+        { status: 403 }
+      )
+    }
+
+    const clinic = await transitionClinicStatus(params.id, action, reason)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: `${action.toUpperCase()}_CLINIC`,
+      resourceType: "clinic",
+      resourceId: params.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    const messages = {
+      suspend: "Clinic suspended",
+      reactivate: "Clinic reactivated",
+      archive: "Clinic archived",
+    }
+
+    return NextResponse.json({ success: true, message: messages[action], clinic })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (
+      error.statusCode === 401 ||
+      error.statusCode === 403 ||
+      error.statusCode === 404 ||
+      error.statusCode === 409
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error performing clinic action:", error)
+    return NextResponse.json(
+      { error: "Failed to perform action" },
+      { status: 500 }
+    )
+  }
+})
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { z } from "zod"
 
@@ -10,16 +10,8 @@ const assignDoctorSchema = z.object({
   action: z.enum(["assign", "remove"]),
 })
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const POST = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const clinicId = params.id
     const body = await request.json()
     const { doctorId, action } = assignDoctorSchema.parse({
@@ -41,6 +33,25 @@ export async function POST(
     }
 
     if (action === "assign") {
+      const clinic = await prisma.clinic.findUnique({
+        where: { id: clinicId },
+        select: { status: true },
+      })
+
+      if (!clinic) {
+        return NextResponse.json(
+          { error: "Clinic not found" },
+          { status: 404 }
+        )
+      }
+
+      if (clinic.status !== "ACTIVE") {
+        return NextResponse.json(
+          { error: "Doctors can only be assigned to active clinics" },
+          { status: 409 }
+        )
+      }
+
       // Assign doctor to clinic
       await prisma.doctor.update({
         where: { id: doctorId },
@@ -95,5 +106,5 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,23 +1,40 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
+import { getClinicSettings } from "@/lib/clinics/settings"
+import { invalidateClinicStatus } from "@/lib/cache/clinic-settings"
+import { logAccess } from "@/lib/logging/audit"
 import { startOfMonth, endOfMonth } from "date-fns"
+import { z } from "zod"
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+const updateClinicSchema = z.object({
+  name: z.string().min(1, "Clinic name is required").max(200).optional(),
+  timezone: z.string().max(64).optional(),
+  phone: z.string().max(32).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  addressLine1: z.string().max(200).nullable().optional(),
+  addressLine2: z.string().max(200).nullable().optional(),
+  city: z.string().max(100).nullable().optional(),
+  state: z.string().max(100).nullable().optional(),
+  postalCode: z.string().max(20).nullable().optional(),
+  country: z.string().max(2).optional(),
+})
+
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
+    const clinicId = params.id
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
     })
 
-    const clinicId = params.id
+    if (!clinic) {
+      return NextResponse.json({ error: "Clinic not found" }, { status: 404 })
+    }
 
     // Get detailed clinic information
-    const [totalPatients, totalDoctors, appointments, consultations, doctors] =
+    const [totalPatients, totalDoctors, appointments, consultations, doctors, settings] =
       await Promise.all([
         prisma.patient.count({
           where: { clinicId },
@@ -25,7 +42,7 @@ export async function GET(
         prisma.doctor.count({
           where: { clinicId },
         }),
-        prisma.appointment.findMany({
+        prisma.appointment.count({
           where: {
             clinicId,
             scheduledAt: {
@@ -33,9 +50,8 @@ export async function GET(
               lte: endOfMonth(new Date()),
             },
           },
-          select: { id: true, scheduledAt: true },
         }),
-        prisma.consultation.findMany({
+        prisma.consultation.count({
           where: {
             clinicId,
             createdAt: {
@@ -43,7 +59,6 @@ export async function GET(
               lte: endOfMonth(new Date()),
             },
           },
-          select: { id: true },
         }),
         prisma.doctor.findMany({
           where: { clinicId },
@@ -52,29 +67,16 @@ export async function GET(
             specialization: true,
           },
         }),
+        getClinicSettings(clinicId),
       ])
 
-    // Get clinic settings (would be stored in a ClinicSettings table or similar)
-    // For now, return default values
-    const settings = {
-      defaultVisitDuration: 30, // minutes
-      specialtiesEnabled: doctors
-        .map((d) => d.specialization)
-        .filter((s): s is string => s !== null),
-      aiNoteTemplates: [], // TODO: Implement AI note templates storage
-    }
-
     return NextResponse.json({
-      id: clinicId,
-      name: clinicId.replace(/-/g, " ").replace(/\b\w/g, (l) => l.toUpperCase()) || clinicId,
+      ...clinic,
       totalPatients,
       totalDoctors,
-      monthlyVisits: consultations.length,
-      monthlyAppointments: appointments.length,
-      doctors: doctors.map((d) => ({
-        id: d.id,
-        specialization: d.specialization,
-      })),
+      monthlyVisits: consultations,
+      monthlyAppointments: appointments,
+      doctors,
       settings,
     })
   } catch (error: any) {
@@ -90,29 +92,57 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user, context, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const clinicId = params.id
     const body = await request.json()
+    const updates = updateClinicSchema.parse(body)
 
-    // TODO: Update clinic information when Clinic model is created
-    // For now, this is a placeholder
+    const existing = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      select: { status: true },
+    })
 
-    return NextResponse.json({
+    if (!existing) {
+      return NextResponse.json({ error: "Clinic not found" }, { status: 404 })
+    }
+
+    if (existing.status === "ARCHIVED") {
+      return NextResponse.json(
+        { error: "Archived clinics cannot be modified" },
+        { status: 409 }
+      )
+    }
+
+    const clinic = await prisma.clinic.update({
+      where: { id: clinicId },
+      data: updates,
+    })
+    await invalidateClinicStatus(clinicId)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "UPDATE_CLINIC",
+      resourceType: "clinic",
+      resourceId: clinicId,
+      request,
+      requestId: context.requestId,
       success: true,
-      message: "Clinic updated (implementation pending Clinic model)",
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
     })
+
+    return NextResponse.json({ success: true, clinic })
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
     if (error.statusCode === 401 || error.statusCode === 403) {
       return NextResponse.json(
         { error: error.message },
@@ -125,5 +155,4 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
-
+})
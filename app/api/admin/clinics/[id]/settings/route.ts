@@ -1,38 +1,100 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { prisma } from "@/db/prisma"
+import { getClinicSettings, updateClinicSettings } from "@/lib/clinics/settings"
+import { logAccess } from "@/lib/logging/audit"
+import { isSelectableAIModel } from "@/lib/ai/models"
 import { z } from "zod"
 
 const settingsSchema = z.object({
   defaultVisitDuration: z.number().min(15).max(120).optional(),
+  appointmentBufferMinutes: z.number().int().min(0).max(60).optional(),
   specialtiesEnabled: z.array(z.string()).optional(),
   aiNoteTemplates: z.array(z.string()).optional(),
+  aiModel: z.string().refine(isSelectableAIModel, "Unsupported AI model").optional(),
+  selfSchedulingEnabled: z.boolean().optional(),
+  minBookingNoticeHours: z.number().int().min(0).max(168).optional(),
+  maxBookingAdvanceDays: z.number().int().min(1).max(365).optional(),
+  rescheduleCutoffHours: z.number().int().min(0).max(168).optional(),
+  cancellationCutoffHours: z.number().int().min(0).max(168).optional(),
+  messageSlaHours: z.number().int().min(1).max(168).optional(),
+  clinicalMessageSlaHours: z.number().int().min(1).max(168).optional(),
+  refillMessageSlaHours: z.number().int().min(1).max(168).optional(),
+  billingMessageSlaHours: z.number().int().min(1).max(168).optional(),
+  mfaRequiredForDoctors: z.boolean().optional(),
+  mfaRequiredForStaff: z.boolean().optional(),
+  mfaRequiredForAdmins: z.boolean().optional(),
 })
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: params.id },
+      select: { id: true },
     })
 
+    if (!clinic) {
+      return NextResponse.json({ error: "Clinic not found" }, { status: 404 })
+    }
+
+    const settings = await getClinicSettings(params.id)
+
+    return NextResponse.json({ settings })
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error fetching clinic settings:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch clinic settings" },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user, context, params }) => {
+  try {
     const clinicId = params.id
     const body = await request.json()
-    const settings = settingsSchema.parse(body)
+    const updates = settingsSchema.parse(body)
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: clinicId },
+      select: { status: true },
+    })
 
-    // TODO: Store clinic settings in a ClinicSettings table
-    // For now, this is a placeholder that would store settings
-    // Options:
-    // 1. Create a ClinicSettings model
-    // 2. Store in a JSON column in a Clinic model
-    // 3. Store in a key-value settings table
+    if (!clinic) {
+      return NextResponse.json({ error: "Clinic not found" }, { status: 404 })
+    }
+
+    if (clinic.status === "ARCHIVED") {
+      return NextResponse.json(
+        { error: "Archived clinics cannot be modified" },
+        { status: 409 }
+      )
+    }
+
+    const settings = await updateClinicSettings(clinicId, updates)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "UPDATE_CLINIC_SETTINGS",
+      resourceType: "clinic",
+      resourceId: clinicId,
+      request,
+      requestId: context.requestId,
+      success: true,
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
 
     return NextResponse.json({
       success: true,
-      message: "Clinic settings updated (implementation pending ClinicSettings model)",
       settings,
     })
   } catch (error: any) {
@@ -54,5 +116,4 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
-
+})
@@ -1,84 +1,109 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
+import { createClinic } from "@/lib/clinics/lifecycle"
+import { logAccess } from "@/lib/logging/audit"
+import { ClinicStatus } from "@prisma/client"
 import { startOfMonth, endOfMonth } from "date-fns"
+import { z } from "zod"
 
-export async function GET(request: NextRequest) {
-  try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
-    // Get all unique clinic IDs from various tables
-    // Since there's no Clinic model yet, we'll aggregate from existing data
-    const clinicIds = new Set<string>()
+const createClinicSchema = z.object({
+  clinicId: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, "Clinic ID may only contain lowercase letters, numbers, and dashes")
+    .max(64)
+    .optional(),
+  name: z.string().min(1, "Clinic name is required").max(200),
+  timezone: z.string().max(64).optional(),
+  phone: z.string().max(32).optional(),
+  email: z.string().email().optional(),
+  addressLine1: z.string().max(200).optional(),
+  addressLine2: z.string().max(200).optional(),
+  city: z.string().max(100).optional(),
+  state: z.string().max(100).optional(),
+  postalCode: z.string().max(20).optional(),
+  country: z.string().max(2).optional(),
+  defaultVisitDuration: z.number().min(15).max(120).optional(),
+  specialtiesEnabled: z.array(z.string()).optional(),
+  aiNoteTemplates: z.array(z.string()).optional(),
+})
 
-    // Get clinic IDs from different sources
-    const doctors = await prisma.doctor.findMany({
-      select: { clinicId: true },
-      distinct: ["clinicId"],
-    })
-    doctors.forEach((d) => clinicIds.add(d.clinicId))
+export const GET = withPermission(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const statusParam = searchParams.get("status")
+    const status = Object.values(ClinicStatus).includes(statusParam as ClinicStatus)
+      ? (statusParam as ClinicStatus)
+      : undefined
 
-    const patients = await prisma.patient.findMany({
-      select: { clinicId: true },
-      distinct: ["clinicId"],
+    // Archived clinics are hidden unless explicitly requested
+    const clinicRows = await prisma.clinic.findMany({
+      where: status ? { status } : { status: { not: ClinicStatus.ARCHIVED } },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        timezone: true,
+        city: true,
+        state: true,
+        suspendedAt: true,
+        archivedAt: true,
+        createdAt: true,
+        _count: {
+          select: { patients: true, doctors: true },
+        },
+      },
+      orderBy: { name: "asc" },
     })
-    patients.forEach((p) => clinicIds.add(p.clinicId))
 
-    // Aggregate clinic data
-    const clinics = await Promise.all(
-      Array.from(clinicIds).map(async (clinicId) => {
-        // Get metrics for this clinic
-        const [totalPatients, totalDoctors, appointments, consultations] =
-          await Promise.all([
-            prisma.patient.count({
-              where: { clinicId },
-            }),
-            prisma.doctor.count({
-              where: { clinicId },
-            }),
-            prisma.appointment.findMany({
-              where: {
-                clinicId,
-                scheduledAt: {
-                  gte: startOfMonth(new Date()),
-                  lte: endOfMonth(new Date()),
-                },
-              },
-              select: { id: true },
-            }),
-            prisma.consultation.findMany({
-              where: {
-                clinicId,
-                createdAt: {
-                  gte: startOfMonth(new Date()),
-                  lte: endOfMonth(new Date()),
-                },
-              },
-              select: { id: true },
-            }),
-          ])
+    const monthStart = startOfMonth(new Date())
+    const monthEnd = endOfMonth(new Date())
+    const clinicIds = clinicRows.map((c) => c.id)
 
-        // Get clinic name from first doctor or patient (or use ID as fallback)
-        const firstDoctor = await prisma.doctor.findFirst({
-          where: { clinicId },
-          select: { clinicId: true },
-        })
+    // Monthly metrics for all listed clinics in two grouped queries
+    const [appointmentCounts, consultationCounts] = await Promise.all([
+      prisma.appointment.groupBy({
+        by: ["clinicId"],
+        where: {
+          clinicId: { in: clinicIds },
+          scheduledAt: { gte: monthStart, lte: monthEnd },
+        },
+        _count: { _all: true },
+      }),
+      prisma.consultation.groupBy({
+        by: ["clinicId"],
+        where: {
+          clinicId: { in: clinicIds },
+          createdAt: { gte: monthStart, lte: monthEnd },
+        },
+        _count: { _all: true },
+      }),
+    ])
 
-        return {
-          id: clinicId,
-          name: clinicId.replace(/-/g, " ").replace(/\b\w/g, (l) => l.toUpperCase()) || clinicId,
-          totalPatients,
-          totalDoctors,
-          monthlyVisits: consultations.length,
-          monthlyAppointments: appointments.length,
-        }
-      })
+    const appointmentsByClinic = new Map(
+      appointmentCounts.map((row) => [row.clinicId, row._count._all])
+    )
+    const consultationsByClinic = new Map(
+      consultationCounts.map((row) => [row.clinicId, row._count._all])
     )
 
+    const clinics = clinicRows.map((clinic) => ({
+      id: clinic.id,
+      name: clinic.name,
+      status: clinic.status,
+      timezone: clinic.timezone,
+      city: clinic.city,
+      state: clinic.state,
+      suspendedAt: clinic.suspendedAt,
+      archivedAt: clinic.archivedAt,
+      createdAt: clinic.createdAt,
+      totalPatients: clinic._count.patients,
+      totalDoctors: clinic._count.doctors,
+      monthlyVisits: consultationsByClinic.get(clinic.id) || 0,
+      monthlyAppointments: appointmentsByClinic.get(clinic.id) || 0,
+    }))
+
     return NextResponse.json({ clinics })
   } catch (error: any) {
     if (error.statusCode === 401 || error.statusCode === 403) {
@@ -93,32 +118,52 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user, context }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
-    const { name, clinicId, defaultVisitDuration, specialtiesEnabled, aiNoteTemplates } = body
+    const {
+      clinicId,
+      defaultVisitDuration,
+      specialtiesEnabled,
+      aiNoteTemplates,
+      ...profile
+    } = createClinicSchema.parse(body)
 
-    // For now, clinics are identified by clinicId strings
-    // In a full implementation, you'd create a Clinic record here
-    // TODO: Create Clinic model and implement full CRUD
+    const clinic = await createClinic({
+      id: clinicId,
+      ...profile,
+      settings: { defaultVisitDuration, specialtiesEnabled, aiNoteTemplates },
+    })
 
-    return NextResponse.json({
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "CREATE_CLINIC",
+      resourceType: "clinic",
+      resourceId: clinic.id,
+      request,
+      requestId: context.requestId,
       success: true,
-      message: "Clinic created (implementation pending Clinic model)",
-      clinic: {
-        id: clinicId || `clinic-${Date.now()}`,
-        name,
-      },
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
     })
+
+    return NextResponse.json({ success: true, clinic }, { status: 201 })
   } catch (error: any) {
-    if (error.statusCode === 401 || error.statusCode === 403) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (
+      error.statusCode === 400 ||
+      error.statusCode === 401 ||
+      error.statusCode === 403 ||
+      error.statusCode === 409
+    ) {
       return NextResponse.json(
         { error: error.message },
         { status: error.statusCode }
@@ -130,5 +175,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
-
+})
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { createClient } from "@/lib/supabase/server"
 import { z } from "zod"
@@ -10,20 +10,15 @@ const actionSchema = z.object({
   doctorId: z.string(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_APPROVE_DOCTORS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
     const { action, doctorId } = actionSchema.parse(body)
 
     // Get doctor to verify clinic access
     const doctor = await prisma.doctor.findUnique({
       where: { id: doctorId },
-      select: { userId: true, clinicId: true },
+      select: { userId: true, clinicId: true, user: { select: { email: true } } },
     })
 
     if (!doctor) {
@@ -91,8 +86,7 @@ export async function POST(request: NextRequest) {
         const { data: resetData, error: resetError } =
           await supabase.auth.admin.generateLink({
             type: "recovery",
-            email: (await supabase.auth.admin.getUserById(doctor.userId)).data
-              .user?.email || "",
+            email: doctor.user.email,
           })
 
         if (resetError || !resetData?.properties?.action_link) {
@@ -150,5 +144,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,18 +1,10 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_APPROVE_DOCTORS, async (request, { session: user, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const doctorId = params.id
     const searchParams = request.nextUrl.searchParams
     const limit = parseInt(searchParams.get("limit") || "50", 10)
@@ -86,5 +78,5 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
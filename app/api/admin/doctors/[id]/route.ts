@@ -1,25 +1,19 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { createClient } from "@/lib/supabase/server"
+import { formatUserName, userIdentitySelect } from "@/lib/users/identity"
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_APPROVE_DOCTORS, async (request, { session: user, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const doctorId = params.id
 
     // Get doctor details
     const doctor = await prisma.doctor.findUnique({
       where: { id: doctorId },
       include: {
+        user: { select: userIdentitySelect },
         availability: {
           orderBy: [
             { dayOfWeek: "asc" },
@@ -76,7 +70,7 @@ export async function GET(
       )
     }
 
-    // Get user role and auth data
+    // Get approval status
     const supabase = await createClient()
     const { data: userRole } = await supabase
       .from("user_roles")
@@ -84,20 +78,6 @@ export async function GET(
       .eq("user_id", doctor.userId)
       .single()
 
-    const { data: authUser } = await supabase.auth.admin.getUserById(
-      doctor.userId
-    )
-
-    // Get doctor name from user metadata
-    const firstName =
-      (authUser?.user?.user_metadata?.firstName as string) || ""
-    const lastName =
-      (authUser?.user?.user_metadata?.lastName as string) || ""
-    const doctorName =
-      firstName && lastName
-        ? `${firstName} ${lastName}`
-        : authUser?.user?.email?.split("@")[0] || "Doctor"
-
     // Get files uploaded by this doctor (if FileRecord has createdByUserId)
     const files = await prisma.fileRecord.findMany({
       where: {
@@ -110,8 +90,8 @@ export async function GET(
 
     return NextResponse.json({
       ...doctor,
-      email: authUser?.user?.email || "Unknown",
-      name: doctorName,
+      email: doctor.user.email,
+      name: formatUserName(doctor.user, "Doctor"),
       approved: userRole?.approved || false,
       files,
     })
@@ -128,5 +108,5 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
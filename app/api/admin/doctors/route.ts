@@ -1,27 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireAdmin } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { createClient } from "@/lib/supabase/server"
+import { formatUserName, userSearchFilter } from "@/lib/users/identity"
 
-export async function GET(request: NextRequest) {
-  // Requirement 2: Return controlled 200 with { allowed: false, reason } - Never 401 or 500
-  const adminCheck = await requireAdmin(request)
-  
-  if (!adminCheck.allowed) {
-    return NextResponse.json(
-      {
-        allowed: false,
-        reason: adminCheck.reason || "unauthenticated",
-      },
-      { status: 200 } // Always return 200, never 401 or 500
-    )
-  }
-
-  // User is guaranteed to be admin here
-  const user = adminCheck.user!
-  
+export const GET = withPermission(PERMISSIONS.ADMIN_APPROVE_DOCTORS, async (request, { session: user }) => {
   try {
-
     const searchParams = request.nextUrl.searchParams
     const search = searchParams.get("search") || ""
     const status = searchParams.get("status") || "all" // all, active, suspended, pending
@@ -34,11 +19,10 @@ export async function GET(request: NextRequest) {
       clinicId: user.clinicId,
     }
 
-    // Add search filters (name, specialty, email via userId)
+    // Add search filters (name and email from the user identity, specialty, licensure)
     if (search) {
-      // We'll need to join with user_roles or query separately
-      // For now, search by specialization
       where.OR = [
+        { user: userSearchFilter(search) },
         { specialization: { contains: search, mode: "insensitive" } },
         { licenseNumber: { contains: search, mode: "insensitive" } },
         { npiNumber: { contains: search, mode: "insensitive" } },
@@ -54,6 +38,13 @@ export async function GET(request: NextRequest) {
         createdAt: "desc",
       },
       include: {
+        user: {
+          select: {
+            email: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
         availability: {
           select: {
             dayOfWeek: true,
@@ -64,23 +55,19 @@ export async function GET(request: NextRequest) {
       },
     })
 
-    // Get user_roles data to check approval status and emails
+    // Get user_roles data to check approval status
     const supabase = await createClient()
     const userIds = doctors.map((d) => d.userId)
 
-    // Fetch user roles and auth user data
+    // Fetch user roles
     const { data: userRoles } = await supabase
       .from("user_roles")
       .select("user_id, role, approved, clinicId")
       .in("user_id", userIds)
 
-    // Get auth users for email addresses
-    const { data: authUsers } = await supabase.auth.admin.listUsers()
-
     // Combine data
     const doctorsWithStatus = doctors.map((doctor) => {
       const userRole = userRoles?.find((ur) => ur.user_id === doctor.userId)
-      const authUser = authUsers?.users?.find((au) => au.id === doctor.userId)
 
       // Determine status based on approval
       let doctorStatus = "active"
@@ -94,25 +81,11 @@ export async function GET(request: NextRequest) {
         return null
       }
 
-      // Get doctor name from user metadata or email
-      const firstName =
-        (authUser?.user_metadata?.firstName as string) ||
-        authUser?.user_metadata?.firstName ||
-        ""
-      const lastName =
-        (authUser?.user_metadata?.lastName as string) ||
-        authUser?.user_metadata?.lastName ||
-        ""
-      const doctorName =
-        firstName && lastName
-          ? `${firstName} ${lastName}`
-          : authUser?.email?.split("@")[0] || "Doctor"
-
       return {
         id: doctor.id,
         userId: doctor.userId,
-        email: authUser?.email || "Unknown",
-        name: doctorName,
+        email: doctor.user.email,
+        name: formatUserName(doctor.user, "Doctor"),
         specialization: doctor.specialization || "Not specified",
         licenseNumber: doctor.licenseNumber,
         npiNumber: doctor.npiNumber || "Not provided",
@@ -128,21 +101,7 @@ export async function GET(request: NextRequest) {
     })
 
     // Filter out nulls and apply status filter in memory if needed
-    let filteredDoctors = doctorsWithStatus.filter((d) => d !== null)
-
-    // If search includes email, filter by email
-    if (search) {
-      const searchLower = search.toLowerCase()
-      filteredDoctors = filteredDoctors.filter((doctor) => {
-        if (!doctor) return false
-        return (
-          doctor.email.toLowerCase().includes(searchLower) ||
-          doctor.name.toLowerCase().includes(searchLower) ||
-          doctor.specialization.toLowerCase().includes(searchLower) ||
-          doctor.licenseNumber.toLowerCase().includes(searchLower)
-        )
-      })
-    }
+    const filteredDoctors = doctorsWithStatus.filter((d) => d !== null)
 
     // Get total count for pagination
     const total = await prisma.doctor.count({
@@ -172,5 +131,4 @@ export async function GET(request: NextRequest) {
       { status: 200 } // Always return 200, never 500
     )
   }
-}
-
+})
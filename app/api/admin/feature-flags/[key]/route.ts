@@ -1,18 +1,10 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { key: string } }
-) {
+export const GET = withPermission<{ key: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const key = params.key
 
     const firestore = getFirestore()
@@ -54,18 +46,10 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: { key: string } }
-) {
+export const PATCH = withPermission<{ key: string }>(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const key = params.key
     const body = await request.json()
     const { enabled, description, category, metadata } = body
@@ -133,5 +117,5 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 
 export interface FeatureFlag {
@@ -61,13 +61,8 @@ const DEFAULT_FEATURE_FLAGS = [
   },
 ]
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async () => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const firestore = getFirestore()
     const flagsRef = firestore.collection("feature_flags")
 
@@ -158,15 +153,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
     const { key, enabled, description, category, metadata } = body
 
@@ -248,5 +238,5 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
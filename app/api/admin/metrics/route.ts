@@ -1,27 +1,11 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireAdmin } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { format, startOfMonth, endOfMonth, isToday } from "date-fns"
 
-export async function GET(request: NextRequest) {
-  // Requirement 2: Return controlled 200 with { allowed: false, reason } - Never 401 or 500
-  const adminCheck = await requireAdmin(request)
-  
-  if (!adminCheck.allowed) {
-    return NextResponse.json(
-      {
-        allowed: false,
-        reason: adminCheck.reason || "unauthenticated",
-      },
-      { status: 200 } // Always return 200, never 401 or 500
-    )
-  }
-
-  // User is guaranteed to be admin here
-  const user = adminCheck.user!
-  
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
   try {
-
     const now = new Date()
     const startOfCurrentMonth = startOfMonth(now)
     const endOfCurrentMonth = endOfMonth(now)
@@ -186,5 +170,4 @@ export async function GET(request: NextRequest) {
       { status: 200 } // Always return 200, never 500
     )
   }
-}
-
+})
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { z } from "zod"
 
@@ -11,13 +11,8 @@ const actionSchema = z.object({
   followUpDate: z.string().optional(), // ISO date string for mark_follow_up
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_MANAGE_USERS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const body = await request.json()
     const { action, patientId, doctorId, followUpDate } = actionSchema.parse(body)
 
@@ -169,5 +164,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
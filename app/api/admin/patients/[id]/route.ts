@@ -1,25 +1,18 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
-import { createClient } from "@/lib/supabase/server"
+import { userIdentitySelect } from "@/lib/users/identity"
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_MANAGE_USERS, async (request, { session: user, params }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const patientId = params.id
 
     // Get patient details
     const patient = await prisma.patient.findUnique({
       where: { id: patientId },
       include: {
+        user: { select: userIdentitySelect },
         appointments: {
           take: 10,
           orderBy: { scheduledAt: "desc" },
@@ -68,7 +61,7 @@ export async function GET(
           orderBy: { createdAt: "desc" },
           select: {
             id: true,
-            testName: true,
+            tests: true,
             status: true,
             createdAt: true,
           },
@@ -105,12 +98,6 @@ export async function GET(
       )
     }
 
-    // Get auth user data
-    const supabase = await createClient()
-    const { data: authUser } = await supabase.auth.admin.getUserById(
-      patient.userId
-    )
-
     // Count totals
     const appointmentCount = await prisma.appointment.count({
       where: { patientId },
@@ -136,7 +123,7 @@ export async function GET(
 
     return NextResponse.json({
       ...patient,
-      email: patient.email || authUser?.user?.email || "Unknown",
+      email: patient.user.email,
       appointmentCount,
       messageCount,
       assignedDoctor: mostRecentAppointment?.doctor || null,
@@ -154,5 +141,5 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,17 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
-import { createClient } from "@/lib/supabase/server"
+import { userSearchFilter } from "@/lib/users/identity"
 import { subDays } from "date-fns"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_MANAGE_USERS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const search = searchParams.get("search") || ""
     const filter = searchParams.get("filter") || "all" // all, active, at-risk, follow-up, recent
@@ -29,8 +24,7 @@ export async function GET(request: NextRequest) {
       where.OR = [
         { firstName: { contains: search, mode: "insensitive" } },
         { lastName: { contains: search, mode: "insensitive" } },
-        { email: { contains: search, mode: "insensitive" } },
-        { phone: { contains: search, mode: "insensitive" } },
+        { user: userSearchFilter(search) },
       ]
     }
 
@@ -51,6 +45,12 @@ export async function GET(request: NextRequest) {
         createdAt: "desc",
       },
       include: {
+        user: {
+          select: {
+            email: true,
+            phone: true,
+          },
+        },
         appointments: {
           take: 1,
           orderBy: { scheduledAt: "desc" },
@@ -74,25 +74,9 @@ export async function GET(request: NextRequest) {
       },
     })
 
-    // Get auth users for emails
-    const supabase = await createClient()
-    const userIds = patients.map((p) => p.userId)
-
-    // Fetch user roles
-    const { data: userRoles } = await supabase
-      .from("user_roles")
-      .select("user_id, role, approved, clinicId")
-      .in("user_id", userIds)
-
-    // Get auth users for additional data
-    const { data: authUsers } = await supabase.auth.admin.listUsers()
-
     // Combine data and determine flags
     const patientsWithData = await Promise.all(
       patients.map(async (patient) => {
-        const userRole = userRoles?.find((ur) => ur.user_id === patient.userId)
-        const authUser = authUsers?.users?.find((au) => au.id === patient.userId)
-
         // Get most recent appointment to find assigned doctor
         const mostRecentAppointment = patient.appointments[0]
         const assignedDoctor = mostRecentAppointment?.doctor
@@ -132,8 +116,8 @@ export async function GET(request: NextRequest) {
           firstName: patient.firstName,
           lastName: patient.lastName,
           dateOfBirth: patient.dateOfBirth,
-          phone: patient.phone || "Not provided",
-          email: patient.email || authUser?.email || "Unknown",
+          phone: patient.user.phone || patient.phone || "Not provided",
+          email: patient.user.email,
           assignedDoctor: assignedDoctor
             ? `${assignedDoctor.specialization || "Doctor"}`
             : "Unassigned",
@@ -179,5 +163,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
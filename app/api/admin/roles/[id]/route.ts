@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { deleteClinicRole, describePermissionChange, updateClinicRole } from "@/lib/auth/custom-roles"
+import { logAccess } from "@/lib/logging/audit"
+import { z } from "zod"
+
+const roleUpdateSchema = z.object({
+  name: z.string().trim().min(1, "Role name is required").max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z.array(z.string()).min(1, "Select at least one permission").optional(),
+})
+
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user, context, params }) => {
+  try {
+    const body = await request.json()
+    const updates = roleUpdateSchema.parse(body)
+
+    const { before, after } = await updateClinicRole(user, params.id, updates)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "UPDATE_CLINIC_ROLE",
+      resourceType: "clinic_role",
+      resourceId: after.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: {
+        ...describePermissionChange(before.permissions, after.permissions),
+        count: after._count.users,
+      },
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    return NextResponse.json({ success: true, role: after })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (error.statusCode === 400 || error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 404 || error.statusCode === 409) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error updating clinic role:", error)
+    return NextResponse.json(
+      { error: "Failed to update clinic role" },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withPermission<{ id: string }>(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user, context, params }) => {
+  try {
+    const role = await deleteClinicRole(user, params.id)
+
+    // Users of the role fall back to their built-in role
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "DELETE_CLINIC_ROLE",
+      resourceType: "clinic_role",
+      resourceId: role.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: {
+        ...describePermissionChange(role.permissions, []),
+        count: role._count.users,
+      },
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 404) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error deleting clinic role:", error)
+    return NextResponse.json(
+      { error: "Failed to delete clinic role" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { createClinicRole, describePermissionChange, listClinicRoles } from "@/lib/auth/custom-roles"
+import { ASSIGNABLE_PERMISSIONS } from "@/lib/auth/permissions"
+import { logAccess } from "@/lib/logging/audit"
+import { z } from "zod"
+
+// Custom roles: named bundles of permissions defined by the admin's clinic
+const roleSchema = z.object({
+  name: z.string().trim().min(1, "Role name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z.array(z.string()).min(1, "Select at least one permission"),
+})
+
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
+  try {
+    const roles = await listClinicRoles(user.clinicId)
+
+    return NextResponse.json({
+      roles,
+      assignablePermissions: ASSIGNABLE_PERMISSIONS,
+    })
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error fetching clinic roles:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch clinic roles" },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user, context }) => {
+  try {
+    const body = await request.json()
+    const input = roleSchema.parse(body)
+
+    const role = await createClinicRole(user, input)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "CREATE_CLINIC_ROLE",
+      resourceType: "clinic_role",
+      resourceId: role.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: describePermissionChange([], role.permissions),
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    return NextResponse.json({ success: true, role }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (error.statusCode === 400 || error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 409) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error creating clinic role:", error)
+    return NextResponse.json(
+      { error: "Failed to create clinic role" },
+      { status: 500 }
+    )
+  }
+})
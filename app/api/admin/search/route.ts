@@ -1,16 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
+import { formatUserName, userSearchFilter } from "@/lib/users/identity"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user }) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const query = searchParams.get("q") || ""
     const limit = parseInt(searchParams.get("limit") || "10", 10)
@@ -31,45 +27,47 @@ export async function GET(request: NextRequest) {
 
     const searchTerm = query.trim().toLowerCase()
 
+    // Name, email and phone come from the shared user identity
+    const identitySelect = {
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+    }
+
     // Search doctors
     const doctors = await prisma.doctor.findMany({
       where: {
         OR: [
-          { firstName: { contains: searchTerm, mode: "insensitive" } },
-          { lastName: { contains: searchTerm, mode: "insensitive" } },
-          { email: { contains: searchTerm, mode: "insensitive" } },
-          { specialty: { contains: searchTerm, mode: "insensitive" } },
+          { user: userSearchFilter(searchTerm) },
+          { specialization: { contains: searchTerm, mode: "insensitive" } },
         ],
       },
       select: {
         id: true,
-        firstName: true,
-        lastName: true,
-        email: true,
-        specialty: true,
+        specialization: true,
         clinicId: true,
+        user: { select: identitySelect },
       },
       take: limit,
     })
 
-    // Search patients
+    // Search patients (by account identity or chart name)
     const patients = await prisma.patient.findMany({
       where: {
         OR: [
+          { user: userSearchFilter(searchTerm) },
           { firstName: { contains: searchTerm, mode: "insensitive" } },
           { lastName: { contains: searchTerm, mode: "insensitive" } },
-          { email: { contains: searchTerm, mode: "insensitive" } },
-          { phone: { contains: searchTerm, mode: "insensitive" } },
         ],
       },
       select: {
         id: true,
         firstName: true,
         lastName: true,
-        email: true,
-        phone: true,
         clinicId: true,
         dateOfBirth: true,
+        user: { select: identitySelect },
       },
       take: limit,
     })
@@ -87,14 +85,7 @@ export async function GET(request: NextRequest) {
               ],
             },
           },
-          {
-            doctor: {
-              OR: [
-                { firstName: { contains: searchTerm, mode: "insensitive" } },
-                { lastName: { contains: searchTerm, mode: "insensitive" } },
-              ],
-            },
-          },
+          { doctor: { user: userSearchFilter(searchTerm) } },
         ],
       },
       select: {
@@ -111,8 +102,7 @@ export async function GET(request: NextRequest) {
         },
         doctor: {
           select: {
-            firstName: true,
-            lastName: true,
+            user: { select: identitySelect },
           },
         },
         clinicId: true,
@@ -127,6 +117,7 @@ export async function GET(request: NextRequest) {
           { name: { contains: searchTerm, mode: "insensitive" } },
           { email: { contains: searchTerm, mode: "insensitive" } },
           { phone: { contains: searchTerm, mode: "insensitive" } },
+          { city: { contains: searchTerm, mode: "insensitive" } },
         ],
       },
       select: {
@@ -134,7 +125,10 @@ export async function GET(request: NextRequest) {
         name: true,
         email: true,
         phone: true,
-        address: true,
+        addressLine1: true,
+        city: true,
+        state: true,
+        status: true,
       },
       take: limit,
     })
@@ -186,12 +180,12 @@ export async function GET(request: NextRequest) {
       doctors: doctors.map((d) => ({
         id: d.id,
         type: "doctor" as const,
-        title: `${d.firstName} ${d.lastName}`,
-        subtitle: d.specialty || d.email || "No specialty",
+        title: formatUserName(d.user, "Doctor"),
+        subtitle: d.specialization || d.user.email || "No specialty",
         href: `/admin/doctors/${d.id}`,
         metadata: {
-          email: d.email,
-          specialty: d.specialty,
+          email: d.user.email,
+          specialty: d.specialization,
           clinicId: d.clinicId,
         },
       })),
@@ -199,11 +193,11 @@ export async function GET(request: NextRequest) {
         id: p.id,
         type: "patient" as const,
         title: `${p.firstName} ${p.lastName}`,
-        subtitle: p.email || p.phone || "No contact info",
+        subtitle: p.user.email || p.user.phone || "No contact info",
         href: `/admin/patients/${p.id}`,
         metadata: {
-          email: p.email,
-          phone: p.phone,
+          email: p.user.email,
+          phone: p.user.phone,
           clinicId: p.clinicId,
           dateOfBirth: p.dateOfBirth?.toISOString(),
         },
@@ -211,7 +205,7 @@ export async function GET(request: NextRequest) {
       appointments: appointments.map((a) => ({
         id: a.id,
         type: "appointment" as const,
-        title: `Appointment: ${a.patient.firstName} ${a.patient.lastName} with ${a.doctor.firstName} ${a.doctor.lastName}`,
+        title: `Appointment: ${a.patient.firstName} ${a.patient.lastName} with ${formatUserName(a.doctor.user, "Doctor")}`,
         subtitle: new Date(a.scheduledAt).toLocaleString(),
         href: `/admin/appointments?appointment=${a.id}`,
         metadata: {
@@ -226,12 +220,13 @@ export async function GET(request: NextRequest) {
         id: c.id,
         type: "clinic" as const,
         title: c.name || "Unnamed Clinic",
-        subtitle: c.email || c.phone || c.address || "No contact info",
+        subtitle: c.email || c.phone || c.addressLine1 || "No contact info",
         href: `/admin/clinics/${c.id}`,
         metadata: {
           email: c.email,
           phone: c.phone,
-          address: c.address,
+          address: [c.addressLine1, c.city, c.state].filter(Boolean).join(", "),
+          status: c.status,
         },
       })),
       auditLogs: auditLogs.map((log) => ({
@@ -280,5 +275,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -1,16 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { getFirestore } from "@/lib/gcp/gcp-firestore"
 import { prisma } from "@/db/prisma"
+import { getMfaEnrollmentStats } from "@/lib/auth/mfa"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_AUDIT_LOGS, async () => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const firestore = getFirestore()
     const now = new Date()
     const last24Hours = new Date(now.getTime() - 24 * 60 * 60 * 1000)
@@ -52,14 +48,9 @@ export async function GET(request: NextRequest) {
       .where("timestamp", ">=", last24Hours)
       .get()
 
-    // MFA enrollment stats (placeholder - would need MFA table)
-    // For now, return mock data structure
-    const mfaStats = {
-      totalUsers: 0,
-      enrolledUsers: 0,
-      enrollmentRate: 0,
-      // TODO: Query actual MFA enrollment data
-    }
+    // MFA enrollment stats
+    const { totalUsers, enrolledUsers, enrollmentRate } = await getMfaEnrollmentStats()
+    const mfaStats = { totalUsers, enrolledUsers, enrollmentRate }
 
     // Calculate security status
     const securityStatus = calculateSecurityStatus({
@@ -109,7 +100,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function calculateSecurityStatus(metrics: {
   failedLogins24h: number
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { revokeSessions } from "@/lib/auth/session-registry"
+import { logAccess } from "@/lib/logging/audit"
+import { z } from "zod"
+
+// Force logout: every active session of one user, or of everyone in a clinic
+const revokeSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    clinicId: z.string().min(1).optional(),
+  })
+  .refine((data) => !!data.userId !== !!data.clinicId, {
+    message: "Provide either userId or clinicId",
+  })
+
+export const POST = withPermission(PERMISSIONS.ADMIN_AUDIT_LOGS, async (request, { session: user, context }) => {
+  try {
+    const body = await request.json()
+    const target = revokeSchema.parse(body)
+
+    const revoked = await revokeSessions(user, target)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "FORCE_LOGOUT",
+      resourceType: target.userId ? "user" : "clinic",
+      resourceId: (target.userId || target.clinicId)!,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: { count: revoked },
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    return NextResponse.json({
+      success: true,
+      revoked,
+    })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (error.statusCode === 400 || error.statusCode === 401 || error.statusCode === 403) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error revoking sessions:", error)
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    )
+  }
+})
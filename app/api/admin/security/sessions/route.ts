@@ -1,83 +1,41 @@
-import { NextRequest, NextResponse } from "next/server"
-import { requireSession } from "@/lib/auth/guards"
-import { requireRole } from "@/lib/auth/guards"
-import { getFirestore } from "@/lib/gcp/gcp-firestore"
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { listSessionsForAdmin } from "@/lib/auth/session-registry"
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.ADMIN_AUDIT_LOGS, async (request) => {
   try {
-    const user = await requireSession(request)
-    requireRole(user, "admin", {
-      requestId: request.headers.get("x-request-id") || undefined,
-    })
-
     const searchParams = request.nextUrl.searchParams
     const days = parseInt(searchParams.get("days") || "30", 10)
-
-    const firestore = getFirestore()
     const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
 
-    // Query audit logs for session events
-    const auditLogsRef = firestore.collection("audit_logs")
-
-    // Get login events
-    const loginEvents = await auditLogsRef
-      .where("action", "==", "LOGIN_SUCCESS")
-      .where("timestamp", ">=", cutoffDate)
-      .orderBy("timestamp", "desc")
-      .limit(1000)
-      .get()
-
-    // Get logout events
-    const logoutEvents = await auditLogsRef
-      .where("action", "==", "LOGOUT")
-      .where("timestamp", ">=", cutoffDate)
-      .orderBy("timestamp", "desc")
-      .limit(1000)
-      .get()
-
-    // Process session data
-    const sessions = loginEvents.docs.map((doc) => {
-      const data = doc.data()
-      const loginTime = data.timestamp?.toDate?.() || new Date(data.timestamp)
-      
-      // Find corresponding logout if exists
-      const logout = logoutEvents.docs.find((logoutDoc) => {
-        const logoutData = logoutDoc.data()
-        return logoutData.userId === data.userId && logoutData.timestamp?.toDate?.() > loginTime
-      })
-
-      const logoutTime = logout?.data()?.timestamp?.toDate?.() || null
-      const duration = logoutTime ? logoutTime.getTime() - loginTime.getTime() : null
-
-      return {
-        id: doc.id,
-        userId: data.userId || null,
-        loginTime: loginTime.toISOString(),
-        logoutTime: logoutTime?.toISOString() || null,
-        duration: duration ? Math.round(duration / 1000 / 60) : null, // minutes
-        ip: data.ipAddress || data.ip || "Unknown",
-        userAgent: data.userAgent || "Unknown",
-        expired: !logoutTime && (Date.now() - loginTime.getTime()) > 24 * 60 * 60 * 1000, // 24 hours
-      }
+    // Sessions from the session registry, optionally for one clinic or user
+    const { sessions, statistics } = await listSessionsForAdmin({
+      since: cutoffDate,
+      clinicId: searchParams.get("clinicId") || undefined,
+      userId: searchParams.get("userId") || undefined,
     })
 
-    // Calculate expiration statistics
-    const expiredSessions = sessions.filter((s) => s.expired).length
-    const activeSessions = sessions.filter((s) => !s.logoutTime && !s.expired).length
-    const avgDuration = sessions
-      .filter((s) => s.duration !== null)
-      .reduce((sum, s) => sum + (s.duration || 0), 0) /
-      (sessions.filter((s) => s.duration !== null).length || 1)
-
     return NextResponse.json({
-      sessions,
-      statistics: {
-        total: sessions.length,
-        active: activeSessions,
-        expired: expiredSessions,
-        completed: sessions.filter((s) => s.logoutTime !== null).length,
-        averageDurationMinutes: Math.round(avgDuration),
-      },
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userId: session.userId,
+        clinicId: session.clinicId,
+        role: session.role,
+        loginTime: session.createdAt.toISOString(),
+        lastActiveAt: session.lastActiveAt.toISOString(),
+        logoutTime: session.revokedAt?.toISOString() || null,
+        endReason: session.endReason,
+        duration: session.active
+          ? null
+          : Math.round(((session.revokedAt ?? session.lastActiveAt).getTime() - session.createdAt.getTime()) / 1000 / 60), // minutes
+        ip: session.ipAddress || "Unknown",
+        userAgent: session.userAgent || "Unknown",
+        device: session.device || "Unknown",
+        active: session.active,
+        expired: session.endReason === "idle_timeout" || session.endReason === "absolute_timeout",
+      })),
+      statistics,
       period: {
         days,
         startDate: cutoffDate.toISOString(),
@@ -97,5 +55,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
-
+})
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
+import { describePermissionChange, getUserPermissions, setUserPermissions } from "@/lib/auth/custom-roles"
+import { logAccess } from "@/lib/logging/audit"
+import { z } from "zod"
+
+// A user's custom role and individual grants/denials; params.id is the auth user ID
+const permissionsSchema = z.object({
+  clinicRoleId: z.string().min(1).nullable(),
+  granted: z.array(z.string()).default([]),
+  denied: z.array(z.string()).default([]),
+})
+
+export const GET = withPermission<{ id: string }>(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user, params }) => {
+  try {
+    const permissions = await getUserPermissions(user, params.id)
+
+    return NextResponse.json({ permissions })
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 404) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error fetching user permissions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch user permissions" },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.ADMIN_FULL_ACCESS, async (request, { session: user, context, params }) => {
+  try {
+    const body = await request.json()
+    const input = permissionsSchema.parse(body)
+
+    const { before, after } = await setUserPermissions(user, params.id, input)
+
+    logAccess({
+      userId: user.id,
+      clinicId: user.clinicId,
+      action: "UPDATE_USER_PERMISSIONS",
+      resourceType: "user",
+      resourceId: params.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: {
+        ...describePermissionChange(before.effectivePermissions, after.effectivePermissions),
+        clinicRoleId: after.clinicRole?.id ?? "none",
+      },
+    }).catch((err) => {
+      console.error("Audit logging failed (non-critical):", err)
+    })
+
+    return NextResponse.json({ success: true, permissions: after })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      )
+    }
+    if (error.statusCode === 400 || error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 404) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    console.error("Error updating user permissions:", error)
+    return NextResponse.json(
+      { error: "Failed to update user permissions" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,142 @@
+/**
+ * Streaming AI SOAP Note Generation (Server-Sent Events)
+ *
+ * POST /api/ai/soap/stream - same input, rate limit, sanitization and audit
+ *     as POST /api/ai/soap, but the note streams in as it is generated:
+ *   started   { requestId, sections, total }
+ *   delta     { section, text } - raw model output, when the provider streams
+ *   section   { section, result, progress } - a section completed or failed
+ *   metadata  { status, error?, progress } - risks, follow-up, billing codes
+ *   complete  { note } - the StructuredSOAPNote, as POST /api/ai/soap returns it
+ *   error     { message } - every section failed, or generation broke off
+ *
+ * Input errors (auth, rate limit, validation, size) are plain JSON responses
+ * sent before the stream starts. Closing the connection (aborting the fetch)
+ * cancels the remaining model calls.
+ */
+
+import { NextResponse } from 'next/server'
+import { apiError } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { aiSoapInputSchema, type AiSoapInput } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { addSecurityHeaders } from '@/lib/security/headers'
+import { handleApiError } from '@/lib/security/error-handler'
+import { logError } from '@/lib/security/logging'
+import { generateSOAPNoteParallel } from '@/lib/ai/parallel-soap-generation'
+import {
+  MAX_SOAP_REQUEST_BYTES,
+  allSectionsFailed,
+  auditSOAPGeneration,
+  buildSOAPContext,
+  sanitizeSOAPInput,
+} from '@/lib/ai/soap-request'
+import { SOAP_SECTIONS } from '@/lib/ai/soap-schema'
+import { isAbortError } from '@/lib/ai/llm-provider'
+import { getClinicLLM } from '@/lib/ai/llm'
+import { v4 as uuidv4 } from 'uuid'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// POST - Generate a SOAP note, streamed as Server-Sent Events
+export const POST = withPermission(PERMISSIONS.NOTES_CREATE, async (request, { session: user }) => {
+  const requestId = uuidv4()
+
+  try {
+    // Rate limiting: 10 SOAP generations per minute per doctor (shared with POST /api/ai/soap)
+    const rateLimit = await rateLimiters.soapGeneration(request, user)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
+    }
+
+    const body = await request.json()
+    if (JSON.stringify(body).length > MAX_SOAP_REQUEST_BYTES) {
+      return addSecurityHeaders(apiError('Request body too large', 413, requestId))
+    }
+
+    const { input, transcript } = sanitizeSOAPInput(validate(aiSoapInputSchema, body, requestId) as AiSoapInput)
+
+    const llm = await getClinicLLM({ clinicId: user.clinicId, userId: user.id, requestId })
+
+    const encoder = new TextEncoder()
+    const abortController = new AbortController()
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+    let closed = false
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeatTimer)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        const send = (payload: unknown) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+        }
+
+        const generate = async () => {
+          try {
+            const soapContext = await buildSOAPContext(llm, transcript, input, abortController.signal)
+            const soapNote = await generateSOAPNoteParallel(llm, soapContext, {
+              signal: abortController.signal,
+              onEvent: send,
+            })
+
+            auditSOAPGeneration(user, llm, soapNote, request, requestId)
+
+            if (allSectionsFailed(soapNote)) {
+              send({ type: 'error', message: 'SOAP note generation failed for every section' })
+            } else {
+              send({ type: 'complete', note: soapNote })
+            }
+          } catch (error) {
+            if (!isAbortError(error)) {
+              logError('SOAP note stream failed', error as Error, {}, user.id, requestId)
+              send({ type: 'error', message: 'Failed to generate SOAP note' })
+            }
+          } finally {
+            close()
+          }
+        }
+
+        send({ type: 'started', requestId, sections: [...SOAP_SECTIONS, 'metadata'], total: SOAP_SECTIONS.length + 1 })
+        heartbeatTimer = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'))
+        }, HEARTBEAT_INTERVAL_MS)
+        generate()
+
+        // Client went away: stop the remaining model calls
+        request.signal.addEventListener('abort', () => {
+          abortController.abort()
+          close()
+        })
+      },
+      cancel() {
+        closed = true
+        clearInterval(heartbeatTimer)
+        abortController.abort()
+      },
+    })
+
+    const response = new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable nginx buffering
+      },
+    })
+    return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
+  } catch (error: any) {
+    return addSecurityHeaders(handleApiError(error, 'Failed to generate SOAP note', undefined, requestId))
+  }
+})
@@ -4,38 +4,35 @@
  * Demonstrates comprehensive RBAC for appointment management
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import {
-  requireSession,
-  requireRole,
-  requireDoctorAccessToPatient,
-  requirePatientSelfAccess,
-  getGuardContext,
-} from '@/lib/auth/guards'
+import { requireDoctorAccessToPatient, requirePatientSelfAccess } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { validate } from '@/lib/validation'
-import { updateAppointmentSchema } from '@/lib/validation/schemas'
+import { updateAppointmentSchema, seriesScopeSchema } from '@/lib/validation/schemas'
 import { prisma } from '@/db/prisma'
 import { appointmentSelect } from '@/lib/db/selects'
+import { assertSlotAvailable, isBlockingStatus, withDoctorScheduleLock } from '@/lib/scheduling/booking'
+import {
+  cancelAppointmentOccurrences,
+  updateAppointmentOccurrences,
+  EDITABLE_APPOINTMENT_STATUSES,
+} from '@/lib/scheduling/series'
+import {
+  assertIntakeFormAttachable,
+  assertPatientCanBook,
+  assertPatientCanChange,
+  getSchedulingPolicy,
+} from '@/lib/scheduling/self-scheduling'
+import { backfillCancelledAppointments } from '@/lib/scheduling/waitlist'
 
 /**
  * GET - Get appointment details
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const GET = withPermission<{ id: string }>(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session (replaces direct Supabase access)
-    const user = await requireSession(request)
-
-    // 2. Require role check
-    requireRole(user, ['doctor', 'patient'], context)
-
-    // OPTIMIZED: Fetch appointment with minimal SELECT and clinicId validation
+    // 1. OPTIMIZED: Fetch appointment with minimal SELECT and clinicId validation
     const appointment = await prisma.appointment.findUnique({
       where: { id: params.id },
       select: {
@@ -57,12 +54,12 @@ export async function GET(
       return apiError('Appointment not found', 404, context.requestId)
     }
 
-    // SECURITY: Enforce tenant isolation using clinicId from appointment directly
+    // 2. SECURITY: Enforce tenant isolation using clinicId from appointment directly
     if (appointment.clinicId !== user.clinicId) {
       return apiError('Forbidden: Appointment belongs to different clinic', 403, context.requestId)
     }
 
-    // 5. Patient assignment check based on role
+    // 3. Patient assignment check based on role
     if (user.role === 'doctor') {
       // Doctor must have relationship with patient
       await requireDoctorAccessToPatient(user, appointment.patient.id, context)
@@ -71,7 +68,7 @@ export async function GET(
       await requirePatientSelfAccess(user, appointment.patient.id, context)
     }
 
-    // 6. PHI access logged automatically in guards above
+    // 4. PHI access logged automatically in guards above
 
     return apiSuccess(appointment, 200, context.requestId)
   } catch (error: any) {
@@ -83,28 +80,17 @@ export async function GET(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 /**
  * PUT - Update appointment
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.APPOINTMENTS_UPDATE, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session
-    const user = await requireSession(request)
-
-    // 2. Require role check (doctors can update, patients can update their own)
-    requireRole(user, ['doctor', 'patient'], context)
-
     const body = await request.json()
     const validatedData = validate(updateAppointmentSchema, body, context.requestId)
 
-    // OPTIMIZED: Fetch appointment with minimal SELECT and clinicId validation
+    // 1. OPTIMIZED: Fetch appointment with minimal SELECT and clinicId validation
     const appointment = await prisma.appointment.findUnique({
       where: { id: params.id },
       select: {
@@ -112,6 +98,10 @@ export async function PUT(
         clinicId: true, // Include clinicId directly for faster tenant check
         patientId: true,
         doctorId: true,
+        scheduledAt: true,
+        duration: true,
+        status: true,
+        seriesId: true,
         patient: {
           select: {
             id: true,
@@ -125,29 +115,111 @@ export async function PUT(
       return apiError('Appointment not found', 404, context.requestId)
     }
 
-    // SECURITY: Enforce tenant isolation using clinicId from appointment directly
+    // 2. SECURITY: Enforce tenant isolation using clinicId from appointment directly
     if (appointment.clinicId !== user.clinicId) {
       return apiError('Forbidden: Appointment belongs to different clinic', 403, context.requestId)
     }
 
-    // 5. Patient assignment check
+    // 3. Patient assignment check
     if (user.role === 'doctor') {
       await requireDoctorAccessToPatient(user, appointment.patient.id, context)
     } else if (user.role === 'patient') {
       await requirePatientSelfAccess(user, appointment.patient.id, context)
-      // Patients can only update certain fields (e.g., cancellation)
+      // Patients can reschedule, change visit type/reason, attach an intake
+      // form, or cancel - within the clinic's self-scheduling cutoffs
+      const staffOnlyFields = (['duration', 'notes', 'meetingUrl', 'meetingId'] as const).filter(
+        (field) => validatedData[field] !== undefined
+      )
+      if (staffOnlyFields.length > 0) {
+        return apiError(`Patients cannot update: ${staffOnlyFields.join(', ')}`, 403, context.requestId)
+      }
       if (validatedData.status && validatedData.status !== 'CANCELLED') {
         return apiError('Patients can only cancel appointments', 403, context.requestId)
       }
+      if (validatedData.scope && validatedData.scope !== 'this') {
+        return apiError('Patients can only change a single appointment', 403, context.requestId)
+      }
+      if (!EDITABLE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+        return apiError('Only upcoming appointments can be changed', 409, context.requestId)
+      }
+
+      const policy = await getSchedulingPolicy(appointment.clinicId)
+      if (validatedData.status === 'CANCELLED') {
+        assertPatientCanChange(policy, 'cancel', appointment.scheduledAt)
+      } else if (validatedData.scheduledAt) {
+        assertPatientCanChange(policy, 'reschedule', appointment.scheduledAt)
+        assertPatientCanBook(policy, new Date(validatedData.scheduledAt))
+        // A moved visit needs to be confirmed again
+        validatedData.status = 'SCHEDULED'
+      }
     }
 
-    // 6. Update appointment
-    const updated = await prisma.appointment.update({
-      where: { id: params.id },
-      data: validatedData,
-      select: appointmentSelect,
+    const { scope = 'this', ...updates } = validatedData
+
+    // 4. Recurring series edits beyond this occurrence go through the series engine
+    if (appointment.seriesId && scope !== 'this') {
+      if (updates.intakeFormId !== undefined) {
+        return apiError('Intake forms can only be attached to a single appointment', 400, context.requestId)
+      }
+
+      if (updates.status === 'CANCELLED') {
+        const result = await cancelAppointmentOccurrences(params.id, appointment.clinicId, scope)
+        return apiSuccess(result, 200, context.requestId)
+      }
+
+      const appointments = await updateAppointmentOccurrences(params.id, appointment.clinicId, scope, {
+        ...updates,
+        scheduledAt: updates.scheduledAt ? new Date(updates.scheduledAt) : undefined,
+      })
+      return apiSuccess({ appointments }, 200, context.requestId)
+    }
+
+    // 5. Update appointment, re-checking the slot if the booked time changes
+    // or a cancelled appointment becomes active again
+    const scheduledAt = updates.scheduledAt
+      ? new Date(updates.scheduledAt)
+      : appointment.scheduledAt
+    const duration = updates.duration ?? appointment.duration
+    const status = updates.status ?? appointment.status
+    const needsSlotCheck =
+      isBlockingStatus(status) &&
+      (scheduledAt.getTime() !== appointment.scheduledAt.getTime() ||
+        duration !== appointment.duration ||
+        !isBlockingStatus(appointment.status))
+
+    const updated = await withDoctorScheduleLock(appointment.doctorId, async (tx) => {
+      if (updates.intakeFormId) {
+        await assertIntakeFormAttachable(
+          updates.intakeFormId,
+          { patientId: appointment.patientId, clinicId: appointment.clinicId, appointmentId: appointment.id },
+          tx
+        )
+      }
+
+      if (needsSlotCheck) {
+        await assertSlotAvailable(tx, {
+          doctorId: appointment.doctorId,
+          clinicId: appointment.clinicId,
+          scheduledAt,
+          duration,
+          excludeAppointmentIds: [appointment.id],
+        })
+      }
+
+      return tx.appointment.update({
+        where: { id: params.id },
+        data: updates,
+        select: appointmentSelect,
+      })
     })
 
+    // 6. Offer a freed slot to the waitlist
+    if (updates.status === 'CANCELLED' && appointment.status !== 'CANCELLED') {
+      await backfillCancelledAppointments([appointment.id]).catch((err) => {
+        console.error('Waitlist backfill failed (non-critical):', err)
+      })
+    }
+
     return apiSuccess(updated, 200, context.requestId)
   } catch (error: any) {
     const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
@@ -158,5 +230,72 @@ export async function PUT(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
+
+/**
+ * DELETE - Cancel appointment
+ * Use ?scope=following|all to cancel the rest of a recurring series
+ * Cancelling is an update, so patients cancel their own with appointments:update
+ */
+export const DELETE = withPermission<{ id: string }>([PERMISSIONS.APPOINTMENTS_DELETE, PERMISSIONS.APPOINTMENTS_UPDATE], async (request, { session: user, context, params }) => {
+  try {
+    const scope = validate(
+      seriesScopeSchema,
+      request.nextUrl.searchParams.get('scope') || 'this',
+      context.requestId
+    )
 
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        clinicId: true,
+        scheduledAt: true,
+        status: true,
+        patient: {
+          select: {
+            id: true,
+          },
+        },
+      },
+    })
+
+    if (!appointment) {
+      return apiError('Appointment not found', 404, context.requestId)
+    }
+
+    // 1. SECURITY: Enforce tenant isolation
+    if (appointment.clinicId !== user.clinicId) {
+      return apiError('Forbidden: Appointment belongs to different clinic', 403, context.requestId)
+    }
+
+    // 2. Patient assignment check
+    if (user.role === 'doctor') {
+      await requireDoctorAccessToPatient(user, appointment.patient.id, context)
+    } else if (user.role === 'patient') {
+      await requirePatientSelfAccess(user, appointment.patient.id, context)
+
+      if (scope !== 'this') {
+        return apiError('Patients can only cancel a single appointment', 403, context.requestId)
+      }
+      if (!EDITABLE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+        return apiError('Only upcoming appointments can be cancelled', 409, context.requestId)
+      }
+      assertPatientCanChange(
+        await getSchedulingPolicy(appointment.clinicId),
+        'cancel',
+        appointment.scheduledAt
+      )
+    }
+
+    // 3. Cancel the selected occurrence(s)
+    const result = await cancelAppointmentOccurrences(params.id, appointment.clinicId, scope)
+
+    return apiSuccess(result, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
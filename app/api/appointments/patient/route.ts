@@ -3,25 +3,18 @@
 // TODO: Filter by status
 // TODO: Include doctor information
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { prisma } from '@/db/prisma'
-import { appointmentSelect } from '@/lib/db/selects'
+import { EDITABLE_APPOINTMENT_STATUSES } from '@/lib/scheduling/series'
+import { getChangeDeadline, getSchedulingPolicy } from '@/lib/scheduling/self-scheduling'
 
 // GET - Get patient appointments
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Allow patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
-
     // Get patientId from query params if doctor, otherwise from session
     const patientIdParam = request.nextUrl.searchParams.get('patientId')
     let patientId: string
@@ -60,7 +53,7 @@ export async function GET(request: NextRequest) {
     if (status) {
       where.status = status
     } else if (upcoming) {
-      where.status = { in: ['SCHEDULED', 'CONFIRMED'] }
+      where.status = { in: EDITABLE_APPOINTMENT_STATUSES }
       where.scheduledAt = { gte: new Date() }
     }
 
@@ -75,6 +68,8 @@ export async function GET(request: NextRequest) {
         visitType: true,
         reason: true,
         meetingUrl: true,
+        seriesId: true,
+        intakeFormId: true,
         createdAt: true,
         doctor: {
           select: {
@@ -92,8 +87,21 @@ export async function GET(request: NextRequest) {
       orderBy: upcoming ? { scheduledAt: 'asc' } : { scheduledAt: 'desc' },
     })
 
+    // Self-scheduling deadlines let the portal show which visits can still be changed online
+    const policy = await getSchedulingPolicy(session.clinicId)
+    const withDeadlines = appointments.map((appointment) => {
+      const editable = EDITABLE_APPOINTMENT_STATUSES.includes(appointment.status)
+      return {
+        ...appointment,
+        rescheduleBy: editable && policy.selfSchedulingEnabled
+          ? getChangeDeadline(policy, 'reschedule', appointment.scheduledAt)
+          : null,
+        cancelBy: editable ? getChangeDeadline(policy, 'cancel', appointment.scheduledAt) : null,
+      }
+    })
+
     // Format response (already sanitized by select)
-    return apiSuccess(appointments, 200, context.requestId)
+    return apiSuccess({ appointments: withDeadlines, policy }, 200, context.requestId)
   } catch (error: any) {
     const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
     const message = error.message || 'Internal server error'
@@ -103,5 +111,5 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -1,57 +1,163 @@
 // TODO: Implement appointment API routes
-// TODO: Add GET /api/appointments - list appointments with filtering
 // TODO: Add POST /api/appointments - create new appointment
 // TODO: Add GET /api/appointments/[id] - get appointment details
 // TODO: Add PUT /api/appointments/[id] - update appointment
 // TODO: Add DELETE /api/appointments/[id] - cancel appointment
-// TODO: Add availability checking logic
-// TODO: Add timezone handling
 // TODO: Add email/SMS notifications for appointment reminders
 // TODO: Integrate with Google Calendar API for provider scheduling
 
-import { NextRequest } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
 import {
-  requireSession,
-  requireRole,
   requireClinicAccess,
   requireDoctorAccessToPatient,
   requirePatientSelfAccess,
-  getGuardContext,
 } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { validate } from '@/lib/validation'
-import { createAppointmentSchema } from '@/lib/validation/schemas'
+import { createAppointmentSchema, listAppointmentsQuerySchema } from '@/lib/validation/schemas'
 import { prisma } from '@/db/prisma'
 import { appointmentSelect } from '@/lib/db/selects'
+import { assertSlotAvailable, isBlockingStatus, withDoctorScheduleLock } from '@/lib/scheduling/booking'
+import { createAppointmentSeries } from '@/lib/scheduling/series'
+import { toRRule } from '@/lib/scheduling/recurrence'
+import {
+  assertIntakeFormAttachable,
+  assertPatientCanBook,
+  getSchedulingPolicy,
+} from '@/lib/scheduling/self-scheduling'
 
-// TODO: Implement GET appointments endpoint
-export async function GET(request: NextRequest) {
-  // TODO: Parse query parameters (patientId, providerId, date range)
-  // TODO: Fetch appointments from database with filters
-  // TODO: Return paginated results
-  
-  return apiSuccess({ message: 'Appointments endpoint - to be implemented' }, 200)
-}
+// GET - List appointments (cursor-paginated)
+export const GET = withPermission(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session: user, context }) => {
+  try {
+    // 1. Validate query parameters (status/visitType accept comma-separated lists)
+    const searchParams = request.nextUrl.searchParams
+    const list = (key: string) => searchParams.get(key)?.split(',').filter(Boolean)
+    const query = validate(
+      listAppointmentsQuerySchema,
+      {
+        doctorId: searchParams.get('doctorId') || undefined,
+        patientId: searchParams.get('patientId') || undefined,
+        status: list('status'),
+        visitType: list('visitType'),
+        startDate: searchParams.get('startDate') || undefined,
+        endDate: searchParams.get('endDate') || undefined,
+        cursor: searchParams.get('cursor') || undefined,
+        limit: searchParams.get('limit') || undefined,
+        order: searchParams.get('order') || undefined,
+      },
+      context.requestId
+    )
 
-// POST - Create appointment
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
+    const where: Prisma.AppointmentWhereInput = {}
 
-  try {
-    // 1. Require valid session
-    const user = await requireSession(request)
-    requireRole(user, ['doctor', 'patient'], context)
+    // 2. Role scoping: doctors see their own, patients see theirs, other staff see the clinic
+    if (user.role === 'doctor') {
+      const doctor = await prisma.doctor.findUnique({
+        where: { userId: user.id, clinicId: user.clinicId },
+        select: { id: true },
+      })
+
+      if (!doctor) {
+        return apiError('Doctor profile not found', 404, context.requestId)
+      }
+      if (query.doctorId && query.doctorId !== doctor.id) {
+        return apiError('Forbidden: Doctors can only list their own appointments', 403, context.requestId)
+      }
+
+      where.doctorId = doctor.id
+      if (query.patientId) {
+        where.patientId = query.patientId
+      }
+    } else if (user.role === 'patient') {
+      const patient = await prisma.patient.findUnique({
+        where: { userId: user.id, clinicId: user.clinicId },
+        select: { id: true },
+      })
+
+      if (!patient) {
+        return apiError('Patient profile not found', 404, context.requestId)
+      }
+      if (query.patientId && query.patientId !== patient.id) {
+        return apiError('Forbidden: Patients can only list their own appointments', 403, context.requestId)
+      }
+
+      where.patientId = patient.id
+      if (query.doctorId) {
+        where.doctorId = query.doctorId
+      }
+    } else {
+      if (query.doctorId) {
+        where.doctorId = query.doctorId
+      }
+      if (query.patientId) {
+        where.patientId = query.patientId
+      }
+    }
+
+    // 3. Filters
+    if (query.status?.length) {
+      where.status = { in: query.status }
+    }
+    if (query.visitType?.length) {
+      where.visitType = { in: query.visitType }
+    }
+    if (query.startDate || query.endDate) {
+      where.scheduledAt = {
+        ...(query.startDate && { gte: new Date(query.startDate) }),
+        ...(query.endDate && { lte: new Date(query.endDate) }),
+      }
+    }
+
+    // 4. Fetch one extra row to detect whether another page exists
+    const limit = query.limit ?? 25
+    const order = query.order ?? 'asc'
+    const rows = await prisma.appointment.findMany({
+      where: withClinicScope(user.clinicId, where),
+      select: appointmentSelect,
+      orderBy: [{ scheduledAt: order }, { id: order }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    })
+
+    const hasMore = rows.length > limit
+    const appointments = hasMore ? rows.slice(0, limit) : rows
+
+    return apiSuccess(
+      {
+        appointments,
+        nextCursor: hasMore ? appointments[appointments.length - 1].id : null,
+        hasMore,
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
 
-    // 2. Validate request body
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Create appointment
+export const POST = withPermission(PERMISSIONS.APPOINTMENTS_CREATE, async (request, { session: user, context }) => {
+  try {
+    // 1. Validate request body
     const body = await request.json()
     const validatedData = validate(createAppointmentSchema, body, context.requestId)
 
-    // 3. Convert scheduledAt string to Date if needed
+    // 2. Convert scheduledAt string to Date if needed
     const scheduledAt = typeof validatedData.scheduledAt === 'string' 
       ? new Date(validatedData.scheduledAt)
       : validatedData.scheduledAt
+    const duration = validatedData.duration ?? 30
+    // 3. Patients book unconfirmed visits; staff may set any status
+    const status = user.role === 'patient' ? 'SCHEDULED' : validatedData.status ?? 'SCHEDULED'
 
-    // OPTIMIZED: Batch patient and doctor lookups in parallel
+    // 4. OPTIMIZED: Batch patient and doctor lookups in parallel
     const [patient, doctor] = await Promise.all([
       prisma.patient.findUnique({
         where: { 
@@ -77,7 +183,7 @@ export async function POST(request: NextRequest) {
       return apiError('Doctor not found', 404, context.requestId)
     }
 
-    // Verify clinic access
+    // 5. Verify clinic access
     await requireClinicAccess(user, patient.clinicId, 'appointment', 'new', context)
 
     if (user.role === 'doctor') {
@@ -90,22 +196,77 @@ export async function POST(request: NextRequest) {
       return apiError('Doctor and patient must belong to the same clinic', 403, context.requestId)
     }
 
-    // 6. Create appointment
-    const appointment = await prisma.appointment.create({
-      data: {
+    // 6. Patient self-scheduling: clinic booking window applies, series are staff-only
+    if (user.role === 'patient') {
+      if (validatedData.recurrence) {
+        return apiError('Recurring appointments must be scheduled by the clinic', 403, context.requestId)
+      }
+      assertPatientCanBook(await getSchedulingPolicy(user.clinicId), scheduledAt)
+    }
+
+    // 7a. Recurring series: every occurrence is validated and created atomically
+    if (validatedData.recurrence) {
+      const recurrence = {
+        ...validatedData.recurrence,
+        interval: validatedData.recurrence.interval ?? 1,
+        until: validatedData.recurrence.until ? new Date(validatedData.recurrence.until) : null,
+      }
+      const { series, appointments } = await createAppointmentSeries({
+        clinicId: user.clinicId,
         doctorId: validatedData.doctorId,
         patientId: validatedData.patientId,
-        clinicId: user.clinicId,
-        scheduledAt,
-        duration: validatedData.duration,
-        status: validatedData.status,
-        visitType: validatedData.visitType,
+        startsAt: scheduledAt,
+        duration,
+        visitType: validatedData.visitType ?? 'VIDEO',
+        status,
         reason: validatedData.reason,
         notes: validatedData.notes,
-        meetingUrl: validatedData.meetingUrl || null,
-        meetingId: validatedData.meetingId || null,
-      },
-      select: appointmentSelect,
+        recurrence,
+      })
+
+      return apiSuccess(
+        { series: { ...series, rrule: toRRule(series) }, appointments },
+        201,
+        context.requestId
+      )
+    }
+
+    // 7b. Create appointment atomically with the availability/conflict check
+    const appointment = await withDoctorScheduleLock(validatedData.doctorId, async (tx) => {
+      if (validatedData.intakeFormId) {
+        await assertIntakeFormAttachable(
+          validatedData.intakeFormId,
+          { patientId: validatedData.patientId, clinicId: user.clinicId },
+          tx
+        )
+      }
+
+      if (isBlockingStatus(status)) {
+        await assertSlotAvailable(tx, {
+          doctorId: validatedData.doctorId,
+          clinicId: user.clinicId,
+          scheduledAt,
+          duration,
+        })
+      }
+
+      return tx.appointment.create({
+        data: {
+          doctorId: validatedData.doctorId,
+          patientId: validatedData.patientId,
+          clinicId: user.clinicId,
+          scheduledAt,
+          duration,
+          status,
+          visitType: validatedData.visitType,
+          reason: validatedData.reason,
+          notes: validatedData.notes,
+          meetingUrl: validatedData.meetingUrl || null,
+          meetingId: validatedData.meetingId || null,
+          intakeFormId: validatedData.intakeFormId || null,
+        },
+        select: appointmentSelect,
+      })
     })
 
     return apiSuccess(appointment, 201, context.requestId)
@@ -118,5 +279,5 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -1,10 +1,9 @@
 // TODO: Admin endpoint to approve doctor accounts
-// TODO: Require admin role
 // TODO: Update doctor approval status
 // TODO: Send notification to doctor
 
-import { NextRequest, NextResponse } from 'next/server'
-import { requireRole } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
@@ -14,11 +13,8 @@ const approveSchema = z.object({
   approved: z.boolean(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.ADMIN_APPROVE_DOCTORS, async (request) => {
   try {
-    // Require admin role
-    await requireRole(request, 'admin')
-
     const body = await request.json()
     const data = approveSchema.parse(body)
 
@@ -44,13 +40,9 @@ export async function POST(request: NextRequest) {
         : 'Doctor approval revoked',
     })
   } catch (error: any) {
-    if (error.message === 'Unauthorized' || error.message === 'Forbidden') {
-      return apiError(error.message, 403)
-    }
     if (error instanceof z.ZodError) {
       return apiError(error.errors[0].message, 400)
     }
     return apiError(error.message || 'Internal server error', 500)
   }
-}
-
+})
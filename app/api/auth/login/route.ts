@@ -6,18 +6,28 @@
  * - Access token stored in httpOnly cookie
  * - Refresh token stored correctly
  * - Session persists on page reload
+ * - Users with MFA (or whose clinic requires it) get a challenge token
+ *   instead of cookies; POST /api/auth/mfa/challenge completes the login
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { signInWithPassword, createRouteHandlerClient } from '@/lib/auth/supabase'
 import { z } from 'zod'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { firestoreRateLimiters } from '@/lib/security/firestore-rate-limit'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
 import { sanitizeEmail } from '@/lib/security/sanitize'
 import { addSecurityHeaders } from '@/lib/security/headers'
 import { logInfo } from '@/lib/security/logging'
 import { handleApiError } from '@/lib/security/error-handler'
-import { logLoginSuccess, logLoginFailure, getRequestFromNextRequest } from '@/lib/security/event-logging'
+import {
+  EventType,
+  logLoginSuccess,
+  logLoginFailure,
+  logMfaEvent,
+  getRequestFromNextRequest,
+} from '@/lib/security/event-logging'
+import { createMfaChallenge, getLoginMfaRequirement } from '@/lib/auth/mfa'
+import { getSessionIdFromAccessToken } from '@/lib/auth/session-policy'
 import { v4 as uuidv4 } from 'uuid'
 
 const loginSchema = z.object({
@@ -38,9 +48,9 @@ export async function POST(request: NextRequest) {
     }
     
     // Rate limiting: 5 login attempts per minute
-    const rateLimitResponse = await firestoreRateLimiters.login(request, sanitizedEmail)
-    if (rateLimitResponse) {
-      return addSecurityHeaders(rateLimitResponse)
+    const rateLimit = await rateLimiters.login(request, { id: sanitizedEmail })
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
     }
     
     const data = loginSchema.parse({ ...body, email: sanitizedEmail })
@@ -107,6 +117,41 @@ export async function POST(request: NextRequest) {
       },
     }
 
+    // Second factor: hold the session cookies until a code is verified
+    const mfa = await getLoginMfaRequirement(fullUser)
+    if (mfa.challenge) {
+      const { challengeToken, expiresAt } = await createMfaChallenge(
+        {
+          user: fullUser,
+          sessionId: getSessionIdFromAccessToken(session.access_token),
+          cookies: authResponse.cookies.getAll().map(({ name, value }) => ({ name, value })),
+        },
+        mfa.enrollmentRequired
+      )
+
+      logMfaEvent(
+        EventType.MFA_CHALLENGE,
+        authUser.id,
+        { success: true, reason: mfa.enrollmentRequired ? 'enrollment_required' : undefined },
+        getRequestFromNextRequest(request),
+        requestId
+      ).catch(err => console.error('Failed to log MFA challenge:', err))
+
+      return setRateLimitHeaders(addSecurityHeaders(apiSuccess(
+        {
+          mfaRequired: true,
+          enrollmentRequired: mfa.enrollmentRequired,
+          challengeToken,
+          expiresAt,
+          message: mfa.enrollmentRequired
+            ? 'Your clinic requires multi-factor authentication. Set up an authenticator app to continue.'
+            : 'Enter the code from your authenticator app',
+        },
+        200,
+        requestId
+      )), rateLimit)
+    }
+
     // Check if doctor is approved
     if (role === 'doctor' && !approved) {
       // Log login success (pending approval) - non-blocking
@@ -138,7 +183,7 @@ export async function POST(request: NextRequest) {
         })
       })
       
-      return addSecurityHeaders(response)
+      return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
     }
 
     // Log successful login - non-blocking
@@ -167,7 +212,7 @@ export async function POST(request: NextRequest) {
       })
     })
     
-    return addSecurityHeaders(response)
+    return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
   } catch (error: any) {
     return addSecurityHeaders(handleApiError(error, 'Login failed', undefined, requestId))
   }
@@ -12,6 +12,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { signOut } from '@/lib/auth/supabase'
+import { endSessionForRequest } from '@/lib/auth/session-registry'
 import { addSecurityHeaders } from '@/lib/security/headers'
 
 export async function POST(request: NextRequest) {
@@ -19,6 +20,11 @@ export async function POST(request: NextRequest) {
   let cookiesCleared = false
 
   try {
+    // Step 0: Mark the session signed out in the session registry
+    await endSessionForRequest(request).catch((err) =>
+      console.error('Failed to end registered session (non-critical):', err)
+    )
+
     // Step 1: Attempt Supabase sign out
     // Requirement 1: supabase.auth.signOut()
     // This handles: expired sessions, corrupted cookies, partial session objects
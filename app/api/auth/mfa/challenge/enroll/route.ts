@@ -0,0 +1,39 @@
+/**
+ * MFA Enrollment During Login
+ *
+ * POST /api/auth/mfa/challenge/enroll - for a login challenge where the
+ *     clinic requires MFA and the user has none yet: returns the secret and
+ *     otpauth:// URL (shown as a QR code) for their authenticator app.
+ *     The first code is then verified with POST /api/auth/mfa/challenge.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { startChallengeEnrollment } from '@/lib/auth/mfa'
+import { validate } from '@/lib/validation'
+import { mfaChallengeSchema } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { addSecurityHeaders } from '@/lib/security/headers'
+import { v4 as uuidv4 } from 'uuid'
+
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const rateLimit = await rateLimiters.mfa(request)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
+    }
+
+    const body = await request.json()
+    const data = validate(mfaChallengeSchema, body, requestId)
+
+    const { secret, otpauthUrl } = await startChallengeEnrollment(data.challengeToken)
+
+    return setRateLimitHeaders(addSecurityHeaders(apiSuccess({ secret, otpauthUrl }, 200, requestId)), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = statusCode === 500 ? 'Failed to start MFA enrollment' : error.message
+    return addSecurityHeaders(apiError(message, statusCode, requestId))
+  }
+}
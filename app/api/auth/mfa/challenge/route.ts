@@ -0,0 +1,87 @@
+/**
+ * MFA Login Challenge Route
+ *
+ * POST /api/auth/mfa/challenge - second login step: verifies an
+ *     authenticator or recovery code against the challenge token from
+ *     /api/auth/login and sets the session cookies. For challenges that
+ *     require enrollment, the code confirms the new authenticator and the
+ *     response includes the recovery codes.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { completeMfaChallenge, setSessionCookies } from '@/lib/auth/mfa'
+import { validate } from '@/lib/validation'
+import { verifyMfaChallengeSchema } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { addSecurityHeaders } from '@/lib/security/headers'
+import { logInfo } from '@/lib/security/logging'
+import {
+  EventType,
+  logLoginSuccess,
+  logMfaEvent,
+  getRequestFromNextRequest,
+} from '@/lib/security/event-logging'
+import { v4 as uuidv4 } from 'uuid'
+
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    // Rate limiting on top of the per-challenge attempt limit
+    const rateLimit = await rateLimiters.mfa(request)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
+    }
+
+    const body = await request.json()
+    const data = validate(verifyMfaChallengeSchema, body, requestId)
+
+    const result = await completeMfaChallenge(data.challengeToken, data.code)
+    const { user } = result
+
+    logMfaEvent(
+      result.recoveryCodes ? EventType.MFA_ENROLLED : EventType.MFA_SUCCESS,
+      user.id,
+      { method: result.method, success: true },
+      getRequestFromNextRequest(request),
+      requestId
+    ).catch(err => console.error('Failed to log MFA event:', err))
+    logLoginSuccess(
+      user.id,
+      user.role,
+      getRequestFromNextRequest(request),
+      requestId
+    ).catch(err => console.error('Failed to log login success:', err))
+    logInfo('User logged in', { userId: user.id, role: user.role, mfa: result.method }, user.id, requestId)
+
+    const pendingApproval = user.role === 'doctor' && !user.metadata?.approved
+    const response = apiSuccess(
+      {
+        user,
+        message: pendingApproval ? 'Account pending admin approval' : 'Login successful',
+        ...(result.recoveryCodes && { recoveryCodes: result.recoveryCodes }),
+      },
+      200,
+      requestId
+    )
+    setSessionCookies(response, result.cookies)
+
+    return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+
+    if (statusCode === 401) {
+      logMfaEvent(
+        EventType.MFA_FAILURE,
+        undefined,
+        { reason: error.message, success: false },
+        getRequestFromNextRequest(request),
+        requestId
+      ).catch(err => console.error('Failed to log MFA failure:', err))
+    }
+
+    const message = statusCode === 500 ? 'Verification failed' : error.message
+    return addSecurityHeaders(apiError(message, statusCode, requestId))
+  }
+}
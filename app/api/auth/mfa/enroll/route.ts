@@ -0,0 +1,28 @@
+/**
+ * MFA Enrollment API Route
+ *
+ * POST /api/auth/mfa/enroll - start (or restart) enrollment for the
+ *      signed-in user: returns the secret and the otpauth:// URL to show as
+ *      a QR code. MFA is enabled once /api/auth/mfa/enroll/verify accepts
+ *      a code from the app.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext } from '@/lib/auth/guards'
+import { startMfaEnrollment } from '@/lib/auth/mfa'
+
+// POST - Start enrollment
+export async function POST(request: NextRequest) {
+  const context = getGuardContext(request)
+
+  try {
+    const session = await requireSession(request)
+    const enrollment = await startMfaEnrollment(session)
+
+    return apiSuccess(enrollment, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Internal server error', statusCode, context.requestId)
+  }
+}
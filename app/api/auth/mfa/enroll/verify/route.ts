@@ -0,0 +1,73 @@
+/**
+ * MFA Enrollment Verification API Route
+ *
+ * POST /api/auth/mfa/enroll/verify - enable MFA with the first code from
+ *      the authenticator app (body: { code }); returns the recovery codes,
+ *      which are shown once and cannot be retrieved later; the current
+ *      session counts as MFA-verified
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext, type UserSession } from '@/lib/auth/guards'
+import { confirmMfaEnrollment } from '@/lib/auth/mfa'
+import { markSessionMfaVerified } from '@/lib/auth/session-registry'
+import { getSessionIdFromAccessToken } from '@/lib/auth/session-policy'
+import { validate } from '@/lib/validation'
+import { mfaCodeSchema } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { EventType, logMfaEvent, getRequestFromNextRequest } from '@/lib/security/event-logging'
+
+// POST - Confirm enrollment
+export async function POST(request: NextRequest) {
+  const context = getGuardContext(request)
+  let session: UserSession | null = null
+
+  try {
+    // 1. Require session
+    session = await requireSession(request)
+
+    const rateLimit = await rateLimiters.mfa(request, session)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const data = validate(mfaCodeSchema, body, context.requestId)
+
+    // 3. Enable
+    const { recoveryCodes } = await confirmMfaEnrollment(session.id, data.code)
+
+    // The code just verified is this session's second factor
+    const sessionId = getSessionIdFromAccessToken(session.session.access_token)
+    if (sessionId) {
+      await markSessionMfaVerified(sessionId, session)
+    }
+
+    logMfaEvent(
+      EventType.MFA_ENROLLED,
+      session.id,
+      { method: 'totp', success: true },
+      getRequestFromNextRequest(request),
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return setRateLimitHeaders(apiSuccess({ enabled: true, recoveryCodes }, 200, context.requestId), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (session) {
+      logMfaEvent(
+        EventType.MFA_FAILURE,
+        session.id,
+        { reason: 'enroll', success: false },
+        getRequestFromNextRequest(request),
+        context.requestId
+      ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+    }
+
+    return apiError(message, statusCode, context.requestId)
+  }
+}
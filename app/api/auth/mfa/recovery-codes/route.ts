@@ -0,0 +1,63 @@
+/**
+ * MFA Recovery Codes API Route
+ *
+ * POST /api/auth/mfa/recovery-codes - replace all recovery codes
+ *      (body: { code } - a current authenticator or recovery code)
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext, type UserSession } from '@/lib/auth/guards'
+import { regenerateRecoveryCodes } from '@/lib/auth/mfa'
+import { validate } from '@/lib/validation'
+import { mfaCodeSchema } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { EventType, logMfaEvent, getRequestFromNextRequest } from '@/lib/security/event-logging'
+
+// POST - Regenerate recovery codes
+export async function POST(request: NextRequest) {
+  const context = getGuardContext(request)
+  let session: UserSession | null = null
+
+  try {
+    // 1. Require session
+    session = await requireSession(request)
+
+    const rateLimit = await rateLimiters.mfa(request, session)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const data = validate(mfaCodeSchema, body, context.requestId)
+
+    // 3. Replace the codes
+    const { recoveryCodes } = await regenerateRecoveryCodes(session.id, data.code)
+
+    logMfaEvent(
+      EventType.MFA_RECOVERY_CODES_REGENERATED,
+      session.id,
+      { success: true },
+      getRequestFromNextRequest(request),
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return setRateLimitHeaders(apiSuccess({ recoveryCodes }, 200, context.requestId), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (session) {
+      logMfaEvent(
+        EventType.MFA_FAILURE,
+        session.id,
+        { reason: 'recovery_codes', success: false },
+        getRequestFromNextRequest(request),
+        context.requestId
+      ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+    }
+
+    return apiError(message, statusCode, context.requestId)
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * MFA Settings API Route
+ *
+ * GET    /api/auth/mfa - the signed-in user's MFA status and whether their
+ *        clinic requires it
+ * DELETE /api/auth/mfa - turn MFA off (body: { code }); refused when the
+ *        clinic policy requires MFA for the user's role
+ *
+ * Enrollment: POST /api/auth/mfa/enroll, then /api/auth/mfa/enroll/verify
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext, type UserSession } from '@/lib/auth/guards'
+import { disableMfa, getMfaStatus } from '@/lib/auth/mfa'
+import { validate } from '@/lib/validation'
+import { mfaCodeSchema } from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { EventType, logMfaEvent, getRequestFromNextRequest } from '@/lib/security/event-logging'
+
+// GET - MFA status
+export async function GET(request: NextRequest) {
+  const context = getGuardContext(request)
+
+  try {
+    const session = await requireSession(request)
+    const status = await getMfaStatus(session)
+
+    return apiSuccess(status, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Internal server error', statusCode, context.requestId)
+  }
+}
+
+// DELETE - Disable MFA
+export async function DELETE(request: NextRequest) {
+  const context = getGuardContext(request)
+  let session: UserSession | null = null
+
+  try {
+    // 1. Require session
+    session = await requireSession(request)
+
+    const rateLimit = await rateLimiters.mfa(request, session)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const data = validate(mfaCodeSchema, body, context.requestId)
+
+    // 3. Policy check, then a current code
+    await disableMfa(session, data.code)
+
+    logMfaEvent(
+      EventType.MFA_DISABLED,
+      session.id,
+      { success: true },
+      getRequestFromNextRequest(request),
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return setRateLimitHeaders(apiSuccess({ message: 'MFA disabled' }, 200, context.requestId), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (session) {
+      logMfaEvent(
+        EventType.MFA_FAILURE,
+        session.id,
+        { reason: 'disable', success: false },
+        getRequestFromNextRequest(request),
+        context.requestId
+      ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+    }
+
+    return apiError(message, statusCode, context.requestId)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Session API Route
+ *
+ * DELETE /api/auth/sessions/[id] - revoke one of the signed-in user's
+ *        sessions (signing out that device)
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext, type UserSession } from '@/lib/auth/guards'
+import { revokeUserSession } from '@/lib/auth/session-registry'
+import { logAccess } from '@/lib/logging/audit'
+
+// DELETE - Revoke a session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = getGuardContext(request)
+  let session: UserSession | null = null
+
+  try {
+    session = await requireSession(request)
+    await revokeUserSession(session, params.id)
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'REVOKE_SESSION',
+      resourceType: 'session',
+      resourceId: params.id,
+      request,
+      requestId: context.requestId,
+      success: true,
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ message: 'Session revoked' }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (session) {
+      logAccess({
+        userId: session.id,
+        clinicId: session.clinicId,
+        action: 'REVOKE_SESSION',
+        resourceType: 'session',
+        resourceId: params.id,
+        request,
+        requestId: context.requestId,
+        success: false,
+        metadata: { statusCode },
+      }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+    }
+
+    return apiError(message, statusCode, context.requestId)
+  }
+}
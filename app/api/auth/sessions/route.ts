@@ -0,0 +1,74 @@
+/**
+ * Sessions API Route
+ *
+ * GET    /api/auth/sessions - the signed-in user's active sessions (device,
+ *        IP, last activity), with the current one marked
+ * DELETE /api/auth/sessions - sign out every other session
+ *
+ * DELETE /api/auth/sessions/[id] revokes a single session.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireSession, getGuardContext, type UserSession } from '@/lib/auth/guards'
+import { listUserSessions, revokeOtherUserSessions } from '@/lib/auth/session-registry'
+import { logAccess } from '@/lib/logging/audit'
+
+// GET - List own sessions
+export async function GET(request: NextRequest) {
+  const context = getGuardContext(request)
+
+  try {
+    const session = await requireSession(request)
+    const sessions = await listUserSessions(session, session.session.access_token)
+
+    return apiSuccess({ sessions }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Internal server error', statusCode, context.requestId)
+  }
+}
+
+// DELETE - Revoke all other sessions
+export async function DELETE(request: NextRequest) {
+  const context = getGuardContext(request)
+  let session: UserSession | null = null
+
+  try {
+    session = await requireSession(request)
+    const revoked = await revokeOtherUserSessions(session, session.session.access_token)
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'REVOKE_SESSIONS',
+      resourceType: 'session',
+      resourceId: 'others',
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: { count: revoked },
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ revoked }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (session) {
+      logAccess({
+        userId: session.id,
+        clinicId: session.clinicId,
+        action: 'REVOKE_SESSIONS',
+        resourceType: 'session',
+        resourceId: 'others',
+        request,
+        requestId: context.requestId,
+        success: false,
+        metadata: { statusCode },
+      }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+    }
+
+    return apiError(message, statusCode, context.requestId)
+  }
+}
@@ -77,6 +77,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create profile in Prisma database
+    // The user_roles insert above created the users row the profile references
     if (data.role === 'doctor') {
       if (!data.licenseNumber) {
         return addSecurityHeaders(apiError('License number is required for doctors', 400))
@@ -2,24 +2,17 @@
 // TODO: Get doctor earnings, payments, subscription status
 // TODO: Handle refunds
 
-import { NextRequest } from "next/server"
 import { apiError, apiSuccess } from "@/lib/auth/api-protection"
-import { requireSession, requireRole, getGuardContext } from "@/lib/auth/guards"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { withClinicScope } from "@/lib/auth/tenant-scope"
 import { enforceTenant } from "@/lib/auth/tenant"
 import { prisma } from "@/db/prisma"
 
 // GET - Get doctor billing data
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.BILLING_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError("Doctor account pending approval", 403, context.requestId)
     }
@@ -147,19 +140,12 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // POST - Process refund
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.BILLING_REFUND, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError("Doctor account pending approval", 403, context.requestId)
     }
@@ -241,5 +227,5 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -0,0 +1,51 @@
+/**
+ * Code Catalogue API Route
+ *
+ * GET /api/codes?q=&system=&limit= - search ICD-10-CM and CPT codes by code
+ *     prefix or words of the description (visit note code picker)
+ * GET /api/codes?codes=J02.9,99213 - look codes up; codes not in the
+ *     catalogue are returned in invalid, and those shaped like a code also
+ *     in uncatalogued (canonical form)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { codeLookupQuerySchema } from '@/lib/validation/schemas'
+import { normalizeCode, searchCodes, validateCodes } from '@/lib/coding/catalog'
+
+// GET - Search or look up codes
+export const GET = withPermission(PERMISSIONS.NOTES_VIEW, async (request, { context }) => {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      codeLookupQuerySchema,
+      {
+        q: searchParams.get('q') || undefined,
+        codes: searchParams.get('codes') || undefined,
+        system: searchParams.get('system') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    if (query.codes) {
+      const codes = query.codes.split(',').map((code) => code.trim()).filter(Boolean)
+      const { valid, invalid } = validateCodes(codes, query.system)
+      const uncatalogued = invalid
+        .map((code) => normalizeCode(code, query.system))
+        .filter((code): code is string => code !== null)
+      return apiSuccess({ codes: valid, invalid, uncatalogued }, 200, context.requestId)
+    }
+
+    return apiSuccess(
+      { codes: searchCodes(query.q ?? '', { system: query.system, limit: query.limit }) },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Failed to search codes', statusCode, context.requestId)
+  }
+})
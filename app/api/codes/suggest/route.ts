@@ -0,0 +1,28 @@
+/**
+ * Code Suggestion API Route
+ *
+ * POST /api/codes/suggest - catalogue codes ranked by how well the given
+ *      text (a note's assessment and plan) supports them. Nothing is stored.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { codeSuggestionSchema } from '@/lib/validation/schemas'
+import { suggestCodes } from '@/lib/coding/catalog'
+
+// POST - Suggest codes for note text
+export const POST = withPermission(PERMISSIONS.NOTES_UPDATE, async (request, { context }) => {
+  try {
+    const body = await request.json()
+    const input = validate(codeSuggestionSchema, body, context.requestId)
+
+    const suggestions = suggestCodes(input.text, { system: input.system, limit: input.limit })
+
+    return apiSuccess({ suggestions }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Failed to suggest codes', statusCode, context.requestId)
+  }
+})
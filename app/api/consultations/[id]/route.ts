@@ -3,22 +3,17 @@
  * 
  * Demonstrates comprehensive RBAC with:
  * - Session validation
- * - Role checks
+ * - Permission checks (withPermission)
  * - Clinic access validation
  * - Doctor-to-patient relationship checks
  * - Patient self-access checks
  * - PHI access audit logging
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import {
-  requireSession,
-  requireRole,
-  requireDoctorAccessToPatient,
-  requirePatientSelfAccess,
-  getGuardContext,
-} from '@/lib/auth/guards'
+import { requireDoctorAccessToPatient, requirePatientSelfAccess } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { validate } from '@/lib/validation'
 import { consultationUpdateSchema } from '@/lib/validation/schemas'
@@ -32,21 +27,11 @@ import { consultationSelectWithSoap } from '@/lib/db/selects'
  * Access rules:
  * - Doctors: Can access if they have relationship with patient
  * - Patients: Can access their own consultations
+ * - Other staff holding consultations:view: consultations in their clinic
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const GET = withPermission<{ id: string }>(PERMISSIONS.CONSULTATIONS_VIEW, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session (replaces direct Supabase access)
-    const user = await requireSession(request)
-
-    // 2. Require role check
-    requireRole(user, ['doctor', 'patient'], context)
-
-    // OPTIMIZED: Fetch consultation with minimal SELECT and clinicId validation
+    // 1. OPTIMIZED: Fetch consultation with minimal SELECT and clinicId validation
     const consultation = await prisma.consultation.findUnique({
       where: { id: params.id },
       select: {
@@ -68,12 +53,12 @@ export async function GET(
       return apiError('Consultation not found', 404, context.requestId)
     }
 
-    // SECURITY: Enforce tenant isolation using clinicId from consultation directly
+    // 2. SECURITY: Enforce tenant isolation using clinicId from consultation directly
     if (consultation.clinicId !== user.clinicId) {
       return apiError('Forbidden: Consultation belongs to different clinic', 403, context.requestId)
     }
 
-    // 5. Patient assignment check based on role
+    // 3. Patient assignment check based on role
     if (user.role === 'doctor') {
       // Doctor must have relationship with patient
       await requireDoctorAccessToPatient(user, consultation.patient.id, context)
@@ -82,7 +67,7 @@ export async function GET(
       await requirePatientSelfAccess(user, consultation.patient.id, context)
     }
 
-    // 6. Audit log: Consultation access (PHI-safe - only logs metadata)
+    // 4. Audit log: Consultation access (PHI-safe - only logs metadata)
     logConsultationAccess(
       user.id,
       user.clinicId,
@@ -105,32 +90,21 @@ export async function GET(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 /**
  * PUT - Update consultation
  * 
  * Access rules:
  * - Doctors: Can update consultations for their patients
- * - Patients: Can update their own consultations (limited fields)
+ * - Patients (only if granted consultations:update): their own consultations
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.CONSULTATIONS_UPDATE, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session
-    const user = await requireSession(request)
-
-    // 2. Require role check
-    requireRole(user, ['doctor', 'patient'], context)
-
     const body = await request.json()
     const validatedData = validate(consultationUpdateSchema, body, context.requestId)
     
-    // Convert datetime strings to Date objects if needed
+    // 1. Convert datetime strings to Date objects if needed
     const updateData: any = { ...validatedData }
     if (validatedData.startedAt) {
       updateData.startedAt = typeof validatedData.startedAt === 'string' 
@@ -143,7 +117,7 @@ export async function PUT(
         : validatedData.endedAt
     }
 
-    // OPTIMIZED: Fetch consultation with minimal SELECT and clinicId validation
+    // 2. OPTIMIZED: Fetch consultation with minimal SELECT and clinicId validation
     const consultation = await prisma.consultation.findUnique({
       where: { id: params.id },
       select: {
@@ -164,19 +138,19 @@ export async function PUT(
       return apiError('Consultation not found', 404, context.requestId)
     }
 
-    // SECURITY: Enforce tenant isolation using clinicId from consultation directly
+    // 3. SECURITY: Enforce tenant isolation using clinicId from consultation directly
     if (consultation.clinicId !== user.clinicId) {
       return apiError('Forbidden: Consultation belongs to different clinic', 403, context.requestId)
     }
 
-    // 5. Patient assignment check
+    // 4. Patient assignment check
     if (user.role === 'doctor') {
       await requireDoctorAccessToPatient(user, consultation.patient.id, context)
     } else if (user.role === 'patient') {
       await requirePatientSelfAccess(user, consultation.patient.id, context)
     }
 
-    // 6. Update consultation
+    // 5. Update consultation
     const updated = await prisma.consultation.update({
       where: { id: params.id },
       data: updateData,
@@ -193,5 +167,5 @@ export async function PUT(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -0,0 +1,65 @@
+/**
+ * Clinic AI Settings API Route
+ *
+ * GET /api/doctor/ai-settings - the clinic's AI model and the models it can choose from
+ * PUT /api/doctor/ai-settings - change the clinic's AI model (clinic admins only,
+ *     as it applies to every doctor in the clinic)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { aiSettingsSchema } from '@/lib/validation/schemas'
+import { logAccess } from '@/lib/logging/audit'
+import { getClinicSettings, updateClinicSettings } from '@/lib/clinics/settings'
+import { AI_MODELS } from '@/lib/ai/models'
+
+// GET - Clinic AI settings
+export const GET = withPermission([PERMISSIONS.NOTES_CREATE, PERMISSIONS.ADMIN_SYSTEM_SETTINGS], async (request, { session, context, permissions }) => {
+  try {
+    const settings = await getClinicSettings(session.clinicId)
+
+    return apiSuccess(
+      {
+        settings: { aiModel: settings.aiModel },
+        models: AI_MODELS,
+        localProvider: process.env.AI_PROVIDER === 'local',
+        canEdit: permissions.includes(PERMISSIONS.ADMIN_SYSTEM_SETTINGS),
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Failed to fetch AI settings', statusCode, context.requestId)
+  }
+})
+
+// PUT - Change the clinic's AI model
+export const PUT = withPermission(PERMISSIONS.ADMIN_SYSTEM_SETTINGS, async (request, { session, context }) => {
+  try {
+    const body = await request.json()
+    const input = validate(aiSettingsSchema, body, context.requestId)
+
+    const settings = await updateClinicSettings(session.clinicId, { aiModel: input.aiModel })
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'UPDATE_CLINIC_AI_SETTINGS',
+      resourceType: 'clinic',
+      resourceId: session.clinicId,
+      ip: context.ip,
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: { model: settings.aiModel },
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ settings: { aiModel: settings.aiModel } }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    return apiError(error.message || 'Failed to update AI settings', statusCode, context.requestId)
+  }
+})
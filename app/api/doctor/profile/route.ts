@@ -1,15 +1,25 @@
 // TODO: Doctor profile API
 // TODO: Get and update doctor profile
-// TODO: Include user information
 
-import { NextRequest } from "next/server"
 import { apiError, apiSuccess } from "@/lib/auth/api-protection"
-import { requireSession, requireRole, getGuardContext } from "@/lib/auth/guards"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { withClinicScope } from "@/lib/auth/tenant-scope"
 import { prisma } from "@/db/prisma"
 import { createClient } from "@/lib/supabase/server"
 import { z } from "zod"
 import { getCachedDoctorProfile, setCachedDoctorProfile, invalidateDoctorProfile } from "@/lib/cache/doctor-profiles"
+import { userIdentitySelect, type UserIdentity } from "@/lib/users/identity"
+
+// Profile response shape for the user's identity (lib/users/identity.ts)
+function toProfileUser(user: UserIdentity) {
+  return {
+    firstName: user.firstName || "",
+    lastName: user.lastName || "",
+    email: user.email,
+    phoneNumber: user.phone || "",
+  }
+}
 
 const UpdateProfileSchema = z.object({
   user: z.object({
@@ -29,16 +39,9 @@ const UpdateProfileSchema = z.object({
 })
 
 // GET - Get doctor profile
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.APPOINTMENTS_MANAGE, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError("Doctor account pending approval", 403, context.requestId)
     }
@@ -53,31 +56,17 @@ export async function GET(request: NextRequest) {
           userId: session.id,
           clinicId: session.clinicId, // Tenant isolation
         },
+        include: { user: { select: userIdentitySelect } },
       })
 
       if (!doctor) {
         return apiError("Doctor profile not found", 404, context.requestId)
       }
 
-      // Get user information from Supabase
-      const supabase = await createClient()
-      const { data: userData, error: userError } = await supabase.auth.getUser()
-
-      if (userError || !userData.user) {
-        return apiError("User not found", 404)
-      }
-
-      // Get user metadata
-      const userMetadata = userData.user.user_metadata || {}
-
+      const { user, ...doctorProfile } = doctor
       cachedProfile = {
-        doctor,
-        user: {
-          firstName: userMetadata.firstName || "",
-          lastName: userMetadata.lastName || "",
-          email: userData.user.email || "",
-          phoneNumber: userMetadata.phoneNumber || "",
-        },
+        doctor: doctorProfile,
+        user: toProfileUser(user),
       }
 
       // Cache the profile (15 minutes TTL)
@@ -94,19 +83,12 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // PUT - Update doctor profile
-export async function PUT(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const PUT = withPermission(PERMISSIONS.APPOINTMENTS_MANAGE, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError("Doctor account pending approval", 403, context.requestId)
     }
@@ -153,7 +135,7 @@ export async function PUT(request: NextRequest) {
       })
     }
 
-    // Update user information in Supabase
+    // Update user information in Supabase auth (the users table follows it)
     if (validatedData.user) {
       const supabase = await createClient()
       const updates: any = {}
@@ -184,22 +166,14 @@ export async function PUT(request: NextRequest) {
     }
 
     // Fetch updated doctor profile
-    const updatedDoctor = await prisma.doctor.findUnique({
+    const { user, ...updatedDoctor } = await prisma.doctor.findUniqueOrThrow({
       where: { id: doctor.id },
+      include: { user: { select: userIdentitySelect } },
     })
 
-    const supabase = await createClient()
-    const { data: userData } = await supabase.auth.getUser()
-    const userMetadata = userData?.user?.user_metadata || {}
-
     const updatedProfile = {
       doctor: updatedDoctor,
-      user: {
-        firstName: userMetadata.firstName || "",
-        lastName: userMetadata.lastName || "",
-        email: userData?.user?.email || "",
-        phoneNumber: userMetadata.phoneNumber || "",
-      },
+      user: toProfileUser(user),
     }
 
     // Invalidate and refresh cache
@@ -220,5 +194,5 @@ export async function PUT(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -0,0 +1,83 @@
+/**
+ * Doctor Slots API Route
+ *
+ * GET /api/doctors/[id]/slots?from&to[&duration]
+ * Returns open appointment slots computed from the doctor's weekly
+ * availability, minus booked appointments and clinic buffers.
+ * Patients only see slots inside the clinic's self-scheduling window.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { slotQuerySchema } from '@/lib/validation/schemas'
+import { computeAvailableSlots, MAX_SLOT_RANGE_DAYS } from '@/lib/scheduling/slots'
+import { getBookingWindow, getSchedulingPolicy } from '@/lib/scheduling/self-scheduling'
+
+export const GET = withPermission<{ id: string }>(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session: user, context, params }) => {
+  try {
+    // 1. Validate query parameters
+    const { searchParams } = new URL(request.url)
+    const query = validate(
+      slotQuerySchema,
+      {
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        duration: searchParams.get('duration') || undefined,
+      },
+      context.requestId
+    )
+
+    const from = new Date(query.from)
+    const to = new Date(query.to)
+
+    if (to <= from) {
+      return apiError('"to" must be after "from"', 400, context.requestId)
+    }
+
+    if (to.getTime() - from.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return apiError(`Range cannot exceed ${MAX_SLOT_RANGE_DAYS} days`, 400, context.requestId)
+    }
+
+    // 2. Patients are limited to the clinic's booking window
+    const policy = user.role === 'patient' ? await getSchedulingPolicy(user.clinicId) : null
+    if (policy && !policy.selfSchedulingEnabled) {
+      return apiError('Online booking is not available for this clinic', 403, context.requestId)
+    }
+    const bookingWindow = policy ? getBookingWindow(policy) : null
+
+    // 3. Compute slots (doctor lookup is scoped to the user's clinic)
+    const result = await computeAvailableSlots({
+      doctorId: params.id,
+      clinicId: user.clinicId,
+      from,
+      to,
+      duration: query.duration,
+    })
+    const slots = bookingWindow
+      ? result.slots.filter(
+          (slot) => slot.start >= bookingWindow.earliest && slot.start <= bookingWindow.latest
+        )
+      : result.slots
+
+    return apiSuccess(
+      {
+        doctorId: params.id,
+        timezone: result.timezone,
+        duration: result.duration,
+        slots: slots.map((slot) => ({
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+        })),
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
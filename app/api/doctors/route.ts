@@ -0,0 +1,45 @@
+/**
+ * Doctors Directory API Route
+ *
+ * GET /api/doctors[?specialization]
+ * Lists bookable doctors (those with weekly availability) in the
+ * user's clinic, with the profile fields patients need to choose one.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { withClinicScope } from '@/lib/auth/tenant-scope'
+import { prisma } from '@/db/prisma'
+
+export const GET = withPermission(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session: user, context }) => {
+  try {
+    const specialization = request.nextUrl.searchParams.get('specialization')
+
+    // 1. Only doctors with availability can be booked
+    const doctors = await prisma.doctor.findMany({
+      where: withClinicScope(user.clinicId, {
+        availability: { some: {} },
+        ...(specialization && {
+          specialization: { equals: specialization, mode: 'insensitive' as const },
+        }),
+      }),
+      select: {
+        id: true,
+        specialization: true,
+        credentials: true,
+        languages: true,
+        bio: true,
+        timezone: true,
+      },
+      orderBy: [{ specialization: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return apiSuccess({ doctors }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -4,10 +4,10 @@
  * Provides secure file download with audit logging
  */
 
-import { NextRequest } from 'next/server'
 import { Storage } from '@google-cloud/storage'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { logFileDownload } from '@/lib/logging/audit'
@@ -18,18 +18,9 @@ import { prisma } from '@/db/prisma'
  * 
  * Generates a signed URL for file download and logs the access
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const GET = withPermission<{ id: string }>(PERMISSIONS.FILES_VIEW, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session
-    const user = await requireSession(request)
-    requireRole(user, ['doctor', 'patient'], context)
-
-    // 2. Fetch file record
+    // 1. Fetch file record
     const fileRecord = await prisma.fileRecord.findUnique({
       where: { id: params.id },
       include: {
@@ -46,13 +37,13 @@ export async function GET(
       return apiError('File not found', 404, context.requestId)
     }
 
-    // 3. Enforce: FileRecord clinicId must match user's clinicId
+    // 2. Enforce: FileRecord clinicId must match user's clinicId
     enforceTenant(fileRecord.clinicId, user.clinicId, context)
 
-    // 4. Enforce: requireOwnershipOrDoctor - user must be the patient themselves or a doctor with access
+    // 3. Enforce: requireOwnershipOrDoctor - user must be the patient themselves or a doctor with access
     await ensureOwnershipOrDoctor(user, fileRecord.patient.id, context)
 
-    // 5. Initialize Storage client
+    // 4. Initialize Storage client
     const serviceAccountJson = process.env.GCP_SERVICE_ACCOUNT
       ? Buffer.from(process.env.GCP_SERVICE_ACCOUNT, 'base64').toString('utf-8')
       : null
@@ -69,20 +60,20 @@ export async function GET(
     const bucket = storage.bucket(process.env.GCP_STORAGE_BUCKET || 'distancedoc-uploads')
     const file = bucket.file(fileRecord.storagePath)
 
-    // 6. Check if file exists
+    // 5. Check if file exists
     const [exists] = await file.exists()
     if (!exists) {
       return apiError('File not found in storage', 404, context.requestId)
     }
 
-    // 7. Generate signed download URL (valid for 1 hour)
+    // 6. Generate signed download URL (valid for 1 hour)
     const [downloadUrl] = await file.getSignedUrl({
       version: 'v4',
       action: 'read',
       expires: Date.now() + 60 * 60 * 1000, // 1 hour
     })
 
-    // 8. Audit log: File download (PHI-safe - only logs metadata)
+    // 7. Audit log: File download (PHI-safe - only logs metadata)
     logFileDownload(
       user.id,
       user.clinicId,
@@ -120,5 +111,5 @@ export async function GET(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
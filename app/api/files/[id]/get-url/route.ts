@@ -7,10 +7,10 @@
  * - Complete audit trail
  */
 
-import { NextRequest } from 'next/server'
 import { Storage } from '@google-cloud/storage'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { logAccess } from '@/lib/logging/audit'
@@ -23,18 +23,9 @@ import { prisma } from '@/db/prisma'
  * - FileRecord must match user's clinic
  * - User must have rights to view the file (ownership or doctor access)
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-
+export const GET = withPermission<{ id: string }>(PERMISSIONS.FILES_VIEW, async (request, { session: user, context, params }) => {
   try {
-    // 1. Require valid session
-    const user = await requireSession(request)
-    requireRole(user, ['doctor', 'patient'], context)
-
-    // 2. Fetch file record with patient relationship
+    // 1. Fetch file record with patient relationship
     const fileRecord = await prisma.fileRecord.findUnique({
       where: { id: params.id },
       include: {
@@ -51,14 +42,14 @@ export async function GET(
       return apiError('File not found', 404, context.requestId)
     }
 
-    // 3. Enforce: FileRecord clinicId must match user's clinicId
+    // 2. Enforce: FileRecord clinicId must match user's clinicId
     enforceTenant(fileRecord.clinicId, user.clinicId, context)
 
-    // 4. Enforce: User must have rights to view the file
+    // 3. Enforce: User must have rights to view the file
     // This checks if user is the patient themselves or a doctor with access
     await ensureOwnershipOrDoctor(user, fileRecord.patient.id, context)
 
-    // 5. Initialize Storage client
+    // 4. Initialize Storage client
     const serviceAccountJson = process.env.GCP_SERVICE_ACCOUNT
       ? Buffer.from(process.env.GCP_SERVICE_ACCOUNT, 'base64').toString('utf-8')
       : null
@@ -75,20 +66,20 @@ export async function GET(
     const bucket = storage.bucket(process.env.GCP_STORAGE_BUCKET || 'distancedoc-uploads')
     const file = bucket.file(fileRecord.storagePath)
 
-    // 6. Check if file exists in storage
+    // 5. Check if file exists in storage
     const [exists] = await file.exists()
     if (!exists) {
       return apiError('File not found in storage', 404, context.requestId)
     }
 
-    // 7. Generate signed URL for viewing (valid for 1 hour)
+    // 6. Generate signed URL for viewing (valid for 1 hour)
     const [viewUrl] = await file.getSignedUrl({
       version: 'v4',
       action: 'read',
       expires: Date.now() + 60 * 60 * 1000, // 1 hour
     })
 
-    // 8. Audit log: File view access (PHI-safe - only logs metadata)
+    // 7. Audit log: File view access (PHI-safe - only logs metadata)
     logAccess({
       userId: user.id,
       clinicId: user.clinicId,
@@ -129,5 +120,5 @@ export async function GET(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -3,10 +3,10 @@
 // TODO: Upload files
 // TODO: Download files
 
-import { NextRequest } from 'next/server'
 import { Storage } from '@google-cloud/storage'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { validate } from '@/lib/validation'
@@ -16,22 +16,14 @@ import { prisma } from '@/db/prisma'
 import { fileRecordSelect } from '@/lib/db/selects'
 
 // GET - Get patient files
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.FILES_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Allow patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
-
-    // Get patientId from query params if doctor, otherwise from session
+    // Get patientId from query params for clinicians, otherwise from session
     const patientIdParam = request.nextUrl.searchParams.get('patientId')
     let patientId: string
 
-    if (session.role === 'doctor' && patientIdParam) {
-      // Doctor accessing specific patient's files
+    if ((session.role === 'doctor' || session.role === 'nurse' || session.role === 'staff') && patientIdParam) {
+      // Doctor (care relationship) or clinic staff accessing specific patient's files
       await ensureOwnershipOrDoctor(session, patientIdParam, context)
       patientId = patientIdParam
     } else if (session.role === 'patient') {
@@ -101,19 +93,11 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // POST - Upload file
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.FILES_UPLOAD, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Allow patient or doctor role (doctors may upload files for patients)
-    requireRole(session, ['patient', 'doctor'], context)
-
     // Get form data and validate
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -231,5 +215,5 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
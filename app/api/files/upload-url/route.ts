@@ -7,9 +7,9 @@
  * - Complete audit trail
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor, requireDoctorAccessToPatient } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { validate } from '@/lib/validation'
@@ -28,15 +28,9 @@ import { z } from 'zod'
  * - Clinic ID must match
  * - Patient ID must be validated
  */
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.FILES_UPLOAD, async (request, { session, context }) => {
   try {
-    // 1. Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
-
-    // 2. Validate request body
+    // 1. Validate request body
     const body = await request.json()
     const validatedData = validate(fileUploadSchema, body, context.requestId)
     
@@ -46,7 +40,7 @@ export async function POST(request: NextRequest) {
       ? sanitizeString(validatedData.description, 1000)
       : undefined
 
-    // 3. Determine and validate patient ID based on role
+    // 2. Determine and validate patient ID based on role
     let targetPatientId: string
     let targetClinicId: string
 
@@ -120,7 +114,7 @@ export async function POST(request: NextRequest) {
       return apiError('Invalid role for file upload', 403, context.requestId)
     }
 
-    // 4. Verify consultation/appointment access if provided (optional additional validation)
+    // 3. Verify consultation/appointment access if provided (optional additional validation)
     if (validatedData.consultationId) {
       const consultation = await prisma.consultation.findUnique({
         where: { id: validatedData.consultationId },
@@ -165,14 +159,14 @@ export async function POST(request: NextRequest) {
       enforceTenant(appointment.clinicId, targetClinicId, context)
     }
 
-    // 5. Generate unique file path
+    // 4. Generate unique file path
     const timestamp = Date.now()
     const filePath = `patients/${targetPatientId}/${timestamp}-${sanitizedFileName}`
 
-    // 6. Generate signed upload URL (valid for 1 hour)
+    // 5. Generate signed upload URL (valid for 1 hour)
     const uploadUrl = await generateSignedUploadUrl(filePath, validatedData.fileType, 60)
 
-    // 7. Create file record with all required fields
+    // 6. Create file record with all required fields
     // Note: createdByUserId is required and tracks who created the file
     const fileRecord = await prisma.fileRecord.create({
       data: {
@@ -190,7 +184,7 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // 8. Audit log
+    // 7. Audit log
     logAudit(
       'FILE_UPLOAD_URL_GENERATED',
       'file',
@@ -226,7 +220,7 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 /**
  * PUT - Confirm upload completion and update file record
@@ -235,19 +229,13 @@ export async function POST(request: NextRequest) {
  * - User must be the one who created the file (createdByUserId)
  * - FileRecord clinicId must match user's clinicId
  */
-export async function PUT(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const PUT = withPermission(PERMISSIONS.FILES_UPLOAD, async (request, { session, context }) => {
   try {
-    // 1. Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
-
-    // 2. Validate request body
+    // 1. Validate request body
     const body = await request.json()
     const { fileId } = z.object({ fileId: z.string().min(1, 'File ID is required') }).parse(body)
 
-    // 3. Fetch file record
+    // 2. Fetch file record
     const fileRecord = await prisma.fileRecord.findUnique({
       where: { id: fileId },
       select: {
@@ -263,10 +251,10 @@ export async function PUT(request: NextRequest) {
       return apiError('File record not found', 404, context.requestId)
     }
 
-    // 4. Enforce: FileRecord clinicId must match user's clinicId
+    // 3. Enforce: FileRecord clinicId must match user's clinicId
     enforceTenant(fileRecord.clinicId, session.clinicId, context)
 
-    // 5. Enforce: User must be the one who created the file
+    // 4. Enforce: User must be the one who created the file
     if (fileRecord.createdByUserId !== session.id) {
       logAudit(
         'FILE_UPLOAD_CONFIRMATION_DENIED',
@@ -284,7 +272,7 @@ export async function PUT(request: NextRequest) {
       return apiError('You can only confirm uploads for files you created', 403, context.requestId)
     }
 
-    // 6. Initialize Storage client and verify file exists
+    // 5. Initialize Storage client and verify file exists
     const storage = getStorageClient()
     const bucket = getBucket()
     const file = bucket.file(fileRecord.storagePath)
@@ -295,14 +283,14 @@ export async function PUT(request: NextRequest) {
       return apiError('File not found in storage', 404, context.requestId)
     }
 
-    // 7. Generate signed URL for download access
+    // 6. Generate signed URL for download access
     const [downloadUrl] = await file.getSignedUrl({
       version: 'v4',
       action: 'read',
       expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
     })
 
-    // 8. Update file record with storage URL
+    // 7. Update file record with storage URL
     const updated = await prisma.fileRecord.update({
       where: { id: fileId },
       data: {
@@ -319,7 +307,7 @@ export async function PUT(request: NextRequest) {
       },
     })
 
-    // 9. Audit log
+    // 8. Audit log
     logAudit(
       'FILE_UPLOAD_CONFIRMED',
       'file',
@@ -343,4 +331,4 @@ export async function PUT(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
@@ -2,9 +2,9 @@
 // TODO: Get, update, delete specific form
 // TODO: Validate form ownership
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { prisma } from '@/db/prisma'
@@ -22,18 +22,9 @@ const UpdateFormSchema = z.object({
 })
 
 // GET - Get single form
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission<{ id: string }>(PERMISSIONS.FORMS_VIEW, async (request, { session, context, params }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
     // Allow patient or doctor to view forms
-    requireRole(session, ['patient', 'doctor'], context)
 
     // Try to get from cache first
     let form = await getCachedIntakeTemplate(params.id)
@@ -80,22 +71,11 @@ export async function GET(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // PUT - Update form
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-  
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.FORMS_UPDATE, async (request, { session, context, params }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, ['doctor'], context)
-    
     if (!session.metadata.approved) {
       return apiError('Doctor account pending approval', 403, context.requestId)
     }
@@ -165,22 +145,11 @@ export async function PUT(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // DELETE - Delete form
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-  
+export const DELETE = withPermission<{ id: string }>(PERMISSIONS.FORMS_DELETE, async (request, { session, context, params }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, ['doctor'], context)
-    
     if (!session.metadata.approved) {
       return apiError('Doctor account pending approval', 403, context.requestId)
     }
@@ -227,5 +196,5 @@ export async function DELETE(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
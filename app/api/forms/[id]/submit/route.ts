@@ -2,9 +2,9 @@
 // TODO: Save responses to Consultation.intakeData
 // TODO: Validate responses against form structure
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { validate } from '@/lib/validation'
@@ -13,19 +13,8 @@ import { prisma } from '@/db/prisma'
 import type { FormResponse, ConsultationIntakeData } from '@/lib/forms/types'
 
 // POST - Submit form responses
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission<{ id: string }>(PERMISSIONS.FORMS_SUBMIT, async (request, { session, context, params }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
-
     const body = await request.json()
     const validatedData = validate(intakeResponseSchema, body, context.requestId)
 
@@ -125,5 +114,5 @@ export async function POST(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
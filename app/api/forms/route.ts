@@ -3,10 +3,10 @@
 // TODO: List forms by doctor
 // TODO: Validate form structure
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
-import { requireDoctorAccessToPatient, ensurePatientBelongsToDoctorClinic } from '@/lib/auth/patient-access'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { requireDoctorAccessToPatient, ensurePatientBelongsToDoctorClinic, ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { prisma } from '@/db/prisma'
 import { intakeFormResponseSelect } from '@/lib/db/selects'
@@ -42,17 +42,26 @@ const CreateFormSchema = z.object({
   ),
 })
 
-// GET - List forms for authenticated doctor
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+// GET - List forms for authenticated doctor, or a patient's forms for clinic staff
+export const GET = withPermission(PERMISSIONS.FORMS_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Nurses and staff see the forms of their clinic's patients
+    if (session.role === 'nurse' || session.role === 'staff') {
+      const patientId = request.nextUrl.searchParams.get('patientId')
+      if (!patientId) {
+        return apiError('patientId is required', 400, context.requestId)
+      }
+      await ensureOwnershipOrDoctor(session, patientId, context)
+
+      const forms = await prisma.intakeForm.findMany({
+        where: withClinicScope(session.clinicId, { patientId }),
+        select: intakeFormResponseSelect,
+        orderBy: { createdAt: 'desc' },
+      })
+      return apiSuccess(forms, 200, context.requestId)
+    }
+
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError('Doctor account pending approval', 403, context.requestId)
     }
@@ -125,19 +134,12 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // POST - Create new intake form
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.FORMS_CREATE, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require doctor role and approval
-    requireRole(session, 'doctor', context)
-    
+    // Require an approved doctor
     if (!session.metadata.approved) {
       return apiError('Doctor account pending approval', 403, context.requestId)
     }
@@ -219,5 +221,5 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
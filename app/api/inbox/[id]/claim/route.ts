@@ -0,0 +1,31 @@
+/**
+ * Claim Inbox Thread API Route
+ *
+ * POST /api/inbox/[id]/claim - assign an unassigned thread to yourself
+ *      (409 if someone else has it)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { claimThread, requireInboxParticipant } from '@/lib/messaging/inbox'
+import { requireThreadAccess } from '@/lib/messaging/threads'
+
+// POST - Claim a thread
+export const POST = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_SEND, async (request, { session, context, params }) => {
+  try {
+    // 1. Membership check
+    const participant = await requireInboxParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    await claimThread(thread, participant)
+
+    const claimed = await requireThreadAccess(thread.id, participant)
+    return apiSuccess({ thread: claimed }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,43 @@
+/**
+ * Care-Team Inbox Thread API Route
+ *
+ * PATCH /api/inbox/[id] - triage a thread: category, status, pool routing
+ *       and assignment (assigneeId: null unassigns)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateInboxThreadSchema } from '@/lib/validation/schemas'
+import { assignThread, requireInboxParticipant, updateTriage } from '@/lib/messaging/inbox'
+import { requireThreadAccess } from '@/lib/messaging/threads'
+
+// PATCH - Triage a thread
+export const PATCH = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_SEND, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate request body
+    const body = await request.json()
+    const { assigneeId, ...triage } = validate(updateInboxThreadSchema, body, context.requestId)
+
+    // 2. Membership check
+    const participant = await requireInboxParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    if (assigneeId !== undefined) {
+      await assignThread(thread, assigneeId)
+    }
+    if (Object.values(triage).some((value) => value !== undefined)) {
+      await updateTriage(thread, triage)
+    }
+
+    // Unassigning can take the thread out of the caller's view
+    const updated = await requireThreadAccess(thread.id, participant).catch(() => null)
+    return apiSuccess({ thread: updated }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,55 @@
+/**
+ * Care-Team Member API Route
+ *
+ * PATCH /api/inbox/members/[id] - (admin) activate or deactivate a member
+ *       and rename them; deactivating unassigns their open threads back
+ *       to the pool
+ */
+
+import { InboxStatus } from '@prisma/client'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateCareTeamMemberSchema } from '@/lib/validation/schemas'
+import { prisma } from '@/db/prisma'
+import { careTeamMemberSelect } from '@/lib/messaging/care-team'
+
+// PATCH - Update a care-team member
+export const PATCH = withPermission<{ id: string }>(PERMISSIONS.ADMIN_MANAGE_USERS, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate request body
+    const body = await request.json()
+    const validatedData = validate(updateCareTeamMemberSchema, body, context.requestId)
+
+    const existing = await prisma.careTeamMember.findUnique({
+      where: { id: params.id, clinicId: session.clinicId },
+      select: { id: true },
+    })
+    if (!existing) {
+      return apiError('Care-team member not found', 404, context.requestId)
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      if (validatedData.active === false) {
+        await tx.messageThread.updateMany({
+          where: { assigneeId: params.id, inboxStatus: { not: InboxStatus.RESOLVED } },
+          data: { assigneeId: null, assignedAt: null, routedToPool: true },
+        })
+      }
+
+      return tx.careTeamMember.update({
+        where: { id: params.id },
+        data: validatedData,
+        select: careTeamMemberSelect,
+      })
+    })
+
+    return apiSuccess({ member }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,39 @@
+/**
+ * Care-Team Members API Route
+ *
+ * GET /api/inbox/members[?includeInactive] - the clinic's care-team roster
+ *     (assignment targets); admins can include deactivated members
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { prisma } from '@/db/prisma'
+import { careTeamMemberSelect, listCareTeamMembers } from '@/lib/messaging/care-team'
+import { requireInboxParticipant } from '@/lib/messaging/inbox'
+
+// GET - List care-team members
+export const GET = withPermission(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context }) => {
+  try {
+    // Registers the caller, so the roster always includes them
+    const participant = await requireInboxParticipant(session)
+
+    const includeInactive =
+      participant.role === 'admin' && request.nextUrl.searchParams.get('includeInactive') === 'true'
+
+    const members = includeInactive
+      ? await prisma.careTeamMember.findMany({
+          where: { clinicId: session.clinicId },
+          select: careTeamMemberSelect,
+          orderBy: { displayName: 'asc' },
+        })
+      : await listCareTeamMembers(session.clinicId)
+
+    return apiSuccess({ members }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
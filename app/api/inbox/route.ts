@@ -0,0 +1,49 @@
+/**
+ * Care-Team Inbox API Route
+ *
+ * GET /api/inbox[?view&category&status&limit] - inbox threads, most urgent
+ *     first (view: mine | pool | all | escalated; default mine)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { listInboxQuerySchema } from '@/lib/validation/schemas'
+import { listInbox, requireInboxParticipant } from '@/lib/messaging/inbox'
+
+// GET - List inbox threads
+export const GET = withPermission(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context }) => {
+  try {
+    // 1. Validate query parameters
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listInboxQuerySchema,
+      {
+        view: searchParams.get('view') || undefined,
+        category: searchParams.get('category') || undefined,
+        status: searchParams.get('status') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    const participant = await requireInboxParticipant(session)
+    const threads = await listInbox(participant, query)
+
+    return apiSuccess(
+      {
+        threads,
+        memberId: participant.profileId,
+        unreadCount: threads.reduce((sum, thread) => sum + thread.unreadCount, 0),
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
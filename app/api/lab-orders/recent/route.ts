@@ -0,0 +1,59 @@
+/**
+ * Recent Lab Orders API Route
+ *
+ * GET /api/lab-orders/recent?limit= - the doctor's most recent lab orders
+ *     (dashboard widget)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { listLabOrdersQuerySchema } from '@/lib/validation/schemas'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { listLabOrders } from '@/lib/labs/orders'
+
+// GET - Recent lab orders
+export const GET = withPermission(PERMISSIONS.LABS_VIEW, async (request, { session, context }) => {
+  try {
+    // 1. Validate query
+    const query = validate(
+      listLabOrdersQuerySchema,
+      { limit: request.nextUrl.searchParams.get('limit') || undefined },
+      context.requestId
+    )
+
+    const labOrders = await listLabOrders(session, { limit: query.limit ?? 5 }, context)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      'recent',
+      'LIST_LAB_ORDERS',
+      true,
+      { count: labOrders.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrders }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      'recent',
+      'LIST_LAB_ORDERS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,57 @@
+/**
+ * Lab Release API Route
+ *
+ * POST /api/labs/[id]/release - make reviewed results visible to the
+ *      patient (notifies them)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { getLabOrderState, releaseLabResults } from '@/lib/labs/orders'
+
+// POST - Release lab results to the patient
+export const POST = withPermission<{ id: string }>(PERMISSIONS.LABS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Access checks, then release
+    const order = await getLabOrderState(session, params.id, context)
+    const labOrder = await releaseLabResults(session, order)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'RELEASE_LAB_RESULTS',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'RELEASE_LAB_RESULTS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
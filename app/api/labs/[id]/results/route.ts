@@ -0,0 +1,65 @@
+/**
+ * Lab Results API Route
+ *
+ * POST /api/labs/[id]/results - record structured results (value, unit,
+ *      reference and critical ranges; flags are derived when the lab did
+ *      not send one). Replaces any earlier report and moves the order to
+ *      RESULTS_READY for review.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { ingestLabResultsSchema } from '@/lib/validation/schemas'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { getLabOrderState, ingestLabResults } from '@/lib/labs/orders'
+
+// POST - Ingest lab results
+export const POST = withPermission<{ id: string }>(PERMISSIONS.LABS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(ingestLabResultsSchema, body, context.requestId)
+
+    // 3. Access checks, then store
+    const order = await getLabOrderState(session, params.id, context)
+    const labOrder = await ingestLabResults(session, order, input)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'INGEST_LAB_RESULTS',
+      true,
+      { count: labOrder.summary.resultCount },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'INGEST_LAB_RESULTS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
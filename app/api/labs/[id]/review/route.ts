@@ -0,0 +1,63 @@
+/**
+ * Lab Review API Route
+ *
+ * POST /api/labs/[id]/review - acknowledge results (RESULTS_READY ->
+ *      COMPLETED); `release: true` also makes them visible to the patient
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { reviewLabOrderSchema } from '@/lib/validation/schemas'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { getLabOrderState, reviewLabOrder } from '@/lib/labs/orders'
+
+// POST - Review lab results
+export const POST = withPermission<{ id: string }>(PERMISSIONS.LABS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json().catch(() => ({}))
+    const input = validate(reviewLabOrderSchema, body, context.requestId)
+
+    // 3. Access checks, then acknowledge
+    const order = await getLabOrderState(session, params.id, context)
+    const labOrder = await reviewLabOrder(session, order, input)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'REVIEW_LAB_RESULTS',
+      true,
+      { category: input.release ? 'released' : 'reviewed' },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'REVIEW_LAB_RESULTS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
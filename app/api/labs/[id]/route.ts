@@ -0,0 +1,51 @@
+/**
+ * Lab Order API Route
+ *
+ * GET /api/labs/[id] - order with its structured results (patients only
+ *     see results once released; the first view is timestamped)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { getLabOrder } from '@/lib/labs/orders'
+
+// GET - Get a lab order
+export const GET = withPermission<{ id: string }>(PERMISSIONS.LABS_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Clinic and patient access checks
+    const labOrder = await getLabOrder(session, params.id, context)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'VIEW_LAB_ORDER',
+      true,
+      { count: labOrder.summary.resultCount },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'VIEW_LAB_ORDER',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,63 @@
+/**
+ * Lab Order Status API Route
+ *
+ * POST /api/labs/[id]/status - PENDING -> ORDERED -> IN_PROGRESS, or
+ *      CANCELLED (reason required) before results arrive
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateLabOrderStatusSchema } from '@/lib/validation/schemas'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { getLabOrderState, updateLabOrderStatus } from '@/lib/labs/orders'
+
+// POST - Change a lab order's status
+export const POST = withPermission<{ id: string }>(PERMISSIONS.LABS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(updateLabOrderStatusSchema, body, context.requestId)
+
+    // 3. Access checks, then the transition rules
+    const order = await getLabOrderState(session, params.id, context)
+    const labOrder = await updateLabOrderStatus(session, order, input)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'UPDATE_LAB_ORDER_STATUS',
+      true,
+      { category: input.status },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'UPDATE_LAB_ORDER_STATUS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,127 @@
+/**
+ * Lab Orders API Route
+ *
+ * GET  /api/labs?patientId=&status=&unread=&limit= - lab orders (patients get
+ *      their own; doctors get a patient's, or their own orders; nurses
+ *      and staff get a patient's, or the clinic's orders).
+ *      unread=true: doctor, nurse, staff - results awaiting review;
+ *      patient - released results not yet viewed
+ * POST /api/labs - create a lab order (approved doctor with access to the patient)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { createLabOrderSchema, listLabOrdersQuerySchema } from '@/lib/validation/schemas'
+import { logLabOrderAction } from '@/lib/logging/audit'
+import { createLabOrder, listLabOrders } from '@/lib/labs/orders'
+
+// GET - List lab orders
+export const GET = withPermission(PERMISSIONS.LABS_VIEW, async (request, { session, context }) => {
+  try {
+    // 1. Validate query
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listLabOrdersQuerySchema,
+      {
+        patientId: searchParams.get('patientId') || undefined,
+        status: searchParams.get('status') || undefined,
+        unread: searchParams.get('unread') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Scoped to the caller by the service
+    const labOrders = await listLabOrders(
+      session,
+      {
+        patientId: session.role === 'patient' ? undefined : query.patientId,
+        status: query.status,
+        unread: query.unread === 'true',
+        limit: query.limit,
+      },
+      context
+    )
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      'list',
+      'LIST_LAB_ORDERS',
+      true,
+      { count: labOrders.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrders }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      'list',
+      'LIST_LAB_ORDERS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Create a lab order
+export const POST = withPermission(PERMISSIONS.LABS_CREATE, async (request, { session, context }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(createLabOrderSchema, body, context.requestId)
+
+    // 3. Create (the service checks clinic and patient access)
+    const labOrder = await createLabOrder(session, input, context)
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      labOrder.id,
+      'CREATE_LAB_ORDER',
+      true,
+      { count: input.tests.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ labOrder }, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logLabOrderAction(
+      session.id,
+      session.clinicId,
+      'new',
+      'CREATE_LAB_ORDER',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,61 @@
+/**
+ * Medication Refill Request API Route
+ *
+ * POST /api/medications/[id]/refill-requests - patient requests a refill of
+ *      an active medication (409 if one is already pending)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { createRefillRequestSchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { getMedication } from '@/lib/medications/medications'
+import { createRefillRequest } from '@/lib/medications/refills'
+
+// POST - Request a refill
+export const POST = withPermission<{ id: string }>(PERMISSIONS.PRESCRIPTIONS_REQUEST_REFILL, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate input
+    const body = await request.json().catch(() => ({}))
+    const input = validate(createRefillRequestSchema, body, context.requestId)
+
+    // 2. Own medication only (getMedication enforces self-access)
+    const medication = await getMedication(session, params.id, context)
+    const refillRequest = await createRefillRequest(session, medication, input)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication_refill_request',
+      refillRequest.id,
+      'CREATE_REFILL_REQUEST',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ refillRequest }, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      params.id,
+      'CREATE_REFILL_REQUEST',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
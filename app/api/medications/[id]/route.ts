@@ -0,0 +1,155 @@
+/**
+ * Medication API Route
+ *
+ * GET    /api/medications/[id] - one medication (doctor with access, or the patient)
+ * PATCH  /api/medications/[id] - edit details and/or change status
+ *        (ACTIVE <-> ON_HOLD, either -> DISCONTINUED | COMPLETED)
+ * DELETE /api/medications/[id] - remove an entry made in error (prescriber only)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateMedicationSchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { deleteMedication, getMedication, updateMedication } from '@/lib/medications/medications'
+
+// GET - Get a medication
+export const GET = withPermission<{ id: string }>(PERMISSIONS.PRESCRIPTIONS_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Clinic and patient access checks
+    const medication = await getMedication(session, params.id, context)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      medication.id,
+      'VIEW_MEDICATION',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ medication }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      params.id,
+      'VIEW_MEDICATION',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// PATCH - Update a medication
+export const PATCH = withPermission<{ id: string }>(PERMISSIONS.PRESCRIPTIONS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(updateMedicationSchema, body, context.requestId)
+
+    // 3. Access checks, then the status transition rules
+    const existing = await getMedication(session, params.id, context)
+    const medication = await updateMedication(session, existing, input)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      medication.id,
+      'UPDATE_MEDICATION',
+      true,
+      { category: medication.status },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ medication }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      params.id,
+      'UPDATE_MEDICATION',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// DELETE - Delete a medication entered in error
+export const DELETE = withPermission<{ id: string }>(PERMISSIONS.PRESCRIPTIONS_DELETE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Access checks; only the prescriber may delete
+    const medication = await getMedication(session, params.id, context)
+    await deleteMedication(session, medication)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      medication.id,
+      'DELETE_MEDICATION',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ success: true }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      params.id,
+      'DELETE_MEDICATION',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
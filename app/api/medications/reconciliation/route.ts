@@ -0,0 +1,68 @@
+/**
+ * Medication Reconciliation API Route
+ *
+ * GET /api/medications/reconciliation?patientId= - patient-reported
+ *     medications merged with the prescribed list (see
+ *     lib/medications/reconciliation.ts for the entry statuses)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { ensureOwnershipOrDoctor } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { medicationReconciliationQuerySchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { reconcileMedications } from '@/lib/medications/reconciliation'
+
+// GET - Reconcile a patient's medications
+export const GET = withPermission(PERMISSIONS.PRESCRIPTIONS_UPDATE, async (request, { session, context }) => {
+  let patientId = 'unknown'
+
+  try {
+    // 1. Validate query
+    const query = validate(
+      medicationReconciliationQuerySchema,
+      { patientId: request.nextUrl.searchParams.get('patientId') || undefined },
+      context.requestId
+    )
+    patientId = query.patientId
+
+    // 2. Patient access check, then merge
+    await ensureOwnershipOrDoctor(session, patientId, context)
+    const reconciliation = await reconcileMedications(patientId, session.clinicId)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'patient',
+      patientId,
+      'RECONCILE_MEDICATIONS',
+      true,
+      { count: reconciliation.entries.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ reconciliation }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'patient',
+      patientId,
+      'RECONCILE_MEDICATIONS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
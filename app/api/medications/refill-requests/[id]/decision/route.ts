@@ -0,0 +1,64 @@
+/**
+ * Refill Decision API Route
+ *
+ * POST /api/medications/refill-requests/[id]/decision - approve (adds
+ *      refills to the medication) or deny (reason required) a pending request
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { refillDecisionSchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { decideRefillRequest } from '@/lib/medications/refills'
+
+// POST - Decide a refill request
+export const POST = withPermission<{ id: string }>(PERMISSIONS.PRESCRIPTIONS_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(refillDecisionSchema, body, context.requestId)
+
+    // 3. Decide (the service checks clinic and patient access)
+    const refillRequest = await decideRefillRequest(session, params.id, input, context)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication_refill_request',
+      refillRequest.id,
+      'DECIDE_REFILL_REQUEST',
+      true,
+      { category: refillRequest.status },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ refillRequest }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication_refill_request',
+      params.id,
+      'DECIDE_REFILL_REQUEST',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
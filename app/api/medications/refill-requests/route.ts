@@ -0,0 +1,67 @@
+/**
+ * Refill Requests API Route
+ *
+ * GET /api/medications/refill-requests?status=&limit= - a patient's own
+ *     requests, the requests for medications the doctor prescribed, or
+ *     (nurses and staff) the clinic's requests
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { listRefillRequestsQuerySchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { listRefillRequests } from '@/lib/medications/refills'
+
+// GET - List refill requests
+export const GET = withPermission(PERMISSIONS.PRESCRIPTIONS_VIEW, async (request, { session, context }) => {
+  try {
+    // 1. Validate query
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listRefillRequestsQuerySchema,
+      {
+        status: searchParams.get('status') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Scoped to the caller by the service
+    const refillRequests = await listRefillRequests(session, query)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication_refill_request',
+      'list',
+      'LIST_REFILL_REQUESTS',
+      true,
+      { count: refillRequests.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ refillRequests }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication_refill_request',
+      'list',
+      'LIST_REFILL_REQUESTS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,135 @@
+/**
+ * Medications API Route
+ *
+ * GET  /api/medications?patientId=&status= - a patient's medication list
+ *      (doctors, nurses and staff pass patientId; patients always get
+ *      their own)
+ * POST /api/medications - prescribe a medication (approved doctor with
+ *      access to the patient)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { ensureOwnershipOrDoctor } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { createMedicationSchema, listMedicationsQuerySchema } from '@/lib/validation/schemas'
+import { logMedicationAction } from '@/lib/logging/audit'
+import { createMedication, getOwnPatientId, listMedications, medicationError } from '@/lib/medications/medications'
+
+// GET - List a patient's medications
+export const GET = withPermission(PERMISSIONS.PRESCRIPTIONS_VIEW, async (request, { session, context }) => {
+  let patientId = 'unknown'
+
+  try {
+    // 1. Validate query
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listMedicationsQuerySchema,
+      {
+        patientId: searchParams.get('patientId') || undefined,
+        status: searchParams.get('status') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Resolve the patient and check access
+    if (session.role === 'patient') {
+      patientId = await getOwnPatientId(session)
+    } else {
+      if (!query.patientId) {
+        throw medicationError('patientId is required', 400)
+      }
+      patientId = query.patientId
+      await ensureOwnershipOrDoctor(session, patientId, context)
+    }
+
+    const medications = await listMedications(patientId, session.clinicId, query.status)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'patient',
+      patientId,
+      'LIST_MEDICATIONS',
+      true,
+      { count: medications.length },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ medications }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'patient',
+      patientId,
+      'LIST_MEDICATIONS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Prescribe a medication
+export const POST = withPermission(PERMISSIONS.PRESCRIPTIONS_CREATE, async (request, { session, context }) => {
+  let patientId = 'unknown'
+
+  try {
+    // 1. Require an approved doctor
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 2. Validate input
+    const body = await request.json()
+    const input = validate(createMedicationSchema, body, context.requestId)
+    patientId = input.patientId
+
+    // 3. Create (the service checks clinic and patient access)
+    const medication = await createMedication(session, input, context)
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'medication',
+      medication.id,
+      'CREATE_MEDICATION',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ medication }, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logMedicationAction(
+      session.id,
+      session.clinicId,
+      'patient',
+      patientId,
+      'CREATE_MEDICATION',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,79 @@
+/**
+ * Thread Messages API Route
+ *
+ * GET  /api/messages/threads/[id]/messages[?cursor&limit] - history, newest first
+ * POST /api/messages/threads/[id]/messages - send a message
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import {
+  listThreadMessagesQuerySchema,
+  sendThreadMessageSchema,
+} from '@/lib/validation/schemas'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import {
+  listMessages,
+  requireThreadAccess,
+  resolveParticipant,
+  sendMessage,
+} from '@/lib/messaging/threads'
+
+// GET - Paginated message history
+export const GET = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate query parameters
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listThreadMessagesQuerySchema,
+      {
+        cursor: searchParams.get('cursor') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Membership check
+    const participant = await resolveParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    const page = await listMessages(thread.id, { cursor: query.cursor, limit: query.limit })
+
+    return apiSuccess(page, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Send a message
+export const POST = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_SEND, async (request, { session, context, params }) => {
+  try {
+    // 1. Rate limiting: 20 messages per minute per user
+    const rateLimit = await rateLimiters.messaging(request, session)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    // 2. Validate request body
+    const body = await request.json()
+    const validatedData = validate(sendThreadMessageSchema, body, context.requestId)
+
+    // 3. Membership check
+    const participant = await resolveParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    const message = await sendMessage(thread, participant, validatedData)
+
+    return setRateLimitHeaders(apiSuccess({ message }, 201, context.requestId), rateLimit)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
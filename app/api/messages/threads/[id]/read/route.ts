@@ -0,0 +1,35 @@
+/**
+ * Thread Read Receipts API Route
+ *
+ * POST /api/messages/threads/[id]/read - mark the other party's messages read
+ *      (optionally only those sent up to `upTo`)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { markThreadReadSchema } from '@/lib/validation/schemas'
+import { markThreadRead, requireThreadAccess, resolveParticipant } from '@/lib/messaging/threads'
+
+// POST - Mark thread read
+export const POST = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate request body (optional)
+    const body = await request.json().catch(() => ({}))
+    const { upTo } = validate(markThreadReadSchema, body, context.requestId)
+
+    // 2. Membership check
+    const participant = await resolveParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    const result = await markThreadRead(thread.id, participant, upTo ? new Date(upTo) : undefined)
+
+    return apiSuccess(result, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
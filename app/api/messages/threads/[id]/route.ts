@@ -0,0 +1,35 @@
+/**
+ * Message Thread API Route
+ *
+ * GET /api/messages/threads/[id] - thread details and unread count
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { prisma } from '@/db/prisma'
+import { requireThreadAccess, resolveParticipant } from '@/lib/messaging/threads'
+
+// GET - Get thread details
+export const GET = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Membership check
+    const participant = await resolveParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    const unreadCount = await prisma.message.count({
+      where: {
+        threadId: thread.id,
+        read: false,
+        senderRole: participant.role === 'patient' ? { not: 'PATIENT' } : 'PATIENT',
+      },
+    })
+
+    return apiSuccess({ thread, unreadCount }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
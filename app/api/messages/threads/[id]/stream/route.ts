@@ -0,0 +1,130 @@
+/**
+ * Thread Live Updates (Server-Sent Events)
+ *
+ * GET /api/messages/threads/[id]/stream[?since] - streams messages created or
+ *     updated (read receipts) after `since` (default: now)
+ *
+ * Each event carries `id: <updatedAt ISO>` so a reconnecting EventSource
+ * resumes from Last-Event-ID; clients merge messages by id. The stream
+ * ends after STREAM_MAX_DURATION_MS and the browser reconnects.
+ */
+
+import { NextResponse } from 'next/server'
+import { apiError } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { addSecurityHeaders } from '@/lib/security/headers'
+import { logError } from '@/lib/security/logging'
+import {
+  getThreadChanges,
+  requireThreadAccess,
+  resolveParticipant,
+  ThreadChangeCursor,
+} from '@/lib/messaging/threads'
+
+const POLL_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15000
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000
+
+function parseSince(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// GET - Server-Sent Events stream for a thread
+export const GET = withPermission<{ id: string }>(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Membership check
+    const participant = await resolveParticipant(session)
+    const thread = await requireThreadAccess(params.id, participant)
+
+    let cursor: ThreadChangeCursor = {
+      since:
+        parseSince(request.headers.get('last-event-id')) ??
+        parseSince(request.nextUrl.searchParams.get('since')) ??
+        new Date(),
+      seenIds: [],
+    }
+
+    const encoder = new TextEncoder()
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+    let closed = false
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const startedAt = Date.now()
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearTimeout(pollTimer)
+          clearInterval(heartbeatTimer)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        const send = (payload: unknown, id?: string) => {
+          if (closed) return
+          controller.enqueue(
+            encoder.encode(`${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(payload)}\n\n`)
+          )
+        }
+
+        const poll = async () => {
+          if (closed) return
+          try {
+            const changes = await getThreadChanges(thread.id, cursor)
+            cursor = changes.cursor
+            for (const message of changes.messages) {
+              send({ type: 'message', message }, message.updatedAt.toISOString())
+            }
+          } catch (error) {
+            logError('Message stream poll failed', error as Error, { threadId: thread.id }, session.id, context.requestId)
+            send({ type: 'error', message: 'An error occurred' })
+          }
+
+          if (Date.now() - startedAt >= STREAM_MAX_DURATION_MS) {
+            close()
+            return
+          }
+          pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+        }
+
+        // Send initial connection message
+        send({ type: 'connected', threadId: thread.id, since: cursor.since.toISOString() })
+        heartbeatTimer = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'))
+        }, HEARTBEAT_INTERVAL_MS)
+        poll()
+
+        // Cleanup on close
+        request.signal.addEventListener('abort', close)
+      },
+      cancel() {
+        closed = true
+        clearTimeout(pollTimer)
+        clearInterval(heartbeatTimer)
+      },
+    })
+
+    const response = new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable nginx buffering
+      },
+    })
+    return addSecurityHeaders(response)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
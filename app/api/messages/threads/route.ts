@@ -1,159 +1,127 @@
-// TODO: Message threads API
-// TODO: Get message threads for authenticated user
-// TODO: Include unread counts
-// TODO: Include last message
+/**
+ * Message Threads API Route
+ *
+ * GET  /api/messages/threads[?archived&unread&limit] - the user's threads with
+ *      last message and unread count
+ * POST /api/messages/threads - start a thread with a first message
+ *      (patients name a doctorId or omit it to write to the care team;
+ *      the care team names a patientId)
+ */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
-import { withClinicScope } from '@/lib/auth/tenant-scope'
+import { requireDoctorAccessToPatient } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import {
+  createMessageThreadSchema,
+  listMessageThreadsQuerySchema,
+} from '@/lib/validation/schemas'
 import { prisma } from '@/db/prisma'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
+import { createThread, listThreads, resolveParticipant } from '@/lib/messaging/threads'
 
 // GET - Get message threads
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.MESSAGES_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
+    // 1. Validate query parameters
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listMessageThreadsQuerySchema,
+      {
+        archived: searchParams.get('archived') || undefined,
+        unread: searchParams.get('unread') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
 
-    // OPTIMIZED: Get patient or doctor record - batch both queries in parallel
-    const [patient, doctor] = await Promise.all([
-      prisma.patient.findUnique({
-        where: { 
-          userId: session.id,
-          clinicId: session.clinicId, // Tenant isolation
-        },
-        select: { id: true, clinicId: true },
-      }),
-      prisma.doctor.findUnique({
-        where: { 
-          userId: session.id,
-          clinicId: session.clinicId, // Tenant isolation
-        },
-        select: { id: true, clinicId: true },
-      }),
-    ])
+    const participant = await resolveParticipant(session)
+    const threads = await listThreads(participant, {
+      archived: query.archived === 'true',
+      unreadOnly: query.unread === 'true',
+      limit: query.limit,
+    })
 
-    if (!patient && !doctor) {
-      return apiError('User profile not found', 404, context.requestId)
-    }
+    return apiSuccess(
+      {
+        threads,
+        unreadCount: threads.reduce((sum, thread) => sum + thread.unreadCount, 0),
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
 
-    // OPTIMIZED: Single query with optimized SELECT to reduce over-fetching
-    let threads
-    if (patient) {
-      threads = await prisma.messageThread.findMany({
-        where: withClinicScope(session.clinicId, { patientId: patient.id }),
-        select: {
-          id: true,
-          subject: true,
-          lastMessageAt: true,
-          unreadByPatient: true,
-          doctor: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              specialization: true,
-            },
-          },
-          messages: {
-            orderBy: { createdAt: 'desc' },
-            take: 1,
-            select: {
-              id: true,
-              content: true,
-              senderId: true,
-              senderRole: true,
-              read: true,
-              createdAt: true,
-            },
-          },
-        },
-        orderBy: { lastMessageAt: 'desc' },
-      })
-    } else if (doctor) {
-      threads = await prisma.messageThread.findMany({
-        where: withClinicScope(session.clinicId, { doctorId: doctor.id }),
-        select: {
-          id: true,
-          subject: true,
-          lastMessageAt: true,
-          unreadByDoctor: true,
-          patient: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-          messages: {
-            orderBy: { createdAt: 'desc' },
-            take: 1,
-            select: {
-              id: true,
-              content: true,
-              senderId: true,
-              senderRole: true,
-              read: true,
-              createdAt: true,
-            },
-          },
-        },
-        orderBy: { lastMessageAt: 'desc' },
-      })
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Start a new thread
+export const POST = withPermission(PERMISSIONS.MESSAGES_SEND, async (request, { session, context }) => {
+  try {
+    // 1. Rate limiting: 20 messages per minute per user
+    const rateLimit = await rateLimiters.messaging(request, session)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
     }
 
-    // Format response (optimized - no N+1 queries)
-    const formatted = threads?.map((thread) => {
-      const lastMessage = thread.messages[0]
-      const otherParty = patient
-        ? {
-            name: `${thread.doctor.firstName || ''} ${thread.doctor.lastName || ''}`.trim(),
-            specialization: thread.doctor.specialization || null,
-          }
-        : {
-            name: `${thread.patient.firstName || ''} ${thread.patient.lastName || ''}`.trim(),
-          }
+    // 2. Validate request body
+    const body = await request.json()
+    const validatedData = validate(createMessageThreadSchema, body, context.requestId)
 
-      // Unread count is boolean flag - calculate from last message if needed
-      const unreadCount = (patient ? thread.unreadByPatient : thread.unreadByDoctor) 
-        && lastMessage 
-        && !lastMessage.read 
-        && lastMessage.senderId !== session.id
-        ? 1 : 0
+    const participant = await resolveParticipant(session)
 
-      return {
-        id: thread.id,
-        subject: thread.subject,
-        otherParty,
-        lastMessage: lastMessage
-          ? {
-              id: lastMessage.id,
-              content: lastMessage.content,
-              senderId: lastMessage.senderId,
-              senderRole: lastMessage.senderRole,
-              createdAt: lastMessage.createdAt,
-              read: lastMessage.read,
-            }
-          : null,
-        unreadCount,
-        lastMessageAt: thread.lastMessageAt,
+    // 3. Resolve the other party
+    let doctorId: string | null = null
+    let patientId: string
+    if (participant.role === 'patient') {
+      if (validatedData.doctorId) {
+        const doctor = await prisma.doctor.findUnique({
+          where: { id: validatedData.doctorId, clinicId: session.clinicId },
+          select: { id: true },
+        })
+        if (!doctor) {
+          return apiError('Doctor not found', 404, context.requestId)
+        }
+        doctorId = doctor.id
       }
-    }) || []
+      patientId = participant.profileId
+    } else {
+      if (!validatedData.patientId) {
+        return apiError('Patient ID is required', 400, context.requestId)
+      }
+      if (participant.doctorId) {
+        await requireDoctorAccessToPatient(session, validatedData.patientId, context)
+        doctorId = participant.doctorId
+      } else {
+        const patient = await prisma.patient.findUnique({
+          where: { id: validatedData.patientId, clinicId: session.clinicId },
+          select: { id: true },
+        })
+        if (!patient) {
+          return apiError('Patient not found', 404, context.requestId)
+        }
+      }
+      patientId = validatedData.patientId
+    }
+
+    const { thread, message } = await createThread(participant, {
+      doctorId,
+      patientId,
+      subject: validatedData.subject,
+      category: validatedData.category,
+      content: validatedData.content,
+      attachments: validatedData.attachments,
+    })
 
-    return apiSuccess(formatted, 200, context.requestId)
+    return setRateLimitHeaders(apiSuccess({ thread, message }, 201, context.requestId), rateLimit)
   } catch (error: any) {
     const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
     const message = error.message || 'Internal server error'
-    
-    if (statusCode === 401 || statusCode === 403) {
-      return apiError(message, statusCode, context.requestId)
-    }
+
     return apiError(message, statusCode, context.requestId)
   }
-}
-
+})
@@ -0,0 +1,71 @@
+/**
+ * Patient Intake Forms API Route
+ *
+ * GET /api/patient/intake-forms[?attachable=true]
+ * Lists the signed-in patient's intake forms. With attachable=true,
+ * only forms that can still be attached to a new appointment.
+ */
+
+import { IntakeFormStatus } from '@prisma/client'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
+import { withClinicScope } from '@/lib/auth/tenant-scope'
+import { prisma } from '@/db/prisma'
+
+export const GET = withPermission(PERMISSIONS.FORMS_VIEW, async (request, { session, context }) => {
+  try {
+    const patient = await prisma.patient.findUnique({
+      where: {
+        userId: session.id,
+        clinicId: session.clinicId,
+      },
+      select: { id: true },
+    })
+
+    if (!patient) {
+      return apiError('Patient profile not found', 404, context.requestId)
+    }
+
+    await ensureOwnershipOrDoctor(session, patient.id, context)
+
+    // 1. Load forms, optionally only unattached and not archived
+    const attachable = request.nextUrl.searchParams.get('attachable') === 'true'
+    const forms = await prisma.intakeForm.findMany({
+      where: withClinicScope(session.clinicId, {
+        patientId: patient.id,
+        ...(attachable && {
+          status: { not: IntakeFormStatus.ARCHIVED },
+          appointment: { is: null },
+        }),
+      }),
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        formData: true,
+        submittedAt: true,
+        createdAt: true,
+        appointment: { select: { id: true, scheduledAt: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return apiSuccess(
+      {
+        forms: forms.map(({ formData, ...form }) => ({
+          ...form,
+          title: (formData as { title?: string } | null)?.title || 'Intake Form',
+        })),
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
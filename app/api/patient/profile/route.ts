@@ -1,21 +1,13 @@
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor, requireDoctorAccessToPatient } from '@/lib/auth/patient-access'
 import { logPatientChartAccess } from '@/lib/logging/audit'
 import { prisma } from '@/db/prisma'
 import { patientSafeSelectForPatientSelf, patientSafeSelectForDoctor } from '@/lib/db/selects'
 
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.PATIENTS_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Allow patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
-
     // Get patientId from query params if doctor, otherwise use session
     const patientIdParam = request.nextUrl.searchParams.get('patientId')
     let patientId: string
@@ -82,5 +74,5 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -0,0 +1,49 @@
+/**
+ * Patient Chart API Route
+ *
+ * GET /api/patients/[id] - demographics plus recent appointments,
+ *     consultations, visit notes, intake forms, medications, lab orders
+ *     and files in one clinic-scoped read (care relationship required)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { logAccess, logPatientChartAccess } from '@/lib/logging/audit'
+import { getPatientChart } from '@/lib/patients/directory'
+
+// GET - Get a patient's chart
+export const GET = withPermission<{ id: string }>(PERMISSIONS.PATIENTS_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Care relationship and clinic checks
+    const chart = await getPatientChart(session, params.id, context)
+
+    logPatientChartAccess(
+      session.id,
+      session.clinicId,
+      params.id,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(chart, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'VIEW_PATIENT_CHART',
+      resourceType: 'patient',
+      resourceId: params.id,
+      request,
+      requestId: context.requestId,
+      success: false,
+      metadata: { statusCode },
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
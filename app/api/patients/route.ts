@@ -0,0 +1,68 @@
+/**
+ * Patient Directory API Route
+ *
+ * GET /api/patients?name=&dob=&phone=&cursor=&limit= - the doctor's patients
+ *     (care relationship required; nurses and staff get the clinic's),
+ *     searchable by name prefix, date of birth (YYYY-MM-DD) and phone
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { listPatientsQuerySchema } from '@/lib/validation/schemas'
+import { logAccess } from '@/lib/logging/audit'
+import { listCarePatients } from '@/lib/patients/directory'
+
+// GET - List the doctor's (or the clinic's) patients
+export const GET = withPermission(PERMISSIONS.PATIENTS_VIEW, async (request, { session, context }) => {
+  try {
+    // 1. Validate query
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      listPatientsQuerySchema,
+      {
+        name: searchParams.get('name') || undefined,
+        dob: searchParams.get('dob') || undefined,
+        phone: searchParams.get('phone') || undefined,
+        cursor: searchParams.get('cursor') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Clinic-scoped, care relationship only for doctors
+    const result = await listCarePatients(session, query)
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'LIST_PATIENTS',
+      resourceType: 'patient',
+      resourceId: 'directory',
+      request,
+      requestId: context.requestId,
+      success: true,
+      metadata: { count: result.patients.length },
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(result, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logAccess({
+      userId: session.id,
+      clinicId: session.clinicId,
+      action: 'LIST_PATIENTS',
+      resourceType: 'patient',
+      resourceId: 'directory',
+      request,
+      requestId: context.requestId,
+      success: false,
+      metadata: { statusCode },
+    }).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -1,25 +1,15 @@
 // TODO: Delete payment method API
 // TODO: Remove Stripe payment method
 
-import { NextRequest } from "next/server"
 import { apiError, apiSuccess } from "@/lib/auth/api-protection"
-import { requireSession, requireRole, requireOwnership, getGuardContext } from "@/lib/auth/guards"
+import { requireOwnership } from "@/lib/auth/guards"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 
 // DELETE - Remove payment method
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  const context = getGuardContext(request)
-  
+export const DELETE = withPermission<{ id: string }>(PERMISSIONS.BILLING_UPDATE, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient role
-    requireRole(session, 'patient', context)
-
     // Get patient record
     const patient = await prisma.patient.findUnique({
       where: { userId: session.id },
@@ -53,5 +43,5 @@ export async function DELETE(
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
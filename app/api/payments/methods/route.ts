@@ -2,22 +2,15 @@
 // TODO: Get and manage Stripe payment methods
 // TODO: Add, update, delete payment methods
 
-import { NextRequest } from "next/server"
 import { apiError, apiSuccess } from "@/lib/auth/api-protection"
-import { requireSession, requireRole, requireOwnership, getGuardContext } from "@/lib/auth/guards"
+import { requireOwnership } from "@/lib/auth/guards"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 
 // GET - Get patient payment methods
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.BILLING_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient role
-    requireRole(session, 'patient', context)
-
     // Get patient record
     const patient = await prisma.patient.findUnique({
       where: { userId: session.id },
@@ -45,19 +38,11 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 // POST - Create setup intent for adding payment method
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.BILLING_CREATE, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient role
-    requireRole(session, 'patient', context)
-
     // Get patient record
     const patient = await prisma.patient.findUnique({
       where: { userId: session.id },
@@ -93,5 +78,5 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
@@ -3,23 +3,16 @@
 // TODO: Connect to Stripe
 // TODO: Include receipt URLs
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, requireOwnership, getGuardContext } from '@/lib/auth/guards'
+import { requireOwnership } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { prisma } from '@/db/prisma'
 
 // GET - Get patient payments
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.BILLING_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Require patient role
-    requireRole(session, 'patient', context)
-
     // Get patient record with clinic scoping
     const patient = await prisma.patient.findUnique({
       where: { 
@@ -93,5 +86,5 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
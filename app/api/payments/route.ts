@@ -1,26 +1,20 @@
 /**
  * Payment API Route - Protected Stub
  * 
- * This endpoint requires authentication and role-based access control.
+ * This endpoint requires authentication and permission-based access control.
  * Full implementation pending.
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 
 /**
  * POST - Create checkout session
- * Protected: Requires authenticated user (doctor or patient)
+ * Protected: Requires billing:create
  */
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.BILLING_CREATE, async (request, { context }) => {
   try {
-    // SECURITY: Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
-
     // TODO: Implement Stripe checkout session creation
     // TODO: Validate request body with Zod schema
     // TODO: Enforce clinicId matching
@@ -37,20 +31,14 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
 /**
  * GET - Get payment information
- * Protected: Requires authenticated user (doctor or patient)
+ * Protected: Requires billing:view
  */
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.BILLING_VIEW, async (request, { context }) => {
   try {
-    // SECURITY: Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
-
     // TODO: Implement payment retrieval
     // TODO: Enforce clinicId matching
     // TODO: Return payment information
@@ -65,4 +53,4 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
@@ -1,14 +1,13 @@
 // TODO: Create Stripe setup intent for adding payment methods
 
-import { NextRequest } from "next/server"
-import { requireAuth, apiError } from "@/lib/auth/api-protection"
+import { apiError } from "@/lib/auth/api-protection"
+import { PERMISSIONS } from "@/lib/auth/permissions"
+import { withPermission } from "@/lib/auth/with-permission"
 import { prisma } from "@/db/prisma"
 
 // TODO: POST - Create setup intent
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.BILLING_CREATE, async (request, { session: user }) => {
   try {
-    const user = await requireAuth(request)
-
     // Get patient record
     const patient = await prisma.patient.findUnique({
       where: { userId: user.id },
@@ -35,10 +34,7 @@ export async function POST(request: NextRequest) {
       }
     )
   } catch (error: any) {
-    if (error.message === "Unauthorized") {
-      return apiError("Unauthorized", 401)
-    }
     return apiError(error.message || "Internal server error", 500)
   }
-}
+})
 
@@ -5,9 +5,9 @@
  * Full implementation pending.
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { prisma } from '@/db/prisma'
 
@@ -15,14 +15,8 @@ import { prisma } from '@/db/prisma'
  * POST - Create SOAP note from transcription
  * Protected: Requires authenticated doctor with approval
  */
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.NOTES_CREATE, async (request, { session, context }) => {
   try {
-    // SECURITY: Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor'], context)
-    
     if (!session.metadata.approved) {
       return apiError('Doctor account pending approval', 403, context.requestId)
     }
@@ -84,4 +78,4 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
@@ -5,14 +5,14 @@
 // TODO: Return incremental results to frontend via Server-Sent Events
 // TODO: Stateless and scalable implementation
 
-import { NextRequest } from 'next/server'
 import { apiError } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor, requireDoctorAccessToPatient } from '@/lib/auth/patient-access'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { appendTranscript } from '@/lib/stt/streaming'
 import { SpeechClient } from '@google-cloud/speech'
-import { firestoreRateLimiters } from '@/lib/security/firestore-rate-limit'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
 import { addSecurityHeaders } from '@/lib/security/headers'
 import { logError } from '@/lib/security/logging'
 import { handleApiError } from '@/lib/security/error-handler'
@@ -57,19 +57,15 @@ interface StreamSession {
 }
 
 // POST endpoint - Start streaming session or send audio chunk
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
+export const POST = withPermission(PERMISSIONS.VIDEO_JOIN, async (request, { session, context }) => {
   const requestId = context.requestId
   
   try {
-    // SECURITY: Require valid session and role
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
     
     // Rate limiting: 10 STT chunks per second
-    const rateLimitResponse = await firestoreRateLimiters.sttChunks(request, session.id)
-    if (rateLimitResponse) {
-      return addSecurityHeaders(rateLimitResponse)
+    const rateLimit = await rateLimiters.sttChunks(request, session)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
     }
 
     // Get session ID and consultation ID from headers
@@ -218,21 +214,17 @@ export async function POST(request: NextRequest) {
         },
       }
     )
-    return addSecurityHeaders(response)
+    return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
   } catch (error: any) {
     return addSecurityHeaders(handleApiError(error, 'Failed to process audio', undefined, requestId))
   }
-}
+})
 
 // GET endpoint - Get current transcription for a consultation
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
+export const GET = withPermission(PERMISSIONS.VIDEO_JOIN, async (request, { session, context }) => {
   const requestId = context.requestId
   
   try {
-    // SECURITY: Require valid session and role
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
 
     const consultationId = request.nextUrl.searchParams.get('consultationId')
     if (!consultationId) {
@@ -334,22 +326,18 @@ export async function GET(request: NextRequest) {
   } catch (error: any) {
     return addSecurityHeaders(handleApiError(error, 'Failed to get transcription', undefined, requestId))
   }
-}
+})
 
 // DELETE endpoint - End streaming session
-export async function DELETE(request: NextRequest) {
-  const context = getGuardContext(request)
+export const DELETE = withPermission(PERMISSIONS.VIDEO_JOIN, async (request, { session, context }) => {
   const requestId = context.requestId
   
   try {
-    // SECURITY: Require valid session and role
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
     
     // Rate limiting: 10 STT chunks per second
-    const rateLimitResponse = await firestoreRateLimiters.sttChunks(request, session.id)
-    if (rateLimitResponse) {
-      return addSecurityHeaders(rateLimitResponse)
+    const rateLimit = await rateLimiters.sttChunks(request, session)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
     }
 
     const sessionId = request.headers.get('X-Session-Id')
@@ -372,8 +360,8 @@ export async function DELETE(request: NextRequest) {
         },
       }
     )
-    return addSecurityHeaders(response)
+    return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
   } catch (error: any) {
     return addSecurityHeaders(handleApiError(error, 'Failed to end session', undefined, requestId))
   }
-}
+})
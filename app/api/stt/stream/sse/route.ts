@@ -3,28 +3,25 @@
 // TODO: Listen to Firestore changes for consultation transcription
 // TODO: Send updates as they occur
 
-import { NextRequest } from 'next/server'
-import { requireAuth } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { getFirestoreClient } from '@/lib/firestore/client'
 import { doc, onSnapshot } from 'firebase/firestore'
-import { firestoreRateLimiters } from '@/lib/security/firestore-rate-limit'
+import { rateLimiters, rateLimitExceededResponse, setRateLimitHeaders } from '@/lib/security/rate-limit'
 import { addSecurityHeaders } from '@/lib/security/headers'
 import { logError } from '@/lib/security/logging'
 import { handleApiError } from '@/lib/security/error-handler'
 import { v4 as uuidv4 } from 'uuid'
 
 // TODO: GET endpoint - Server-Sent Events stream for transcript updates
-export async function GET(request: NextRequest) {
+export const GET = withPermission(PERMISSIONS.VIDEO_JOIN, async (request, { session: user }) => {
   const requestId = uuidv4()
   
   try {
-    // Require authentication first (needed for user ID)
-    const user = await requireAuth(request)
-    
     // Rate limiting: 10 STT chunks per second
-    const rateLimitResponse = await firestoreRateLimiters.sttChunks(request, user.id)
-    if (rateLimitResponse) {
-      return addSecurityHeaders(rateLimitResponse)
+    const rateLimit = await rateLimiters.sttChunks(request, user)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
     }
 
     const consultationId = request.nextUrl.searchParams.get('consultationId')
@@ -99,9 +96,8 @@ export async function GET(request: NextRequest) {
             'X-Accel-Buffering': 'no', // Disable nginx buffering
           },
         })
-        return addSecurityHeaders(response)
+        return setRateLimitHeaders(addSecurityHeaders(response), rateLimit)
       } catch (error: any) {
         return addSecurityHeaders(handleApiError(error, 'Failed to create SSE stream', undefined, requestId))
       }
-    }
-
+    })
@@ -8,10 +8,12 @@
 // TODO: Implement file access control
 // TODO: Add file deletion endpoint
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 
 // TODO: Implement POST upload endpoint
-export async function POST(request: NextRequest) {
+export const POST = withPermission(PERMISSIONS.FILES_UPLOAD, async () => {
   // TODO: Parse file from form data
   // TODO: Validate file type and size
   // TODO: Generate unique filename
@@ -20,5 +22,4 @@ export async function POST(request: NextRequest) {
   // TODO: Return file URL and metadata
   
   return NextResponse.json({ message: 'Upload endpoint - to be implemented' })
-}
-
+})
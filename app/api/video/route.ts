@@ -1,28 +1,22 @@
 /**
  * Video Visit API Route - Protected Stub
  * 
- * This endpoint requires authentication and role-based access control.
+ * This endpoint requires authentication and permission-based access control.
  * Full implementation pending.
  */
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { enforceTenant } from '@/lib/auth/tenant'
 import { prisma } from '@/db/prisma'
 
 /**
  * POST - Create video session
- * Protected: Requires authenticated user (doctor or patient)
+ * Protected: Requires video:join
  */
-export async function POST(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const POST = withPermission(PERMISSIONS.VIDEO_JOIN, async (request, { session, context }) => {
   try {
-    // SECURITY: Require valid session
-    const session = await requireSession(request)
-    requireRole(session, ['doctor', 'patient'], context)
-
     const body = await request.json()
     const { appointmentId, consultationId } = body
 
@@ -82,4 +76,4 @@ export async function POST(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
@@ -0,0 +1,66 @@
+/**
+ * Visit Note Addenda API Route
+ *
+ * POST /api/visit-notes/[id]/addenda - append an addendum or amendment to
+ *      a signed note (append-only; amendments are limited to the note's
+ *      doctor and need a section and reason)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { createVisitNoteAddendumSchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { addVisitNoteAddendum } from '@/lib/visit-notes/lifecycle'
+
+// POST - Add an addendum or amendment
+export const POST = withPermission<{ id: string }>(PERMISSIONS.NOTES_UPDATE, async (request, { session, context, params }) => {
+  let action: 'ADD_VISIT_NOTE_ADDENDUM' | 'AMEND_VISIT_NOTE' = 'ADD_VISIT_NOTE_ADDENDUM'
+
+  try {
+
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 1. Validate input
+    const body = await request.json()
+    const input = validate(createVisitNoteAddendumSchema, body, context.requestId)
+    if (input.kind === 'AMENDMENT') action = 'AMEND_VISIT_NOTE'
+
+    // 2. Append
+    const addendum = await addVisitNoteAddendum(session, params.id, input, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      action,
+      true,
+      { category: addendum.section ?? addendum.kind },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ addendum }, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      action,
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
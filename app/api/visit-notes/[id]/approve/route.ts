@@ -0,0 +1,56 @@
+/**
+ * Visit Note Signing API Route
+ *
+ * POST /api/visit-notes/[id]/approve - sign a draft, setting signedAt and
+ *      signedBy and locking its content; later changes go through
+ *      /api/visit-notes/[id]/addenda
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { signVisitNote, toVisitNoteResponse } from '@/lib/visit-notes/lifecycle'
+
+// POST - Sign a visit note
+export const POST = withPermission<{ id: string }>(PERMISSIONS.NOTES_APPROVE, async (request, { session, context, params }) => {
+  try {
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 1. Sign (the service enforces ownership and the draft state)
+    const note = await signVisitNote(session, params.id, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'SIGN_VISIT_NOTE',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(toVisitNoteResponse(note), 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'SIGN_VISIT_NOTE',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,56 @@
+/**
+ * Visit Note Revision Restore API Route
+ *
+ * POST /api/visit-notes/[id]/revisions/[revision]/restore - set a draft's
+ *      content back to an earlier revision (saved as a new revision;
+ *      signed notes cannot be restored)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { visitNoteRevisionParamsSchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { restoreVisitNoteRevision, toVisitNoteResponse } from '@/lib/visit-notes/lifecycle'
+
+// POST - Restore a revision
+export const POST = withPermission<{ id: string; revision: string }>(PERMISSIONS.NOTES_UPDATE, async (request, { session, context, params }) => {
+  try {
+    const { revision } = validate(visitNoteRevisionParamsSchema, params, context.requestId)
+
+    // 1. Restore (the service enforces ownership and the draft lock)
+    const note = await restoreVisitNoteRevision(session, params.id, revision, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'RESTORE_VISIT_NOTE_REVISION',
+      true,
+      { version: revision },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(toVisitNoteResponse(note), 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'RESTORE_VISIT_NOTE_REVISION',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,56 @@
+/**
+ * Visit Note Revision API Route
+ *
+ * GET /api/visit-notes/[id]/revisions/[revision] - content of one revision
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { visitNoteRevisionParamsSchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { getVisitNote } from '@/lib/visit-notes/lifecycle'
+import { getRevision } from '@/lib/visit-notes/revisions'
+
+// GET - Get a revision
+export const GET = withPermission<{ id: string; revision: string }>(PERMISSIONS.NOTES_VIEW, async (request, { session, context, params }) => {
+  try {
+    const { revision } = validate(visitNoteRevisionParamsSchema, params, context.requestId)
+
+    // 1. Clinic and patient access checks
+    const note = await getVisitNote(session, params.id, context)
+    const content = await getRevision(note.id, revision)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      true,
+      { version: revision },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ revision: content }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,67 @@
+/**
+ * Visit Note Revision Diff API Route
+ *
+ * GET /api/visit-notes/[id]/revisions/diff?from=&to= - section-by-section
+ *     word diff between two revisions. Defaults compare the AI draft with
+ *     the latest revision, i.e. how much the clinician edited it.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { visitNoteRevisionDiffQuerySchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { getVisitNote } from '@/lib/visit-notes/lifecycle'
+import { diffRevisions } from '@/lib/visit-notes/revisions'
+
+// GET - Diff two revisions
+export const GET = withPermission<{ id: string }>(PERMISSIONS.NOTES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate query
+    const searchParams = request.nextUrl.searchParams
+    const query = validate(
+      visitNoteRevisionDiffQuerySchema,
+      {
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+      },
+      context.requestId
+    )
+
+    // 2. Clinic and patient access checks
+    const note = await getVisitNote(session, params.id, context)
+    const diff = await diffRevisions(note.id, query)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      true,
+      { version: diff.to.revision },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ diff }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,53 @@
+/**
+ * Visit Note Revisions API Route
+ *
+ * GET /api/visit-notes/[id]/revisions - every saved revision of the note,
+ *     newest first (author, time, AI-generated flag; no content)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { getVisitNote } from '@/lib/visit-notes/lifecycle'
+import { listRevisions } from '@/lib/visit-notes/revisions'
+
+// GET - List revisions
+export const GET = withPermission<{ id: string }>(PERMISSIONS.NOTES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Clinic and patient access checks
+    const note = await getVisitNote(session, params.id, context)
+    const revisions = await listRevisions(note.id)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ revisions, currentRevision: note.revision }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'VIEW_VISIT_NOTE_REVISIONS',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,97 @@
+/**
+ * Visit Note API Route
+ *
+ * GET /api/visit-notes/[id] - note with its addenda/amendments
+ * PUT /api/visit-notes/[id] - autosave a draft (409 once signed, or if
+ *     the draft changed since the `updatedAt` the client sent)
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateVisitNoteSchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { getVisitNote, toVisitNoteResponse, updateVisitNoteDraft } from '@/lib/visit-notes/lifecycle'
+
+// GET - Get a visit note
+export const GET = withPermission<{ id: string }>(PERMISSIONS.NOTES_VIEW, async (request, { session, context, params }) => {
+  try {
+    // 1. Clinic and patient access checks
+    const note = await getVisitNote(session, params.id, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'VIEW_VISIT_NOTE',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(toVisitNoteResponse(note), 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'VIEW_VISIT_NOTE',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// PUT - Autosave a draft visit note
+export const PUT = withPermission<{ id: string }>(PERMISSIONS.NOTES_UPDATE, async (request, { session, context, params }) => {
+  try {
+    // 1. Validate input
+    const body = await request.json()
+    const input = validate(updateVisitNoteSchema, body, context.requestId)
+
+    // 2. Save (the service enforces ownership and the draft lock)
+    const note = await updateVisitNoteDraft(session, params.id, input, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      'UPDATE_VISIT_NOTE_DRAFT',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess(toVisitNoteResponse(note), 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      params.id,
+      'UPDATE_VISIT_NOTE_DRAFT',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
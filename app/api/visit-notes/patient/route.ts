@@ -3,31 +3,23 @@
 // TODO: Include SOAP note data
 // TODO: Read-only access
 
-import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/auth/api-protection'
-import { requireSession, requireRole, getGuardContext } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
 import { ensureOwnershipOrDoctor } from '@/lib/auth/patient-access'
 import { withClinicScope } from '@/lib/auth/tenant-scope'
 import { logAccess } from '@/lib/logging/audit'
 import { prisma } from '@/db/prisma'
 
 // GET - Get patient visit notes
-export async function GET(request: NextRequest) {
-  const context = getGuardContext(request)
-  
+export const GET = withPermission(PERMISSIONS.NOTES_VIEW, async (request, { session, context }) => {
   try {
-    // Require valid session
-    const session = await requireSession(request)
-    
-    // Allow patient or doctor role
-    requireRole(session, ['patient', 'doctor'], context)
-
-    // Get patientId from query params if doctor, otherwise from session
+    // Get patientId from query params for clinicians, otherwise from session
     const patientIdParam = request.nextUrl.searchParams.get('patientId')
     let patientId: string
 
-    if (session.role === 'doctor' && patientIdParam) {
-      // Doctor accessing specific patient's visit notes
+    if ((session.role === 'doctor' || session.role === 'nurse' || session.role === 'staff') && patientIdParam) {
+      // Doctor (care relationship) or clinic staff accessing specific patient's visit notes
       await ensureOwnershipOrDoctor(session, patientIdParam, context)
       patientId = patientIdParam
     } else if (session.role === 'patient') {
@@ -51,8 +43,12 @@ export async function GET(request: NextRequest) {
     }
 
     // Get visit notes with clinic scoping using safe select
+    // Patients, nurses and staff only see signed notes; drafts stay with the doctor
     const visitNotes = await prisma.visitNote.findMany({
-      where: withClinicScope(session.clinicId, { patientId }),
+      where: withClinicScope(session.clinicId, {
+        patientId,
+        ...(session.role !== 'doctor' && { status: { not: 'DRAFT' as const } }),
+      }),
       select: {
         id: true,
         appointmentId: true,
@@ -64,8 +60,20 @@ export async function GET(request: NextRequest) {
         diagnosis: true,
         procedures: true,
         followUpDate: true,
+        status: true,
         signedAt: true,
         createdAt: true,
+        addenda: {
+          select: {
+            id: true,
+            kind: true,
+            section: true,
+            content: true,
+            reason: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
         appointment: {
           select: {
             id: true,
@@ -119,5 +127,5 @@ export async function GET(request: NextRequest) {
     }
     return apiError(message, statusCode, context.requestId)
   }
-}
+})
 
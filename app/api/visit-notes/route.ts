@@ -0,0 +1,67 @@
+/**
+ * Visit Notes API Route
+ *
+ * POST /api/visit-notes - create the draft note for a consultation
+ *
+ * Returns 201 with the new draft, or 200 with the existing note if the
+ * consultation already has one.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { createVisitNoteSchema } from '@/lib/validation/schemas'
+import { logVisitNoteAction } from '@/lib/logging/audit'
+import { createVisitNoteFromConsultation, toVisitNoteResponse } from '@/lib/visit-notes/lifecycle'
+
+// POST - Create a visit note from a consultation
+export const POST = withPermission(PERMISSIONS.NOTES_CREATE, async (request, { session, context }) => {
+  let consultationId = 'unknown'
+
+  try {
+
+    if (!session.metadata.approved) {
+      return apiError('Doctor account pending approval', 403, context.requestId)
+    }
+
+    // 1. Validate input
+    const body = await request.json()
+    const input = validate(createVisitNoteSchema, body, context.requestId)
+    consultationId = input.consultationId
+
+    // 2. Create (or return the existing) draft
+    const { note, created } = await createVisitNoteFromConsultation(session, input, context)
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      note.id,
+      created ? 'CREATE_VISIT_NOTE' : 'VIEW_VISIT_NOTE',
+      true,
+      undefined,
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiSuccess({ note: toVisitNoteResponse(note), created }, created ? 201 : 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    logVisitNoteAction(
+      session.id,
+      session.clinicId,
+      consultationId,
+      'CREATE_VISIT_NOTE',
+      false,
+      { statusCode },
+      context.ip,
+      request,
+      context.requestId
+    ).catch((err) => console.error('Audit logging failed (non-critical):', err))
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,100 @@
+/**
+ * Waitlist Entry API Route
+ *
+ * PATCH  /api/waitlist/[id] - staff reprioritise an entry
+ * DELETE /api/waitlist/[id] - leave the waitlist (patient) or remove an entry (staff)
+ */
+
+import { WaitlistOfferStatus, WaitlistStatus } from '@prisma/client'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireDoctorAccessToPatient, requirePatientSelfAccess } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { updateWaitlistEntrySchema } from '@/lib/validation/schemas'
+import { prisma } from '@/db/prisma'
+
+async function loadEntry(id: string, clinicId: string) {
+  return prisma.waitlistEntry.findUnique({
+    where: { id, clinicId },
+    select: { id: true, patientId: true, status: true },
+  })
+}
+
+/**
+ * PATCH - Update entry priority (clinic staff; patients cannot set priority)
+ */
+export const PATCH = withPermission<{ id: string }>(PERMISSIONS.APPOINTMENTS_UPDATE, async (request, { session: user, context, params }) => {
+  try {
+    if (user.role === 'patient') {
+      return apiError('Patients cannot set waitlist priority', 403, context.requestId)
+    }
+
+    const body = await request.json()
+    const { priority } = validate(updateWaitlistEntrySchema, body, context.requestId)
+
+    const entry = await loadEntry(params.id, user.clinicId)
+    if (!entry) {
+      return apiError('Waitlist entry not found', 404, context.requestId)
+    }
+
+    if (user.role === 'doctor') {
+      await requireDoctorAccessToPatient(user, entry.patientId, context)
+    }
+
+    const updated = await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { priority },
+    })
+
+    return apiSuccess(updated, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+/**
+ * DELETE - Leave the waitlist
+ * Any pending offer is withdrawn; the slot is not re-offered until the
+ * offer would have expired.
+ */
+export const DELETE = withPermission<{ id: string }>(PERMISSIONS.APPOINTMENTS_UPDATE, async (request, { session: user, context, params }) => {
+  try {
+    const entry = await loadEntry(params.id, user.clinicId)
+    if (!entry) {
+      return apiError('Waitlist entry not found', 404, context.requestId)
+    }
+
+    // 1. Ownership check
+    if (user.role === 'doctor') {
+      await requireDoctorAccessToPatient(user, entry.patientId, context)
+    } else if (user.role === 'patient') {
+      await requirePatientSelfAccess(user, entry.patientId, context)
+    }
+
+    if (entry.status !== WaitlistStatus.ACTIVE && entry.status !== WaitlistStatus.OFFERED) {
+      return apiError('Waitlist entry is already closed', 409, context.requestId)
+    }
+
+    await prisma.$transaction([
+      prisma.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.CANCELLED },
+      }),
+      prisma.waitlistOffer.updateMany({
+        where: { entryId: entry.id, status: WaitlistOfferStatus.PENDING },
+        data: { status: WaitlistOfferStatus.DECLINED, respondedAt: new Date() },
+      }),
+    ])
+
+    return apiSuccess({ success: true }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
@@ -0,0 +1,93 @@
+/**
+ * Waitlist Offer Claim API Route
+ *
+ * GET  /api/waitlist/offers/[token] - view an offered slot
+ * POST /api/waitlist/offers/[token] - accept or decline it ({ action })
+ *
+ * Patients only; the token comes from the claim link in the offer
+ * notification.
+ */
+
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { validate } from '@/lib/validation'
+import { waitlistOfferResponseSchema } from '@/lib/validation/schemas'
+import { prisma } from '@/db/prisma'
+import {
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+  getWaitlistOffer,
+} from '@/lib/scheduling/waitlist'
+
+async function resolvePatientId(userId: string, clinicId: string): Promise<string> {
+  const patient = await prisma.patient.findUnique({
+    where: { userId, clinicId },
+    select: { id: true },
+  })
+  if (!patient) {
+    const error: Error & { statusCode?: number } = new Error('Patient profile not found')
+    error.statusCode = 404
+    throw error
+  }
+  return patient.id
+}
+
+// GET - Offer details
+export const GET = withPermission<{ token: string }>(PERMISSIONS.APPOINTMENTS_UPDATE, async (request, { session: user, context, params }) => {
+  try {
+    const patientId = await resolvePatientId(user.id, user.clinicId)
+    const offer = await getWaitlistOffer(params.token, patientId)
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { id: offer.doctorId },
+      select: { id: true, specialization: true, credentials: true },
+    })
+
+    return apiSuccess(
+      {
+        offer: {
+          id: offer.id,
+          scheduledAt: offer.scheduledAt,
+          duration: offer.duration,
+          visitType: offer.visitType,
+          status: offer.status,
+          expiresAt: offer.expiresAt,
+          appointmentId: offer.appointmentId,
+          doctor,
+        },
+      },
+      200,
+      context.requestId
+    )
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Accept or decline the offer
+export const POST = withPermission<{ token: string }>(PERMISSIONS.APPOINTMENTS_UPDATE, async (request, { session: user, context, params }) => {
+  try {
+    // 1. Validate request body
+    const body = await request.json()
+    const { action } = validate(waitlistOfferResponseSchema, body, context.requestId)
+
+    const patientId = await resolvePatientId(user.id, user.clinicId)
+
+    if (action === 'decline') {
+      await declineWaitlistOffer(params.token, patientId)
+      return apiSuccess({ success: true }, 200, context.requestId)
+    }
+
+    const appointment = await acceptWaitlistOffer(params.token, patientId)
+    return apiSuccess({ appointment }, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
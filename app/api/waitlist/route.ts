@@ -0,0 +1,180 @@
+/**
+ * Waitlist API Route
+ *
+ * GET  /api/waitlist[?doctorId&status]  - patients see their own entries,
+ *      doctors their own waitlist, admins the clinic's
+ * POST /api/waitlist                    - join a doctor's waitlist
+ *      (patients for themselves; staff on behalf of a patient, with priority)
+ */
+
+import { Prisma, WaitlistStatus } from '@prisma/client'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { requireDoctorAccessToPatient } from '@/lib/auth/guards'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { withPermission } from '@/lib/auth/with-permission'
+import { withClinicScope } from '@/lib/auth/tenant-scope'
+import { validate } from '@/lib/validation'
+import { createWaitlistEntrySchema } from '@/lib/validation/schemas'
+import { prisma } from '@/db/prisma'
+import { patientSafeSelectMinimal } from '@/lib/db/selects'
+import { expireWaitlistOffers } from '@/lib/scheduling/waitlist'
+
+const OPEN_STATUSES: WaitlistStatus[] = [WaitlistStatus.ACTIVE, WaitlistStatus.OFFERED]
+
+// GET - List waitlist entries
+export const GET = withPermission(PERMISSIONS.APPOINTMENTS_VIEW, async (request, { session: user, context }) => {
+  try {
+    // 1. Process lapsed offers so statuses are current
+    await expireWaitlistOffers(user.clinicId)
+
+    // 2. Scope by role
+    const where: Prisma.WaitlistEntryWhereInput = {}
+    if (user.role === 'patient') {
+      const patient = await prisma.patient.findUnique({
+        where: { userId: user.id, clinicId: user.clinicId },
+        select: { id: true },
+      })
+      if (!patient) {
+        return apiError('Patient profile not found', 404, context.requestId)
+      }
+      where.patientId = patient.id
+    } else if (user.role === 'doctor') {
+      const doctor = await prisma.doctor.findUnique({
+        where: { userId: user.id, clinicId: user.clinicId },
+        select: { id: true },
+      })
+      if (!doctor) {
+        return apiError('Doctor profile not found', 404, context.requestId)
+      }
+      where.doctorId = doctor.id
+    } else {
+      const doctorId = request.nextUrl.searchParams.get('doctorId')
+      if (doctorId) where.doctorId = doctorId
+    }
+
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !(status in WaitlistStatus)) {
+      return apiError('Invalid status', 400, context.requestId)
+    }
+    where.status = status ? (status as WaitlistStatus) : { in: OPEN_STATUSES }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: withClinicScope(user.clinicId, where),
+      select: {
+        id: true,
+        doctorId: true,
+        patientId: true,
+        earliestAt: true,
+        latestAt: true,
+        visitTypes: true,
+        duration: true,
+        reason: true,
+        priority: true,
+        status: true,
+        createdAt: true,
+        doctor: { select: { id: true, specialization: true, credentials: true } },
+        patient: { select: patientSafeSelectMinimal },
+        offers: {
+          where: { status: 'PENDING' },
+          select: { id: true, scheduledAt: true, duration: true, visitType: true, expiresAt: true },
+        },
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    return apiSuccess({ entries }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
+
+// POST - Join a doctor's waitlist
+export const POST = withPermission(PERMISSIONS.APPOINTMENTS_CREATE, async (request, { session: user, context }) => {
+  try {
+    // 1. Validate request body
+    const body = await request.json()
+    const validatedData = validate(createWaitlistEntrySchema, body, context.requestId)
+
+    const earliestAt = new Date(validatedData.earliestAt)
+    const latestAt = new Date(validatedData.latestAt)
+    if (latestAt <= new Date()) {
+      return apiError('Desired date range must end in the future', 400, context.requestId)
+    }
+
+    // 2. Resolve the patient: patients join for themselves, staff name a patient
+    let patientId: string
+    if (user.role === 'patient') {
+      if (validatedData.priority !== undefined) {
+        return apiError('Patients cannot set waitlist priority', 403, context.requestId)
+      }
+      const patient = await prisma.patient.findUnique({
+        where: { userId: user.id, clinicId: user.clinicId },
+        select: { id: true },
+      })
+      if (!patient || (validatedData.patientId && validatedData.patientId !== patient.id)) {
+        return apiError('Patient profile not found', 404, context.requestId)
+      }
+      patientId = patient.id
+    } else {
+      if (!validatedData.patientId) {
+        return apiError('Patient ID is required', 400, context.requestId)
+      }
+      const patient = await prisma.patient.findUnique({
+        where: { id: validatedData.patientId, clinicId: user.clinicId },
+        select: { id: true },
+      })
+      if (!patient) {
+        return apiError('Patient not found', 404, context.requestId)
+      }
+      if (user.role === 'doctor') {
+        await requireDoctorAccessToPatient(user, patient.id, context)
+      }
+      patientId = patient.id
+    }
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { id: validatedData.doctorId, clinicId: user.clinicId },
+      select: { id: true },
+    })
+    if (!doctor) {
+      return apiError('Doctor not found', 404, context.requestId)
+    }
+
+    // 3. One open entry per patient and doctor
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: withClinicScope(user.clinicId, {
+        patientId,
+        doctorId: doctor.id,
+        status: { in: OPEN_STATUSES },
+      }),
+      select: { id: true },
+    })
+    if (existing) {
+      return apiError('Already on this doctor\'s waitlist', 409, context.requestId)
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        clinicId: user.clinicId,
+        doctorId: doctor.id,
+        patientId,
+        earliestAt,
+        latestAt,
+        visitTypes: validatedData.visitTypes ?? [],
+        duration: validatedData.duration,
+        reason: validatedData.reason,
+        priority: validatedData.priority ?? 0,
+      },
+    })
+
+    return apiSuccess(entry, 201, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    return apiError(message, statusCode, context.requestId)
+  }
+})
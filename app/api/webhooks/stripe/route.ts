@@ -0,0 +1,41 @@
+/**
+ * Stripe Webhook API Route
+ *
+ * POST /api/webhooks/stripe - receives Stripe events (payment_intent.*,
+ *      invoice.*, charge.refunded, customer.subscription.*)
+ *
+ * Public: authenticated by the Stripe-Signature header instead of a
+ * session. Returns 2xx once an event is handled (or already was), and an
+ * error otherwise so Stripe redelivers it.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError, apiSuccess } from '@/lib/auth/api-protection'
+import { getGuardContext } from '@/lib/auth/guards'
+import { logError, logInfo } from '@/lib/security/logging'
+import { constructStripeEvent, handleStripeEvent } from '@/lib/payments/webhook'
+
+// POST - Handle a Stripe event
+export async function POST(request: NextRequest) {
+  const context = getGuardContext(request)
+
+  try {
+    // 1. Verify the signature over the raw body
+    const rawBody = await request.text()
+    const event = constructStripeEvent(rawBody, request.headers.get('stripe-signature'))
+
+    // 2. Apply it once
+    const outcome = await handleStripeEvent(event)
+    logInfo('Stripe webhook handled', { eventId: event.id, type: event.type, outcome }, undefined, context.requestId)
+
+    return apiSuccess({ received: true, outcome }, 200, context.requestId)
+  } catch (error: any) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+    const message = error.message || 'Internal server error'
+
+    if (statusCode >= 500) {
+      logError('Stripe webhook failed', error as Error, undefined, undefined, context.requestId)
+    }
+    return apiError(message, statusCode, context.requestId)
+  }
+}
@@ -1,43 +1,188 @@
-// TODO: Create appointment calendar component
-// TODO: Display calendar view (month/week/day)
-// TODO: Show available time slots for providers
-// TODO: Allow booking new appointments
-// TODO: Display existing appointments with status
-// TODO: Add filtering by provider/patient
-// TODO: Handle timezone conversions
-// TODO: Add drag-and-drop for rescheduling
-// TODO: Show appointment details on click
-// TODO: Integrate with Google Calendar
-
 'use client'
 
-import { useState } from 'react'
+/**
+ * Appointment Calendar
+ *
+ * Week view of a doctor's open slots from /api/doctors/[id]/slots.
+ * Times are shown in the viewer's local timezone; the server applies
+ * availability, existing bookings, buffers and (for patients) the
+ * clinic's booking window.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { addDays, addWeeks, format, isBefore, isSameDay, startOfDay, startOfWeek } from 'date-fns'
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
 
-// TODO: Implement appointment calendar component
-export function AppointmentCalendar({ userId, role }: { userId: string; role: 'patient' | 'provider' }) {
-  const [selectedDate, setSelectedDate] = useState(new Date())
-  const [appointments, setAppointments] = useState<any[]>([])
+export interface CalendarSlot {
+  start: string
+  end: string
+}
+
+interface AppointmentCalendarProps {
+  doctorId: string
+  duration?: number // minutes; defaults to the clinic's visit duration
+  selectedSlot: CalendarSlot | null
+  onSelectSlot: (slot: CalendarSlot) => void
+}
+
+export function AppointmentCalendar({
+  doctorId,
+  duration,
+  selectedSlot,
+  onSelectSlot,
+}: AppointmentCalendarProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [slots, setSlots] = useState<CalendarSlot[]>([])
+  const [doctorTimezone, setDoctorTimezone] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart])
+  const viewerTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const isCurrentWeek = !isBefore(startOfWeek(new Date(), { weekStartsOn: 1 }), weekStart)
 
-  // TODO: Fetch appointments for selected date
   useEffect(() => {
-    // TODO: Query appointments from API
-    // TODO: Filter by date and user role
-  }, [selectedDate, userId, role])
+    let cancelled = false
+
+    const fetchSlots = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          from: weekStart.toISOString(),
+          to: addWeeks(weekStart, 1).toISOString(),
+        })
+        if (duration) {
+          params.set('duration', String(duration))
+        }
+
+        const response = await fetch(`/api/doctors/${doctorId}/slots?${params}`, {
+          credentials: 'include',
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load available times')
+        }
 
-  // TODO: Implement book appointment
-  const bookAppointment = async (timeSlot: Date, providerId: string) => {
-    // TODO: Check availability
-    // TODO: Create appointment via API
-    // TODO: Show confirmation
-  }
+        if (!cancelled) {
+          setSlots(data.slots || [])
+          setDoctorTimezone(data.timezone || null)
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setSlots([])
+          setError(err.message || 'Failed to load available times')
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchSlots()
+    return () => {
+      cancelled = true
+    }
+  }, [doctorId, duration, weekStart])
+
+  const slotsByDay = useMemo(
+    () =>
+      days.map((day) =>
+        slots.filter((slot) => isSameDay(new Date(slot.start), day))
+      ),
+    [days, slots]
+  )
 
   return (
-    <div className="appointment-calendar">
-      {/* TODO: Add calendar UI with date picker */}
-      {/* TODO: Display time slots */}
-      {/* TODO: Show existing appointments */}
-      {/* TODO: Add booking functionality */}
+    <div className="space-y-4">
+      {/* Week navigation */}
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setWeekStart((prev) => addWeeks(prev, -1))}
+          disabled={isCurrentWeek || loading}
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-medium">
+            {format(days[0], 'MMM d')} – {format(days[6], 'MMM d, yyyy')}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Times shown in {viewerTimezone}
+            {doctorTimezone && doctorTimezone !== viewerTimezone && ` (doctor is in ${doctorTimezone})`}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setWeekStart((prev) => addWeeks(prev, 1))}
+          disabled={loading}
+          aria-label="Next week"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Loading available times...
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+          {days.map((day, index) => {
+            const daySlots = slotsByDay[index]
+            const isPastDay = isBefore(day, startOfDay(new Date()))
+
+            return (
+              <div key={day.toISOString()} className="space-y-2">
+                <div className="text-center border-b pb-2">
+                  <p className="text-xs uppercase text-muted-foreground">{format(day, 'EEE')}</p>
+                  <p className="font-semibold">{format(day, 'd')}</p>
+                </div>
+                {daySlots.length === 0 ? (
+                  <p className="text-xs text-center text-muted-foreground py-2">
+                    {isPastDay ? '—' : 'No openings'}
+                  </p>
+                ) : (
+                  <div className="flex flex-col gap-1">
+                    {daySlots.map((slot) => {
+                      const isSelected = selectedSlot?.start === slot.start
+                      return (
+                        <Button
+                          key={slot.start}
+                          type="button"
+                          size="sm"
+                          variant={isSelected ? 'default' : 'outline'}
+                          className={cn('w-full', isSelected && 'ring-2 ring-primary ring-offset-1')}
+                          onClick={() => onSelectSlot(slot)}
+                          aria-pressed={isSelected}
+                        >
+                          {format(new Date(slot.start), 'h:mm a')}
+                        </Button>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {!loading && !error && slots.length === 0 && (
+        <p className="text-sm text-center text-muted-foreground">
+          No open times this week. Try the next week.
+        </p>
+      )}
     </div>
   )
 }
-
@@ -1,61 +1,327 @@
-// TODO: Create real-time chat component
-// TODO: Connect to Firestore for real-time messages
-// TODO: Display message history with pagination
-// TODO: Add message input with file attachment support
-// TODO: Show typing indicators
-// TODO: Display read receipts
-// TODO: Add message encryption/decryption
-// TODO: Support emoji reactions
-// TODO: Add message search functionality
-// TODO: Handle message delivery status
-
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+/**
+ * Chat
+ *
+ * Live view of a doctor–patient message thread. History is paged from
+ * /api/messages/threads/[id]/messages (newest first, "Load earlier" for
+ * more); new messages and read receipts arrive over the thread's SSE
+ * stream and are merged by message id.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { format, isToday, parseISO } from 'date-fns'
+import { Check, CheckCheck, Loader2, Paperclip, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+export interface ChatAttachment {
+  id: string
+  fileName: string
+  fileType: string
+  fileSize: number
+}
+
+export interface ChatMessage {
+  id: string
+  threadId: string
+  senderId: string
+  senderRole: string
+  content: string
+  attachments: ChatAttachment[]
+  read: boolean
+  readAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface ChatProps {
+  threadId: string
+  userId: string
+  className?: string
+}
+
+// Oldest first, ties broken by id (matches the server's ordering)
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) =>
+  a.createdAt === b.createdAt ? a.id.localeCompare(b.id) : a.createdAt.localeCompare(b.createdAt)
 
-// TODO: Implement chat component
-export function Chat({ chatId, userId }: { chatId: string; userId: string }) {
-  const [messages, setMessages] = useState<any[]>([])
+function mergeMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(current.map((message) => [message.id, message]))
+  for (const message of incoming) {
+    byId.set(message.id, message)
+  }
+  return Array.from(byId.values()).sort(byCreatedAt)
+}
+
+const formatTimestamp = (value: string) => {
+  const date = parseISO(value)
+  return isToday(date) ? format(date, 'h:mm a') : format(date, 'MMM d, h:mm a')
+}
+
+export function Chat({ threadId, userId, className }: ChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const [connected, setConnected] = useState(false)
+  const [error, setError] = useState<string | null>(null)
   const [newMessage, setNewMessage] = useState('')
+  const [sending, setSending] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const lastReadMarkRef = useRef<string | null>(null)
+
+  const scrollToBottom = () => {
+    setTimeout(() => {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }, 50)
+  }
+
+  // Load the latest page, then subscribe to changes from that point on
+  useEffect(() => {
+    let eventSource: EventSource | null = null
+    let cancelled = false
 
-  // TODO: Set up Firestore real-time listener
+    const start = async () => {
+      setLoading(true)
+      setError(null)
+      // Resume from server timestamps rather than the local clock
+      let since = new Date(0).toISOString()
+
+      try {
+        const response = await fetch(`/api/messages/threads/${threadId}/messages`, {
+          credentials: 'include',
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load messages')
+        }
+        if (cancelled) return
+
+        const page: ChatMessage[] = data.messages || []
+        for (const message of page) {
+          if (message.updatedAt > since) since = message.updatedAt
+        }
+        setMessages(mergeMessages([], page))
+        setNextCursor(data.nextCursor || null)
+        scrollToBottom()
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load messages')
+        return
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+
+      eventSource = new EventSource(
+        `/api/messages/threads/${threadId}/stream?since=${encodeURIComponent(since)}`,
+        { withCredentials: true }
+      )
+      eventSource.onopen = () => setConnected(true)
+      eventSource.onerror = () => setConnected(false) // EventSource reconnects on its own
+      eventSource.onmessage = (event) => {
+        const payload = JSON.parse(event.data)
+        if (payload.type !== 'message') return
+
+        setMessages((prev) => {
+          // Read receipts update messages already on screen; only new ones scroll
+          if (!prev.some((message) => message.id === payload.message.id)) scrollToBottom()
+          return mergeMessages(prev, [payload.message])
+        })
+      }
+    }
+
+    start()
+    return () => {
+      cancelled = true
+      eventSource?.close()
+      setConnected(false)
+    }
+  }, [threadId])
+
+  // Mark the other party's messages read whenever new ones are shown
+  const latestIncoming = [...messages].reverse().find((message) => message.senderId !== userId && !message.read)
   useEffect(() => {
-    // TODO: Subscribe to messages collection
-    // TODO: Update messages state on new messages
-    // TODO: Clean up listener on unmount
-  }, [chatId])
-
-  // TODO: Implement send message
-  const sendMessage = async () => {
-    // TODO: Encrypt message content
-    // TODO: Save message to Firestore
-    // TODO: Clear input field
-    // TODO: Scroll to bottom
+    if (!latestIncoming || lastReadMarkRef.current === latestIncoming.id) return
+    lastReadMarkRef.current = latestIncoming.id
+
+    fetch(`/api/messages/threads/${threadId}/read`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ upTo: latestIncoming.createdAt }),
+    }).catch((err) => console.error('Failed to mark messages read:', err))
+  }, [latestIncoming, threadId])
+
+  const loadOlder = async () => {
+    if (!nextCursor) return
+
+    setLoadingOlder(true)
+    try {
+      const response = await fetch(
+        `/api/messages/threads/${threadId}/messages?cursor=${encodeURIComponent(nextCursor)}`,
+        { credentials: 'include' }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load messages')
+      }
+      setMessages((prev) => mergeMessages(prev, data.messages || []))
+      setNextCursor(data.nextCursor || null)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load messages')
+    } finally {
+      setLoadingOlder(false)
+    }
   }
 
+  const sendMessage = useCallback(async () => {
+    const content = newMessage.trim()
+    if (!content) return
+
+    setSending(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/messages/threads/${threadId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ content }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message')
+      }
+
+      setMessages((prev) => mergeMessages(prev, [data.message]))
+      setNewMessage('')
+      scrollToBottom()
+    } catch (err: any) {
+      setError(err.message || 'Failed to send message')
+    } finally {
+      setSending(false)
+    }
+  }, [newMessage, threadId])
+
+  const openAttachment = async (attachment: ChatAttachment) => {
+    try {
+      const response = await fetch(`/api/files/${attachment.id}/download`, {
+        credentials: 'include',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open attachment')
+      }
+      window.open(data.downloadUrl, '_blank', 'noopener,noreferrer')
+    } catch (err: any) {
+      setError(err.message || 'Failed to open attachment')
+    }
+  }
+
+  // Read receipt shown under the user's most recent message
+  const lastOwnMessage = [...messages].reverse().find((message) => message.senderId === userId)
+
   return (
-    <div className="chat-container">
-      {/* TODO: Add message list */}
-      <div className="messages">
-        {messages.map((message) => (
-          <div key={message.id} className="message">
-            {/* TODO: Display message content, timestamp, read status */}
+    <div className={cn('flex flex-col min-h-0', className)}>
+      {/* Message list */}
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading messages...
           </div>
-        ))}
+        ) : (
+          <>
+            {nextCursor && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={loadOlder} disabled={loadingOlder}>
+                  {loadingOlder && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load earlier messages
+                </Button>
+              </div>
+            )}
+            {messages.length === 0 && (
+              <p className="text-sm text-center text-muted-foreground py-12">No messages yet.</p>
+            )}
+            {messages.map((message) => {
+              const isOwn = message.senderId === userId
+              return (
+                <div key={message.id} className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}>
+                  <div
+                    className={cn(
+                      'max-w-xs lg:max-w-md rounded-lg px-4 py-2',
+                      isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                    )}
+                  >
+                    <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                    {message.attachments.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        {message.attachments.map((attachment) => (
+                          <button
+                            key={attachment.id}
+                            type="button"
+                            onClick={() => openAttachment(attachment)}
+                            className="flex items-center gap-1 text-xs underline underline-offset-2"
+                          >
+                            <Paperclip className="h-3 w-3" />
+                            {attachment.fileName}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <p
+                      className={cn(
+                        'flex items-center gap-1 text-xs mt-1',
+                        isOwn ? 'text-primary-foreground/70 justify-end' : 'text-muted-foreground'
+                      )}
+                    >
+                      {formatTimestamp(message.createdAt)}
+                      {isOwn &&
+                        (message.read ? (
+                          <CheckCheck className="h-3 w-3" aria-label="Read" />
+                        ) : (
+                          <Check className="h-3 w-3" aria-label="Sent" />
+                        ))}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+            {lastOwnMessage?.read && lastOwnMessage.readAt && (
+              <p className="text-xs text-right text-muted-foreground">
+                Read {formatTimestamp(lastOwnMessage.readAt)}
+              </p>
+            )}
+          </>
+        )}
         <div ref={messagesEndRef} />
       </div>
-      {/* TODO: Add message input */}
-      <div className="message-input">
-        <input
+
+      {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+
+      {/* Message input */}
+      <div className="flex items-end gap-2 pt-4">
+        <Textarea
           value={newMessage}
           onChange={(e) => setNewMessage(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              sendMessage()
+            }
+          }}
           placeholder="Type a message..."
+          rows={2}
+          maxLength={10000}
+          disabled={sending || loading}
+          className="resize-none"
         />
-        <button onClick={sendMessage}>Send</button>
+        <Button onClick={sendMessage} disabled={sending || loading || !newMessage.trim()} aria-label="Send message">
+          {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
       </div>
+      {!loading && !connected && !error && (
+        <p className="text-xs text-muted-foreground mt-1">Reconnecting to live updates...</p>
+      )}
     </div>
   )
 }
-
@@ -6,7 +6,7 @@
 // TODO: Support templates and snippets
 // TODO: Add provider signature
 // TODO: Export to PDF
-// TODO: Version history
+// Version history: see components/visit-notes/NoteRevisionHistory.tsx
 // TODO: Validation for required fields
 
 'use client'
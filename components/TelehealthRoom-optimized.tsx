@@ -13,11 +13,12 @@
 "use client"
 
 import { useState, useEffect, useRef, useCallback } from "react"
-import { getUserMedia, getDisplayMedia, addMediaTracksToPeer, removeMediaTracksFromPeer, createOffer, createAnswer, setRemoteDescription } from "@/lib/webrtc/peer-connection"
+import { getUserMedia, getDisplayMedia, addMediaTracksToPeer, removeMediaTracksFromPeer } from "@/lib/webrtc/peer-connection"
 import { createOptimizedPeerConnection } from "@/lib/webrtc/peer-connection-optimized"
 import { createOptimizedAudioStreamer } from "@/lib/webrtc/audio-capture-optimized"
 import { createNetworkQualityMonitor, type NetworkQuality } from "@/lib/webrtc/network-quality"
 import { createSignalingChannel } from "@/lib/webrtc/signaling"
+import { createPerfectNegotiation, isPolitePeer } from "@/lib/webrtc/negotiation"
 import { preloadIceServers } from "@/lib/webrtc/ice-servers"
 import { useAuth } from "@/contexts/AuthContext"
 import { getFirestoreClient } from "@/lib/firestore/client"
@@ -174,9 +175,6 @@ export function TelehealthRoom({
         optimizedPeerConnectionRef.current = optimizedPeer
         const peerConnection = optimizedPeer.peerConnection
 
-        // Add local tracks
-        addMediaTracksToPeer(peerConnection, stream)
-
         // Handle remote stream with smooth updates
         peerConnection.ontrack = (event) => {
           if (remoteVideoRef.current && event.streams[0]) {
@@ -214,40 +212,15 @@ export function TelehealthRoom({
         const signaling = createSignalingChannel(sessionId, user.id, remoteUserId)
         signalingRef.current = signaling
 
-        // Handle ICE candidates
-        peerConnection.onicecandidate = async (event) => {
-          if (event.candidate && signaling) {
-            await signaling.sendIceCandidate(event.candidate.toJSON())
-          }
-        }
-
-        // Listen for remote ICE candidates
-        const iceCandidateUnsubscribe = signaling.onIceCandidate(async (candidate) => {
-          if (peerConnection.remoteDescription) {
-            await peerConnection.addIceCandidate(new RTCIceCandidate(candidate))
-          }
+        // Perfect negotiation handles offers, answers, ICE candidates,
+        // renegotiation and ICE restarts in both directions
+        const negotiation = createPerfectNegotiation(peerConnection, signaling, {
+          polite: isPolitePeer(user.id, remoteUserId),
         })
-        signalingCleanups.push(iceCandidateUnsubscribe)
+        signalingCleanups.push(negotiation.close)
 
-        // Determine if we should initiate
-        const isInitiator = user.id < remoteUserId
-
-        if (isInitiator) {
-          const offer = await createOffer(peerConnection)
-          await signaling.sendOffer(offer)
-
-          const answerUnsubscribe = signaling.onRemoteAnswer(async (answer) => {
-            await setRemoteDescription(peerConnection, answer)
-          })
-          signalingCleanups.push(answerUnsubscribe)
-        } else {
-          const offerUnsubscribe = signaling.onRemoteOffer(async (offer) => {
-            await setRemoteDescription(peerConnection, offer)
-            const answer = await createAnswer(peerConnection)
-            await signaling.sendAnswer(answer)
-          })
-          signalingCleanups.push(offerUnsubscribe)
-        }
+        // Add local tracks (triggers the initial negotiation)
+        addMediaTracksToPeer(peerConnection, stream)
 
         // Start optimized audio streaming to STT (using Web Worker)
         const audioStreamer = createOptimizedAudioStreamer(stream, {
@@ -1,9 +1,10 @@
 "use client"
 
 import { useState, useEffect, useRef, useCallback } from "react"
-import { createPeerConnection, getUserMedia, getDisplayMedia, addMediaTracksToPeer, removeMediaTracksFromPeer, createOffer, createAnswer, setRemoteDescription } from "@/lib/webrtc/peer-connection"
+import { createPeerConnection, getUserMedia, getDisplayMedia, addMediaTracksToPeer, removeMediaTracksFromPeer } from "@/lib/webrtc/peer-connection"
 import { createAudioStreamer, sendAudioChunkToSTT } from "@/lib/webrtc/audio-capture"
 import { createSignalingChannel } from "@/lib/webrtc/signaling"
+import { createPerfectNegotiation, isPolitePeer } from "@/lib/webrtc/negotiation"
 import { useAuth } from "@/contexts/AuthContext"
 import { getFirestoreClient } from "@/lib/firestore/client"
 import { collection, query, where, orderBy, limit, onSnapshot, addDoc, serverTimestamp } from "firebase/firestore"
@@ -91,9 +92,6 @@ export function TelehealthRoom({
         const peerConnection = await createPeerConnection()
         peerConnectionRef.current = peerConnection
 
-        // Add local tracks
-        addMediaTracksToPeer(peerConnection, stream)
-
         // Handle remote stream
         peerConnection.ontrack = (event) => {
           if (remoteVideoRef.current && event.streams[0]) {
@@ -112,40 +110,15 @@ export function TelehealthRoom({
         const signaling = createSignalingChannel(sessionId, user.id, remoteUserId)
         signalingRef.current = signaling
 
-        // Handle ICE candidates
-        peerConnection.onicecandidate = async (event) => {
-          if (event.candidate && signaling) {
-            await signaling.sendIceCandidate(event.candidate.toJSON())
-          }
-        }
-
-        // Listen for remote ICE candidates
-        const iceCandidateUnsubscribe = signaling.onIceCandidate(async (candidate) => {
-          if (peerConnection.remoteDescription) {
-            await peerConnection.addIceCandidate(new RTCIceCandidate(candidate))
-          }
+        // Perfect negotiation handles offers, answers, ICE candidates,
+        // renegotiation and ICE restarts in both directions
+        const negotiation = createPerfectNegotiation(peerConnection, signaling, {
+          polite: isPolitePeer(user.id, remoteUserId),
         })
-        signalingCleanups.push(iceCandidateUnsubscribe)
-
-        // Determine if we should initiate
-        const isInitiator = user.id < remoteUserId
-
-        if (isInitiator) {
-          const offer = await createOffer(peerConnection)
-          await signaling.sendOffer(offer)
-
-          const answerUnsubscribe = signaling.onRemoteAnswer(async (answer) => {
-            await setRemoteDescription(peerConnection, answer)
-          })
-          signalingCleanups.push(answerUnsubscribe)
-        } else {
-          const offerUnsubscribe = signaling.onRemoteOffer(async (offer) => {
-            await setRemoteDescription(peerConnection, offer)
-            const answer = await createAnswer(peerConnection)
-            await signaling.sendAnswer(answer)
-          })
-          signalingCleanups.push(offerUnsubscribe)
-        }
+        signalingCleanups.push(negotiation.close)
+
+        // Add local tracks (triggers the initial negotiation)
+        addMediaTracksToPeer(peerConnection, stream)
 
         // Start audio streaming to STT
         const audioStreamer = createAudioStreamer(stream, async (chunk: ArrayBuffer) => {
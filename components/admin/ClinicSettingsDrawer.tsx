@@ -1,13 +1,14 @@
 "use client"
 
 import * as React from "react"
-import { X, Settings, Clock, Stethoscope, FileText } from "lucide-react"
+import { X, Settings, Clock, Stethoscope, FileText, CalendarCheck, MessageSquare, ShieldCheck } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/components/ui/use-toast"
 
 interface ClinicSettingsDrawerProps {
@@ -18,8 +19,40 @@ interface ClinicSettingsDrawerProps {
 
 interface ClinicSettings {
   defaultVisitDuration: number
+  appointmentBufferMinutes: number
   specialtiesEnabled: string[]
   aiNoteTemplates: string[]
+  selfSchedulingEnabled: boolean
+  minBookingNoticeHours: number
+  maxBookingAdvanceDays: number
+  rescheduleCutoffHours: number
+  cancellationCutoffHours: number
+  messageSlaHours: number
+  clinicalMessageSlaHours: number
+  refillMessageSlaHours: number
+  billingMessageSlaHours: number
+  mfaRequiredForDoctors: boolean
+  mfaRequiredForStaff: boolean
+  mfaRequiredForAdmins: boolean
+}
+
+const DEFAULT_SETTINGS: ClinicSettings = {
+  defaultVisitDuration: 30,
+  appointmentBufferMinutes: 0,
+  specialtiesEnabled: [],
+  aiNoteTemplates: [],
+  selfSchedulingEnabled: true,
+  minBookingNoticeHours: 2,
+  maxBookingAdvanceDays: 60,
+  rescheduleCutoffHours: 24,
+  cancellationCutoffHours: 24,
+  messageSlaHours: 24,
+  clinicalMessageSlaHours: 4,
+  refillMessageSlaHours: 48,
+  billingMessageSlaHours: 72,
+  mfaRequiredForDoctors: false,
+  mfaRequiredForStaff: false,
+  mfaRequiredForAdmins: false,
 }
 
 export function ClinicSettingsDrawer({
@@ -30,11 +63,7 @@ export function ClinicSettingsDrawer({
   const { toast } = useToast()
   const [loading, setLoading] = React.useState(false)
   const [saving, setSaving] = React.useState(false)
-  const [settings, setSettings] = React.useState<ClinicSettings>({
-    defaultVisitDuration: 30,
-    specialtiesEnabled: [],
-    aiNoteTemplates: [],
-  })
+  const [settings, setSettings] = React.useState<ClinicSettings>(DEFAULT_SETTINGS)
   const [newSpecialty, setNewSpecialty] = React.useState("")
   const [newTemplate, setNewTemplate] = React.useState("")
 
@@ -42,11 +71,7 @@ export function ClinicSettingsDrawer({
     if (isOpen && clinicId) {
       fetchClinicSettings()
     } else {
-      setSettings({
-        defaultVisitDuration: 30,
-        specialtiesEnabled: [],
-        aiNoteTemplates: [],
-      })
+      setSettings(DEFAULT_SETTINGS)
     }
   }, [isOpen, clinicId])
 
@@ -55,15 +80,28 @@ export function ClinicSettingsDrawer({
 
     setLoading(true)
     try {
-      const response = await fetch(`/api/admin/clinics/${clinicId}`, {
+      const response = await fetch(`/api/admin/clinics/${clinicId}/settings`, {
         credentials: "include",
       })
       if (response.ok) {
         const data = await response.json()
         setSettings({
           defaultVisitDuration: data.settings?.defaultVisitDuration || 30,
+          appointmentBufferMinutes: data.settings?.appointmentBufferMinutes || 0,
           specialtiesEnabled: data.settings?.specialtiesEnabled || [],
           aiNoteTemplates: data.settings?.aiNoteTemplates || [],
+          selfSchedulingEnabled: data.settings?.selfSchedulingEnabled ?? true,
+          minBookingNoticeHours: data.settings?.minBookingNoticeHours ?? 2,
+          maxBookingAdvanceDays: data.settings?.maxBookingAdvanceDays ?? 60,
+          rescheduleCutoffHours: data.settings?.rescheduleCutoffHours ?? 24,
+          cancellationCutoffHours: data.settings?.cancellationCutoffHours ?? 24,
+          messageSlaHours: data.settings?.messageSlaHours ?? 24,
+          clinicalMessageSlaHours: data.settings?.clinicalMessageSlaHours ?? 4,
+          refillMessageSlaHours: data.settings?.refillMessageSlaHours ?? 48,
+          billingMessageSlaHours: data.settings?.billingMessageSlaHours ?? 72,
+          mfaRequiredForDoctors: data.settings?.mfaRequiredForDoctors ?? false,
+          mfaRequiredForStaff: data.settings?.mfaRequiredForStaff ?? false,
+          mfaRequiredForAdmins: data.settings?.mfaRequiredForAdmins ?? false,
         })
       }
     } catch (error) {
@@ -88,13 +126,16 @@ export function ClinicSettingsDrawer({
       })
 
       if (response.ok) {
+        const data = await response.json()
+        setSettings(data.settings)
         toast({
           title: "Success",
           description: "Clinic settings updated successfully",
         })
         onClose()
       } else {
-        throw new Error("Failed to update settings")
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update settings")
       }
     } catch (error: any) {
       toast({
@@ -226,6 +267,250 @@ export function ClinicSettingsDrawer({
                       Recommended: 15, 30, 45, or 60 minutes
                     </p>
                   </div>
+                  <div className="space-y-2 mt-4">
+                    <Label htmlFor="buffer">Buffer between appointments (minutes)</Label>
+                    <Input
+                      id="buffer"
+                      type="number"
+                      min="0"
+                      max="60"
+                      step="5"
+                      value={settings.appointmentBufferMinutes}
+                      onChange={(e) =>
+                        setSettings((prev) => ({
+                          ...prev,
+                          appointmentBufferMinutes: parseInt(e.target.value) || 0,
+                        }))
+                      }
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Patient Self-Scheduling */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <CalendarCheck className="h-5 w-5" />
+                    Patient Self-Scheduling
+                  </CardTitle>
+                  <CardDescription>
+                    Booking window and change cutoffs for patients in the portal
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="selfScheduling">Allow patients to book online</Label>
+                      <Switch
+                        id="selfScheduling"
+                        checked={settings.selfSchedulingEnabled}
+                        onCheckedChange={(checked) =>
+                          setSettings((prev) => ({ ...prev, selfSchedulingEnabled: checked }))
+                        }
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="minNotice">Minimum notice (hours)</Label>
+                        <Input
+                          id="minNotice"
+                          type="number"
+                          min="0"
+                          max="168"
+                          value={settings.minBookingNoticeHours}
+                          disabled={!settings.selfSchedulingEnabled}
+                          onChange={(e) =>
+                            setSettings((prev) => ({
+                              ...prev,
+                              minBookingNoticeHours: parseInt(e.target.value) || 0,
+                            }))
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxAdvance">Book up to (days ahead)</Label>
+                        <Input
+                          id="maxAdvance"
+                          type="number"
+                          min="1"
+                          max="365"
+                          value={settings.maxBookingAdvanceDays}
+                          disabled={!settings.selfSchedulingEnabled}
+                          onChange={(e) =>
+                            setSettings((prev) => ({
+                              ...prev,
+                              maxBookingAdvanceDays: parseInt(e.target.value) || 1,
+                            }))
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="rescheduleCutoff">Reschedule cutoff (hours before)</Label>
+                        <Input
+                          id="rescheduleCutoff"
+                          type="number"
+                          min="0"
+                          max="168"
+                          value={settings.rescheduleCutoffHours}
+                          disabled={!settings.selfSchedulingEnabled}
+                          onChange={(e) =>
+                            setSettings((prev) => ({
+                              ...prev,
+                              rescheduleCutoffHours: parseInt(e.target.value) || 0,
+                            }))
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cancellationCutoff">Cancellation cutoff (hours before)</Label>
+                        <Input
+                          id="cancellationCutoff"
+                          type="number"
+                          min="0"
+                          max="168"
+                          value={settings.cancellationCutoffHours}
+                          onChange={(e) =>
+                            setSettings((prev) => ({
+                              ...prev,
+                              cancellationCutoffHours: parseInt(e.target.value) || 0,
+                            }))
+                          }
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Inside the cutoff windows, patients must contact the clinic to make changes
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Inbox Response Times */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5" />
+                    Inbox Response Times
+                  </CardTitle>
+                  <CardDescription>
+                    Hours the care team has to reply to a patient message before it is escalated
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="messageSla">General & scheduling</Label>
+                      <Input
+                        id="messageSla"
+                        type="number"
+                        min="1"
+                        max="168"
+                        value={settings.messageSlaHours}
+                        onChange={(e) =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            messageSlaHours: parseInt(e.target.value) || 1,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="clinicalSla">Clinical</Label>
+                      <Input
+                        id="clinicalSla"
+                        type="number"
+                        min="1"
+                        max="168"
+                        value={settings.clinicalMessageSlaHours}
+                        onChange={(e) =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            clinicalMessageSlaHours: parseInt(e.target.value) || 1,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="refillSla">Prescription refills</Label>
+                      <Input
+                        id="refillSla"
+                        type="number"
+                        min="1"
+                        max="168"
+                        value={settings.refillMessageSlaHours}
+                        onChange={(e) =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            refillMessageSlaHours: parseInt(e.target.value) || 1,
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="billingSla">Billing</Label>
+                      <Input
+                        id="billingSla"
+                        type="number"
+                        min="1"
+                        max="168"
+                        value={settings.billingMessageSlaHours}
+                        onChange={(e) =>
+                          setSettings((prev) => ({
+                            ...prev,
+                            billingMessageSlaHours: parseInt(e.target.value) || 1,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Multi-Factor Authentication */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    Multi-Factor Authentication
+                  </CardTitle>
+                  <CardDescription>
+                    Require an authenticator app code at sign-in; users without one enroll at their next login
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="mfaDoctors">Require MFA for doctors</Label>
+                      <Switch
+                        id="mfaDoctors"
+                        checked={settings.mfaRequiredForDoctors}
+                        onCheckedChange={(checked) =>
+                          setSettings((prev) => ({ ...prev, mfaRequiredForDoctors: checked }))
+                        }
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="mfaStaff">Require MFA for nurses and staff</Label>
+                      <Switch
+                        id="mfaStaff"
+                        checked={settings.mfaRequiredForStaff}
+                        onCheckedChange={(checked) =>
+                          setSettings((prev) => ({ ...prev, mfaRequiredForStaff: checked }))
+                        }
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="mfaAdmins">Require MFA for admins</Label>
+                      <Switch
+                        id="mfaAdmins"
+                        checked={settings.mfaRequiredForAdmins}
+                        onCheckedChange={(checked) =>
+                          setSettings((prev) => ({ ...prev, mfaRequiredForAdmins: checked }))
+                        }
+                      />
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
 
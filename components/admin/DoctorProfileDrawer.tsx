@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { format } from "date-fns"
+import { UserPermissionsPanel } from "./UserPermissionsPanel"
 
 interface DoctorProfileDrawerProps {
   isOpen: boolean
@@ -18,7 +19,15 @@ interface DoctorProfileDrawerProps {
 
 interface DoctorData {
   id: string
+  userId: string
+  name: string
   email: string
+  user: {
+    status: string
+    phone: string | null
+    locale: string
+    lastSignInAt: string | null
+  }
   specialization: string | null
   licenseNumber: string
   npiNumber: string | null
@@ -27,6 +36,7 @@ interface DoctorData {
   timezone: string
   bio: string | null
   approved: boolean
+  clinicId: string
   createdAt: string
   availability: Array<{
     dayOfWeek: string
@@ -164,11 +174,12 @@ export function DoctorProfileDrawer({
             </div>
           ) : doctor ? (
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="licensure">Licensure</TabsTrigger>
                 <TabsTrigger value="activity">Activity</TabsTrigger>
                 <TabsTrigger value="availability">Availability</TabsTrigger>
+                <TabsTrigger value="permissions">Permissions</TabsTrigger>
               </TabsList>
 
               {/* Overview Tab */}
@@ -188,6 +199,10 @@ export function DoctorProfileDrawer({
                       <p className="text-sm text-muted-foreground">Email</p>
                       <p className="font-medium">{doctor.email}</p>
                     </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Phone</p>
+                      <p className="font-medium">{doctor.user.phone || "Not provided"}</p>
+                    </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Specialization</p>
                       <p className="font-medium">
@@ -217,6 +232,32 @@ export function DoctorProfileDrawer({
                   </CardContent>
                 </Card>
 
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Account</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Status</p>
+                      <Badge variant={doctor.user.status === "ACTIVE" ? "default" : "secondary"}>
+                        {doctor.user.status.charAt(0) + doctor.user.status.slice(1).toLowerCase()}
+                      </Badge>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Locale</p>
+                      <p className="font-medium">{doctor.user.locale}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Last Sign-in</p>
+                      <p className="font-medium">
+                        {doctor.user.lastSignInAt
+                          ? format(new Date(doctor.user.lastSignInAt), "PPp")
+                          : "Never"}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardHeader>
                     <CardTitle>Clinic Assignment</CardTitle>
@@ -438,6 +479,11 @@ export function DoctorProfileDrawer({
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Permissions Tab */}
+              <TabsContent value="permissions" className="space-y-4 mt-4">
+                <UserPermissionsPanel userId={doctor.userId} />
+              </TabsContent>
             </Tabs>
           ) : (
             <div className="flex items-center justify-center h-full">
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { format } from "date-fns"
+import { UserPermissionsPanel } from "./UserPermissionsPanel"
 
 interface PatientProfileDrawerProps {
   isOpen: boolean
@@ -17,9 +18,16 @@ interface PatientProfileDrawerProps {
 
 interface PatientData {
   id: string
+  userId: string
   firstName: string
   lastName: string
   email: string | null
+  user: {
+    status: string
+    phone: string | null
+    locale: string
+    lastSignInAt: string | null
+  }
   dateOfBirth: string
   phone: string | null
   sex: string
@@ -73,7 +81,7 @@ interface PatientData {
   }>
   labOrders: Array<{
     id: string
-    testName: string | null
+    tests: string[]
     status: string
     createdAt: string
   }>
@@ -185,11 +193,12 @@ export function PatientProfileDrawer({
             </div>
           ) : patient ? (
             <Tabs defaultValue="demographics" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="demographics">Demographics</TabsTrigger>
                 <TabsTrigger value="insurance">Insurance</TabsTrigger>
                 <TabsTrigger value="flags">Flags & Risks</TabsTrigger>
                 <TabsTrigger value="history">History</TabsTrigger>
+                <TabsTrigger value="permissions">Permissions</TabsTrigger>
               </TabsList>
 
               {/* Demographics Tab */}
@@ -233,7 +242,33 @@ export function PatientProfileDrawer({
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Phone</p>
-                      <p className="font-medium">{patient.phone || "Not provided"}</p>
+                      <p className="font-medium">{patient.user.phone || patient.phone || "Not provided"}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Account</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Status</p>
+                      <Badge variant={patient.user.status === "ACTIVE" ? "default" : "secondary"}>
+                        {patient.user.status.charAt(0) + patient.user.status.slice(1).toLowerCase()}
+                      </Badge>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Locale</p>
+                      <p className="font-medium">{patient.user.locale}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Last Sign-in</p>
+                      <p className="font-medium">
+                        {patient.user.lastSignInAt
+                          ? format(new Date(patient.user.lastSignInAt), "PPp")
+                          : "Never"}
+                      </p>
                     </div>
                   </CardContent>
                 </Card>
@@ -514,7 +549,7 @@ export function PatientProfileDrawer({
                             className="flex items-center justify-between p-3 border rounded"
                           >
                             <div>
-                              <p className="font-medium">{lab.testName || "Lab Test"}</p>
+                              <p className="font-medium">{lab.tests.join(", ") || "Lab Test"}</p>
                               <p className="text-sm text-muted-foreground">
                                 {format(new Date(lab.createdAt), "PPp")}
                               </p>
@@ -529,6 +564,11 @@ export function PatientProfileDrawer({
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Permissions Tab */}
+              <TabsContent value="permissions" className="space-y-4 mt-4">
+                <UserPermissionsPanel userId={patient.userId} />
+              </TabsContent>
             </Tabs>
           ) : (
             <div className="flex items-center justify-center h-full">
@@ -0,0 +1,273 @@
+"use client"
+
+import * as React from "react"
+import { KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { format } from "date-fns"
+
+interface UserPermissionsPanelProps {
+  userId: string
+}
+
+interface UserPermissions {
+  userId: string
+  role: string
+  clinicRole: { id: string; name: string } | null
+  granted: string[]
+  denied: string[]
+  updatedAt: string | null
+  effectivePermissions: string[]
+  overridable: boolean
+}
+
+interface ClinicRole {
+  id: string
+  name: string
+  description: string | null
+  permissions: string[]
+}
+
+type Override = "default" | "grant" | "deny"
+
+// Select value for "no custom role"; Radix Select does not allow empty values
+const BUILT_IN_ROLE = "built-in"
+
+const NEXT_OVERRIDE: Record<Override, Override> = {
+  default: "grant",
+  grant: "deny",
+  deny: "default",
+}
+
+function groupByResource(permissions: string[]): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>()
+  for (const permission of permissions) {
+    const [resource] = permission.split(":")
+    groups.set(resource, [...(groups.get(resource) || []), permission])
+  }
+  return Array.from(groups.entries())
+}
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())
+}
+
+/**
+ * Effective permissions of a clinic user, with their custom role and
+ * individual grants/denials for admins to edit
+ */
+export function UserPermissionsPanel({ userId }: UserPermissionsPanelProps) {
+  const { toast } = useToast()
+  const [loading, setLoading] = React.useState(false)
+  const [saving, setSaving] = React.useState(false)
+  const [permissions, setPermissions] = React.useState<UserPermissions | null>(null)
+  const [roles, setRoles] = React.useState<ClinicRole[]>([])
+  const [assignable, setAssignable] = React.useState<string[]>([])
+  const [clinicRoleId, setClinicRoleId] = React.useState<string>(BUILT_IN_ROLE)
+  const [overrides, setOverrides] = React.useState<Record<string, Override>>({})
+
+  const applyPermissions = React.useCallback((data: UserPermissions) => {
+    setPermissions(data)
+    setClinicRoleId(data.clinicRole?.id || BUILT_IN_ROLE)
+    setOverrides({
+      ...Object.fromEntries(data.granted.map((permission) => [permission, "grant" as Override])),
+      ...Object.fromEntries(data.denied.map((permission) => [permission, "deny" as Override])),
+    })
+  }, [])
+
+  const fetchPermissions = React.useCallback(async () => {
+    setLoading(true)
+    try {
+      const [permissionsResponse, rolesResponse] = await Promise.all([
+        fetch(`/api/admin/users/${userId}/permissions`, { credentials: "include" }),
+        fetch("/api/admin/roles", { credentials: "include" }),
+      ])
+      if (permissionsResponse.ok) {
+        const data = await permissionsResponse.json()
+        applyPermissions(data.permissions)
+      }
+      if (rolesResponse.ok) {
+        const data = await rolesResponse.json()
+        setRoles(data.roles || [])
+        setAssignable(data.assignablePermissions || [])
+      }
+    } catch (error) {
+      console.error("Failed to fetch user permissions:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId, applyPermissions])
+
+  React.useEffect(() => {
+    fetchPermissions()
+  }, [fetchPermissions])
+
+  const cycleOverride = (permission: string) => {
+    setOverrides((prev) => ({
+      ...prev,
+      [permission]: NEXT_OVERRIDE[prev[permission] || "default"],
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/permissions`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          clinicRoleId: clinicRoleId === BUILT_IN_ROLE ? null : clinicRoleId,
+          granted: Object.keys(overrides).filter((permission) => overrides[permission] === "grant"),
+          denied: Object.keys(overrides).filter((permission) => overrides[permission] === "deny"),
+        }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        applyPermissions(data.permissions)
+        toast({
+          title: "Success",
+          description: "Permissions updated successfully",
+        })
+      } else {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update permissions")
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update permissions",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-muted-foreground">Loading...</div>
+  }
+
+  if (!permissions) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Permissions could not be loaded
+      </p>
+    )
+  }
+
+  const effective = new Set(permissions.effectivePermissions)
+  const listed = permissions.overridable ? assignable : permissions.effectivePermissions
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Role
+          </CardTitle>
+          <CardDescription>
+            A custom role replaces the permissions of the built-in {permissions.role} role
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {permissions.overridable ? (
+            <>
+              <Label htmlFor="clinicRole">Custom role</Label>
+              <Select value={clinicRoleId} onValueChange={setClinicRoleId}>
+                <SelectTrigger id="clinicRole">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BUILT_IN_ROLE}>
+                    Built-in role ({permissions.role})
+                  </SelectItem>
+                  {roles.map((role) => (
+                    <SelectItem key={role.id} value={role.id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Admin permissions cannot be overridden
+            </p>
+          )}
+          {permissions.updatedAt && (
+            <p className="text-xs text-muted-foreground">
+              Last changed {format(new Date(permissions.updatedAt), "PPp")}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Effective Permissions</CardTitle>
+          <CardDescription>
+            {permissions.overridable
+              ? "Click an override to cycle between default, granted and denied. Changes apply after saving."
+              : "Permissions held through the built-in admin role"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {groupByResource(listed).map(([resource, group]) => (
+            <div key={resource} className="space-y-2">
+              <p className="text-sm font-medium">{formatLabel(resource)}</p>
+              {group.map((permission) => {
+                const override = overrides[permission] || "default"
+                return (
+                  <div
+                    key={permission}
+                    className="flex items-center justify-between p-2 border rounded"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{formatLabel(permission.split(":")[1])}</span>
+                      <Badge variant={effective.has(permission) ? "default" : "secondary"}>
+                        {effective.has(permission) ? "Allowed" : "Not allowed"}
+                      </Badge>
+                    </div>
+                    {permissions.overridable && (
+                      <Button
+                        type="button"
+                        variant={override === "deny" ? "destructive" : override === "grant" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => cycleOverride(permission)}
+                      >
+                        {override === "grant" ? "Granted" : override === "deny" ? "Denied" : "Default"}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {permissions.overridable && (
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Permissions"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Plus, Search, Sparkles, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+
+type CodeSystem = "ICD10" | "CPT"
+
+interface CatalogCode {
+  code: string
+  system: CodeSystem
+  description: string
+}
+
+interface SuggestedCode extends CatalogCode {
+  score: number
+  matched: string[]
+}
+
+interface CodePickerProps {
+  system: CodeSystem
+  title: string
+  codes: string[]
+  suggestFrom: string // Note text the suggestions are ranked against (assessment and plan)
+  onChange: (codes: string[]) => void
+}
+
+const SEARCH_DELAY_MS = 250
+
+const SYSTEM_LABELS: Record<CodeSystem, string> = { ICD10: "ICD-10-CM", CPT: "CPT" }
+
+// Search text that may be a code; /api/codes checks its format
+const CODE_LIKE = /^(?=.*\d)[A-Z0-9.]{3,8}$/i
+
+/**
+ * Pick codes for a visit note: search the catalogue by code or description,
+ * add ranked suggestions for the note's assessment and plan, or type a code
+ * the catalogue lacks (flagged for review)
+ */
+export function CodePicker({ system, title, codes, suggestFrom, onChange }: CodePickerProps) {
+  const { toast } = useToast()
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<CatalogCode[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [suggestions, setSuggestions] = useState<SuggestedCode[] | null>(null)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+  const [descriptions, setDescriptions] = useState<Record<string, string>>({})
+  const [uncatalogued, setUncatalogued] = useState<string[]>([])
+  const [isAdding, setIsAdding] = useState(false)
+
+  // Descriptions for the note's codes; codes outside the catalogue are flagged
+  useEffect(() => {
+    const unknown = codes.filter((code) => !(code in descriptions) && !uncatalogued.includes(code))
+    if (unknown.length === 0) return
+
+    const params = new URLSearchParams({ codes: unknown.join(","), system })
+    fetch(`/api/codes?${params}`, { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error("Lookup failed"))))
+      .then((data: { codes: CatalogCode[]; invalid: string[] }) => {
+        setDescriptions((current) => ({
+          ...current,
+          ...Object.fromEntries(data.codes.map((entry) => [entry.code, entry.description])),
+        }))
+        setUncatalogued((current) => Array.from(new Set([...current, ...data.invalid])))
+      })
+      .catch((error) => console.error("Error looking up codes:", error))
+  }, [codes, system, descriptions, uncatalogued])
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const params = new URLSearchParams({ q: query, system, limit: "10" })
+        const response = await fetch(`/api/codes?${params}`, { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setResults(data.codes)
+        }
+      } catch (error) {
+        console.error("Error searching codes:", error)
+      } finally {
+        setIsSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [query, system])
+
+  const addCode = (entry: CatalogCode) => {
+    setDescriptions((current) => ({ ...current, [entry.code]: entry.description }))
+    if (!codes.includes(entry.code)) {
+      onChange([...codes, entry.code])
+    }
+    setQuery("")
+  }
+
+  // Add the code typed in the search box, even if the catalogue lacks it
+  const addTypedCode = async () => {
+    setIsAdding(true)
+    try {
+      const params = new URLSearchParams({ codes: query.trim(), system })
+      const response = await fetch(`/api/codes?${params}`, { credentials: "include" })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to look up code")
+      }
+
+      const [entry] = data.codes as CatalogCode[]
+      const [code] = data.uncatalogued as string[]
+      if (entry) {
+        addCode(entry)
+      } else if (code) {
+        setUncatalogued((current) => Array.from(new Set([...current, code])))
+        if (!codes.includes(code)) {
+          onChange([...codes, code])
+        }
+        setQuery("")
+      } else {
+        throw new Error(`"${query.trim()}" is not a valid ${SYSTEM_LABELS[system]} code`)
+      }
+    } catch (error) {
+      toast({
+        title: "Invalid Code",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const removeCode = (code: string) => {
+    onChange(codes.filter((c) => c !== code))
+    setUncatalogued((current) => current.filter((c) => c !== code))
+  }
+
+  const handleSuggest = async () => {
+    if (!suggestFrom.trim()) {
+      toast({
+        title: "Nothing to suggest from",
+        description: "Write the assessment or plan first.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSuggesting(true)
+    try {
+      const response = await fetch("/api/codes/suggest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ text: suggestFrom, system, limit: 8 }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to suggest codes")
+      }
+      setSuggestions(data.suggestions)
+    } catch (error) {
+      toast({
+        title: "Suggestion Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{title}</CardTitle>
+            <CardDescription>
+              Search the catalogue, or type any {SYSTEM_LABELS[system]} code and add it.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSuggest} disabled={isSuggesting}>
+            {isSuggesting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            Suggest
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {codes.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {codes.map((code) => (
+              <Badge
+                key={code}
+                variant={uncatalogued.includes(code) ? "secondary" : "outline"}
+                className="gap-1"
+                title={uncatalogued.includes(code) ? "Not in the code catalogue" : descriptions[code]}
+              >
+                {code}
+                <button type="button" onClick={() => removeCode(code)} aria-label={`Remove ${code}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No codes selected.</p>
+        )}
+        {uncatalogued.some((code) => codes.includes(code)) && (
+          <p className="text-sm text-muted-foreground">
+            Highlighted codes are not in the catalogue. Check them before billing.
+          </p>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by code or description..."
+            className="pl-8"
+          />
+          {isSearching && <Loader2 className="absolute right-2 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        {CODE_LIKE.test(query.trim()) && !isSearching && !results.some((entry) => entry.code === query.trim().toUpperCase()) && (
+          <Button variant="outline" size="sm" onClick={addTypedCode} disabled={isAdding}>
+            {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add &quot;{query.trim().toUpperCase()}&quot;
+          </Button>
+        )}
+        {results.length > 0 && (
+          <ul className="max-h-[240px] overflow-y-auto rounded-md border divide-y">
+            {results.map((entry) => (
+              <li key={entry.code}>
+                <button
+                  type="button"
+                  onClick={() => addCode(entry)}
+                  disabled={codes.includes(entry.code)}
+                  className="flex w-full items-start gap-2 p-2 text-left text-sm hover:bg-muted disabled:opacity-50"
+                >
+                  <span className="font-mono font-medium">{entry.code}</span>
+                  <span className="text-muted-foreground">{entry.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {suggestions && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Suggested from the assessment and plan</p>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No catalogue codes match the note text.</p>
+            ) : (
+              <ul className="space-y-1">
+                {suggestions.map((suggestion) => (
+                  <li key={suggestion.code} className="flex items-start justify-between gap-2 text-sm">
+                    <div>
+                      <span className="font-mono font-medium">{suggestion.code}</span>{" "}
+                      <span className="text-muted-foreground">{suggestion.description}</span>
+                      <div className="text-xs text-muted-foreground">
+                        Matched: {suggestion.matched.join(", ")} • {Math.round(suggestion.score * 100)}%
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => addCode(suggestion)}
+                      disabled={codes.includes(suggestion.code)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,277 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { History, Loader2, RotateCcw, Sparkles } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+
+interface RevisionSummary {
+  revision: number
+  aiGenerated: boolean
+  aiModel?: string | null
+  authorId: string
+  restoredFromRevision?: number | null
+  createdAt: string
+}
+
+interface DiffHunk {
+  type: "equal" | "insert" | "delete"
+  text: string
+}
+
+interface RevisionDiff {
+  from: RevisionSummary
+  to: RevisionSummary
+  sections: {
+    section: string
+    changed: boolean
+    hunks: DiffHunk[]
+    insertedWords: number
+    deletedWords: number
+  }[]
+  diagnosis: { added: string[]; removed: string[] }
+  procedures: { added: string[]; removed: string[] }
+  summary: {
+    changedSections: number
+    insertedWords: number
+    deletedWords: number
+    editRatio: number
+  }
+}
+
+interface NoteRevisionHistoryProps {
+  noteId: string
+  currentRevision: number
+  canRestore: boolean // Drafts only
+  onRestored: (note: any) => void
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  chiefComplaint: "Chief Complaint",
+  subjective: "Subjective",
+  objective: "Objective",
+  assessment: "Assessment",
+  plan: "Plan",
+}
+
+export function NoteRevisionHistory({ noteId, currentRevision, canRestore, onRestored }: NoteRevisionHistoryProps) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([])
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<number | null>(null)
+  const [diff, setDiff] = useState<RevisionDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState<number | null>(null)
+
+  const fetchDiff = useCallback(
+    async (fromRevision: number | null, toRevision: number | null) => {
+      const params = new URLSearchParams()
+      if (fromRevision) params.set("from", String(fromRevision))
+      if (toRevision) params.set("to", String(toRevision))
+
+      const response = await fetch(`/api/visit-notes/${noteId}/revisions/diff?${params}`, {
+        credentials: "include",
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setDiff(data.diff)
+        setFrom(data.diff.from.revision)
+        setTo(data.diff.to.revision)
+      }
+    },
+    [noteId]
+  )
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/visit-notes/${noteId}/revisions`, { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setRevisions(data.revisions)
+        }
+        await fetchDiff(null, null)
+      } catch (error) {
+        console.error("Error fetching revisions:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [noteId, currentRevision, fetchDiff])
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(revision)
+    try {
+      const response = await fetch(`/api/visit-notes/${noteId}/revisions/${revision}/restore`, {
+        method: "POST",
+        credentials: "include",
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore revision. Please try again.")
+      }
+
+      onRestored(data)
+      toast({
+        title: "Restored",
+        description: `Draft restored to revision ${revision}.`,
+        variant: "success",
+      })
+    } catch (error) {
+      toast({
+        title: "Restore Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const revisionLabel = (revision: RevisionSummary) =>
+    `Revision ${revision.revision}${revision.aiGenerated ? " (AI)" : ""} • ${format(
+      parseISO(revision.createdAt),
+      "MMM d, h:mm a"
+    )}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          <CardTitle className="text-lg">Version History</CardTitle>
+        </div>
+        <CardDescription>Every save is kept. Compare any two revisions or restore an earlier draft.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {revisions.map((revision) => (
+                <div key={revision.revision} className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">Revision {revision.revision}</span>
+                  {revision.aiGenerated && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Sparkles className="h-3 w-3" />
+                      {revision.aiModel || "AI"}
+                    </Badge>
+                  )}
+                  {revision.restoredFromRevision && (
+                    <Badge variant="outline">Restored from {revision.restoredFromRevision}</Badge>
+                  )}
+                  {revision.revision === currentRevision && <Badge>Current</Badge>}
+                  <span className="text-muted-foreground ml-auto">
+                    {format(parseISO(revision.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                  </span>
+                  {canRestore && revision.revision !== currentRevision && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(revision.revision)}
+                      disabled={restoring !== null}
+                    >
+                      {restoring === revision.revision ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {revisions.length > 1 && (
+              <div className="space-y-4 border-t pt-4">
+                <div className="grid gap-3 md:grid-cols-2">
+                  {[
+                    { value: from, onChange: (value: number) => fetchDiff(value, to) },
+                    { value: to, onChange: (value: number) => fetchDiff(from, value) },
+                  ].map((picker, index) => (
+                    <Select
+                      key={index}
+                      value={picker.value ? String(picker.value) : undefined}
+                      onValueChange={(value) => picker.onChange(Number(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={index === 0 ? "From" : "To"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions.map((revision) => (
+                          <SelectItem key={revision.revision} value={String(revision.revision)}>
+                            {revisionLabel(revision)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                </div>
+
+                {diff && (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      {diff.summary.changedSections} section{diff.summary.changedSections === 1 ? "" : "s"} changed •{" "}
+                      {diff.summary.insertedWords} words added • {diff.summary.deletedWords} words removed •{" "}
+                      {Math.round(diff.summary.editRatio * 100)}% edited
+                    </p>
+
+                    {diff.sections
+                      .filter((section) => section.changed)
+                      .map((section) => (
+                        <div key={section.section} className="space-y-1">
+                          <p className="text-sm font-medium">{SECTION_LABELS[section.section] || section.section}</p>
+                          <p className="whitespace-pre-wrap rounded-md border p-3 text-sm leading-relaxed">
+                            {section.hunks.map((hunk, index) => (
+                              <span
+                                key={index}
+                                className={cn(
+                                  hunk.type === "insert" && "bg-green-100 dark:bg-green-950/40",
+                                  hunk.type === "delete" && "bg-red-100 line-through dark:bg-red-950/40"
+                                )}
+                              >
+                                {hunk.text}
+                              </span>
+                            ))}
+                          </p>
+                        </div>
+                      ))}
+
+                    {(["diagnosis", "procedures"] as const).map((field) =>
+                      diff[field].added.length > 0 || diff[field].removed.length > 0 ? (
+                        <div key={field} className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="font-medium">{field === "diagnosis" ? "Diagnosis codes" : "Procedure codes"}:</span>
+                          {diff[field].added.map((code) => (
+                            <Badge key={`+${code}`} variant="outline" className="border-green-500">
+                              +{code}
+                            </Badge>
+                          ))}
+                          {diff[field].removed.map((code) => (
+                            <Badge key={`-${code}`} variant="outline" className="border-red-500 line-through">
+                              {code}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : null
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
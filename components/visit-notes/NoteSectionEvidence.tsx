@@ -0,0 +1,140 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { AlertCircle, Quote, Sparkles } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import type { EvidenceSpan, SOAPEvidence, SOAPSectionName } from "@/lib/ai/soap-schema"
+
+export interface NoteEvidence {
+  transcript: string
+  sections: SOAPEvidence["sections"]
+  failedSections: SOAPEvidence["failedSections"]
+}
+
+interface NoteSectionEvidenceProps {
+  section: SOAPSectionName
+  evidence: NoteEvidence
+}
+
+/**
+ * Split the transcript into plain and highlighted runs
+ */
+function highlightSegments(transcript: string, spans: EvidenceSpan[]) {
+  const segments: { text: string; highlighted: boolean }[] = []
+  let cursor = 0
+
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(span.start, cursor)
+    const end = Math.min(span.end, transcript.length)
+    if (end <= start) continue
+
+    if (start > cursor) {
+      segments.push({ text: transcript.slice(cursor, start), highlighted: false })
+    }
+    segments.push({ text: transcript.slice(start, end), highlighted: true })
+    cursor = end
+  }
+
+  if (cursor < transcript.length) {
+    segments.push({ text: transcript.slice(cursor), highlighted: false })
+  }
+  return segments
+}
+
+/**
+ * The AI draft's statements for one SOAP section, with the transcript
+ * sentences each was drawn from
+ */
+export function NoteSectionEvidence({ section, evidence }: NoteSectionEvidenceProps) {
+  const [selected, setSelected] = useState<number | null>(null)
+  const firstHighlightRef = useRef<HTMLElement>(null)
+  const result = evidence.sections[section]
+  const statements = result.status === "complete" ? result.statements : []
+  const spans = selected !== null ? statements[selected]?.evidence ?? [] : []
+
+  const segments = highlightSegments(evidence.transcript, spans)
+  const firstHighlighted = segments.findIndex((segment) => segment.highlighted)
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+  }, [selected])
+
+  if (result.status === "failed") {
+    return (
+      <div className="mt-6 flex items-start gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900 dark:border-yellow-800 dark:bg-yellow-950/20 dark:text-yellow-100">
+        <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+        <span>The AI draft could not generate this section; it has no transcript evidence.</span>
+      </div>
+    )
+  }
+
+  if (statements.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mt-6 grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Sparkles className="h-4 w-4 text-muted-foreground" />
+          AI draft statements
+        </div>
+        <ul className="space-y-1">
+          {statements.map((statement, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => setSelected(selected === index ? null : index)}
+                className={cn(
+                  "w-full rounded-md border p-2 text-left text-sm transition-colors hover:bg-muted",
+                  selected === index && "border-primary bg-muted"
+                )}
+              >
+                <span>{statement.text}</span>
+                {statement.source === "unsupported" && (
+                  <Badge variant="destructive" className="ml-2">
+                    Unsupported
+                  </Badge>
+                )}
+                {statement.source === "context" && (
+                  <Badge variant="secondary" className="ml-2">
+                    From patient context
+                  </Badge>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Quote className="h-4 w-4 text-muted-foreground" />
+          Transcript
+        </div>
+        {selected === null ? (
+          <p className="text-sm text-muted-foreground">Select a statement to highlight its source in the transcript.</p>
+        ) : spans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This statement does not cite the transcript.</p>
+        ) : (
+          <div className="max-h-[300px] overflow-y-auto rounded-md border p-3 text-sm leading-relaxed whitespace-pre-wrap">
+            {segments.map((segment, index) =>
+              segment.highlighted ? (
+                <mark
+                  key={index}
+                  ref={index === firstHighlighted ? firstHighlightRef : undefined}
+                  className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-800"
+                >
+                  {segment.text}
+                </mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
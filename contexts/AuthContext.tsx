@@ -20,6 +20,9 @@
  * 3. Never breaks on undefined user (always null)
  * 4. Fetch failures treated as unauthenticated (graceful, stable)
  * 5. authReady boolean for components to wait for hydration
+ *
+ * Sign-in is two steps for users with MFA (or whose clinic requires it):
+ * signIn returns the challenge, and verifyMfa completes it with a code.
  */
 
 import { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from 'react'
@@ -40,6 +43,19 @@ interface AuthMeResponse {
   clinicId: string | null
 }
 
+/**
+ * Result of the password step of sign-in
+ */
+export type SignInResult =
+  | { status: 'authenticated'; user: AuthUser; message?: string }
+  | {
+      status: 'mfa_required'
+      challengeToken: string
+      enrollmentRequired: boolean // Clinic requires MFA; enroll before verifying
+      expiresAt: string
+      message?: string
+    }
+
 interface AuthContextType {
   user: AuthUser | null
   authenticated: boolean
@@ -50,6 +66,10 @@ interface AuthContextType {
   refresh: () => Promise<void>
   setUser: (user: AuthUser | null) => void
   clearError: () => void
+  // Sign-in (throw with the server's message on failure)
+  signIn: (email: string, password: string) => Promise<SignInResult>
+  verifyMfa: (challengeToken: string, code: string) => Promise<{ user: AuthUser; recoveryCodes?: string[] }>
+  startMfaEnrollment: (challengeToken: string) => Promise<{ secret: string; otpauthUrl: string }>
   // Helper functions
   isDoctor: () => boolean
   isPatient: () => boolean
@@ -150,6 +170,26 @@ async function fetchAuthStatus(
   }
 }
 
+/**
+ * POST to an auth endpoint, throwing the server's error message on failure
+ */
+async function postAuthJson(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+  return data
+}
+
 /**
  * Set unauthenticated state - this is a VALID state, not an error
  */
@@ -386,6 +426,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setError(null)
   }, [])
 
+  /**
+   * Password step of sign-in
+   * With MFA the session isn't set yet; the caller completes it with verifyMfa.
+   */
+  const signIn = useCallback(
+    async (email: string, password: string): Promise<SignInResult> => {
+      const data = await postAuthJson('/api/auth/login', { email, password })
+
+      if (data.mfaRequired) {
+        return {
+          status: 'mfa_required',
+          challengeToken: data.challengeToken,
+          enrollmentRequired: !!data.enrollmentRequired,
+          expiresAt: data.expiresAt,
+          message: data.message,
+        }
+      }
+
+      setUserDirect(data.user)
+      return { status: 'authenticated', user: data.user, message: data.message }
+    },
+    [setUserDirect]
+  )
+
+  // Second step: authenticator or recovery code (first code when enrolling)
+  const verifyMfa = useCallback(
+    async (challengeToken: string, code: string): Promise<{ user: AuthUser; recoveryCodes?: string[] }> => {
+      const data = await postAuthJson('/api/auth/mfa/challenge', { challengeToken, code })
+      setUserDirect(data.user)
+      return { user: data.user, recoveryCodes: data.recoveryCodes }
+    },
+    [setUserDirect]
+  )
+
+  // Secret for a challenge that requires enrollment
+  const startMfaEnrollment = useCallback(
+    async (challengeToken: string): Promise<{ secret: string; otpauthUrl: string }> => {
+      const data = await postAuthJson('/api/auth/mfa/challenge/enroll', { challengeToken })
+      return { secret: data.secret, otpauthUrl: data.otpauthUrl }
+    },
+    []
+  )
+
   // Helper functions - all safe with null checks
   const isDoctor = useCallback((): boolean => {
     try {
@@ -564,6 +647,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       refresh,
       setUser: setUserDirect,
       clearError,
+      signIn,
+      verifyMfa,
+      startMfaEnrollment,
       isDoctor,
       isPatient,
       isAdmin,
@@ -583,6 +669,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       refresh,
       setUserDirect,
       clearError,
+      signIn,
+      verifyMfa,
+      startMfaEnrollment,
       isDoctor,
       isPatient,
       isAdmin,
@@ -608,6 +697,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       refresh: async () => {},
       setUser: () => {},
       clearError: () => {},
+      signIn: async () => {
+        throw new Error('Authentication is unavailable')
+      },
+      verifyMfa: async () => {
+        throw new Error('Authentication is unavailable')
+      },
+      startMfaEnrollment: async () => {
+        throw new Error('Authentication is unavailable')
+      },
       isDoctor: () => false,
       isPatient: () => false,
       isAdmin: () => false,
@@ -653,6 +751,15 @@ export function useAuth(): AuthContextType {
       refresh: async () => {},
       setUser: () => {},
       clearError: () => {},
+      signIn: async () => {
+        throw new Error('Authentication is unavailable')
+      },
+      verifyMfa: async () => {
+        throw new Error('Authentication is unavailable')
+      },
+      startMfaEnrollment: async () => {
+        throw new Error('Authentication is unavailable')
+      },
       isDoctor: () => false,
       isPatient: () => false,
       isAdmin: () => false,
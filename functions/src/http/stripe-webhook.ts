@@ -1,22 +0,0 @@
-// TODO: HTTP Cloud Function for Stripe webhook events
-// TODO: Verify webhook signature
-// TODO: Handle payment_intent.succeeded
-// TODO: Handle customer.subscription.created/updated/deleted
-// TODO: Handle invoice.payment_succeeded/failed
-// TODO: Update database with payment/subscription status
-// TODO: Send confirmation emails
-// TODO: Return 200 status to acknowledge receipt
-
-import { Request, Response } from 'express'
-
-// TODO: Implement Stripe webhook handler
-// export const stripeWebhook = functions.https.onRequest(async (req: Request, res: Response) => {
-//   // TODO: Verify webhook signature
-//   // TODO: Parse event type
-//   // TODO: Handle different event types:
-//   //   - payment_intent.succeeded: update payment status
-//   //   - subscription events: update subscription in database
-//   //   - invoice events: send notifications
-//   // TODO: Return 200 status
-// })
-
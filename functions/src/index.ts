@@ -11,6 +11,5 @@ export { labResultReminder } from './scheduled/lab-result-reminder'
 export { medicationRefillCheckin } from './scheduled/medication-refill-checkin'
 
 // TODO: Import and export HTTP functions
-// export { stripeWebhook } from './http/stripe-webhook'
 // export { emailNotifications } from './http/email-notifications'
 
@@ -40,7 +40,7 @@ export const followUp7d = async (cloudEvent: CloudEvent) => {
                 email: true,
                 firstName: true,
                 lastName: true,
-                phoneNumber: true,
+                phone: true,
               },
             },
           },
@@ -113,15 +113,15 @@ export const followUp7d = async (cloudEvent: CloudEvent) => {
         }
 
         // Send SMS if phone number available
-        if (consultation.patient.user.phoneNumber) {
+        if (consultation.patient.user.phone) {
           const smsText = smsTemplates.followUp7d(patientName)
           const smsResult = await sendSMS({
-            to: consultation.patient.user.phoneNumber,
+            to: consultation.patient.user.phone,
             body: smsText,
           })
 
           if (smsResult.success) {
-            console.log(`Sent 7d follow-up SMS to ${consultation.patient.user.phoneNumber}`)
+            console.log(`Sent 7d follow-up SMS to ${consultation.patient.user.phone}`)
           } else {
             console.error(`Failed to send SMS: ${smsResult.error}`)
           }
@@ -15,20 +15,18 @@ export const labResultReminder = async (cloudEvent: CloudEvent) => {
   let errors = 0
 
   try {
-    // Query lab orders with results ready (status = RESULTS_READY)
-    // and results were added more than 24 hours ago but not yet viewed
+    // Query lab orders whose results were released to the patient
+    // more than 24 hours ago but not yet viewed
     const oneDayAgo = new Date()
     oneDayAgo.setDate(oneDayAgo.getDate() - 1)
 
     const labOrders = await prisma.labOrder.findMany({
       where: {
-        status: 'RESULTS_READY',
-        results: {
+        releasedAt: {
           not: null,
-        },
-        updatedAt: {
           lte: oneDayAgo, // Results have been available for at least 24 hours
         },
+        patientViewedAt: null,
       },
       include: {
         patient: {
@@ -39,7 +37,7 @@ export const labResultReminder = async (cloudEvent: CloudEvent) => {
                 email: true,
                 firstName: true,
                 lastName: true,
-                phoneNumber: true,
+                phone: true,
               },
             },
           },
@@ -96,15 +94,15 @@ export const labResultReminder = async (cloudEvent: CloudEvent) => {
         }
 
         // Send SMS if phone number available
-        if (labOrder.patient.user.phoneNumber) {
+        if (labOrder.patient.user.phone) {
           const smsText = smsTemplates.labResultReminder(patientName, testNames)
           const smsResult = await sendSMS({
-            to: labOrder.patient.user.phoneNumber,
+            to: labOrder.patient.user.phone,
             body: smsText,
           })
 
           if (smsResult.success) {
-            console.log(`Sent lab result reminder SMS to ${labOrder.patient.user.phoneNumber}`)
+            console.log(`Sent lab result reminder SMS to ${labOrder.patient.user.phone}`)
           } else {
             console.error(`Failed to send SMS: ${smsResult.error}`)
           }
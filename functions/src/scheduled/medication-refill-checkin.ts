@@ -30,7 +30,7 @@ export const medicationRefillCheckin = async (cloudEvent: CloudEvent) => {
                 email: true,
                 firstName: true,
                 lastName: true,
-                phoneNumber: true,
+                phone: true,
               },
             },
           },
@@ -113,15 +113,15 @@ export const medicationRefillCheckin = async (cloudEvent: CloudEvent) => {
         }
 
         // Send SMS if phone number available
-        if (medication.patient.user.phoneNumber) {
+        if (medication.patient.user.phone) {
           const smsText = smsTemplates.medicationRefill(patientName, medication.name, daysRemaining)
           const smsResult = await sendSMS({
-            to: medication.patient.user.phoneNumber,
+            to: medication.patient.user.phone,
             body: smsText,
           })
 
           if (smsResult.success) {
-            console.log(`Sent medication refill reminder SMS to ${medication.patient.user.phoneNumber}`)
+            console.log(`Sent medication refill reminder SMS to ${medication.patient.user.phone}`)
           } else {
             console.error(`Failed to send SMS: ${smsResult.error}`)
           }
@@ -0,0 +1,124 @@
+/**
+ * React Hook for Streaming SOAP Note Generation
+ *
+ * Reads the Server-Sent Events of POST /api/ai/soap/stream (EventSource
+ * cannot POST): sections appear as they complete, drafts hold the raw
+ * output of sections still generating. cancel() aborts the request, which
+ * stops generation on the server.
+ */
+
+import { useState, useCallback, useRef, useEffect } from "react"
+import type { SOAPGenerationEvent, SOAPGenerationProgress } from "@/lib/ai/parallel-soap-generation"
+import type { SOAPSectionName, SOAPSectionResult, StructuredSOAPNote } from "@/lib/ai/soap-schema"
+import type { AiSoapInput } from "@/lib/validation/schemas"
+
+type SOAPStreamEvent =
+  | SOAPGenerationEvent
+  | { type: "started"; requestId: string; total: number }
+  | { type: "complete"; note: StructuredSOAPNote }
+  | { type: "error"; message: string }
+
+export type SOAPStreamStatus = "idle" | "streaming" | "complete" | "failed" | "cancelled"
+
+export function useSOAPStream() {
+  const [status, setStatus] = useState<SOAPStreamStatus>("idle")
+  const [sections, setSections] = useState<Partial<Record<SOAPSectionName, SOAPSectionResult>>>({})
+  const [drafts, setDrafts] = useState<Partial<Record<SOAPSectionName, string>>>({})
+  const [progress, setProgress] = useState<SOAPGenerationProgress | null>(null)
+  const [note, setNote] = useState<StructuredSOAPNote | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const handleEvent = useCallback((event: SOAPStreamEvent) => {
+    switch (event.type) {
+      case "started":
+        setProgress({ completed: 0, total: event.total })
+        break
+      case "delta":
+        setDrafts((current) => ({ ...current, [event.section]: (current[event.section] ?? "") + event.text }))
+        break
+      case "section":
+        setSections((current) => ({ ...current, [event.section]: event.result }))
+        setProgress(event.progress)
+        break
+      case "metadata":
+        setProgress(event.progress)
+        break
+      case "complete":
+        setNote(event.note)
+        setStatus("complete")
+        break
+      case "error":
+        setError(event.message)
+        setStatus("failed")
+        break
+    }
+  }, [])
+
+  const start = useCallback(
+    async (input: AiSoapInput) => {
+      abortRef.current?.abort()
+      const controller = new AbortController()
+      abortRef.current = controller
+
+      setStatus("streaming")
+      setSections({})
+      setDrafts({})
+      setProgress(null)
+      setNote(null)
+      setError(null)
+
+      try {
+        const response = await fetch("/api/ai/soap/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(input),
+          signal: controller.signal,
+        })
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || "Failed to generate SOAP note")
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+        let buffer = ""
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+
+          buffer += value
+          const messages = buffer.split("\n\n")
+          buffer = messages.pop() ?? ""
+          for (const message of messages) {
+            // Comment lines (": keep-alive") carry no data
+            const data = message.startsWith("data: ") ? message.slice("data: ".length) : null
+            if (data) handleEvent(JSON.parse(data))
+          }
+        }
+
+        // Stream ended without a result
+        setStatus((current) => (current === "streaming" ? "failed" : current))
+      } catch (err) {
+        if (controller.signal.aborted) {
+          setStatus("cancelled")
+          return
+        }
+        setError((err as Error).message)
+        setStatus("failed")
+      } finally {
+        if (abortRef.current === controller) abortRef.current = null
+      }
+    },
+    [handleEvent]
+  )
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  // Stop generating when the component unmounts
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  return { status, sections, drafts, progress, note, error, start, cancel }
+}
@@ -1,13 +1,13 @@
 /**
  * Gemini Client Utility
  * 
- * Centralized Vertex AI client for Gemini 1.5 Flash
- * Provides optimized configuration for speed and cost
+ * Centralized Vertex AI client for the vertex LLM provider
+ * (lib/ai/llm-provider.ts), which picks the Gemini model per clinic
  * 
  * Note: This assumes Vertex AI client is properly initialized elsewhere
  * The actual client initialization should match the pattern:
  * const vertexAI = new VertexAI({ project, location })
- * const model = vertexAI.preview.getGenerativeModel({ model: 'gemini-1.5-flash' })
+ * const model = vertexAI.preview.getGenerativeModel({ model })
  */
 
 /**
@@ -43,28 +43,3 @@ export function getVertexAIClient() {
     }
   }
 }
-
-/**
- * Get optimized Gemini 1.5 Flash model configuration
- */
-export function getOptimizedGeminiConfig() {
-  return {
-    model: 'gemini-1.5-flash',
-    generationConfig: {
-      temperature: 0, // Deterministic for speed
-      maxOutputTokens: 512, // Shorter for individual sections
-      responseMimeType: 'application/json' as const, // JSON mode
-    },
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_MEDICAL' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
-      },
-      {
-        category: 'HARM_CATEGORY_DANGEROUS_CONTENT' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
-      },
-    ],
-  }
-}
-
@@ -0,0 +1,67 @@
+/**
+ * Local LLM Fixtures
+ *
+ * Canned responses for the local provider (lib/ai/llm-provider.ts), keyed
+ * by task ('soap.subjective') or by task and exact prompt
+ * (fixturePromptKey). The built-in set keeps SOAP generation working
+ * offline; AI_LOCAL_FIXTURES can point at a JSON file whose entries are
+ * merged over it. Object values are returned as JSON, for structured tasks.
+ */
+
+import { readFileSync } from 'fs'
+
+export type LocalFixtures = Record<string, string>
+
+export const DEFAULT_LOCAL_FIXTURES: LocalFixtures = {
+  // Section statements cite utterance numbers of whatever transcript is
+  // sent; citations past its last utterance come back as unsupported
+  'soap.subjective': JSON.stringify({
+    statements: [
+      { text: 'Patient reports a three-day history of sore throat and low-grade fever.', utterances: [0] },
+      { text: 'Denies cough or shortness of breath.', utterances: [1] },
+    ],
+  }),
+  'soap.objective': JSON.stringify({
+    statements: [
+      { text: 'Temperature 100.4°F.', utterances: [], fromContext: true },
+      { text: 'Pharynx erythematous without exudate. Lungs clear to auscultation.', utterances: [2] },
+    ],
+  }),
+  'soap.assessment': JSON.stringify({
+    statements: [{ text: 'Acute viral pharyngitis.', utterances: [2, 3] }],
+  }),
+  'soap.plan': JSON.stringify({
+    statements: [
+      { text: 'Supportive care with fluids, rest and acetaminophen as needed.', utterances: [3] },
+      { text: 'Return if symptoms worsen or persist beyond seven days.', utterances: [4] },
+    ],
+  }),
+  'soap.metadata': JSON.stringify({
+    risks: ['Progression to bacterial infection'],
+    followUp: 'Follow up in one week if symptoms persist',
+    billingCodes: ['J02.9', '99213'],
+  }),
+}
+
+let cachedFixtures: LocalFixtures | null = null
+
+/**
+ * Built-in fixtures merged with the AI_LOCAL_FIXTURES file, if set
+ */
+export function getLocalFixtures(): LocalFixtures {
+  if (cachedFixtures) {
+    return cachedFixtures
+  }
+
+  const fixtures = { ...DEFAULT_LOCAL_FIXTURES }
+  const path = process.env.AI_LOCAL_FIXTURES
+  if (path) {
+    const file = JSON.parse(readFileSync(path, 'utf8')) as Record<string, unknown>
+    for (const [key, value] of Object.entries(file)) {
+      fixtures[key] = typeof value === 'string' ? value : JSON.stringify(value)
+    }
+  }
+
+  cachedFixtures = fixtures
+  return fixtures
+}
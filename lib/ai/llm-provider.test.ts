@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createLocalLLMProvider, fixturePromptKey, isAbortError } from './llm-provider'
+
+const summarySchema = z.object({ summary: z.string() })
+
+function abortedSignal(): AbortSignal {
+  const controller = new AbortController()
+  controller.abort()
+  return controller.signal
+}
+
+describe('local provider', () => {
+  it('answers with the task fixture', async () => {
+    const llm = createLocalLLMProvider({ 'notes.title': 'Sore throat follow-up' })
+
+    const result = await llm.generate({ task: 'notes.title', prompt: 'Title this visit' })
+
+    expect(result.output).toBe('Sore throat follow-up')
+    expect(result.provider).toBe('local')
+    expect(result.usage.latencyMs).toBe(0)
+  })
+
+  it('prefers a fixture for the exact prompt over the task fixture', async () => {
+    const llm = createLocalLLMProvider({
+      'notes.title': 'Any visit',
+      [fixturePromptKey('notes.title', 'Title the asthma visit')]: 'Asthma review',
+    })
+
+    expect((await llm.generate({ task: 'notes.title', prompt: 'Title the asthma visit' })).output).toBe('Asthma review')
+    expect((await llm.generate({ task: 'notes.title', prompt: 'Title another visit' })).output).toBe('Any visit')
+  })
+
+  it('names the model and task when there is no fixture', async () => {
+    const llm = createLocalLLMProvider({})
+
+    const result = await llm.generate({ task: 'notes.title', prompt: 'Title this visit' })
+
+    expect(result.output).toBe(`[${llm.model}] notes.title`)
+  })
+
+  it('parses structured fixtures, including fenced JSON', async () => {
+    const llm = createLocalLLMProvider({ 'notes.summary': '```json\n{"summary": "Viral pharyngitis"}\n```' })
+
+    const result = await llm.generateStructured({ task: 'notes.summary', prompt: 'Summarize' }, summarySchema)
+
+    expect(result.output).toEqual({ summary: 'Viral pharyngitis' })
+  })
+
+  it('rejects structured output that is not JSON or does not match the schema', async () => {
+    const llm = createLocalLLMProvider({ 'notes.text': 'not json', 'notes.shape': '{"title": "Visit"}' })
+
+    await expect(llm.generateStructured({ task: 'notes.text', prompt: 'Summarize' }, summarySchema)).rejects.toThrow(
+      'Model returned invalid JSON for notes.text'
+    )
+    await expect(llm.generateStructured({ task: 'notes.shape', prompt: 'Summarize' }, summarySchema)).rejects.toThrow(
+      'Model response for notes.shape does not match the expected shape'
+    )
+  })
+
+  it('replays the fixture word by word to onToken', async () => {
+    const llm = createLocalLLMProvider({ 'notes.plan': 'Rest, fluids and acetaminophen as needed.' })
+    const chunks: string[] = []
+
+    const result = await llm.generate({ task: 'notes.plan', prompt: 'Plan', onToken: (text) => chunks.push(text) })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.join('')).toBe(result.output)
+  })
+
+  it('summarizes without a fixture by keeping whole sentences up to the target length', async () => {
+    const llm = createLocalLLMProvider({})
+
+    const result = await llm.summarize({
+      task: 'transcript.summary',
+      text: 'Sore throat for three days. No cough. Temperature is normal today.',
+      instructions: 'Summarize the visit',
+      targetLength: 40,
+    })
+
+    expect(result.output).toBe('Sore throat for three days. No cough.')
+  })
+
+  it('stops with an AbortError when the signal is aborted', async () => {
+    const llm = createLocalLLMProvider({ 'notes.title': 'Visit' })
+
+    const call = llm.generate({ task: 'notes.title', prompt: 'Title', signal: abortedSignal() })
+
+    await expect(call).rejects.toSatisfy(isAbortError)
+  })
+})
@@ -0,0 +1,317 @@
+/**
+ * LLM Providers
+ *
+ * Model backends behind the clinical AI features (SOAP generation,
+ * transcript summarization). Every provider supports the same three calls:
+ * - generate: free text
+ * - generateStructured: JSON, validated against a zod schema
+ * - summarize: shorten a text following the caller's instructions
+ *
+ * Providers:
+ * - vertex: Gemini models on Vertex AI (lib/ai/gemini-client.ts)
+ * - local: deterministic responses from fixtures (lib/ai/llm-fixtures.ts),
+ *   for tests and offline development; never calls out
+ *
+ * Clinics pick a model (lib/ai/models.ts) in their AI settings, resolved
+ * per request by lib/ai/llm.ts. AI_PROVIDER=local switches every clinic to
+ * the local provider.
+ *
+ * generate and generateStructured stream the raw output to onToken as it
+ * arrives when the caller passes one (both providers support it; the local
+ * provider replays its fixture word by word). An aborted signal stops the
+ * call with an AbortError.
+ */
+
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { getVertexAIClient } from './gemini-client'
+import { getLocalFixtures, type LocalFixtures } from './llm-fixtures'
+import { AI_MODELS, DEFAULT_AI_MODEL, LOCAL_AI_MODEL, type AIProviderName } from './models'
+
+export interface LLMRequest {
+  task: string // Stable label such as 'soap.subjective', for accounting and fixtures
+  prompt: string
+  temperature?: number
+  maxOutputTokens?: number
+  onToken?: (text: string) => void // Raw output chunks, as they arrive
+  signal?: AbortSignal
+}
+
+export interface LLMSummarizeRequest {
+  task: string
+  text: string
+  instructions: string // What to keep and how to phrase it
+  targetLength?: number // Characters
+  maxOutputTokens?: number
+  signal?: AbortSignal
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+  latencyMs: number
+}
+
+export interface LLMResult<T> {
+  output: T
+  provider: AIProviderName
+  model: string
+  usage: LLMUsage
+}
+
+export interface LLMProvider {
+  readonly name: AIProviderName
+  readonly model: string
+  generate(request: LLMRequest): Promise<LLMResult<string>>
+  generateStructured<T>(request: LLMRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<LLMResult<T>>
+  summarize(request: LLMSummarizeRequest): Promise<LLMResult<string>>
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 512
+const DEFAULT_SUMMARY_LENGTH = 3000
+
+/**
+ * Rough token count for providers that don't report one (1 token ≈ 4 chars)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('LLM request cancelled')
+    error.name = 'AbortError'
+    throw error
+  }
+}
+
+function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, task: string): T {
+  let json: unknown
+  try {
+    // Models sometimes wrap JSON in a markdown fence despite JSON mode
+    json = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''))
+  } catch {
+    throw new Error(`Model returned invalid JSON for ${task}`)
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    throw new Error(`Model response for ${task} does not match the expected shape: ${result.error.errors[0].message}`)
+  }
+  return result.data
+}
+
+function buildSummarizePrompt(request: LLMSummarizeRequest): string {
+  return `${request.instructions}
+
+Target length: Approximately ${request.targetLength ?? DEFAULT_SUMMARY_LENGTH} characters.
+
+Text:
+${request.text}
+
+Return ONLY the summary, no additional commentary or formatting.`
+}
+
+// ============================================================================
+// Vertex AI
+// ============================================================================
+
+const VERTEX_SAFETY_SETTINGS = [
+  {
+    category: 'HARM_CATEGORY_MEDICAL' as const,
+    threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
+  },
+  {
+    category: 'HARM_CATEGORY_DANGEROUS_CONTENT' as const,
+    threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
+  },
+]
+
+class VertexProvider implements LLMProvider {
+  readonly name = 'vertex' as const
+
+  constructor(readonly model: string) {}
+
+  private async call(
+    request: LLMRequest,
+    responseMimeType: 'text/plain' | 'application/json'
+  ): Promise<LLMResult<string>> {
+    throwIfAborted(request.signal)
+    const vertexAI = getVertexAIClient()
+    const model = vertexAI.preview.getGenerativeModel({ model: this.model })
+    const startedAt = Date.now()
+
+    const content = {
+      contents: [
+        {
+          role: 'user' as const,
+          parts: [{ text: request.prompt }],
+        },
+      ],
+      generationConfig: {
+        temperature: request.temperature ?? 0, // Deterministic for speed and consistency
+        maxOutputTokens: request.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        responseMimeType,
+      },
+      safetySettings: VERTEX_SAFETY_SETTINGS,
+    }
+
+    let text = ''
+    let usageMetadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined
+
+    if (request.onToken) {
+      const streamingResult = await model.generateContentStream(content)
+      for await (const chunk of streamingResult.stream) {
+        throwIfAborted(request.signal)
+        const delta: string = chunk.candidates?.[0]?.content?.parts?.[0]?.text || ''
+        if (delta) {
+          text += delta
+          request.onToken(delta)
+        }
+      }
+      usageMetadata = (await streamingResult.response).usageMetadata
+    } else {
+      const [aiResponse] = await model.generateContent(content)
+      text = aiResponse.response.candidates?.[0]?.content?.parts?.[0]?.text || ''
+      usageMetadata = aiResponse.response.usageMetadata
+    }
+    throwIfAborted(request.signal)
+
+    return {
+      output: text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: usageMetadata?.promptTokenCount ?? estimateTokens(request.prompt),
+        outputTokens: usageMetadata?.candidatesTokenCount ?? estimateTokens(text),
+        latencyMs: Date.now() - startedAt,
+      },
+    }
+  }
+
+  generate(request: LLMRequest) {
+    return this.call(request, 'text/plain')
+  }
+
+  async generateStructured<T>(request: LLMRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+    const result = await this.call(request, 'application/json')
+    return { ...result, output: parseStructured(result.output, schema, request.task) }
+  }
+
+  summarize(request: LLMSummarizeRequest) {
+    return this.call(
+      {
+        task: request.task,
+        prompt: buildSummarizePrompt(request),
+        maxOutputTokens: request.maxOutputTokens,
+        signal: request.signal,
+      },
+      'text/plain'
+    )
+  }
+}
+
+// ============================================================================
+// Local (fixtures)
+// ============================================================================
+
+/**
+ * Key for a fixture answering one exact prompt
+ */
+export function fixturePromptKey(task: string, prompt: string): string {
+  return `${task}#${createHash('sha256').update(prompt).digest('hex').slice(0, 16)}`
+}
+
+/**
+ * Keep whole sentences, in order, up to the target length
+ */
+function extractiveSummary(text: string, targetLength: number): string {
+  const sentences = text.match(/[^.!?\n]+[.!?]*/g) || []
+  let summary = ''
+  for (const sentence of sentences) {
+    const next = summary ? `${summary} ${sentence.trim()}` : sentence.trim()
+    if (next.length > targetLength) break
+    summary = next
+  }
+  return summary || text.slice(0, targetLength)
+}
+
+class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const
+  readonly model = LOCAL_AI_MODEL
+
+  constructor(private readonly fixtures: LocalFixtures) {}
+
+  /**
+   * Fixture for this exact prompt, else for the task
+   */
+  private lookup(task: string, prompt: string): string | undefined {
+    return this.fixtures[fixturePromptKey(task, prompt)] ?? this.fixtures[task]
+  }
+
+  private result(request: Pick<LLMRequest, 'onToken' | 'signal'>, prompt: string, output: string): LLMResult<string> {
+    throwIfAborted(request.signal)
+    if (request.onToken) {
+      for (const chunk of output.match(/\S+\s*|\s+/g) ?? []) {
+        request.onToken(chunk)
+      }
+    }
+
+    return {
+      output,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(output),
+        latencyMs: 0,
+      },
+    }
+  }
+
+  async generate(request: LLMRequest) {
+    return this.result(
+      request,
+      request.prompt,
+      this.lookup(request.task, request.prompt) ?? `[${this.model}] ${request.task}`
+    )
+  }
+
+  async generateStructured<T>(request: LLMRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+    const result = this.result(request, request.prompt, this.lookup(request.task, request.prompt) ?? '{}')
+    return { ...result, output: parseStructured(result.output, schema, request.task) }
+  }
+
+  async summarize(request: LLMSummarizeRequest) {
+    const prompt = buildSummarizePrompt(request)
+    const targetLength = request.targetLength ?? DEFAULT_SUMMARY_LENGTH
+    return this.result(
+      request,
+      prompt,
+      this.lookup(request.task, prompt) ?? extractiveSummary(request.text, targetLength)
+    )
+  }
+}
+
+/**
+ * Provider for a model, honouring the AI_PROVIDER override
+ */
+export function createLLMProvider(model: string): LLMProvider {
+  if (process.env.AI_PROVIDER === 'local') {
+    return new LocalProvider(getLocalFixtures())
+  }
+
+  const option = AI_MODELS.find((m) => m.id === model) ?? AI_MODELS.find((m) => m.id === DEFAULT_AI_MODEL)!
+  return new VertexProvider(option.id)
+}
+
+/**
+ * Local provider with explicit fixtures, for tests
+ */
+export function createLocalLLMProvider(fixtures: LocalFixtures = getLocalFixtures()): LLMProvider {
+  return new LocalProvider(fixtures)
+}
@@ -0,0 +1,96 @@
+/**
+ * Clinic LLM Access
+ *
+ * Entry point for clinical AI features: resolves the clinic's model from
+ * its AI settings and wraps the provider so every call is recorded in
+ * ai_usage_events with its tokens, latency and outcome. Recording never
+ * fails the call; totals for the request are available from usage().
+ */
+
+import { prisma } from '@/db/prisma'
+import { getClinicSettings } from '@/lib/clinics/settings'
+import {
+  createLLMProvider,
+  estimateTokens,
+  type LLMProvider,
+  type LLMResult,
+  type LLMUsage,
+} from './llm-provider'
+
+export interface LLMCallContext {
+  clinicId: string
+  userId?: string
+  requestId?: string
+}
+
+export interface LLMUsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  latencyMs: number // Summed over calls, including concurrent ones
+}
+
+export interface LLMClient extends LLMProvider {
+  usage(): LLMUsageTotals
+}
+
+/**
+ * Wrap a provider with per-call usage accounting
+ */
+export function withUsageAccounting(provider: LLMProvider, context: LLMCallContext): LLMClient {
+  const totals: LLMUsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 }
+
+  const record = (task: string, usage: LLMUsage, success: boolean) => {
+    totals.calls++
+    totals.inputTokens += usage.inputTokens
+    totals.outputTokens += usage.outputTokens
+    totals.latencyMs += usage.latencyMs
+
+    prisma.aiUsageEvent
+      .create({
+        data: {
+          clinicId: context.clinicId,
+          userId: context.userId ?? null,
+          requestId: context.requestId ?? null,
+          provider: provider.name,
+          model: provider.model,
+          task,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          latencyMs: usage.latencyMs,
+          success,
+        },
+      })
+      .catch((err) => console.error('AI usage accounting failed (non-critical):', err))
+  }
+
+  const track = async <T>(task: string, input: string, call: () => Promise<LLMResult<T>>) => {
+    const startedAt = Date.now()
+    try {
+      const result = await call()
+      record(task, result.usage, true)
+      return result
+    } catch (error) {
+      record(task, { inputTokens: estimateTokens(input), outputTokens: 0, latencyMs: Date.now() - startedAt }, false)
+      throw error
+    }
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate: (request) => track(request.task, request.prompt, () => provider.generate(request)),
+    generateStructured: (request, schema) =>
+      track(request.task, request.prompt, () => provider.generateStructured(request, schema)),
+    summarize: (request) => track(request.task, request.text, () => provider.summarize(request)),
+    usage: () => ({ ...totals }),
+  }
+}
+
+/**
+ * LLM client for a clinic's configured model
+ */
+export async function getClinicLLM(context: LLMCallContext): Promise<LLMClient> {
+  const settings = await getClinicSettings(context.clinicId)
+  return withUsageAccounting(createLLMProvider(settings.aiModel), context)
+}
@@ -0,0 +1,39 @@
+/**
+ * AI Models
+ *
+ * Models clinics can choose from in their AI settings, and the provider
+ * serving each (lib/ai/llm-provider.ts).
+ */
+
+export type AIProviderName = 'vertex' | 'local'
+
+export interface AIModelOption {
+  id: string
+  provider: AIProviderName
+  label: string
+  description: string
+}
+
+export const AI_MODELS: AIModelOption[] = [
+  {
+    id: 'gemini-1.5-flash',
+    provider: 'vertex',
+    label: 'Gemini 1.5 Flash',
+    description: 'Fast and low cost; recommended for most clinics',
+  },
+  {
+    id: 'gemini-1.5-pro',
+    provider: 'vertex',
+    label: 'Gemini 1.5 Pro',
+    description: 'More thorough on long or complex consultations; slower',
+  },
+]
+
+export const DEFAULT_AI_MODEL = 'gemini-1.5-flash'
+
+// Model name reported by the local provider
+export const LOCAL_AI_MODEL = 'local-fixtures'
+
+export function isSelectableAIModel(model: string): boolean {
+  return AI_MODELS.some((option) => option.id === model)
+}
@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_LOCAL_FIXTURES } from './llm-fixtures'
+import { createLocalLLMProvider, isAbortError } from './llm-provider'
+import { generateSOAPNoteParallel, type SOAPContext, type SOAPGenerationEvent } from './parallel-soap-generation'
+import { formatUtterances, hashTranscript, splitUtterances } from './transcript-utterances'
+
+// One utterance per line, matching the utterances the default fixtures cite
+const TRANSCRIPT = [
+  "Patient: I've had a sore throat and a low fever for three days.",
+  'Patient: No cough and no trouble breathing.',
+  'Doctor: Your throat is red without exudate and your lungs are clear.',
+  'Doctor: This looks like a viral pharyngitis, so rest, fluids and acetaminophen.',
+  'Doctor: Come back if it gets worse or lasts more than a week.',
+].join('\n')
+
+function soapContext(transcript: string = TRANSCRIPT): SOAPContext {
+  const utterances = splitUtterances(transcript)
+  return {
+    transcript: formatUtterances(utterances),
+    utterances,
+    transcriptHash: hashTranscript(transcript),
+    patientDemographics: { age: 34 },
+    vitals: { temperature: 100.4 },
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('generateSOAPNoteParallel', () => {
+  it('structures every section into statements with transcript evidence', async () => {
+    const note = await generateSOAPNoteParallel(createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES), soapContext())
+
+    expect(note.failedSections).toEqual([])
+    expect(note.unsupportedStatements).toBe(0)
+    expect(note.transcriptHash).toBe(hashTranscript(TRANSCRIPT))
+
+    const subjective = note.sections.subjective
+    expect(subjective.status).toBe('complete')
+    if (subjective.status !== 'complete') return
+    expect(subjective.statements).toHaveLength(2)
+    expect(subjective.text).toBe(subjective.statements.map((statement) => statement.text).join(' '))
+
+    // Offsets point into the transcript as received
+    const [{ evidence }] = subjective.statements
+    expect(evidence).toHaveLength(1)
+    expect(TRANSCRIPT.slice(evidence[0].start, evidence[0].end)).toBe(
+      "Patient: I've had a sore throat and a low fever for three days."
+    )
+  })
+
+  it('marks statements based on the patient context', async () => {
+    const note = await generateSOAPNoteParallel(createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES), soapContext())
+
+    const objective = note.sections.objective
+    if (objective.status !== 'complete') throw new Error('objective failed')
+    expect(objective.statements[0]).toEqual({ text: 'Temperature 100.4°F.', source: 'context', evidence: [] })
+    expect(objective.statements[1].source).toBe('transcript')
+  })
+
+  it('flags statements citing utterances the transcript does not have', async () => {
+    const shortTranscript = TRANSCRIPT.split('\n').slice(0, 2).join('\n')
+
+    const note = await generateSOAPNoteParallel(
+      createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES),
+      soapContext(shortTranscript)
+    )
+
+    // Objective cites U2, assessment U2-U3, plan U3 and U4
+    expect(note.unsupportedStatements).toBe(4)
+    const assessment = note.sections.assessment
+    if (assessment.status !== 'complete') throw new Error('assessment failed')
+    expect(assessment.statements[0]).toMatchObject({ source: 'unsupported', evidence: [] })
+  })
+
+  it('keeps catalogue billing codes in canonical form and rejects the rest', async () => {
+    const llm = createLocalLLMProvider({
+      ...DEFAULT_LOCAL_FIXTURES,
+      'soap.metadata': JSON.stringify({ risks: [], followUp: '', billingCodes: ['j029', '99213', 'Z99.999'] }),
+    })
+
+    const note = await generateSOAPNoteParallel(llm, soapContext())
+
+    expect(note.billingCodes).toEqual(['J02.9', '99213'])
+    expect(note.rejectedBillingCodes).toEqual(['Z99.999'])
+  })
+
+  it('suggests codes from the assessment and plan', async () => {
+    const note = await generateSOAPNoteParallel(createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES), soapContext())
+
+    expect(note.codeSuggestions.diagnosis.map((suggestion) => suggestion.code)).toContain('J02.9')
+  })
+
+  it('reports a section whose output is invalid instead of returning it empty', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const llm = createLocalLLMProvider({ ...DEFAULT_LOCAL_FIXTURES, 'soap.objective': 'Pharynx erythematous.' })
+
+    const note = await generateSOAPNoteParallel(llm, soapContext())
+
+    expect(note.failedSections).toEqual(['objective'])
+    expect(note.sections.objective).toEqual({ status: 'failed', error: 'Model returned invalid JSON for soap.objective' })
+    expect(note.sections.subjective.status).toBe('complete')
+  })
+
+  it('skips the metadata when assessment and plan both failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const llm = createLocalLLMProvider({ ...DEFAULT_LOCAL_FIXTURES, 'soap.assessment': '', 'soap.plan': '' })
+
+    const note = await generateSOAPNoteParallel(llm, soapContext())
+
+    expect(note.failedSections).toEqual(['assessment', 'plan', 'metadata'])
+    expect(note.billingCodes).toEqual([])
+  })
+})
+
+describe('generateSOAPNoteParallel streaming', () => {
+  it('streams raw output per section, then each section and the metadata as they finish', async () => {
+    const events: SOAPGenerationEvent[] = []
+
+    await generateSOAPNoteParallel(createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES), soapContext(), {
+      onEvent: (event) => events.push(event),
+    })
+
+    const deltas = events.filter((event) => event.type === 'delta')
+    const subjectiveOutput = deltas
+      .filter((event) => event.section === 'subjective')
+      .map((event) => event.text)
+      .join('')
+    expect(subjectiveOutput).toBe(DEFAULT_LOCAL_FIXTURES['soap.subjective'])
+
+    const finished = events.filter((event) => event.type !== 'delta')
+    expect(finished.map((event) => (event.type === 'section' ? event.section : event.type)).sort()).toEqual(
+      ['assessment', 'metadata', 'objective', 'plan', 'subjective']
+    )
+    expect(finished.map((event) => event.progress.completed)).toEqual([1, 2, 3, 4, 5])
+    expect(finished[finished.length - 1]).toMatchObject({
+      type: 'metadata',
+      status: 'complete',
+      progress: { completed: 5, total: 5 },
+    })
+
+    // A section's raw output is complete before the section is reported
+    const subjectiveDone = events.findIndex((event) => event.type === 'section' && event.section === 'subjective')
+    const lastSubjectiveDelta = events.findLastIndex(
+      (event) => event.type === 'delta' && event.section === 'subjective'
+    )
+    expect(lastSubjectiveDelta).toBeLessThan(subjectiveDone)
+  })
+
+  it('reports a failed metadata step in the stream', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const events: SOAPGenerationEvent[] = []
+    const llm = createLocalLLMProvider({ ...DEFAULT_LOCAL_FIXTURES, 'soap.metadata': '{"risks": "none"}' })
+
+    const note = await generateSOAPNoteParallel(llm, soapContext(), { onEvent: (event) => events.push(event) })
+
+    expect(note.failedSections).toEqual(['metadata'])
+    expect(events[events.length - 1]).toMatchObject({ type: 'metadata', status: 'failed' })
+  })
+
+  it('stops with an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const generation = generateSOAPNoteParallel(createLocalLLMProvider(DEFAULT_LOCAL_FIXTURES), soapContext(), {
+      signal: controller.signal,
+    })
+
+    await expect(generation).rejects.toSatisfy(isAbortError)
+  })
+})
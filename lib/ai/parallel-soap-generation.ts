@@ -1,7 +1,7 @@
 /**
  * Parallel SOAP Section Generation
  * 
- * Generates SOAP note sections in parallel using Gemini 1.5 Flash
+ * Generates SOAP note sections in parallel with the clinic's LLM (lib/ai/llm.ts)
  * Significantly reduces latency by generating sections concurrently
  * 
  * Strategy:
@@ -9,13 +9,36 @@
  * - Objective: Clinical observations
  * - Assessment: Diagnosis and clinical reasoning
  * - Plan: Treatment and follow-up
+ *
+ * Each section comes back as validated statements citing the transcript
+ * utterances they were drawn from (see ./soap-schema.ts). A section whose
+ * generation or validation fails is reported in failedSections instead of
+ * being returned empty.
+ *
+ * Progress can be followed through onEvent: raw output as it streams in,
+ * then each section (and the metadata) as it completes or fails. Aborting
+ * the signal stops generation with an AbortError.
  */
 
-// Import shared Gemini client utility
-import { getVertexAIClient } from './gemini-client'
+import { z } from 'zod'
+import { suggestCodes, validateCodes, type CodeSystem } from '@/lib/coding/catalog'
+import { isAbortError, type LLMProvider } from './llm-provider'
+import type { TranscriptUtterance } from './transcript-utterances'
+import {
+  SOAP_SECTIONS,
+  structuredSoapNoteSchema,
+  type EvidenceSpan,
+  type SOAPCodeSuggestion,
+  type SOAPSectionName,
+  type SOAPSectionResult,
+  type SOAPStatement,
+  type StructuredSOAPNote,
+} from './soap-schema'
 
 export interface SOAPContext {
-  transcript: string
+  transcript: string // Tagged utterances (preprocessTranscript)
+  utterances: TranscriptUtterance[] // Offsets into the original transcript
+  transcriptHash: string
   symptoms?: string[]
   patientDemographics: {
     age?: number
@@ -36,27 +59,89 @@ export interface SOAPContext {
   intakeFormAnswers?: Record<string, any>
 }
 
-export interface SOAPSections {
-  subjective: string
-  objective: string
-  assessment: string
-  plan: string
-  risks: string[]
-  followUp: string
-  billingCodes: string[]
+// What the model returns for a section
+const sectionResponseSchema = z.object({
+  statements: z.array(
+    z.object({
+      text: z.string().trim().min(1),
+      utterances: z.array(z.number().int()).default([]),
+      fromContext: z.boolean().default(false), // Based on the patient context or vitals, not the transcript
+    })
+  ),
+})
+
+const soapMetadataSchema = z.object({
+  risks: z.array(z.string()),
+  followUp: z.string(),
+  billingCodes: z.array(z.string()),
+})
+
+type SOAPMetadata = z.infer<typeof soapMetadataSchema>
+
+export type SOAPGenerationEvent =
+  | { type: 'delta'; section: SOAPSectionName; text: string } // Raw model output for the section
+  | { type: 'section'; section: SOAPSectionName; result: SOAPSectionResult; progress: SOAPGenerationProgress }
+  | { type: 'metadata'; status: 'complete' | 'failed'; error?: string; progress: SOAPGenerationProgress }
+
+export interface SOAPGenerationProgress {
+  completed: number // Sections and metadata finished, including failed ones
+  total: number
+}
+
+export interface SOAPGenerationOptions {
+  signal?: AbortSignal
+  onEvent?: (event: SOAPGenerationEvent) => void
+}
+
+const CODE_SUGGESTION_LIMIT = 5
+
+function toCodeSuggestions(text: string, system: CodeSystem): SOAPCodeSuggestion[] {
+  return suggestCodes(text, { system, limit: CODE_SUGGESTION_LIMIT }).map((suggestion) => ({
+    code: suggestion.code,
+    system: suggestion.system,
+    description: suggestion.description,
+    score: suggestion.score,
+  }))
+}
+
+function failureMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Generation failed'
 }
 
 /**
- * Generate a single SOAP section using Gemini 1.5 Flash
+ * Resolve cited utterance numbers to evidence spans and flag statements
+ * that cite nothing that exists
  */
-async function generateSOAPSection(
-  section: 'subjective' | 'objective' | 'assessment' | 'plan',
-  context: SOAPContext
-): Promise<string> {
-  const vertexAI = getVertexAIClient()
-  const model = vertexAI.preview.getGenerativeModel({
-    model: 'gemini-1.5-flash',
+function toStatements(
+  response: z.infer<typeof sectionResponseSchema>,
+  utterances: TranscriptUtterance[]
+): SOAPStatement[] {
+  const byId = new Map(utterances.map((utterance) => [utterance.id, utterance]))
+
+  return response.statements.map((statement) => {
+    const evidence: EvidenceSpan[] = Array.from(new Set(statement.utterances))
+      .map((id) => byId.get(id))
+      .filter((utterance): utterance is TranscriptUtterance => !!utterance)
+      .sort((a, b) => a.id - b.id)
+      .map((utterance) => ({ utterance: utterance.id, start: utterance.start, end: utterance.end }))
+
+    return {
+      text: statement.text,
+      source: evidence.length > 0 ? 'transcript' : statement.fromContext ? 'context' : 'unsupported',
+      evidence,
+    }
   })
+}
+
+/**
+ * Generate a single SOAP section
+ */
+async function generateSOAPSection(
+  llm: LLMProvider,
+  section: SOAPSectionName,
+  context: SOAPContext,
+  options: SOAPGenerationOptions
+): Promise<SOAPSectionResult> {
 
   const sectionPrompts = {
     subjective: `Extract and summarize the patient's SUBJECTIVE information from the clinical transcript:
@@ -122,38 +207,41 @@ Base ONLY on what is explicitly stated. Return a concise summary.`,
 
 ${contextString}
 
-CRITICAL: Only include information explicitly stated in the transcript or provided context. Do not invent or assume information. Return ONLY the requested section content, no JSON or additional formatting.`
+Each transcript line starts with an utterance tag such as [U12]. Write the section as a list of statements, one sentence each, and cite the utterance numbers every statement is based on.
 
-  const requestConfig = {
-    contents: [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      temperature: 0, // Deterministic for speed and consistency
-      maxOutputTokens: 512, // Shorter tokens for individual sections
-      responseMimeType: 'text/plain', // Plain text for each section
-    },
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_MEDICAL' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
-      },
-      {
-        category: 'HARM_CATEGORY_DANGEROUS_CONTENT' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
-      },
-    ],
-  }
+Return ONLY valid JSON in this format:
+{
+  "statements": [
+    { "text": "statement", "utterances": [12, 13], "fromContext": false }
+  ]
+}
+
+Set "fromContext" to true, with no utterances, for statements based only on the patient context or vital signs above. Return an empty "statements" array if nothing in the transcript or context belongs in this section.
+
+CRITICAL: Only include information explicitly stated in the transcript or provided context. Do not invent or assume information.`
 
   try {
-    const [aiResponse] = await model.generateContent(requestConfig)
-    return aiResponse.response.candidates?.[0]?.content?.parts?.[0]?.text || ''
+    const result = await llm.generateStructured(
+      {
+        task: `soap.${section}`,
+        prompt,
+        temperature: 0, // Deterministic for speed and consistency
+        maxOutputTokens: 1024, // Statements plus their citations
+        signal: options.signal,
+        onToken: options.onEvent && ((text) => options.onEvent!({ type: 'delta', section, text })),
+      },
+      sectionResponseSchema
+    )
+    const statements = toStatements(result.output, context.utterances)
+    return {
+      status: 'complete',
+      text: statements.map((statement) => statement.text).join(' '),
+      statements,
+    }
   } catch (error) {
+    if (isAbortError(error)) throw error
     console.error(`Failed to generate ${section} section:`, error)
-    return ''
+    return { status: 'failed', error: failureMessage(error) }
   }
 }
 
@@ -161,19 +249,16 @@ CRITICAL: Only include information explicitly stated in the transcript or provid
  * Generate risks, follow-up, and billing codes
  */
 async function generateSOAPMetadata(
-  context: SOAPContext,
+  llm: LLMProvider,
   assessment: string,
-  plan: string
-): Promise<{ risks: string[]; followUp: string; billingCodes: string[] }> {
-  const vertexAI = getVertexAIClient()
-  const model = vertexAI.preview.getGenerativeModel({
-    model: 'gemini-1.5-flash',
-  })
+  plan: string,
+  signal?: AbortSignal
+): Promise<SOAPMetadata> {
 
   const prompt = `Based on the following clinical assessment and treatment plan, generate:
 1. Potential risks or complications (as JSON array of strings)
 2. Follow-up instructions (as a string)
-3. Relevant billing codes (ICD-10 and CPT codes as JSON array of strings)
+3. Relevant billing codes (ICD-10-CM and CPT codes only, without descriptions, as JSON array of strings)
 
 Assessment: ${assessment}
 
@@ -183,48 +268,26 @@ Return ONLY valid JSON in this format:
 {
   "risks": ["risk1", "risk2"],
   "followUp": "follow-up instructions",
-  "billingCodes": ["ICD10-CODE", "CPT-CODE"]
+  "billingCodes": ["J02.9", "99213"]
 }
 
-Only include codes that are clearly applicable to the documented conditions and procedures.`
+Only include codes that are clearly applicable to the documented conditions and procedures. Do not code conditions that are ruled out or only suspected.`
 
-  const requestConfig = {
-    contents: [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      temperature: 0,
-      maxOutputTokens: 512,
-      responseMimeType: 'application/json',
-    },
-    safetySettings: [
+  try {
+    const result = await llm.generateStructured(
       {
-        category: 'HARM_CATEGORY_MEDICAL' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
+        task: 'soap.metadata',
+        prompt,
+        temperature: 0,
+        maxOutputTokens: 512,
+        signal,
       },
-    ],
-  }
-
-  try {
-    const [aiResponse] = await model.generateContent(requestConfig)
-    const responseText = aiResponse.response.candidates?.[0]?.content?.parts?.[0]?.text || '{}'
-    const metadata = JSON.parse(responseText)
-    
-    return {
-      risks: Array.isArray(metadata.risks) ? metadata.risks : [],
-      followUp: metadata.followUp || '',
-      billingCodes: Array.isArray(metadata.billingCodes) ? metadata.billingCodes : [],
-    }
+      soapMetadataSchema
+    )
+    return result.output
   } catch (error) {
-    console.error('Failed to generate SOAP metadata:', error)
-    return {
-      risks: [],
-      followUp: '',
-      billingCodes: [],
-    }
+    if (!isAbortError(error)) console.error('Failed to generate SOAP metadata:', error)
+    throw error
   }
 }
 
@@ -233,27 +296,84 @@ Only include codes that are clearly applicable to the documented conditions and
  * Generates subjective, objective, assessment, and plan concurrently
  */
 export async function generateSOAPNoteParallel(
-  context: SOAPContext
-): Promise<SOAPSections> {
+  llm: LLMProvider,
+  context: SOAPContext,
+  options: SOAPGenerationOptions = {}
+): Promise<StructuredSOAPNote> {
+  const progress: SOAPGenerationProgress = { completed: 0, total: SOAP_SECTIONS.length + 1 }
+
   // Generate main sections in parallel (4 concurrent requests)
-  const [subjective, objective, assessment, plan] = await Promise.all([
-    generateSOAPSection('subjective', context),
-    generateSOAPSection('objective', context),
-    generateSOAPSection('assessment', context),
-    generateSOAPSection('plan', context),
-  ])
+  const [subjective, objective, assessment, plan] = await Promise.all(
+    SOAP_SECTIONS.map(async (section) => {
+      const result = await generateSOAPSection(llm, section, context, options)
+      progress.completed++
+      options.onEvent?.({ type: 'section', section, result, progress: { ...progress } })
+      return result
+    })
+  )
+  const sections = { subjective, objective, assessment, plan }
+
+  const failedSections: StructuredSOAPNote['failedSections'] = SOAP_SECTIONS.filter(
+    (section) => sections[section].status === 'failed'
+  )
 
   // Generate metadata (risks, follow-up, billing codes) after we have assessment and plan
-  const metadata = await generateSOAPMetadata(context, assessment, plan)
+  let metadata: SOAPMetadata = { risks: [], followUp: '', billingCodes: [] }
+  let metadataError: string | undefined
+  if (assessment.status === 'complete' || plan.status === 'complete') {
+    try {
+      metadata = await generateSOAPMetadata(
+        llm,
+        assessment.status === 'complete' ? assessment.text : 'Not available',
+        plan.status === 'complete' ? plan.text : 'Not available',
+        options.signal
+      )
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      metadataError = failureMessage(error)
+    }
+  } else {
+    metadataError = 'Assessment and plan both failed'
+  }
+
+  if (metadataError) {
+    failedSections.push('metadata')
+  }
+  progress.completed++
+  options.onEvent?.({
+    type: 'metadata',
+    status: metadataError ? 'failed' : 'complete',
+    error: metadataError,
+    progress: { ...progress },
+  })
+
+  // Only catalogue codes are kept; suggestions come from the note text itself
+  const { valid, invalid } = validateCodes(metadata.billingCodes)
+  const codingText = [assessment, plan]
+    .map((section) => (section.status === 'complete' ? section.text : ''))
+    .join('\n')
+
+  const unsupportedStatements = Object.values(sections).reduce(
+    (count, section) =>
+      count +
+      (section.status === 'complete'
+        ? section.statements.filter((statement) => statement.source === 'unsupported').length
+        : 0),
+    0
+  )
 
-  return {
-    subjective,
-    objective,
-    assessment,
-    plan,
+  return structuredSoapNoteSchema.parse({
+    sections,
     risks: metadata.risks,
     followUp: metadata.followUp,
-    billingCodes: metadata.billingCodes,
-  }
+    billingCodes: valid.map((entry) => entry.code),
+    rejectedBillingCodes: invalid,
+    codeSuggestions: {
+      diagnosis: toCodeSuggestions(codingText, 'ICD10'),
+      procedures: toCodeSuggestions(codingText, 'CPT'),
+    },
+    failedSections,
+    unsupportedStatements,
+    transcriptHash: context.transcriptHash,
+  })
 }
-
@@ -0,0 +1,108 @@
+/**
+ * SOAP Generation Requests
+ *
+ * Steps shared by POST /api/ai/soap and its streaming variant
+ * (/api/ai/soap/stream), so both sanitize, preprocess and audit alike:
+ * - sanitizeSOAPInput: sanitized transcript and patient context
+ * - buildSOAPContext: tagged, compressed (and maybe summarized) transcript
+ * - auditSOAPGeneration: PHI-safe GENERATE_SOAP_NOTE audit entry
+ */
+
+import type { AuthUser } from '@/lib/auth/types'
+import type { AiSoapInput } from '@/lib/validation/schemas'
+import { sanitizeString, sanitizeJson } from '@/lib/security/sanitize'
+import { logSOAPNoteGeneration } from '@/lib/logging/audit'
+import type { LLMClient } from './llm'
+import type { SOAPContext } from './parallel-soap-generation'
+import { SOAP_SECTIONS, type StructuredSOAPNote } from './soap-schema'
+import { preprocessTranscript } from './transcript-summarization'
+import { hashTranscript } from './transcript-utterances'
+
+export const MAX_SOAP_REQUEST_BYTES = 1024 * 1024 // 1MB max for transcript
+
+/**
+ * Sanitize transcript and other text inputs
+ */
+export function sanitizeSOAPInput(input: AiSoapInput): { input: AiSoapInput; transcript: string } {
+  const transcript = sanitizeString(input.transcript, 50000)
+  if (input.patientDemographics.medicalHistory) {
+    input.patientDemographics.medicalHistory = sanitizeString(input.patientDemographics.medicalHistory, 10000)
+  }
+  input.symptoms = input.symptoms?.map((s) => sanitizeString(s, 500)) || []
+  input.intakeFormAnswers = sanitizeJson(input.intakeFormAnswers)
+
+  return { input, transcript }
+}
+
+/**
+ * Compress and summarize the transcript, then build the SOAP context
+ * Evidence offsets refer to the sanitized transcript.
+ */
+export async function buildSOAPContext(
+  llm: LLMClient,
+  transcript: string,
+  input: AiSoapInput,
+  signal?: AbortSignal
+): Promise<SOAPContext> {
+  const preprocessed = await preprocessTranscript(llm, transcript, {
+    compress: true, // Always compress
+    summarize: true, // Summarize if > 5000 characters
+    context: {
+      symptoms: input.symptoms,
+      patientAge: input.patientDemographics.age,
+      patientGender: input.patientDemographics.gender,
+    },
+    signal,
+  })
+
+  return {
+    transcript: preprocessed.processed,
+    utterances: preprocessed.utterances,
+    transcriptHash: hashTranscript(transcript),
+    symptoms: input.symptoms,
+    patientDemographics: input.patientDemographics,
+    vitals: input.vitals,
+    intakeFormAnswers: input.intakeFormAnswers,
+  }
+}
+
+/**
+ * Partial notes are returned with their failed sections; nothing usable is an upstream failure
+ */
+export function allSectionsFailed(note: StructuredSOAPNote): boolean {
+  return SOAP_SECTIONS.every((section) => note.sections[section].status === 'failed')
+}
+
+/**
+ * Audit log: SOAP note generation (PHI-safe - only logs metadata)
+ * Audit logging should never break the request - failures are logged and ignored.
+ */
+export function auditSOAPGeneration(
+  user: AuthUser,
+  llm: LLMClient,
+  note: StructuredSOAPNote,
+  request: Request,
+  requestId: string
+): void {
+  const usage = llm.usage()
+  logSOAPNoteGeneration(
+    user.id,
+    user.clinicId || 'unknown',
+    'ai-generated',
+    {
+      model: llm.model,
+      provider: llm.name,
+      count: usage.calls,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      latencyMs: usage.latencyMs,
+      failedSections: note.failedSections.length,
+      unsupportedStatements: note.unsupportedStatements,
+    },
+    undefined,
+    request,
+    requestId
+  ).catch((err) => {
+    console.error('Audit logging failed (non-critical):', err)
+  })
+}
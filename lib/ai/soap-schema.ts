@@ -0,0 +1,93 @@
+/**
+ * Structured SOAP Schemas
+ *
+ * Shape of AI-generated SOAP notes (lib/ai/parallel-soap-generation.ts):
+ * every section is a list of statements, each carrying evidence spans -
+ * character offsets of the transcript utterances it was drawn from
+ * (lib/ai/transcript-utterances.ts). Statements are flagged by source:
+ * - transcript: backed by at least one cited utterance
+ * - context: drawn from the structured context (vitals, demographics)
+ * - unsupported: cites nothing that exists; needs the doctor's review
+ *
+ * A section the model could not produce is reported as failed rather than
+ * returned empty. Billing codes are checked against the code catalogue
+ * (lib/coding/catalog.ts): unknown codes are set aside, and catalogue codes
+ * supported by the assessment and plan are suggested alongside. The same shapes validate the evidence stored on a visit
+ * note (VisitNote.aiEvidence).
+ */
+
+import { z } from 'zod'
+import { CODE_SYSTEMS } from '@/lib/coding/catalog'
+
+export const SOAP_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const
+
+export type SOAPSectionName = (typeof SOAP_SECTIONS)[number]
+
+export const evidenceSpanSchema = z.object({
+  utterance: z.number().int().nonnegative(),
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+})
+
+export const soapStatementSchema = z.object({
+  text: z.string().min(1).max(5000),
+  source: z.enum(['transcript', 'context', 'unsupported']),
+  evidence: z.array(evidenceSpanSchema).max(50),
+})
+
+export const soapSectionResultSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('complete'),
+    text: z.string(),
+    statements: z.array(soapStatementSchema).max(200),
+  }),
+  z.object({
+    status: z.literal('failed'),
+    error: z.string(),
+  }),
+])
+
+const soapSectionsSchema = z.object({
+  subjective: soapSectionResultSchema,
+  objective: soapSectionResultSchema,
+  assessment: soapSectionResultSchema,
+  plan: soapSectionResultSchema,
+})
+
+export const codeSuggestionSchema = z.object({
+  code: z.string(),
+  system: z.enum(CODE_SYSTEMS),
+  description: z.string(),
+  score: z.number().min(0).max(1),
+})
+
+export const structuredSoapNoteSchema = z.object({
+  sections: soapSectionsSchema,
+  risks: z.array(z.string()),
+  followUp: z.string(),
+  billingCodes: z.array(z.string()), // Model's codes found in the catalogue, canonical form
+  rejectedBillingCodes: z.array(z.string()), // Model's codes not in the catalogue
+  codeSuggestions: z.object({
+    diagnosis: z.array(codeSuggestionSchema), // ICD-10-CM, best first
+    procedures: z.array(codeSuggestionSchema), // CPT, best first
+  }),
+  failedSections: z.array(z.enum([...SOAP_SECTIONS, 'metadata'])), // 'metadata': risks, follow-up and billing codes
+  unsupportedStatements: z.number().int().nonnegative(),
+  transcriptHash: z.string(), // hashTranscript() of the transcript the offsets refer to
+})
+
+/**
+ * Evidence kept with a visit note drafted from an AI SOAP note
+ */
+export const soapEvidenceSchema = structuredSoapNoteSchema.pick({
+  sections: true,
+  failedSections: true,
+  transcriptHash: true,
+})
+
+export type EvidenceSpan = z.infer<typeof evidenceSpanSchema>
+export type SOAPStatement = z.infer<typeof soapStatementSchema>
+export type SOAPSectionResult = z.infer<typeof soapSectionResultSchema>
+export type StructuredSOAPNote = z.infer<typeof structuredSoapNoteSchema>
+export type SOAPEvidence = z.infer<typeof soapEvidenceSchema>
+export type SOAPCodeSuggestion = z.infer<typeof codeSuggestionSchema>
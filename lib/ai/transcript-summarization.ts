@@ -6,11 +6,12 @@
  * - Speed up processing
  * - Focus on key medical information
  * 
- * Uses Gemini 1.5 Flash for fast, cost-effective summarization
+ * Uses the clinic's LLM (lib/ai/llm.ts); the local provider summarizes extractively
  */
 
-// Import shared Gemini client utility
-import { getVertexAIClient } from './gemini-client'
+import { isAbortError, type LLMProvider } from './llm-provider'
+import { compressTranscript } from './transcript-compression'
+import { formatUtterances, splitUtterances, type TranscriptUtterance } from './transcript-utterances'
 
 // Threshold for summarization (characters)
 const SUMMARIZATION_THRESHOLD = 5000 // Summarize if transcript > 5000 characters
@@ -26,27 +27,24 @@ export function shouldSummarize(transcript: string): boolean {
 }
 
 /**
- * Summarize transcript using Gemini 1.5 Flash
+ * Summarize transcript
  * Focuses on medical information: symptoms, diagnoses, treatments, observations
  */
 export async function summarizeTranscript(
+  llm: LLMProvider,
   transcript: string,
   context?: {
     symptoms?: string[]
     patientAge?: number
     patientGender?: string
-  }
+  },
+  signal?: AbortSignal
 ): Promise<string> {
-  const vertexAI = getVertexAIClient()
-  const model = vertexAI.preview.getGenerativeModel({
-    model: 'gemini-1.5-flash',
-  })
-
   const contextInfo = context
     ? `\n\nPatient Context:\n- Age: ${context.patientAge || 'Not provided'}\n- Gender: ${context.patientGender || 'Not provided'}\n- Reported Symptoms: ${context.symptoms?.join(', ') || 'None'}\n`
     : ''
 
-  const prompt = `You are a medical transcription assistant. Summarize the following clinical consultation transcript, focusing ONLY on medically relevant information.
+  const instructions = `You are a medical transcription assistant. Summarize the following clinical consultation transcript, focusing ONLY on medically relevant information.
 
 ${contextInfo}
 
@@ -65,36 +63,18 @@ EXCLUDE:
 - Administrative details
 - Non-medical small talk
 
-Target length: Approximately ${TARGET_SUMMARY_LENGTH} characters.
-
-Transcript:
-${transcript}
-
-Return ONLY the summarized transcript, no additional commentary or formatting.`
-
-  const requestConfig = {
-    contents: [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      },
-    ],
-    generationConfig: {
-      temperature: 0, // Deterministic for speed
-      maxOutputTokens: 1024, // Limit output for cost control
-      responseMimeType: 'text/plain', // Simple text output
-    },
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_MEDICAL' as const,
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE' as const,
-      },
-    ],
-  }
+Each transcript line starts with an utterance tag such as [U12]. Keep the tag at the start of every line you keep and shorten lines individually; never merge lines with different tags.`
 
   try {
-    const [aiResponse] = await model.generateContent(requestConfig)
-    const summary = aiResponse.response.candidates?.[0]?.content?.parts?.[0]?.text || transcript
+    const result = await llm.summarize({
+      task: 'transcript.summarize',
+      text: transcript,
+      instructions,
+      targetLength: TARGET_SUMMARY_LENGTH,
+      maxOutputTokens: 1024, // Limit output for cost control
+      signal,
+    })
+    const summary = result.output || transcript
     
     // Fallback: If summary is longer than original, return original
     if (summary.length > transcript.length) {
@@ -103,19 +83,21 @@ Return ONLY the summarized transcript, no additional commentary or formatting.`
     
     return summary.trim()
   } catch (error) {
+    if (isAbortError(error)) throw error
     console.error('Transcript summarization failed, using original:', error)
     // Fallback to original transcript if summarization fails
     return transcript
   }
 }
 
-// Import compression function
-import { compressTranscript } from './transcript-compression'
-
 /**
- * Preprocess transcript: compress and summarize if needed
+ * Preprocess transcript: tag utterances, then compress and summarize if needed
+ * `processed` keeps the [U<id>] tag of each utterance it still contains, so
+ * statements citing those tags map back to `utterances`, whose offsets
+ * refer to the original transcript.
  */
 export async function preprocessTranscript(
+  llm: LLMProvider,
   transcript: string,
   options?: {
     compress?: boolean
@@ -125,16 +107,23 @@ export async function preprocessTranscript(
       patientAge?: number
       patientGender?: string
     }
+    signal?: AbortSignal
   }
-): Promise<{ processed: string; wasCompressed: boolean; wasSummarized: boolean }> {
-  let processed = transcript
+): Promise<{
+  processed: string
+  utterances: TranscriptUtterance[]
+  wasCompressed: boolean
+  wasSummarized: boolean
+}> {
+  const utterances = splitUtterances(transcript)
+  let processed = formatUtterances(utterances)
   let wasCompressed = false
   let wasSummarized = false
 
-  // Step 1: Compress if requested
+  // Step 1: Compress each utterance if requested
   if (options?.compress !== false) {
-    const compressed = compressTranscript(transcript)
-    if (compressed.length < transcript.length * 0.9) {
+    const compressed = formatUtterances(utterances, compressTranscript)
+    if (compressed.length < processed.length * 0.9) {
       processed = compressed
       wasCompressed = true
     }
@@ -142,12 +131,13 @@ export async function preprocessTranscript(
 
   // Step 2: Summarize if requested and transcript is long
   if (options?.summarize !== false && shouldSummarize(processed)) {
-    processed = await summarizeTranscript(processed, options?.context)
+    processed = await summarizeTranscript(llm, processed, options?.context, options?.signal)
     wasSummarized = true
   }
 
   return {
     processed,
+    utterances,
     wasCompressed,
     wasSummarized,
   }
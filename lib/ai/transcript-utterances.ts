@@ -0,0 +1,64 @@
+/**
+ * Transcript Utterances
+ *
+ * Splits a transcript into numbered utterances (lines, then sentences)
+ * with their character offsets, so AI output can cite the utterances it
+ * was drawn from and readers can highlight them in the original text.
+ * The model sees each utterance tagged as [U<id>]; offsets always refer to
+ * the transcript as received, before compression or summarization.
+ */
+
+import { createHash } from 'crypto'
+
+export interface TranscriptUtterance {
+  id: number
+  start: number // Offset of the first character in the transcript
+  end: number // Offset after the last character
+  text: string
+}
+
+// Runs up to a line break or a . ! ? followed by whitespace ("98.6" stays whole)
+const UTTERANCE_PATTERN = /(?:[^\n.!?]|[.!?](?!\s|$))+[.!?]*/g
+const HAS_CONTENT = /[\p{L}\p{N}]/u
+
+/**
+ * Split a transcript into utterances with their offsets
+ */
+export function splitUtterances(transcript: string): TranscriptUtterance[] {
+  const utterances: TranscriptUtterance[] = []
+
+  for (const match of transcript.matchAll(UTTERANCE_PATTERN)) {
+    const raw = match[0]
+    const text = raw.trim()
+    if (!HAS_CONTENT.test(text)) continue
+
+    const leading = raw.length - raw.trimStart().length
+    const start = (match.index ?? 0) + leading
+
+    utterances.push({ id: utterances.length, start, end: start + text.length, text })
+  }
+
+  return utterances
+}
+
+/**
+ * Transcript text for a prompt, one tagged utterance per line
+ * Utterances whose text maps to empty (e.g. only filler words) are left out.
+ */
+export function formatUtterances(
+  utterances: TranscriptUtterance[],
+  mapText: (text: string) => string = (text) => text
+): string {
+  return utterances
+    .map((utterance) => ({ id: utterance.id, text: mapText(utterance.text).trim() }))
+    .filter((utterance) => HAS_CONTENT.test(utterance.text))
+    .map((utterance) => `[U${utterance.id}] ${utterance.text}`)
+    .join('\n')
+}
+
+/**
+ * Fingerprint of a transcript, to check stored offsets still apply to it
+ */
+export function hashTranscript(transcript: string): string {
+  return createHash('sha256').update(transcript).digest('hex')
+}
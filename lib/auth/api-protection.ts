@@ -17,7 +17,10 @@ import type { UserRole, AuthUser } from './types'
 import { logAudit, logWarn, logError } from '@/lib/security/logging'
 import { addSecurityHeaders } from '@/lib/security/headers'
 import { v4 as uuidv4 } from 'uuid'
-import { canAccess, canAccessAny, canAccessAll, type Permission } from './permissions'
+import { permissionSetAllows, type Permission } from './permissions'
+import { getEffectivePermissions } from './custom-roles'
+import { isSessionMfaPending } from './mfa'
+import { getSessionIdFromAccessToken } from './session-policy'
 
 /**
  * Request context for audit logging
@@ -202,6 +205,25 @@ export async function getAuthUser(request?: NextRequest): Promise<AuthUser | nul
   const approved = roleData.approved || false
   const clinicId = roleData.clinic_id || 'default-clinic'
 
+  // Second factor: sessions that skipped the MFA challenge (password-only sign-in against Supabase)
+  const sessionId = getSessionIdFromAccessToken(token || validation.session?.access_token)
+  if (await isSessionMfaPending(sessionId, { id: user.id, role, clinicId })) {
+    if (context) {
+      logAudit(
+        'MFA_REQUIRED',
+        'user',
+        user.id,
+        user.id,
+        false,
+        {
+          requestId: context.requestId,
+          pathname: context.pathname,
+        }
+      )
+    }
+    return null
+  }
+
   // Log successful authentication
   if (context) {
     logAudit(
@@ -779,9 +801,10 @@ export function withAuth<T>(
           ? options.permissions
           : [options.permissions]
         
+        const permissionSet = await getEffectivePermissions(user)
         const hasPermission = options.requireAllPermissions
-          ? canAccessAll(user.role, permissions)
-          : canAccessAny(user.role, permissions)
+          ? permissions.every((permission) => permissionSetAllows(permissionSet, permission))
+          : permissions.some((permission) => permissionSetAllows(permissionSet, permission))
 
         if (!hasPermission) {
           logAudit(
@@ -842,9 +865,10 @@ export async function requirePermission(
   const permissions = Array.isArray(permission) ? permission : [permission]
   const context = getRequestContext(request)
 
+  const permissionSet = await getEffectivePermissions(user)
   const hasPermission = requireAll
-    ? canAccessAll(user.role, permissions)
-    : canAccessAny(user.role, permissions)
+    ? permissions.every((permission) => permissionSetAllows(permissionSet, permission))
+    : permissions.some((permission) => permissionSetAllows(permissionSet, permission))
 
   if (!hasPermission) {
     logAudit(
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PERMISSIONS, getRolePermissionSet, permissionSetAllows } from '@/lib/auth/permissions'
+import { describePermissionChange, getEffectivePermissions } from './custom-roles'
+
+const findOverride = vi.hoisted(() => vi.fn())
+
+vi.mock('@/db/prisma', () => ({
+  prisma: { userPermissionOverride: { findUnique: findOverride } },
+}))
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+
+const nurse = { id: 'user-1', role: 'nurse' as const, clinicId: 'clinic-1' }
+
+function override(values: { granted?: string[]; denied?: string[]; clinicRole?: string[] | null; clinicId?: string }) {
+  return {
+    clinicId: values.clinicId ?? 'clinic-1',
+    granted: values.granted ?? [],
+    denied: values.denied ?? [],
+    clinicRole: values.clinicRole ? { permissions: values.clinicRole } : null,
+  }
+}
+
+beforeEach(() => {
+  findOverride.mockReset()
+})
+
+describe('getEffectivePermissions', () => {
+  it('uses the built-in role without an override', async () => {
+    findOverride.mockResolvedValue(null)
+
+    expect(await getEffectivePermissions(nurse)).toEqual(getRolePermissionSet('nurse'))
+  })
+
+  it('never overrides admins', async () => {
+    const permissionSet = await getEffectivePermissions({ id: 'admin-1', role: 'admin', clinicId: 'clinic-1' })
+
+    expect(permissionSet).toEqual(getRolePermissionSet('admin'))
+    expect(findOverride).not.toHaveBeenCalled()
+  })
+
+  it('replaces the role permissions with the custom role and adds grants', async () => {
+    findOverride.mockResolvedValue(
+      override({ clinicRole: [PERMISSIONS.APPOINTMENTS_VIEW], granted: [PERMISSIONS.BILLING_VIEW] })
+    )
+
+    const permissionSet = await getEffectivePermissions(nurse)
+
+    expect(permissionSet.permissions).toEqual([PERMISSIONS.APPOINTMENTS_VIEW, PERMISSIONS.BILLING_VIEW])
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.LABS_VIEW)).toBe(false)
+  })
+
+  it('adds grants to the built-in role when there is no custom role', async () => {
+    findOverride.mockResolvedValue(override({ granted: [PERMISSIONS.BILLING_VIEW] }))
+
+    const permissionSet = await getEffectivePermissions(nurse)
+
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.LABS_VIEW)).toBe(true)
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.BILLING_VIEW)).toBe(true)
+  })
+
+  it('drops stored admin and unknown permissions', async () => {
+    findOverride.mockResolvedValue(
+      override({
+        clinicRole: [PERMISSIONS.APPOINTMENTS_VIEW, PERMISSIONS.ADMIN_FULL_ACCESS, 'appointments:archive'],
+        granted: [PERMISSIONS.ADMIN_MANAGE_USERS],
+        denied: ['labs:export'],
+      })
+    )
+
+    const permissionSet = await getEffectivePermissions(nurse)
+
+    expect(permissionSet.permissions).toEqual([PERMISSIONS.APPOINTMENTS_VIEW])
+    expect(permissionSet.denied).toEqual([])
+  })
+
+  it('refuses denied permissions, including those implied by a manage permission', async () => {
+    findOverride.mockResolvedValue(
+      override({
+        clinicRole: [PERMISSIONS.APPOINTMENTS_MANAGE, PERMISSIONS.LABS_VIEW],
+        denied: [PERMISSIONS.APPOINTMENTS_DELETE, PERMISSIONS.LABS_VIEW],
+      })
+    )
+
+    const permissionSet = await getEffectivePermissions(nurse)
+
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.APPOINTMENTS_UPDATE)).toBe(true)
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.APPOINTMENTS_DELETE)).toBe(false)
+    expect(permissionSetAllows(permissionSet, PERMISSIONS.LABS_VIEW)).toBe(false)
+  })
+
+  it('ignores an override made by another clinic', async () => {
+    findOverride.mockResolvedValue(override({ clinicId: 'clinic-2', denied: [PERMISSIONS.LABS_VIEW] }))
+
+    expect(await getEffectivePermissions(nurse)).toEqual(getRolePermissionSet('nurse'))
+  })
+})
+
+describe('describePermissionChange', () => {
+  it('lists added and removed permissions', () => {
+    expect(
+      describePermissionChange(
+        [PERMISSIONS.LABS_VIEW, PERMISSIONS.NOTES_VIEW],
+        [PERMISSIONS.NOTES_VIEW, PERMISSIONS.BILLING_VIEW]
+      )
+    ).toEqual({ permissionsAdded: PERMISSIONS.BILLING_VIEW, permissionsRemoved: PERMISSIONS.LABS_VIEW })
+  })
+})
@@ -0,0 +1,339 @@
+/**
+ * Custom Roles and Permission Overrides
+ *
+ * Clinics can define their own roles as named bundles of PERMISSIONS and
+ * adjust individual users on top of their role:
+ *
+ *   effective = (custom role's permissions, or the built-in role's)
+ *               + granted
+ *               - denied
+ *
+ * Denials also remove permissions implied by a manage permission. Admin
+ * permissions cannot be put in custom roles or grants, and admin accounts
+ * cannot be overridden, so an admin can never lock the clinic out of its
+ * own administration.
+ *
+ * withPermission and the api-protection permission checks resolve the
+ * user's set here on every request.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { createClient } from '@/lib/supabase/server'
+import type { AuthUser, UserRole } from '@/lib/auth/types'
+import {
+  PERMISSIONS,
+  getRolePermissionSet,
+  isAssignablePermission,
+  permissionSetAllows,
+  type Permission,
+  type PermissionSet,
+} from '@/lib/auth/permissions'
+
+export interface ClinicRoleInput {
+  name: string
+  description?: string | null
+  permissions: string[]
+}
+
+export interface UserPermissionsInput {
+  clinicRoleId: string | null
+  granted: string[]
+  denied: string[]
+}
+
+const clinicRoleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { users: true } },
+} satisfies Prisma.ClinicRoleSelect
+
+function roleError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+function isPermission(permission: string): permission is Permission {
+  return (Object.values(PERMISSIONS) as string[]).includes(permission)
+}
+
+/**
+ * Reject unknown or admin permissions, dropping duplicates
+ */
+function assignablePermissions(permissions: string[]): Permission[] {
+  const invalid = permissions.filter((permission) => !isAssignablePermission(permission))
+  if (invalid.length > 0) {
+    throw roleError(`Permissions cannot be assigned: ${invalid.join(', ')}`, 400)
+  }
+  return Array.from(new Set(permissions)) as Permission[]
+}
+
+function knownPermissions(permissions: string[]): Permission[] {
+  const invalid = permissions.filter((permission) => !isPermission(permission))
+  if (invalid.length > 0) {
+    throw roleError(`Unknown permissions: ${invalid.join(', ')}`, 400)
+  }
+  return Array.from(new Set(permissions)) as Permission[]
+}
+
+function uniqueNameConflict(error: unknown): Error {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return roleError('A role with this name already exists in the clinic', 409)
+  }
+  return error as Error
+}
+
+/**
+ * Combine a role's permissions with a user's grants and denials
+ */
+function buildPermissionSet(
+  role: UserRole,
+  override: { granted: string[]; denied: string[]; clinicRole: { permissions: string[] } | null } | null
+): PermissionSet {
+  const base = getRolePermissionSet(role)
+  if (!override) {
+    return base
+  }
+
+  // Stored values are filtered rather than trusted, in case PERMISSIONS changed since
+  const rolePermissions = override.clinicRole
+    ? override.clinicRole.permissions.filter(isAssignablePermission)
+    : base.permissions
+  const granted = override.granted.filter(isAssignablePermission)
+
+  return {
+    role,
+    permissions: Array.from(new Set([...rolePermissions, ...granted])),
+    denied: override.denied.filter(isPermission),
+  }
+}
+
+/**
+ * Resolve a user's effective permissions
+ */
+export async function getEffectivePermissions(
+  user: Pick<AuthUser, 'id' | 'role' | 'clinicId'>
+): Promise<PermissionSet> {
+  if (user.role === 'admin') {
+    return getRolePermissionSet(user.role)
+  }
+
+  const override = await prisma.userPermissionOverride.findUnique({
+    where: { userId: user.id },
+    select: {
+      clinicId: true,
+      granted: true,
+      denied: true,
+      clinicRole: { select: { permissions: true } },
+    },
+  })
+
+  // Assignments made by another clinic do not follow the user
+  return buildPermissionSet(user.role, override?.clinicId === user.clinicId ? override : null)
+}
+
+/**
+ * Audit metadata for a permission change, as comma-separated lists
+ */
+export function describePermissionChange(before: string[], after: string[]) {
+  return {
+    permissionsAdded: after.filter((permission) => !before.includes(permission)).join(','),
+    permissionsRemoved: before.filter((permission) => !after.includes(permission)).join(','),
+  }
+}
+
+// ============================================================================
+// Clinic Roles
+// ============================================================================
+
+/**
+ * List a clinic's custom roles with the number of users assigned to each
+ */
+export async function listClinicRoles(clinicId: string) {
+  return prisma.clinicRole.findMany({
+    where: { clinicId },
+    select: clinicRoleSelect,
+    orderBy: { name: 'asc' },
+  })
+}
+
+/**
+ * Create a custom role in the admin's clinic
+ * Throws 400 for permissions that cannot be assigned, 409 if the name is taken
+ */
+export async function createClinicRole(admin: AuthUser, input: ClinicRoleInput) {
+  const permissions = assignablePermissions(input.permissions)
+
+  try {
+    return await prisma.clinicRole.create({
+      data: {
+        clinicId: admin.clinicId,
+        name: input.name,
+        description: input.description ?? null,
+        permissions,
+        createdBy: admin.id,
+      },
+      select: clinicRoleSelect,
+    })
+  } catch (error) {
+    throw uniqueNameConflict(error)
+  }
+}
+
+async function findClinicRole(clinicId: string, id: string) {
+  const role = await prisma.clinicRole.findFirst({
+    where: { id, clinicId },
+    select: clinicRoleSelect,
+  })
+
+  if (!role) {
+    throw roleError('Role not found', 404)
+  }
+  return role
+}
+
+/**
+ * Update a custom role; users assigned to it pick up the change immediately
+ * Returns the role before and after the update, for the audit log.
+ */
+export async function updateClinicRole(admin: AuthUser, id: string, input: Partial<ClinicRoleInput>) {
+  const before = await findClinicRole(admin.clinicId, id)
+  const permissions = input.permissions ? assignablePermissions(input.permissions) : undefined
+
+  try {
+    const after = await prisma.clinicRole.update({
+      where: { id: before.id },
+      data: {
+        name: input.name,
+        description: input.description,
+        permissions,
+      },
+      select: clinicRoleSelect,
+    })
+    return { before, after }
+  } catch (error) {
+    throw uniqueNameConflict(error)
+  }
+}
+
+/**
+ * Delete a custom role
+ * Its users fall back to their built-in role, keeping their grants and denials.
+ */
+export async function deleteClinicRole(admin: AuthUser, id: string) {
+  const role = await findClinicRole(admin.clinicId, id)
+  await prisma.clinicRole.delete({ where: { id: role.id } })
+  return role
+}
+
+// ============================================================================
+// Per-User Permissions
+// ============================================================================
+
+/**
+ * Look up a user of the admin's clinic
+ * Throws 404 for users of other clinics.
+ */
+async function findClinicUser(clinicId: string, userId: string): Promise<{ id: string; role: UserRole }> {
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('user_roles')
+    .select('user_id, role, clinicId')
+    .eq('user_id', userId)
+    .single()
+
+  const userRole = data as { user_id: string; role: UserRole | null; clinicId: string | null } | null
+  if (!userRole?.role || userRole.clinicId !== clinicId) {
+    throw roleError('User not found', 404)
+  }
+
+  return { id: userRole.user_id, role: userRole.role }
+}
+
+async function getUserPermissionDetails(clinicId: string, user: { id: string; role: UserRole }) {
+  const override = await prisma.userPermissionOverride.findUnique({
+    where: { userId: user.id },
+    select: {
+      clinicId: true,
+      granted: true,
+      denied: true,
+      updatedBy: true,
+      updatedAt: true,
+      clinicRole: { select: { id: true, name: true, permissions: true } },
+    },
+  })
+  const current = override?.clinicId === clinicId ? override : null
+  const effective = buildPermissionSet(user.role, current)
+
+  return {
+    userId: user.id,
+    role: user.role,
+    clinicRole: current?.clinicRole ? { id: current.clinicRole.id, name: current.clinicRole.name } : null,
+    granted: current?.granted ?? [],
+    denied: current?.denied ?? [],
+    updatedBy: current?.updatedBy ?? null,
+    updatedAt: current?.updatedAt ?? null,
+    // Expanded, so permissions implied by manage and removed by denials show as they apply
+    effectivePermissions: Object.values(PERMISSIONS).filter((permission) => permissionSetAllows(effective, permission)),
+    overridable: user.role !== 'admin',
+  }
+}
+
+/**
+ * A user's role assignment, grants, denials and resulting permissions
+ */
+export async function getUserPermissions(admin: AuthUser, userId: string) {
+  const user = await findClinicUser(admin.clinicId, userId)
+  return getUserPermissionDetails(admin.clinicId, user)
+}
+
+/**
+ * Set a user's custom role, grants and denials
+ * Clearing all three removes the override. Returns the user's permissions
+ * before and after the change, for the audit log.
+ */
+export async function setUserPermissions(admin: AuthUser, userId: string, input: UserPermissionsInput) {
+  const user = await findClinicUser(admin.clinicId, userId)
+  if (user.role === 'admin') {
+    throw roleError('Admin permissions cannot be overridden', 400)
+  }
+
+  const granted = assignablePermissions(input.granted)
+  const denied = knownPermissions(input.denied)
+  const conflicting = granted.filter((permission) => denied.includes(permission))
+  if (conflicting.length > 0) {
+    throw roleError(`Permissions cannot be both granted and denied: ${conflicting.join(', ')}`, 400)
+  }
+
+  if (input.clinicRoleId) {
+    await findClinicRole(admin.clinicId, input.clinicRoleId)
+  }
+
+  const before = await getUserPermissionDetails(admin.clinicId, user)
+
+  if (!input.clinicRoleId && granted.length === 0 && denied.length === 0) {
+    await prisma.userPermissionOverride.deleteMany({ where: { userId: user.id } })
+  } else {
+    const data = {
+      clinicId: admin.clinicId,
+      clinicRoleId: input.clinicRoleId,
+      granted,
+      denied,
+      updatedBy: admin.id,
+    }
+    await prisma.userPermissionOverride.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data,
+    })
+  }
+
+  const after = await getUserPermissionDetails(admin.clinicId, user)
+  return { before, after }
+}
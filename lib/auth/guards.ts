@@ -27,6 +27,11 @@ import type { UserRole, AuthUser } from './types'
 import { logAudit, logError } from '@/lib/security/logging'
 import { v4 as uuidv4 } from 'uuid'
 import { prisma } from '@/db/prisma'
+import { getClinicStatus } from '@/lib/clinics/lifecycle'
+import { recordSessionActivity } from '@/lib/auth/session-registry'
+import { getSessionEndMessage, getSessionIdFromAccessToken, MFA_REQUIRED_MESSAGE } from '@/lib/auth/session-policy'
+import { isSessionMfaPending } from '@/lib/auth/mfa'
+import { ensurePatientBelongsToDoctorClinic } from './patient-access'
 
 /**
  * Full user session with metadata
@@ -276,6 +281,78 @@ export async function requireSession(
     throw error
   }
 
+  // Reject users of suspended or archived clinics
+  // Admins are still let through so they can reactivate their clinic
+  const clinicStatus = await getClinicStatus(roleData.clinicId)
+  if (clinicStatus && clinicStatus !== 'ACTIVE' && roleData.role !== 'admin') {
+    logAudit(
+      'CLINIC_INACTIVE',
+      'clinic',
+      roleData.clinicId,
+      user.id,
+      false,
+      {
+        requestId: context.requestId,
+        pathname: context.pathname,
+        clinicStatus,
+      }
+    )
+
+    const error: Error & { statusCode?: number } = new Error('Forbidden: Clinic is not active')
+    error.statusCode = 403
+    throw error
+  }
+
+  // Session registry: record device and activity; revoked or timed-out sessions end here
+  const sessionId = getSessionIdFromAccessToken(session.access_token)
+  if (sessionId) {
+    const endReason = await recordSessionActivity({
+      sessionId,
+      user: { id: user.id, clinicId: roleData.clinicId, role: (roleData.role as UserRole) || 'patient' },
+      ip: context.ip,
+      userAgent: context.userAgent,
+    })
+
+    if (endReason) {
+      logAudit(
+        'SESSION_ENDED',
+        'user',
+        user.id,
+        user.id,
+        false,
+        {
+          requestId: context.requestId,
+          pathname: context.pathname,
+          reason: endReason,
+        }
+      )
+
+      const error: Error & { statusCode?: number } = new Error(getSessionEndMessage(endReason))
+      error.statusCode = 401
+      throw error
+    }
+  }
+
+  // Second factor: sessions that skipped the MFA challenge (password-only sign-in against Supabase)
+  const sessionUser = { id: user.id, clinicId: roleData.clinicId, role: (roleData.role as UserRole) || 'patient' }
+  if (await isSessionMfaPending(sessionId, sessionUser)) {
+    logAudit(
+      'MFA_REQUIRED',
+      'user',
+      user.id,
+      user.id,
+      false,
+      {
+        requestId: context.requestId,
+        pathname: context.pathname,
+      }
+    )
+
+    const error: Error & { statusCode?: number } = new Error(MFA_REQUIRED_MESSAGE)
+    error.statusCode = 401
+    throw error
+  }
+
   // Log successful session validation
   logAudit(
     'SESSION_VALIDATED',
@@ -886,7 +963,8 @@ export async function requireOwnership(
 
 /**
  * Combined guard helper - ensures ownership OR doctor access
- * Useful for resources accessible by both patients (own data) and doctors (with relationship)
+ * Useful for resources accessible by both patients (own data) and doctors (with relationship);
+ * nurses and staff reach the patients of their clinic
  */
 export async function ensureOwnershipOrDoctor(
   user: AuthUser | UserSession,
@@ -912,6 +990,23 @@ export async function ensureOwnershipOrDoctor(
       }
     )
     return
+  } else if (user.role === 'nurse' || user.role === 'staff') {
+    await ensurePatientBelongsToDoctorClinic(patientId, user.clinicId, context)
+    logAudit(
+      'CLINIC_STAFF_ACCESS_GRANTED',
+      'user',
+      user.id,
+      user.id,
+      true,
+      {
+        requestId: context?.requestId,
+        pathname: context?.pathname,
+        userRole: user.role,
+        patientId,
+        clinicId: user.clinicId,
+      }
+    )
+    return
   } else {
     logAudit(
       'ACCESS_DENIED_NO_OWNERSHIP_OR_DOCTOR',
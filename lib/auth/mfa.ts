@@ -0,0 +1,670 @@
+/**
+ * TOTP Multi-Factor Authentication
+ *
+ * RFC 6238 codes (HMAC-SHA1, 6 digits, 30 second steps) as generated by
+ * authenticator apps from a shared secret. Secrets are stored encrypted
+ * with MFA_ENCRYPTION_KEY and recovery codes only as SHA-256 hashes.
+ *
+ * Login becomes two steps once a user has MFA, or their clinic requires
+ * it for their role: the password step returns a short-lived challenge
+ * token instead of session cookies, and the cookies are only set after
+ * a code is verified against that challenge. Users the policy requires
+ * but who have not enrolled yet enroll from the challenge.
+ *
+ * Verifying the challenge marks the Supabase session as MFA-verified in
+ * the session registry; requireSession, getAuthUser and middleware refuse
+ * unmarked sessions of users the second step applies to, so a session
+ * created against Supabase directly with only the password is useless.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { addDays, addMinutes, format, startOfDay, subDays } from 'date-fns'
+import { UserRole } from '@prisma/client'
+import type { NextResponse } from 'next/server'
+import { prisma } from '@/db/prisma'
+import { getClinicSettings } from '@/lib/clinics/settings'
+import { createClient } from '@/lib/supabase/server'
+import type { AuthUser } from '@/lib/auth/types'
+import { toPrismaUserRole } from '@/lib/auth/roles'
+import { markSessionMfaVerified } from '@/lib/auth/session-registry'
+
+export const MFA_ISSUER = 'DistanceDoc'
+
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_WINDOW = 1 // Steps accepted either side of now, for clock drift
+const SECRET_BYTES = 20
+const RECOVERY_CODE_COUNT = 10
+const CHALLENGE_TTL_MINUTES = 5
+const MAX_CHALLENGE_ATTEMPTS = 5
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export type MfaMethod = 'totp' | 'recovery_code'
+
+/**
+ * A password-verified login held until its second factor is verified
+ */
+export interface PendingLogin {
+  user: AuthUser
+  sessionId: string | null // Supabase session_id claim of the held session
+  cookies: Array<{ name: string; value: string }>
+}
+
+function mfaError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+// ============================================================================
+// Encoding and Encryption
+// ============================================================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 secret')
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function getEncryptionKey(): Buffer {
+  const key = process.env.MFA_ENCRYPTION_KEY
+  if (!key) {
+    throw new Error('MFA_ENCRYPTION_KEY is not configured')
+  }
+  return createHash('sha256').update(key).digest()
+}
+
+// AES-256-GCM, serialized as iv.tag.ciphertext (base64url)
+function encrypt(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.')
+}
+
+function decrypt(serialized: string): string {
+  const [iv, tag, ciphertext] = serialized.split('.').map((part) => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+// ============================================================================
+// TOTP and Recovery Codes
+// ============================================================================
+
+function currentStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS)
+}
+
+function generateTotp(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', secret).update(counter).digest()
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Time step the code was generated for, or null if it doesn't match
+ * Steps at or before lastUsedStep are rejected so a code works once.
+ */
+function matchTotpStep(secretBase32: string, code: string, lastUsedStep: number | null): number | null {
+  const secret = base32Decode(secretBase32)
+  const now = currentStep()
+
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    const expected = Buffer.from(generateTotp(secret, step))
+    const given = Buffer.from(code)
+    if (given.length === expected.length && timingSafeEqual(given, expected)) {
+      return step
+    }
+  }
+  return null
+}
+
+function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)
+}
+
+// Recovery codes are compared case- and separator-insensitively
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(5)) // 8 characters
+    return `${code.slice(0, 4)}-${code.slice(4)}`
+  })
+}
+
+/**
+ * otpauth:// URI that authenticator apps read from a QR code
+ */
+export function buildOtpauthUrl(secretBase32: string, accountName: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret: secretBase32,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// ============================================================================
+// Policy and Status
+// ============================================================================
+
+/**
+ * Whether the user's clinic requires MFA for their role
+ * Patients are never required to enroll. Custom roles follow the user's
+ * built-in role (user_roles.role), as they only change permissions.
+ * session_mfa_pending (supabase/migrations) applies the same policy.
+ */
+export async function isMfaRequired(user: Pick<AuthUser, 'role' | 'clinicId'>): Promise<boolean> {
+  if (user.role === 'patient') return false
+
+  const settings = await getClinicSettings(user.clinicId)
+  switch (user.role) {
+    case 'doctor':
+      return settings.mfaRequiredForDoctors
+    case 'nurse':
+    case 'staff':
+      return settings.mfaRequiredForStaff
+    case 'admin':
+      return settings.mfaRequiredForAdmins
+    default: {
+      const unmapped: never = user.role
+      throw new Error(`Unknown role: ${unmapped}`)
+    }
+  }
+}
+
+/**
+ * Whether login needs a second step, and whether that step is enrollment
+ */
+export async function getLoginMfaRequirement(
+  user: Pick<AuthUser, 'id' | 'role' | 'clinicId'>
+): Promise<{ challenge: boolean; enrollmentRequired: boolean }> {
+  const [enrollment, required] = await Promise.all([
+    prisma.mfaEnrollment.findUnique({ where: { userId: user.id }, select: { enabledAt: true } }),
+    isMfaRequired(user),
+  ])
+
+  const enabled = !!enrollment?.enabledAt
+  return { challenge: enabled || required, enrollmentRequired: required && !enabled }
+}
+
+/**
+ * Whether a session still owes its second factor: the user has MFA or
+ * their clinic requires it, and the session was not verified at login
+ * Sessions without a session ID cannot have been verified.
+ */
+export async function isSessionMfaPending(
+  sessionId: string | null,
+  user: Pick<AuthUser, 'id' | 'role' | 'clinicId'>
+): Promise<boolean> {
+  if (sessionId) {
+    const session = await prisma.authSession.findUnique({
+      where: { sessionId },
+      select: { userId: true, mfaVerifiedAt: true },
+    })
+    if (session?.userId === user.id && session.mfaVerifiedAt) return false
+  }
+
+  const { challenge } = await getLoginMfaRequirement(user)
+  return challenge
+}
+
+export async function getMfaStatus(user: AuthUser) {
+  const [enrollment, required] = await Promise.all([
+    prisma.mfaEnrollment.findUnique({
+      where: { userId: user.id },
+      select: {
+        enabledAt: true,
+        lastUsedAt: true,
+        _count: { select: { recoveryCodes: { where: { usedAt: null } } } },
+      },
+    }),
+    isMfaRequired(user),
+  ])
+
+  return {
+    enabled: !!enrollment?.enabledAt,
+    enabledAt: enrollment?.enabledAt ?? null,
+    lastUsedAt: enrollment?.lastUsedAt ?? null,
+    pendingEnrollment: !!enrollment && !enrollment.enabledAt,
+    recoveryCodesRemaining: enrollment?.enabledAt ? enrollment._count.recoveryCodes : 0,
+    required,
+  }
+}
+
+// ============================================================================
+// Enrollment
+// ============================================================================
+
+/**
+ * Generate a new secret for the user to add to their authenticator app
+ * Restarting a pending enrollment replaces its secret.
+ */
+export async function startMfaEnrollment(user: AuthUser): Promise<{ secret: string; otpauthUrl: string }> {
+  const existing = await prisma.mfaEnrollment.findUnique({
+    where: { userId: user.id },
+    select: { enabledAt: true },
+  })
+  if (existing?.enabledAt) {
+    throw mfaError('MFA is already enabled', 409)
+  }
+
+  const secret = base32Encode(randomBytes(SECRET_BYTES))
+  const data = {
+    clinicId: user.clinicId,
+    role: toPrismaUserRole(user.role),
+    secretEncrypted: encrypt(secret),
+    enabledAt: null,
+    lastUsedStep: null,
+    lastUsedAt: null,
+  }
+
+  await prisma.mfaEnrollment.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id, ...data },
+    update: data,
+  })
+
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, user.email) }
+}
+
+/**
+ * Enable MFA once the user proves their app generates matching codes
+ * Returns the recovery codes; they are not retrievable afterwards.
+ */
+export async function confirmMfaEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+  const enrollment = await prisma.mfaEnrollment.findUnique({
+    where: { userId },
+    select: { id: true, secretEncrypted: true, enabledAt: true },
+  })
+  if (!enrollment) {
+    throw mfaError('No MFA enrollment in progress', 404)
+  }
+  if (enrollment.enabledAt) {
+    throw mfaError('MFA is already enabled', 409)
+  }
+
+  const step = isTotpCode(code) ? matchTotpStep(decrypt(enrollment.secretEncrypted), code, null) : null
+  if (step === null) {
+    throw mfaError('Invalid verification code', 401)
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  const now = new Date()
+
+  await prisma.$transaction(async (tx) => {
+    // Conditional on still pending, so a concurrent confirm can't issue two sets of codes
+    const { count } = await tx.mfaEnrollment.updateMany({
+      where: { id: enrollment.id, enabledAt: null },
+      data: { enabledAt: now, lastUsedStep: step, lastUsedAt: now },
+    })
+    if (count === 0) {
+      throw mfaError('MFA is already enabled', 409)
+    }
+
+    await tx.mfaRecoveryCode.deleteMany({ where: { enrollmentId: enrollment.id } })
+    await tx.mfaRecoveryCode.createMany({
+      data: recoveryCodes.map((recoveryCode) => ({
+        enrollmentId: enrollment.id,
+        codeHash: sha256(normalizeRecoveryCode(recoveryCode)),
+      })),
+    })
+  })
+
+  return { recoveryCodes }
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a TOTP or recovery code for a user with MFA enabled
+ * Both are single use: TOTP steps can't be replayed and recovery codes
+ * are marked used.
+ */
+export async function verifyMfaCode(userId: string, code: string): Promise<{ method: MfaMethod }> {
+  const enrollment = await prisma.mfaEnrollment.findUnique({
+    where: { userId },
+    select: { id: true, secretEncrypted: true, enabledAt: true, lastUsedStep: true },
+  })
+  if (!enrollment?.enabledAt) {
+    throw mfaError('MFA is not enabled', 400)
+  }
+
+  const now = new Date()
+
+  if (isTotpCode(code)) {
+    const step = matchTotpStep(decrypt(enrollment.secretEncrypted), code, enrollment.lastUsedStep)
+    if (step !== null) {
+      const { count } = await prisma.mfaEnrollment.updateMany({
+        where: {
+          id: enrollment.id,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step, lastUsedAt: now },
+      })
+      if (count > 0) {
+        return { method: 'totp' }
+      }
+    }
+    throw mfaError('Invalid verification code', 401)
+  }
+
+  const { count } = await prisma.mfaRecoveryCode.updateMany({
+    where: {
+      enrollmentId: enrollment.id,
+      codeHash: sha256(normalizeRecoveryCode(code)),
+      usedAt: null,
+    },
+    data: { usedAt: now },
+  })
+  if (count === 0) {
+    throw mfaError('Invalid verification code', 401)
+  }
+
+  await prisma.mfaEnrollment.update({
+    where: { id: enrollment.id },
+    data: { lastUsedAt: now },
+  })
+  return { method: 'recovery_code' }
+}
+
+/**
+ * Replace all recovery codes (requires a current code)
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+  await verifyMfaCode(userId, code)
+
+  const enrollment = await prisma.mfaEnrollment.findUniqueOrThrow({
+    where: { userId },
+    select: { id: true },
+  })
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.$transaction([
+    prisma.mfaRecoveryCode.deleteMany({ where: { enrollmentId: enrollment.id } }),
+    prisma.mfaRecoveryCode.createMany({
+      data: recoveryCodes.map((recoveryCode) => ({
+        enrollmentId: enrollment.id,
+        codeHash: sha256(normalizeRecoveryCode(recoveryCode)),
+      })),
+    }),
+  ])
+
+  return { recoveryCodes }
+}
+
+/**
+ * Turn MFA off (requires a current code; not allowed when policy requires it)
+ */
+export async function disableMfa(user: AuthUser, code: string): Promise<void> {
+  if (await isMfaRequired(user)) {
+    throw mfaError('Your clinic requires MFA for your role', 409)
+  }
+
+  await verifyMfaCode(user.id, code)
+
+  // Recovery codes cascade
+  await prisma.mfaEnrollment.delete({ where: { userId: user.id } })
+}
+
+// ============================================================================
+// Login Challenges
+// ============================================================================
+
+/**
+ * Hold a password-verified login until the second factor is verified
+ * The token goes to the client; only its hash is stored.
+ */
+export async function createMfaChallenge(
+  pending: PendingLogin,
+  enrollmentRequired: boolean
+): Promise<{ challengeToken: string; expiresAt: Date }> {
+  const challengeToken = randomBytes(32).toString('base64url')
+  const now = new Date()
+  const expiresAt = addMinutes(now, CHALLENGE_TTL_MINUTES)
+
+  // Expired challenges for this user are no longer useful
+  await prisma.mfaChallenge.deleteMany({
+    where: { userId: pending.user.id, expiresAt: { lt: now } },
+  })
+
+  await prisma.mfaChallenge.create({
+    data: {
+      tokenHash: sha256(challengeToken),
+      userId: pending.user.id,
+      payloadEncrypted: encrypt(JSON.stringify(pending)),
+      enrollmentRequired,
+      expiresAt,
+    },
+  })
+
+  return { challengeToken, expiresAt }
+}
+
+async function getOpenChallenge(challengeToken: string) {
+  const challenge = await prisma.mfaChallenge.findUnique({
+    where: { tokenHash: sha256(challengeToken) },
+  })
+
+  if (!challenge || challenge.consumedAt || challenge.expiresAt < new Date()) {
+    throw mfaError('MFA challenge is invalid or has expired', 401)
+  }
+  if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    throw mfaError('Too many verification attempts. Please sign in again.', 429)
+  }
+
+  return {
+    id: challenge.id,
+    enrollmentRequired: challenge.enrollmentRequired,
+    pending: JSON.parse(decrypt(challenge.payloadEncrypted)) as PendingLogin,
+  }
+}
+
+/**
+ * Start enrollment from a login challenge the clinic policy requires
+ */
+export async function startChallengeEnrollment(
+  challengeToken: string
+): Promise<{ userId: string; secret: string; otpauthUrl: string }> {
+  const challenge = await getOpenChallenge(challengeToken)
+  if (!challenge.enrollmentRequired) {
+    throw mfaError('MFA is already enabled', 409)
+  }
+
+  const enrollment = await startMfaEnrollment(challenge.pending.user)
+  return { userId: challenge.pending.user.id, ...enrollment }
+}
+
+/**
+ * Verify the second factor and release the held login
+ * Enrollment challenges confirm the enrollment and return its recovery codes.
+ */
+export async function completeMfaChallenge(
+  challengeToken: string,
+  code: string
+): Promise<PendingLogin & { method: MfaMethod; recoveryCodes?: string[] }> {
+  const challenge = await getOpenChallenge(challengeToken)
+  const userId = challenge.pending.user.id
+
+  let result: { method: MfaMethod; recoveryCodes?: string[] }
+  try {
+    if (challenge.enrollmentRequired) {
+      const { recoveryCodes } = await confirmMfaEnrollment(userId, code)
+      result = { method: 'totp', recoveryCodes }
+    } else {
+      result = await verifyMfaCode(userId, code)
+    }
+  } catch (error) {
+    if ((error as Error & { statusCode?: number }).statusCode === 401) {
+      await prisma.mfaChallenge.update({
+        where: { id: challenge.id },
+        data: { attempts: { increment: 1 } },
+      })
+    }
+    throw error
+  }
+
+  const { count } = await prisma.mfaChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  })
+  if (count === 0) {
+    throw mfaError('MFA challenge is invalid or has expired', 401)
+  }
+
+  if (challenge.pending.sessionId) {
+    await markSessionMfaVerified(challenge.pending.sessionId, challenge.pending.user)
+  }
+
+  return { ...challenge.pending, ...result }
+}
+
+/**
+ * Copy the held Supabase session cookies onto the response
+ * Same options as the password-only login.
+ */
+export function setSessionCookies(response: NextResponse, cookies: PendingLogin['cookies']): void {
+  for (const cookie of cookies) {
+    response.cookies.set(cookie.name, cookie.value, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: cookie.name.includes('refresh') ? 60 * 60 * 24 * 7 : 60 * 60, // 7 days for refresh, 1 hour for access
+    })
+  }
+}
+
+// ============================================================================
+// Enrollment Statistics
+// ============================================================================
+
+// Admins, nurses and staff only exist in user_roles
+async function countUserRoles(role: AuthUser['role']): Promise<number> {
+  const supabase = await createClient()
+  const { count } = await supabase
+    .from('user_roles')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('role', role)
+
+  return count ?? 0
+}
+
+/**
+ * Enrollment across all clinics, for the admin security panel
+ */
+export async function getMfaEnrollmentStats(trendDays: number = 30) {
+  const today = startOfDay(new Date())
+  const trendStart = subDays(today, trendDays)
+
+  const [
+    doctorCount,
+    patientCount,
+    nurseCount,
+    staffCount,
+    adminCount,
+    enrolledByRole,
+    enrolledBefore,
+    recentEnrollments,
+  ] = await Promise.all([
+    prisma.doctor.count(),
+    prisma.patient.count(),
+    countUserRoles('nurse'),
+    countUserRoles('staff'),
+    countUserRoles('admin'),
+    prisma.mfaEnrollment.groupBy({
+      by: ['role'],
+      where: { enabledAt: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.mfaEnrollment.count({ where: { enabledAt: { lt: trendStart } } }),
+    prisma.mfaEnrollment.findMany({
+      where: { enabledAt: { gte: trendStart } },
+      select: { enabledAt: true },
+    }),
+  ])
+
+  const enrolled = (role: UserRole) => enrolledByRole.find((row) => row.role === role)?._count._all ?? 0
+  const totalUsers = doctorCount + patientCount + nurseCount + staffCount + adminCount
+  const enrolledUsers = Object.values(UserRole).reduce((sum, role) => sum + enrolled(role), 0)
+
+  // Cumulative enrolled users at the end of each day
+  const enrollmentTrend: Array<{ date: string; enrolled: number }> = []
+  let running = enrolledBefore
+  for (let day = trendStart; day <= today; day = addDays(day, 1)) {
+    const dayEnd = addDays(day, 1)
+    running += recentEnrollments.filter(
+      (enrollment) => enrollment.enabledAt && enrollment.enabledAt >= day && enrollment.enabledAt < dayEnd
+    ).length
+    enrollmentTrend.push({ date: format(day, 'yyyy-MM-dd'), enrolled: running })
+  }
+
+  return {
+    totalUsers,
+    enrolledUsers,
+    enrollmentRate: totalUsers > 0 ? Math.round((enrolledUsers / totalUsers) * 100) : 0,
+    byRole: {
+      doctors: { total: doctorCount, enrolled: enrolled(UserRole.DOCTOR) },
+      patients: { total: patientCount, enrolled: enrolled(UserRole.PATIENT) },
+      nurses: { total: nurseCount, enrolled: enrolled(UserRole.NURSE) },
+      staff: { total: staffCount, enrolled: enrolled(UserRole.STAFF) },
+      admins: { total: adminCount, enrolled: enrolled(UserRole.ADMIN) },
+    },
+    enrollmentTrend,
+  }
+}
@@ -8,7 +8,7 @@
  * - Doctor role verification
  * - Clinic ID matching validation
  * - Relationship verification (appointments, consultations, explicit relationships)
- * - Ownership or doctor access checks
+ * - Ownership, doctor or clinic staff access checks
  * - Comprehensive audit logging
  */
 
@@ -315,6 +315,8 @@ export async function requireDoctorAccessToPatient(
  * This is useful for resources that can be accessed by:
  * - The patient themselves (ownership)
  * - A doctor with proper relationship (doctor access)
+ * - Nurses and staff of the patient's clinic (the route's permission
+ *   decides what they may do)
  * 
  * Throws 403 if neither condition is met
  */
@@ -410,6 +412,25 @@ export async function ensureOwnershipOrDoctor(
       return
     }
 
+    // Nurses and staff work with the patients of their clinic
+    if (user.role === 'nurse' || user.role === 'staff') {
+      await ensurePatientBelongsToDoctorClinic(patientId, user.clinicId, context)
+      logAudit(
+        'CLINIC_STAFF_ACCESS_GRANTED',
+        'user',
+        user.id,
+        user.id,
+        true,
+        {
+          requestId: context?.requestId,
+          pathname: context?.pathname,
+          userRole: user.role,
+          patientId,
+        }
+      )
+      return
+    }
+
     // Default: access denied
     logAudit(
       'ACCESS_DENIED_NO_OWNERSHIP_OR_DOCTOR',
@@ -33,6 +33,7 @@ export const PERMISSIONS = {
   PRESCRIPTIONS_UPDATE: 'prescriptions:update',
   PRESCRIPTIONS_DELETE: 'prescriptions:delete',
   PRESCRIPTIONS_MANAGE: 'prescriptions:manage', // Full CRUD
+  PRESCRIPTIONS_REQUEST_REFILL: 'prescriptions:request_refill',
 
   // Lab orders permissions
   LABS_VIEW: 'labs:view',
@@ -190,8 +191,9 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     // Visit notes - view own
     PERMISSIONS.NOTES_VIEW, // Only own notes
 
-    // Prescriptions - view own
+    // Prescriptions - view own, request refills
     PERMISSIONS.PRESCRIPTIONS_VIEW, // Only own prescriptions
+    PERMISSIONS.PRESCRIPTIONS_REQUEST_REFILL, // Only own prescriptions
 
     // Lab orders - view own
     PERMISSIONS.LABS_VIEW, // Only own labs
@@ -212,8 +214,10 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     PERMISSIONS.FORMS_VIEW,
     PERMISSIONS.FORMS_SUBMIT,
 
-    // Billing - view own
+    // Billing - view own, pay and manage own payment methods
     PERMISSIONS.BILLING_VIEW, // Only own billing
+    PERMISSIONS.BILLING_CREATE, // Only own payments and payment methods
+    PERMISSIONS.BILLING_UPDATE, // Only own payment methods
 
     // Consultations - view own, join
     PERMISSIONS.CONSULTATIONS_VIEW, // Only own consultations
@@ -237,6 +241,51 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     PERMISSIONS.BILLING_MANAGE, // Can manage all billing
   ],
 
+  nurse: [
+    // Appointments - view and help schedule
+    PERMISSIONS.APPOINTMENTS_VIEW,
+    PERMISSIONS.APPOINTMENTS_CREATE,
+    PERMISSIONS.APPOINTMENTS_UPDATE,
+
+    // Signed visit notes, labs and medications - view (patients of their
+    // clinic, for inbox triage)
+    PERMISSIONS.NOTES_VIEW,
+    PERMISSIONS.LABS_VIEW,
+    PERMISSIONS.PRESCRIPTIONS_VIEW,
+
+    // Messages - care-team inbox
+    PERMISSIONS.MESSAGES_VIEW,
+    PERMISSIONS.MESSAGES_SEND,
+
+    // Patients and files - view (patients of their clinic; the chart is
+    // for doctors)
+    PERMISSIONS.PATIENTS_VIEW,
+    PERMISSIONS.FILES_VIEW,
+    PERMISSIONS.FORMS_VIEW,
+
+    // Consultations - view and join (rooming, vitals)
+    PERMISSIONS.CONSULTATIONS_VIEW,
+    PERMISSIONS.VIDEO_JOIN,
+  ],
+
+  staff: [
+    // Appointments - front desk scheduling
+    PERMISSIONS.APPOINTMENTS_VIEW,
+    PERMISSIONS.APPOINTMENTS_CREATE,
+    PERMISSIONS.APPOINTMENTS_UPDATE,
+
+    // Messages - care-team inbox
+    PERMISSIONS.MESSAGES_VIEW,
+    PERMISSIONS.MESSAGES_SEND,
+
+    // Patients - look up patients of their clinic for scheduling
+    PERMISSIONS.PATIENTS_VIEW,
+    PERMISSIONS.FORMS_VIEW,
+
+    // Billing - view
+    PERMISSIONS.BILLING_VIEW,
+  ],
+
   support: [
     // Read-only access to selected scopes
     PERMISSIONS.SUPPORT_VIEW_APPOINTMENTS,
@@ -254,38 +303,69 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
 } as const
 
 /**
- * Check if a user role has a specific permission
- * 
- * @param userRole - The user's role
+ * Permissions that cannot be given through custom roles or per-user grants
+ * Admin access comes only from the built-in admin role.
+ */
+export function isAssignablePermission(permission: string): permission is Permission {
+  return (Object.values(PERMISSIONS) as string[]).includes(permission) && !permission.startsWith('admin:')
+}
+
+/**
+ * Permissions admins may put in custom roles and per-user grants
+ */
+export const ASSIGNABLE_PERMISSIONS: Permission[] = Object.values(PERMISSIONS).filter(isAssignablePermission)
+
+/**
+ * A user's effective permissions
+ * The built-in (or clinic custom) role's permissions plus per-user grants;
+ * `denied` permissions are refused even when implied by a manage
+ * permission. Resolved per user by lib/auth/effective-permissions.ts.
+ */
+export interface PermissionSet {
+  role: UserRole
+  permissions: Permission[]
+  denied: Permission[]
+}
+
+/**
+ * The permission set of a built-in role, without per-user overrides
+ */
+export function getRolePermissionSet(userRole: UserRole): PermissionSet {
+  return { role: userRole, permissions: ROLE_PERMISSIONS[userRole] || [], denied: [] }
+}
+
+/**
+ * Check if a permission set allows a permission
+ *
+ * @param permissionSet - The user's effective permissions
  * @param permission - The permission to check
- * @returns true if the role has the permission, false otherwise
- * 
- * @example
- * ```typescript
- * canAccess('doctor', PERMISSIONS.APPOINTMENTS_MANAGE) // true
- * canAccess('patient', PERMISSIONS.APPOINTMENTS_MANAGE) // false
- * ```
+ * @returns true if the set holds the permission and it is not denied
  */
-export function canAccess(userRole: UserRole, permission: Permission): boolean {
-  const rolePermissions = ROLE_PERMISSIONS[userRole] || []
-  
-  // Check if role has the specific permission
-  if (rolePermissions.includes(permission)) {
+export function permissionSetAllows(permissionSet: PermissionSet, permission: Permission): boolean {
+  const { role, permissions, denied } = permissionSet
+
+  // Explicit denials win over everything else
+  if (denied.includes(permission)) {
+    return false
+  }
+
+  // Check if the set has the specific permission
+  if (permissions.includes(permission)) {
     return true
   }
 
   // Check for wildcard permissions (e.g., APPOINTMENTS_MANAGE includes all appointment permissions)
   // This allows checking for granular permissions when a role has the "manage" permission
   if (permission.includes(':')) {
-    const [resource, action] = permission.split(':')
+    const [resource] = permission.split(':')
     const managePermission = `${resource}:manage` as Permission
-    
-    if (rolePermissions.includes(managePermission)) {
+
+    if (permissions.includes(managePermission) && !denied.includes(managePermission)) {
       return true
     }
 
     // Check if admin has full access
-    if (userRole === 'admin' && rolePermissions.includes(PERMISSIONS.ADMIN_FULL_ACCESS)) {
+    if (role === 'admin' && permissions.includes(PERMISSIONS.ADMIN_FULL_ACCESS)) {
       return true
     }
   }
@@ -293,6 +373,25 @@ export function canAccess(userRole: UserRole, permission: Permission): boolean {
   return false
 }
 
+/**
+ * Check if a user role has a specific permission
+ * Checks the built-in role only; use the user's PermissionSet to include
+ * custom roles and per-user overrides.
+ * 
+ * @param userRole - The user's role
+ * @param permission - The permission to check
+ * @returns true if the role has the permission, false otherwise
+ * 
+ * @example
+ * ```typescript
+ * canAccess('doctor', PERMISSIONS.APPOINTMENTS_MANAGE) // true
+ * canAccess('patient', PERMISSIONS.APPOINTMENTS_MANAGE) // false
+ * ```
+ */
+export function canAccess(userRole: UserRole, permission: Permission): boolean {
+  return permissionSetAllows(getRolePermissionSet(userRole), permission)
+}
+
 /**
  * Check if a user role has any of the specified permissions
  * 
@@ -338,6 +437,7 @@ export function requiresOwnership(permission: Permission): boolean {
     PERMISSIONS.APPOINTMENTS_UPDATE, // Patients can only update their own
     PERMISSIONS.NOTES_VIEW, // Patients can only view their own
     PERMISSIONS.PRESCRIPTIONS_VIEW, // Patients can only view their own
+    PERMISSIONS.PRESCRIPTIONS_REQUEST_REFILL, // Patients can only request their own
     PERMISSIONS.LABS_VIEW, // Patients can only view their own
     PERMISSIONS.PATIENTS_VIEW, // Patients can only view their own
     PERMISSIONS.PATIENTS_UPDATE, // Patients can only update their own
@@ -349,83 +449,44 @@ export function requiresOwnership(permission: Permission): boolean {
   return ownershipRequiredPermissions.includes(permission)
 }
 
+/**
+ * Check if a permission set holds a permission only for resources it owns
+ * Sets with the resource's manage permission (or admin full access) are
+ * not limited to their own records.
+ *
+ * @param permissionSet - The user's effective permissions
+ * @param permission - The permission to check
+ * @returns true if access under the permission is ownership-scoped
+ */
+export function permissionSetRequiresOwnership(permissionSet: PermissionSet, permission: Permission): boolean {
+  if (!requiresOwnership(permission)) {
+    return false
+  }
+
+  const [resource] = permission.split(':')
+  return !permissionSetAllows(permissionSet, `${resource}:manage` as Permission)
+}
+
+/**
+ * Check if a role holds a permission only for resources it owns
+ *
+ * @param userRole - The user's role
+ * @param permission - The permission to check
+ * @returns true if the role's access under the permission is ownership-scoped
+ */
+export function requiresOwnershipForRole(userRole: UserRole, permission: Permission): boolean {
+  return permissionSetRequiresOwnership(getRolePermissionSet(userRole), permission)
+}
+
 /**
  * Route to permission mapping
- * Maps API routes and page routes to required permissions
+ * Maps page routes to required permissions (prefix matched)
+ *
+ * API routes declare their permission in code: every handler under
+ * `app/api` is wrapped in withPermission, or listed in OPEN_API_ROUTES
+ * (scripts/check-route-permissions.ts).
  */
 export const ROUTE_PERMISSIONS: Record<string, Permission | Permission[]> = {
-  // Appointment routes
-  '/api/appointments': PERMISSIONS.APPOINTMENTS_VIEW,
-  '/api/appointments/patient': PERMISSIONS.APPOINTMENTS_VIEW,
-  'POST:/api/appointments': PERMISSIONS.APPOINTMENTS_CREATE,
-  'PUT:/api/appointments': PERMISSIONS.APPOINTMENTS_UPDATE,
-  'DELETE:/api/appointments': PERMISSIONS.APPOINTMENTS_DELETE,
-
-  // Visit notes routes
-  '/api/visit-notes': PERMISSIONS.NOTES_VIEW,
-  '/api/visit-notes/patient': PERMISSIONS.NOTES_VIEW,
-  'POST:/api/visit-notes': PERMISSIONS.NOTES_CREATE,
-  'PUT:/api/visit-notes': PERMISSIONS.NOTES_UPDATE,
-  'DELETE:/api/visit-notes': PERMISSIONS.NOTES_DELETE,
-
-  // Prescription routes
-  '/api/prescriptions': PERMISSIONS.PRESCRIPTIONS_VIEW,
-  'POST:/api/prescriptions': PERMISSIONS.PRESCRIPTIONS_CREATE,
-  'PUT:/api/prescriptions': PERMISSIONS.PRESCRIPTIONS_UPDATE,
-  'DELETE:/api/prescriptions': PERMISSIONS.PRESCRIPTIONS_DELETE,
-
-  // Lab routes
-  '/api/labs': PERMISSIONS.LABS_VIEW,
-  'POST:/api/labs': PERMISSIONS.LABS_CREATE,
-  'PUT:/api/labs': PERMISSIONS.LABS_UPDATE,
-  'DELETE:/api/labs': PERMISSIONS.LABS_DELETE,
-
-  // Message routes
-  '/api/messages': PERMISSIONS.MESSAGES_VIEW,
-  'POST:/api/messages': PERMISSIONS.MESSAGES_SEND,
-  'DELETE:/api/messages': PERMISSIONS.MESSAGES_DELETE,
-
-  // Patient routes
-  '/api/patient': PERMISSIONS.PATIENTS_VIEW,
-  '/api/patients': PERMISSIONS.PATIENTS_VIEW,
-  'POST:/api/patients': PERMISSIONS.PATIENTS_CREATE,
-  'PUT:/api/patients': PERMISSIONS.PATIENTS_UPDATE,
-  'DELETE:/api/patients': PERMISSIONS.PATIENTS_DELETE,
-
-  // File routes
-  '/api/files': PERMISSIONS.FILES_VIEW,
-  '/api/files/upload-url': PERMISSIONS.FILES_UPLOAD,
-  'DELETE:/api/files': PERMISSIONS.FILES_DELETE,
-
-  // Form routes
-  '/api/forms': PERMISSIONS.FORMS_VIEW,
-  'POST:/api/forms': PERMISSIONS.FORMS_CREATE,
-  'PUT:/api/forms': PERMISSIONS.FORMS_UPDATE,
-  'DELETE:/api/forms': PERMISSIONS.FORMS_DELETE,
-  'POST:/api/forms/submit': PERMISSIONS.FORMS_SUBMIT,
-
-  // Billing routes
-  '/api/billing': PERMISSIONS.BILLING_VIEW,
-  '/api/payments': PERMISSIONS.BILLING_VIEW,
-  '/api/payments/patient': PERMISSIONS.BILLING_VIEW,
-  'POST:/api/payments': PERMISSIONS.BILLING_CREATE,
-  'PUT:/api/payments': PERMISSIONS.BILLING_UPDATE,
-
-  // Consultation routes
-  '/api/consultations': PERMISSIONS.CONSULTATIONS_VIEW,
-  'POST:/api/consultations': PERMISSIONS.CONSULTATIONS_CREATE,
-  'PUT:/api/consultations': PERMISSIONS.CONSULTATIONS_UPDATE,
-
-  // Video routes
-  '/api/video': PERMISSIONS.VIDEO_JOIN,
-
-  // Admin routes
-  '/api/admin/audit-logs': PERMISSIONS.ADMIN_AUDIT_LOGS,
-  '/api/auth/approve-doctor': PERMISSIONS.ADMIN_APPROVE_DOCTORS,
-  '/api/admin/users': PERMISSIONS.ADMIN_MANAGE_USERS,
-  '/api/admin/settings': PERMISSIONS.ADMIN_SYSTEM_SETTINGS,
-
-  // Page routes
   '/doctor/appointments': PERMISSIONS.APPOINTMENTS_VIEW,
   '/doctor/patients': PERMISSIONS.PATIENTS_VIEW,
   '/doctor/visit-notes': PERMISSIONS.NOTES_VIEW,
@@ -437,29 +498,92 @@ export const ROUTE_PERMISSIONS: Record<string, Permission | Permission[]> = {
   '/admin': PERMISSIONS.ADMIN_FULL_ACCESS,
 } as const
 
+/**
+ * API routes that don't require a permission
+ * Keys use the route's file-system path, with dynamic segments as written
+ * in `app/api`, optionally prefixed by the HTTP method. A trailing `/*`
+ * covers the path and everything below it.
+ * - public: no session (sign-in, webhooks verified by signature)
+ * - authenticated: any signed-in user, acting on their own account
+ */
+export const OPEN_API_ROUTES: Record<string, 'public' | 'authenticated'> = {
+  '/api/auth': 'public',
+  '/api/auth/login': 'public',
+  '/api/auth/signup': 'public',
+  '/api/auth/session': 'public',
+  '/api/auth/mfa/challenge/*': 'public',
+  '/api/webhooks/*': 'public',
+
+  '/api/auth/logout': 'authenticated',
+  '/api/auth/me': 'authenticated',
+  '/api/auth/mfa/*': 'authenticated',
+  '/api/auth/sessions/*': 'authenticated',
+}
+
+/**
+ * Check if a declared route key covers a route path
+ * Keys may end in `/*` (the path and everything below it) and use
+ * `[param]` segments, which match any single segment.
+ */
+function routeKeyMatches(routeKey: string, pathname: string): boolean {
+  const wildcard = routeKey.endsWith('/*')
+  const keySegments = (wildcard ? routeKey.slice(0, -2) : routeKey).split('/')
+  const pathSegments = pathname.split('/')
+
+  if (wildcard ? pathSegments.length < keySegments.length : pathSegments.length !== keySegments.length) {
+    return false
+  }
+
+  return keySegments.every(
+    (segment, index) => segment === pathSegments[index] || /^\[.+\]$/.test(segment)
+  )
+}
+
+/**
+ * Most specific matching key in a route map: exact keys before patterns,
+ * longer patterns before shorter ones, method-specific before any-method
+ */
+function findRouteEntry<T>(
+  routes: Record<string, T>,
+  method: string,
+  pathname: string
+): T | null {
+  if (routes[`${method}:${pathname}`]) return routes[`${method}:${pathname}`]
+  if (routes[pathname]) return routes[pathname]
+
+  const matches = Object.keys(routes)
+    .map((key) => {
+      const [, keyMethod, routeKey] = key.match(/^(?:(GET|POST|PUT|DELETE|PATCH):)?(.*)$/) || []
+      return { key, keyMethod, routeKey }
+    })
+    .filter(({ keyMethod, routeKey }) => (!keyMethod || keyMethod === method) && routeKeyMatches(routeKey, pathname))
+    .sort(
+      (a, b) =>
+        b.routeKey.replace(/\/\*$/, '').split('/').length - a.routeKey.replace(/\/\*$/, '').split('/').length ||
+        Number(!!b.keyMethod) - Number(!!a.keyMethod) ||
+        Number(a.routeKey.endsWith('/*')) - Number(b.routeKey.endsWith('/*'))
+    )
+
+  return matches.length > 0 ? routes[matches[0].key] : null
+}
+
 /**
  * Get required permission for a route
  * 
  * @param method - HTTP method (GET, POST, etc.) or undefined for GET
- * @param pathname - Route pathname
+ * @param pathname - Route pathname (request path or `app/api` route path)
  * @returns Permission or array of permissions required, or null if no permission required
  */
 export function getRoutePermission(
   method: string = 'GET',
   pathname: string
 ): Permission | Permission[] | null {
-  // Try method-specific route first
-  const methodRoute = `${method}:${pathname}`
-  if (ROUTE_PERMISSIONS[methodRoute]) {
-    return ROUTE_PERMISSIONS[methodRoute]
-  }
-
-  // Try pathname only
-  if (ROUTE_PERMISSIONS[pathname]) {
-    return ROUTE_PERMISSIONS[pathname]
+  const declared = findRouteEntry(ROUTE_PERMISSIONS, method, pathname)
+  if (declared) {
+    return declared
   }
 
-  // Try prefix matching
+  // Try prefix matching (page routes)
   for (const [route, permission] of Object.entries(ROUTE_PERMISSIONS)) {
     if (pathname.startsWith(route.replace(/^(GET|POST|PUT|DELETE|PATCH):/, ''))) {
       return permission
@@ -469,3 +593,16 @@ export function getRoutePermission(
   return null
 }
 
+/**
+ * Access level of an `app/api` route that needs no permission
+ *
+ * @param method - HTTP method exported by the route
+ * @param routePath - Route path with dynamic segments (e.g. `/api/auth/mfa/verify`)
+ * @returns 'public' / 'authenticated', or null if the route isn't open
+ */
+export function getOpenRouteAccess(
+  method: string,
+  routePath: string
+): 'public' | 'authenticated' | null {
+  return findRouteEntry(OPEN_API_ROUTES, method, routePath)
+}
@@ -0,0 +1,30 @@
+/**
+ * Role Mapping
+ *
+ * user_roles (Supabase) stores roles in lowercase ('nurse'); Prisma tables
+ * that record a role use the UserRole enum (NURSE). Every role maps
+ * explicitly, so adding one to AuthUser['role'] fails the type-check here
+ * until it is mapped.
+ */
+
+import { UserRole } from '@prisma/client'
+import type { AuthUser } from '@/lib/auth/types'
+
+export function toPrismaUserRole(role: AuthUser['role']): UserRole {
+  switch (role) {
+    case 'admin':
+      return UserRole.ADMIN
+    case 'doctor':
+      return UserRole.DOCTOR
+    case 'nurse':
+      return UserRole.NURSE
+    case 'staff':
+      return UserRole.STAFF
+    case 'patient':
+      return UserRole.PATIENT
+    default: {
+      const unmapped: never = role
+      throw new Error(`Unknown role: ${unmapped}`)
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Session Timeout Policy
+ *
+ * Shared by middleware (edge runtime) and the server-side session registry,
+ * so this module must not import Prisma or Node-only APIs.
+ *
+ * Sessions are identified by the session_id claim Supabase puts in every
+ * access token; it stays the same across token refreshes until sign-out.
+ */
+
+// Minutes without a requireSession call before a session ends
+export const SESSION_IDLE_TIMEOUT_MINUTES = Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 30
+
+// Hours after sign-in when a session ends regardless of activity
+export const SESSION_ABSOLUTE_TIMEOUT_HOURS = Number(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS) || 12
+
+export type SessionEndReason = 'logout' | 'user' | 'admin' | 'idle_timeout' | 'absolute_timeout'
+
+export interface SessionTimestamps {
+  createdAt: Date
+  lastActiveAt: Date
+  revokedAt: Date | null
+  revokedReason: string | null
+}
+
+/**
+ * Supabase session ID from an access token, or null if absent
+ * The token must already have been validated (supabase.auth.getUser).
+ */
+export function getSessionIdFromAccessToken(accessToken: string | null | undefined): string | null {
+  try {
+    const payload = accessToken?.split('.')[1]
+    if (!payload) return null
+
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    const claims = JSON.parse(json) as { session_id?: unknown }
+    return typeof claims.session_id === 'string' ? claims.session_id : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Why the session has ended, or null while it is still usable
+ */
+export function getSessionEndReason(session: SessionTimestamps, now: Date = new Date()): SessionEndReason | null {
+  if (session.revokedAt) {
+    return (session.revokedReason as SessionEndReason | null) || 'admin'
+  }
+
+  const absoluteDeadline = session.createdAt.getTime() + SESSION_ABSOLUTE_TIMEOUT_HOURS * 60 * 60 * 1000
+  if (now.getTime() >= absoluteDeadline) {
+    return 'absolute_timeout'
+  }
+
+  const idleDeadline = session.lastActiveAt.getTime() + SESSION_IDLE_TIMEOUT_MINUTES * 60 * 1000
+  if (now.getTime() >= idleDeadline) {
+    return 'idle_timeout'
+  }
+
+  return null
+}
+
+// Request made with a session that has not passed the MFA challenge
+export const MFA_REQUIRED_MESSAGE = 'Unauthorized: Multi-factor authentication required'
+
+/**
+ * Message for a request made with an ended session
+ */
+export function getSessionEndMessage(reason: SessionEndReason): string {
+  switch (reason) {
+    case 'idle_timeout':
+      return 'Unauthorized: Session expired due to inactivity'
+    case 'absolute_timeout':
+      return 'Unauthorized: Session expired'
+    default:
+      return 'Unauthorized: Session has been revoked'
+  }
+}
+
+/**
+ * Short device description ("Chrome on macOS") from a user agent
+ */
+export function describeDevice(userAgent: string | null | undefined): string | null {
+  if (!userAgent || userAgent === 'unknown') return null
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || 'Unknown device'
+}
@@ -0,0 +1,310 @@
+/**
+ * Session Registry
+ *
+ * Server-side record of signed-in sessions, keyed by the Supabase
+ * session_id claim. requireSession registers a session the first time it
+ * sees it and records device, IP and last activity on every call after
+ * that; revoked sessions and sessions past the idle or absolute timeout
+ * (lib/auth/session-policy.ts) are rejected there and in middleware.
+ *
+ * Revocation marks the row: the Supabase tokens stay valid until they
+ * expire, but every route behind middleware or requireSession refuses them.
+ * The row also records when the session passed MFA (lib/auth/mfa.ts).
+ */
+
+import { Prisma } from '@prisma/client'
+import type { NextRequest } from 'next/server'
+import { prisma } from '@/db/prisma'
+import { createRouteHandlerClient } from '@/lib/auth/supabase'
+import type { AuthUser } from '@/lib/auth/types'
+import { toPrismaUserRole } from '@/lib/auth/roles'
+import {
+  describeDevice,
+  getSessionEndReason,
+  getSessionIdFromAccessToken,
+  type SessionEndReason,
+} from '@/lib/auth/session-policy'
+
+// Activity is written at most this often per session
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000
+
+export const authSessionSelect = {
+  id: true,
+  userId: true,
+  clinicId: true,
+  role: true,
+  ipAddress: true,
+  userAgent: true,
+  device: true,
+  createdAt: true,
+  lastActiveAt: true,
+  revokedAt: true,
+  revokedBy: true,
+  revokedReason: true,
+  mfaVerifiedAt: true,
+} satisfies Prisma.AuthSessionSelect
+
+type AuthSessionRow = Prisma.AuthSessionGetPayload<{ select: typeof authSessionSelect }>
+
+function sessionError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+function knownValue(value: string | undefined): string | null {
+  return value && value !== 'unknown' ? value : null
+}
+
+/**
+ * Record activity on a session, registering it on first sight
+ * Returns why the session has ended, or null if it is still usable.
+ */
+export async function recordSessionActivity(activity: {
+  sessionId: string
+  user: Pick<AuthUser, 'id' | 'clinicId' | 'role'>
+  ip?: string
+  userAgent?: string
+}): Promise<SessionEndReason | null> {
+  const now = new Date()
+  const ipAddress = knownValue(activity.ip)
+  const userAgent = knownValue(activity.userAgent)
+
+  const existing = await prisma.authSession.findUnique({
+    where: { sessionId: activity.sessionId },
+    select: {
+      id: true,
+      userId: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+      lastActiveAt: true,
+      revokedAt: true,
+      revokedReason: true,
+    },
+  })
+
+  if (!existing) {
+    try {
+      await prisma.authSession.create({
+        data: {
+          sessionId: activity.sessionId,
+          userId: activity.user.id,
+          clinicId: activity.user.clinicId,
+          role: toPrismaUserRole(activity.user.role),
+          ipAddress,
+          userAgent,
+          device: describeDevice(userAgent),
+          createdAt: now,
+          lastActiveAt: now,
+        },
+      })
+      return null
+    } catch (error) {
+      // A concurrent request registered it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return recordSessionActivity(activity)
+      }
+      throw error
+    }
+  }
+
+  // Supabase session IDs are per user; anything else is not this session
+  if (existing.userId !== activity.user.id) {
+    return 'admin'
+  }
+
+  const endReason = getSessionEndReason(existing, now)
+  if (endReason) {
+    if (!existing.revokedAt) {
+      await prisma.authSession.updateMany({
+        where: { id: existing.id, revokedAt: null },
+        data: { revokedAt: now, revokedReason: endReason },
+      })
+    }
+    return endReason
+  }
+
+  const changed =
+    (ipAddress !== null && ipAddress !== existing.ipAddress) ||
+    (userAgent !== null && userAgent !== existing.userAgent)
+
+  if (changed || now.getTime() - existing.lastActiveAt.getTime() >= ACTIVITY_WRITE_INTERVAL_MS) {
+    await prisma.authSession.update({
+      where: { id: existing.id },
+      data: {
+        lastActiveAt: now,
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent, device: describeDevice(userAgent) }),
+      },
+    })
+  }
+
+  return null
+}
+
+function toSessionResponse(row: AuthSessionRow) {
+  const endReason = getSessionEndReason(row)
+  return { ...row, active: endReason === null, endReason }
+}
+
+/**
+ * The user's active sessions, most recently used first
+ */
+export async function listUserSessions(user: AuthUser, accessToken: string) {
+  const currentSessionId = getSessionIdFromAccessToken(accessToken)
+
+  const rows = await prisma.authSession.findMany({
+    where: { userId: user.id, revokedAt: null },
+    select: { ...authSessionSelect, sessionId: true },
+    orderBy: { lastActiveAt: 'desc' },
+  })
+
+  // The Supabase session ID stays server-side; clients revoke by row ID
+  return rows
+    .map(({ sessionId, ...row }) => ({ ...toSessionResponse(row), current: sessionId === currentSessionId }))
+    .filter((session) => session.active)
+}
+
+/**
+ * Revoke one of the user's own sessions
+ */
+export async function revokeUserSession(user: AuthUser, id: string): Promise<void> {
+  const { count } = await prisma.authSession.updateMany({
+    where: { id, userId: user.id, revokedAt: null },
+    data: { revokedAt: new Date(), revokedBy: user.id, revokedReason: 'user' },
+  })
+
+  if (count === 0) {
+    throw sessionError('Session not found', 404)
+  }
+}
+
+/**
+ * Revoke all of the user's sessions except the one making the request
+ */
+export async function revokeOtherUserSessions(user: AuthUser, accessToken: string): Promise<number> {
+  const currentSessionId = getSessionIdFromAccessToken(accessToken)
+
+  const { count } = await prisma.authSession.updateMany({
+    where: {
+      userId: user.id,
+      revokedAt: null,
+      ...(currentSessionId && { NOT: { sessionId: currentSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedBy: user.id, revokedReason: 'user' },
+  })
+
+  return count
+}
+
+/**
+ * Admin force-logout of every active session of a user or a clinic
+ */
+export async function revokeSessions(
+  admin: AuthUser,
+  target: { userId?: string; clinicId?: string }
+): Promise<number> {
+  if (!target.userId && !target.clinicId) {
+    throw sessionError('A user or clinic is required', 400)
+  }
+
+  const { count } = await prisma.authSession.updateMany({
+    where: {
+      revokedAt: null,
+      ...(target.userId && { userId: target.userId }),
+      ...(target.clinicId && { clinicId: target.clinicId }),
+      // An admin ending a whole clinic keeps their own session
+      ...(!target.userId && { NOT: { userId: admin.id } }),
+    },
+    data: { revokedAt: new Date(), revokedBy: admin.id, revokedReason: 'admin' },
+  })
+
+  return count
+}
+
+/**
+ * Record that the session's second factor was verified
+ * Registers the session if requireSession has not seen it yet.
+ */
+export async function markSessionMfaVerified(
+  sessionId: string,
+  user: Pick<AuthUser, 'id' | 'clinicId' | 'role'>
+): Promise<void> {
+  const now = new Date()
+  await prisma.authSession.upsert({
+    where: { sessionId },
+    create: {
+      sessionId,
+      userId: user.id,
+      clinicId: user.clinicId,
+      role: toPrismaUserRole(user.role),
+      createdAt: now,
+      lastActiveAt: now,
+      mfaVerifiedAt: now,
+    },
+    update: { mfaVerifiedAt: now },
+  })
+}
+
+/**
+ * Mark the request's session as signed out (logout route)
+ */
+export async function endSessionForRequest(request: NextRequest): Promise<void> {
+  const { supabase } = createRouteHandlerClient(request)
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const sessionId = getSessionIdFromAccessToken(session?.access_token)
+  if (!sessionId) return
+
+  await prisma.authSession.updateMany({
+    where: { sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedBy: session?.user?.id ?? null, revokedReason: 'logout' },
+  })
+}
+
+/**
+ * Sessions started in the period, for the admin security panel
+ */
+export async function listSessionsForAdmin(options: {
+  since: Date
+  clinicId?: string
+  userId?: string
+  limit?: number
+}) {
+  const rows = await prisma.authSession.findMany({
+    where: {
+      createdAt: { gte: options.since },
+      ...(options.clinicId && { clinicId: options.clinicId }),
+      ...(options.userId && { userId: options.userId }),
+    },
+    select: authSessionSelect,
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 500,
+  })
+
+  const sessions = rows.map((row) => toSessionResponse(row))
+
+  // Duration of ended sessions, to their revocation or last activity
+  const durations = sessions
+    .filter((session) => !session.active)
+    .map((session) => ((session.revokedAt ?? session.lastActiveAt).getTime() - session.createdAt.getTime()) / 60000)
+
+  return {
+    sessions,
+    statistics: {
+      total: sessions.length,
+      active: sessions.filter((session) => session.active).length,
+      expired: sessions.filter(
+        (session) => session.endReason === 'idle_timeout' || session.endReason === 'absolute_timeout'
+      ).length,
+      revoked: sessions.filter((session) => session.endReason === 'user' || session.endReason === 'admin').length,
+      completed: sessions.filter((session) => session.endReason === 'logout').length,
+      averageDurationMinutes: durations.length
+        ? Math.round(durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length)
+        : 0,
+    },
+  }
+}
@@ -1,7 +1,7 @@
 // Authentication types and interfaces
 // TODO: Define user roles and authentication types
 
-export type UserRole = 'doctor' | 'patient' | 'admin'
+export type UserRole = 'doctor' | 'patient' | 'admin' | 'nurse' | 'staff'
 
 export interface AuthUser {
   id: string
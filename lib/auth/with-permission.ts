@@ -0,0 +1,127 @@
+/**
+ * Permission Route Wrapper
+ *
+ * Declarative permission check for API route handlers:
+ *
+ *   export const GET = withPermission(PERMISSIONS.LABS_VIEW, async (request, { session, context }) => {
+ *     ...
+ *   })
+ *
+ * The wrapper requires a session, checks the user's effective permissions
+ * (their built-in or clinic custom role plus per-user grants and denials,
+ * lib/auth/custom-roles.ts) hold the permission, applies the permission's
+ * ownership rule and audit logs denials. Handlers keep their own
+ * validation, service calls and error handling.
+ *
+ * Ownership: when the user holds the permission only for resources they own
+ * (permissionSetRequiresOwnership), `ownOnly` is set for the handler and, if the
+ * route resolves the resource's patient (options.patientId), access to that
+ * patient is verified - the patient themselves, a doctor with a care
+ * relationship, or other staff of the patient's clinic.
+ */
+
+import { NextRequest } from 'next/server'
+import { apiError } from './api-protection'
+import {
+  requireSession,
+  ensureOwnershipOrDoctor,
+  getGuardContext,
+  type GuardContext,
+  type UserSession,
+} from './guards'
+import { ensurePatientBelongsToDoctorClinic } from './patient-access'
+import { getEffectivePermissions } from './custom-roles'
+import { permissionSetAllows, permissionSetRequiresOwnership, type Permission } from './permissions'
+import { logAudit } from '@/lib/security/logging'
+
+export interface PermissionRouteContext<P> {
+  session: UserSession
+  context: GuardContext
+  params: P
+  permissions: Permission[] // The route's permissions the user holds
+  ownOnly: boolean // The user holds them only for resources they own
+}
+
+export interface WithPermissionOptions<P> {
+  // Patient the requested resource belongs to, for the ownership check
+  patientId?: (request: NextRequest, params: P) => string | null | undefined | Promise<string | null | undefined>
+}
+
+type PermissionHandler<P> = (request: NextRequest, route: PermissionRouteContext<P>) => Promise<Response>
+
+/**
+ * Verify the user may access a patient's records under an ownership rule
+ */
+async function requirePatientOwnership(
+  session: UserSession,
+  patientId: string,
+  context: GuardContext
+): Promise<void> {
+  if (session.role === 'patient' || session.role === 'doctor') {
+    await ensureOwnershipOrDoctor(session, patientId, context)
+    return
+  }
+
+  // Nurses and staff work with the patients of their clinic
+  await ensurePatientBelongsToDoctorClinic(patientId, session.clinicId, context)
+}
+
+/**
+ * Wrap a route handler with a permission check
+ * With several permissions, holding any one of them is enough.
+ */
+export function withPermission<P = Record<string, never>>(
+  permission: Permission | Permission[],
+  handler: PermissionHandler<P>,
+  options: WithPermissionOptions<P> = {}
+) {
+  const required = Array.isArray(permission) ? permission : [permission]
+
+  return async (request: NextRequest, routeContext?: { params: P }): Promise<Response> => {
+    const context = getGuardContext(request)
+    const params = (routeContext?.params ?? {}) as P
+
+    try {
+      // 1. Require valid session
+      const session = await requireSession(request)
+
+      // 2. Resolve the permissions the user holds
+      const permissionSet = await getEffectivePermissions(session)
+      const permissions = required.filter((candidate) => permissionSetAllows(permissionSet, candidate))
+
+      if (permissions.length === 0) {
+        logAudit(
+          'PERMISSION_DENIED',
+          'user',
+          session.id,
+          session.id,
+          false,
+          {
+            requestId: context.requestId,
+            pathname: context.pathname,
+            method: context.method,
+            userRole: session.role,
+            requiredPermissions: required,
+            clinicId: session.clinicId,
+          }
+        )
+        return apiError('Forbidden: Insufficient permissions', 403, context.requestId)
+      }
+
+      // 3. Apply ownership rules
+      const ownOnly = permissions.every((granted) => permissionSetRequiresOwnership(permissionSet, granted))
+
+      if (ownOnly && options.patientId) {
+        const patientId = await options.patientId(request, params)
+        if (patientId) {
+          await requirePatientOwnership(session, patientId, context)
+        }
+      }
+
+      return await handler(request, { session, context, params, permissions, ownOnly })
+    } catch (error: any) {
+      const statusCode = (error as Error & { statusCode?: number }).statusCode || 500
+      return apiError(error.message || 'Internal server error', statusCode, context.requestId)
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Cache Utilities for Clinic Settings
  * 
- * Caches clinic settings using LRU cache for fast repeated access
+ * Caches clinic settings and lifecycle status using LRU cache for fast repeated access
  */
 
 import { cacheGet, cacheSet, cacheInvalidate, CacheType } from './index'
@@ -46,3 +46,43 @@ export async function invalidateClinicSettings(clinicId: string): Promise<void>
   })
 }
 
+
+const STATUS_CACHE_PREFIX = 'clinic:status:'
+
+/**
+ * Get cached clinic lifecycle status
+ */
+export async function getCachedClinicStatus(clinicId: string): Promise<string | null> {
+  const key = `${STATUS_CACHE_PREFIX}${clinicId}`
+  return cacheGet(key, {
+    strategy: 'lru',
+    cacheType: CacheType.CLINIC_SETTINGS,
+  })
+}
+
+/**
+ * Cache clinic lifecycle status
+ */
+export async function setCachedClinicStatus(
+  clinicId: string,
+  status: string,
+  ttl: number = 60 // 1 minute default - suspensions must take effect quickly
+): Promise<void> {
+  const key = `${STATUS_CACHE_PREFIX}${clinicId}`
+  await cacheSet(key, status, {
+    strategy: 'lru',
+    cacheType: CacheType.CLINIC_SETTINGS,
+    ttl,
+  })
+}
+
+/**
+ * Invalidate cached clinic lifecycle status
+ */
+export async function invalidateClinicStatus(clinicId: string): Promise<void> {
+  const key = `${STATUS_CACHE_PREFIX}${clinicId}`
+  await cacheInvalidate(key, {
+    strategy: 'lru',
+    cacheType: CacheType.CLINIC_SETTINGS,
+  })
+}
@@ -18,8 +18,9 @@ export interface RedisCacheOptions {
 
 /**
  * Initialize Redis client (singleton pattern)
+ * Shared with the Redis rate limit store (lib/security/rate-limit-store.ts)
  */
-function getRedisClient() {
+export function getRedisClient() {
   if (redisClient) {
     return redisClient
   }
@@ -0,0 +1,179 @@
+/**
+ * Clinic Lifecycle
+ *
+ * Creation and status transitions for clinic tenants.
+ *
+ * Allowed transitions:
+ * - suspend:    ACTIVE    -> SUSPENDED
+ * - reactivate: SUSPENDED -> ACTIVE
+ * - archive:    ACTIVE | SUSPENDED -> ARCHIVED (terminal)
+ *
+ * Users of a non-active clinic are rejected by requireSession,
+ * except admins, who must be able to reactivate their clinic.
+ */
+
+import { ClinicStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import {
+  getCachedClinicStatus,
+  setCachedClinicStatus,
+  invalidateClinicStatus,
+  invalidateClinicSettings,
+} from '@/lib/cache/clinic-settings'
+import { DEFAULT_CLINIC_SETTINGS, type ClinicSettingsData } from './settings'
+
+export type ClinicLifecycleAction = 'suspend' | 'reactivate' | 'archive'
+
+const TRANSITIONS: Record<ClinicLifecycleAction, { from: ClinicStatus[]; to: ClinicStatus }> = {
+  suspend: { from: [ClinicStatus.ACTIVE], to: ClinicStatus.SUSPENDED },
+  reactivate: { from: [ClinicStatus.SUSPENDED], to: ClinicStatus.ACTIVE },
+  archive: { from: [ClinicStatus.ACTIVE, ClinicStatus.SUSPENDED], to: ClinicStatus.ARCHIVED },
+}
+
+export interface CreateClinicInput {
+  id?: string
+  name: string
+  timezone?: string
+  phone?: string
+  email?: string
+  addressLine1?: string
+  addressLine2?: string
+  city?: string
+  state?: string
+  postalCode?: string
+  country?: string
+  settings?: Partial<ClinicSettingsData>
+}
+
+/**
+ * Derive a clinic identifier from its name (e.g. "Bay Area Health" -> "bay-area-health")
+ */
+export function slugifyClinicId(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 64)
+}
+
+/**
+ * Create a clinic together with its settings row
+ * Throws 409 if the identifier is already taken
+ */
+export async function createClinic(input: CreateClinicInput) {
+  const { settings, id, ...profile } = input
+  const clinicId = id || slugifyClinicId(input.name)
+
+  if (!clinicId) {
+    const error: Error & { statusCode?: number } = new Error('Clinic identifier could not be derived from name')
+    error.statusCode = 400
+    throw error
+  }
+
+  try {
+    return await prisma.clinic.create({
+      data: {
+        id: clinicId,
+        ...profile,
+        settings: {
+          create: { ...DEFAULT_CLINIC_SETTINGS, ...settings },
+        },
+      },
+      include: { settings: true },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const conflict: Error & { statusCode?: number } = new Error('A clinic with this identifier already exists')
+      conflict.statusCode = 409
+      throw conflict
+    }
+    throw error
+  }
+}
+
+/**
+ * Apply a lifecycle action to a clinic
+ * Throws 404 if the clinic does not exist, 409 if the transition is not allowed
+ */
+export async function transitionClinicStatus(
+  clinicId: string,
+  action: ClinicLifecycleAction,
+  reason?: string
+) {
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: { id: true, status: true },
+  })
+
+  if (!clinic) {
+    const error: Error & { statusCode?: number } = new Error('Clinic not found')
+    error.statusCode = 404
+    throw error
+  }
+
+  const transition = TRANSITIONS[action]
+  if (!transition.from.includes(clinic.status)) {
+    const error: Error & { statusCode?: number } = new Error(
+      `Cannot ${action} a clinic that is ${clinic.status.toLowerCase()}`
+    )
+    error.statusCode = 409
+    throw error
+  }
+
+  const now = new Date()
+  const data: Prisma.ClinicUpdateInput = { status: transition.to }
+
+  switch (action) {
+    case 'suspend':
+      data.suspendedAt = now
+      data.suspendedReason = reason || null
+      break
+    case 'reactivate':
+      data.suspendedAt = null
+      data.suspendedReason = null
+      break
+    case 'archive':
+      data.archivedAt = now
+      break
+  }
+
+  // Guard against a concurrent transition by matching on the status we read
+  const result = await prisma.clinic.updateMany({
+    where: { id: clinicId, status: clinic.status },
+    data: data as Prisma.ClinicUpdateManyMutationInput,
+  })
+
+  if (result.count === 0) {
+    const error: Error & { statusCode?: number } = new Error('Clinic status changed concurrently, please retry')
+    error.statusCode = 409
+    throw error
+  }
+
+  await Promise.all([invalidateClinicStatus(clinicId), invalidateClinicSettings(clinicId)])
+
+  return prisma.clinic.findUnique({ where: { id: clinicId } })
+}
+
+/**
+ * Get a clinic's lifecycle status (cached briefly)
+ * Returns null if the clinic does not exist
+ */
+export async function getClinicStatus(clinicId: string): Promise<ClinicStatus | null> {
+  const cached = await getCachedClinicStatus(clinicId)
+  if (cached) {
+    return cached as ClinicStatus
+  }
+
+  const clinic = await prisma.clinic.findUnique({
+    where: { id: clinicId },
+    select: { status: true },
+  })
+
+  if (!clinic) {
+    return null
+  }
+
+  await setCachedClinicStatus(clinicId, clinic.status)
+  return clinic.status
+}
@@ -0,0 +1,119 @@
+/**
+ * Clinic Settings
+ *
+ * Read-through access to persisted clinic settings.
+ * The database row is the source of truth; the LRU cache only
+ * avoids repeated lookups and is invalidated on every write.
+ */
+
+import { prisma } from '@/db/prisma'
+import { DEFAULT_AI_MODEL } from '@/lib/ai/models'
+import {
+  getCachedClinicSettings,
+  setCachedClinicSettings,
+  invalidateClinicSettings,
+} from '@/lib/cache/clinic-settings'
+
+export interface ClinicSettingsData {
+  defaultVisitDuration: number
+  appointmentBufferMinutes: number
+  specialtiesEnabled: string[]
+  aiNoteTemplates: string[]
+  aiModel: string
+  selfSchedulingEnabled: boolean
+  minBookingNoticeHours: number
+  maxBookingAdvanceDays: number
+  rescheduleCutoffHours: number
+  cancellationCutoffHours: number
+  messageSlaHours: number
+  clinicalMessageSlaHours: number
+  refillMessageSlaHours: number
+  billingMessageSlaHours: number
+  mfaRequiredForDoctors: boolean
+  mfaRequiredForStaff: boolean // Nurses and staff
+  mfaRequiredForAdmins: boolean
+}
+
+/**
+ * Defaults applied when a clinic has no settings row yet
+ */
+export const DEFAULT_CLINIC_SETTINGS: ClinicSettingsData = {
+  defaultVisitDuration: 30,
+  appointmentBufferMinutes: 0,
+  specialtiesEnabled: [],
+  aiNoteTemplates: [],
+  aiModel: DEFAULT_AI_MODEL,
+  selfSchedulingEnabled: true,
+  minBookingNoticeHours: 2,
+  maxBookingAdvanceDays: 60,
+  rescheduleCutoffHours: 24,
+  cancellationCutoffHours: 24,
+  messageSlaHours: 24,
+  clinicalMessageSlaHours: 4,
+  refillMessageSlaHours: 48,
+  billingMessageSlaHours: 72,
+  mfaRequiredForDoctors: false,
+  mfaRequiredForStaff: false,
+  mfaRequiredForAdmins: false,
+}
+
+const clinicSettingsSelect = {
+  defaultVisitDuration: true,
+  appointmentBufferMinutes: true,
+  specialtiesEnabled: true,
+  aiNoteTemplates: true,
+  aiModel: true,
+  selfSchedulingEnabled: true,
+  minBookingNoticeHours: true,
+  maxBookingAdvanceDays: true,
+  rescheduleCutoffHours: true,
+  cancellationCutoffHours: true,
+  messageSlaHours: true,
+  clinicalMessageSlaHours: true,
+  refillMessageSlaHours: true,
+  billingMessageSlaHours: true,
+  mfaRequiredForDoctors: true,
+  mfaRequiredForStaff: true,
+  mfaRequiredForAdmins: true,
+} as const
+
+/**
+ * Get settings for a clinic, falling back to defaults
+ */
+export async function getClinicSettings(clinicId: string): Promise<ClinicSettingsData> {
+  const cached = await getCachedClinicSettings(clinicId)
+  if (cached) {
+    // Entries cached before a settings field existed pick up its default
+    return { ...DEFAULT_CLINIC_SETTINGS, ...(cached as Partial<ClinicSettingsData>) }
+  }
+
+  const row = await prisma.clinicSettings.findUnique({
+    where: { clinicId },
+    select: clinicSettingsSelect,
+  })
+
+  const settings: ClinicSettingsData = row
+    ? { ...DEFAULT_CLINIC_SETTINGS, ...row }
+    : { ...DEFAULT_CLINIC_SETTINGS }
+
+  await setCachedClinicSettings(clinicId, settings)
+  return settings
+}
+
+/**
+ * Persist a partial settings update and invalidate the cache
+ */
+export async function updateClinicSettings(
+  clinicId: string,
+  updates: Partial<ClinicSettingsData>
+): Promise<ClinicSettingsData> {
+  const row = await prisma.clinicSettings.upsert({
+    where: { clinicId },
+    create: { clinicId, ...DEFAULT_CLINIC_SETTINGS, ...updates },
+    update: updates,
+    select: clinicSettingsSelect,
+  })
+
+  await invalidateClinicSettings(clinicId)
+  return { ...DEFAULT_CLINIC_SETTINGS, ...row }
+}
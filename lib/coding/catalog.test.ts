@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { lookupCode, normalizeCode, searchCodes, suggestCodes, validateCodes } from './catalog'
+
+describe('normalizeCode', () => {
+  it('returns the canonical form of ICD-10-CM and CPT codes', () => {
+    expect(normalizeCode('j029')).toBe('J02.9')
+    expect(normalizeCode(' J02.9 ')).toBe('J02.9')
+    expect(normalizeCode('I10')).toBe('I10')
+    expect(normalizeCode('99213')).toBe('99213')
+    expect(normalizeCode('R06.02 - Shortness of breath')).toBe('R06.02')
+  })
+
+  it('rejects text not shaped like a code, or a code of the other system', () => {
+    expect(normalizeCode('sore throat')).toBeNull()
+    expect(normalizeCode('99213', 'ICD10')).toBeNull()
+    expect(normalizeCode('J02.9', 'CPT')).toBeNull()
+  })
+})
+
+describe('lookupCode', () => {
+  it('finds catalogue entries in any form', () => {
+    expect(lookupCode('j029')).toMatchObject({ code: 'J02.9', system: 'ICD10' })
+    expect(lookupCode('99213')).toMatchObject({ code: '99213', system: 'CPT' })
+    expect(lookupCode('Z99.999')).toBeUndefined()
+  })
+})
+
+describe('validateCodes', () => {
+  it('splits codes into catalogue entries, deduplicated in input order, and unknown codes', () => {
+    const { valid, invalid } = validateCodes(['99213', 'J02.9', 'j029', 'Z99.999', 'not a code'])
+
+    expect(valid.map((entry) => entry.code)).toEqual(['99213', 'J02.9'])
+    expect(invalid).toEqual(['Z99.999', 'not a code'])
+  })
+
+  it('limits codes to one system', () => {
+    expect(validateCodes(['J02.9', '99213'], 'CPT').invalid).toEqual(['J02.9'])
+  })
+})
+
+describe('searchCodes', () => {
+  it('matches code prefixes, ignoring the dot', () => {
+    const codes = searchCodes('J02').map((entry) => entry.code)
+
+    expect(codes.slice(0, 2)).toEqual(['J02.0', 'J02.9'])
+    expect(searchCodes('j029').map((entry) => entry.code)).toContain('J02.9')
+  })
+
+  it('matches words of the description and keywords', () => {
+    expect(searchCodes('strep').map((entry) => entry.code)).toContain('J02.0')
+    expect(searchCodes('high blood', { system: 'ICD10' }).map((entry) => entry.code)).toContain('I10')
+  })
+
+  it('returns nothing for a blank query', () => {
+    expect(searchCodes('  ')).toEqual([])
+  })
+})
+
+describe('suggestCodes', () => {
+  it('suggests codes named in the text with full confidence', () => {
+    const [suggestion] = suggestCodes('Assessment: J02.9')
+
+    expect(suggestion).toMatchObject({ code: 'J02.9', score: 1 })
+  })
+
+  it('suggests codes from keyword phrases', () => {
+    const codes = suggestCodes('Sore throat for three days.', { system: 'ICD10' }).map((suggestion) => suggestion.code)
+
+    expect(codes).toContain('J02.9')
+  })
+
+  it('ignores negated and uncertain findings', () => {
+    const codes = suggestCodes('Denies fever. Rule out strep throat.', { system: 'ICD10' }).map(
+      (suggestion) => suggestion.code
+    )
+
+    expect(codes).not.toContain('R50.9')
+    expect(codes).not.toContain('J02.0')
+  })
+
+  it('lets a longer phrase claim its words', () => {
+    const codes = suggestCodes('Strep throat confirmed on rapid test.', { system: 'ICD10' }).map(
+      (suggestion) => suggestion.code
+    )
+
+    expect(codes[0]).toBe('J02.0')
+  })
+
+  it('ranks best first within the limit', () => {
+    const suggestions = suggestCodes('Hypertension and type 2 diabetes, sore throat.', { system: 'ICD10', limit: 2 })
+
+    expect(suggestions).toHaveLength(2)
+    expect(suggestions[0].score).toBeGreaterThanOrEqual(suggestions[1].score)
+  })
+})
@@ -0,0 +1,263 @@
+/**
+ * Code Catalogue
+ *
+ * Bundled ICD-10-CM diagnosis codes (./icd10-cm.ts) and CPT procedure
+ * codes (./cpt.ts) that visit notes may carry. Everything runs in memory:
+ * - normalizeCode / lookupCode: canonical form ("j029" -> "J02.9")
+ * - validateCodes: split codes into catalogue entries and unknown codes
+ * - searchCodes: code prefix or description/keyword search (code picker)
+ * - suggestCodes: codes ranked by how well the note text supports them
+ *
+ * Suggestions only use affirmed text: within each clause, anything after
+ * a negation or uncertainty cue ("denies", "rule out", "possible") is
+ * ignored, as outpatient coding does not code ruled-out or suspected
+ * conditions.
+ */
+
+import { CPT_CODES } from './cpt'
+import { ICD10_CM_CODES } from './icd10-cm'
+
+export const CODE_SYSTEMS = ['ICD10', 'CPT'] as const
+
+export type CodeSystem = (typeof CODE_SYSTEMS)[number]
+
+export interface CodeCatalogEntry {
+  code: string // Canonical form (ICD-10-CM with its dot)
+  system: CodeSystem
+  description: string
+  keywords: string[] // Everyday terms for the code, for search and suggestions
+}
+
+export interface CodeSuggestion extends CodeCatalogEntry {
+  score: number // 0-1; 1 when the text names the code itself
+  matched: string[] // Terms in the text that support the code
+}
+
+const ICD10_PATTERN = /^([A-Z]\d[0-9A-Z])\.?([0-9A-Z]{1,4})?$/
+const CPT_PATTERN = /^\d{4}[0-9A-Z]$/
+const CODE_IN_TEXT = /\b[A-Z]\d[0-9A-Z](?:\.[0-9A-Z]{1,4})?\b|\b\d{4}[0-9A-Z]\b/g
+
+// Cut a clause at the first cue; what follows is negated or uncertain
+const NEGATION_CUE =
+  /\b(?:no|not|denies|denied|denying|negative for|without|rule out|ruled out|r\/o|possible|probable|suspected|unlikely|resolved|family history)\b/i
+const CLAUSE_BREAK = /[.;:!?\n]+|\bbut\b/i
+
+// Words that say nothing about which code applies
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'at', 'by', 'classified', 'due', 'elsewhere', 'encounter', 'for', 'in', 'initial', 'of',
+  'on', 'or', 'other', 'per', 'site', 'specified', 'the', 'to', 'uncomplicated', 'unspecified', 'with',
+])
+
+const MIN_COVERAGE = 0.75 // Share of a description's (weighted) terms the text must contain
+
+const CATALOG: CodeCatalogEntry[] = [...ICD10_CM_CODES, ...CPT_CODES]
+const BY_CODE = new Map(CATALOG.map((entry) => [entry.code, entry]))
+
+/**
+ * Plural-insensitive form of a word ("headaches" -> "headache")
+ */
+function stem(word: string): string {
+  return word.length > 4 && word.endsWith('s') && !/(?:ss|us|is)$/.test(word) ? word.slice(0, -1) : word
+}
+
+/**
+ * Lowercased, stemmed words; punctuation and hyphens split words
+ */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/'/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem)
+}
+
+function terms(text: string): string[] {
+  return Array.from(new Set(words(text).filter((word) => !STOPWORDS.has(word))))
+}
+
+/**
+ * Canonical form of a code, or null if it is not shaped like one
+ * Accepts surrounding text after the code ("R06.02 - Shortness of breath").
+ */
+export function normalizeCode(raw: string, system?: CodeSystem): string | null {
+  const token = raw.trim().toUpperCase().match(/^[A-Z0-9.]+/)?.[0] ?? ''
+
+  if (system !== 'CPT') {
+    const icd10 = token.match(ICD10_PATTERN)
+    if (icd10) return icd10[2] ? `${icd10[1]}.${icd10[2]}` : icd10[1]
+  }
+  if (system !== 'ICD10' && CPT_PATTERN.test(token)) {
+    return token
+  }
+  return null
+}
+
+export function lookupCode(raw: string, system?: CodeSystem): CodeCatalogEntry | undefined {
+  const code = normalizeCode(raw, system)
+  return code ? BY_CODE.get(code) : undefined
+}
+
+/**
+ * Split codes into catalogue entries (deduplicated, in input order) and the
+ * codes that are not in the catalogue
+ */
+export function validateCodes(
+  codes: string[],
+  system?: CodeSystem
+): { valid: CodeCatalogEntry[]; invalid: string[] } {
+  const valid = new Map<string, CodeCatalogEntry>()
+  const invalid: string[] = []
+
+  for (const raw of codes) {
+    const entry = lookupCode(raw, system)
+    if (entry) {
+      valid.set(entry.code, entry)
+    } else {
+      invalid.push(raw)
+    }
+  }
+
+  return { valid: Array.from(valid.values()), invalid }
+}
+
+/**
+ * Find codes by code prefix ("J02", "9921") or by words of the description
+ * and keywords; every query word must start a word of the entry
+ */
+export function searchCodes(
+  query: string,
+  options: { system?: CodeSystem; limit?: number } = {}
+): CodeCatalogEntry[] {
+  const limit = options.limit ?? 20
+  const entries = options.system ? CATALOG.filter((entry) => entry.system === options.system) : CATALOG
+  const trimmed = query.trim()
+  if (!trimmed) return []
+
+  const compact = trimmed.toUpperCase().replace(/\./g, '')
+  const byCode = entries.filter((entry) => entry.code.replace(/\./g, '').startsWith(compact))
+
+  const queryWords = words(trimmed)
+  const byText = entries
+    .filter((entry) => !byCode.includes(entry))
+    .map((entry) => {
+      const entryWords = words([entry.description, ...entry.keywords].join(' '))
+      const matches = queryWords.filter((word) => entryWords.some((entryWord) => entryWord.startsWith(word)))
+      const exact = queryWords.filter((word) => entryWords.includes(word)).length
+      return { entry, matched: matches.length === queryWords.length, exact }
+    })
+    .filter((result) => queryWords.length > 0 && result.matched)
+    .sort((a, b) => b.exact - a.exact || a.entry.code.localeCompare(b.entry.code))
+    .map((result) => result.entry)
+
+  return [...byCode.sort((a, b) => a.code.localeCompare(b.code)), ...byText].slice(0, limit)
+}
+
+/**
+ * Affirmed text: each clause up to its first negation or uncertainty cue
+ */
+function affirmedText(text: string): string {
+  return text
+    .split(CLAUSE_BREAK)
+    .map((clause) => {
+      const cue = clause.search(NEGATION_CUE)
+      return cue === -1 ? clause : clause.slice(0, cue)
+    })
+    .join(' . ')
+}
+
+let termWeights: Map<string, number> | null = null
+
+/**
+ * Inverse document frequency of description terms across the catalogue,
+ * so rare words ("pharyngitis") count for more than common ones ("acute")
+ */
+function termWeight(term: string): number {
+  if (!termWeights) {
+    const counts = new Map<string, number>()
+    for (const entry of CATALOG) {
+      for (const t of terms(entry.description)) {
+        counts.set(t, (counts.get(t) ?? 0) + 1)
+      }
+    }
+    termWeights = new Map(Array.from(counts, ([t, count]) => [t, Math.log(1 + CATALOG.length / count)]))
+  }
+  return termWeights.get(term) ?? Math.log(1 + CATALOG.length)
+}
+
+/**
+ * Rank catalogue codes supported by clinical text (assessment and plan)
+ *
+ * - the text names the code: score 1
+ * - a keyword phrase appears: 0.9, more for longer phrases; a longer
+ *   phrase claims its words ("flu shot" is not also "flu")
+ * - most of the description's weighted terms appear: up to 0.8
+ */
+export function suggestCodes(
+  text: string,
+  options: { system?: CodeSystem; limit?: number } = {}
+): CodeSuggestion[] {
+  const limit = options.limit ?? 10
+  const entries = options.system ? CATALOG.filter((entry) => entry.system === options.system) : CATALOG
+  const suggestions = new Map<string, CodeSuggestion>()
+
+  const suggest = (entry: CodeCatalogEntry, score: number, matched: string) => {
+    const current = suggestions.get(entry.code)
+    if (!current) {
+      suggestions.set(entry.code, { ...entry, score, matched: [matched] })
+      return
+    }
+    current.score = Math.max(current.score, score)
+    if (!current.matched.includes(matched)) current.matched.push(matched)
+  }
+
+  // Codes written in the text
+  for (const match of text.match(CODE_IN_TEXT) ?? []) {
+    const entry = lookupCode(match, options.system)
+    if (entry && entries.includes(entry)) suggest(entry, 1, entry.code)
+  }
+
+  const affirmed = words(affirmedText(text))
+  const padded = ` ${affirmed.join(' ')} `
+
+  // Keyword phrases, longest first; a phrase may not reuse claimed words
+  const phrases = entries
+    .flatMap((entry) => entry.keywords.map((keyword) => ({ entry, keyword, phrase: words(keyword).join(' ') })))
+    .filter((candidate) => candidate.phrase)
+    .sort((a, b) => b.phrase.length - a.phrase.length)
+  const claimed: { start: number; end: number; phrase: string }[] = []
+
+  for (const candidate of phrases) {
+    const needle = ` ${candidate.phrase} `
+    for (let index = padded.indexOf(needle); index !== -1; index = padded.indexOf(needle, index + 1)) {
+      const span = { start: index + 1, end: index + needle.length - 1, phrase: candidate.phrase }
+      const overlaps = claimed.some(
+        (other) => other.phrase !== span.phrase && span.start < other.end && other.start < span.end
+      )
+      if (overlaps) continue
+
+      claimed.push(span)
+      suggest(candidate.entry, Math.min(0.9 + 0.01 * candidate.phrase.split(' ').length, 0.99), candidate.keyword)
+      break
+    }
+  }
+
+  // Description coverage
+  const present = new Set(affirmed)
+  for (const entry of entries) {
+    const descriptionTerms = terms(entry.description)
+    const matched = descriptionTerms.filter((t) => present.has(t))
+    if (matched.length === 0) continue
+
+    const total = descriptionTerms.reduce((sum, t) => sum + termWeight(t), 0)
+    const coverage = matched.reduce((sum, t) => sum + termWeight(t), 0) / total
+    if (coverage >= MIN_COVERAGE) {
+      suggest(entry, 0.8 * coverage, matched.join(' '))
+    }
+  }
+
+  return Array.from(suggestions.values())
+    .map((suggestion) => ({ ...suggestion, score: Math.round(suggestion.score * 100) / 100 }))
+    .sort((a, b) => b.score - a.score || a.code.localeCompare(b.code))
+    .slice(0, limit)
+}
@@ -0,0 +1,85 @@
+/**
+ * CPT Catalogue
+ *
+ * CPT procedure codes billed for office and telehealth visits and the
+ * tests and services ordered during them. CPT descriptors are licensed by
+ * the AMA, so descriptions here are short paraphrases; keywords are the
+ * terms clinicians write in a plan ("ekg", "flu shot").
+ * Codes a clinic needs that are missing here are added to this list.
+ */
+
+import type { CodeCatalogEntry } from './catalog'
+
+type CptEntry = Omit<CodeCatalogEntry, 'system'>
+
+const entries: CptEntry[] = [
+  // Office visits
+  { code: '99202', description: 'Office visit, new patient, straightforward medical decision making', keywords: ['new patient visit'] },
+  { code: '99203', description: 'Office visit, new patient, low medical decision making', keywords: ['new patient visit'] },
+  { code: '99204', description: 'Office visit, new patient, moderate medical decision making', keywords: ['new patient visit'] },
+  { code: '99205', description: 'Office visit, new patient, high medical decision making', keywords: ['new patient visit'] },
+  { code: '99211', description: 'Office visit, established patient, minimal problem', keywords: ['nurse visit'] },
+  { code: '99212', description: 'Office visit, established patient, straightforward medical decision making', keywords: ['follow-up visit'] },
+  { code: '99213', description: 'Office visit, established patient, low medical decision making', keywords: ['follow-up visit'] },
+  { code: '99214', description: 'Office visit, established patient, moderate medical decision making', keywords: ['follow-up visit'] },
+  { code: '99215', description: 'Office visit, established patient, high medical decision making', keywords: ['follow-up visit'] },
+
+  // Telehealth
+  { code: '98000', description: 'Audio-video visit, new patient, straightforward medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98001', description: 'Audio-video visit, new patient, low medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98002', description: 'Audio-video visit, new patient, moderate medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98003', description: 'Audio-video visit, new patient, high medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98004', description: 'Audio-video visit, established patient, straightforward medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98005', description: 'Audio-video visit, established patient, low medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98006', description: 'Audio-video visit, established patient, moderate medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98007', description: 'Audio-video visit, established patient, high medical decision making', keywords: ['video visit', 'telehealth visit'] },
+  { code: '98008', description: 'Audio-only visit, new patient, straightforward medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98009', description: 'Audio-only visit, new patient, low medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98010', description: 'Audio-only visit, new patient, moderate medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98011', description: 'Audio-only visit, new patient, high medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98012', description: 'Audio-only visit, established patient, straightforward medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98013', description: 'Audio-only visit, established patient, low medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98014', description: 'Audio-only visit, established patient, moderate medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98015', description: 'Audio-only visit, established patient, high medical decision making', keywords: ['phone visit', 'telephone visit'] },
+  { code: '98016', description: 'Brief virtual check-in, established patient, 5-10 minutes', keywords: ['virtual check-in'] },
+  { code: '99421', description: 'Online digital evaluation and management, established patient, 5-10 minutes over 7 days', keywords: ['e-visit', 'portal message visit'] },
+  { code: '99422', description: 'Online digital evaluation and management, established patient, 11-20 minutes over 7 days', keywords: ['e-visit', 'portal message visit'] },
+  { code: '99423', description: 'Online digital evaluation and management, established patient, 21 or more minutes over 7 days', keywords: ['e-visit', 'portal message visit'] },
+
+  // Preventive medicine and counseling
+  { code: '99385', description: 'Preventive visit, new patient, age 18-39', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99386', description: 'Preventive visit, new patient, age 40-64', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99387', description: 'Preventive visit, new patient, age 65 and over', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99395', description: 'Preventive visit, established patient, age 18-39', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99396', description: 'Preventive visit, established patient, age 40-64', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99397', description: 'Preventive visit, established patient, age 65 and over', keywords: ['annual physical', 'wellness visit'] },
+  { code: '99401', description: 'Preventive medicine counseling, individual, about 15 minutes', keywords: ['risk factor counseling'] },
+  { code: '99406', description: 'Smoking and tobacco cessation counseling, 3-10 minutes', keywords: ['smoking cessation', 'quit smoking'] },
+  { code: '99407', description: 'Smoking and tobacco cessation counseling, over 10 minutes', keywords: ['smoking cessation', 'quit smoking'] },
+  { code: '99497', description: 'Advance care planning, first 30 minutes', keywords: ['advance directive', 'goals of care'] },
+  { code: '96127', description: 'Brief emotional or behavioral assessment with scoring, per standardized instrument', keywords: ['phq-9', 'gad-7', 'depression screening'] },
+
+  // Care management
+  { code: '99490', description: 'Chronic care management, first 20 minutes of clinical staff time per month', keywords: ['chronic care management', 'ccm'] },
+  { code: '99457', description: 'Remote physiologic monitoring treatment management, first 20 minutes per month', keywords: ['remote patient monitoring', 'rpm'] },
+
+  // Immunizations
+  { code: '90471', description: 'Immunization administration, one vaccine by injection', keywords: ['vaccine administration', 'vaccine given'] },
+  { code: '90686', description: 'Influenza vaccine, quadrivalent, preservative free, intramuscular', keywords: ['flu shot', 'flu vaccine', 'influenza vaccine'] },
+
+  // Tests
+  { code: '36415', description: 'Venipuncture for blood collection', keywords: ['blood draw', 'venipuncture'] },
+  { code: '80053', description: 'Comprehensive metabolic panel', keywords: ['cmp', 'metabolic panel'] },
+  { code: '80061', description: 'Lipid panel', keywords: ['lipid panel', 'cholesterol panel', 'lipids'] },
+  { code: '81002', description: 'Urinalysis by dipstick, non-automated, without microscopy', keywords: ['urinalysis', 'urine dipstick', 'ua'] },
+  { code: '82962', description: 'Blood glucose by home monitoring device', keywords: ['fingerstick glucose', 'blood sugar check'] },
+  { code: '83036', description: 'Hemoglobin A1c', keywords: ['a1c', 'hba1c', 'hemoglobin a1c'] },
+  { code: '84443', description: 'Thyroid stimulating hormone (TSH)', keywords: ['tsh', 'thyroid test'] },
+  { code: '85025', description: 'Complete blood count with automated differential', keywords: ['cbc', 'complete blood count', 'blood count'] },
+  { code: '87804', description: 'Influenza rapid antigen test', keywords: ['rapid flu test', 'flu swab'] },
+  { code: '87880', description: 'Group A strep rapid antigen test', keywords: ['rapid strep', 'strep test'] },
+  { code: '93000', description: 'Electrocardiogram, 12-lead, with interpretation and report', keywords: ['ekg', 'ecg', 'electrocardiogram'] },
+  { code: '94010', description: 'Spirometry', keywords: ['spirometry', 'pulmonary function test', 'pft'] },
+]
+
+export const CPT_CODES: CodeCatalogEntry[] = entries.map((entry) => ({ ...entry, system: 'CPT' }))
@@ -0,0 +1,158 @@
+/**
+ * ICD-10-CM Catalogue
+ *
+ * Billable ICD-10-CM diagnosis codes (FY2025 code set) covering the
+ * conditions seen in primary care and telehealth visits. Descriptions are
+ * the official long titles; keywords are the everyday terms clinicians
+ * write instead ("sore throat", "htn") and feed search and suggestions.
+ * Codes a clinic needs that are missing here are added to this list.
+ */
+
+import type { CodeCatalogEntry } from './catalog'
+
+type Icd10Entry = Omit<CodeCatalogEntry, 'system'>
+
+const entries: Icd10Entry[] = [
+  // Infections and respiratory
+  { code: 'A09', description: 'Infectious gastroenteritis and colitis, unspecified', keywords: ['stomach flu', 'infectious diarrhea'] },
+  { code: 'B02.9', description: 'Zoster without complications', keywords: ['shingles', 'herpes zoster'] },
+  { code: 'B34.9', description: 'Viral infection, unspecified', keywords: ['viral illness', 'viral syndrome'] },
+  { code: 'B35.4', description: 'Tinea corporis', keywords: ['ringworm'] },
+  { code: 'B37.9', description: 'Candidiasis, unspecified', keywords: ['yeast infection', 'thrush'] },
+  { code: 'H10.9', description: 'Unspecified conjunctivitis', keywords: ['pink eye'] },
+  { code: 'H60.90', description: 'Unspecified otitis externa, unspecified ear', keywords: ["swimmer's ear"] },
+  { code: 'H66.90', description: 'Otitis media, unspecified, unspecified ear', keywords: ['ear infection'] },
+  { code: 'J00', description: 'Acute nasopharyngitis [common cold]', keywords: ['common cold', 'head cold', 'cold symptoms'] },
+  { code: 'J01.90', description: 'Acute sinusitis, unspecified', keywords: ['sinus infection', 'acute sinusitis'] },
+  { code: 'J02.0', description: 'Streptococcal pharyngitis', keywords: ['strep throat', 'strep pharyngitis'] },
+  { code: 'J02.9', description: 'Acute pharyngitis, unspecified', keywords: ['sore throat', 'pharyngitis'] },
+  { code: 'J03.90', description: 'Acute tonsillitis, unspecified', keywords: ['tonsillitis'] },
+  { code: 'J06.9', description: 'Acute upper respiratory infection, unspecified', keywords: ['uri', 'upper respiratory infection'] },
+  { code: 'J11.1', description: 'Influenza due to unidentified influenza virus with other respiratory manifestations', keywords: ['flu', 'influenza'] },
+  { code: 'J18.9', description: 'Pneumonia, unspecified organism', keywords: ['pneumonia', 'community acquired pneumonia'] },
+  { code: 'J20.9', description: 'Acute bronchitis, unspecified', keywords: ['bronchitis', 'chest cold'] },
+  { code: 'J30.9', description: 'Allergic rhinitis, unspecified', keywords: ['hay fever', 'seasonal allergies'] },
+  { code: 'J32.9', description: 'Chronic sinusitis, unspecified', keywords: ['chronic sinusitis'] },
+  { code: 'J44.1', description: 'Chronic obstructive pulmonary disease with (acute) exacerbation', keywords: ['copd exacerbation', 'copd flare'] },
+  { code: 'J44.9', description: 'Chronic obstructive pulmonary disease, unspecified', keywords: ['copd', 'emphysema'] },
+  { code: 'J45.901', description: 'Unspecified asthma with (acute) exacerbation', keywords: ['asthma exacerbation', 'asthma attack'] },
+  { code: 'J45.909', description: 'Unspecified asthma, uncomplicated', keywords: ['asthma'] },
+  { code: 'L03.90', description: 'Cellulitis, unspecified', keywords: ['cellulitis', 'skin infection'] },
+  { code: 'N30.00', description: 'Acute cystitis without hematuria', keywords: ['bladder infection', 'cystitis'] },
+  { code: 'N39.0', description: 'Urinary tract infection, site not specified', keywords: ['uti', 'urinary tract infection'] },
+  { code: 'U07.1', description: 'COVID-19', keywords: ['covid', 'sars-cov-2', 'coronavirus'] },
+
+  // Cardiovascular
+  { code: 'I10', description: 'Essential (primary) hypertension', keywords: ['hypertension', 'high blood pressure', 'htn'] },
+  { code: 'I25.10', description: 'Atherosclerotic heart disease of native coronary artery without angina pectoris', keywords: ['coronary artery disease', 'cad'] },
+  { code: 'I48.91', description: 'Unspecified atrial fibrillation', keywords: ['atrial fibrillation', 'afib', 'a-fib'] },
+  { code: 'I50.9', description: 'Heart failure, unspecified', keywords: ['heart failure', 'chf', 'congestive heart failure'] },
+  { code: 'R00.2', description: 'Palpitations', keywords: ['palpitations', 'racing heart'] },
+  { code: 'R03.0', description: 'Elevated blood-pressure reading, without diagnosis of hypertension', keywords: ['elevated blood pressure'] },
+
+  // Endocrine and metabolic
+  { code: 'E03.9', description: 'Hypothyroidism, unspecified', keywords: ['hypothyroidism', 'underactive thyroid'] },
+  { code: 'E05.90', description: 'Thyrotoxicosis, unspecified without thyrotoxic crisis or storm', keywords: ['hyperthyroidism', 'overactive thyroid'] },
+  { code: 'E10.9', description: 'Type 1 diabetes mellitus without complications', keywords: ['type 1 diabetes', 't1dm'] },
+  { code: 'E11.40', description: 'Type 2 diabetes mellitus with diabetic neuropathy, unspecified', keywords: ['diabetic neuropathy'] },
+  { code: 'E11.65', description: 'Type 2 diabetes mellitus with hyperglycemia', keywords: ['uncontrolled diabetes', 'poorly controlled diabetes'] },
+  { code: 'E11.9', description: 'Type 2 diabetes mellitus without complications', keywords: ['type 2 diabetes', 't2dm', 'diabetes'] },
+  { code: 'E55.9', description: 'Vitamin D deficiency, unspecified', keywords: ['low vitamin d'] },
+  { code: 'E66.01', description: 'Morbid (severe) obesity due to excess calories', keywords: ['morbid obesity', 'severe obesity'] },
+  { code: 'E66.9', description: 'Obesity, unspecified', keywords: ['obesity', 'obese'] },
+  { code: 'E78.00', description: 'Pure hypercholesterolemia, unspecified', keywords: ['high cholesterol', 'hypercholesterolemia'] },
+  { code: 'E78.5', description: 'Hyperlipidemia, unspecified', keywords: ['hyperlipidemia', 'dyslipidemia'] },
+  { code: 'R73.03', description: 'Prediabetes', keywords: ['prediabetes', 'borderline diabetes'] },
+
+  // Blood
+  { code: 'D50.9', description: 'Iron deficiency anemia, unspecified', keywords: ['iron deficiency'] },
+  { code: 'D64.9', description: 'Anemia, unspecified', keywords: ['anemia', 'low hemoglobin'] },
+
+  // Mental and behavioural
+  { code: 'F10.20', description: 'Alcohol dependence, uncomplicated', keywords: ['alcohol use disorder', 'alcoholism'] },
+  { code: 'F17.210', description: 'Nicotine dependence, cigarettes, uncomplicated', keywords: ['smoker', 'tobacco use', 'cigarette smoking'] },
+  { code: 'F32.9', description: 'Major depressive disorder, single episode, unspecified', keywords: ['major depression', 'mdd'] },
+  { code: 'F32.A', description: 'Depression, unspecified', keywords: ['depression', 'depressed mood'] },
+  { code: 'F41.1', description: 'Generalized anxiety disorder', keywords: ['gad', 'generalized anxiety'] },
+  { code: 'F41.9', description: 'Anxiety disorder, unspecified', keywords: ['anxiety'] },
+  { code: 'F43.10', description: 'Post-traumatic stress disorder, unspecified', keywords: ['ptsd'] },
+  { code: 'F90.9', description: 'Attention-deficit hyperactivity disorder, unspecified type', keywords: ['adhd'] },
+  { code: 'G47.00', description: 'Insomnia, unspecified', keywords: ['insomnia', 'trouble sleeping'] },
+
+  // Nervous system
+  { code: 'G43.909', description: 'Migraine, unspecified, not intractable, without status migrainosus', keywords: ['migraine'] },
+  { code: 'G44.209', description: 'Tension-type headache, unspecified, not intractable', keywords: ['tension headache'] },
+  { code: 'G56.00', description: 'Carpal tunnel syndrome, unspecified upper limb', keywords: ['carpal tunnel'] },
+  { code: 'R42', description: 'Dizziness and giddiness', keywords: ['dizziness', 'lightheaded', 'vertigo'] },
+  { code: 'R51.9', description: 'Headache, unspecified', keywords: ['headache'] },
+
+  // Digestive
+  { code: 'K21.9', description: 'Gastro-esophageal reflux disease without esophagitis', keywords: ['gerd', 'acid reflux', 'heartburn'] },
+  { code: 'K29.70', description: 'Gastritis, unspecified, without bleeding', keywords: ['gastritis'] },
+  { code: 'K30', description: 'Functional dyspepsia', keywords: ['dyspepsia', 'indigestion'] },
+  { code: 'K52.9', description: 'Noninfective gastroenteritis and colitis, unspecified', keywords: ['gastroenteritis'] },
+  { code: 'K58.9', description: 'Irritable bowel syndrome without diarrhea', keywords: ['ibs', 'irritable bowel'] },
+  { code: 'K59.00', description: 'Constipation, unspecified', keywords: ['constipation'] },
+  { code: 'R10.9', description: 'Unspecified abdominal pain', keywords: ['abdominal pain', 'stomach pain', 'stomach ache'] },
+  { code: 'R11.0', description: 'Nausea', keywords: ['nausea', 'nauseous'] },
+  { code: 'R11.2', description: 'Nausea with vomiting, unspecified', keywords: ['nausea and vomiting', 'vomiting'] },
+  { code: 'R19.7', description: 'Diarrhea, unspecified', keywords: ['diarrhea', 'loose stools'] },
+
+  // Skin
+  { code: 'L20.9', description: 'Atopic dermatitis, unspecified', keywords: ['eczema', 'atopic dermatitis'] },
+  { code: 'L30.9', description: 'Dermatitis, unspecified', keywords: ['dermatitis'] },
+  { code: 'L40.9', description: 'Psoriasis, unspecified', keywords: ['psoriasis'] },
+  { code: 'L50.9', description: 'Urticaria, unspecified', keywords: ['hives', 'urticaria'] },
+  { code: 'L70.0', description: 'Acne vulgaris', keywords: ['acne'] },
+  { code: 'R21', description: 'Rash and other nonspecific skin eruption', keywords: ['rash', 'skin rash'] },
+
+  // Musculoskeletal and injury
+  { code: 'M10.9', description: 'Gout, unspecified', keywords: ['gout'] },
+  { code: 'M17.9', description: 'Osteoarthritis of knee, unspecified', keywords: ['knee osteoarthritis', 'knee arthritis'] },
+  { code: 'M19.90', description: 'Unspecified osteoarthritis, unspecified site', keywords: ['osteoarthritis', 'arthritis'] },
+  { code: 'M25.511', description: 'Pain in right shoulder', keywords: ['right shoulder pain'] },
+  { code: 'M25.512', description: 'Pain in left shoulder', keywords: ['left shoulder pain'] },
+  { code: 'M25.561', description: 'Pain in right knee', keywords: ['right knee pain'] },
+  { code: 'M25.562', description: 'Pain in left knee', keywords: ['left knee pain'] },
+  { code: 'M54.2', description: 'Cervicalgia', keywords: ['neck pain'] },
+  { code: 'M54.50', description: 'Low back pain, unspecified', keywords: ['low back pain', 'lower back pain', 'lbp'] },
+  { code: 'M79.10', description: 'Myalgia, unspecified site', keywords: ['muscle aches', 'myalgia', 'body aches'] },
+  { code: 'S93.401A', description: 'Sprain of unspecified ligament of right ankle, initial encounter', keywords: ['right ankle sprain'] },
+  { code: 'S93.402A', description: 'Sprain of unspecified ligament of left ankle, initial encounter', keywords: ['left ankle sprain'] },
+
+  // Genitourinary and reproductive
+  { code: 'N40.0', description: 'Benign prostatic hyperplasia without lower urinary tract symptoms', keywords: ['bph', 'enlarged prostate'] },
+  { code: 'N52.9', description: 'Male erectile dysfunction, unspecified', keywords: ['erectile dysfunction'] },
+  { code: 'N94.6', description: 'Dysmenorrhea, unspecified', keywords: ['painful periods', 'menstrual cramps'] },
+  { code: 'N95.1', description: 'Menopausal and female climacteric states', keywords: ['menopause', 'hot flashes'] },
+  { code: 'R30.0', description: 'Dysuria', keywords: ['painful urination', 'burning urination'] },
+  { code: 'R35.0', description: 'Frequency of micturition', keywords: ['urinary frequency', 'frequent urination'] },
+
+  // General symptoms
+  { code: 'R05.9', description: 'Cough, unspecified', keywords: ['cough'] },
+  { code: 'R06.02', description: 'Shortness of breath', keywords: ['shortness of breath', 'sob', 'dyspnea'] },
+  { code: 'R07.89', description: 'Other chest pain', keywords: ['chest tightness', 'chest wall pain'] },
+  { code: 'R07.9', description: 'Chest pain, unspecified', keywords: ['chest pain'] },
+  { code: 'R50.9', description: 'Fever, unspecified', keywords: ['fever', 'febrile'] },
+  { code: 'R53.83', description: 'Other fatigue', keywords: ['fatigue', 'tiredness', 'low energy'] },
+  { code: 'R63.4', description: 'Abnormal weight loss', keywords: ['unintentional weight loss'] },
+
+  // Encounters and status
+  { code: 'Z00.00', description: 'Encounter for general adult medical examination without abnormal findings', keywords: ['annual physical', 'wellness visit'] },
+  { code: 'Z00.01', description: 'Encounter for general adult medical examination with abnormal findings', keywords: [] },
+  { code: 'Z00.129', description: 'Encounter for routine child health examination without abnormal findings', keywords: ['well child visit'] },
+  { code: 'Z09', description: 'Encounter for follow-up examination after completed treatment for conditions other than malignant neoplasm', keywords: [] },
+  { code: 'Z11.52', description: 'Encounter for screening for COVID-19', keywords: ['covid test'] },
+  { code: 'Z13.1', description: 'Encounter for screening for diabetes mellitus', keywords: ['diabetes screening'] },
+  { code: 'Z20.822', description: 'Contact with and (suspected) exposure to COVID-19', keywords: ['covid exposure'] },
+  { code: 'Z23', description: 'Encounter for immunization', keywords: ['vaccination', 'flu shot', 'immunization'] },
+  { code: 'Z30.011', description: 'Encounter for initial prescription of contraceptive pills', keywords: ['birth control pills', 'oral contraceptive'] },
+  { code: 'Z34.90', description: 'Encounter for supervision of normal pregnancy, unspecified, unspecified trimester', keywords: ['prenatal visit'] },
+  { code: 'Z71.3', description: 'Dietary counseling and surveillance', keywords: ['diet counseling', 'nutrition counseling'] },
+  { code: 'Z71.6', description: 'Tobacco abuse counseling', keywords: ['smoking cessation counseling'] },
+  { code: 'Z76.0', description: 'Encounter for issue of repeat prescription', keywords: ['medication refill', 'prescription refill'] },
+  { code: 'Z79.4', description: 'Long term (current) use of insulin', keywords: ['on insulin'] },
+  { code: 'Z79.899', description: 'Other long term (current) drug therapy', keywords: ['long term medication'] },
+]
+
+export const ICD10_CM_CODES: CodeCatalogEntry[] = entries.map((entry) => ({ ...entry, system: 'ICD10' }))
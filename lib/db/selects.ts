@@ -223,6 +223,7 @@ export const patientSafeSelectForDoctor: Prisma.PatientSelect = {
       diagnosis: true,
       procedures: true,
       followUpDate: true,
+      status: true,
       signedAt: true,
       createdAt: true,
       updatedAt: true,
@@ -276,6 +277,8 @@ export const patientSafeSelectForDoctor: Prisma.PatientSelect = {
       results: true,
       resultsUrl: true,
       notes: true,
+      reviewedAt: true,
+      releasedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -316,6 +319,8 @@ export const appointmentSelect: Prisma.AppointmentSelect = {
   notes: true,
   meetingUrl: true,
   meetingId: true,
+  seriesId: true,
+  intakeFormId: true,
   createdAt: true,
   updatedAt: true,
   cancelledAt: true,
@@ -445,6 +450,14 @@ export const labOrderSelect: Prisma.LabOrderSelect = {
   results: true,
   resultsUrl: true,
   notes: true,
+  statusChangedAt: true,
+  cancelReason: true,
+  reviewedAt: true,
+  reviewedBy: true,
+  reviewNote: true,
+  releasedAt: true,
+  releasedBy: true,
+  patientViewedAt: true,
   createdAt: true,
   updatedAt: true,
   
@@ -463,6 +476,28 @@ export const labOrderSelect: Prisma.LabOrderSelect = {
   },
 }
 
+/**
+ * Structured lab result values (see lib/labs/results.ts)
+ */
+export const labResultSelect: Prisma.LabResultSelect = {
+  id: true,
+  labOrderId: true,
+  code: true,
+  name: true,
+  value: true,
+  numericValue: true,
+  unit: true,
+  referenceLow: true,
+  referenceHigh: true,
+  criticalLow: true,
+  criticalHigh: true,
+  referenceText: true,
+  flag: true,
+  observedAt: true,
+  comment: true,
+  createdAt: true,
+}
+
 // ============================================================================
 // INTAKE FORM RESPONSE SELECT
 // ============================================================================
@@ -528,6 +563,10 @@ export type LabOrderSelect = Prisma.LabOrderGetPayload<{
   select: typeof labOrderSelect
 }>
 
+export type LabResultSelect = Prisma.LabResultGetPayload<{
+  select: typeof labResultSelect
+}>
+
 export type IntakeFormResponseSelect = Prisma.IntakeFormGetPayload<{
   select: typeof intakeFormResponseSelect
 }>
@@ -0,0 +1,444 @@
+/**
+ * Lab Orders
+ *
+ * Order lifecycle, scoped by clinic and the doctor–patient relationship
+ * (nurses and staff read the orders of their clinic):
+ * - PENDING -> ORDERED -> IN_PROGRESS (manual transitions; any of them
+ *   can be CANCELLED with a reason)
+ * - ORDERED | IN_PROGRESS -> RESULTS_READY when structured results are
+ *   ingested (the ordering doctor is notified; critical values are called
+ *   out)
+ * - RESULTS_READY -> COMPLETED when a doctor reviews/acknowledges them
+ *
+ * Patients see their orders but not the results until a doctor releases
+ * them after review; the first time the patient opens released results
+ * is recorded in patientViewedAt (the lab result reminder function nudges
+ * patients who have not looked yet). Re-ingesting results (a corrected
+ * report) sends the order back to RESULTS_READY and withdraws any release
+ * until it is reviewed again.
+ */
+
+import { randomBytes } from 'crypto'
+import { format } from 'date-fns'
+import { LabOrderStatus, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { ensureOwnershipOrDoctor, type GuardContext } from '@/lib/auth/guards'
+import { labOrderSelect, labResultSelect, type LabOrderSelect, type LabResultSelect } from '@/lib/db/selects'
+import type { CreateLabOrderInput, IngestLabResultsInput } from '@/lib/validation/schemas'
+import { isAbnormalFlag, isCriticalFlag, toLabResultRows } from './results'
+
+export const LAB_ORDER_TRANSITIONS: Partial<Record<LabOrderStatus, LabOrderStatus[]>> = {
+  PENDING: [LabOrderStatus.ORDERED, LabOrderStatus.CANCELLED],
+  ORDERED: [LabOrderStatus.IN_PROGRESS, LabOrderStatus.CANCELLED],
+  IN_PROGRESS: [LabOrderStatus.CANCELLED],
+}
+
+// Results can be (re)ingested once the order has been sent
+const INGESTIBLE_STATUSES: LabOrderStatus[] = [
+  LabOrderStatus.ORDERED,
+  LabOrderStatus.IN_PROGRESS,
+  LabOrderStatus.RESULTS_READY,
+  LabOrderStatus.COMPLETED,
+]
+
+const ORDER_NUMBER_ATTEMPTS = 3
+
+// Fields needed for access and transition checks
+const labOrderStateSelect = {
+  id: true,
+  patientId: true,
+  clinicId: true,
+  orderNumber: true,
+  tests: true,
+  status: true,
+  releasedAt: true,
+  doctor: { select: { userId: true } },
+  patient: { select: { userId: true } },
+} satisfies Prisma.LabOrderSelect
+
+export type LabOrderState = Prisma.LabOrderGetPayload<{ select: typeof labOrderStateSelect }>
+
+export interface LabOrderDetail extends ReturnType<typeof toLabOrderResponse> {
+  labResults: LabResultSelect[]
+  summary: { resultCount: number; abnormalCount: number; criticalCount: number }
+}
+
+function labError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+/**
+ * Shape an order for the API; patients do not see results (or the
+ * doctor's review note) before release
+ */
+export function toLabOrderResponse(order: LabOrderSelect, role: AuthUser['role']) {
+  const visible = role !== 'patient' || !!order.releasedAt
+  return {
+    ...order,
+    results: visible ? order.results : null,
+    resultsUrl: visible ? order.resultsUrl : null,
+    reviewNote: role === 'patient' ? null : order.reviewNote,
+    patientName: `${order.patient?.firstName ?? ''} ${order.patient?.lastName ?? ''}`.trim(),
+  }
+}
+
+function generateOrderNumber(now: Date): string {
+  return `LAB-${format(now, 'yyyyMMdd')}-${randomBytes(4).toString('hex').toUpperCase()}`
+}
+
+async function requireDoctorProfile(user: AuthUser): Promise<{ id: string }> {
+  const doctor = await prisma.doctor.findUnique({
+    where: { userId: user.id },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!doctor || doctor.clinicId !== user.clinicId) {
+    throw labError('Doctor profile not found', 404)
+  }
+  return doctor
+}
+
+async function getOwnPatientId(user: AuthUser): Promise<string> {
+  const patient = await prisma.patient.findUnique({
+    where: { userId: user.id },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!patient || patient.clinicId !== user.clinicId) {
+    throw labError('Patient profile not found', 404)
+  }
+  return patient.id
+}
+
+async function loadLabOrderDetail(orderId: string, role: AuthUser['role']): Promise<LabOrderDetail> {
+  const order = await prisma.labOrder.findUniqueOrThrow({ where: { id: orderId }, select: labOrderSelect })
+  const response = toLabOrderResponse(order, role)
+
+  const visible = role !== 'patient' || !!order.releasedAt
+  const labResults = visible
+    ? await prisma.labResult.findMany({
+        where: { labOrderId: orderId },
+        select: labResultSelect,
+        orderBy: { createdAt: 'asc' },
+      })
+    : []
+
+  return {
+    ...response,
+    labResults,
+    summary: {
+      resultCount: labResults.length,
+      abnormalCount: labResults.filter((result) => isAbnormalFlag(result.flag ?? null)).length,
+      criticalCount: labResults.filter((result) => isCriticalFlag(result.flag ?? null)).length,
+    },
+  }
+}
+
+/**
+ * Load an order's state for a doctor action (same clinic, access to the patient)
+ */
+export async function getLabOrderState(
+  user: AuthUser,
+  orderId: string,
+  context?: GuardContext
+): Promise<LabOrderState> {
+  const order = await prisma.labOrder.findUnique({
+    where: { id: orderId },
+    select: labOrderStateSelect,
+  })
+
+  if (!order || order.clinicId !== user.clinicId) {
+    throw labError('Lab order not found', 404)
+  }
+
+  await ensureOwnershipOrDoctor(user, order.patientId, context)
+  return order
+}
+
+/**
+ * Order with its results; a patient opening released results for the
+ * first time records patientViewedAt
+ */
+export async function getLabOrder(user: AuthUser, orderId: string, context?: GuardContext): Promise<LabOrderDetail> {
+  const order = await getLabOrderState(user, orderId, context)
+
+  if (user.role === 'patient' && order.releasedAt) {
+    await prisma.labOrder.updateMany({
+      where: { id: order.id, patientViewedAt: null },
+      data: { patientViewedAt: new Date() },
+    })
+  }
+
+  return loadLabOrderDetail(order.id, user.role)
+}
+
+/**
+ * Orders for the user: a patient's own, a given patient's (doctor with
+ * access, or clinic staff), the doctor's own orders, or otherwise the
+ * clinic's orders
+ */
+export async function listLabOrders(
+  user: AuthUser,
+  options: { patientId?: string; status?: LabOrderStatus; unread?: boolean; limit?: number },
+  context?: GuardContext
+) {
+  const where: Prisma.LabOrderWhereInput = { clinicId: user.clinicId, ...(options.status && { status: options.status }) }
+
+  if (user.role === 'patient') {
+    where.patientId = await getOwnPatientId(user)
+    if (options.unread) {
+      where.releasedAt = { not: null }
+      where.patientViewedAt = null
+    }
+  } else {
+    if (options.patientId) {
+      await ensureOwnershipOrDoctor(user, options.patientId, context)
+      where.patientId = options.patientId
+    } else if (user.role === 'doctor') {
+      where.doctorId = (await requireDoctorProfile(user)).id
+    }
+    if (options.unread) {
+      where.status = LabOrderStatus.RESULTS_READY
+    }
+  }
+
+  const orders = await prisma.labOrder.findMany({
+    where,
+    select: labOrderSelect,
+    orderBy: { orderedAt: 'desc' },
+    take: options.limit ?? 50,
+  })
+
+  return orders.map((order) => toLabOrderResponse(order, user.role))
+}
+
+/**
+ * Create an order (doctor with access to the patient)
+ */
+export async function createLabOrder(
+  user: AuthUser,
+  input: CreateLabOrderInput,
+  context?: GuardContext
+): Promise<LabOrderDetail> {
+  const patient = await prisma.patient.findUnique({
+    where: { id: input.patientId },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!patient || patient.clinicId !== user.clinicId) {
+    throw labError('Patient not found', 404)
+  }
+  await ensureOwnershipOrDoctor(user, patient.id, context)
+  const doctor = await requireDoctorProfile(user)
+
+  for (let attempt = 1; ; attempt++) {
+    const now = new Date()
+    try {
+      const order = await prisma.labOrder.create({
+        data: {
+          patientId: patient.id,
+          doctorId: doctor.id,
+          clinicId: patient.clinicId,
+          orderNumber: generateOrderNumber(now),
+          tests: input.tests,
+          notes: input.notes,
+          status: LabOrderStatus.PENDING,
+          orderedAt: now,
+          statusChangedAt: now,
+        },
+        select: { id: true },
+      })
+      return loadLabOrderDetail(order.id, user.role)
+    } catch (error) {
+      // Order number collision; try another
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002' &&
+        attempt < ORDER_NUMBER_ATTEMPTS
+      ) {
+        continue
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Manual status change (sent to lab, in progress, cancelled)
+ */
+export async function updateLabOrderStatus(
+  user: AuthUser,
+  order: LabOrderState,
+  input: { status: 'ORDERED' | 'IN_PROGRESS' | 'CANCELLED'; reason?: string }
+): Promise<LabOrderDetail> {
+  if (!(LAB_ORDER_TRANSITIONS[order.status] ?? []).includes(input.status)) {
+    throw labError(`Cannot change lab order from ${order.status} to ${input.status}`, 409)
+  }
+
+  // Conditional on the status we validated against
+  const { count } = await prisma.labOrder.updateMany({
+    where: { id: order.id, status: order.status },
+    data: {
+      status: input.status,
+      statusChangedAt: new Date(),
+      ...(input.status === LabOrderStatus.CANCELLED && { cancelReason: input.reason }),
+    },
+  })
+
+  if (count === 0) {
+    throw labError('Lab order was changed by another request; reload and try again', 409)
+  }
+
+  return loadLabOrderDetail(order.id, user.role)
+}
+
+/**
+ * Store structured results (replacing any earlier report) and notify the
+ * ordering doctor
+ */
+export async function ingestLabResults(
+  user: AuthUser,
+  order: LabOrderState,
+  input: IngestLabResultsInput
+): Promise<LabOrderDetail> {
+  if (!INGESTIBLE_STATUSES.includes(order.status)) {
+    throw labError(`Cannot record results for a lab order that is ${order.status.toLowerCase()}`, 409)
+  }
+
+  const rows = toLabResultRows(order.id, order.clinicId, input.results)
+  const abnormalCount = rows.filter((row) => isAbnormalFlag(row.flag ?? null)).length
+  const criticalCount = rows.filter((row) => isCriticalFlag(row.flag ?? null)).length
+  const now = new Date()
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.labOrder.updateMany({
+      where: { id: order.id, status: order.status },
+      data: {
+        status: LabOrderStatus.RESULTS_READY,
+        statusChangedAt: now,
+        completedAt: now,
+        ...(input.resultsUrl && { resultsUrl: input.resultsUrl }),
+        // A new report needs a fresh review before the patient sees it
+        reviewedAt: null,
+        reviewedBy: null,
+        reviewNote: null,
+        releasedAt: null,
+        releasedBy: null,
+        patientViewedAt: null,
+      },
+    })
+
+    if (count === 0) {
+      throw labError('Lab order was changed by another request; reload and try again', 409)
+    }
+
+    await tx.labResult.deleteMany({ where: { labOrderId: order.id } })
+    await tx.labResult.createMany({ data: rows })
+
+    if (order.doctor.userId !== user.id) {
+      // Delivered to the ordering doctor by the notification pipeline
+      await tx.notification.create({
+        data: {
+          userId: order.doctor.userId,
+          userRole: UserRole.DOCTOR,
+          type: 'LAB_RESULTS_RECEIVED',
+          title: criticalCount > 0 ? 'Critical lab results' : 'Lab results received',
+          message:
+            criticalCount > 0
+              ? `Results for lab order ${order.orderNumber} include ${criticalCount} critical value${criticalCount === 1 ? '' : 's'}.`
+              : `Results for lab order ${order.orderNumber} are ready for review.`,
+          data: { labOrderId: order.id, orderNumber: order.orderNumber, abnormalCount, criticalCount },
+        },
+      })
+    }
+  })
+
+  return loadLabOrderDetail(order.id, user.role)
+}
+
+function releaseNotification(order: LabOrderState): Prisma.NotificationUncheckedCreateInput {
+  return {
+    userId: order.patient.userId,
+    userRole: UserRole.PATIENT,
+    type: 'LAB_RESULTS_READY',
+    title: 'Lab Results Available',
+    message: `Your lab results for ${order.tests.join(', ')} are now available.`,
+    data: { labOrderId: order.id, orderNumber: order.orderNumber },
+  }
+}
+
+/**
+ * Review/acknowledge results, optionally releasing them to the patient
+ */
+export async function reviewLabOrder(
+  user: AuthUser,
+  order: LabOrderState,
+  input: { note?: string; release?: boolean }
+): Promise<LabOrderDetail> {
+  if (order.status !== LabOrderStatus.RESULTS_READY) {
+    throw labError(
+      order.status === LabOrderStatus.COMPLETED
+        ? 'Lab results have already been reviewed'
+        : 'Lab order has no results awaiting review',
+      409
+    )
+  }
+
+  const now = new Date()
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.labOrder.updateMany({
+      where: { id: order.id, status: LabOrderStatus.RESULTS_READY },
+      data: {
+        status: LabOrderStatus.COMPLETED,
+        statusChangedAt: now,
+        reviewedAt: now,
+        reviewedBy: user.id,
+        reviewNote: input.note ?? null,
+        ...(input.release && { releasedAt: now, releasedBy: user.id }),
+      },
+    })
+
+    if (count === 0) {
+      throw labError('Lab order was changed by another request; reload and try again', 409)
+    }
+
+    if (input.release) {
+      // Delivered to the patient by the notification pipeline
+      await tx.notification.create({ data: releaseNotification(order) })
+    }
+  })
+
+  return loadLabOrderDetail(order.id, user.role)
+}
+
+/**
+ * Make reviewed results visible to the patient
+ */
+export async function releaseLabResults(user: AuthUser, order: LabOrderState): Promise<LabOrderDetail> {
+  if (order.status !== LabOrderStatus.COMPLETED) {
+    throw labError('Lab results must be reviewed before they are released', 409)
+  }
+  if (order.releasedAt) {
+    throw labError('Lab results have already been released', 409)
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.labOrder.updateMany({
+      where: { id: order.id, status: LabOrderStatus.COMPLETED, releasedAt: null },
+      data: { releasedAt: new Date(), releasedBy: user.id },
+    })
+
+    if (count === 0) {
+      throw labError('Lab order was changed by another request; reload and try again', 409)
+    }
+
+    // Delivered to the patient by the notification pipeline
+    await tx.notification.create({ data: releaseNotification(order) })
+  })
+
+  return loadLabOrderDetail(order.id, user.role)
+}
@@ -0,0 +1,88 @@
+/**
+ * Lab Result Values
+ *
+ * Normalises structured results as received from the lab (or entered by
+ * the doctor): numeric values are parsed, and when the lab did not flag a
+ * result it is flagged against the critical and reference ranges. A flag
+ * from the lab always wins; results that cannot be judged stay unflagged.
+ */
+
+import { LabResultFlag, Prisma } from '@prisma/client'
+import type { LabResultInput } from '@/lib/validation/schemas'
+
+const ABNORMAL_FLAGS: LabResultFlag[] = [
+  LabResultFlag.LOW,
+  LabResultFlag.HIGH,
+  LabResultFlag.CRITICAL_LOW,
+  LabResultFlag.CRITICAL_HIGH,
+  LabResultFlag.ABNORMAL,
+]
+
+const CRITICAL_FLAGS: LabResultFlag[] = [LabResultFlag.CRITICAL_LOW, LabResultFlag.CRITICAL_HIGH]
+
+export const isAbnormalFlag = (flag: LabResultFlag | null) => flag !== null && ABNORMAL_FLAGS.includes(flag)
+export const isCriticalFlag = (flag: LabResultFlag | null) => flag !== null && CRITICAL_FLAGS.includes(flag)
+
+/**
+ * Plain numbers only; qualified values such as "<0.5" or ">100" are not
+ * numeric and rely on the lab's flag
+ */
+export function parseNumericValue(value: string): number | null {
+  const trimmed = value.trim().replace(/,/g, '')
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(trimmed)) return null
+  return Number(trimmed)
+}
+
+export function computeFlag(
+  input: Pick<LabResultInput, 'value' | 'flag' | 'referenceLow' | 'referenceHigh' | 'criticalLow' | 'criticalHigh' | 'referenceText'>,
+  numericValue: number | null
+): LabResultFlag | null {
+  if (input.flag) return input.flag
+
+  if (numericValue !== null) {
+    if (input.criticalLow !== undefined && numericValue < input.criticalLow) return LabResultFlag.CRITICAL_LOW
+    if (input.criticalHigh !== undefined && numericValue > input.criticalHigh) return LabResultFlag.CRITICAL_HIGH
+    if (input.referenceLow !== undefined && numericValue < input.referenceLow) return LabResultFlag.LOW
+    if (input.referenceHigh !== undefined && numericValue > input.referenceHigh) return LabResultFlag.HIGH
+    if (input.referenceLow !== undefined || input.referenceHigh !== undefined) return LabResultFlag.NORMAL
+    return null
+  }
+
+  // Qualitative result against a qualitative reference, e.g. "Negative"
+  if (input.referenceText) {
+    return input.value.trim().toLowerCase() === input.referenceText.trim().toLowerCase()
+      ? LabResultFlag.NORMAL
+      : LabResultFlag.ABNORMAL
+  }
+  return null
+}
+
+/**
+ * Rows for lab_results from validated input
+ */
+export function toLabResultRows(
+  labOrderId: string,
+  clinicId: string,
+  results: LabResultInput[]
+): Prisma.LabResultCreateManyInput[] {
+  return results.map((result) => {
+    const numericValue = parseNumericValue(result.value)
+    return {
+      labOrderId,
+      clinicId,
+      code: result.code,
+      name: result.name,
+      value: result.value,
+      numericValue,
+      unit: result.unit,
+      referenceLow: result.referenceLow,
+      referenceHigh: result.referenceHigh,
+      criticalLow: result.criticalLow,
+      criticalHigh: result.criticalHigh,
+      referenceText: result.referenceText,
+      flag: computeFlag(result, numericValue),
+      observedAt: result.observedAt ? new Date(result.observedAt) : undefined,
+      comment: result.comment,
+    }
+  })
+}
@@ -55,6 +55,15 @@ const SAFE_METADATA_KEYS = new Set([
   'count',
   'model',
   'version',
+  'clinicRoleId',
+  'permissionsAdded',
+  'permissionsRemoved',
+  'provider',
+  'inputTokens',
+  'outputTokens',
+  'latencyMs',
+  'failedSections',
+  'unsupportedStatements',
 ])
 
 /**
@@ -327,6 +336,13 @@ export async function logSOAPNoteGeneration(
   noteId: string,
   metadata?: {
     model?: string
+    provider?: string
+    count?: number // LLM calls
+    inputTokens?: number
+    outputTokens?: number
+    latencyMs?: number
+    failedSections?: number // SOAP sections (or metadata) that failed
+    unsupportedStatements?: number
   },
   ip?: string,
   request?: any,
@@ -370,3 +386,142 @@ export async function logTranscriptAccess(
   })
 }
 
+
+/**
+ * Visit note lifecycle actions
+ */
+export type VisitNoteAuditAction =
+  | 'CREATE_VISIT_NOTE'
+  | 'VIEW_VISIT_NOTE'
+  | 'UPDATE_VISIT_NOTE_DRAFT'
+  | 'SIGN_VISIT_NOTE'
+  | 'ADD_VISIT_NOTE_ADDENDUM'
+  | 'AMEND_VISIT_NOTE'
+  | 'VIEW_VISIT_NOTE_REVISIONS'
+  | 'RESTORE_VISIT_NOTE_REVISION'
+
+/**
+ * Convenience function for logging visit note lifecycle steps,
+ * including rejected attempts (success = false)
+ */
+export async function logVisitNoteAction(
+  userId: string,
+  clinicId: string,
+  noteId: string,
+  action: VisitNoteAuditAction,
+  success: boolean,
+  metadata?: {
+    statusCode?: number
+    category?: string
+    version?: number
+  },
+  ip?: string,
+  request?: any,
+  requestId?: string
+): Promise<void> {
+  await logAccess({
+    userId,
+    clinicId,
+    action,
+    resourceType: 'visit_note',
+    resourceId: noteId,
+    ip,
+    request,
+    requestId,
+    success,
+    metadata: metadata ? sanitizeMetadata(metadata) : undefined,
+  })
+}
+
+/**
+ * Medication and refill request actions
+ */
+export type MedicationAuditAction =
+  | 'LIST_MEDICATIONS'
+  | 'VIEW_MEDICATION'
+  | 'CREATE_MEDICATION'
+  | 'UPDATE_MEDICATION'
+  | 'DELETE_MEDICATION'
+  | 'RECONCILE_MEDICATIONS'
+  | 'LIST_REFILL_REQUESTS'
+  | 'CREATE_REFILL_REQUEST'
+  | 'DECIDE_REFILL_REQUEST'
+
+/**
+ * Convenience function for logging medication access and changes,
+ * including rejected attempts (success = false)
+ */
+export async function logMedicationAction(
+  userId: string,
+  clinicId: string,
+  resourceType: 'medication' | 'medication_refill_request' | 'patient',
+  resourceId: string,
+  action: MedicationAuditAction,
+  success: boolean,
+  metadata?: {
+    statusCode?: number
+    category?: string
+    count?: number
+  },
+  ip?: string,
+  request?: any,
+  requestId?: string
+): Promise<void> {
+  await logAccess({
+    userId,
+    clinicId,
+    action,
+    resourceType,
+    resourceId,
+    ip,
+    request,
+    requestId,
+    success,
+    metadata: metadata ? sanitizeMetadata(metadata) : undefined,
+  })
+}
+
+/**
+ * Lab order actions
+ */
+export type LabOrderAuditAction =
+  | 'LIST_LAB_ORDERS'
+  | 'VIEW_LAB_ORDER'
+  | 'CREATE_LAB_ORDER'
+  | 'UPDATE_LAB_ORDER_STATUS'
+  | 'INGEST_LAB_RESULTS'
+  | 'REVIEW_LAB_RESULTS'
+  | 'RELEASE_LAB_RESULTS'
+
+/**
+ * Convenience function for logging lab order access and lifecycle steps,
+ * including rejected attempts (success = false)
+ */
+export async function logLabOrderAction(
+  userId: string,
+  clinicId: string,
+  labOrderId: string,
+  action: LabOrderAuditAction,
+  success: boolean,
+  metadata?: {
+    statusCode?: number
+    category?: string
+    count?: number
+  },
+  ip?: string,
+  request?: any,
+  requestId?: string
+): Promise<void> {
+  await logAccess({
+    userId,
+    clinicId,
+    action,
+    resourceType: 'lab_order',
+    resourceId: labOrderId,
+    ip,
+    request,
+    requestId,
+    success,
+    metadata: metadata ? sanitizeMetadata(metadata) : undefined,
+  })
+}
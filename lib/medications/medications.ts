@@ -0,0 +1,221 @@
+/**
+ * Medications
+ *
+ * Patient medication list, scoped by clinic and by the doctor–patient
+ * relationship (ensureOwnershipOrDoctor): doctors with access to the
+ * patient prescribe and manage, patients read their own, nurses and
+ * staff read those of their clinic's patients.
+ *
+ * Status transitions:
+ * - ACTIVE  -> ON_HOLD | DISCONTINUED | COMPLETED
+ * - ON_HOLD -> ACTIVE | DISCONTINUED | COMPLETED
+ * - DISCONTINUED and COMPLETED are terminal
+ *
+ * Leaving ACTIVE cancels any pending refill request (see ./refills.ts);
+ * stopping a medication also closes its endDate.
+ */
+
+import { MedicationStatus, Prisma, RefillRequestStatus } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { ensureOwnershipOrDoctor, type GuardContext } from '@/lib/auth/guards'
+import type { CreateMedicationInput, UpdateMedicationInput } from '@/lib/validation/schemas'
+
+export const MEDICATION_TRANSITIONS: Record<MedicationStatus, MedicationStatus[]> = {
+  ACTIVE: [MedicationStatus.ON_HOLD, MedicationStatus.DISCONTINUED, MedicationStatus.COMPLETED],
+  ON_HOLD: [MedicationStatus.ACTIVE, MedicationStatus.DISCONTINUED, MedicationStatus.COMPLETED],
+  DISCONTINUED: [],
+  COMPLETED: [],
+}
+
+const STOPPED_STATUSES: MedicationStatus[] = [MedicationStatus.DISCONTINUED, MedicationStatus.COMPLETED]
+
+export const medicationSelect = {
+  id: true,
+  patientId: true,
+  clinicId: true,
+  name: true,
+  dosage: true,
+  frequency: true,
+  route: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+  statusChangedAt: true,
+  statusReason: true,
+  prescribedBy: true,
+  instructions: true,
+  pharmacy: true,
+  refills: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.MedicationSelect
+
+export type MedicationDetail = Prisma.MedicationGetPayload<{ select: typeof medicationSelect }>
+
+export function medicationError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+const toDate = (value: string | null | undefined) => (value === undefined ? undefined : value ? new Date(value) : null)
+
+/**
+ * The patient profile of a patient session
+ */
+export async function getOwnPatientId(user: AuthUser): Promise<string> {
+  const patient = await prisma.patient.findUnique({
+    where: { userId: user.id },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!patient || patient.clinicId !== user.clinicId) {
+    throw medicationError('Patient profile not found', 404)
+  }
+  return patient.id
+}
+
+/**
+ * Load a medication the user may see
+ */
+export async function getMedication(
+  user: AuthUser,
+  medicationId: string,
+  context?: GuardContext
+): Promise<MedicationDetail> {
+  const medication = await prisma.medication.findUnique({
+    where: { id: medicationId },
+    select: medicationSelect,
+  })
+
+  if (!medication || medication.clinicId !== user.clinicId) {
+    throw medicationError('Medication not found', 404)
+  }
+
+  await ensureOwnershipOrDoctor(user, medication.patientId, context)
+  return medication
+}
+
+/**
+ * List a patient's medications, active first
+ */
+export async function listMedications(
+  patientId: string,
+  clinicId: string,
+  status?: MedicationStatus
+): Promise<MedicationDetail[]> {
+  const medications = await prisma.medication.findMany({
+    where: { patientId, clinicId, ...(status && { status }) },
+    select: medicationSelect,
+    orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+  })
+
+  const order: MedicationStatus[] = ['ACTIVE', 'ON_HOLD', 'COMPLETED', 'DISCONTINUED']
+  return medications.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+}
+
+/**
+ * Prescribe a medication (doctor with access to the patient)
+ */
+export async function createMedication(
+  user: AuthUser,
+  input: CreateMedicationInput,
+  context?: GuardContext
+): Promise<MedicationDetail> {
+  const patient = await prisma.patient.findUnique({
+    where: { id: input.patientId },
+    select: { id: true, clinicId: true, preferredPharmacy: true },
+  })
+
+  if (!patient || patient.clinicId !== user.clinicId) {
+    throw medicationError('Patient not found', 404)
+  }
+  await ensureOwnershipOrDoctor(user, patient.id, context)
+
+  const { patientId, startDate, endDate, ...details } = input
+
+  return prisma.medication.create({
+    data: {
+      ...details,
+      patientId,
+      clinicId: patient.clinicId,
+      startDate: toDate(startDate) ?? new Date(),
+      endDate: toDate(endDate),
+      pharmacy: details.pharmacy ?? patient.preferredPharmacy,
+      prescribedBy: user.id,
+      status: MedicationStatus.ACTIVE,
+      statusChangedAt: new Date(),
+    },
+    select: medicationSelect,
+  })
+}
+
+/**
+ * Edit details and/or change status
+ */
+export async function updateMedication(
+  user: AuthUser,
+  medication: MedicationDetail,
+  input: UpdateMedicationInput
+): Promise<MedicationDetail> {
+  const { status, statusReason, startDate, endDate, ...details } = input
+  const changingStatus = status !== undefined && status !== medication.status
+
+  if (STOPPED_STATUSES.includes(medication.status) && (changingStatus || Object.keys(details).length > 0)) {
+    throw medicationError(`Medication is ${medication.status.toLowerCase()} and can no longer be changed`, 409)
+  }
+  if (changingStatus && !MEDICATION_TRANSITIONS[medication.status].includes(status)) {
+    throw medicationError(`Cannot change medication from ${medication.status} to ${status}`, 409)
+  }
+
+  const now = new Date()
+  const stopping = changingStatus && STOPPED_STATUSES.includes(status)
+
+  return prisma.$transaction(async (tx) => {
+    // Conditional on the status we validated against
+    const { count } = await tx.medication.updateMany({
+      where: { id: medication.id, status: medication.status },
+      data: {
+        ...details,
+        ...(startDate !== undefined && { startDate: toDate(startDate) }),
+        ...(endDate !== undefined && { endDate: toDate(endDate) }),
+        ...(changingStatus && {
+          status,
+          statusChangedAt: now,
+          statusReason: statusReason ?? null,
+          ...(stopping && endDate === undefined && !medication.endDate && { endDate: now }),
+        }),
+      },
+    })
+
+    if (count === 0) {
+      throw medicationError('Medication was changed by another request; reload and try again', 409)
+    }
+
+    if (changingStatus && status !== MedicationStatus.ACTIVE) {
+      await tx.medicationRefillRequest.updateMany({
+        where: { medicationId: medication.id, status: RefillRequestStatus.PENDING },
+        data: {
+          status: RefillRequestStatus.CANCELLED,
+          decidedBy: user.id,
+          decidedAt: now,
+          decisionNote: `Medication ${status === MedicationStatus.ON_HOLD ? 'put on hold' : status.toLowerCase()}`,
+        },
+      })
+    }
+
+    return tx.medication.findUniqueOrThrow({ where: { id: medication.id }, select: medicationSelect })
+  })
+}
+
+/**
+ * Remove a medication entered in error (prescriber only)
+ */
+export async function deleteMedication(user: AuthUser, medication: MedicationDetail): Promise<void> {
+  if (medication.prescribedBy !== user.id) {
+    throw medicationError('Only the prescribing doctor can delete a medication; discontinue it instead', 403)
+  }
+
+  await prisma.medication.delete({ where: { id: medication.id } })
+}
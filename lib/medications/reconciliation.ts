@@ -0,0 +1,174 @@
+/**
+ * Medication Reconciliation
+ *
+ * Merges what the patient reports taking (Patient.currentMedicationsData,
+ * free-form JSON from intake and the patient profile) with the
+ * prescribed Medication rows into one list for review:
+ * - CONFIRMED:         reported and prescribed, same dosage/frequency
+ * - DISCREPANCY:       reported and prescribed, dosage or frequency differ
+ * - REPORTED_ONLY:     reported but not prescribed here (e.g. outside
+ *                      prescriber, OTC)
+ * - PRESCRIBED_ONLY:   active or on hold but not reported
+ * - REPORTED_STOPPED:  reported although discontinued/completed
+ *
+ * Matching is by normalised name; "Metformin 500mg" matches "Metformin".
+ * Nothing is written; doctors act on the result through the medication
+ * endpoints.
+ */
+
+import { MedicationStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { listMedications, medicationError, type MedicationDetail } from './medications'
+
+export type ReconciliationStatus =
+  | 'CONFIRMED'
+  | 'DISCREPANCY'
+  | 'REPORTED_ONLY'
+  | 'PRESCRIBED_ONLY'
+  | 'REPORTED_STOPPED'
+
+export interface ReportedMedication {
+  name: string
+  dosage: string | null
+  frequency: string | null
+  route: string | null
+}
+
+export interface ReconciliationEntry {
+  name: string
+  status: ReconciliationStatus
+  differences: ('dosage' | 'frequency')[]
+  medication: MedicationDetail | null
+  reported: ReportedMedication | null
+}
+
+export interface MedicationReconciliation {
+  patientId: string
+  entries: ReconciliationEntry[]
+  summary: Record<ReconciliationStatus, number>
+}
+
+const STOPPED_STATUSES: MedicationStatus[] = [MedicationStatus.DISCONTINUED, MedicationStatus.COMPLETED]
+
+const normalize = (value: string | null | undefined) =>
+  (value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .trim()
+
+const firstString = (record: Record<string, unknown>, keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = record[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return null
+}
+
+/**
+ * Read reported medications from the loosely structured JSON column
+ * Accepts a list (of names or objects) or an object with a `medications` list.
+ */
+export function parseReportedMedications(data: Prisma.JsonValue | null): ReportedMedication[] {
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>).medications)
+      ? ((data as Record<string, unknown>).medications as Prisma.JsonArray)
+      : []
+
+  return list.flatMap((item): ReportedMedication[] => {
+    if (typeof item === 'string') {
+      return item.trim() ? [{ name: item.trim(), dosage: null, frequency: null, route: null }] : []
+    }
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+
+    const record = item as Record<string, unknown>
+    const name = firstString(record, ['name', 'medication', 'drug'])
+    if (!name) return []
+    return [
+      {
+        name,
+        dosage: firstString(record, ['dosage', 'dose', 'strength']),
+        frequency: firstString(record, ['frequency', 'schedule']),
+        route: firstString(record, ['route']),
+      },
+    ]
+  })
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const x = normalize(a)
+  const y = normalize(b)
+  return x === y || x.startsWith(`${y} `) || y.startsWith(`${x} `)
+}
+
+function compare(reported: ReportedMedication, medication: MedicationDetail): ReconciliationEntry {
+  if (STOPPED_STATUSES.includes(medication.status)) {
+    return { name: medication.name, status: 'REPORTED_STOPPED', differences: [], medication, reported }
+  }
+
+  const differences: ReconciliationEntry['differences'] = []
+  if (reported.dosage && medication.dosage && normalize(reported.dosage) !== normalize(medication.dosage)) {
+    differences.push('dosage')
+  }
+  if (reported.frequency && medication.frequency && normalize(reported.frequency) !== normalize(medication.frequency)) {
+    differences.push('frequency')
+  }
+
+  return {
+    name: medication.name,
+    status: differences.length > 0 ? 'DISCREPANCY' : 'CONFIRMED',
+    differences,
+    medication,
+    reported,
+  }
+}
+
+/**
+ * Build the reconciliation list for a patient (caller checks access)
+ */
+export async function reconcileMedications(patientId: string, clinicId: string): Promise<MedicationReconciliation> {
+  const patient = await prisma.patient.findUnique({
+    where: { id: patientId },
+    select: { id: true, clinicId: true, currentMedicationsData: true },
+  })
+
+  if (!patient || patient.clinicId !== clinicId) {
+    throw medicationError('Patient not found', 404)
+  }
+
+  const reported = parseReportedMedications(patient.currentMedicationsData)
+  const medications = await listMedications(patientId, clinicId)
+
+  const entries: ReconciliationEntry[] = []
+  const matched = new Set<string>()
+
+  for (const item of reported) {
+    // Prefer a current medication over a stopped one with the same name
+    const candidates = medications.filter((medication) => !matched.has(medication.id) && namesMatch(item.name, medication.name))
+    const medication =
+      candidates.find((candidate) => !STOPPED_STATUSES.includes(candidate.status)) ?? candidates[0] ?? null
+
+    if (medication) {
+      matched.add(medication.id)
+      entries.push(compare(item, medication))
+    } else {
+      entries.push({ name: item.name, status: 'REPORTED_ONLY', differences: [], medication: null, reported: item })
+    }
+  }
+
+  for (const medication of medications) {
+    if (matched.has(medication.id) || STOPPED_STATUSES.includes(medication.status)) continue
+    entries.push({ name: medication.name, status: 'PRESCRIBED_ONLY', differences: [], medication, reported: null })
+  }
+
+  const summary: Record<ReconciliationStatus, number> = {
+    CONFIRMED: 0,
+    DISCREPANCY: 0,
+    REPORTED_ONLY: 0,
+    PRESCRIBED_ONLY: 0,
+    REPORTED_STOPPED: 0,
+  }
+  for (const entry of entries) summary[entry.status]++
+
+  return { patientId, entries, summary }
+}
@@ -0,0 +1,206 @@
+/**
+ * Medication Refill Requests
+ *
+ * Patients request refills of their ACTIVE medications; the prescriber is
+ * notified and any doctor with access to the patient can approve (adding
+ * refills to the medication) or deny (with a reason). One request per
+ * medication can be pending at a time. Requests still pending when the
+ * medication leaves ACTIVE are cancelled (see ./medications.ts).
+ */
+
+import { MedicationStatus, Prisma, RefillRequestStatus, UserRole } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { ensureOwnershipOrDoctor, type GuardContext } from '@/lib/auth/guards'
+import type { RefillDecisionInput } from '@/lib/validation/schemas'
+import { getOwnPatientId, medicationError, type MedicationDetail } from './medications'
+
+export const refillRequestSelect = {
+  id: true,
+  medicationId: true,
+  patientId: true,
+  clinicId: true,
+  status: true,
+  patientNote: true,
+  pharmacy: true,
+  refillsGranted: true,
+  decidedBy: true,
+  decidedAt: true,
+  decisionNote: true,
+  createdAt: true,
+  medication: {
+    select: {
+      id: true,
+      name: true,
+      dosage: true,
+      frequency: true,
+      status: true,
+      refills: true,
+      prescribedBy: true,
+    },
+  },
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.MedicationRefillRequestSelect
+
+export type RefillRequestDetail = Prisma.MedicationRefillRequestGetPayload<{ select: typeof refillRequestSelect }>
+
+/**
+ * Request a refill (the medication's patient; load it with getMedication)
+ */
+export async function createRefillRequest(
+  user: AuthUser,
+  medication: MedicationDetail,
+  input: { patientNote?: string; pharmacy?: string }
+): Promise<RefillRequestDetail> {
+  if (user.role !== 'patient') {
+    throw medicationError('Only the patient can request a refill', 403)
+  }
+  if (medication.status !== MedicationStatus.ACTIVE) {
+    throw medicationError('Refills can only be requested for active medications', 409)
+  }
+  if (!medication.prescribedBy) {
+    throw medicationError('This medication has no prescriber on record; message your care team instead', 409)
+  }
+
+  const pending = await prisma.medicationRefillRequest.findFirst({
+    where: { medicationId: medication.id, status: RefillRequestStatus.PENDING },
+    select: { id: true },
+  })
+  if (pending) {
+    throw medicationError('A refill request for this medication is already pending', 409)
+  }
+
+  const prescriber = medication.prescribedBy
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const request = await tx.medicationRefillRequest.create({
+        data: {
+          medicationId: medication.id,
+          patientId: medication.patientId,
+          clinicId: medication.clinicId,
+          patientNote: input.patientNote,
+          pharmacy: input.pharmacy ?? medication.pharmacy,
+        },
+        select: refillRequestSelect,
+      })
+
+      // Delivered to the prescriber by the notification pipeline
+      await tx.notification.create({
+        data: {
+          userId: prescriber,
+          userRole: UserRole.DOCTOR,
+          type: 'REFILL_REQUESTED',
+          title: 'Refill requested',
+          message: `A patient requested a refill of ${medication.name}.`,
+          data: { refillRequestId: request.id, medicationId: medication.id, patientId: medication.patientId },
+        },
+      })
+
+      return request
+    })
+  } catch (error) {
+    // Partial unique index on pending requests (concurrent submit)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw medicationError('A refill request for this medication is already pending', 409)
+    }
+    throw error
+  }
+}
+
+/**
+ * Refill requests for the user: a patient's own, those for medications
+ * the doctor prescribed, or otherwise the clinic's
+ */
+export async function listRefillRequests(
+  user: AuthUser,
+  options: { status?: RefillRequestStatus; limit?: number } = {}
+): Promise<RefillRequestDetail[]> {
+  let scope: Prisma.MedicationRefillRequestWhereInput = {}
+  if (user.role === 'patient') {
+    scope = { patientId: await getOwnPatientId(user) }
+  } else if (user.role === 'doctor') {
+    scope = { medication: { prescribedBy: user.id } }
+  }
+
+  return prisma.medicationRefillRequest.findMany({
+    where: { ...scope, clinicId: user.clinicId, ...(options.status && { status: options.status }) },
+    select: refillRequestSelect,
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 50,
+  })
+}
+
+/**
+ * Approve or deny a pending request (doctor with access to the patient)
+ */
+export async function decideRefillRequest(
+  user: AuthUser,
+  requestId: string,
+  input: RefillDecisionInput,
+  context?: GuardContext
+): Promise<RefillRequestDetail> {
+  const request = await prisma.medicationRefillRequest.findUnique({
+    where: { id: requestId },
+    select: { ...refillRequestSelect, patient: { select: { id: true, userId: true } } },
+  })
+
+  if (!request || request.clinicId !== user.clinicId) {
+    throw medicationError('Refill request not found', 404)
+  }
+  await ensureOwnershipOrDoctor(user, request.patientId, context)
+
+  if (request.status !== RefillRequestStatus.PENDING) {
+    throw medicationError(`Refill request is already ${request.status.toLowerCase()}`, 409)
+  }
+
+  const approve = input.decision === 'APPROVE'
+  const refills = approve ? input.refills ?? 1 : null
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.medicationRefillRequest.updateMany({
+      where: { id: request.id, status: RefillRequestStatus.PENDING },
+      data: {
+        status: approve ? RefillRequestStatus.APPROVED : RefillRequestStatus.DENIED,
+        refillsGranted: refills,
+        decidedBy: user.id,
+        decidedAt: new Date(),
+        decisionNote: input.note ?? null,
+      },
+    })
+    if (count === 0) {
+      throw medicationError('Refill request was decided by another request', 409)
+    }
+
+    if (approve) {
+      const { count: updated } = await tx.medication.updateMany({
+        where: { id: request.medicationId, status: MedicationStatus.ACTIVE },
+        data: { refills: { increment: refills! } },
+      })
+      if (updated === 0) {
+        throw medicationError('Medication is no longer active', 409)
+      }
+    }
+
+    // Delivered to the patient by the notification pipeline
+    await tx.notification.create({
+      data: {
+        userId: request.patient.userId,
+        userRole: UserRole.PATIENT,
+        type: 'REFILL_REQUEST_DECIDED',
+        title: approve ? 'Refill approved' : 'Refill denied',
+        message: approve
+          ? `Your refill of ${request.medication.name} was approved (${refills} refill${refills === 1 ? '' : 's'}).`
+          : `Your refill of ${request.medication.name} was denied. Please check your messages or contact your care team.`,
+        data: { refillRequestId: request.id, medicationId: request.medicationId },
+      },
+    })
+
+    return tx.medicationRefillRequest.findUniqueOrThrow({ where: { id: request.id }, select: refillRequestSelect })
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * Care-Team Roster
+ *
+ * Doctors, nurses, staff and admins who work the clinic's shared message
+ * inbox. Other users' roles can't be read from Supabase with the anon
+ * key, so assignment targets come from this roster instead: members
+ * register on first inbox use and admins can deactivate them.
+ */
+
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { toPrismaUserRole } from '@/lib/auth/roles'
+
+export const CARE_TEAM_ROLES = ['doctor', 'nurse', 'staff', 'admin'] as const
+
+export type CareTeamRole = (typeof CARE_TEAM_ROLES)[number]
+
+export const careTeamMemberSelect = {
+  id: true,
+  userId: true,
+  role: true,
+  displayName: true,
+  active: true,
+} as const
+
+export function isCareTeamRole(role: string): role is CareTeamRole {
+  return (CARE_TEAM_ROLES as readonly string[]).includes(role)
+}
+
+/**
+ * Register the user on their clinic's care-team roster (idempotent)
+ * Returns the member, including whether an admin has deactivated it.
+ */
+export async function ensureCareTeamMember(user: AuthUser & { role: CareTeamRole }) {
+  return prisma.careTeamMember.upsert({
+    where: { clinicId_userId: { clinicId: user.clinicId, userId: user.id } },
+    // Keep the role in step with user_roles, which is the source of truth
+    update: { role: toPrismaUserRole(user.role) },
+    create: {
+      clinicId: user.clinicId,
+      userId: user.id,
+      role: toPrismaUserRole(user.role),
+      displayName: user.email.split('@')[0] || user.email,
+    },
+    select: careTeamMemberSelect,
+  })
+}
+
+/**
+ * Active members of a clinic's care team, optionally limited to roles
+ */
+export async function listCareTeamMembers(clinicId: string, roles?: UserRole[]) {
+  return prisma.careTeamMember.findMany({
+    where: { clinicId, active: true, ...(roles && { role: { in: roles } }) },
+    select: careTeamMemberSelect,
+    orderBy: { displayName: 'asc' },
+  })
+}
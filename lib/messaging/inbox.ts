@@ -0,0 +1,263 @@
+/**
+ * Care-Team Inbox
+ *
+ * Clinic-level triage on top of message threads:
+ * - views: "mine" (assigned to me, or my own doctor threads nobody has
+ *   taken), "pool" (routed to the care team and unassigned), "all" and
+ *   "escalated"
+ * - threads are assigned by any care-team member or claimed from the
+ *   pool; claiming fails if someone else got there first
+ * - category drives the response-time SLA (lib/messaging/sla.ts)
+ * - escalation: once a reply is overdue the assignee (else the doctor,
+ *   else the clinic admins) is notified; one SLA period later the thread
+ *   is unassigned, returned to the pool and admins are notified
+ *
+ * Escalation is processed lazily (on each inbox read) via
+ * processInboxEscalations.
+ */
+
+import { InboxStatus, MessageCategory, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { listCareTeamMembers } from './care-team'
+import { computeResponseDueAt } from './sla'
+import { listThreads, resolveParticipant, ThreadParticipant, ThreadSummary } from './threads'
+
+export type InboxView = 'mine' | 'pool' | 'all' | 'escalated'
+
+/**
+ * Threads escalated per inbox read (the rest are picked up next time)
+ */
+const MAX_ESCALATIONS_PER_RUN = 100
+
+interface NotificationRecipient {
+  userId: string
+  role: UserRole
+}
+
+function inboxError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+/**
+ * Resolve the session user to an active care-team member
+ */
+export async function requireInboxParticipant(user: AuthUser): Promise<ThreadParticipant> {
+  const participant = await resolveParticipant(user)
+  if (participant.role === 'patient') {
+    throw inboxError('Only the care team can use the inbox', 403)
+  }
+  if (!participant.inboxActive) {
+    throw inboxError('Your care-team inbox access has been deactivated', 403)
+  }
+  return participant
+}
+
+function viewWhere(view: InboxView, participant: ThreadParticipant): Prisma.MessageThreadWhereInput {
+  switch (view) {
+    case 'mine':
+      return {
+        OR: [
+          { assigneeId: participant.profileId },
+          ...(participant.doctorId ? [{ doctorId: participant.doctorId, assigneeId: null }] : []),
+        ],
+      }
+    case 'pool':
+      return { routedToPool: true, assigneeId: null }
+    case 'escalated':
+      return { escalationLevel: { gt: 0 } }
+    default:
+      return {}
+  }
+}
+
+/**
+ * List inbox threads for a care-team member, most urgent first
+ * Resolved threads are hidden unless asked for by status.
+ */
+export async function listInbox(
+  participant: ThreadParticipant,
+  options: { view?: InboxView; category?: MessageCategory; status?: InboxStatus; limit?: number } = {}
+) {
+  await processInboxEscalations(participant.clinicId)
+
+  return listThreads(participant, {
+    limit: options.limit,
+    where: {
+      ...viewWhere(options.view ?? 'mine', participant),
+      ...(options.category && { category: options.category }),
+      inboxStatus: options.status ?? { not: InboxStatus.RESOLVED },
+    },
+    orderBy: [
+      { escalationLevel: 'desc' },
+      { responseDueAt: { sort: 'asc', nulls: 'last' } },
+      { lastMessageAt: 'desc' },
+    ],
+  })
+}
+
+/**
+ * Assign a thread to an active care-team member, or unassign it (null)
+ */
+export async function assignThread(
+  thread: Pick<ThreadSummary, 'id' | 'clinicId'>,
+  assigneeId: string | null
+) {
+  if (assigneeId) {
+    const member = await prisma.careTeamMember.findUnique({
+      where: { id: assigneeId, clinicId: thread.clinicId },
+      select: { active: true },
+    })
+    if (!member) throw inboxError('Care-team member not found', 404)
+    if (!member.active) throw inboxError('Care-team member is inactive', 400)
+  }
+
+  await prisma.messageThread.update({
+    where: { id: thread.id },
+    data: { assigneeId, assignedAt: assigneeId ? new Date() : null },
+  })
+}
+
+/**
+ * Take an unassigned thread
+ * Throws 409 if it is already assigned to someone else.
+ */
+export async function claimThread(
+  thread: Pick<ThreadSummary, 'id'>,
+  participant: ThreadParticipant
+) {
+  const { count } = await prisma.messageThread.updateMany({
+    where: {
+      id: thread.id,
+      OR: [{ assigneeId: null }, { assigneeId: participant.profileId }],
+    },
+    data: { assigneeId: participant.profileId, assignedAt: new Date() },
+  })
+
+  if (count === 0) {
+    throw inboxError('This thread is already assigned to someone else', 409)
+  }
+}
+
+/**
+ * Update a thread's category, status and pool routing
+ *
+ * Recategorising re-times a running SLA. Marking a thread resolved or
+ * waiting on the patient stops the clock; reopening it starts a new one.
+ */
+export async function updateTriage(
+  thread: Pick<ThreadSummary, 'id' | 'clinicId' | 'category' | 'inboxStatus' | 'awaitingReplySince'>,
+  input: { category?: MessageCategory; inboxStatus?: InboxStatus; routedToPool?: boolean }
+) {
+  const category = input.category ?? thread.category
+  const data: Prisma.MessageThreadUpdateInput = {
+    category: input.category,
+    inboxStatus: input.inboxStatus,
+    routedToPool: input.routedToPool,
+  }
+
+  const status = input.inboxStatus ?? thread.inboxStatus
+  if (status !== InboxStatus.OPEN) {
+    Object.assign(data, {
+      awaitingReplySince: null,
+      responseDueAt: null,
+      escalationLevel: 0,
+      escalatedAt: null,
+    })
+  } else if (thread.awaitingReplySince) {
+    if (input.category && input.category !== thread.category) {
+      data.responseDueAt = await computeResponseDueAt(thread.clinicId, category, thread.awaitingReplySince)
+    }
+  } else {
+    const now = new Date()
+    data.awaitingReplySince = now
+    data.responseDueAt = await computeResponseDueAt(thread.clinicId, category, now)
+  }
+
+  await prisma.messageThread.update({ where: { id: thread.id }, data })
+}
+
+async function clinicAdmins(clinicId: string): Promise<NotificationRecipient[]> {
+  const admins = await listCareTeamMembers(clinicId, [UserRole.ADMIN])
+  return admins.map((admin) => ({ userId: admin.userId, role: admin.role }))
+}
+
+/**
+ * Escalate threads whose replies are overdue
+ * Safe to run concurrently: each level is applied with a conditional
+ * update, so a thread is escalated (and notified) once per level.
+ */
+export async function processInboxEscalations(clinicId: string, now: Date = new Date()): Promise<number> {
+  const overdue = await prisma.messageThread.findMany({
+    where: {
+      clinicId,
+      inboxStatus: InboxStatus.OPEN,
+      responseDueAt: { lte: now },
+      escalationLevel: { lt: 2 },
+    },
+    select: {
+      id: true,
+      subject: true,
+      category: true,
+      awaitingReplySince: true,
+      responseDueAt: true,
+      escalationLevel: true,
+      assignee: { select: { userId: true, role: true, active: true } },
+      doctor: { select: { userId: true } },
+    },
+    // New breaches first so level-1 threads still inside their grace period don't crowd them out
+    orderBy: [{ escalationLevel: 'asc' }, { responseDueAt: 'asc' }],
+    take: MAX_ESCALATIONS_PER_RUN,
+  })
+
+  let escalated = 0
+  let admins: NotificationRecipient[] | null = null
+
+  for (const thread of overdue) {
+    const dueAt = thread.responseDueAt!
+    // The second level comes one more SLA period after the deadline
+    const slaMs = dueAt.getTime() - (thread.awaitingReplySince ?? dueAt).getTime()
+    const level = thread.escalationLevel === 0 ? 1 : 2
+    if (level === 2 && dueAt.getTime() + slaMs > now.getTime()) continue
+
+    const { count } = await prisma.messageThread.updateMany({
+      where: { id: thread.id, escalationLevel: thread.escalationLevel, inboxStatus: InboxStatus.OPEN },
+      data: {
+        escalationLevel: level,
+        escalatedAt: now,
+        ...(level === 2 && { routedToPool: true, assigneeId: null, assignedAt: null }),
+      },
+    })
+    if (count === 0) continue
+
+    let recipients: NotificationRecipient[]
+    if (level === 1 && thread.assignee?.active) {
+      recipients = [{ userId: thread.assignee.userId, role: thread.assignee.role }]
+    } else if (level === 1 && thread.doctor) {
+      recipients = [{ userId: thread.doctor.userId, role: UserRole.DOCTOR }]
+    } else {
+      admins ??= await clinicAdmins(clinicId)
+      recipients = admins
+    }
+
+    const label = thread.subject || `${thread.category.toLowerCase()} message`
+    await prisma.notification.createMany({
+      data: recipients.map((recipient) => ({
+        userId: recipient.userId,
+        userRole: recipient.role,
+        type: 'MESSAGE_SLA_BREACHED' as const,
+        title: level === 1 ? 'Patient message overdue' : 'Overdue patient message returned to the pool',
+        message:
+          level === 1
+            ? `A reply to "${label}" was due ${dueAt.toISOString()}.`
+            : `"${label}" is still unanswered and has been unassigned and returned to the care-team pool.`,
+        data: { threadId: thread.id, escalationLevel: level, responseDueAt: dueAt.toISOString() },
+      })),
+    })
+    escalated++
+  }
+
+  return escalated
+}
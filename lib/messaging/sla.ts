@@ -0,0 +1,43 @@
+/**
+ * Message Response-Time SLAs
+ *
+ * Each clinic sets how long the care team has to reply to a patient,
+ * per message category (clinical questions are answered fastest). The
+ * clock starts at the oldest unanswered patient message.
+ */
+
+import { MessageCategory } from '@prisma/client'
+import { getClinicSettings, ClinicSettingsData } from '@/lib/clinics/settings'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function getMessageSlaHours(
+  settings: Pick<
+    ClinicSettingsData,
+    'messageSlaHours' | 'clinicalMessageSlaHours' | 'refillMessageSlaHours' | 'billingMessageSlaHours'
+  >,
+  category: MessageCategory
+): number {
+  switch (category) {
+    case MessageCategory.CLINICAL:
+      return settings.clinicalMessageSlaHours
+    case MessageCategory.REFILL:
+      return settings.refillMessageSlaHours
+    case MessageCategory.BILLING:
+      return settings.billingMessageSlaHours
+    default:
+      return settings.messageSlaHours
+  }
+}
+
+/**
+ * When a reply is due for a patient message sent at `awaitingSince`
+ */
+export async function computeResponseDueAt(
+  clinicId: string,
+  category: MessageCategory,
+  awaitingSince: Date
+): Promise<Date> {
+  const settings = await getClinicSettings(clinicId)
+  return new Date(awaitingSince.getTime() + getMessageSlaHours(settings, category) * HOUR_MS)
+}
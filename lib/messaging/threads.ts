@@ -0,0 +1,543 @@
+/**
+ * Secure Messaging
+ *
+ * Patient–care-team message threads backed by MessageThread/Message:
+ * - participants are resolved from the session to their patient profile
+ *   or care-team roster entry; a thread is visible to its patient, its
+ *   doctor (if any), its assignee, the whole care team once routed to the
+ *   pool, and clinic admins (see canAccessThread)
+ * - unread counts are per message (Message.read/readAt); the thread's
+ *   unreadByDoctor (care team) / unreadByPatient flags are kept in sync
+ *   for cheap "has unread" checks
+ * - patient messages start the response-time SLA clock and care-team
+ *   replies stop it (see lib/messaging/inbox.ts for triage and escalation)
+ * - attachments are FileRecord ids belonging to the thread's patient
+ * - live delivery polls for messages changed since a cursor, so it works
+ *   across server instances without a pub/sub backend
+ */
+
+import { InboxStatus, MessageCategory, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { CareTeamRole, ensureCareTeamMember, isCareTeamRole } from './care-team'
+import { computeResponseDueAt } from './sla'
+
+export interface ThreadParticipant {
+  userId: string
+  clinicId: string
+  role: 'patient' | CareTeamRole
+  profileId: string // Patient.id for patients, CareTeamMember.id for the care team
+  doctorId: string | null // Doctor.id when the participant is a doctor
+  inboxActive: boolean // Care-team member not deactivated by an admin
+}
+
+export interface MessageAttachment {
+  id: string
+  fileName: string
+  fileType: string
+  fileSize: number
+}
+
+export interface ThreadChangeCursor {
+  since: Date
+  seenIds: string[] // Messages already delivered with updatedAt === since
+}
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50
+
+export const threadMessageSelect = {
+  id: true,
+  threadId: true,
+  senderId: true,
+  senderRole: true,
+  content: true,
+  attachments: true,
+  read: true,
+  readAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.MessageSelect
+
+export type ThreadMessage = Prisma.MessageGetPayload<{ select: typeof threadMessageSelect }>
+
+export type ThreadMessageWithAttachments = Omit<ThreadMessage, 'attachments'> & {
+  attachments: MessageAttachment[]
+}
+
+const threadSummarySelect = {
+  id: true,
+  clinicId: true,
+  doctorId: true,
+  patientId: true,
+  subject: true,
+  lastMessageAt: true,
+  unreadByDoctor: true,
+  unreadByPatient: true,
+  archived: true,
+  category: true,
+  inboxStatus: true,
+  routedToPool: true,
+  assigneeId: true,
+  assignedAt: true,
+  awaitingReplySince: true,
+  responseDueAt: true,
+  escalationLevel: true,
+  createdAt: true,
+  doctor: { select: { id: true, userId: true, specialization: true, credentials: true } },
+  patient: { select: { id: true, userId: true, firstName: true, lastName: true } },
+  assignee: { select: { id: true, userId: true, role: true, displayName: true } },
+} satisfies Prisma.MessageThreadSelect
+
+export type ThreadSummary = Prisma.MessageThreadGetPayload<{ select: typeof threadSummarySelect }>
+
+function messagingError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+function senderRoleOf(participant: ThreadParticipant): UserRole {
+  return participant.role.toUpperCase() as UserRole
+}
+
+/**
+ * Messages from "the other party": the care team for patients, the
+ * patient for any care-team member
+ */
+function incomingMessageWhere(participant: ThreadParticipant): Prisma.MessageWhereInput {
+  return participant.role === 'patient'
+    ? { senderRole: { not: UserRole.PATIENT } }
+    : { senderRole: UserRole.PATIENT }
+}
+
+/**
+ * Threads the participant can see (mirrors canAccessThread)
+ */
+export function participantWhere(participant: ThreadParticipant): Prisma.MessageThreadWhereInput {
+  const clinicId = participant.clinicId
+
+  if (participant.role === 'patient') {
+    return { clinicId, patientId: participant.profileId }
+  }
+  if (!participant.inboxActive) {
+    // Deactivated doctors keep their own threads but lose the shared inbox
+    return { clinicId, doctorId: participant.doctorId ?? '' }
+  }
+  if (participant.role === 'admin') {
+    return { clinicId }
+  }
+
+  return {
+    clinicId,
+    OR: [
+      ...(participant.doctorId ? [{ doctorId: participant.doctorId }] : []),
+      { assigneeId: participant.profileId },
+      { routedToPool: true },
+    ],
+  }
+}
+
+/**
+ * Whether the participant can read and post in the thread
+ */
+export function canAccessThread(
+  thread: Pick<ThreadSummary, 'clinicId' | 'patientId' | 'doctorId' | 'assigneeId' | 'routedToPool'>,
+  participant: ThreadParticipant
+): boolean {
+  if (thread.clinicId !== participant.clinicId) return false
+  if (participant.role === 'patient') return thread.patientId === participant.profileId
+  if (participant.doctorId && thread.doctorId === participant.doctorId) return true
+  if (!participant.inboxActive) return false
+
+  return (
+    participant.role === 'admin' ||
+    thread.assigneeId === participant.profileId ||
+    thread.routedToPool
+  )
+}
+
+/**
+ * Resolve the session user to their patient profile or care-team member
+ * Care-team users are registered on the clinic roster on first use.
+ * Throws 403 for other roles and deactivated non-doctor members, and
+ * 404 if a doctor or patient profile is missing.
+ */
+export async function resolveParticipant(user: AuthUser): Promise<ThreadParticipant> {
+  const base = { userId: user.id, clinicId: user.clinicId }
+
+  if (user.role === 'patient') {
+    const patient = await prisma.patient.findUnique({
+      where: { userId: user.id, clinicId: user.clinicId },
+      select: { id: true },
+    })
+    if (!patient) throw messagingError('Patient profile not found', 404)
+    return { ...base, role: 'patient', profileId: patient.id, doctorId: null, inboxActive: false }
+  }
+
+  if (!isCareTeamRole(user.role)) {
+    throw messagingError('Only patients and the care team can use messaging', 403)
+  }
+
+  let doctorId: string | null = null
+  if (user.role === 'doctor') {
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: user.id, clinicId: user.clinicId },
+      select: { id: true },
+    })
+    if (!doctor) throw messagingError('Doctor profile not found', 404)
+    doctorId = doctor.id
+  }
+
+  const member = await ensureCareTeamMember({ ...user, role: user.role })
+  if (!member.active && !doctorId) {
+    throw messagingError('Your care-team inbox access has been deactivated', 403)
+  }
+
+  return { ...base, role: user.role, profileId: member.id, doctorId, inboxActive: member.active }
+}
+
+/**
+ * Load a thread the participant belongs to
+ * Threads in other clinics are reported as not found; threads in the
+ * clinic between other people are forbidden.
+ */
+export async function requireThreadAccess(
+  threadId: string,
+  participant: ThreadParticipant
+): Promise<ThreadSummary> {
+  const thread = await prisma.messageThread.findUnique({
+    where: { id: threadId, clinicId: participant.clinicId },
+    select: threadSummarySelect,
+  })
+
+  if (!thread) {
+    throw messagingError('Message thread not found', 404)
+  }
+
+  if (!canAccessThread(thread, participant)) {
+    throw messagingError('You are not part of this message thread', 403)
+  }
+
+  return thread
+}
+
+/**
+ * Count unread messages from the other party, per thread
+ */
+async function countUnread(
+  threadIds: string[],
+  participant: ThreadParticipant
+): Promise<Map<string, number>> {
+  if (threadIds.length === 0) return new Map()
+
+  const groups = await prisma.message.groupBy({
+    by: ['threadId'],
+    where: {
+      threadId: { in: threadIds },
+      read: false,
+      ...incomingMessageWhere(participant),
+    },
+    _count: { _all: true },
+  })
+
+  return new Map(groups.map((group) => [group.threadId, group._count._all]))
+}
+
+/**
+ * List the participant's threads, most recently active first, with the
+ * last message and unread count for each
+ */
+export async function listThreads(
+  participant: ThreadParticipant,
+  options: {
+    archived?: boolean
+    unreadOnly?: boolean
+    limit?: number
+    where?: Prisma.MessageThreadWhereInput // Extra filters, e.g. an inbox view
+    orderBy?: Prisma.MessageThreadOrderByWithRelationInput[]
+  } = {}
+) {
+  const unreadFlag = participant.role === 'patient' ? 'unreadByPatient' : 'unreadByDoctor'
+
+  const threads = await prisma.messageThread.findMany({
+    where: {
+      AND: [
+        participantWhere(participant),
+        {
+          archived: options.archived ?? false,
+          ...(options.unreadOnly && { [unreadFlag]: true }),
+        },
+        options.where ?? {},
+      ],
+    },
+    select: {
+      ...threadSummarySelect,
+      messages: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: threadMessageSelect,
+      },
+    },
+    orderBy: options.orderBy ?? { lastMessageAt: 'desc' },
+    take: options.limit,
+  })
+
+  const unreadCounts = await countUnread(
+    threads.map((thread) => thread.id),
+    participant
+  )
+
+  return threads.map(({ messages, ...thread }) => ({
+    ...thread,
+    lastMessage: messages[0] ?? null,
+    unreadCount: unreadCounts.get(thread.id) ?? 0,
+  }))
+}
+
+/**
+ * Resolve attachment ids to file metadata, dropping ids that no longer exist
+ */
+async function loadAttachments(messages: ThreadMessage[]): Promise<ThreadMessageWithAttachments[]> {
+  const ids = Array.from(new Set(messages.flatMap((message) => message.attachments)))
+  const files = ids.length
+    ? await prisma.fileRecord.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, fileName: true, fileType: true, fileSize: true },
+      })
+    : []
+  const byId = new Map(files.map((file) => [file.id, file]))
+
+  return messages.map((message) => ({
+    ...message,
+    attachments: message.attachments
+      .map((id) => byId.get(id))
+      .filter((file): file is MessageAttachment => !!file),
+  }))
+}
+
+/**
+ * Page through a thread's history, newest first
+ * Pass the returned nextCursor to load older messages.
+ */
+export async function listMessages(
+  threadId: string,
+  options: { cursor?: string; limit?: number } = {}
+) {
+  const limit = options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE
+
+  const rows = await prisma.message.findMany({
+    where: { threadId },
+    select: threadMessageSelect,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  })
+
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+
+  return {
+    messages: await loadAttachments(page),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    hasMore,
+  }
+}
+
+/**
+ * Check that every attachment is a file of the thread's patient
+ * Throws 400 naming nothing about files the caller can't see.
+ */
+async function assertAttachmentsAllowed(
+  attachmentIds: string[],
+  thread: Pick<ThreadSummary, 'clinicId' | 'patientId'>,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const unique = Array.from(new Set(attachmentIds))
+  if (unique.length === 0) return
+
+  const found = await client.fileRecord.count({
+    where: { id: { in: unique }, clinicId: thread.clinicId, patientId: thread.patientId },
+  })
+  if (found !== unique.length) {
+    throw messagingError('Attachments must be files in this patient\'s record', 400)
+  }
+}
+
+/**
+ * Post a message to a thread and flag it unread for the other party
+ * A patient message starts the response-time clock (if not already
+ * running) and reopens the thread; a care-team reply stops it.
+ */
+export async function sendMessage(
+  thread: Pick<ThreadSummary, 'id' | 'clinicId' | 'patientId'>,
+  participant: ThreadParticipant,
+  input: { content: string; attachments?: string[] }
+): Promise<ThreadMessageWithAttachments> {
+  const attachments = Array.from(new Set(input.attachments ?? []))
+
+  const message = await prisma.$transaction(async (tx) => {
+    await assertAttachmentsAllowed(attachments, thread, tx)
+
+    const created = await tx.message.create({
+      data: {
+        threadId: thread.id,
+        senderId: participant.userId,
+        senderRole: senderRoleOf(participant),
+        content: input.content,
+        attachments,
+      },
+      select: threadMessageSelect,
+    })
+
+    let triage: Prisma.MessageThreadUpdateInput
+    if (participant.role === 'patient') {
+      const current = await tx.messageThread.findUniqueOrThrow({
+        where: { id: thread.id },
+        select: { category: true, awaitingReplySince: true },
+      })
+      triage = current.awaitingReplySince
+        ? { inboxStatus: InboxStatus.OPEN }
+        : {
+            inboxStatus: InboxStatus.OPEN,
+            awaitingReplySince: created.createdAt,
+            responseDueAt: await computeResponseDueAt(thread.clinicId, current.category, created.createdAt),
+          }
+    } else {
+      triage = {
+        inboxStatus: InboxStatus.WAITING_ON_PATIENT,
+        awaitingReplySince: null,
+        responseDueAt: null,
+        escalationLevel: 0,
+        escalatedAt: null,
+      }
+    }
+
+    await tx.messageThread.update({
+      where: { id: thread.id },
+      data: {
+        lastMessageAt: created.createdAt,
+        archived: false,
+        ...(participant.role === 'patient' ? { unreadByDoctor: true } : { unreadByPatient: true }),
+        ...triage,
+      },
+    })
+
+    return created
+  })
+
+  const [withAttachments] = await loadAttachments([message])
+  return withAttachments
+}
+
+/**
+ * Start a thread with a patient and a first message
+ * Without a doctor, a patient's thread goes to the care-team pool and a
+ * nurse's or staff member's thread is assigned to its author. Callers
+ * must have checked that the participant may contact the other party.
+ */
+export async function createThread(
+  participant: ThreadParticipant,
+  input: {
+    doctorId: string | null
+    patientId: string
+    subject?: string
+    category?: MessageCategory
+    content: string
+    attachments?: string[]
+  }
+) {
+  const authoredByCareTeam = participant.role !== 'patient' && !input.doctorId
+
+  const thread = await prisma.messageThread.create({
+    data: {
+      clinicId: participant.clinicId,
+      doctorId: input.doctorId,
+      patientId: input.patientId,
+      subject: input.subject,
+      category: input.category,
+      routedToPool: !input.doctorId && !authoredByCareTeam,
+      ...(authoredByCareTeam && { assigneeId: participant.profileId, assignedAt: new Date() }),
+    },
+    select: threadSummarySelect,
+  })
+
+  try {
+    const message = await sendMessage(thread, participant, input)
+    return { thread, message }
+  } catch (error) {
+    // Don't leave an empty thread behind if the first message is rejected
+    await prisma.messageThread.delete({ where: { id: thread.id } })
+    throw error
+  }
+}
+
+/**
+ * Mark the other party's messages as read
+ * Only messages created up to `upTo` are marked, so a message that
+ * arrives while the reader is catching up stays unread.
+ */
+export async function markThreadRead(
+  threadId: string,
+  participant: ThreadParticipant,
+  upTo: Date = new Date()
+): Promise<{ updated: number; readAt: Date }> {
+  const readAt = new Date()
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.message.updateMany({
+      where: {
+        threadId,
+        read: false,
+        ...incomingMessageWhere(participant),
+        createdAt: { lte: upTo },
+      },
+      data: { read: true, readAt },
+    })
+
+    const remaining = await tx.message.count({
+      where: { threadId, read: false, ...incomingMessageWhere(participant) },
+    })
+
+    await tx.messageThread.update({
+      where: { id: threadId },
+      data: participant.role === 'patient'
+        ? { unreadByPatient: remaining > 0 }
+        : { unreadByDoctor: remaining > 0 },
+    })
+
+    return { updated: count, readAt }
+  })
+}
+
+/**
+ * Messages created or updated (e.g. read) since the cursor
+ * Returns the changes and the cursor to pass on the next call.
+ */
+export async function getThreadChanges(
+  threadId: string,
+  cursor: ThreadChangeCursor
+): Promise<{ messages: ThreadMessageWithAttachments[]; cursor: ThreadChangeCursor }> {
+  const rows = await prisma.message.findMany({
+    where: {
+      threadId,
+      updatedAt: { gte: cursor.since },
+      id: { notIn: cursor.seenIds },
+    },
+    select: threadMessageSelect,
+    orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+    take: DEFAULT_MESSAGE_PAGE_SIZE,
+  })
+
+  if (rows.length === 0) {
+    return { messages: [], cursor }
+  }
+
+  const since = rows[rows.length - 1].updatedAt
+  const seenIds = rows.filter((row) => row.updatedAt.getTime() === since.getTime()).map((row) => row.id)
+  // Keep ids from an unchanged cursor timestamp so they aren't sent again
+  if (since.getTime() === cursor.since.getTime()) {
+    seenIds.push(...cursor.seenIds)
+  }
+
+  return { messages: await loadAttachments(rows), cursor: { since, seenIds } }
+}
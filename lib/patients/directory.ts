@@ -0,0 +1,246 @@
+/**
+ * Patient Directory and Chart
+ *
+ * Doctors see the clinic's patients they have a care relationship with -
+ * the same relationship requireDoctorAccessToPatient checks: an
+ * appointment, consultation, lab order, visit note or message thread.
+ * Nurses and staff look up any of the clinic's patients (scheduling,
+ * triage); the chart stays with doctors.
+ *
+ * Search uses the patients indexes: name prefixes (clinicId, lastName,
+ * firstName), exact date of birth (dateOfBirth) and phone (phone).
+ *
+ * The chart is one clinic-scoped read: demographics through
+ * patientSafeSelectForDoctor with each clinical relationship limited to
+ * its most recent entries.
+ */
+
+import { AppointmentStatus, Prisma } from '@prisma/client'
+import { addDays } from 'date-fns'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { requireDoctorAccessToPatient, type GuardContext } from '@/lib/auth/guards'
+import { withClinicScope } from '@/lib/auth/tenant-scope'
+import { patientSafeSelectForDoctor } from '@/lib/db/selects'
+import type { ListPatientsQueryInput } from '@/lib/validation/schemas'
+
+// Entries per clinical section in the chart
+export const CHART_RECENT_LIMIT = 10
+
+const UPCOMING_STATUSES: AppointmentStatus[] = [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED]
+
+export const patientDirectorySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  sex: true,
+  phone: true,
+  email: true,
+  createdAt: true,
+} satisfies Prisma.PatientSelect
+
+function patientError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+async function requireDoctorProfile(user: AuthUser): Promise<{ id: string }> {
+  const doctor = await prisma.doctor.findUnique({
+    where: { userId: user.id },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!doctor || doctor.clinicId !== user.clinicId) {
+    throw patientError('Doctor profile not found', 404)
+  }
+  return doctor
+}
+
+/**
+ * Patients with a care relationship to the doctor
+ */
+function careRelationshipWhere(doctorId: string): Prisma.PatientWhereInput {
+  return {
+    OR: [
+      { appointments: { some: { doctorId } } },
+      { consultations: { some: { doctorId } } },
+      { labOrders: { some: { doctorId } } },
+      { visitNotes: { some: { doctorId } } },
+      { messages: { some: { doctorId } } },
+    ],
+  }
+}
+
+function searchWhere(query: Pick<ListPatientsQueryInput, 'name' | 'dob' | 'phone'>): Prisma.PatientWhereInput[] {
+  const filters: Prisma.PatientWhereInput[] = []
+
+  if (query.name) {
+    // Each word must prefix the first or last name ("smi jo" finds John Smith)
+    for (const term of query.name.split(/[\s,]+/).filter(Boolean).slice(0, 3)) {
+      filters.push({
+        OR: [
+          { lastName: { startsWith: term, mode: 'insensitive' } },
+          { firstName: { startsWith: term, mode: 'insensitive' } },
+        ],
+      })
+    }
+  }
+
+  if (query.dob) {
+    const day = new Date(`${query.dob}T00:00:00.000Z`)
+    filters.push({ dateOfBirth: { gte: day, lt: addDays(day, 1) } })
+  }
+
+  if (query.phone) {
+    // Exact match first; digits catch differently formatted numbers (no digits would match everyone)
+    const digits = query.phone.replace(/\D/g, '')
+    filters.push(digits ? { OR: [{ phone: query.phone }, { phone: { contains: digits } }] } : { phone: query.phone })
+  }
+
+  return filters
+}
+
+/**
+ * Page through the doctor's patients (nurses and staff: the clinic's), by
+ * last then first name
+ * Each entry carries the doctor's (or for nurses and staff, the clinic's)
+ * last and next visit with the patient.
+ */
+export async function listCarePatients(
+  user: AuthUser,
+  query: Omit<ListPatientsQueryInput, 'limit'> & { limit?: number }
+) {
+  const doctor = user.role === 'nurse' || user.role === 'staff' ? null : await requireDoctorProfile(user)
+  const limit = query.limit ?? 25
+
+  const rows = await prisma.patient.findMany({
+    where: withClinicScope(user.clinicId, {
+      AND: [...(doctor ? [careRelationshipWhere(doctor.id)] : []), ...searchWhere(query)],
+    }),
+    select: patientDirectorySelect,
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  })
+
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+  const patientIds = page.map((patient) => patient.id)
+  const now = new Date()
+
+  const [lastVisits, nextVisits] = await Promise.all([
+    prisma.appointment.groupBy({
+      by: ['patientId'],
+      where: {
+        clinicId: user.clinicId,
+        ...(doctor && { doctorId: doctor.id }),
+        patientId: { in: patientIds },
+        status: AppointmentStatus.COMPLETED,
+      },
+      _max: { scheduledAt: true },
+    }),
+    prisma.appointment.groupBy({
+      by: ['patientId'],
+      where: {
+        clinicId: user.clinicId,
+        ...(doctor && { doctorId: doctor.id }),
+        patientId: { in: patientIds },
+        status: { in: UPCOMING_STATUSES },
+        scheduledAt: { gte: now },
+      },
+      _min: { scheduledAt: true },
+    }),
+  ])
+
+  const lastVisitBy = new Map(lastVisits.map((row) => [row.patientId, row._max.scheduledAt]))
+  const nextVisitBy = new Map(nextVisits.map((row) => [row.patientId, row._min.scheduledAt]))
+
+  return {
+    patients: page.map((patient) => ({
+      ...patient,
+      name: `${patient.firstName} ${patient.lastName}`.trim(),
+      lastVisit: lastVisitBy.get(patient.id) ?? null,
+      nextVisit: nextVisitBy.get(patient.id) ?? null,
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    hasMore,
+  }
+}
+
+function recent<T extends object>(relation: T | boolean | undefined): T | Record<string, never> {
+  return typeof relation === 'object' ? relation : {}
+}
+
+const patientChartSelect = {
+  ...patientSafeSelectForDoctor,
+  appointments: {
+    ...recent(patientSafeSelectForDoctor.appointments),
+    orderBy: { scheduledAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  consultations: {
+    ...recent(patientSafeSelectForDoctor.consultations),
+    orderBy: { createdAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  visitNotes: {
+    ...recent(patientSafeSelectForDoctor.visitNotes),
+    orderBy: { createdAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  intakeForms: {
+    ...recent(patientSafeSelectForDoctor.intakeForms),
+    orderBy: { createdAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  medications: {
+    ...recent(patientSafeSelectForDoctor.medications),
+    orderBy: { startDate: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  labOrders: {
+    ...recent(patientSafeSelectForDoctor.labOrders),
+    orderBy: { orderedAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+  fileRecords: {
+    ...recent(patientSafeSelectForDoctor.fileRecords),
+    orderBy: { createdAt: 'desc' },
+    take: CHART_RECENT_LIMIT,
+  },
+} satisfies Prisma.PatientSelect
+
+/**
+ * The patient's chart (doctor with a care relationship)
+ */
+export async function getPatientChart(user: AuthUser, patientId: string, context?: GuardContext) {
+  await requireDoctorAccessToPatient(user, patientId, context)
+
+  const patient = await prisma.patient.findFirst({
+    where: withClinicScope(user.clinicId, { id: patientId }),
+    select: patientChartSelect,
+  })
+
+  if (!patient) {
+    throw patientError('Patient not found', 404)
+  }
+
+  const { appointments, consultations, visitNotes, intakeForms, medications, labOrders, fileRecords, ...demographics } =
+    patient
+
+  return {
+    patient: {
+      ...demographics,
+      name: `${demographics.firstName} ${demographics.lastName}`.trim(),
+    },
+    appointments,
+    consultations,
+    visitNotes,
+    intakeForms,
+    medications,
+    labOrders,
+    files: fileRecords,
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Payment Reconciliation
+ *
+ * Compares Payment rows with Stripe for a time window and records any
+ * drift as PaymentDiscrepancy rows (it does not change payments):
+ * - STATUS_MISMATCH / AMOUNT_MISMATCH / REFUND_MISMATCH for linked payments
+ * - MISSING_IN_STRIPE when a payment's PaymentIntent no longer exists
+ * - MISSING_IN_DATABASE when a PaymentIntent created for one of our
+ *   clinics (clinicId metadata) has no Payment row
+ *
+ * Discrepancies are keyed by kind and payment, so reruns refresh them
+ * instead of duplicating; an open discrepancy that a later run no longer
+ * finds is marked resolved. Typically a missed or failed webhook shows
+ * up here first.
+ */
+
+import Stripe from 'stripe'
+import { PaymentDiscrepancyKind } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { stripe } from '@/lib/stripe'
+import {
+  paymentStatusFromIntent,
+  paymentSyncSelect,
+  SyncedPayment,
+  toStripeAmount,
+} from './stripe-sync'
+
+export interface ReconciliationOptions {
+  since: Date
+  until?: Date
+  clinicId?: string // Limit to one clinic
+}
+
+export interface ReconciliationResult {
+  checkedPayments: number
+  checkedIntents: number
+  discrepancies: number
+  resolved: number
+}
+
+interface FoundDiscrepancy {
+  kind: PaymentDiscrepancyKind
+  clinicId: string | null
+  paymentId: string | null
+  stripePaymentId: string | null
+  databaseValue: string | null
+  stripeValue: string | null
+}
+
+const discrepancyKey = (d: Pick<FoundDiscrepancy, 'kind' | 'paymentId' | 'stripePaymentId'>) =>
+  `${d.kind}:${d.paymentId ?? d.stripePaymentId}`
+
+function latestCharge(intent: Stripe.PaymentIntent): Stripe.Charge | null {
+  return intent.latest_charge && typeof intent.latest_charge !== 'string' ? intent.latest_charge : null
+}
+
+async function retrieveIntent(id: string): Promise<Stripe.PaymentIntent | null> {
+  try {
+    return await stripe.paymentIntents.retrieve(id, { expand: ['latest_charge'] })
+  } catch (error) {
+    if ((error as Stripe.errors.StripeError).code === 'resource_missing') return null
+    throw error
+  }
+}
+
+function comparePayment(payment: SyncedPayment, intent: Stripe.PaymentIntent | null): FoundDiscrepancy[] {
+  const base = { clinicId: payment.clinicId, paymentId: payment.id, stripePaymentId: payment.stripePaymentId }
+
+  if (!intent) {
+    return [{ ...base, kind: 'MISSING_IN_STRIPE', databaseValue: payment.status, stripeValue: null }]
+  }
+
+  const found: FoundDiscrepancy[] = []
+  const charge = latestCharge(intent)
+
+  const expectedStatus = paymentStatusFromIntent(intent, charge)
+  if (expectedStatus !== payment.status) {
+    found.push({ ...base, kind: 'STATUS_MISMATCH', databaseValue: payment.status, stripeValue: expectedStatus })
+  }
+
+  const amount = toStripeAmount(payment.amount)
+  if (amount !== intent.amount) {
+    found.push({ ...base, kind: 'AMOUNT_MISMATCH', databaseValue: String(amount), stripeValue: String(intent.amount) })
+  }
+
+  const refunded = toStripeAmount(payment.amountRefunded)
+  const stripeRefunded = charge?.amount_refunded ?? 0
+  if (refunded !== stripeRefunded) {
+    found.push({
+      ...base,
+      kind: 'REFUND_MISMATCH',
+      databaseValue: String(refunded),
+      stripeValue: String(stripeRefunded),
+    })
+  }
+
+  return found
+}
+
+/**
+ * Reconcile payments and PaymentIntents created in the window
+ */
+export async function reconcilePayments(options: ReconciliationOptions): Promise<ReconciliationResult> {
+  const until = options.until ?? new Date()
+
+  // 1. PaymentIntents created in the window (ours carry clinicId metadata)
+  const intents = new Map<string, Stripe.PaymentIntent>()
+  for await (const intent of stripe.paymentIntents.list({
+    created: { gte: Math.floor(options.since.getTime() / 1000), lte: Math.floor(until.getTime() / 1000) },
+    limit: 100,
+    expand: ['data.latest_charge'],
+  })) {
+    if (options.clinicId && intent.metadata.clinicId !== options.clinicId) continue
+    intents.set(intent.id, intent)
+  }
+
+  // 2. Payments created in the window, plus any linked to those intents
+  const payments = await prisma.payment.findMany({
+    where: {
+      ...(options.clinicId && { clinicId: options.clinicId }),
+      OR: [
+        { createdAt: { gte: options.since, lte: until }, stripePaymentId: { not: null } },
+        { stripePaymentId: { in: Array.from(intents.keys()) } },
+      ],
+    },
+    select: paymentSyncSelect,
+  })
+
+  // 3. Compare
+  const found: FoundDiscrepancy[] = []
+  const linkedIntentIds = new Set<string>()
+  for (const payment of payments) {
+    const intentId = payment.stripePaymentId!
+    linkedIntentIds.add(intentId)
+    const intent = intents.get(intentId) ?? (await retrieveIntent(intentId))
+    found.push(...comparePayment(payment, intent))
+  }
+
+  for (const intent of Array.from(intents.values())) {
+    if (linkedIntentIds.has(intent.id) || !intent.metadata.clinicId) continue
+    found.push({
+      kind: 'MISSING_IN_DATABASE',
+      clinicId: intent.metadata.clinicId,
+      paymentId: null,
+      stripePaymentId: intent.id,
+      databaseValue: null,
+      stripeValue: intent.status,
+    })
+  }
+
+  // 4. Record what we found and resolve what has gone away
+  const now = new Date()
+  for (const discrepancy of found) {
+    await prisma.paymentDiscrepancy.upsert({
+      where: { key: discrepancyKey(discrepancy) },
+      create: { ...discrepancy, key: discrepancyKey(discrepancy), detectedAt: now, lastSeenAt: now },
+      update: {
+        databaseValue: discrepancy.databaseValue,
+        stripeValue: discrepancy.stripeValue,
+        lastSeenAt: now,
+        resolvedAt: null,
+      },
+    })
+  }
+
+  const { count: resolved } = await prisma.paymentDiscrepancy.updateMany({
+    where: {
+      resolvedAt: null,
+      key: { notIn: found.map(discrepancyKey) },
+      OR: [
+        { paymentId: { in: payments.map((payment) => payment.id) } },
+        { stripePaymentId: { in: Array.from(intents.keys()) } },
+      ],
+    },
+    data: { resolvedAt: now },
+  })
+
+  return {
+    checkedPayments: payments.length,
+    checkedIntents: intents.size,
+    discrepancies: found.length,
+    resolved,
+  }
+}
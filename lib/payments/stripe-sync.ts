@@ -0,0 +1,146 @@
+/**
+ * Stripe ↔ Payment mapping
+ *
+ * Shared by the webhook (lib/payments/webhook.ts) and reconciliation
+ * (lib/payments/reconciliation.ts) so both agree on what a Stripe object
+ * means for a Payment row:
+ * - a Payment is linked by stripePaymentId (PaymentIntent), stripeInvoiceId
+ *   or stripeChargeId, or by the `paymentId` metadata we set on Stripe
+ *   objects we create
+ * - status only moves forward (see PAYMENT_TRANSITIONS), so a stale or
+ *   out-of-order event can't undo a newer one
+ */
+
+import Stripe from 'stripe'
+import { PaymentStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+
+/**
+ * Statuses a payment may move to from each status
+ */
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED', 'REFUNDED'],
+  PROCESSING: ['COMPLETED', 'FAILED', 'CANCELLED', 'REFUNDED'],
+  FAILED: ['PROCESSING', 'COMPLETED', 'CANCELLED'], // Retried with another payment method
+  COMPLETED: ['REFUNDED'],
+  REFUNDED: [],
+  CANCELLED: [],
+}
+
+export const paymentSyncSelect = {
+  id: true,
+  clinicId: true,
+  status: true,
+  amount: true,
+  amountRefunded: true,
+  paidAt: true,
+  stripePaymentId: true,
+  stripeInvoiceId: true,
+  stripeChargeId: true,
+} as const
+
+export type SyncedPayment = Prisma.PaymentGetPayload<{ select: typeof paymentSyncSelect }>
+
+/**
+ * Statuses from which a payment may end up in `target` (including itself)
+ */
+export function statusesAllowing(target: PaymentStatus): PaymentStatus[] {
+  return (Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[]).filter(
+    (status) => status === target || PAYMENT_TRANSITIONS[status].includes(target)
+  )
+}
+
+/**
+ * Stripe amounts are in the smallest currency unit; Payment amounts in dollars
+ */
+export function fromStripeAmount(amount: number): Prisma.Decimal {
+  return new Prisma.Decimal(amount).dividedBy(100)
+}
+
+export function toStripeAmount(amount: Prisma.Decimal | number): number {
+  return Math.round(Number(amount) * 100)
+}
+
+export function fromStripeTimestamp(timestamp: number): Date {
+  return new Date(timestamp * 1000)
+}
+
+export function stripeId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+/**
+ * What a PaymentIntent (and its latest charge, if known) means for a Payment
+ */
+export function paymentStatusFromIntent(
+  intent: Stripe.PaymentIntent,
+  charge?: Stripe.Charge | null
+): PaymentStatus {
+  switch (intent.status) {
+    case 'succeeded':
+      return charge?.refunded ? 'REFUNDED' : 'COMPLETED'
+    case 'processing':
+      return 'PROCESSING'
+    case 'canceled':
+      return 'CANCELLED'
+    case 'requires_payment_method':
+      // Back to requires_payment_method after an attempt means it failed
+      return intent.last_payment_error ? 'FAILED' : 'PENDING'
+    default:
+      return 'PENDING'
+  }
+}
+
+/**
+ * Find the Payment a Stripe object refers to
+ * Looks up each provided Stripe id in turn, then the `paymentId` metadata.
+ */
+export async function findPaymentForStripe(refs: {
+  paymentIntentId?: string | null
+  invoiceId?: string | null
+  chargeId?: string | null
+  metadata?: Stripe.Metadata | null
+}): Promise<SyncedPayment | null> {
+  const or: Prisma.PaymentWhereInput[] = []
+  if (refs.paymentIntentId) or.push({ stripePaymentId: refs.paymentIntentId })
+  if (refs.invoiceId) or.push({ stripeInvoiceId: refs.invoiceId })
+  if (refs.chargeId) or.push({ stripeChargeId: refs.chargeId })
+
+  if (or.length > 0) {
+    const linked = await prisma.payment.findFirst({ where: { OR: or }, select: paymentSyncSelect })
+    if (linked) return linked
+  }
+
+  const paymentId = refs.metadata?.paymentId
+  if (!paymentId) return null
+
+  return prisma.payment.findFirst({
+    where: {
+      id: paymentId,
+      // Never re-link a payment that already belongs to another intent
+      ...(refs.paymentIntentId && {
+        OR: [{ stripePaymentId: null }, { stripePaymentId: refs.paymentIntentId }],
+      }),
+      ...(refs.metadata?.clinicId && { clinicId: refs.metadata.clinicId }),
+    },
+    select: paymentSyncSelect,
+  })
+}
+
+/**
+ * Move a payment to `status` and apply the accompanying fields
+ * The update is conditional on the current status allowing the move, so
+ * it is a no-op (returns false) for stale or out-of-order updates.
+ */
+export async function applyPaymentStatus(
+  payment: Pick<SyncedPayment, 'id'>,
+  status: PaymentStatus,
+  data: Omit<Prisma.PaymentUpdateManyMutationInput, 'status'> = {}
+): Promise<boolean> {
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, status: { in: statusesAllowing(status) } },
+    data: { ...data, status },
+  })
+  return count > 0
+}
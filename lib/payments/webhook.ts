@@ -0,0 +1,320 @@
+/**
+ * Stripe Webhook Processing
+ *
+ * Applies verified Stripe events to Payment rows and the subscription
+ * mirror. Every event id is recorded in StripeEvent before it is
+ * handled, so Stripe's at-least-once redelivery is processed once:
+ * - PROCESSED / IGNORED events are acknowledged as duplicates
+ * - FAILED events (and PROCESSING ones abandoned for STALE_PROCESSING_MS)
+ *   are claimed again and retried
+ * - an event another request is still handling gets a 409, which Stripe
+ *   retries later
+ *
+ * Events can arrive out of order; payment updates only move status
+ * forward (lib/payments/stripe-sync.ts) and subscription updates skip
+ * events older than the last one applied.
+ */
+
+import Stripe from 'stripe'
+import { Prisma, StripeEventStatus } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { stripe } from '@/lib/stripe'
+import {
+  applyPaymentStatus,
+  findPaymentForStripe,
+  fromStripeAmount,
+  fromStripeTimestamp,
+  paymentStatusFromIntent,
+  stripeId,
+} from './stripe-sync'
+
+/**
+ * How long a PROCESSING claim is honoured before another delivery may retry it
+ */
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
+export type WebhookOutcome = 'processed' | 'ignored' | 'duplicate'
+
+function webhookError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+/**
+ * Verify the Stripe-Signature header against the raw request body
+ * Throws 400 if the signature is missing or invalid.
+ */
+export function constructStripeEvent(rawBody: string, signature: string | null): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    throw webhookError('Stripe webhook secret is not configured', 500)
+  }
+  if (!signature) {
+    throw webhookError('Missing Stripe signature', 400)
+  }
+
+  try {
+    return stripe.webhooks.constructEvent(rawBody, signature, secret)
+  } catch {
+    throw webhookError('Invalid Stripe signature', 400)
+  }
+}
+
+/**
+ * Record the event, or re-claim it if an earlier attempt failed
+ * Returns false if it was already handled.
+ */
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  try {
+    await prisma.stripeEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        livemode: event.livemode,
+        stripeCreatedAt: fromStripeTimestamp(event.created),
+      },
+    })
+    return true
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+  }
+
+  const { count } = await prisma.stripeEvent.updateMany({
+    where: {
+      id: event.id,
+      OR: [
+        { status: StripeEventStatus.FAILED },
+        {
+          status: StripeEventStatus.PROCESSING,
+          updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: { status: StripeEventStatus.PROCESSING, attempts: { increment: 1 }, error: null },
+  })
+  if (count > 0) return true
+
+  const existing = await prisma.stripeEvent.findUnique({
+    where: { id: event.id },
+    select: { status: true },
+  })
+  if (existing?.status === StripeEventStatus.PROCESSING) {
+    throw webhookError('Event is already being processed', 409)
+  }
+  return false
+}
+
+/**
+ * The charge behind a PaymentIntent, fetched if the event only has its id
+ */
+async function loadLatestCharge(intent: Stripe.PaymentIntent): Promise<Stripe.Charge | null> {
+  if (!intent.latest_charge) return null
+  if (typeof intent.latest_charge !== 'string') return intent.latest_charge
+  return stripe.charges.retrieve(intent.latest_charge)
+}
+
+async function syncPaymentIntent(intent: Stripe.PaymentIntent): Promise<boolean> {
+  const payment = await findPaymentForStripe({ paymentIntentId: intent.id, metadata: intent.metadata })
+  if (!payment) return false
+
+  const charge = await loadLatestCharge(intent)
+  const status = paymentStatusFromIntent(intent, charge)
+
+  await applyPaymentStatus(payment, status, {
+    stripePaymentId: intent.id,
+    ...(charge && {
+      stripeChargeId: charge.id,
+      receiptUrl: charge.receipt_url,
+      amountRefunded: fromStripeAmount(charge.amount_refunded),
+    }),
+    ...(status === 'COMPLETED' && {
+      paidAt: payment.paidAt ?? (charge ? fromStripeTimestamp(charge.created) : new Date()),
+      failureReason: null,
+    }),
+    ...(status === 'FAILED' && {
+      failureReason: intent.last_payment_error?.message ?? 'Payment failed',
+    }),
+  })
+  return true
+}
+
+async function syncInvoice(invoice: Stripe.Invoice, type: Stripe.Event['type']): Promise<boolean> {
+  const paymentIntentId = stripeId(invoice.payment_intent)
+  const payment = await findPaymentForStripe({
+    invoiceId: invoice.id,
+    paymentIntentId,
+    metadata: invoice.metadata,
+  })
+  // Clinic subscription invoices have no Payment row
+  if (!payment) return false
+
+  const links = {
+    stripeInvoiceId: invoice.id,
+    ...(paymentIntentId && !payment.stripePaymentId && { stripePaymentId: paymentIntentId }),
+  }
+
+  switch (type) {
+    case 'invoice.paid':
+    case 'invoice.payment_succeeded': {
+      const paidAt = invoice.status_transitions.paid_at
+      await applyPaymentStatus(payment, 'COMPLETED', {
+        ...links,
+        receiptUrl: invoice.hosted_invoice_url,
+        paidAt: payment.paidAt ?? (paidAt ? fromStripeTimestamp(paidAt) : new Date()),
+        failureReason: null,
+      })
+      break
+    }
+    case 'invoice.payment_failed':
+      await applyPaymentStatus(payment, 'FAILED', {
+        ...links,
+        failureReason: invoice.last_finalization_error?.message ?? 'Invoice payment failed',
+      })
+      break
+    case 'invoice.marked_uncollectible':
+      await applyPaymentStatus(payment, 'FAILED', { ...links, failureReason: 'Invoice marked uncollectible' })
+      break
+    case 'invoice.voided':
+      await applyPaymentStatus(payment, 'CANCELLED', links)
+      break
+    default:
+      // e.g. invoice.finalized: just record the link
+      await applyPaymentStatus(payment, payment.status, links)
+  }
+  return true
+}
+
+async function syncRefund(charge: Stripe.Charge, eventCreated: number): Promise<boolean> {
+  const payment = await findPaymentForStripe({
+    chargeId: charge.id,
+    paymentIntentId: stripeId(charge.payment_intent),
+    metadata: charge.metadata,
+  })
+  if (!payment) return false
+
+  const amountRefunded = fromStripeAmount(charge.amount_refunded)
+  if (charge.refunded) {
+    await applyPaymentStatus(payment, 'REFUNDED', {
+      stripeChargeId: charge.id,
+      amountRefunded,
+      refundedAt: fromStripeTimestamp(eventCreated),
+    })
+  } else {
+    // Partial refund: the payment stays completed; never lower the refunded total
+    await prisma.payment.updateMany({
+      where: { id: payment.id, amountRefunded: { lte: amountRefunded } },
+      data: { stripeChargeId: charge.id, amountRefunded, refundedAt: fromStripeTimestamp(eventCreated) },
+    })
+  }
+  return true
+}
+
+async function syncSubscription(subscription: Stripe.Subscription, eventCreated: number): Promise<boolean> {
+  const lastEventAt = fromStripeTimestamp(eventCreated)
+
+  let clinicId: string | null = subscription.metadata.clinicId || null
+  if (clinicId) {
+    const clinic = await prisma.clinic.findUnique({ where: { id: clinicId }, select: { id: true } })
+    clinicId = clinic?.id ?? null
+  }
+
+  const data = {
+    clinicId,
+    customerId: stripeId(subscription.customer) ?? '',
+    status: subscription.status,
+    priceId: subscription.items.data[0]?.price.id ?? null,
+    currentPeriodEnd: fromStripeTimestamp(subscription.current_period_end),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: subscription.canceled_at ? fromStripeTimestamp(subscription.canceled_at) : null,
+    lastEventAt,
+  }
+
+  const { count } = await prisma.stripeSubscription.updateMany({
+    where: { id: subscription.id, lastEventAt: { lte: lastEventAt } },
+    data,
+  })
+  if (count > 0) return true
+
+  try {
+    await prisma.stripeSubscription.create({ data: { id: subscription.id, ...data } })
+  } catch (error) {
+    // Already mirrored from a newer event
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+  }
+  return true
+}
+
+/**
+ * Apply an event; returns false for events we don't track
+ */
+async function dispatchEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case 'payment_intent.created':
+    case 'payment_intent.processing':
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.canceled':
+    case 'payment_intent.requires_action':
+    case 'payment_intent.amount_capturable_updated':
+    case 'payment_intent.partially_funded':
+      return syncPaymentIntent(event.data.object)
+
+    case 'invoice.finalized':
+    case 'invoice.paid':
+    case 'invoice.payment_succeeded':
+    case 'invoice.payment_failed':
+    case 'invoice.marked_uncollectible':
+    case 'invoice.voided':
+      return syncInvoice(event.data.object, event.type)
+
+    case 'charge.refunded':
+      return syncRefund(event.data.object, event.created)
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed':
+    case 'customer.subscription.pending_update_applied':
+    case 'customer.subscription.pending_update_expired':
+    case 'customer.subscription.trial_will_end':
+      return syncSubscription(event.data.object, event.created)
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Process a verified event exactly once
+ * Failures are recorded and rethrown so the route returns an error and
+ * Stripe redelivers the event.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<WebhookOutcome> {
+  if (!(await claimEvent(event))) {
+    return 'duplicate'
+  }
+
+  try {
+    const applied = await dispatchEvent(event)
+    await prisma.stripeEvent.update({
+      where: { id: event.id },
+      data: {
+        status: applied ? StripeEventStatus.PROCESSED : StripeEventStatus.IGNORED,
+        processedAt: new Date(),
+      },
+    })
+    return applied ? 'processed' : 'ignored'
+  } catch (error) {
+    await prisma.stripeEvent.update({
+      where: { id: event.id },
+      data: { status: StripeEventStatus.FAILED, error: (error as Error).message },
+    })
+    throw error
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Appointment Booking
+ *
+ * Serialises writes to a doctor's calendar with a transaction-scoped
+ * Postgres advisory lock, so the availability check and the insert
+ * happen atomically and concurrent requests cannot double-book.
+ */
+
+import { AppointmentStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import {
+  BLOCKING_APPOINTMENT_STATUSES,
+  expandAvailability,
+  getBookedRanges,
+  getDoctorSchedule,
+  isWithinAvailability,
+  subtractBooked,
+} from './slots'
+
+export interface SlotRequest {
+  doctorId: string
+  clinicId: string
+  scheduledAt: Date
+  duration: number // minutes
+  excludeAppointmentIds?: string[] // e.g. the appointment being rescheduled
+}
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Whether an appointment in this status occupies the doctor's time
+ */
+export function isBlockingStatus(status: AppointmentStatus | string): boolean {
+  return BLOCKING_APPOINTMENT_STATUSES.includes(status as AppointmentStatus)
+}
+
+/**
+ * Run a function inside a transaction holding the doctor's schedule lock
+ *
+ * The lock is released automatically when the transaction commits or
+ * rolls back.
+ */
+export async function withDoctorScheduleLock<T>(
+  doctorId: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${doctorId}))`
+    return fn(tx)
+  })
+}
+
+/**
+ * Verify a requested time is bookable for the doctor
+ * Must be called inside withDoctorScheduleLock to be race-free.
+ * Throws 409 if the time is outside availability or overlaps a booking.
+ */
+export async function assertSlotAvailable(
+  tx: Prisma.TransactionClient,
+  request: SlotRequest
+): Promise<void> {
+  await assertSlotsAvailable(tx, {
+    doctorId: request.doctorId,
+    clinicId: request.clinicId,
+    slots: [{ scheduledAt: request.scheduledAt, duration: request.duration }],
+    excludeAppointmentIds: request.excludeAppointmentIds,
+  })
+}
+
+/**
+ * Verify several times (e.g. a recurring series) are all bookable
+ * Loads the schedule and bookings once; the slots must also not
+ * overlap each other.
+ */
+export async function assertSlotsAvailable(
+  tx: Prisma.TransactionClient,
+  request: {
+    doctorId: string
+    clinicId: string
+    slots: { scheduledAt: Date; duration: number }[]
+    excludeAppointmentIds?: string[]
+  }
+): Promise<void> {
+  if (request.slots.length === 0) return
+
+  const schedule = await getDoctorSchedule(request.doctorId, request.clinicId, tx)
+  const ranges = request.slots
+    .map((slot) => ({
+      start: slot.scheduledAt,
+      end: new Date(slot.scheduledAt.getTime() + slot.duration * MINUTE_MS),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const first = ranges[0].start
+  const last = ranges.reduce((max, range) => (range.end > max ? range.end : max), ranges[0].end)
+  const describe = (range: { start: Date }) =>
+    ranges.length > 1 ? `Occurrence at ${range.start.toISOString()}` : 'Requested time'
+
+  const windows = expandAvailability(schedule.availability, first, last, schedule.timezone)
+  for (const range of ranges) {
+    if (!isWithinAvailability(range, windows)) {
+      const error: Error & { statusCode?: number } = new Error(
+        `${describe(range)} is outside the doctor's availability`
+      )
+      error.statusCode = 409
+      throw error
+    }
+  }
+
+  const bufferMs = schedule.bufferMinutes * MINUTE_MS
+  const booked = await getBookedRanges(
+    request.doctorId,
+    new Date(first.getTime() - bufferMs),
+    new Date(last.getTime() + bufferMs),
+    tx,
+    request.excludeAppointmentIds
+  )
+
+  // Each requested slot also blocks the ones after it
+  for (let i = 0; i < ranges.length; i++) {
+    if (subtractBooked([ranges[i]], [...booked, ...ranges.slice(0, i)], schedule.bufferMinutes).length === 0) {
+      const error: Error & { statusCode?: number } = new Error(
+        `${describe(ranges[i])} conflicts with an existing appointment`
+      )
+      error.statusCode = 409
+      throw error
+    }
+  }
+}
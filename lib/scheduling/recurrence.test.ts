@@ -0,0 +1,131 @@
+import { DayOfWeek, RecurrenceFrequency } from '@prisma/client'
+import { describe, expect, it } from 'vitest'
+import { MAX_SERIES_OCCURRENCES, expandRecurrence, shiftOccurrence, shiftWeekdays, toRRule } from './recurrence'
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString())
+
+describe('expandRecurrence', () => {
+  it('repeats daily rules every interval days', () => {
+    const occurrences = expandRecurrence(
+      { frequency: RecurrenceFrequency.DAILY, interval: 2, count: 3 },
+      new Date('2026-01-05T10:00:00Z'),
+      'UTC'
+    )
+
+    expect(iso(occurrences)).toEqual(['2026-01-05T10:00:00.000Z', '2026-01-07T10:00:00.000Z', '2026-01-09T10:00:00.000Z'])
+  })
+
+  it('expands weekly rules over the BYDAY weekdays', () => {
+    const occurrences = expandRecurrence(
+      {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 1,
+        byWeekday: [DayOfWeek.FRIDAY, DayOfWeek.MONDAY, DayOfWeek.WEDNESDAY],
+        count: 5,
+      },
+      new Date('2026-03-02T10:00:00Z'), // Monday
+      'UTC'
+    )
+
+    expect(iso(occurrences)).toEqual([
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-04T10:00:00.000Z',
+      '2026-03-06T10:00:00.000Z',
+      '2026-03-09T10:00:00.000Z',
+      '2026-03-11T10:00:00.000Z',
+    ])
+  })
+
+  it('skips weekdays of the first week before the start', () => {
+    const occurrences = expandRecurrence(
+      { frequency: RecurrenceFrequency.WEEKLY, interval: 1, byWeekday: [DayOfWeek.MONDAY, DayOfWeek.WEDNESDAY], count: 2 },
+      new Date('2026-03-04T10:00:00Z'), // Wednesday
+      'UTC'
+    )
+
+    expect(iso(occurrences)).toEqual(['2026-03-04T10:00:00.000Z', '2026-03-09T10:00:00.000Z'])
+  })
+
+  it('keeps the local time of day across a DST change', () => {
+    // 09:00 in New York: EST (UTC-5) before 8 March 2026, EDT (UTC-4) after
+    const occurrences = expandRecurrence(
+      { frequency: RecurrenceFrequency.WEEKLY, interval: 1, count: 3 },
+      new Date('2026-03-02T14:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(iso(occurrences)).toEqual(['2026-03-02T14:00:00.000Z', '2026-03-09T13:00:00.000Z', '2026-03-16T13:00:00.000Z'])
+  })
+
+  it('skips months without the start day', () => {
+    const occurrences = expandRecurrence(
+      { frequency: RecurrenceFrequency.MONTHLY, interval: 1, count: 3 },
+      new Date('2026-01-31T15:00:00Z'),
+      'UTC'
+    )
+
+    expect(iso(occurrences)).toEqual(['2026-01-31T15:00:00.000Z', '2026-03-31T15:00:00.000Z', '2026-05-31T15:00:00.000Z'])
+  })
+
+  it('stops at UNTIL, inclusive', () => {
+    const occurrences = expandRecurrence(
+      { frequency: RecurrenceFrequency.DAILY, interval: 1, until: new Date('2026-01-07T10:00:00Z') },
+      new Date('2026-01-05T10:00:00Z'),
+      'UTC'
+    )
+
+    expect(occurrences).toHaveLength(3)
+  })
+
+  it('caps open-ended and oversized series', () => {
+    const start = new Date('2026-01-05T10:00:00Z')
+
+    expect(expandRecurrence({ frequency: RecurrenceFrequency.DAILY, interval: 1 }, start, 'UTC')).toHaveLength(
+      MAX_SERIES_OCCURRENCES
+    )
+    expect(
+      expandRecurrence({ frequency: RecurrenceFrequency.DAILY, interval: 1, count: 500 }, start, 'UTC')
+    ).toHaveLength(MAX_SERIES_OCCURRENCES)
+  })
+})
+
+describe('shiftOccurrence', () => {
+  it('moves an occurrence by the same local date and time change', () => {
+    const from = new Date('2026-03-02T14:00:00Z') // Monday 09:00 EST
+    const to = new Date('2026-03-03T15:30:00Z') // Tuesday 10:30 EST
+
+    const shifted = shiftOccurrence(new Date('2026-03-09T13:00:00Z'), from, to, 'America/New_York')
+
+    // Tuesday 10:30 EDT
+    expect(shifted.toISOString()).toBe('2026-03-10T14:30:00.000Z')
+  })
+})
+
+describe('shiftWeekdays', () => {
+  it('shifts BYDAY weekdays by the local date change, wrapping around the week', () => {
+    const friday = new Date('2026-03-06T10:00:00Z')
+    const monday = new Date('2026-03-09T10:00:00Z')
+
+    expect(shiftWeekdays([DayOfWeek.FRIDAY, DayOfWeek.SATURDAY], friday, monday, 'UTC')).toEqual([
+      DayOfWeek.MONDAY,
+      DayOfWeek.TUESDAY,
+    ])
+  })
+})
+
+describe('toRRule', () => {
+  it('formats the rule as an RFC 5545 RRULE', () => {
+    expect(
+      toRRule({
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        byWeekday: [DayOfWeek.MONDAY, DayOfWeek.THURSDAY],
+        count: 10,
+      })
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10')
+
+    expect(
+      toRRule({ frequency: RecurrenceFrequency.MONTHLY, interval: 1, until: new Date('2026-06-30T23:59:59Z') })
+    ).toBe('FREQ=MONTHLY;INTERVAL=1;UNTIL=20260630T235959Z')
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Recurrence Rules
+ *
+ * Expands an RRULE-style rule (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL,
+ * BYDAY, COUNT, UNTIL) into concrete occurrence start times.
+ *
+ * Occurrences are generated in wall-clock time of the series timezone,
+ * so a 09:00 weekly visit stays at 09:00 local across DST changes.
+ */
+
+import { DayOfWeek, RecurrenceFrequency } from '@prisma/client'
+import { getZonedParts, zonedTimeToUtc } from './timezone'
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  byWeekday?: DayOfWeek[]
+  count?: number | null
+  until?: Date | null
+}
+
+/**
+ * Upper bound on occurrences generated for a single series
+ */
+export const MAX_SERIES_OCCURRENCES = 104
+
+const WEEKDAY_INDEX: Record<DayOfWeek, number> = {
+  SUNDAY: 0,
+  MONDAY: 1,
+  TUESDAY: 2,
+  WEDNESDAY: 3,
+  THURSDAY: 4,
+  FRIDAY: 5,
+  SATURDAY: 6,
+}
+
+const RRULE_WEEKDAY: Record<DayOfWeek, string> = {
+  SUNDAY: 'SU',
+  MONDAY: 'MO',
+  TUESDAY: 'TU',
+  WEDNESDAY: 'WE',
+  THURSDAY: 'TH',
+  FRIDAY: 'FR',
+  SATURDAY: 'SA',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Expand a rule into occurrence start times, beginning at `startsAt`
+ *
+ * Monthly rules skip months without the start day (e.g. the 31st),
+ * matching RFC 5545 behaviour.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  startsAt: Date,
+  timeZone: string
+): Date[] {
+  const start = getZonedParts(startsAt, timeZone)
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES)
+  const interval = Math.max(1, rule.interval)
+  const occurrences: Date[] = []
+
+  const at = (year: number, month: number, day: number) =>
+    zonedTimeToUtc(year, month, day, start.hour, start.minute, timeZone)
+
+  // Adds a candidate; returns false once the rule is exhausted
+  const push = (occurrence: Date): boolean => {
+    if (rule.until && occurrence > rule.until) return false
+    if (occurrence >= startsAt) occurrences.push(occurrence)
+    return occurrences.length < limit
+  }
+
+  const startDay = Date.UTC(start.year, start.month - 1, start.day)
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    for (let i = 0; ; i++) {
+      const day = new Date(startDay + i * interval * DAY_MS)
+      if (!push(at(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate()))) break
+    }
+  } else if (rule.frequency === RecurrenceFrequency.WEEKLY) {
+    const weekdays = (rule.byWeekday?.length ? rule.byWeekday.map((d) => WEEKDAY_INDEX[d]) : [start.weekday])
+      .sort((a, b) => a - b)
+    // Weeks are anchored on the Sunday of the start week
+    const weekStart = startDay - start.weekday * DAY_MS
+
+    outer: for (let week = 0; ; week++) {
+      for (const weekday of weekdays) {
+        const day = new Date(weekStart + (week * interval * 7 + weekday) * DAY_MS)
+        if (!push(at(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate()))) break outer
+      }
+    }
+  } else {
+    for (let i = 0; i < MAX_SERIES_OCCURRENCES * 2; i++) {
+      const monthIndex = start.month - 1 + i * interval
+      const year = start.year + Math.floor(monthIndex / 12)
+      const month = (monthIndex % 12) + 1
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+      if (start.day > daysInMonth) continue
+      if (!push(at(year, month, start.day))) break
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Move an occurrence by the same local-date and time-of-day change that
+ * moved `from` to `to`, keeping wall-clock times stable across DST
+ */
+export function shiftOccurrence(
+  occurrence: Date,
+  from: Date,
+  to: Date,
+  timeZone: string
+): Date {
+  const fromParts = getZonedParts(from, timeZone)
+  const toParts = getZonedParts(to, timeZone)
+  const dayDelta =
+    (Date.UTC(toParts.year, toParts.month - 1, toParts.day) -
+      Date.UTC(fromParts.year, fromParts.month - 1, fromParts.day)) /
+    DAY_MS
+
+  const parts = getZonedParts(occurrence, timeZone)
+  const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day) + dayDelta * DAY_MS)
+  return zonedTimeToUtc(
+    day.getUTCFullYear(),
+    day.getUTCMonth() + 1,
+    day.getUTCDate(),
+    toParts.hour,
+    toParts.minute,
+    timeZone
+  )
+}
+
+/**
+ * Shift BYDAY weekdays by the local-date change that moved `from` to `to`
+ */
+export function shiftWeekdays(
+  weekdays: DayOfWeek[],
+  from: Date,
+  to: Date,
+  timeZone: string
+): DayOfWeek[] {
+  const fromParts = getZonedParts(from, timeZone)
+  const toParts = getZonedParts(to, timeZone)
+  const delta = (((toParts.weekday - fromParts.weekday) % 7) + 7) % 7
+  const byIndex = Object.keys(WEEKDAY_INDEX) as DayOfWeek[]
+
+  return weekdays.map(
+    (weekday) => byIndex.find((d) => WEEKDAY_INDEX[d] === (WEEKDAY_INDEX[weekday] + delta) % 7)!
+  )
+}
+
+/**
+ * Format a rule as an RFC 5545 RRULE string (for display and export)
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`]
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((d) => RRULE_WEEKDAY[d]).join(',')}`)
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+  }
+  return parts.join(';')
+}
@@ -0,0 +1,161 @@
+/**
+ * Patient Self-Scheduling Policy
+ *
+ * Clinic-configured rules for appointments patients book, reschedule or
+ * cancel themselves in the portal:
+ * - booking window: from now + minBookingNoticeHours to now + maxBookingAdvanceDays
+ * - reschedule/cancel cutoffs: hours before the visit after which changes
+ *   must go through the clinic
+ *
+ * Staff (doctors, admins) are not bound by these rules.
+ */
+
+import { IntakeFormStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { getClinicSettings, ClinicSettingsData } from '@/lib/clinics/settings'
+
+export type SchedulingPolicy = Pick<
+  ClinicSettingsData,
+  | 'selfSchedulingEnabled'
+  | 'minBookingNoticeHours'
+  | 'maxBookingAdvanceDays'
+  | 'rescheduleCutoffHours'
+  | 'cancellationCutoffHours'
+>
+
+export type PatientChange = 'reschedule' | 'cancel'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+function policyError(message: string): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = 403
+  return error
+}
+
+/**
+ * Load the self-scheduling policy for a clinic
+ */
+export async function getSchedulingPolicy(clinicId: string): Promise<SchedulingPolicy> {
+  const settings = await getClinicSettings(clinicId)
+  return {
+    selfSchedulingEnabled: settings.selfSchedulingEnabled,
+    minBookingNoticeHours: settings.minBookingNoticeHours,
+    maxBookingAdvanceDays: settings.maxBookingAdvanceDays,
+    rescheduleCutoffHours: settings.rescheduleCutoffHours,
+    cancellationCutoffHours: settings.cancellationCutoffHours,
+  }
+}
+
+/**
+ * Earliest and latest start times a patient may book right now
+ */
+export function getBookingWindow(
+  policy: SchedulingPolicy,
+  now: Date = new Date()
+): { earliest: Date; latest: Date } {
+  return {
+    earliest: new Date(now.getTime() + policy.minBookingNoticeHours * HOUR_MS),
+    latest: new Date(now.getTime() + policy.maxBookingAdvanceDays * DAY_MS),
+  }
+}
+
+/**
+ * Last moment a patient may reschedule or cancel a visit online
+ */
+export function getChangeDeadline(
+  policy: SchedulingPolicy,
+  change: PatientChange,
+  scheduledAt: Date
+): Date {
+  const hours = change === 'reschedule' ? policy.rescheduleCutoffHours : policy.cancellationCutoffHours
+  return new Date(scheduledAt.getTime() - hours * HOUR_MS)
+}
+
+/**
+ * Throws 403 unless a patient may book a visit starting at `scheduledAt`
+ */
+export function assertPatientCanBook(
+  policy: SchedulingPolicy,
+  scheduledAt: Date,
+  now: Date = new Date()
+): void {
+  if (!policy.selfSchedulingEnabled) {
+    throw policyError('Online booking is not available for this clinic. Please contact the clinic to schedule.')
+  }
+
+  const { earliest, latest } = getBookingWindow(policy, now)
+  if (scheduledAt < earliest) {
+    throw policyError(
+      `Appointments must be booked at least ${policy.minBookingNoticeHours} hours in advance`
+    )
+  }
+  if (scheduledAt > latest) {
+    throw policyError(
+      `Appointments can be booked at most ${policy.maxBookingAdvanceDays} days in advance`
+    )
+  }
+}
+
+/**
+ * Throws 403 if the cutoff for rescheduling/cancelling `scheduledAt` has passed
+ */
+export function assertPatientCanChange(
+  policy: SchedulingPolicy,
+  change: PatientChange,
+  scheduledAt: Date,
+  now: Date = new Date()
+): void {
+  if (change === 'reschedule' && !policy.selfSchedulingEnabled) {
+    throw policyError('Online rescheduling is not available for this clinic. Please contact the clinic.')
+  }
+
+  if (now > getChangeDeadline(policy, change, scheduledAt)) {
+    const hours = change === 'reschedule' ? policy.rescheduleCutoffHours : policy.cancellationCutoffHours
+    const verb = change === 'reschedule' ? 'rescheduled' : 'cancelled'
+    throw policyError(
+      `Appointments can only be ${verb} online up to ${hours} hours before the visit. Please contact the clinic.`
+    )
+  }
+}
+
+/**
+ * Verify an intake form can be attached to a patient's appointment
+ * The form must belong to the patient, not be archived, and not already
+ * be attached to another appointment. Throws 404/409.
+ */
+export async function assertIntakeFormAttachable(
+  intakeFormId: string,
+  request: { patientId: string; clinicId: string; appointmentId?: string },
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const form = await client.intakeForm.findUnique({
+    where: { id: intakeFormId, clinicId: request.clinicId },
+    select: {
+      patientId: true,
+      status: true,
+      appointment: { select: { id: true } },
+    },
+  })
+
+  if (!form || form.patientId !== request.patientId) {
+    const error: Error & { statusCode?: number } = new Error('Intake form not found')
+    error.statusCode = 404
+    throw error
+  }
+
+  if (form.status === IntakeFormStatus.ARCHIVED) {
+    const error: Error & { statusCode?: number } = new Error('Archived intake forms cannot be attached')
+    error.statusCode = 409
+    throw error
+  }
+
+  if (form.appointment && form.appointment.id !== request.appointmentId) {
+    const error: Error & { statusCode?: number } = new Error(
+      'Intake form is already attached to another appointment'
+    )
+    error.statusCode = 409
+    throw error
+  }
+}
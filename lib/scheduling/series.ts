@@ -0,0 +1,354 @@
+/**
+ * Recurring Appointment Series
+ *
+ * Creates series occurrences through the availability engine and applies
+ * edits/cancellations with calendar-style scopes:
+ * - this:      only the selected occurrence
+ * - following: the selected occurrence and all later ones (splits the series)
+ * - all:       every upcoming occurrence in the series
+ *
+ * Only SCHEDULED/CONFIRMED/RESCHEDULED occurrences are touched by
+ * following/all; completed or cancelled visits are history.
+ */
+
+import { AppointmentStatus, Prisma, VisitType } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { appointmentSelect } from '@/lib/db/selects'
+import { assertSlotsAvailable, isBlockingStatus, withDoctorScheduleLock } from './booking'
+import { getDoctorSchedule } from './slots'
+import { expandRecurrence, RecurrenceRule, shiftOccurrence, shiftWeekdays } from './recurrence'
+import { backfillCancelledAppointments } from './waitlist'
+
+export type SeriesScope = 'this' | 'following' | 'all'
+
+/**
+ * Statuses that following/all edits and cancellations apply to
+ */
+export const EDITABLE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.RESCHEDULED,
+]
+
+export interface CreateSeriesInput {
+  clinicId: string
+  doctorId: string
+  patientId: string
+  startsAt: Date
+  duration: number
+  visitType: VisitType
+  status?: AppointmentStatus
+  reason?: string
+  notes?: string
+  recurrence: RecurrenceRule
+}
+
+export interface OccurrenceChanges {
+  scheduledAt?: Date // New time for the selected occurrence; others move by the same local shift
+  duration?: number
+  doctorId?: string
+  status?: AppointmentStatus
+  visitType?: VisitType
+  reason?: string
+  notes?: string
+  meetingUrl?: string | null
+  meetingId?: string | null
+}
+
+const anchorSelect = {
+  id: true,
+  clinicId: true,
+  doctorId: true,
+  scheduledAt: true,
+  duration: true,
+  status: true,
+  seriesId: true,
+  series: true,
+} satisfies Prisma.AppointmentSelect
+
+type Anchor = Prisma.AppointmentGetPayload<{ select: typeof anchorSelect }>
+
+async function loadAnchor(
+  client: Prisma.TransactionClient,
+  appointmentId: string,
+  clinicId: string
+): Promise<Anchor> {
+  const anchor = await client.appointment.findUnique({
+    where: { id: appointmentId, clinicId },
+    select: anchorSelect,
+  })
+
+  if (!anchor) {
+    const error: Error & { statusCode?: number } = new Error('Appointment not found')
+    error.statusCode = 404
+    throw error
+  }
+
+  return anchor
+}
+
+/**
+ * Resolve the occurrences a scope applies to (always including the anchor)
+ */
+async function getScopedOccurrences(
+  client: Prisma.TransactionClient,
+  anchor: Anchor,
+  scope: SeriesScope
+) {
+  const select = { id: true, scheduledAt: true, duration: true, status: true } as const
+
+  if (scope === 'this' || !anchor.seriesId) {
+    return [{ id: anchor.id, scheduledAt: anchor.scheduledAt, duration: anchor.duration, status: anchor.status }]
+  }
+
+  const others = await client.appointment.findMany({
+    where: {
+      seriesId: anchor.seriesId,
+      id: { not: anchor.id },
+      status: { in: EDITABLE_APPOINTMENT_STATUSES },
+      scheduledAt: scope === 'following' ? { gt: anchor.scheduledAt } : { gte: new Date() },
+    },
+    select,
+    orderBy: { scheduledAt: 'asc' },
+  })
+
+  return [
+    { id: anchor.id, scheduledAt: anchor.scheduledAt, duration: anchor.duration, status: anchor.status },
+    ...others,
+  ].sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+}
+
+/**
+ * Whether the series has occurrences before the anchor, i.e. whether
+ * "following" must split the series rather than edit it in place
+ */
+async function hasEarlierOccurrences(client: Prisma.TransactionClient, anchor: Anchor): Promise<boolean> {
+  if (!anchor.seriesId) return false
+  const earlier = await client.appointment.count({
+    where: { seriesId: anchor.seriesId, scheduledAt: { lt: anchor.scheduledAt } },
+  })
+  return earlier > 0
+}
+
+/**
+ * Create a recurring series and all of its occurrences atomically
+ * Throws 400 if the rule yields no occurrences, 409 on any conflict.
+ */
+export async function createAppointmentSeries(input: CreateSeriesInput) {
+  return withDoctorScheduleLock(input.doctorId, async (tx) => {
+    const schedule = await getDoctorSchedule(input.doctorId, input.clinicId, tx)
+    const occurrences = expandRecurrence(input.recurrence, input.startsAt, schedule.timezone)
+
+    if (occurrences.length === 0) {
+      const error: Error & { statusCode?: number } = new Error('Recurrence rule produces no occurrences')
+      error.statusCode = 400
+      throw error
+    }
+
+    await assertSlotsAvailable(tx, {
+      doctorId: input.doctorId,
+      clinicId: input.clinicId,
+      slots: occurrences.map((scheduledAt) => ({ scheduledAt, duration: input.duration })),
+    })
+
+    const series = await tx.appointmentSeries.create({
+      data: {
+        clinicId: input.clinicId,
+        doctorId: input.doctorId,
+        patientId: input.patientId,
+        frequency: input.recurrence.frequency,
+        interval: input.recurrence.interval,
+        byWeekday: input.recurrence.byWeekday || [],
+        count: input.recurrence.count ?? null,
+        until: input.recurrence.until ?? null,
+        startsAt: occurrences[0],
+        timezone: schedule.timezone,
+        duration: input.duration,
+        visitType: input.visitType,
+        reason: input.reason,
+      },
+    })
+
+    await tx.appointment.createMany({
+      data: occurrences.map((scheduledAt) => ({
+        clinicId: input.clinicId,
+        doctorId: input.doctorId,
+        patientId: input.patientId,
+        seriesId: series.id,
+        scheduledAt,
+        duration: input.duration,
+        status: input.status || AppointmentStatus.SCHEDULED,
+        visitType: input.visitType,
+        reason: input.reason,
+        notes: input.notes,
+      })),
+    })
+
+    const appointments = await tx.appointment.findMany({
+      where: { seriesId: series.id },
+      select: appointmentSelect,
+      orderBy: { scheduledAt: 'asc' },
+    })
+
+    return { series, appointments }
+  })
+}
+
+/**
+ * Edit one occurrence, the following occurrences, or the whole series
+ * Time, duration and doctor changes are re-validated against availability.
+ */
+export async function updateAppointmentOccurrences(
+  appointmentId: string,
+  clinicId: string,
+  scope: SeriesScope,
+  changes: OccurrenceChanges
+) {
+  const current = await loadAnchor(prisma, appointmentId, clinicId)
+  const doctorId = changes.doctorId ?? current.doctorId
+
+  return withDoctorScheduleLock(doctorId, async (tx) => {
+    // Re-read under the lock
+    const anchor = await loadAnchor(tx, appointmentId, clinicId)
+    const occurrences = await getScopedOccurrences(tx, anchor, scope)
+    const timeZone = anchor.series?.timezone ?? (await getDoctorSchedule(doctorId, clinicId, tx)).timezone
+
+    const planned = occurrences.map((occurrence) => {
+      const scheduledAt = changes.scheduledAt
+        ? occurrence.id === anchor.id
+          ? changes.scheduledAt
+          : shiftOccurrence(occurrence.scheduledAt, anchor.scheduledAt, changes.scheduledAt, timeZone)
+        : occurrence.scheduledAt
+      const duration = changes.duration ?? occurrence.duration
+      const status = changes.status ?? occurrence.status
+      const needsSlotCheck =
+        isBlockingStatus(status) &&
+        (scheduledAt.getTime() !== occurrence.scheduledAt.getTime() ||
+          duration !== occurrence.duration ||
+          doctorId !== anchor.doctorId ||
+          !isBlockingStatus(occurrence.status))
+
+      return { id: occurrence.id, scheduledAt, duration, needsSlotCheck }
+    })
+
+    await assertSlotsAvailable(tx, {
+      doctorId,
+      clinicId,
+      slots: planned.filter((p) => p.needsSlotCheck),
+      excludeAppointmentIds: planned.map((p) => p.id),
+    })
+
+    // Keep the series rule in step with following/all edits
+    let seriesId = anchor.seriesId
+    if (anchor.series && scope !== 'this') {
+      const series = anchor.series
+      const template = {
+        doctorId,
+        duration: changes.duration ?? series.duration,
+        visitType: changes.visitType ?? series.visitType,
+        reason: changes.reason ?? series.reason,
+        byWeekday: changes.scheduledAt
+          ? shiftWeekdays(series.byWeekday, anchor.scheduledAt, changes.scheduledAt, timeZone)
+          : series.byWeekday,
+      }
+
+      if (scope === 'following' && (await hasEarlierOccurrences(tx, anchor))) {
+        // Split: the original series ends before this occurrence, a new
+        // series carries this and the following occurrences
+        await tx.appointmentSeries.update({
+          where: { id: series.id },
+          data: { until: new Date(anchor.scheduledAt.getTime() - 1), count: null },
+        })
+        const split = await tx.appointmentSeries.create({
+          data: {
+            clinicId: series.clinicId,
+            patientId: series.patientId,
+            frequency: series.frequency,
+            interval: series.interval,
+            count: planned.length,
+            until: null,
+            startsAt: planned[0].scheduledAt,
+            timezone: series.timezone,
+            ...template,
+          },
+        })
+        seriesId = split.id
+      } else {
+        await tx.appointmentSeries.update({
+          where: { id: series.id },
+          data: {
+            ...template,
+            startsAt: changes.scheduledAt
+              ? shiftOccurrence(series.startsAt, anchor.scheduledAt, changes.scheduledAt, timeZone)
+              : series.startsAt,
+          },
+        })
+      }
+    }
+
+    for (const occurrence of planned) {
+      await tx.appointment.update({
+        where: { id: occurrence.id },
+        data: {
+          scheduledAt: occurrence.scheduledAt,
+          duration: occurrence.duration,
+          doctorId,
+          seriesId,
+          status: changes.status,
+          visitType: changes.visitType,
+          reason: changes.reason,
+          notes: changes.notes,
+          meetingUrl: changes.meetingUrl,
+          meetingId: changes.meetingId,
+          ...(changes.status === AppointmentStatus.CANCELLED && { cancelledAt: new Date() }),
+        },
+      })
+    }
+
+    return tx.appointment.findMany({
+      where: { id: { in: planned.map((p) => p.id) } },
+      select: appointmentSelect,
+      orderBy: { scheduledAt: 'asc' },
+    })
+  })
+}
+
+/**
+ * Cancel one occurrence, the following occurrences, or the whole series
+ * Freed slots are then offered to the waitlist.
+ */
+export async function cancelAppointmentOccurrences(
+  appointmentId: string,
+  clinicId: string,
+  scope: SeriesScope
+): Promise<{ cancelled: number; appointmentIds: string[] }> {
+  const result = await prisma.$transaction(async (tx) => {
+    const anchor = await loadAnchor(tx, appointmentId, clinicId)
+    const occurrences = await getScopedOccurrences(tx, anchor, scope)
+    const appointmentIds = occurrences.map((o) => o.id)
+    const now = new Date()
+
+    const updated = await tx.appointment.updateMany({
+      where: { id: { in: appointmentIds } },
+      data: { status: AppointmentStatus.CANCELLED, cancelledAt: now },
+    })
+
+    if (anchor.seriesId && scope !== 'this') {
+      const truncate = scope === 'following' && (await hasEarlierOccurrences(tx, anchor))
+      await tx.appointmentSeries.update({
+        where: { id: anchor.seriesId },
+        data: truncate
+          ? { until: new Date(anchor.scheduledAt.getTime() - 1), count: null }
+          : { cancelledAt: now },
+      })
+    }
+
+    return { cancelled: updated.count, appointmentIds }
+  })
+
+  await backfillCancelledAppointments(result.appointmentIds).catch((err) => {
+    console.error('Waitlist backfill failed (non-critical):', err)
+  })
+
+  return result
+}
@@ -0,0 +1,276 @@
+/**
+ * Slot Computation
+ *
+ * Expands weekly DoctorAvailability rows into concrete bookable slots
+ * in the doctor's timezone, then removes slots that overlap booked
+ * appointments (padded by the clinic's buffer).
+ *
+ * The pure helpers (expandAvailability, sliceIntoSlots, subtractBooked)
+ * take no database handle so they can be reused for validation inside
+ * a booking transaction.
+ */
+
+import { AppointmentStatus, DayOfWeek, Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { getClinicSettings } from '@/lib/clinics/settings'
+import { zonedTimeToUtc, getZonedParts, parseTimeOfDay } from './timezone'
+
+export interface TimeRange {
+  start: Date
+  end: Date
+}
+
+export interface AvailabilityWindow {
+  dayOfWeek: DayOfWeek
+  startTime: string // "HH:mm"
+  endTime: string // "HH:mm"
+}
+
+export interface DoctorSchedule {
+  doctorId: string
+  clinicId: string
+  timezone: string
+  availability: AvailabilityWindow[]
+  bufferMinutes: number
+  defaultDuration: number
+}
+
+/**
+ * Appointment statuses that occupy the doctor's time
+ * (RESCHEDULED appointments still take place, at their new time)
+ * Keep in step with the appointments_no_doctor_overlap exclusion constraint
+ * (supabase/migrations/022_appointment_overlap_rescheduled.sql).
+ */
+export const BLOCKING_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.RESCHEDULED,
+  AppointmentStatus.IN_PROGRESS,
+  AppointmentStatus.COMPLETED,
+]
+
+/**
+ * Longest range a single slot query may cover
+ */
+export const MAX_SLOT_RANGE_DAYS = 31
+
+// Longest appointment allowed by createAppointmentSchema (8 hours)
+const MAX_APPOINTMENT_MINUTES = 480
+
+const DAY_OF_WEEK_BY_INDEX: DayOfWeek[] = [
+  DayOfWeek.SUNDAY,
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY,
+]
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Check whether two half-open ranges overlap
+ */
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end
+}
+
+/**
+ * Expand weekly availability into concrete windows covering [from, to]
+ *
+ * Windows are returned whole (not clipped) so that slot boundaries stay
+ * aligned to the doctor's configured start time.
+ */
+export function expandAvailability(
+  availability: AvailabilityWindow[],
+  from: Date,
+  to: Date,
+  timeZone: string
+): TimeRange[] {
+  const windows: TimeRange[] = []
+  const first = getZonedParts(from, timeZone)
+
+  // Walk calendar days in the doctor's timezone, one day before `from`
+  // to catch windows that started the previous local day
+  let cursor = Date.UTC(first.year, first.month - 1, first.day) - DAY_MS
+
+  while (true) {
+    const day = new Date(cursor)
+    const year = day.getUTCFullYear()
+    const month = day.getUTCMonth() + 1
+    const date = day.getUTCDate()
+
+    if (zonedTimeToUtc(year, month, date, 0, 0, timeZone) > to) {
+      break
+    }
+
+    const dayOfWeek = DAY_OF_WEEK_BY_INDEX[day.getUTCDay()]
+
+    for (const row of availability) {
+      if (row.dayOfWeek !== dayOfWeek) continue
+
+      const startTime = parseTimeOfDay(row.startTime)
+      const endTime = parseTimeOfDay(row.endTime)
+      const start = zonedTimeToUtc(year, month, date, startTime.hour, startTime.minute, timeZone)
+      const end = zonedTimeToUtc(year, month, date, endTime.hour, endTime.minute, timeZone)
+
+      if (end > start && end > from && start < to) {
+        windows.push({ start, end })
+      }
+    }
+
+    cursor += DAY_MS
+  }
+
+  return windows.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Cut availability windows into consecutive slots of a fixed duration
+ */
+export function sliceIntoSlots(windows: TimeRange[], durationMinutes: number): TimeRange[] {
+  const slots: TimeRange[] = []
+  const durationMs = durationMinutes * MINUTE_MS
+
+  for (const window of windows) {
+    for (
+      let start = window.start.getTime();
+      start + durationMs <= window.end.getTime();
+      start += durationMs
+    ) {
+      slots.push({ start: new Date(start), end: new Date(start + durationMs) })
+    }
+  }
+
+  return slots
+}
+
+/**
+ * Remove slots that overlap a booked range padded by the buffer on both sides
+ */
+export function subtractBooked(
+  slots: TimeRange[],
+  booked: TimeRange[],
+  bufferMinutes: number = 0
+): TimeRange[] {
+  const bufferMs = bufferMinutes * MINUTE_MS
+  const padded = booked.map((range) => ({
+    start: new Date(range.start.getTime() - bufferMs),
+    end: new Date(range.end.getTime() + bufferMs),
+  }))
+
+  return slots.filter((slot) => !padded.some((range) => rangesOverlap(slot, range)))
+}
+
+/**
+ * Check whether a range lies entirely inside one availability window
+ */
+export function isWithinAvailability(range: TimeRange, windows: TimeRange[]): boolean {
+  return windows.some((window) => window.start <= range.start && range.end <= window.end)
+}
+
+/**
+ * Load everything needed to schedule against a doctor
+ * Throws 404 if the doctor does not exist in the clinic
+ */
+export async function getDoctorSchedule(
+  doctorId: string,
+  clinicId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<DoctorSchedule> {
+  const doctor = await client.doctor.findUnique({
+    where: { id: doctorId, clinicId },
+    select: {
+      id: true,
+      clinicId: true,
+      timezone: true,
+      availability: {
+        select: { dayOfWeek: true, startTime: true, endTime: true },
+      },
+    },
+  })
+
+  if (!doctor) {
+    const error: Error & { statusCode?: number } = new Error('Doctor not found')
+    error.statusCode = 404
+    throw error
+  }
+
+  const settings = await getClinicSettings(clinicId)
+
+  return {
+    doctorId: doctor.id,
+    clinicId: doctor.clinicId,
+    timezone: doctor.timezone,
+    availability: doctor.availability,
+    bufferMinutes: settings.appointmentBufferMinutes,
+    defaultDuration: settings.defaultVisitDuration,
+  }
+}
+
+/**
+ * Get the booked ranges for a doctor that could overlap [from, to]
+ */
+export async function getBookedRanges(
+  doctorId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient = prisma,
+  excludeAppointmentIds: string[] = []
+): Promise<TimeRange[]> {
+  const appointments = await client.appointment.findMany({
+    where: {
+      doctorId,
+      status: { in: BLOCKING_APPOINTMENT_STATUSES },
+      scheduledAt: {
+        gte: new Date(from.getTime() - MAX_APPOINTMENT_MINUTES * MINUTE_MS),
+        lt: to,
+      },
+      ...(excludeAppointmentIds.length > 0 ? { id: { notIn: excludeAppointmentIds } } : {}),
+    },
+    select: { scheduledAt: true, duration: true },
+  })
+
+  return appointments.map((appointment) => ({
+    start: appointment.scheduledAt,
+    end: new Date(appointment.scheduledAt.getTime() + appointment.duration * MINUTE_MS),
+  }))
+}
+
+/**
+ * Compute open slots for a doctor between two instants
+ */
+export async function computeAvailableSlots(params: {
+  doctorId: string
+  clinicId: string
+  from: Date
+  to: Date
+  duration?: number
+}): Promise<{ timezone: string; duration: number; slots: TimeRange[] }> {
+  const schedule = await getDoctorSchedule(params.doctorId, params.clinicId)
+  const duration = params.duration || schedule.defaultDuration
+
+  // Never offer slots in the past
+  const from = new Date(Math.max(params.from.getTime(), Date.now()))
+  if (from >= params.to) {
+    return { timezone: schedule.timezone, duration, slots: [] }
+  }
+
+  const windows = expandAvailability(schedule.availability, from, params.to, schedule.timezone)
+  const candidates = sliceIntoSlots(windows, duration).filter(
+    (slot) => slot.start >= from && slot.end <= params.to
+  )
+  const booked = await getBookedRanges(
+    params.doctorId,
+    new Date(from.getTime() - schedule.bufferMinutes * MINUTE_MS),
+    new Date(params.to.getTime() + schedule.bufferMinutes * MINUTE_MS)
+  )
+
+  return {
+    timezone: schedule.timezone,
+    duration,
+    slots: subtractBooked(candidates, booked, schedule.bufferMinutes),
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Timezone Utilities
+ *
+ * Minimal IANA timezone conversions built on Intl.DateTimeFormat,
+ * so doctor availability ("09:00" in America/Chicago) can be turned
+ * into absolute instants without pulling in a timezone library.
+ */
+
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  weekday: number // 0 = Sunday ... 6 = Saturday
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Check whether a string is a valid IANA timezone identifier
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || ''
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value || 0)
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an absolute instant
+ *
+ * Times that fall in a DST gap resolve forward (02:30 on spring-forward
+ * day becomes 03:30); ambiguous times resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+  const dayMs = 24 * 60 * 60 * 1000
+
+  // Offsets either side of any transition near this wall-clock time
+  const offsetBefore = getOffsetMs(new Date(wallClock - dayMs), timeZone)
+  const offsetAfter = getOffsetMs(new Date(wallClock + dayMs), timeZone)
+
+  // An offset is valid if the instant it produces actually uses it
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallClock - offset)
+    .filter((instant) => instant === wallClock - getOffsetMs(new Date(instant), timeZone))
+
+  if (candidates.length === 0) {
+    // DST gap: interpret with the pre-transition offset, landing after the gap
+    return new Date(wallClock - offsetBefore)
+  }
+  return new Date(Math.min(...candidates))
+}
+
+/**
+ * Parse an "HH:mm" string into hours and minutes
+ */
+export function parseTimeOfDay(value: string): { hour: number; minute: number } {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value)
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`)
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) }
+}
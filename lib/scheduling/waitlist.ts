@@ -0,0 +1,381 @@
+/**
+ * Appointment Waitlist & Backfill
+ *
+ * Patients join a per-doctor waitlist with a desired date range and
+ * visit types. When an appointment is cancelled, the freed slot is
+ * offered to one waitlisted patient at a time, in priority order
+ * (priority desc, then first come first served), via an expiring
+ * claim link. Declined or expired offers move on to the next patient.
+ *
+ * Offers do not hold the slot: if someone else books it first, the
+ * claim fails and the offer is marked UNAVAILABLE.
+ *
+ * Expiry is processed lazily (on claim, on waitlist reads and on each
+ * new backfill) via expireWaitlistOffers.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import {
+  AppointmentStatus,
+  Prisma,
+  VisitType,
+  WaitlistOfferStatus,
+  WaitlistStatus,
+} from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { appointmentSelect } from '@/lib/db/selects'
+import { assertSlotAvailable, withDoctorScheduleLock } from './booking'
+
+/**
+ * How long a patient has to claim an offered slot
+ */
+export const WAITLIST_OFFER_TTL_MINUTES = 120
+
+/**
+ * Entries considered per backfill attempt (each needs an availability check)
+ */
+const MAX_CANDIDATES_PER_SLOT = 25
+
+const MINUTE_MS = 60 * 1000
+
+export interface FreedSlot {
+  clinicId: string
+  doctorId: string
+  scheduledAt: Date
+  duration: number // minutes
+  visitType: VisitType
+  sourceAppointmentId?: string
+}
+
+function hashClaimToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Patient-facing URL for claiming an offer
+ */
+export function getClaimUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || ''}/patient/waitlist/claim/${token}`
+}
+
+function offerError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+/**
+ * Offer a freed slot to the highest-priority matching waitlist entry
+ *
+ * Skips entries that were already offered this slot and entries whose
+ * requested duration no longer fits. Returns null if nobody matches or
+ * the slot is no longer free.
+ */
+export async function offerFreedSlot(slot: FreedSlot) {
+  if (slot.scheduledAt <= new Date()) {
+    return null
+  }
+
+  return withDoctorScheduleLock(slot.doctorId, async (tx) => {
+    const previousOffers = await tx.waitlistOffer.findMany({
+      where: { doctorId: slot.doctorId, scheduledAt: slot.scheduledAt },
+      select: { entryId: true, status: true },
+    })
+
+    // Another backfill is already offering this slot
+    if (previousOffers.some((offer) => offer.status === WaitlistOfferStatus.PENDING)) {
+      return null
+    }
+
+    const slotEnd = new Date(slot.scheduledAt.getTime() + slot.duration * MINUTE_MS)
+    const candidates = await tx.waitlistEntry.findMany({
+      where: {
+        clinicId: slot.clinicId,
+        doctorId: slot.doctorId,
+        status: WaitlistStatus.ACTIVE,
+        earliestAt: { lte: slot.scheduledAt },
+        latestAt: { gte: slotEnd },
+        id: { notIn: previousOffers.map((offer) => offer.entryId) },
+      },
+      include: { patient: { select: { userId: true } } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      take: MAX_CANDIDATES_PER_SLOT,
+    })
+
+    for (const entry of candidates) {
+      const duration = entry.duration ?? slot.duration
+      const visitType =
+        entry.visitTypes.length === 0 || entry.visitTypes.includes(slot.visitType)
+          ? slot.visitType
+          : entry.visitTypes[0]
+
+      try {
+        await assertSlotAvailable(tx, {
+          doctorId: slot.doctorId,
+          clinicId: slot.clinicId,
+          scheduledAt: slot.scheduledAt,
+          duration,
+        })
+      } catch (error: any) {
+        // Doesn't fit for this entry's duration; try the next one
+        if (error.statusCode === 409) continue
+        throw error
+      }
+
+      const token = randomBytes(32).toString('base64url')
+      const expiresAt = new Date(Date.now() + WAITLIST_OFFER_TTL_MINUTES * MINUTE_MS)
+
+      const offer = await tx.waitlistOffer.create({
+        data: {
+          clinicId: slot.clinicId,
+          entryId: entry.id,
+          doctorId: slot.doctorId,
+          scheduledAt: slot.scheduledAt,
+          duration,
+          visitType,
+          tokenHash: hashClaimToken(token),
+          expiresAt,
+          sourceAppointmentId: slot.sourceAppointmentId,
+        },
+      })
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.OFFERED },
+      })
+
+      // Delivered to the patient by the notification pipeline
+      await tx.notification.create({
+        data: {
+          userId: entry.patient.userId,
+          userRole: 'PATIENT',
+          type: 'WAITLIST_OFFER',
+          title: 'An appointment opened up',
+          message: `A ${duration}-minute appointment on ${slot.scheduledAt.toISOString()} is available. Claim it within ${WAITLIST_OFFER_TTL_MINUTES} minutes.`,
+          data: {
+            offerId: offer.id,
+            claimUrl: getClaimUrl(token),
+            scheduledAt: slot.scheduledAt.toISOString(),
+            expiresAt: expiresAt.toISOString(),
+          },
+        },
+      })
+
+      return offer
+    }
+
+    return null
+  })
+}
+
+/**
+ * Offer the slots of just-cancelled appointments to the waitlist
+ * Past appointments and those not actually cancelled are ignored.
+ */
+export async function backfillCancelledAppointments(appointmentIds: string[]): Promise<void> {
+  if (appointmentIds.length === 0) return
+
+  await expireWaitlistOffers()
+
+  const cancelled = await prisma.appointment.findMany({
+    where: {
+      id: { in: appointmentIds },
+      status: AppointmentStatus.CANCELLED,
+      scheduledAt: { gt: new Date() },
+    },
+    select: { id: true, clinicId: true, doctorId: true, scheduledAt: true, duration: true, visitType: true },
+    orderBy: { scheduledAt: 'asc' },
+  })
+
+  for (const appointment of cancelled) {
+    await offerFreedSlot({
+      clinicId: appointment.clinicId,
+      doctorId: appointment.doctorId,
+      scheduledAt: appointment.scheduledAt,
+      duration: appointment.duration,
+      visitType: appointment.visitType,
+      sourceAppointmentId: appointment.id,
+    })
+  }
+}
+
+/**
+ * Put an entry back in the queue after its offer lapsed, unless its
+ * date range has passed
+ */
+async function releaseEntry(client: Prisma.TransactionClient, entryId: string): Promise<void> {
+  const now = new Date()
+  await client.waitlistEntry.updateMany({
+    where: { id: entryId, status: WaitlistStatus.OFFERED },
+    data: { status: WaitlistStatus.ACTIVE },
+  })
+  await client.waitlistEntry.updateMany({
+    where: { id: entryId, status: WaitlistStatus.ACTIVE, latestAt: { lt: now } },
+    data: { status: WaitlistStatus.EXPIRED },
+  })
+}
+
+/**
+ * Close an offer and pass its slot to the next patient in line
+ */
+async function closeOfferAndAdvance(
+  offerId: string,
+  status: 'DECLINED' | 'EXPIRED' | 'UNAVAILABLE'
+): Promise<void> {
+  const offer = await prisma.$transaction(async (tx) => {
+    const closed = await tx.waitlistOffer.updateMany({
+      where: { id: offerId, status: WaitlistOfferStatus.PENDING },
+      data: { status, respondedAt: status === 'DECLINED' ? new Date() : undefined },
+    })
+    // Already handled by a concurrent request
+    if (closed.count === 0) return null
+
+    const offer = await tx.waitlistOffer.findUniqueOrThrow({ where: { id: offerId } })
+    await releaseEntry(tx, offer.entryId)
+    return offer
+  })
+
+  if (offer && status !== 'UNAVAILABLE') {
+    await offerFreedSlot({
+      clinicId: offer.clinicId,
+      doctorId: offer.doctorId,
+      scheduledAt: offer.scheduledAt,
+      duration: offer.duration,
+      visitType: offer.visitType,
+      sourceAppointmentId: offer.sourceAppointmentId ?? undefined,
+    })
+  }
+}
+
+/**
+ * Expire lapsed offers (advancing each slot to the next patient) and
+ * waitlist entries whose date range has passed
+ */
+export async function expireWaitlistOffers(clinicId?: string): Promise<number> {
+  const now = new Date()
+
+  const lapsed = await prisma.waitlistOffer.findMany({
+    where: {
+      status: WaitlistOfferStatus.PENDING,
+      expiresAt: { lt: now },
+      ...(clinicId && { clinicId }),
+    },
+    select: { id: true },
+    orderBy: { expiresAt: 'asc' },
+  })
+
+  for (const offer of lapsed) {
+    await closeOfferAndAdvance(offer.id, 'EXPIRED')
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: {
+      status: WaitlistStatus.ACTIVE,
+      latestAt: { lt: now },
+      ...(clinicId && { clinicId }),
+    },
+    data: { status: WaitlistStatus.EXPIRED },
+  })
+
+  return lapsed.length
+}
+
+/**
+ * Load a pending offer by claim token for the given patient
+ * Throws 404 for unknown tokens or other patients' offers, 410 once the
+ * offer is no longer open.
+ */
+export async function getWaitlistOffer(token: string, patientId: string) {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { tokenHash: hashClaimToken(token) },
+    include: {
+      entry: { select: { id: true, patientId: true, reason: true } },
+    },
+  })
+
+  if (!offer || offer.entry.patientId !== patientId) {
+    throw offerError('Offer not found', 404)
+  }
+
+  if (offer.status === WaitlistOfferStatus.PENDING && offer.expiresAt < new Date()) {
+    await closeOfferAndAdvance(offer.id, 'EXPIRED')
+    throw offerError('This offer has expired', 410)
+  }
+
+  return offer
+}
+
+/**
+ * Accept an offer: book the slot for the patient and close their entry
+ * Throws 409 (and releases the entry) if the slot was taken meanwhile.
+ */
+export async function acceptWaitlistOffer(token: string, patientId: string) {
+  const offer = await getWaitlistOffer(token, patientId)
+  if (offer.status !== WaitlistOfferStatus.PENDING) {
+    throw offerError('This offer is no longer available', 410)
+  }
+
+  try {
+    return await withDoctorScheduleLock(offer.doctorId, async (tx) => {
+      const claimed = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: WaitlistOfferStatus.PENDING },
+        data: { status: WaitlistOfferStatus.ACCEPTED, respondedAt: new Date() },
+      })
+      if (claimed.count === 0) {
+        throw offerError('This offer is no longer available', 410)
+      }
+
+      await assertSlotAvailable(tx, {
+        doctorId: offer.doctorId,
+        clinicId: offer.clinicId,
+        scheduledAt: offer.scheduledAt,
+        duration: offer.duration,
+      })
+
+      const appointment = await tx.appointment.create({
+        data: {
+          clinicId: offer.clinicId,
+          doctorId: offer.doctorId,
+          patientId,
+          scheduledAt: offer.scheduledAt,
+          duration: offer.duration,
+          visitType: offer.visitType,
+          status: AppointmentStatus.SCHEDULED,
+          reason: offer.entry.reason,
+        },
+        select: appointmentSelect,
+      })
+
+      await tx.waitlistOffer.update({
+        where: { id: offer.id },
+        data: { appointmentId: appointment.id },
+      })
+      await tx.waitlistEntry.update({
+        where: { id: offer.entry.id },
+        data: { status: WaitlistStatus.BOOKED },
+      })
+
+      return appointment
+    })
+  } catch (error: any) {
+    if (error.statusCode === 409) {
+      // Rolled back above; record why the claim failed and requeue the patient
+      await closeOfferAndAdvance(offer.id, 'UNAVAILABLE')
+      throw offerError('Sorry, this time was booked by someone else', 409)
+    }
+    throw error
+  }
+}
+
+/**
+ * Decline an offer; the slot goes to the next patient in line and the
+ * decliner stays on the waitlist
+ */
+export async function declineWaitlistOffer(token: string, patientId: string): Promise<void> {
+  const offer = await getWaitlistOffer(token, patientId)
+  if (offer.status !== WaitlistOfferStatus.PENDING) {
+    throw offerError('This offer is no longer available', 410)
+  }
+
+  await closeOfferAndAdvance(offer.id, 'DECLINED')
+}
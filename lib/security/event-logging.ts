@@ -30,6 +30,12 @@ export enum EventType {
   LOGIN_SUCCESS = 'LOGIN_SUCCESS',
   LOGIN_FAILURE = 'LOGIN_FAILURE',
   LOGOUT = 'LOGOUT',
+  MFA_CHALLENGE = 'MFA_CHALLENGE',
+  MFA_SUCCESS = 'MFA_SUCCESS',
+  MFA_FAILURE = 'MFA_FAILURE',
+  MFA_ENROLLED = 'MFA_ENROLLED',
+  MFA_DISABLED = 'MFA_DISABLED',
+  MFA_RECOVERY_CODES_REGENERATED = 'MFA_RECOVERY_CODES_REGENERATED',
   
   // Authorization events
   UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
@@ -301,6 +307,19 @@ export async function logLoginFailure(
   )
 }
 
+/**
+ * Log an MFA event (challenge issued, verification, enrollment changes)
+ */
+export async function logMfaEvent(
+  eventType: EventType,
+  userId: string | undefined, // Unknown when a challenge token doesn't resolve
+  details: { method?: string; reason?: string; success: boolean },
+  request?: Request,
+  requestId?: string
+): Promise<void> {
+  await logEvent(eventType, details, userId, request, requestId)
+}
+
 /**
  * Log unauthorized access attempt
  */
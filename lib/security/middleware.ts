@@ -4,7 +4,7 @@
 // TODO: Add audit logging
 
 import { NextRequest, NextResponse } from 'next/server'
-import { rateLimiters } from './rate-limit'
+import { checkRateLimit, rateLimitExceededResponse, setRateLimitHeaders, type RateLimitResult } from './rate-limit'
 import { addSecurityHeaders, configureCORS } from './headers'
 import { handleApiError } from './error-handler'
 import { logInfo, logError } from './logging'
@@ -26,11 +26,11 @@ export function withSecurity<T>(
     
     try {
       // Rate limiting
+      let rateLimit: RateLimitResult | null = null
       if (options.rateLimiter) {
-        const rateLimiter = rateLimiters[options.rateLimiter]
-        const rateLimitResponse = await rateLimiter(request)
-        if (rateLimitResponse) {
-          return addSecurityHeaders(rateLimitResponse)
+        rateLimit = await checkRateLimit(request, options.rateLimiter)
+        if (!rateLimit.allowed) {
+          return addSecurityHeaders(rateLimitExceededResponse(rateLimit))
         }
       }
       
@@ -44,8 +44,11 @@ export function withSecurity<T>(
         response = await handler(request, requestId)
       }
       
-      // Add security headers
+      // Add security and rate limit headers
       response = addSecurityHeaders(response)
+      if (rateLimit) {
+        response = setRateLimitHeaders(response, rateLimit)
+      }
       
       // Log request
       const duration = Date.now() - startTime
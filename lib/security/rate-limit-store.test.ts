@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MemoryRateLimitStore, type RateLimitRule } from './rate-limit-store'
+
+// Start of a one-minute window
+const WINDOW_START = 1_700_000_040_000
+
+const slidingWindow: RateLimitRule = { algorithm: 'sliding-window', limit: 3, windowMs: 60_000 }
+const tokenBucket: RateLimitRule = { algorithm: 'token-bucket', limit: 2, windowMs: 1_000 }
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(WINDOW_START)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('MemoryRateLimitStore sliding window', () => {
+  it('allows up to the limit, then refuses until the window moves on', async () => {
+    const store = new MemoryRateLimitStore()
+
+    const outcomes = []
+    for (let i = 0; i < 4; i++) {
+      outcomes.push(await store.consume('user-1', slidingWindow))
+    }
+
+    expect(outcomes.map((outcome) => outcome.allowed)).toEqual([true, true, true, false])
+    expect(outcomes.map((outcome) => outcome.remaining)).toEqual([2, 1, 0, 0])
+    expect(outcomes[3].retryAfterMs).toBe(60_000)
+    expect(outcomes[0].retryAfterMs).toBe(0)
+  })
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    const store = new MemoryRateLimitStore()
+    for (let i = 0; i < 3; i++) {
+      await store.consume('user-1', slidingWindow)
+    }
+
+    // Halfway into the next window the 3 earlier requests count as 1.5
+    vi.setSystemTime(WINDOW_START + 90_000)
+    expect((await store.consume('user-1', slidingWindow)).allowed).toBe(true)
+    const refused = await store.consume('user-1', slidingWindow)
+
+    expect(refused.allowed).toBe(false)
+    // 1 + 1 requests fit once the earlier window's weight is down to 1/3
+    // (rounded up to whole milliseconds)
+    expect(refused.retryAfterMs).toBeCloseTo(10_000, -1)
+  })
+
+  it('keeps separate counters per key', async () => {
+    const store = new MemoryRateLimitStore()
+    for (let i = 0; i < 3; i++) {
+      await store.consume('user-1', slidingWindow)
+    }
+
+    expect((await store.consume('user-2', slidingWindow)).allowed).toBe(true)
+  })
+
+  it('charges the request cost', async () => {
+    const store = new MemoryRateLimitStore()
+
+    expect((await store.consume('user-1', slidingWindow, 2)).remaining).toBe(1)
+    expect((await store.consume('user-1', slidingWindow, 2)).allowed).toBe(false)
+  })
+})
+
+describe('MemoryRateLimitStore token bucket', () => {
+  it('allows a burst up to the bucket size and refills continuously', async () => {
+    const store = new MemoryRateLimitStore()
+
+    expect((await store.consume('user-1', tokenBucket)).allowed).toBe(true)
+    expect((await store.consume('user-1', tokenBucket)).allowed).toBe(true)
+    const refused = await store.consume('user-1', tokenBucket)
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 500, resetMs: 1_000 })
+
+    vi.setSystemTime(WINDOW_START + 500)
+    expect((await store.consume('user-1', tokenBucket)).allowed).toBe(true)
+    expect((await store.consume('user-1', tokenBucket)).allowed).toBe(false)
+  })
+
+  it('starts with a full bucket once the state has expired', async () => {
+    const store = new MemoryRateLimitStore()
+    await store.consume('user-1', tokenBucket, 2)
+
+    vi.setSystemTime(WINDOW_START + 5_000)
+
+    expect(await store.consume('user-1', tokenBucket)).toMatchObject({ allowed: true, remaining: 1 })
+  })
+})
@@ -0,0 +1,410 @@
+/**
+ * Rate Limit Stores
+ *
+ * Counter storage behind lib/security/rate-limit.ts. Every store applies an
+ * algorithm step atomically, so concurrent requests for the same key can't
+ * both see the last remaining slot:
+ * - memory: process-local Map (single instance / development)
+ * - redis: one Lua script per step (REDIS_URL, shared with lib/cache/redis-cache.ts)
+ * - firestore: one transaction per step (the `rate_limits` collection)
+ *
+ * The store is chosen with RATE_LIMIT_STORE; without it Redis is used when
+ * REDIS_URL is set and Firestore otherwise.
+ *
+ * Algorithms:
+ * - sliding-window: sliding window counter; the previous fixed window's count
+ *   is weighted by how much of it still overlaps the sliding window
+ * - token-bucket: `limit` tokens, refilled continuously over `windowMs`;
+ *   allows short bursts up to the bucket size
+ */
+
+import type { Firestore } from '@google-cloud/firestore'
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket'
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm
+  limit: number // Requests per window (sliding-window) or bucket size (token-bucket)
+  windowMs: number // Window length, or time to refill an empty bucket
+}
+
+/**
+ * Outcome of one rate limit step
+ */
+export interface RateLimitOutcome {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetMs: number // Until the full limit is available again
+  retryAfterMs: number // Until this request would be allowed; 0 when allowed
+}
+
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitOutcome>
+}
+
+type SlidingWindowState = { windowStart: number; count: number; previousCount: number }
+type TokenBucketState = { tokens: number; updatedAt: number }
+type RateLimitState = SlidingWindowState | TokenBucketState
+
+// ============================================================================
+// Algorithms (pure; the Redis scripts below mirror these steps)
+// ============================================================================
+
+function slidingWindowStep(
+  previous: SlidingWindowState | null,
+  rule: RateLimitRule,
+  cost: number,
+  now: number
+): { state: SlidingWindowState; allowed: boolean } {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs
+  let count = 0
+  let previousCount = 0
+
+  if (previous?.windowStart === windowStart) {
+    count = previous.count
+    previousCount = previous.previousCount
+  } else if (previous?.windowStart === windowStart - rule.windowMs) {
+    previousCount = previous.count
+  }
+
+  const weight = 1 - (now - windowStart) / rule.windowMs
+  const allowed = previousCount * weight + count + cost <= rule.limit
+
+  return {
+    state: { windowStart, count: allowed ? count + cost : count, previousCount },
+    allowed,
+  }
+}
+
+function slidingWindowOutcome(
+  state: SlidingWindowState,
+  allowed: boolean,
+  rule: RateLimitRule,
+  cost: number,
+  now: number
+): RateLimitOutcome {
+  const elapsed = now - state.windowStart
+  const used = state.previousCount * (1 - elapsed / rule.windowMs) + state.count
+  const windowEnd = rule.windowMs - elapsed
+
+  let retryAfterMs = 0
+  if (!allowed) {
+    // When the previous window's weight has decayed enough to fit the request
+    const spare = rule.limit - state.count - cost
+    retryAfterMs =
+      spare >= 0 && state.previousCount > 0
+        ? Math.max(0, rule.windowMs * (1 - spare / state.previousCount) - elapsed)
+        : windowEnd
+  }
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - used)),
+    // Requests in the current window keep counting until the next one ends
+    resetMs: state.count > 0 ? windowEnd + rule.windowMs : windowEnd,
+    retryAfterMs: Math.ceil(retryAfterMs),
+  }
+}
+
+function tokenBucketStep(
+  previous: TokenBucketState | null,
+  rule: RateLimitRule,
+  cost: number,
+  now: number
+): { state: TokenBucketState; allowed: boolean } {
+  const refillPerMs = rule.limit / rule.windowMs
+  const available = previous
+    ? Math.min(rule.limit, previous.tokens + Math.max(0, now - previous.updatedAt) * refillPerMs)
+    : rule.limit
+  const allowed = available >= cost
+
+  return {
+    state: { tokens: allowed ? available - cost : available, updatedAt: now },
+    allowed,
+  }
+}
+
+function tokenBucketOutcome(
+  state: TokenBucketState,
+  allowed: boolean,
+  rule: RateLimitRule,
+  cost: number
+): RateLimitOutcome {
+  const refillPerMs = rule.limit / rule.windowMs
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.floor(state.tokens),
+    resetMs: Math.ceil((rule.limit - state.tokens) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((cost - state.tokens) / refillPerMs),
+  }
+}
+
+function step(
+  previous: RateLimitState | null,
+  rule: RateLimitRule,
+  cost: number,
+  now: number
+): { state: RateLimitState; outcome: RateLimitOutcome } {
+  if (rule.algorithm === 'token-bucket') {
+    const { state, allowed } = tokenBucketStep(previous as TokenBucketState | null, rule, cost, now)
+    return { state, outcome: tokenBucketOutcome(state, allowed, rule, cost) }
+  }
+
+  const { state, allowed } = slidingWindowStep(previous as SlidingWindowState | null, rule, cost, now)
+  return { state, outcome: slidingWindowOutcome(state, allowed, rule, cost, now) }
+}
+
+/**
+ * How long a key's state matters after its last update
+ */
+function stateTtlMs(rule: RateLimitRule): number {
+  // Sliding windows read the previous window; buckets are full again after one
+  return rule.algorithm === 'sliding-window' ? rule.windowMs * 2 : rule.windowMs
+}
+
+// ============================================================================
+// Memory store
+// ============================================================================
+
+/**
+ * Process-local store; counters are not shared between instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>()
+  private cleanupInterval: NodeJS.Timeout | null = null
+
+  constructor() {
+    // Drop expired entries every 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now()
+      for (const [key, entry] of this.entries.entries()) {
+        if (entry.expiresAt < now) {
+          this.entries.delete(key)
+        }
+      }
+    }, 5 * 60 * 1000)
+    this.cleanupInterval.unref?.()
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitOutcome> {
+    // Read and write happen in the same tick, so this is atomic per process
+    const now = Date.now()
+    const entry = this.entries.get(key)
+    const previous = entry && entry.expiresAt > now ? entry.state : null
+
+    const { state, outcome } = step(previous, rule, cost, now)
+    this.entries.set(key, { state, expiresAt: now + stateTtlMs(rule) })
+
+    return outcome
+  }
+}
+
+// ============================================================================
+// Redis store
+// ============================================================================
+
+// Lua numbers are doubles; timestamps are formatted so they round-trip exactly
+const SLIDING_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+
+local windowStart = math.floor(now / window) * window
+local stored = redis.call('HMGET', KEYS[1], 'windowStart', 'count', 'previousCount')
+local storedStart = tonumber(stored[1])
+local count = 0
+local previousCount = 0
+
+if storedStart == windowStart then
+  count = tonumber(stored[2]) or 0
+  previousCount = tonumber(stored[3]) or 0
+elseif storedStart == windowStart - window then
+  previousCount = tonumber(stored[2]) or 0
+end
+
+local weight = 1 - (now - windowStart) / window
+local allowed = 0
+if previousCount * weight + count + cost <= limit then
+  allowed = 1
+  count = count + cost
+end
+
+redis.call('HSET', KEYS[1], 'windowStart', string.format('%.0f', windowStart), 'count', count, 'previousCount', previousCount)
+redis.call('PEXPIRE', KEYS[1], ttl)
+
+return { allowed, string.format('%.0f', windowStart), tostring(count), tostring(previousCount) }
+`
+
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+
+local stored = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(stored[1])
+local updatedAt = tonumber(stored[2])
+
+if tokens == nil or updatedAt == nil then
+  tokens = limit
+else
+  tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * (limit / window))
+end
+
+local allowed = 0
+if tokens >= cost then
+  allowed = 1
+  tokens = tokens - cost
+end
+
+redis.call('HSET', KEYS[1], 'tokens', string.format('%.6f', tokens), 'updatedAt', string.format('%.0f', now))
+redis.call('PEXPIRE', KEYS[1], ttl)
+
+return { allowed, string.format('%.6f', tokens) }
+`
+
+/**
+ * Redis store; each step runs as a single Lua script, so it is atomic across
+ * every instance sharing the Redis server
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitOutcome> {
+    // Loaded on first use so deployments without Redis never import the client
+    const { getRedisClient } = await import('@/lib/cache/redis-cache')
+    const client = getRedisClient()
+    const now = Date.now()
+    const args = [rule.limit, rule.windowMs, cost, now, stateTtlMs(rule)].map(String)
+
+    if (rule.algorithm === 'token-bucket') {
+      const [allowed, tokens] = (await client.eval(TOKEN_BUCKET_SCRIPT, {
+        keys: [key],
+        arguments: args,
+      })) as [number, string]
+
+      return tokenBucketOutcome({ tokens: Number(tokens), updatedAt: now }, allowed === 1, rule, cost)
+    }
+
+    const [allowed, windowStart, count, previousCount] = (await client.eval(SLIDING_WINDOW_SCRIPT, {
+      keys: [key],
+      arguments: args,
+    })) as [number, string, string, string]
+
+    return slidingWindowOutcome(
+      { windowStart: Number(windowStart), count: Number(count), previousCount: Number(previousCount) },
+      allowed === 1,
+      rule,
+      cost,
+      now
+    )
+  }
+}
+
+// ============================================================================
+// Firestore store
+// ============================================================================
+
+/**
+ * Firestore store; each step runs in a transaction, which Firestore retries
+ * when a concurrent request wrote the same counter first
+ */
+export class FirestoreRateLimitStore implements RateLimitStore {
+  private firestore: Firestore | null = null
+  private cleanupInterval: NodeJS.Timeout | null = null
+
+  private async getFirestore(): Promise<Firestore> {
+    if (!this.firestore) {
+      const { getFirestore } = await import('@/lib/gcp/gcp-firestore')
+      this.firestore = getFirestore()
+      this.startCleanup(this.firestore)
+    }
+    return this.firestore
+  }
+
+  private startCleanup(firestore: Firestore) {
+    if (this.cleanupInterval) return
+
+    // Delete expired counters every 5 minutes
+    this.cleanupInterval = setInterval(async () => {
+      try {
+        const snapshot = await firestore
+          .collection('rate_limits')
+          .where('expiresAt', '<', new Date())
+          .limit(100)
+          .get()
+
+        if (snapshot.docs.length > 0) {
+          const batch = firestore.batch()
+          snapshot.docs.forEach((doc) => batch.delete(doc.ref))
+          await batch.commit()
+        }
+      } catch (error) {
+        console.error('Rate limit cleanup error:', error)
+      }
+    }, 5 * 60 * 1000)
+    this.cleanupInterval.unref?.()
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitOutcome> {
+    const firestore = await this.getFirestore()
+    // Document IDs can't contain slashes
+    const ref = firestore.collection('rate_limits').doc(key.replace(/\//g, '_'))
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref)
+      const now = Date.now()
+      const data = doc.exists ? doc.data() : undefined
+      const previous =
+        data && data.algorithm === rule.algorithm && (data.expiresAt?.toMillis?.() ?? 0) > now
+          ? (data.state as RateLimitState)
+          : null
+
+      const { state, outcome } = step(previous, rule, cost, now)
+      transaction.set(ref, {
+        algorithm: rule.algorithm,
+        state,
+        expiresAt: new Date(now + stateTtlMs(rule)),
+      })
+
+      return outcome
+    })
+  }
+}
+
+// ============================================================================
+// Store selection
+// ============================================================================
+
+let store: RateLimitStore | null = null
+
+/**
+ * The configured rate limit store (singleton)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) {
+    return store
+  }
+
+  const configured =
+    process.env.RATE_LIMIT_STORE ||
+    (process.env.REDIS_URL || process.env.REDISCLOUD_URL ? 'redis' : 'firestore')
+
+  switch (configured) {
+    case 'memory':
+      store = new MemoryRateLimitStore()
+      break
+    case 'redis':
+      store = new RedisRateLimitStore()
+      break
+    default:
+      store = new FirestoreRateLimitStore()
+  }
+
+  return store
+}
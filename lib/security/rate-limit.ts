@@ -1,133 +1,200 @@
-// Rate limiting middleware for API routes
-// TODO: Implement rate limiting using in-memory store or Redis
-// TODO: Support different limits per route
-// TODO: Return proper rate limit headers
-// TODO: Handle rate limit exceeded responses
+/**
+ * Rate Limiting
+ *
+ * Single rate-limiting layer for API routes. Named policies set the
+ * algorithm and limits per route family, with optional per-role overrides
+ * and a clinic-wide limit shared by everyone in the clinic. Counters live
+ * in the configured store (lib/security/rate-limit-store.ts).
+ *
+ * Requests are counted per user when the caller passes the signed-in user
+ * (or another stable key, such as the login email), otherwise per client IP.
+ *
+ * Responses carry the IETF RateLimit headers (RateLimit-Limit,
+ * RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy): 429 responses
+ * from rateLimitExceededResponse, with Retry-After, and successful ones
+ * through setRateLimitHeaders (done by withSecurity). Store failures fail open.
+ */
 
 import { NextRequest, NextResponse } from 'next/server'
+import type { AuthUser, UserRole } from '@/lib/auth/types'
 import { logRateLimitViolation, getRequestFromNextRequest } from './event-logging'
+import { getRateLimitStore, type RateLimitOutcome, type RateLimitRule } from './rate-limit-store'
 
-interface RateLimitConfig {
-  windowMs: number // Time window in milliseconds
-  maxRequests: number // Maximum requests per window
-  keyGenerator?: (request: NextRequest) => string // Custom key generator
-  skipSuccessfulRequests?: boolean // Don't count successful requests
-  skipFailedRequests?: boolean // Don't count failed requests
+export type { RateLimitAlgorithm, RateLimitRule } from './rate-limit-store'
+
+export interface RateLimitPolicy extends RateLimitRule {
+  roles?: Partial<Record<UserRole, Partial<RateLimitRule>>> // Overrides by role
+  clinic?: RateLimitRule // Shared by every user in the clinic
 }
 
-// In-memory store (use Redis in production)
-const requestStore = new Map<string, { count: number; resetTime: number }>()
+/**
+ * Who a request is counted against
+ * `id` is the user ID, or another stable key for unauthenticated routes.
+ */
+export type RateLimitIdentity = Partial<Pick<AuthUser, 'id' | 'role' | 'clinicId'>>
 
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, value] of requestStore.entries()) {
-    if (value.resetTime < now) {
-      requestStore.delete(key)
-    }
-  }
-}, 5 * 60 * 1000)
-
-function getClientIdentifier(request: NextRequest): string {
-  // Try to get user ID from auth token
-  const authHeader = request.headers.get('authorization')
-  if (authHeader) {
-    // In production, decode JWT to get user ID
-    // For now, use IP + user agent as fallback
+export interface RateLimitResult extends RateLimitOutcome {
+  policy: RateLimitRule
+}
+
+/**
+ * Rate limit policies by route family
+ */
+export const rateLimitPolicies = {
+  // Strict rate limit for auth endpoints (prevent brute force)
+  auth: { algorithm: 'sliding-window', limit: 5, windowMs: 15 * 60 * 1000 },
+
+  // Login attempts: 5 per minute per email
+  login: { algorithm: 'sliding-window', limit: 5, windowMs: 60 * 1000 },
+
+  // MFA code verification: 5 per minute per user
+  mfa: { algorithm: 'sliding-window', limit: 5, windowMs: 60 * 1000 },
+
+  // AI SOAP generation: 10 per minute per doctor, 60 per minute per clinic
+  soapGeneration: {
+    algorithm: 'token-bucket',
+    limit: 10,
+    windowMs: 60 * 1000,
+    clinic: { algorithm: 'token-bucket', limit: 60, windowMs: 60 * 1000 },
+  },
+
+  // STT chunks: 10 per second, bursts allowed
+  sttChunks: { algorithm: 'token-bucket', limit: 10, windowMs: 1000 },
+
+  // Messaging: 20 per minute per user
+  messaging: { algorithm: 'sliding-window', limit: 20, windowMs: 60 * 1000 },
+
+  // General API: 60 per minute, 120 for clinic staff
+  api: {
+    algorithm: 'sliding-window',
+    limit: 60,
+    windowMs: 60 * 1000,
+    roles: { doctor: { limit: 120 }, admin: { limit: 120 } },
+  },
+
+  // File uploads: 10 per minute
+  upload: { algorithm: 'sliding-window', limit: 10, windowMs: 60 * 1000 },
+
+  // Very strict for sensitive operations: 10 per hour
+  sensitive: { algorithm: 'sliding-window', limit: 10, windowMs: 60 * 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof rateLimitPolicies
+
+function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  const realIP = request.headers.get('x-real-ip')
+  const cfConnectingIP = request.headers.get('cf-connecting-ip')
+
+  return forwarded?.split(',')[0].trim() || realIP || cfConnectingIP || 'unknown'
+}
+
+function resolveRule(policy: RateLimitPolicy, role?: UserRole): RateLimitRule {
+  const override = role ? policy.roles?.[role] : undefined
+  return {
+    algorithm: override?.algorithm ?? policy.algorithm,
+    limit: override?.limit ?? policy.limit,
+    windowMs: override?.windowMs ?? policy.windowMs,
   }
-  
-  // Fallback to IP address + user agent
-  const ip = request.headers.get('x-forwarded-for') || 
-             request.headers.get('x-real-ip') || 
-             'unknown'
-  const userAgent = request.headers.get('user-agent') || 'unknown'
-  return `${ip}:${userAgent}`
 }
 
-export function createRateLimiter(config: RateLimitConfig) {
-  return async (request: NextRequest): Promise<NextResponse | null> => {
-    const key = config.keyGenerator 
-      ? config.keyGenerator(request)
-      : getClientIdentifier(request)
-    
-    const now = Date.now()
-    const entry = requestStore.get(key)
-    
-    // Check if entry exists and is still valid
-    if (entry && entry.resetTime > now) {
-      // Increment count
-      entry.count++
-      
-      // Check if limit exceeded
-      if (entry.count > config.maxRequests) {
-        const retryAfter = Math.ceil((entry.resetTime - now) / 1000)
-        
-        // Log rate limit violation (async, don't await to avoid blocking)
-        const endpoint = new URL(request.url).pathname
-        logRateLimitViolation(
-          undefined, // userId if available (would need to extract from request)
-          endpoint,
-          config.maxRequests,
-          getRequestFromNextRequest(request),
-          request.headers.get('x-request-id') || undefined
-        ).catch(err => console.error('Failed to log rate limit violation:', err))
-        
-        return new NextResponse(
-          JSON.stringify({ 
-            error: 'Too many requests',
-            retryAfter 
-          }),
-          {
-            status: 429,
-            headers: {
-              'Content-Type': 'application/json',
-              'Retry-After': retryAfter.toString(),
-              'X-RateLimit-Limit': config.maxRequests.toString(),
-              'X-RateLimit-Remaining': '0',
-              'X-RateLimit-Reset': new Date(entry.resetTime).toISOString(),
-            },
-          }
-        )
-      }
-      
-      // Update entry
-      requestStore.set(key, entry)
-    } else {
-      // Create new entry
-      requestStore.set(key, {
-        count: 1,
-        resetTime: now + config.windowMs,
-      })
+/**
+ * The more restrictive of two results
+ */
+function mostRestrictive(a: RateLimitResult, b: RateLimitResult): RateLimitResult {
+  if (a.allowed !== b.allowed) return a.allowed ? b : a
+  if (!a.allowed) return a.retryAfterMs >= b.retryAfterMs ? a : b
+  return a.remaining <= b.remaining ? a : b
+}
+
+/**
+ * Count a request against a policy, logging it if over the limit
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  policyName: RateLimitPolicyName,
+  identity: RateLimitIdentity = {}
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = rateLimitPolicies[policyName]
+  const rule = resolveRule(policy, identity.role)
+  const subject = identity.id ? `user:${identity.id}` : `ip:${getClientIP(request)}`
+
+  try {
+    const store = getRateLimitStore()
+    const outcome = await store.consume(`rate_limit:${policyName}:${subject}`, rule)
+    let result: RateLimitResult = { ...outcome, policy: rule }
+
+    if (policy.clinic && identity.clinicId && outcome.allowed) {
+      const clinicOutcome = await store.consume(`rate_limit:${policyName}:clinic:${identity.clinicId}`, policy.clinic)
+      result = mostRestrictive(result, { ...clinicOutcome, policy: policy.clinic })
+    }
+
+    if (!result.allowed) {
+      // Log rate limit violation (async, don't await to avoid blocking)
+      logRateLimitViolation(
+        identity.id,
+        new URL(request.url).pathname,
+        result.limit,
+        getRequestFromNextRequest(request),
+        request.headers.get('x-request-id') || undefined
+      ).catch((err) => console.error('Failed to log rate limit violation:', err))
+    }
+
+    return result
+  } catch (error) {
+    // On error, allow the request (fail open)
+    console.error('Rate limit error:', error)
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: rule.limit,
+      resetMs: 0,
+      retryAfterMs: 0,
+      policy: rule,
     }
-    
-    return null // No rate limit exceeded
   }
 }
 
-// Pre-configured rate limiters
-export const rateLimiters = {
-  // Strict rate limit for auth endpoints (prevent brute force)
-  auth: createRateLimiter({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    maxRequests: 5, // 5 requests per 15 minutes
-  }),
-  
-  // Standard rate limit for API endpoints
-  api: createRateLimiter({
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 60, // 60 requests per minute
-  }),
-  
-  // Lenient rate limit for file uploads
-  upload: createRateLimiter({
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 10, // 10 uploads per minute
-  }),
-  
-  // Very strict for sensitive operations
-  sensitive: createRateLimiter({
-    windowMs: 60 * 60 * 1000, // 1 hour
-    maxRequests: 10, // 10 requests per hour
-  }),
+/**
+ * Add the RateLimit headers for a result to a response
+ */
+export function setRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  response.headers.set('RateLimit-Limit', result.limit.toString())
+  response.headers.set('RateLimit-Remaining', result.remaining.toString())
+  response.headers.set('RateLimit-Reset', Math.ceil(result.resetMs / 1000).toString())
+  response.headers.set('RateLimit-Policy', `${result.policy.limit};w=${Math.ceil(result.policy.windowMs / 1000)}`)
+
+  if (!result.allowed) {
+    response.headers.set('Retry-After', Math.max(1, Math.ceil(result.retryAfterMs / 1000)).toString())
+  }
+
+  return response
+}
+
+/**
+ * 429 response for a request over its limit
+ */
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  const response = NextResponse.json(
+    {
+      error: 'Too many requests',
+      retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+    },
+    { status: 429 }
+  )
+  return setRateLimitHeaders(response, result)
 }
 
+type RateLimiter = (request: NextRequest, identity?: RateLimitIdentity) => Promise<RateLimitResult>
+
+/**
+ * Pre-configured rate limiters, one per policy
+ * Routes answer a disallowed result with rateLimitExceededResponse and
+ * pass an allowed one to setRateLimitHeaders on their response.
+ */
+export const rateLimiters = Object.fromEntries(
+  (Object.keys(rateLimitPolicies) as RateLimitPolicyName[]).map((name) => [
+    name,
+    (request: NextRequest, identity?: RateLimitIdentity) => checkRateLimit(request, name, identity),
+  ])
+) as Record<RateLimitPolicyName, RateLimiter>
@@ -0,0 +1,65 @@
+/**
+ * User Identity
+ *
+ * Name, contact details, role, clinic, status and locale of every user,
+ * read from the users table. Doctor, Patient and CareTeamMember profiles
+ * all reference it through their userId.
+ *
+ * The table mirrors Supabase auth (email, phone, user metadata) and
+ * user_roles (role, clinic) through database triggers
+ * (supabase/migrations/019_users.sql): read identity here, change it
+ * through Supabase auth.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+
+export const userIdentitySelect = {
+  id: true,
+  clinicId: true,
+  role: true,
+  status: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  phone: true,
+  locale: true,
+  lastSignInAt: true,
+} satisfies Prisma.UserSelect
+
+export type UserIdentity = Prisma.UserGetPayload<{ select: typeof userIdentitySelect }>
+
+/**
+ * Display name for a user, falling back to the email's local part
+ */
+export function formatUserName(
+  user: Pick<UserIdentity, 'firstName' | 'lastName' | 'email'> | null | undefined,
+  fallback: string
+): string {
+  const name = [user?.firstName, user?.lastName].filter(Boolean).join(' ')
+  return name || user?.email?.split('@')[0] || fallback
+}
+
+/**
+ * Match users by name, email or phone (case-insensitive)
+ */
+export function userSearchFilter(term: string): Prisma.UserWhereInput {
+  return {
+    OR: [
+      { firstName: { contains: term, mode: 'insensitive' } },
+      { lastName: { contains: term, mode: 'insensitive' } },
+      { email: { contains: term, mode: 'insensitive' } },
+      { phone: { contains: term } },
+    ],
+  }
+}
+
+/**
+ * A user's identity, or null if they have none yet
+ */
+export async function getUserIdentity(userId: string): Promise<UserIdentity | null> {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: userIdentitySelect,
+  })
+}
@@ -6,11 +6,28 @@
  */
 
 import { z } from 'zod'
+import { isSelectableAIModel } from '@/lib/ai/models'
+import { soapEvidenceSchema } from '@/lib/ai/soap-schema'
+import { CODE_SYSTEMS, normalizeCode, type CodeSystem } from '@/lib/coding/catalog'
 
 // ============================================================================
 // Appointment Schemas
 // ============================================================================
 
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+    interval: z.number().int().min(1).max(12).default(1),
+    byWeekday: z.array(z.enum(['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'])).max(7).optional(),
+    count: z.number().int().min(1).max(104).optional(), // Max 104 occurrences (two years weekly)
+    until: z.string().datetime({ message: 'Invalid datetime format' }).optional(),
+  })
+  .refine((rule) => rule.count !== undefined || rule.until !== undefined, {
+    message: 'Recurrence requires either count or until',
+  })
+
+export const seriesScopeSchema = z.enum(['this', 'following', 'all'])
+
 export const createAppointmentSchema = z.object({
   doctorId: z.string().min(1, 'Doctor ID is required'),
   patientId: z.string().min(1, 'Patient ID is required'),
@@ -22,6 +39,8 @@ export const createAppointmentSchema = z.object({
   notes: z.string().max(10000).optional(), // Max 10000 characters
   meetingUrl: z.string().url().optional().or(z.literal('')),
   meetingId: z.string().max(255).optional(),
+  recurrence: recurrenceSchema.optional(), // Creates a recurring series when present
+  intakeFormId: z.string().min(1).optional(), // Pre-visit intake form to attach
 })
 
 export const updateAppointmentSchema = z.object({
@@ -33,6 +52,54 @@ export const updateAppointmentSchema = z.object({
   notes: z.string().max(10000).optional(),
   meetingUrl: z.string().url().optional().or(z.literal('')),
   meetingId: z.string().max(255).optional(),
+  intakeFormId: z.string().min(1).nullable().optional(), // null detaches the form
+  scope: seriesScopeSchema.default('this'), // For recurring series occurrences
+})
+
+export const listAppointmentsQuerySchema = z.object({
+  doctorId: z.string().min(1).optional(),
+  patientId: z.string().min(1).optional(),
+  status: z.array(z.enum(['SCHEDULED', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW', 'RESCHEDULED'])).optional(),
+  visitType: z.array(z.enum(['VIDEO', 'PHONE', 'IN_PERSON', 'CHAT'])).optional(),
+  startDate: z.string().datetime({ message: 'Invalid datetime format' }).optional(),
+  endDate: z.string().datetime({ message: 'Invalid datetime format' }).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  order: z.enum(['asc', 'desc']).default('asc'),
+})
+
+export const slotQuerySchema = z.object({
+  from: z.string().datetime({ message: 'Invalid datetime format' }),
+  to: z.string().datetime({ message: 'Invalid datetime format' }),
+  duration: z.coerce.number().int().min(5).max(480).optional(),
+})
+
+// ============================================================================
+// Waitlist Schemas
+// ============================================================================
+
+export const createWaitlistEntrySchema = z
+  .object({
+    doctorId: z.string().min(1, 'Doctor ID is required'),
+    patientId: z.string().min(1).optional(), // Staff only; patients join for themselves
+    earliestAt: z.string().datetime({ message: 'Invalid datetime format' }),
+    latestAt: z.string().datetime({ message: 'Invalid datetime format' }),
+    visitTypes: z.array(z.enum(['VIDEO', 'PHONE', 'IN_PERSON', 'CHAT'])).max(4).default([]),
+    duration: z.number().int().min(5).max(480).optional(),
+    reason: z.string().max(5000).optional(),
+    priority: z.number().int().min(-100).max(100).optional(), // Staff only
+  })
+  .refine((entry) => new Date(entry.latestAt) > new Date(entry.earliestAt), {
+    message: 'latestAt must be after earliestAt',
+    path: ['latestAt'],
+  })
+
+export const updateWaitlistEntrySchema = z.object({
+  priority: z.number().int().min(-100).max(100),
+})
+
+export const waitlistOfferResponseSchema = z.object({
+  action: z.enum(['accept', 'decline']),
 })
 
 // ============================================================================
@@ -71,9 +138,63 @@ export const intakeResponseSchema = z.object({
 export const messageSchema = z.object({
   threadId: z.string().min(1, 'Thread ID is required'),
   content: z.string().min(1, 'Message content is required').max(10000, 'Message too long (max 10000 characters)'),
-  attachments: z.array(z.string()).optional().default([]), // Array of file record IDs
+  attachments: z.array(z.string()).max(10, 'Too many attachments (max 10)').optional().default([]), // Array of file record IDs
+})
+
+export const sendThreadMessageSchema = messageSchema.omit({ threadId: true })
+
+const messageCategorySchema = z.enum(['GENERAL', 'CLINICAL', 'REFILL', 'BILLING', 'SCHEDULING'])
+const inboxStatusSchema = z.enum(['OPEN', 'WAITING_ON_PATIENT', 'RESOLVED'])
+
+export const createMessageThreadSchema = sendThreadMessageSchema.extend({
+  doctorId: z.string().min(1).optional(), // Patients: omit to write to the care team
+  patientId: z.string().min(1).optional(), // Required for the care team
+  subject: z.string().max(200, 'Subject too long (max 200 characters)').optional(),
+  category: messageCategorySchema.optional(),
+})
+
+export const listMessageThreadsQuerySchema = z.object({
+  archived: z.enum(['true', 'false']).optional(),
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const listThreadMessagesQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export const markThreadReadSchema = z.object({
+  upTo: z.string().datetime({ message: 'Invalid datetime format' }).optional(), // Defaults to now
+})
+
+export const listInboxQuerySchema = z.object({
+  view: z.enum(['mine', 'pool', 'all', 'escalated']).default('mine'),
+  category: messageCategorySchema.optional(),
+  status: inboxStatusSchema.optional(), // Defaults to everything not resolved
+  limit: z.coerce.number().int().min(1).max(100).optional(),
 })
 
+export const updateInboxThreadSchema = z
+  .object({
+    category: messageCategorySchema.optional(),
+    inboxStatus: inboxStatusSchema.optional(),
+    routedToPool: z.boolean().optional(),
+    assigneeId: z.string().min(1).nullable().optional(), // null unassigns
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No changes provided',
+  })
+
+export const updateCareTeamMemberSchema = z
+  .object({
+    active: z.boolean().optional(),
+    displayName: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine((data) => data.active !== undefined || data.displayName !== undefined, {
+    message: 'No changes provided',
+  })
+
 // ============================================================================
 // File Upload Schema
 // ============================================================================
@@ -136,6 +257,10 @@ export const aiSoapInputSchema = z.object({
   consultationId: z.string().optional(),
 })
 
+export const aiSettingsSchema = z.object({
+  aiModel: z.string().refine(isSelectableAIModel, 'Unsupported AI model'),
+})
+
 // ============================================================================
 // Consultation Update Schema
 // ============================================================================
@@ -148,15 +273,268 @@ export const consultationUpdateSchema = z.object({
   recordingUrl: z.string().url({ message: 'Invalid URL format' }).optional().or(z.literal('')),
 })
 
+// ============================================================================
+// Visit Note Schemas
+// ============================================================================
+
+const soapSectionSchema = z.enum(['chiefComplaint', 'subjective', 'objective', 'assessment', 'plan'])
+const noteTextSchema = z.string().max(50000, 'Section too long (max 50000 characters)')
+
+// Codes must be shaped like ICD-10-CM / CPT codes and are stored in canonical form.
+// The bundled catalogue (lib/coding) is partial, so codes outside it are kept;
+// the code picker flags them.
+const noteCodesSchema = (system: CodeSystem, label: string) =>
+  z
+    .array(z.string().trim().min(1).max(20))
+    .max(50, 'Too many codes (max 50)')
+    .superRefine((codes, ctx) => {
+      const malformed = codes.filter((code) => !normalizeCode(code, system))
+      if (malformed.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid ${label} code: ${malformed.join(', ')}` })
+      }
+    })
+    .transform((codes) => Array.from(new Set(codes.map((code) => normalizeCode(code, system) as string))))
+
+const visitNoteContentSchema = z.object({
+  chiefComplaint: noteTextSchema.optional(),
+  subjective: noteTextSchema.optional(),
+  objective: noteTextSchema.optional(),
+  assessment: noteTextSchema.optional(),
+  plan: noteTextSchema.optional(),
+  diagnosis: noteCodesSchema('ICD10', 'ICD-10-CM').optional(),
+  procedures: noteCodesSchema('CPT', 'CPT').optional(),
+  followUpDate: z.string().datetime({ message: 'Invalid datetime format' }).nullable().optional(),
+})
+
+export const createVisitNoteSchema = visitNoteContentSchema.extend({
+  consultationId: z.string().min(1, 'Consultation ID is required'),
+  aiModel: z.string().max(100).optional(), // Set when the initial content is an AI draft
+  aiEvidence: soapEvidenceSchema.optional(), // Statements and transcript spans behind the AI draft
+})
+
+export const updateVisitNoteSchema = visitNoteContentSchema
+  .extend({
+    updatedAt: z.string().datetime({ message: 'Invalid datetime format' }).optional(), // Last version the client saw
+  })
+  .refine((data) => Object.entries(data).some(([key, value]) => key !== 'updatedAt' && value !== undefined), {
+    message: 'No changes provided',
+  })
+
+export const createVisitNoteAddendumSchema = z
+  .object({
+    kind: z.enum(['ADDENDUM', 'AMENDMENT']).default('ADDENDUM'),
+    section: soapSectionSchema.optional(), // Required for amendments
+    content: z.string().trim().min(1, 'Content is required').max(50000, 'Content too long (max 50000 characters)'),
+    reason: z.string().trim().max(1000).optional(), // Required for amendments
+  })
+  .refine((data) => data.kind === 'ADDENDUM' || (data.section && data.reason), {
+    message: 'Amendments require a section and a reason',
+  })
+
+export const visitNoteRevisionParamsSchema = z.object({
+  revision: z.coerce.number().int().min(1, 'Invalid revision'),
+})
+
+export const visitNoteRevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(), // Defaults to the AI draft (else revision 1)
+  to: z.coerce.number().int().min(1).optional(), // Defaults to the latest revision
+})
+
+// ============================================================================
+// Code Catalogue Schemas
+// ============================================================================
+
+export const codeLookupQuerySchema = z
+  .object({
+    q: z.string().trim().max(100).optional(), // Code prefix or words
+    codes: z.string().max(1000).optional(), // Comma-separated codes to look up
+    system: z.enum(CODE_SYSTEMS).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+  })
+  .refine((data) => data.q || data.codes, { message: 'Provide q or codes' })
+
+export const codeSuggestionSchema = z.object({
+  text: z.string().trim().min(1, 'Text is required').max(100000), // Assessment and plan
+  system: z.enum(CODE_SYSTEMS).optional(),
+  limit: z.number().int().min(1).max(50).default(10),
+})
+
+// ============================================================================
+// Patient Directory Schemas
+// ============================================================================
+
+export const listPatientsQuerySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(), // First and/or last name prefixes
+  dob: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of birth must be YYYY-MM-DD').optional(),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^[\d\s()+.-]{4,20}$/, 'Invalid phone number')
+    .regex(/\d/, 'Phone number must contain digits')
+    .optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+})
+
+// ============================================================================
+// Medication Schemas
+// ============================================================================
+
+const medicationStatusSchema = z.enum(['ACTIVE', 'ON_HOLD', 'DISCONTINUED', 'COMPLETED'])
+const refillRequestStatusSchema = z.enum(['PENDING', 'APPROVED', 'DENIED', 'CANCELLED'])
+const optionalDateSchema = z.string().datetime({ message: 'Invalid datetime format' }).nullable().optional()
+
+const medicationDetailsSchema = z.object({
+  name: z.string().trim().min(1, 'Medication name is required').max(200),
+  dosage: z.string().trim().max(100).optional(),
+  frequency: z.string().trim().max(100).optional(),
+  route: z.string().trim().max(50).optional(),
+  startDate: optionalDateSchema,
+  endDate: optionalDateSchema,
+  instructions: z.string().max(5000).optional(),
+  pharmacy: z.string().trim().max(200).optional(),
+  refills: z.number().int().min(0).max(12).optional(),
+})
+
+export const createMedicationSchema = medicationDetailsSchema.extend({
+  patientId: z.string().min(1, 'Patient ID is required'),
+})
+
+export const updateMedicationSchema = medicationDetailsSchema
+  .partial()
+  .extend({
+    status: medicationStatusSchema.optional(),
+    statusReason: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No changes provided',
+  })
+
+export const listMedicationsQuerySchema = z.object({
+  patientId: z.string().min(1).optional(), // Required for doctors
+  status: medicationStatusSchema.optional(),
+})
+
+export const createRefillRequestSchema = z.object({
+  patientNote: z.string().trim().max(1000).optional(),
+  pharmacy: z.string().trim().max(200).optional(), // Defaults to the medication's pharmacy
+})
+
+export const listRefillRequestsQuerySchema = z.object({
+  status: refillRequestStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const refillDecisionSchema = z
+  .object({
+    decision: z.enum(['APPROVE', 'DENY']),
+    refills: z.number().int().min(1).max(12).optional(), // Refills granted on approval (default 1)
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.decision === 'APPROVE' || !!data.note, {
+    message: 'A reason is required when denying a refill',
+  })
+
+export const medicationReconciliationQuerySchema = z.object({
+  patientId: z.string().min(1, 'Patient ID is required'),
+})
+
+// ============================================================================
+// Lab Schemas
+// ============================================================================
+
+const labOrderStatusSchema = z.enum(['PENDING', 'ORDERED', 'IN_PROGRESS', 'RESULTS_READY', 'COMPLETED', 'CANCELLED'])
+
+export const createLabOrderSchema = z.object({
+  patientId: z.string().min(1, 'Patient ID is required'),
+  tests: z.array(z.string().trim().min(1).max(200)).min(1, 'At least one test is required').max(50),
+  notes: z.string().max(5000).optional(),
+})
+
+export const listLabOrdersQuerySchema = z.object({
+  patientId: z.string().min(1).optional(),
+  status: labOrderStatusSchema.optional(),
+  unread: z.enum(['true', 'false']).optional(), // Doctor: not yet reviewed; patient: released but not viewed
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+export const updateLabOrderStatusSchema = z
+  .object({
+    status: z.enum(['ORDERED', 'IN_PROGRESS', 'CANCELLED']),
+    reason: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.status !== 'CANCELLED' || !!data.reason, {
+    message: 'A reason is required when cancelling a lab order',
+  })
+
+const labResultInputSchema = z.object({
+  code: z.string().trim().max(50).optional(),
+  name: z.string().trim().min(1, 'Test name is required').max(200),
+  value: z.string().trim().min(1, 'Result value is required').max(500),
+  unit: z.string().trim().max(50).optional(),
+  referenceLow: z.number().optional(),
+  referenceHigh: z.number().optional(),
+  criticalLow: z.number().optional(),
+  criticalHigh: z.number().optional(),
+  referenceText: z.string().trim().max(200).optional(),
+  flag: z.enum(['NORMAL', 'LOW', 'HIGH', 'CRITICAL_LOW', 'CRITICAL_HIGH', 'ABNORMAL']).optional(), // As reported by the lab
+  observedAt: z.string().datetime({ message: 'Invalid datetime format' }).optional(),
+  comment: z.string().max(2000).optional(),
+})
+
+export const ingestLabResultsSchema = z.object({
+  results: z.array(labResultInputSchema).min(1, 'At least one result is required').max(200),
+  resultsUrl: z.string().url().max(2000).optional(),
+})
+
+export const reviewLabOrderSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+  release: z.boolean().optional(), // Also release the results to the patient
+})
+
+// ============================================================================
+// MFA Schemas
+// ============================================================================
+
+// 6-digit authenticator code or a recovery code (XXXX-XXXX)
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Verification code is required').max(20),
+})
+
+export const mfaChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required').max(128),
+})
+
+export const verifyMfaChallengeSchema = mfaChallengeSchema.merge(mfaCodeSchema)
+
 // ============================================================================
 // Type Exports (for TypeScript inference)
 // ============================================================================
 
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>
 export type CreateAppointmentInput = z.infer<typeof createAppointmentSchema>
 export type UpdateAppointmentInput = z.infer<typeof updateAppointmentSchema>
+export type ListAppointmentsQueryInput = z.infer<typeof listAppointmentsQuerySchema>
+export type SlotQueryInput = z.infer<typeof slotQuerySchema>
+export type CreateWaitlistEntryInput = z.infer<typeof createWaitlistEntrySchema>
 export type IntakeResponseInput = z.infer<typeof intakeResponseSchema>
 export type MessageInput = z.infer<typeof messageSchema>
+export type CreateMessageThreadInput = z.infer<typeof createMessageThreadSchema>
 export type FileUploadInput = z.infer<typeof fileUploadSchema>
 export type AiSoapInput = z.infer<typeof aiSoapInputSchema>
+export type AiSettingsInput = z.infer<typeof aiSettingsSchema>
 export type ConsultationUpdateInput = z.infer<typeof consultationUpdateSchema>
-
+export type CreateVisitNoteInput = z.infer<typeof createVisitNoteSchema>
+export type UpdateVisitNoteInput = z.infer<typeof updateVisitNoteSchema>
+export type CreateVisitNoteAddendumInput = z.infer<typeof createVisitNoteAddendumSchema>
+export type CodeLookupQueryInput = z.infer<typeof codeLookupQuerySchema>
+export type CodeSuggestionInput = z.infer<typeof codeSuggestionSchema>
+export type ListPatientsQueryInput = z.infer<typeof listPatientsQuerySchema>
+export type CreateMedicationInput = z.infer<typeof createMedicationSchema>
+export type UpdateMedicationInput = z.infer<typeof updateMedicationSchema>
+export type RefillDecisionInput = z.infer<typeof refillDecisionSchema>
+export type CreateLabOrderInput = z.infer<typeof createLabOrderSchema>
+export type LabResultInput = z.infer<typeof labResultInputSchema>
+export type IngestLabResultsInput = z.infer<typeof ingestLabResultsSchema>
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>
+export type VerifyMfaChallengeInput = z.infer<typeof verifyMfaChallengeSchema>
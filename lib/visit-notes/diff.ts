@@ -0,0 +1,129 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff used to compare visit note revisions. Common leading and
+ * trailing words are trimmed first, then the changed middle is aligned
+ * with an LCS table. Very large rewrites (middle too big for the table)
+ * are reported as one deletion plus one insertion.
+ */
+
+export interface DiffHunk {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[]
+  insertedWords: number
+  deletedWords: number
+  unchangedWords: number
+}
+
+// Upper bound on LCS table cells (~16 MB as Uint32)
+const MAX_TABLE_CELLS = 4_000_000
+
+// Words and whitespace runs, so hunks join back into the original text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? []
+}
+
+const isWord = (token: string) => /\S/.test(token)
+
+function pushHunk(hunks: DiffHunk[], type: DiffHunk['type'], tokens: string[]): void {
+  if (tokens.length === 0) return
+  const text = tokens.join('')
+  const last = hunks[hunks.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    hunks.push({ type, text })
+  }
+}
+
+function diffMiddle(before: string[], after: string[], hunks: DiffHunk[]): void {
+  const rows = before.length
+  const cols = after.length
+
+  if (rows === 0 || cols === 0 || (rows + 1) * (cols + 1) > MAX_TABLE_CELLS) {
+    pushHunk(hunks, 'delete', before)
+    pushHunk(hunks, 'insert', after)
+    return
+  }
+
+  // lcs[i][j] = LCS length of before[i..] and after[j..]
+  const width = cols + 1
+  const lcs = new Uint32Array((rows + 1) * width)
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      pushHunk(hunks, 'equal', [before[i]])
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushHunk(hunks, 'delete', [before[i]])
+      i++
+    } else {
+      pushHunk(hunks, 'insert', [after[j]])
+      j++
+    }
+  }
+  pushHunk(hunks, 'delete', before.slice(i))
+  pushHunk(hunks, 'insert', after.slice(j))
+}
+
+/**
+ * Diff two texts word by word
+ */
+export function diffText(before: string | null | undefined, after: string | null | undefined): TextDiff {
+  const a = tokenize(before ?? '')
+  const b = tokenize(after ?? '')
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const hunks: DiffHunk[] = []
+  pushHunk(hunks, 'equal', a.slice(0, prefix))
+  diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), hunks)
+  pushHunk(hunks, 'equal', a.slice(a.length - suffix))
+
+  const count = (type: DiffHunk['type']) =>
+    hunks.filter((hunk) => hunk.type === type).reduce((total, hunk) => total + tokenize(hunk.text).filter(isWord).length, 0)
+
+  return {
+    hunks,
+    insertedWords: count('insert'),
+    deletedWords: count('delete'),
+    unchangedWords: count('equal'),
+  }
+}
+
+/**
+ * Diff two code lists (order-insensitive)
+ */
+export function diffCodes(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  return {
+    added: after.filter((code) => !beforeSet.has(code)),
+    removed: before.filter((code) => !afterSet.has(code)),
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Visit Note Lifecycle
+ *
+ * Visit notes are created from a consultation and move through:
+ * - DRAFT:   editable (autosave) by the note's doctor
+ * - SIGNED:  signedAt/signedBy set and the content locked; the signed
+ *            text never changes after this point
+ * - AMENDED: signed, with at least one amendment
+ *
+ * Post-signature changes are VisitNoteAddendum rows, which are only ever
+ * inserted: an ADDENDUM appends information (any doctor with access to the
+ * patient), an AMENDMENT corrects one section and requires a reason (the
+ * signing doctor only). The signed text is kept as-is so the original
+ * record can always be reproduced; readers apply amendments on top.
+ *
+ * Autosave uses the note's updatedAt as a version: a save based on an
+ * older version is rejected with 409 instead of overwriting newer edits.
+ * Every save that changes the content bumps VisitNote.revision and stores
+ * the result as a VisitNoteRevision (see ./revisions.ts).
+ *
+ * A note drafted from an AI SOAP note keeps the draft's evidence (which
+ * transcript utterances each statement came from). It is only returned
+ * while the consultation's transcription is the one the offsets refer to.
+ */
+
+import { Prisma, VisitNoteStatus } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import type { AuthUser } from '@/lib/auth/types'
+import { ensureOwnershipOrDoctor, requireDoctorAccessToPatient, type GuardContext } from '@/lib/auth/guards'
+import { soapEvidenceSchema } from '@/lib/ai/soap-schema'
+import { hashTranscript } from '@/lib/ai/transcript-utterances'
+import type {
+  CreateVisitNoteAddendumInput,
+  CreateVisitNoteInput,
+  UpdateVisitNoteInput,
+} from '@/lib/validation/schemas'
+import { contentChanged, getRevision, noteContent, recordRevision } from './revisions'
+
+export const visitNoteAddendumSelect = {
+  id: true,
+  kind: true,
+  section: true,
+  content: true,
+  reason: true,
+  authorId: true,
+  createdAt: true,
+} satisfies Prisma.VisitNoteAddendumSelect
+
+export const visitNoteSelect = {
+  id: true,
+  appointmentId: true,
+  consultationId: true,
+  doctorId: true,
+  patientId: true,
+  clinicId: true,
+  chiefComplaint: true,
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+  diagnosis: true,
+  procedures: true,
+  followUpDate: true,
+  aiGenerated: true,
+  aiModel: true,
+  aiEvidence: true,
+  status: true,
+  signedAt: true,
+  signedBy: true,
+  revision: true,
+  createdAt: true,
+  updatedAt: true,
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  consultation: {
+    select: { transcription: true },
+  },
+  addenda: {
+    select: visitNoteAddendumSelect,
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.VisitNoteSelect
+
+export type VisitNoteDetail = Prisma.VisitNoteGetPayload<{ select: typeof visitNoteSelect }>
+
+// What a revision snapshots
+const savedContentSelect = {
+  id: true,
+  clinicId: true,
+  revision: true,
+  chiefComplaint: true,
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+  diagnosis: true,
+  procedures: true,
+  followUpDate: true,
+} satisfies Prisma.VisitNoteSelect
+
+/**
+ * AI evidence with the transcript it points into, if it still applies
+ */
+function noteEvidence(note: VisitNoteDetail) {
+  const transcript = note.consultation?.transcription
+  const parsed = soapEvidenceSchema.safeParse(note.aiEvidence)
+  if (!transcript || !parsed.success || parsed.data.transcriptHash !== hashTranscript(transcript)) {
+    return null
+  }
+
+  return {
+    transcript,
+    sections: parsed.data.sections,
+    failedSections: parsed.data.failedSections,
+  }
+}
+
+/**
+ * Shape returned by the visit note routes (adds the patient's display name
+ * and the AI draft's transcript evidence)
+ */
+export function toVisitNoteResponse(note: VisitNoteDetail) {
+  const { aiEvidence: _aiEvidence, consultation: _consultation, ...rest } = note
+  return {
+    ...rest,
+    patientName: `${note.patient.firstName} ${note.patient.lastName}`.trim(),
+    evidence: noteEvidence(note),
+  }
+}
+
+function visitNoteError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+export function isVisitNoteLocked(note: { status: VisitNoteStatus }): boolean {
+  return note.status !== VisitNoteStatus.DRAFT
+}
+
+async function requireDoctorProfile(user: AuthUser): Promise<{ id: string }> {
+  const doctor = await prisma.doctor.findUnique({
+    where: { userId: user.id },
+    select: { id: true, clinicId: true },
+  })
+
+  if (!doctor || doctor.clinicId !== user.clinicId) {
+    throw visitNoteError('Doctor profile not found', 404)
+  }
+  return doctor
+}
+
+/**
+ * Load a note the user may see: doctors with access to the patient, or
+ * nurses and staff of the patient's clinic once it is signed
+ */
+export async function getVisitNote(
+  user: AuthUser,
+  noteId: string,
+  context?: GuardContext
+): Promise<VisitNoteDetail> {
+  const note = await prisma.visitNote.findUnique({
+    where: { id: noteId },
+    select: visitNoteSelect,
+  })
+
+  if (!note || note.clinicId !== user.clinicId) {
+    throw visitNoteError('Visit note not found', 404)
+  }
+
+  if (user.role === 'nurse' || user.role === 'staff') {
+    // Drafts stay with the doctor
+    if (note.status === VisitNoteStatus.DRAFT) {
+      throw visitNoteError('Visit note not found', 404)
+    }
+    await ensureOwnershipOrDoctor(user, note.patientId, context)
+    return note
+  }
+
+  await requireDoctorAccessToPatient(user, note.patientId, context)
+  return note
+}
+
+/**
+ * Load a note and require that the user is its doctor
+ */
+async function getOwnVisitNote(
+  user: AuthUser,
+  noteId: string,
+  context?: GuardContext
+): Promise<VisitNoteDetail> {
+  const [note, doctor] = await Promise.all([getVisitNote(user, noteId, context), requireDoctorProfile(user)])
+
+  if (note.doctorId !== doctor.id) {
+    throw visitNoteError('Only the doctor who owns this visit note can change it', 403)
+  }
+  return note
+}
+
+/**
+ * Merge a partial update into the note's current content
+ */
+function mergeContent(note: VisitNoteDetail, input: Omit<UpdateVisitNoteInput, 'updatedAt'>) {
+  const current = noteContent(note)
+  return {
+    chiefComplaint: input.chiefComplaint ?? current.chiefComplaint,
+    subjective: input.subjective ?? current.subjective,
+    objective: input.objective ?? current.objective,
+    assessment: input.assessment ?? current.assessment,
+    plan: input.plan ?? current.plan,
+    diagnosis: input.diagnosis ?? current.diagnosis,
+    procedures: input.procedures ?? current.procedures,
+    followUpDate:
+      input.followUpDate === undefined
+        ? current.followUpDate
+        : input.followUpDate
+          ? new Date(input.followUpDate)
+          : null,
+  }
+}
+
+/**
+ * Create the draft note for a consultation
+ *
+ * Idempotent per consultation: if a note already exists it is returned
+ * with created = false.
+ */
+export async function createVisitNoteFromConsultation(
+  user: AuthUser,
+  input: CreateVisitNoteInput,
+  context?: GuardContext
+): Promise<{ note: VisitNoteDetail; created: boolean }> {
+  const doctor = await requireDoctorProfile(user)
+
+  const consultation = await prisma.consultation.findUnique({
+    where: { id: input.consultationId },
+    select: {
+      id: true,
+      clinicId: true,
+      doctorId: true,
+      patientId: true,
+      appointmentId: true,
+      status: true,
+      visitNote: { select: { id: true } },
+      appointment: { select: { reason: true, visitNote: { select: { id: true } } } },
+    },
+  })
+
+  if (!consultation || consultation.clinicId !== user.clinicId) {
+    throw visitNoteError('Consultation not found', 404)
+  }
+  if (consultation.doctorId !== doctor.id) {
+    throw visitNoteError('Only the consulting doctor can write the visit note', 403)
+  }
+
+  const existingId = consultation.visitNote?.id ?? consultation.appointment.visitNote?.id
+  if (existingId) {
+    return { note: await getVisitNote(user, existingId, context), created: false }
+  }
+  if (consultation.status === 'CANCELLED') {
+    throw visitNoteError('Cannot write a visit note for a cancelled consultation', 409)
+  }
+
+  const { consultationId, aiModel, aiEvidence, ...content } = input
+
+  try {
+    const note = await prisma.$transaction(async (tx) => {
+      const created = await tx.visitNote.create({
+        data: {
+          ...content,
+          chiefComplaint: content.chiefComplaint ?? consultation.appointment.reason,
+          followUpDate: content.followUpDate ? new Date(content.followUpDate) : null,
+          appointmentId: consultation.appointmentId,
+          consultationId,
+          doctorId: doctor.id,
+          patientId: consultation.patientId,
+          clinicId: consultation.clinicId,
+          aiGenerated: !!aiModel,
+          aiModel: aiModel ?? null,
+          aiEvidence: aiModel && aiEvidence ? aiEvidence : Prisma.JsonNull,
+        },
+        select: savedContentSelect,
+      })
+      await recordRevision(tx, created, { authorId: user.id, aiGenerated: !!aiModel, aiModel })
+      return created
+    })
+    return { note: await getVisitNote(user, note.id, context), created: true }
+  } catch (error) {
+    // Lost a race with a concurrent create for the same consultation
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.visitNote.findUnique({
+        where: { appointmentId: consultation.appointmentId },
+        select: { id: true },
+      })
+      if (existing) {
+        return { note: await getVisitNote(user, existing.id, context), created: false }
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Autosave a draft
+ */
+export async function updateVisitNoteDraft(
+  user: AuthUser,
+  noteId: string,
+  input: UpdateVisitNoteInput,
+  context?: GuardContext
+): Promise<VisitNoteDetail> {
+  const note = await getOwnVisitNote(user, noteId, context)
+
+  if (isVisitNoteLocked(note)) {
+    throw visitNoteError('Visit note is signed and locked; add an addendum instead', 409)
+  }
+
+  const { updatedAt, ...content } = input
+  const next = mergeContent(note, content)
+
+  // Saving unchanged content is a no-op (no new revision)
+  if (!contentChanged(note, next)) {
+    return note
+  }
+
+  await saveDraftRevision(note, { ...next, ...(updatedAt && { updatedAt: new Date(updatedAt) }) }, { authorId: user.id })
+
+  return getVisitNote(user, note.id, context)
+}
+
+/**
+ * Apply content to a draft and record it as the next revision
+ *
+ * Conditional on the draft state and the revision (plus updatedAt when
+ * given) so a concurrent sign or save wins and this one gets a 409.
+ */
+async function saveDraftRevision(
+  note: Pick<VisitNoteDetail, 'id' | 'revision'>,
+  update: Prisma.VisitNoteUpdateManyMutationInput & { updatedAt?: Date },
+  source: Parameters<typeof recordRevision>[2]
+): Promise<void> {
+  const { updatedAt, ...data } = update
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.visitNote.updateMany({
+      where: {
+        id: note.id,
+        status: VisitNoteStatus.DRAFT,
+        revision: note.revision,
+        ...(updatedAt && { updatedAt }),
+      },
+      data: { ...data, revision: { increment: 1 } },
+    })
+
+    if (count === 0) {
+      const current = await tx.visitNote.findUnique({ where: { id: note.id }, select: { status: true } })
+      if (current && isVisitNoteLocked(current)) {
+        throw visitNoteError('Visit note is signed and locked; add an addendum instead', 409)
+      }
+      throw visitNoteError('Visit note was changed by another save; reload to get the latest version', 409)
+    }
+
+    const saved = await tx.visitNote.findUniqueOrThrow({ where: { id: note.id }, select: savedContentSelect })
+    await recordRevision(tx, saved, source)
+  })
+}
+
+/**
+ * Restore a draft to an earlier revision
+ *
+ * Recorded as a new revision (restoredFromRevision set) that keeps the
+ * source revision's AI flag, so later revisions stay immutable.
+ */
+export async function restoreVisitNoteRevision(
+  user: AuthUser,
+  noteId: string,
+  revision: number,
+  context?: GuardContext
+): Promise<VisitNoteDetail> {
+  const note = await getOwnVisitNote(user, noteId, context)
+
+  if (isVisitNoteLocked(note)) {
+    throw visitNoteError('Signed visit notes cannot be restored; add an amendment instead', 409)
+  }
+
+  const source = await getRevision(note.id, revision)
+  if (!contentChanged(note, source)) {
+    return note
+  }
+
+  await saveDraftRevision(note, noteContent(source), {
+    authorId: user.id,
+    aiGenerated: source.aiGenerated,
+    aiModel: source.aiModel,
+    restoredFromRevision: source.revision,
+  })
+
+  return getVisitNote(user, note.id, context)
+}
+
+/**
+ * Sign a draft, locking its content
+ */
+export async function signVisitNote(
+  user: AuthUser,
+  noteId: string,
+  context?: GuardContext
+): Promise<VisitNoteDetail> {
+  const note = await getOwnVisitNote(user, noteId, context)
+
+  if (isVisitNoteLocked(note)) {
+    throw visitNoteError('Visit note is already signed', 409)
+  }
+  if (![note.subjective, note.objective, note.assessment, note.plan].some((section) => section?.trim())) {
+    throw visitNoteError('Cannot sign an empty visit note', 422)
+  }
+
+  const { count } = await prisma.visitNote.updateMany({
+    where: { id: note.id, status: VisitNoteStatus.DRAFT },
+    data: { status: VisitNoteStatus.SIGNED, signedAt: new Date(), signedBy: user.id },
+  })
+
+  if (count === 0) {
+    throw visitNoteError('Visit note is already signed', 409)
+  }
+
+  return getVisitNote(user, note.id, context)
+}
+
+/**
+ * Append an addendum or amendment to a signed note
+ */
+export async function addVisitNoteAddendum(
+  user: AuthUser,
+  noteId: string,
+  input: Omit<CreateVisitNoteAddendumInput, 'kind'> & { kind?: CreateVisitNoteAddendumInput['kind'] },
+  context?: GuardContext
+): Promise<VisitNoteDetail['addenda'][number]> {
+  const kind = input.kind ?? 'ADDENDUM'
+  const isAmendment = kind === 'AMENDMENT'
+  const note = isAmendment ? await getOwnVisitNote(user, noteId, context) : await getVisitNote(user, noteId, context)
+
+  if (!isVisitNoteLocked(note)) {
+    throw visitNoteError('Visit note is still a draft; edit it directly', 409)
+  }
+
+  const [addendum] = await prisma.$transaction([
+    prisma.visitNoteAddendum.create({
+      data: {
+        visitNoteId: note.id,
+        clinicId: note.clinicId,
+        kind,
+        section: isAmendment ? input.section : null,
+        content: input.content,
+        reason: input.reason || null,
+        authorId: user.id,
+      },
+      select: visitNoteAddendumSelect,
+    }),
+    ...(isAmendment && note.status !== VisitNoteStatus.AMENDED
+      ? [prisma.visitNote.update({ where: { id: note.id }, data: { status: VisitNoteStatus.AMENDED } })]
+      : []),
+  ])
+
+  return addendum
+}
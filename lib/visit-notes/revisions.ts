@@ -0,0 +1,221 @@
+/**
+ * Visit Note Revisions
+ *
+ * Every save of a visit note's content is kept as an immutable
+ * VisitNoteRevision (numbered from 1, the initial draft), recording who
+ * saved it and whether the content was AI-generated. Revisions can be
+ * compared section by section; comparing the AI draft with the signed
+ * revision shows how much the clinician edited the AI output.
+ *
+ * Revisions are written by the lifecycle (lib/visit-notes/lifecycle.ts)
+ * in the same transaction as the note update; restore lives there too.
+ * Callers check access to the note before using these helpers.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/db/prisma'
+import { diffCodes, diffText, type DiffHunk } from './diff'
+
+export const NOTE_TEXT_SECTIONS = ['chiefComplaint', 'subjective', 'objective', 'assessment', 'plan'] as const
+
+export type NoteTextSection = (typeof NOTE_TEXT_SECTIONS)[number]
+
+export const revisionSummarySelect = {
+  revision: true,
+  aiGenerated: true,
+  aiModel: true,
+  authorId: true,
+  restoredFromRevision: true,
+  createdAt: true,
+} satisfies Prisma.VisitNoteRevisionSelect
+
+export const revisionContentSelect = {
+  ...revisionSummarySelect,
+  chiefComplaint: true,
+  subjective: true,
+  objective: true,
+  assessment: true,
+  plan: true,
+  diagnosis: true,
+  procedures: true,
+  followUpDate: true,
+} satisfies Prisma.VisitNoteRevisionSelect
+
+export type RevisionSummary = Prisma.VisitNoteRevisionGetPayload<{ select: typeof revisionSummarySelect }>
+export type RevisionContent = Prisma.VisitNoteRevisionGetPayload<{ select: typeof revisionContentSelect }>
+
+type NoteContent = Pick<RevisionContent, NoteTextSection | 'diagnosis' | 'procedures' | 'followUpDate'>
+
+export interface SectionDiff {
+  section: NoteTextSection
+  changed: boolean
+  hunks: DiffHunk[]
+  insertedWords: number
+  deletedWords: number
+}
+
+export interface RevisionDiff {
+  from: RevisionSummary
+  to: RevisionSummary
+  sections: SectionDiff[]
+  diagnosis: { added: string[]; removed: string[] }
+  procedures: { added: string[]; removed: string[] }
+  followUpDate: { before: Date | null; after: Date | null; changed: boolean }
+  summary: {
+    changedSections: number
+    insertedWords: number
+    deletedWords: number
+    editRatio: number // 0 = identical, 1 = completely rewritten
+  }
+}
+
+function revisionError(message: string, statusCode: number): Error & { statusCode?: number } {
+  const error: Error & { statusCode?: number } = new Error(message)
+  error.statusCode = statusCode
+  return error
+}
+
+export function noteContent(note: NoteContent): NoteContent {
+  return {
+    chiefComplaint: note.chiefComplaint,
+    subjective: note.subjective,
+    objective: note.objective,
+    assessment: note.assessment,
+    plan: note.plan,
+    diagnosis: note.diagnosis,
+    procedures: note.procedures,
+    followUpDate: note.followUpDate,
+  }
+}
+
+/**
+ * Whether two contents differ in any saved field
+ */
+export function contentChanged(before: NoteContent, after: NoteContent): boolean {
+  return (
+    NOTE_TEXT_SECTIONS.some((section) => (before[section] ?? '') !== (after[section] ?? '')) ||
+    before.diagnosis.join('\n') !== after.diagnosis.join('\n') ||
+    before.procedures.join('\n') !== after.procedures.join('\n') ||
+    (before.followUpDate?.getTime() ?? null) !== (after.followUpDate?.getTime() ?? null)
+  )
+}
+
+/**
+ * Store a note's current content as revision `note.revision`
+ */
+export async function recordRevision(
+  client: Prisma.TransactionClient,
+  note: NoteContent & { id: string; clinicId: string; revision: number },
+  source: { authorId: string; aiGenerated?: boolean; aiModel?: string | null; restoredFromRevision?: number }
+): Promise<void> {
+  await client.visitNoteRevision.create({
+    data: {
+      ...noteContent(note),
+      visitNoteId: note.id,
+      clinicId: note.clinicId,
+      revision: note.revision,
+      authorId: source.authorId,
+      aiGenerated: source.aiGenerated ?? false,
+      aiModel: source.aiModel ?? null,
+      restoredFromRevision: source.restoredFromRevision ?? null,
+    },
+  })
+}
+
+/**
+ * List a note's revisions, newest first
+ */
+export async function listRevisions(noteId: string): Promise<RevisionSummary[]> {
+  return prisma.visitNoteRevision.findMany({
+    where: { visitNoteId: noteId },
+    select: revisionSummarySelect,
+    orderBy: { revision: 'desc' },
+  })
+}
+
+export async function getRevision(noteId: string, revision: number): Promise<RevisionContent> {
+  const found = await prisma.visitNoteRevision.findUnique({
+    where: { visitNoteId_revision: { visitNoteId: noteId, revision } },
+    select: revisionContentSelect,
+  })
+
+  if (!found) {
+    throw revisionError(`Revision ${revision} not found`, 404)
+  }
+  return found
+}
+
+/**
+ * Compare two revisions section by section
+ *
+ * Defaults: `from` is the first AI-generated revision (else revision 1)
+ * and `to` is the latest, i.e. "what did the clinician change".
+ */
+export async function diffRevisions(
+  noteId: string,
+  options: { from?: number; to?: number } = {}
+): Promise<RevisionDiff> {
+  const [firstAi, latest] = await Promise.all([
+    options.from === undefined
+      ? prisma.visitNoteRevision.findFirst({
+          where: { visitNoteId: noteId, aiGenerated: true },
+          select: { revision: true },
+          orderBy: { revision: 'asc' },
+        })
+      : null,
+    options.to === undefined
+      ? prisma.visitNoteRevision.findFirst({
+          where: { visitNoteId: noteId },
+          select: { revision: true },
+          orderBy: { revision: 'desc' },
+        })
+      : null,
+  ])
+
+  const [from, to] = await Promise.all([
+    getRevision(noteId, options.from ?? firstAi?.revision ?? 1),
+    getRevision(noteId, options.to ?? latest?.revision ?? 1),
+  ])
+
+  const diffs = NOTE_TEXT_SECTIONS.map((section) => ({ section, diff: diffText(from[section], to[section]) }))
+  const sections = diffs.map(({ section, diff }): SectionDiff => ({
+    section,
+    changed: (from[section] ?? '') !== (to[section] ?? ''),
+    hunks: diff.hunks,
+    insertedWords: diff.insertedWords,
+    deletedWords: diff.deletedWords,
+  }))
+
+  const unchangedWords = diffs.reduce((total, { diff }) => total + diff.unchangedWords, 0)
+  const insertedWords = sections.reduce((total, section) => total + section.insertedWords, 0)
+  const deletedWords = sections.reduce((total, section) => total + section.deletedWords, 0)
+  const editedWords = insertedWords + deletedWords
+
+  const pick = ({ revision, aiGenerated, aiModel, authorId, restoredFromRevision, createdAt }: RevisionContent) => ({
+    revision,
+    aiGenerated,
+    aiModel,
+    authorId,
+    restoredFromRevision,
+    createdAt,
+  })
+
+  return {
+    from: pick(from),
+    to: pick(to),
+    sections,
+    diagnosis: diffCodes(from.diagnosis, to.diagnosis),
+    procedures: diffCodes(from.procedures, to.procedures),
+    followUpDate: {
+      before: from.followUpDate,
+      after: to.followUpDate,
+      changed: (from.followUpDate?.getTime() ?? null) !== (to.followUpDate?.getTime() ?? null),
+    },
+    summary: {
+      changedSections: sections.filter((section) => section.changed).length,
+      insertedWords,
+      deletedWords,
+      editRatio: editedWords === 0 ? 0 : Number((editedWords / (editedWords + 2 * unchangedWords)).toFixed(3)),
+    },
+  }
+}
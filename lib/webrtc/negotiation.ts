@@ -0,0 +1,140 @@
+/**
+ * Perfect Negotiation
+ *
+ * Drives offer/answer exchange for a peer connection over a signaling
+ * channel using the "perfect negotiation" pattern, so either side may
+ * renegotiate (track changes, screen share) or restart ICE at any time
+ * and offer glare is resolved deterministically:
+ * - the impolite peer ignores colliding offers
+ * - the polite peer rolls back its own offer and answers
+ *
+ * Remote messages are processed strictly in order through a queue.
+ */
+
+import type { SignalingChannel } from './signaling'
+
+export interface PerfectNegotiationOptions {
+  polite: boolean
+  restartIceOnFailure?: boolean // Default: true
+  onError?: (error: unknown) => void
+}
+
+export interface PerfectNegotiation {
+  restartIce: () => void
+  close: () => void
+}
+
+/**
+ * Decide politeness from user IDs so both peers agree without coordination
+ * (the user with the smaller ID is impolite, matching the old initiator rule)
+ */
+export function isPolitePeer(localUserId: string, remoteUserId: string): boolean {
+  return localUserId > remoteUserId
+}
+
+/**
+ * Attach perfect negotiation to a peer connection
+ *
+ * Call before adding tracks so the first negotiationneeded is handled.
+ */
+export function createPerfectNegotiation(
+  peerConnection: RTCPeerConnection,
+  signaling: SignalingChannel,
+  options: PerfectNegotiationOptions
+): PerfectNegotiation {
+  const { polite, restartIceOnFailure = true } = options
+  const onError = options.onError || ((error: unknown) => console.error('Negotiation error:', error))
+
+  let makingOffer = false
+  let ignoreOffer = false
+  let isSettingRemoteAnswerPending = false
+  let closed = false
+
+  // Serialise handling of remote messages in arrival order
+  let queue: Promise<void> = Promise.resolve()
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(onError)
+  }
+
+  const sendLocalDescription = async () => {
+    if (peerConnection.localDescription) {
+      await signaling.sendDescription(peerConnection.localDescription.toJSON())
+    }
+  }
+
+  const handleNegotiationNeeded = async () => {
+    try {
+      makingOffer = true
+      await peerConnection.setLocalDescription()
+      await sendLocalDescription()
+    } catch (error) {
+      onError(error)
+    } finally {
+      makingOffer = false
+    }
+  }
+
+  const handleIceCandidate = ({ candidate }: RTCPeerConnectionIceEvent) => {
+    signaling.sendIceCandidate(candidate ? candidate.toJSON() : null).catch(onError)
+  }
+
+  const handleIceConnectionStateChange = () => {
+    if (restartIceOnFailure && peerConnection.iceConnectionState === 'failed') {
+      peerConnection.restartIce()
+    }
+  }
+
+  // Listeners rather than on* properties so existing handlers are kept
+  peerConnection.addEventListener('negotiationneeded', handleNegotiationNeeded)
+  peerConnection.addEventListener('icecandidate', handleIceCandidate)
+  peerConnection.addEventListener('iceconnectionstatechange', handleIceConnectionStateChange)
+
+  const unsubscribeDescription = signaling.onRemoteDescription((description) =>
+    enqueue(async () => {
+      if (closed) return
+
+      const readyForOffer =
+        !makingOffer &&
+        (peerConnection.signalingState === 'stable' || isSettingRemoteAnswerPending)
+      const offerCollision = description.type === 'offer' && !readyForOffer
+
+      ignoreOffer = !polite && offerCollision
+      if (ignoreOffer) return
+
+      // Implicit rollback handles the polite side of a collision
+      isSettingRemoteAnswerPending = description.type === 'answer'
+      await peerConnection.setRemoteDescription(description)
+      isSettingRemoteAnswerPending = false
+
+      if (description.type === 'offer') {
+        await peerConnection.setLocalDescription()
+        await sendLocalDescription()
+      }
+    })
+  )
+
+  const unsubscribeCandidate = signaling.onIceCandidate((candidate) =>
+    enqueue(async () => {
+      if (closed) return
+
+      try {
+        await peerConnection.addIceCandidate(candidate ?? undefined)
+      } catch (error) {
+        // Candidates for an offer we ignored are expected to fail
+        if (!ignoreOffer) throw error
+      }
+    })
+  )
+
+  return {
+    restartIce: () => peerConnection.restartIce(),
+    close: () => {
+      closed = true
+      unsubscribeDescription()
+      unsubscribeCandidate()
+      peerConnection.removeEventListener('negotiationneeded', handleNegotiationNeeded)
+      peerConnection.removeEventListener('icecandidate', handleIceCandidate)
+      peerConnection.removeEventListener('iceconnectionstatechange', handleIceConnectionStateChange)
+    },
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Signaling Backends
+ *
+ * Transports for createSignalingChannel:
+ * - Firestore: messages appended to webrtc_signaling/{channelId}/messages
+ * - In-memory: shared object for tests and same-process peers
+ * - WebSocket: relays through a simple JSON WebSocket server
+ */
+
+import { getFirestoreClient } from '@/lib/firestore/client'
+import {
+  collection,
+  doc,
+  setDoc,
+  onSnapshot,
+  query,
+  where,
+  getDocs,
+  writeBatch,
+  serverTimestamp,
+} from 'firebase/firestore'
+import type { SignalingBackend, SignalingMessage } from './signaling'
+
+// Firestore batches are limited to 500 writes
+const FIRESTORE_BATCH_LIMIT = 500
+
+function compareMessages(a: SignalingMessage, b: SignalingMessage): number {
+  return a.epoch - b.epoch || a.seq - b.seq
+}
+
+/**
+ * Firestore backend
+ *
+ * Each message is its own document, keyed by sender/epoch/seq so that
+ * retried writes are idempotent and nothing is overwritten.
+ */
+export function createFirestoreSignalingBackend(): SignalingBackend {
+  const firestore = getFirestoreClient()
+  const messagesRef = (channelId: string) =>
+    collection(firestore, 'webrtc_signaling', channelId, 'messages')
+
+  return {
+    send: async (channelId, message) => {
+      const messageId = `${message.from}-${message.epoch}-${String(message.seq).padStart(6, '0')}`
+      await setDoc(doc(messagesRef(channelId), messageId), {
+        ...message,
+        timestamp: serverTimestamp(),
+      })
+    },
+
+    subscribe: (channelId, recipientId, onMessage) => {
+      const recipientQuery = query(messagesRef(channelId), where('to', '==', recipientId))
+      return onSnapshot(recipientQuery, (snapshot) => {
+        snapshot
+          .docChanges()
+          .filter((change) => change.type === 'added')
+          .map((change) => change.doc.data() as SignalingMessage)
+          .sort(compareMessages)
+          .forEach(onMessage)
+      })
+    },
+
+    clear: async (channelId, senderId) => {
+      const snapshot = await getDocs(query(messagesRef(channelId), where('from', '==', senderId)))
+      for (let i = 0; i < snapshot.docs.length; i += FIRESTORE_BATCH_LIMIT) {
+        const batch = writeBatch(firestore)
+        snapshot.docs.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((d) => batch.delete(d.ref))
+        await batch.commit()
+      }
+    },
+  }
+}
+
+/**
+ * In-memory backend
+ *
+ * Both peers must share the same instance. Delivery is asynchronous
+ * (microtask) to mirror real transports.
+ */
+export function createMemorySignalingBackend(): SignalingBackend {
+  const log = new Map<string, SignalingMessage[]>()
+  const subscribers = new Map<string, Set<{ recipientId: string; onMessage: (message: SignalingMessage) => void }>>()
+
+  return {
+    send: async (channelId, message) => {
+      const stored = { ...message, timestamp: new Date() }
+      log.set(channelId, [...(log.get(channelId) || []), stored])
+
+      subscribers.get(channelId)?.forEach((subscriber) => {
+        if (subscriber.recipientId === message.to) {
+          queueMicrotask(() => subscriber.onMessage(stored))
+        }
+      })
+    },
+
+    subscribe: (channelId, recipientId, onMessage) => {
+      const subscriber = { recipientId, onMessage }
+      if (!subscribers.has(channelId)) {
+        subscribers.set(channelId, new Set())
+      }
+      subscribers.get(channelId)!.add(subscriber)
+
+      const existing = (log.get(channelId) || []).filter((m) => m.to === recipientId)
+      queueMicrotask(() => existing.forEach(onMessage))
+
+      return () => {
+        subscribers.get(channelId)?.delete(subscriber)
+      }
+    },
+
+    clear: async (channelId, senderId) => {
+      log.set(channelId, (log.get(channelId) || []).filter((m) => m.from !== senderId))
+    },
+  }
+}
+
+export interface WebSocketSignalingOptions {
+  WebSocket?: typeof WebSocket // Override for environments without a global WebSocket
+}
+
+/**
+ * WebSocket backend
+ *
+ * Protocol (JSON frames):
+ * - client → server: { action: 'send', channelId, message }
+ *                    { action: 'subscribe' | 'unsubscribe', channelId, recipientId }
+ *                    { action: 'clear', channelId, senderId }
+ * - server → client: { channelId, message }
+ *
+ * The server is expected to replay stored messages on subscribe.
+ * Frames sent before the socket opens are queued.
+ */
+export function createWebSocketSignalingBackend(
+  url: string,
+  options: WebSocketSignalingOptions = {}
+): SignalingBackend {
+  const WebSocketImpl = options.WebSocket || WebSocket
+  const subscribers = new Map<string, Set<{ recipientId: string; onMessage: (message: SignalingMessage) => void }>>()
+  const queued: string[] = []
+  let socket: WebSocket | null = null
+
+  const connect = (): WebSocket => {
+    if (socket && socket.readyState !== WebSocketImpl.CLOSED && socket.readyState !== WebSocketImpl.CLOSING) {
+      return socket
+    }
+
+    const ws = new WebSocketImpl(url)
+    ws.onopen = () => {
+      // Re-establish subscriptions after a reconnect, then flush queued frames
+      subscribers.forEach((set, channelId) => {
+        set.forEach(({ recipientId }) => {
+          ws.send(JSON.stringify({ action: 'subscribe', channelId, recipientId }))
+        })
+      })
+      queued.splice(0).forEach((frame) => ws.send(frame))
+    }
+    ws.onmessage = (event) => {
+      try {
+        const { channelId, message } = JSON.parse(String(event.data)) as {
+          channelId: string
+          message: SignalingMessage
+        }
+        subscribers.get(channelId)?.forEach((subscriber) => {
+          if (subscriber.recipientId === message.to) {
+            subscriber.onMessage(message)
+          }
+        })
+      } catch (error) {
+        console.error('Invalid signaling frame:', error)
+      }
+    }
+    ws.onerror = (error) => {
+      console.error('Signaling socket error:', error)
+    }
+
+    socket = ws
+    return ws
+  }
+
+  const sendFrame = (frame: Record<string, unknown>) => {
+    const ws = connect()
+    const data = JSON.stringify(frame)
+    if (ws.readyState === WebSocketImpl.OPEN) {
+      ws.send(data)
+    } else {
+      queued.push(data)
+    }
+  }
+
+  return {
+    send: async (channelId, message) => {
+      sendFrame({ action: 'send', channelId, message: { ...message, timestamp: Date.now() } })
+    },
+
+    subscribe: (channelId, recipientId, onMessage) => {
+      const subscriber = { recipientId, onMessage }
+      if (!subscribers.has(channelId)) {
+        subscribers.set(channelId, new Set())
+      }
+      subscribers.get(channelId)!.add(subscriber)
+
+      const ws = connect()
+      if (ws.readyState === WebSocketImpl.OPEN) {
+        ws.send(JSON.stringify({ action: 'subscribe', channelId, recipientId }))
+      }
+      // Otherwise onopen subscribes
+
+      return () => {
+        subscribers.get(channelId)?.delete(subscriber)
+        sendFrame({ action: 'unsubscribe', channelId, recipientId })
+      }
+    },
+
+    clear: async (channelId, senderId) => {
+      sendFrame({ action: 'clear', channelId, senderId })
+    },
+  }
+}
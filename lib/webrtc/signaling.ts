@@ -1,128 +1,189 @@
-// TODO: WebRTC signaling using Firestore
-// TODO: Exchange SDP offers/answers via Firestore
-// TODO: Exchange ICE candidates via Firestore
-// TODO: Handle signaling state changes
-// TODO: Cleanup signaling documents on disconnect
+/**
+ * WebRTC Signaling
+ *
+ * Ordered, append-only signaling channel between two peers.
+ * Every message carries a per-sender sequence number, so trickle ICE
+ * candidates, renegotiation offers and ICE restarts are delivered in
+ * the order they were sent regardless of how the backend delivers them.
+ *
+ * The transport is pluggable: Firestore in production, in-memory or a
+ * local WebSocket server in tests (see signaling-backends.ts).
+ */
 
-import { getFirestoreClient } from '@/lib/firestore/client'
-import { collection, doc, setDoc, onSnapshot, deleteDoc, serverTimestamp } from 'firebase/firestore'
+import { createFirestoreSignalingBackend } from './signaling-backends'
+
+export type SignalingMessageType = 'offer' | 'answer' | 'ice-candidate' | 'hangup'
 
 export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'hangup'
+  type: SignalingMessageType
   sdp?: RTCSessionDescriptionInit
-  candidate?: RTCIceCandidateInit
+  candidate?: RTCIceCandidateInit | null // null = end of candidates
   from: string
   to: string
+  epoch: number // Identifies one sender channel instance (resets on reload)
+  seq: number // Monotonic per sender epoch, starting at 1
   timestamp: any
 }
 
-// TODO: Create signaling channel in Firestore
-export function createSignalingChannel(
-  sessionId: string,
-  localUserId: string,
-  remoteUserId: string
-): {
+/**
+ * Transport used by a signaling channel
+ *
+ * Backends only need at-least-once delivery; the channel reorders
+ * and de-duplicates using epoch/seq.
+ */
+export interface SignalingBackend {
+  send: (channelId: string, message: SignalingMessage) => Promise<void>
+  subscribe: (
+    channelId: string,
+    recipientId: string,
+    onMessage: (message: SignalingMessage) => void
+  ) => () => void
+  clear: (channelId: string, senderId: string) => Promise<void>
+}
+
+export interface SignalingChannelOptions {
+  backend?: SignalingBackend
+}
+
+export interface SignalingChannel {
   sendOffer: (offer: RTCSessionDescriptionInit) => Promise<void>
   sendAnswer: (answer: RTCSessionDescriptionInit) => Promise<void>
-  sendIceCandidate: (candidate: RTCIceCandidateInit) => Promise<void>
+  sendDescription: (description: RTCSessionDescriptionInit) => Promise<void>
+  sendIceCandidate: (candidate: RTCIceCandidateInit | null) => Promise<void>
+  sendHangup: () => Promise<void>
   onRemoteOffer: (callback: (offer: RTCSessionDescriptionInit) => void) => () => void
   onRemoteAnswer: (callback: (answer: RTCSessionDescriptionInit) => void) => () => void
-  onIceCandidate: (callback: (candidate: RTCIceCandidateInit) => void) => () => void
+  onRemoteDescription: (callback: (description: RTCSessionDescriptionInit) => void) => () => void
+  onIceCandidate: (callback: (candidate: RTCIceCandidateInit | null) => void) => () => void
+  onHangup: (callback: () => void) => () => void
   cleanup: () => Promise<void>
-} {
-  const firestore = getFirestoreClient()
-  const signalingRef = collection(firestore, 'webrtc_signaling')
+}
+
+type Listener = (message: SignalingMessage) => void
+
+/**
+ * Create a signaling channel for one side of a session
+ */
+export function createSignalingChannel(
+  sessionId: string,
+  localUserId: string,
+  remoteUserId: string,
+  options: SignalingChannelOptions = {}
+): SignalingChannel {
+  const backend = options.backend || createFirestoreSignalingBackend()
   const channelId = `session-${sessionId}`
-  
-  const localChannelRef = doc(signalingRef, `${channelId}-${localUserId}`)
-  const remoteChannelRef = doc(signalingRef, `${channelId}-${remoteUserId}`)
-
-  // Send offer
-  const sendOffer = async (offer: RTCSessionDescriptionInit) => {
-    const message: SignalingMessage = {
-      type: 'offer',
-      sdp: offer,
-      from: localUserId,
-      to: remoteUserId,
-      timestamp: serverTimestamp(),
-    }
-    await setDoc(localChannelRef, message, { merge: true })
-  }
 
-  // Send answer
-  const sendAnswer = async (answer: RTCSessionDescriptionInit) => {
-    const message: SignalingMessage = {
-      type: 'answer',
-      sdp: answer,
-      from: localUserId,
-      to: remoteUserId,
-      timestamp: serverTimestamp(),
-    }
-    await setDoc(localChannelRef, message, { merge: true })
-  }
+  // Outgoing sequencing
+  const epoch = Date.now()
+  let seq = 0
 
-  // Send ICE candidate
-  const sendIceCandidate = async (candidate: RTCIceCandidateInit) => {
-    const message: SignalingMessage = {
-      type: 'ice-candidate',
-      candidate,
+  // Incoming ordering state for the remote peer's latest epoch
+  let remoteEpoch = 0
+  let nextRemoteSeq = 1
+  const outOfOrder = new Map<number, SignalingMessage>()
+  let delivered: SignalingMessage[] = []
+  const listeners = new Set<Listener>()
+
+  const send = async (message: Omit<SignalingMessage, 'from' | 'to' | 'epoch' | 'seq' | 'timestamp'>) => {
+    seq += 1
+    await backend.send(channelId, {
+      ...message,
       from: localUserId,
       to: remoteUserId,
-      timestamp: serverTimestamp(),
-    }
-    await setDoc(localChannelRef, message, { merge: true })
+      epoch,
+      seq,
+      timestamp: null, // Set by the backend
+    })
   }
 
-  // Listen for remote offer
-  const onRemoteOffer = (callback: (offer: RTCSessionDescriptionInit) => void) => {
-    const unsubscribe = onSnapshot(remoteChannelRef, (snapshot) => {
-      const data = snapshot.data() as SignalingMessage | undefined
-      if (data?.type === 'offer' && data.sdp && data.to === localUserId) {
-        callback(data.sdp)
+  const dispatch = (message: SignalingMessage) => {
+    delivered.push(message)
+    listeners.forEach((listener) => {
+      try {
+        listener(message)
+      } catch (error) {
+        console.error('Signaling listener error:', error)
       }
     })
-    return unsubscribe
   }
 
-  // Listen for remote answer
-  const onRemoteAnswer = (callback: (answer: RTCSessionDescriptionInit) => void) => {
-    const unsubscribe = onSnapshot(remoteChannelRef, (snapshot) => {
-      const data = snapshot.data() as SignalingMessage | undefined
-      if (data?.type === 'answer' && data.sdp && data.to === localUserId) {
-        callback(data.sdp)
-      }
-    })
-    return unsubscribe
+  const receive = (message: SignalingMessage) => {
+    if (message.from !== remoteUserId || message.to !== localUserId) return
+    if (message.epoch < remoteEpoch) return // Stale message from a previous page load
+
+    if (message.epoch > remoteEpoch) {
+      remoteEpoch = message.epoch
+      nextRemoteSeq = 1
+      outOfOrder.clear()
+      delivered = []
+    }
+
+    if (message.seq < nextRemoteSeq) return // Duplicate delivery
+
+    outOfOrder.set(message.seq, message)
+    while (outOfOrder.has(nextRemoteSeq)) {
+      const next = outOfOrder.get(nextRemoteSeq)!
+      outOfOrder.delete(nextRemoteSeq)
+      nextRemoteSeq += 1
+      dispatch(next)
+    }
   }
 
-  // Listen for ICE candidates
-  const onIceCandidate = (callback: (candidate: RTCIceCandidateInit) => void) => {
-    const unsubscribe = onSnapshot(remoteChannelRef, (snapshot) => {
-      const data = snapshot.data() as SignalingMessage | undefined
-      if (data?.type === 'ice-candidate' && data.candidate && data.to === localUserId) {
-        callback(data.candidate)
-      }
-    })
-    return unsubscribe
+  const unsubscribeBackend = backend.subscribe(channelId, localUserId, receive)
+
+  // Late listeners receive everything already delivered in this epoch,
+  // matching snapshot-listener semantics
+  const listen = (listener: Listener) => {
+    delivered.forEach(listener)
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
   }
 
-  // Cleanup signaling documents
+  const sendDescription = (description: RTCSessionDescriptionInit) =>
+    send({ type: description.type === 'offer' ? 'offer' : 'answer', sdp: description })
+
   const cleanup = async () => {
+    unsubscribeBackend()
+    listeners.clear()
     try {
-      await deleteDoc(localChannelRef)
+      await backend.clear(channelId, localUserId)
     } catch (error) {
       console.error('Error cleaning up signaling:', error)
     }
   }
 
   return {
-    sendOffer,
-    sendAnswer,
-    sendIceCandidate,
-    onRemoteOffer,
-    onRemoteAnswer,
-    onIceCandidate,
+    sendOffer: (offer) => send({ type: 'offer', sdp: offer }),
+    sendAnswer: (answer) => send({ type: 'answer', sdp: answer }),
+    sendDescription,
+    sendIceCandidate: (candidate) => send({ type: 'ice-candidate', candidate }),
+    sendHangup: () => send({ type: 'hangup' }),
+    onRemoteOffer: (callback) =>
+      listen((message) => {
+        if (message.type === 'offer' && message.sdp) callback(message.sdp)
+      }),
+    onRemoteAnswer: (callback) =>
+      listen((message) => {
+        if (message.type === 'answer' && message.sdp) callback(message.sdp)
+      }),
+    onRemoteDescription: (callback) =>
+      listen((message) => {
+        if ((message.type === 'offer' || message.type === 'answer') && message.sdp) {
+          callback(message.sdp)
+        }
+      }),
+    onIceCandidate: (callback) =>
+      listen((message) => {
+        if (message.type === 'ice-candidate' && message.candidate !== undefined) {
+          callback(message.candidate)
+        }
+      }),
+    onHangup: (callback) =>
+      listen((message) => {
+        if (message.type === 'hangup') callback()
+      }),
     cleanup,
   }
 }
-
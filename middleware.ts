@@ -9,6 +9,8 @@
  * - Clean JSON errors for API requests
  * - Centralized route-role mapping
  * - Centralized guard for role matching
+ * - Session registry enforcement (revocation, idle and absolute timeouts)
+ * - MFA enforcement for sessions that skipped the login challenge
  */
 
 import { updateSession } from '@/lib/supabase/middleware'
@@ -18,6 +20,13 @@ import { logUnauthorizedAccess, getRequestFromNextRequest } from '@/lib/security
 import { addSecurityHeaders } from '@/lib/security/headers'
 import { v4 as uuidv4 } from 'uuid'
 import type { UserRole } from '@/lib/auth/types'
+import {
+  getSessionEndMessage,
+  getSessionEndReason,
+  getSessionIdFromAccessToken,
+  MFA_REQUIRED_MESSAGE,
+  type SessionEndReason,
+} from '@/lib/auth/session-policy'
 
 // ============================================================================
 // Route-Role Mapping
@@ -28,8 +37,8 @@ import type { UserRole } from '@/lib/auth/types'
  * Maps route patterns to required roles and additional validation rules
  */
 interface RouteRoleConfig {
-  requiredRoles: UserRole[]
-  requiresApproval?: boolean
+  requiredRoles?: UserRole[] // Omitted: any role (API routes check permissions in the handler)
+  requiresApproval?: boolean // Doctors only
   requiresOwnership?: boolean // For routes with ID parameters (e.g., /patient/[id])
   idParam?: string // Name of ID parameter to validate (e.g., 'id', 'patientId')
 }
@@ -59,37 +68,16 @@ const routeRoleMap = new Map<string | RegExp, RouteRoleConfig>([
   [/^\/patient\/summaries\/([^/]+)$/, { requiredRoles: ['patient'], requiresOwnership: true }],
   ['/patient/payments', { requiredRoles: ['patient'], requiresOwnership: true }],
   
-  // API Doctor routes
-  [/^\/api\/doctor\//, { requiredRoles: ['doctor'], requiresApproval: true }],
-  [/^\/api\/billing\/doctor/, { requiredRoles: ['doctor'], requiresApproval: true }],
-  [/^\/api\/appointments\/doctor/, { requiredRoles: ['doctor'], requiresApproval: true }],
-  
-  // API Patient routes
-  [/^\/api\/patient\//, { requiredRoles: ['patient'], requiresOwnership: true }],
-  [/^\/api\/payments\/patient/, { requiredRoles: ['patient'], requiresOwnership: true }],
-  [/^\/api\/appointments\/patient/, { requiredRoles: ['patient'], requiresOwnership: true }],
-  [/^\/api\/visit-notes\/patient/, { requiredRoles: ['patient'], requiresOwnership: true }],
-  
-  // API Protected routes (doctor or patient)
-  ['/api/stt/stream', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/stt\/stream/, { requiredRoles: ['doctor', 'patient'] }],
-  ['/api/video', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/video/, { requiredRoles: ['doctor', 'patient'] }],
-  ['/api/chat', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/chat/, { requiredRoles: ['doctor', 'patient'] }],
-  ['/api/transcribe', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/transcribe/, { requiredRoles: ['doctor', 'patient'] }],
-  ['/api/upload', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/upload/, { requiredRoles: ['doctor', 'patient'] }],
-  ['/api/soap-notes', { requiredRoles: ['doctor'] }],
-  [/^\/api\/soap-notes/, { requiredRoles: ['doctor'] }],
-  ['/api/payments', { requiredRoles: ['doctor', 'patient'] }],
-  [/^\/api\/payments\/(?!patient|methods|setup-intent)/, { requiredRoles: ['doctor', 'patient'] }],
+  // API routes: permissions are checked by withPermission in each handler,
+  // so only doctor approval is enforced here
+  [/^\/api\/doctor\//, { requiresApproval: true }],
+  [/^\/api\/billing\/doctor/, { requiresApproval: true }],
+  [/^\/api\/appointments\/doctor/, { requiresApproval: true }],
+  ['/api/patients', { requiresApproval: true }],
+  [/^\/api\/patients\//, { requiresApproval: true }],
   
   // Admin routes
   [/^\/admin\//, { requiredRoles: ['admin'] }],
-  [/^\/api\/admin\//, { requiredRoles: ['admin'] }],
-  ['/api/auth/approve-doctor', { requiredRoles: ['admin'] }],
 ])
 
 // Role-based route patterns (for quick matching)
@@ -98,6 +86,7 @@ const DOCTOR_ROUTE_PATTERNS = [
   /^\/api\/doctor\//,
   /^\/api\/billing\/doctor/,
   /^\/api\/appointments\/doctor/,
+  /^\/api\/patients(\/|$)/,
 ]
 
 const PATIENT_ROUTE_PATTERNS = [
@@ -108,9 +97,9 @@ const PATIENT_ROUTE_PATTERNS = [
   /^\/api\/visit-notes\/patient/,
 ]
 
+// Admin pages; admin API routes check admin permissions with withPermission
 const ADMIN_ROUTE_PATTERNS = [
   /^\/admin\//,
-  /^\/api\/admin\//,
 ]
 
 // ============================================================================
@@ -124,9 +113,11 @@ const PUBLIC_ROUTES = [
   '/signup',
   '/reset',
   '/api/auth/login',
+  '/api/auth/mfa/challenge', // Second login step, authorized by the challenge token
   '/api/auth/signup',
   '/api/auth/reset',
   '/api/health',
+  '/api/webhooks/stripe', // Verified by Stripe signature
   // Allow debug page in development (for verifying unauth flow)
   ...(process.env.NODE_ENV === 'development' ? ['/admin/debug'] : []),
 ]
@@ -138,11 +129,6 @@ const STATIC_ASSET_PATTERNS = [
   /\.(svg|png|jpg|jpeg|gif|webp|ico|css|js|woff|woff2|ttf|eot)$/,
 ]
 
-// Rate limiting map (in production, use Redis or similar)
-const authAttempts = new Map<string, { count: number; resetAt: number }>()
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
-const MAX_AUTH_ATTEMPTS = 10
-
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -333,7 +319,7 @@ async function checkRoleAccess(
   }
   
   // Check required roles
-  if (!routeConfig.requiredRoles.includes(userRole)) {
+  if (routeConfig.requiredRoles && !routeConfig.requiredRoles.includes(userRole)) {
     return {
       allowed: false,
       reason: `Route requires one of: ${routeConfig.requiredRoles.join(', ')}, but user has role: ${userRole}`,
@@ -342,7 +328,7 @@ async function checkRoleAccess(
   }
   
   // Check approval requirement
-  if (routeConfig.requiresApproval && !roleData.approved) {
+  if (routeConfig.requiresApproval && userRole === 'doctor' && !roleData.approved) {
     return {
       allowed: false,
       reason: 'Doctor account pending approval',
@@ -420,26 +406,6 @@ function detectQueryParamSpoofing(pathname: string, searchParams: URLSearchParam
   }
 }
 
-/**
- * Rate limit check
- */
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now()
-  const record = authAttempts.get(ip)
-
-  if (!record || now > record.resetAt) {
-    authAttempts.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW })
-    return true
-  }
-
-  if (record.count >= MAX_AUTH_ATTEMPTS) {
-    return false
-  }
-
-  record.count++
-  return true
-}
-
 /**
  * Get client IP address
  */
@@ -538,6 +504,61 @@ async function validateSession(supabase: any): Promise<{
   }
 }
 
+/**
+ * Check the session registry for a revoked or timed-out session
+ * Unregistered sessions pass; requireSession registers them on first use.
+ * Rule 3: If the registry can't be read, never crash
+ */
+async function getRegisteredSessionEnd(supabase: any, session: any): Promise<SessionEndReason | null> {
+  try {
+    const sessionId = getSessionIdFromAccessToken(session?.access_token)
+    if (!sessionId || !supabase || typeof supabase.from !== 'function') {
+      return null
+    }
+
+    const { data, error } = await supabase
+      .from('auth_sessions')
+      .select('createdAt, lastActiveAt, revokedAt, revokedReason')
+      .eq('sessionId', sessionId)
+      .maybeSingle()
+
+    if (error || !data) {
+      return null
+    }
+
+    return getSessionEndReason({
+      createdAt: new Date(data.createdAt),
+      lastActiveAt: new Date(data.lastActiveAt),
+      revokedAt: data.revokedAt ? new Date(data.revokedAt) : null,
+      revokedReason: data.revokedReason || null,
+    })
+  } catch (error: any) {
+    return null
+  }
+}
+
+/**
+ * Check whether the session still owes its second factor (MFA enabled or
+ * required by the clinic, and not verified at login)
+ * requireSession and getAuthUser check the same on the server.
+ * Rule 3: If the check can't run, never crash
+ */
+async function isSessionMfaPending(supabase: any, session: any): Promise<boolean> {
+  try {
+    if (!supabase || typeof supabase.rpc !== 'function') {
+      return false
+    }
+
+    const { data, error } = await supabase.rpc('session_mfa_pending', {
+      target_session_id: getSessionIdFromAccessToken(session?.access_token) ?? '',
+    })
+
+    return !error && data === true
+  } catch (error: any) {
+    return false
+  }
+}
+
 /**
  * Get user role from database
  * Rule 3: If session fails to load, treat as unauthenticated, never crash
@@ -748,13 +769,6 @@ export async function middleware(request: NextRequest) {
     return addSecurityHeaders(response)
   }
 
-  // Rate limiting check
-  if (!checkRateLimit(ip)) {
-    logWarn('Rate limit exceeded', { ip, pathname, userAgent }, undefined, requestId)
-    logAudit('RATE_LIMIT_EXCEEDED', 'system', ip, 'system', false, { requestId, pathname })
-    return createErrorResponse(request, 'Too many requests. Please try again later.', 429, requestId)
-  }
-
   // Protected routes - validate authentication
   let supabase: any
   try {
@@ -862,6 +876,48 @@ export async function middleware(request: NextRequest) {
     )
   }
 
+  // Session registry: revoked sessions and idle/absolute timeouts
+  const sessionEnd = await getRegisteredSessionEnd(supabase, session)
+  if (sessionEnd) {
+    logAudit(
+      'SESSION_ENDED',
+      'user',
+      user.id,
+      user.id,
+      false,
+      {
+        requestId,
+        pathname,
+        reason: sessionEnd,
+      }
+    )
+
+    return createErrorResponse(
+      request,
+      getSessionEndMessage(sessionEnd),
+      401,
+      requestId,
+      '/login'
+    )
+  }
+
+  // Second factor: sessions that skipped the MFA challenge (password-only sign-in against Supabase)
+  if (await isSessionMfaPending(supabase, session)) {
+    logAudit(
+      'MFA_REQUIRED',
+      'user',
+      user.id,
+      user.id,
+      false,
+      {
+        requestId,
+        pathname,
+      }
+    )
+
+    return createErrorResponse(request, MFA_REQUIRED_MESSAGE, 401, requestId, '/login')
+  }
+
   // Get user role from database with null-safe error handling
   let roleData: { role: string | null; approved: boolean; clinicId: string | null; doctorId?: string; patientId?: string }
   try {
@@ -132,7 +132,7 @@ async function assignClinicIds(clinicId: string = 'default-clinic') {
 
     let messageThreadsUpdated = 0
     for (const thread of messageThreads) {
-      const threadClinicId = thread.doctor.clinicId || clinicId
+      const threadClinicId = thread.doctor?.clinicId || clinicId
       await prisma.messageThread.update({
         where: { id: thread.id },
         data: { clinicId: threadClinicId },
@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+/**
+ * Check every API route declares its permission
+ *
+ * Each HTTP handler exported from a route under app/api must either be
+ * wrapped in withPermission (lib/auth/with-permission.ts) or be listed in
+ * OPEN_API_ROUTES in lib/auth/permissions.ts. Runs before `dev` and
+ * `build`, and exits non-zero listing undeclared handlers.
+ *
+ * Usage:
+ *   npx tsx scripts/check-route-permissions.ts
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { join, relative, sep } from 'path'
+import { getOpenRouteAccess } from '@/lib/auth/permissions'
+
+const API_DIR = join(process.cwd(), 'app', 'api')
+const HANDLER_PATTERN = /^export\s+(?:async\s+function|const)\s+(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\b(.*)$/gm
+
+function findRouteFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return findRouteFiles(path)
+    return /^route\.(ts|js)$/.test(entry.name) ? [path] : []
+  })
+}
+
+function main() {
+  const undeclared: string[] = []
+  let handlers = 0
+
+  for (const file of findRouteFiles(API_DIR)) {
+    // app/api/labs/[id]/route.ts -> /api/labs/[id]
+    const routePath = '/' + relative(join(process.cwd(), 'app'), file).split(sep).slice(0, -1).join('/')
+    const source = readFileSync(file, 'utf8')
+
+    for (const [, method, rest] of source.matchAll(HANDLER_PATTERN)) {
+      handlers++
+      const wrapped = /^\s*=\s*withPermission\b/.test(rest)
+      if (!wrapped && !getOpenRouteAccess(method, routePath)) {
+        undeclared.push(`${method} ${routePath}`)
+      }
+    }
+  }
+
+  if (undeclared.length > 0) {
+    console.error(`${undeclared.length} API route handler(s) have no declared permission:`)
+    undeclared.forEach((handler) => console.error(`  - ${handler}`))
+    console.error('\nWrap them in withPermission or list them in OPEN_API_ROUTES (lib/auth/permissions.ts).')
+    process.exit(1)
+  }
+
+  console.log(`Route permissions OK (${handlers} handlers)`)
+}
+
+main()
@@ -0,0 +1,43 @@
+#!/usr/bin/env tsx
+/**
+ * Reconcile payments with Stripe
+ *
+ * Flags drift between Stripe and the payments table as payment
+ * discrepancies (see lib/payments/reconciliation.ts). Meant to run daily
+ * from a scheduler; the default window overlaps previous runs so late
+ * webhooks are caught.
+ *
+ * Usage:
+ *   npx tsx scripts/reconcile-payments.ts [days] [clinicId]
+ */
+
+import { prisma } from '@/db/prisma'
+import { reconcilePayments } from '@/lib/payments/reconciliation'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function main() {
+  const days = Number(process.argv[2] || 3)
+  const clinicId = process.argv[3] || undefined
+
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid number of days: ${process.argv[2]}`)
+  }
+
+  const result = await reconcilePayments({
+    since: new Date(Date.now() - days * DAY_MS),
+    clinicId,
+  })
+
+  console.log(
+    `Checked ${result.checkedPayments} payments and ${result.checkedIntents} payment intents: ` +
+      `${result.discrepancies} discrepancies, ${result.resolved} resolved`
+  )
+}
+
+main()
+  .catch((error) => {
+    console.error('Reconciliation failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
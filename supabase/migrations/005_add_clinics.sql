@@ -0,0 +1,189 @@
+-- ============================================================================
+-- Migration: Add Clinics Table
+-- ============================================================================
+--
+-- Promotes clinicId from a free-form string to a first-class tenant record.
+-- Existing clinic identifiers are backfilled from every tenant-scoped table
+-- before the foreign keys are added, so no rows are orphaned.
+--
+-- ============================================================================
+
+-- Create clinic status enum
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'ClinicStatus') then
+        create type "ClinicStatus" as enum ('ACTIVE', 'SUSPENDED', 'ARCHIVED');
+    end if;
+end $$;
+
+-- Create clinics table
+create table if not exists public.clinics (
+    id text not null,
+    name text not null,
+    status "ClinicStatus" not null default 'ACTIVE',
+    timezone text not null default 'America/New_York',
+    phone text,
+    email text,
+    "addressLine1" text,
+    "addressLine2" text,
+    city text,
+    state text,
+    "postalCode" text,
+    country text not null default 'US',
+    "suspendedAt" timestamptz,
+    "suspendedReason" text,
+    "archivedAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id)
+);
+
+create index if not exists clinics_status_idx on public.clinics (status);
+create index if not exists clinics_name_idx on public.clinics (name);
+
+-- Create clinic_settings table (one row per clinic)
+create table if not exists public.clinic_settings (
+    id text not null,
+    "clinicId" text not null,
+    "defaultVisitDuration" integer not null default 30,
+    "specialtiesEnabled" text[] not null default '{}',
+    "aiNoteTemplates" text[] not null default '{}',
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint clinic_settings_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on delete cascade
+);
+
+create unique index if not exists clinic_settings_clinicId_key
+on public.clinic_settings ("clinicId");
+
+-- ============================================================================
+-- Backfill clinics from existing tenant-scoped rows
+-- ============================================================================
+
+insert into public.clinics (id, name)
+select distinct ids."clinicId",
+       initcap(replace(ids."clinicId", '-', ' '))
+from (
+    select "clinicId" from public.doctors
+    union select "clinicId" from public.doctor_availability
+    union select "clinicId" from public.doctor_dashboard_preview
+    union select "clinicId" from public.patients
+    union select "clinicId" from public.appointments
+    union select "clinicId" from public.consultations
+    union select "clinicId" from public.visit_notes
+    union select "clinicId" from public.intake_forms
+    union select "clinicId" from public.medications
+    union select "clinicId" from public.lab_orders
+    union select "clinicId" from public.file_records
+    union select "clinicId" from public.message_threads
+    union select "clinicId" from public.payments
+    union select clinic_id from public.user_roles
+) as ids
+where ids."clinicId" is not null
+on conflict (id) do nothing;
+
+insert into public.clinic_settings (id, "clinicId")
+select 'cs_' || md5(c.id), c.id
+from public.clinics c
+on conflict ("clinicId") do nothing;
+
+-- ============================================================================
+-- Foreign keys from every tenant-scoped table
+-- ============================================================================
+
+do $$
+declare
+    tbl text;
+begin
+    foreach tbl in array array[
+        'doctors',
+        'doctor_availability',
+        'doctor_dashboard_preview',
+        'patients',
+        'appointments',
+        'consultations',
+        'visit_notes',
+        'intake_forms',
+        'medications',
+        'lab_orders',
+        'file_records',
+        'message_threads',
+        'payments'
+    ]
+    loop
+        if not exists (
+            select 1 from information_schema.table_constraints
+            where constraint_name = tbl || '_clinicId_fkey'
+            and table_name = tbl
+        ) then
+            execute format(
+                'alter table public.%I add constraint %I foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict',
+                tbl,
+                tbl || '_clinicId_fkey'
+            );
+        end if;
+    end loop;
+end $$;
+
+-- Create trigger function for updatedAt
+create or replace function public.update_clinics_updated_at()
+returns trigger as $$
+begin
+    new."updatedAt" = now();
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists update_clinics_updated_at on public.clinics;
+create trigger update_clinics_updated_at
+    before update on public.clinics
+    for each row
+    execute function public.update_clinics_updated_at();
+
+drop trigger if exists update_clinic_settings_updated_at on public.clinic_settings;
+create trigger update_clinic_settings_updated_at
+    before update on public.clinic_settings
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.clinics enable row level security;
+alter table public.clinic_settings enable row level security;
+
+-- Policy: Users can read their own clinic, admins can manage it
+create policy "Users can read own clinic" on public.clinics
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = clinics.id
+        )
+    );
+
+create policy "Admins can manage own clinic" on public.clinics
+    for all using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = clinics.id
+            and ur.role = 'admin'
+        )
+    );
+
+create policy "Admins can manage own clinic settings" on public.clinic_settings
+    for all using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = clinic_settings."clinicId"
+            and ur.role = 'admin'
+        )
+    );
+
+-- Grant necessary permissions
+grant select, insert, update, delete on public.clinics to authenticated;
+grant select, insert, update, delete on public.clinic_settings to authenticated;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration: Appointment Slot Engine
+-- ============================================================================
+--
+-- Adds the per-clinic buffer kept free around appointments and a
+-- database-level backstop against double-booking. The application
+-- already serialises bookings per doctor with an advisory lock; the
+-- exclusion constraint catches any write path that bypasses it.
+--
+-- ============================================================================
+
+-- Buffer between appointments (minutes)
+alter table public.clinic_settings
+    add column if not exists "appointmentBufferMinutes" integer not null default 0;
+
+-- Prevent overlapping active appointments for the same doctor
+create extension if not exists btree_gist;
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_constraint where conname = 'appointments_no_doctor_overlap'
+    ) then
+        alter table public.appointments
+            add constraint appointments_no_doctor_overlap
+            exclude using gist (
+                "doctorId" with =,
+                tsrange("scheduledAt", "scheduledAt" + make_interval(mins => duration)) with &&
+            )
+            where (status in ('SCHEDULED', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED'));
+    end if;
+exception
+    -- Existing overlapping rows must be resolved by hand before the
+    -- constraint can be added; the advisory lock still protects new writes
+    when exclusion_violation then
+        raise notice 'appointments_no_doctor_overlap not added: existing overlapping appointments';
+end $$;
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Migration: Recurring Appointment Series
+-- ============================================================================
+--
+-- Adds appointment_series, which stores the recurrence rule and template
+-- for a set of appointments, and links each occurrence via seriesId.
+-- Admin reschedules mark appointments RESCHEDULED while keeping them on
+-- the calendar, so the overlap constraint now covers that status too.
+--
+-- ============================================================================
+
+-- Create recurrence frequency enum
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'RecurrenceFrequency') then
+        create type "RecurrenceFrequency" as enum ('DAILY', 'WEEKLY', 'MONTHLY');
+    end if;
+end $$;
+
+-- Create appointment_series table
+create table if not exists public.appointment_series (
+    id text not null,
+    "clinicId" text not null,
+    "doctorId" text not null,
+    "patientId" text not null,
+    frequency "RecurrenceFrequency" not null,
+    interval integer not null default 1,
+    "byWeekday" "DayOfWeek"[] not null default '{}',
+    count integer,
+    until timestamptz,
+    "startsAt" timestamptz not null,
+    timezone text not null,
+    duration integer not null default 30,
+    "visitType" "VisitType" not null default 'VIDEO',
+    reason text,
+    "cancelledAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint appointment_series_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict,
+    constraint appointment_series_doctorId_fkey
+        foreign key ("doctorId") references public.doctors(id) on delete cascade,
+    constraint appointment_series_patientId_fkey
+        foreign key ("patientId") references public.patients(id) on delete cascade
+);
+
+create index if not exists appointment_series_clinicId_idx on public.appointment_series ("clinicId");
+create index if not exists appointment_series_doctorId_idx on public.appointment_series ("doctorId");
+create index if not exists appointment_series_patientId_idx on public.appointment_series ("patientId");
+
+-- Link appointments to their series
+alter table public.appointments
+    add column if not exists "seriesId" text;
+
+do $$
+begin
+    if not exists (
+        select 1 from information_schema.table_constraints
+        where constraint_name = 'appointments_seriesId_fkey'
+        and table_name = 'appointments'
+    ) then
+        alter table public.appointments
+            add constraint appointments_seriesId_fkey
+            foreign key ("seriesId") references public.appointment_series(id) on update cascade on delete set null;
+    end if;
+end $$;
+
+create index if not exists appointments_seriesId_scheduledAt_idx
+on public.appointments ("seriesId", "scheduledAt");
+
+-- RESCHEDULED appointments still occupy the doctor's time
+alter table public.appointments drop constraint if exists appointments_no_doctor_overlap;
+
+do $$
+begin
+    alter table public.appointments
+        add constraint appointments_no_doctor_overlap
+        exclude using gist (
+            "doctorId" with =,
+            tsrange("scheduledAt", "scheduledAt" + make_interval(mins => duration)) with &&
+        )
+        where (status in ('SCHEDULED', 'CONFIRMED', 'RESCHEDULED', 'IN_PROGRESS', 'COMPLETED'));
+exception
+    when exclusion_violation then
+        raise notice 'appointments_no_doctor_overlap not added: existing overlapping appointments';
+end $$;
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_appointment_series_updated_at on public.appointment_series;
+create trigger update_appointment_series_updated_at
+    before update on public.appointment_series
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.appointment_series enable row level security;
+
+-- Policy: Clinic members can read series, admins and doctors can manage them
+create policy "Clinic members can read appointment series" on public.appointment_series
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = appointment_series."clinicId"
+        )
+    );
+
+create policy "Staff can manage appointment series" on public.appointment_series
+    for all using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = appointment_series."clinicId"
+            and ur.role in ('admin', 'doctor')
+        )
+    );
+
+-- Grant necessary permissions
+grant select, insert, update, delete on public.appointment_series to authenticated;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration: Patient Self-Scheduling
+-- ============================================================================
+--
+-- Adds the clinic-configured booking window and reschedule/cancellation
+-- cutoffs for patients managing their own visits, and lets an intake
+-- form be attached to the appointment it was filled out for.
+--
+-- ============================================================================
+
+-- Self-scheduling policy
+alter table public.clinic_settings
+    add column if not exists "selfSchedulingEnabled" boolean not null default true,
+    add column if not exists "minBookingNoticeHours" integer not null default 2,
+    add column if not exists "maxBookingAdvanceDays" integer not null default 60,
+    add column if not exists "rescheduleCutoffHours" integer not null default 24,
+    add column if not exists "cancellationCutoffHours" integer not null default 24;
+
+-- Pre-visit intake form attached at booking (one appointment per form)
+alter table public.appointments
+    add column if not exists "intakeFormId" text;
+
+create unique index if not exists appointments_intakeFormId_key
+on public.appointments ("intakeFormId");
+
+do $$
+begin
+    if not exists (
+        select 1 from information_schema.table_constraints
+        where constraint_name = 'appointments_intakeFormId_fkey'
+        and table_name = 'appointments'
+    ) then
+        alter table public.appointments
+            add constraint appointments_intakeFormId_fkey
+            foreign key ("intakeFormId") references public.intake_forms(id) on update cascade on delete set null;
+    end if;
+end $$;
@@ -0,0 +1,130 @@
+-- ============================================================================
+-- Migration: Appointment Waitlist
+-- ============================================================================
+--
+-- Adds per-doctor waitlist entries and the expiring offers made to them
+-- when a cancelled appointment frees a slot. Claim tokens are stored
+-- hashed; the raw token only travels in the patient's notification.
+--
+-- ============================================================================
+
+-- Notification type for slot offers
+alter type "NotificationType" add value if not exists 'WAITLIST_OFFER';
+
+-- Create waitlist enums
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'WaitlistStatus') then
+        create type "WaitlistStatus" as enum ('ACTIVE', 'OFFERED', 'BOOKED', 'CANCELLED', 'EXPIRED');
+    end if;
+    if not exists (select 1 from pg_type where typname = 'WaitlistOfferStatus') then
+        create type "WaitlistOfferStatus" as enum ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'UNAVAILABLE');
+    end if;
+end $$;
+
+-- Create waitlist_entries table
+create table if not exists public.waitlist_entries (
+    id text not null,
+    "clinicId" text not null,
+    "doctorId" text not null,
+    "patientId" text not null,
+    "earliestAt" timestamptz not null,
+    "latestAt" timestamptz not null,
+    "visitTypes" "VisitType"[] not null default '{}',
+    duration integer,
+    reason text,
+    priority integer not null default 0,
+    status "WaitlistStatus" not null default 'ACTIVE',
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint waitlist_entries_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict,
+    constraint waitlist_entries_doctorId_fkey
+        foreign key ("doctorId") references public.doctors(id) on delete cascade,
+    constraint waitlist_entries_patientId_fkey
+        foreign key ("patientId") references public.patients(id) on delete cascade
+);
+
+create index if not exists waitlist_entries_clinicId_idx on public.waitlist_entries ("clinicId");
+create index if not exists waitlist_entries_patientId_idx on public.waitlist_entries ("patientId");
+create index if not exists waitlist_entries_doctorId_status_priority_idx
+on public.waitlist_entries ("doctorId", status, priority);
+
+-- Create waitlist_offers table
+create table if not exists public.waitlist_offers (
+    id text not null,
+    "clinicId" text not null,
+    "entryId" text not null,
+    "doctorId" text not null,
+    "scheduledAt" timestamptz not null,
+    duration integer not null,
+    "visitType" "VisitType" not null,
+    "tokenHash" text not null,
+    status "WaitlistOfferStatus" not null default 'PENDING',
+    "expiresAt" timestamptz not null,
+    "respondedAt" timestamptz,
+    "sourceAppointmentId" text,
+    "appointmentId" text,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint waitlist_offers_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict,
+    constraint waitlist_offers_entryId_fkey
+        foreign key ("entryId") references public.waitlist_entries(id) on delete cascade,
+    constraint waitlist_offers_appointmentId_fkey
+        foreign key ("appointmentId") references public.appointments(id) on update cascade on delete set null
+);
+
+create unique index if not exists waitlist_offers_tokenHash_key on public.waitlist_offers ("tokenHash");
+create unique index if not exists waitlist_offers_appointmentId_key on public.waitlist_offers ("appointmentId");
+create index if not exists waitlist_offers_clinicId_idx on public.waitlist_offers ("clinicId");
+create index if not exists waitlist_offers_entryId_idx on public.waitlist_offers ("entryId");
+create index if not exists waitlist_offers_status_expiresAt_idx on public.waitlist_offers (status, "expiresAt");
+create index if not exists waitlist_offers_doctorId_scheduledAt_idx
+on public.waitlist_offers ("doctorId", "scheduledAt");
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_waitlist_entries_updated_at on public.waitlist_entries;
+create trigger update_waitlist_entries_updated_at
+    before update on public.waitlist_entries
+    for each row
+    execute function public.update_clinics_updated_at();
+
+drop trigger if exists update_waitlist_offers_updated_at on public.waitlist_offers;
+create trigger update_waitlist_offers_updated_at
+    before update on public.waitlist_offers
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.waitlist_entries enable row level security;
+alter table public.waitlist_offers enable row level security;
+
+-- Policy: Staff manage the clinic's waitlist; offers are only touched server-side
+create policy "Staff can manage waitlist entries" on public.waitlist_entries
+    for all using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = waitlist_entries."clinicId"
+            and ur.role in ('admin', 'doctor')
+        )
+    );
+
+create policy "Staff can read waitlist offers" on public.waitlist_offers
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = waitlist_offers."clinicId"
+            and ur.role in ('admin', 'doctor')
+        )
+    );
+
+-- Grant necessary permissions
+grant select, insert, update, delete on public.waitlist_entries to authenticated;
+grant select on public.waitlist_offers to authenticated;
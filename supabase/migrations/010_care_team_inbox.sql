@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Migration: Care-Team Inbox
+-- ============================================================================
+--
+-- Opens message threads to the clinic's care team (doctors, nurses, staff
+-- and admins): threads can be addressed to the care team instead of a
+-- doctor, routed to a shared pool, assigned or claimed, categorised, and
+-- tracked against per-category response-time SLAs with escalation.
+--
+-- ============================================================================
+
+-- Allow nurse and staff accounts
+alter table public.user_roles drop constraint if exists user_roles_role_check;
+alter table public.user_roles
+    add constraint user_roles_role_check check (role in ('doctor', 'patient', 'admin', 'nurse', 'staff'));
+
+-- Notification type for overdue replies
+alter type "NotificationType" add value if not exists 'MESSAGE_SLA_BREACHED';
+
+-- Create inbox enums
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'MessageCategory') then
+        create type "MessageCategory" as enum ('GENERAL', 'CLINICAL', 'REFILL', 'BILLING', 'SCHEDULING');
+    end if;
+    if not exists (select 1 from pg_type where typname = 'InboxStatus') then
+        create type "InboxStatus" as enum ('OPEN', 'WAITING_ON_PATIENT', 'RESOLVED');
+    end if;
+end $$;
+
+-- Per-category response-time SLAs (hours)
+alter table public.clinic_settings
+    add column if not exists "messageSlaHours" integer not null default 24,
+    add column if not exists "clinicalMessageSlaHours" integer not null default 4,
+    add column if not exists "refillMessageSlaHours" integer not null default 48,
+    add column if not exists "billingMessageSlaHours" integer not null default 72;
+
+-- Create care_team_members table
+create table if not exists public.care_team_members (
+    id text not null,
+    "clinicId" text not null,
+    "userId" text not null,
+    role "UserRole" not null,
+    "displayName" text not null,
+    active boolean not null default true,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint care_team_members_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create unique index if not exists care_team_members_clinicId_userId_key
+on public.care_team_members ("clinicId", "userId");
+create index if not exists care_team_members_clinicId_active_idx
+on public.care_team_members ("clinicId", active);
+
+-- Threads addressed to the care team have no doctor
+alter table public.message_threads alter column "doctorId" drop not null;
+
+alter table public.message_threads
+    add column if not exists category "MessageCategory" not null default 'GENERAL',
+    add column if not exists "inboxStatus" "InboxStatus" not null default 'OPEN',
+    add column if not exists "routedToPool" boolean not null default false,
+    add column if not exists "assigneeId" text,
+    add column if not exists "assignedAt" timestamptz,
+    add column if not exists "awaitingReplySince" timestamptz,
+    add column if not exists "responseDueAt" timestamptz,
+    add column if not exists "escalationLevel" integer not null default 0,
+    add column if not exists "escalatedAt" timestamptz;
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_constraint where conname = 'message_threads_assigneeId_fkey'
+    ) then
+        alter table public.message_threads
+            add constraint message_threads_assigneeId_fkey
+            foreign key ("assigneeId") references public.care_team_members(id) on update cascade on delete set null;
+    end if;
+end $$;
+
+create index if not exists message_threads_clinicId_inboxStatus_responseDueAt_idx
+on public.message_threads ("clinicId", "inboxStatus", "responseDueAt");
+create index if not exists message_threads_assigneeId_idx on public.message_threads ("assigneeId");
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_care_team_members_updated_at on public.care_team_members;
+create trigger update_care_team_members_updated_at
+    before update on public.care_team_members
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.care_team_members enable row level security;
+
+-- Policy: The care team can see the clinic roster; admins manage it
+create policy "Care team can view roster" on public.care_team_members
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = care_team_members."clinicId"
+            and ur.role in ('admin', 'doctor', 'nurse', 'staff')
+        )
+    );
+
+create policy "Admins can manage roster" on public.care_team_members
+    for all using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = care_team_members."clinicId"
+            and ur.role = 'admin'
+        )
+    );
+
+-- Grant necessary permissions
+grant select, insert, update on public.care_team_members to authenticated;
@@ -0,0 +1,151 @@
+-- ============================================================================
+-- Migration: Stripe Webhooks & Payment Reconciliation
+-- ============================================================================
+--
+-- Records processed Stripe events (idempotent redelivery), mirrors clinic
+-- subscriptions, adds the payment fields the webhook keeps in sync, and
+-- stores drift found by the reconciliation job. All three tables are
+-- written server-side only.
+--
+-- ============================================================================
+
+-- Create enums
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'StripeEventStatus') then
+        create type "StripeEventStatus" as enum ('PROCESSING', 'PROCESSED', 'IGNORED', 'FAILED');
+    end if;
+    if not exists (select 1 from pg_type where typname = 'PaymentDiscrepancyKind') then
+        create type "PaymentDiscrepancyKind" as enum (
+            'STATUS_MISMATCH', 'AMOUNT_MISMATCH', 'REFUND_MISMATCH', 'MISSING_IN_STRIPE', 'MISSING_IN_DATABASE'
+        );
+    end if;
+end $$;
+
+-- Payment fields kept in sync by the webhook
+alter table public.payments
+    add column if not exists "stripeInvoiceId" text,
+    add column if not exists "stripeChargeId" text,
+    add column if not exists "amountRefunded" decimal(10, 2) not null default 0,
+    add column if not exists "refundedAt" timestamptz,
+    add column if not exists "failureReason" text;
+
+create unique index if not exists payments_stripeInvoiceId_key on public.payments ("stripeInvoiceId");
+
+-- Create stripe_events table
+create table if not exists public.stripe_events (
+    id text not null,
+    type text not null,
+    livemode boolean not null default false,
+    status "StripeEventStatus" not null default 'PROCESSING',
+    attempts integer not null default 1,
+    error text,
+    "stripeCreatedAt" timestamptz not null,
+    "processedAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id)
+);
+
+create index if not exists stripe_events_type_idx on public.stripe_events (type);
+create index if not exists stripe_events_status_idx on public.stripe_events (status);
+
+-- Create stripe_subscriptions table
+create table if not exists public.stripe_subscriptions (
+    id text not null,
+    "clinicId" text,
+    "customerId" text not null,
+    status text not null,
+    "priceId" text,
+    "currentPeriodEnd" timestamptz,
+    "cancelAtPeriodEnd" boolean not null default false,
+    "canceledAt" timestamptz,
+    "lastEventAt" timestamptz not null,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint stripe_subscriptions_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete set null
+);
+
+create index if not exists stripe_subscriptions_clinicId_idx on public.stripe_subscriptions ("clinicId");
+create index if not exists stripe_subscriptions_customerId_idx on public.stripe_subscriptions ("customerId");
+
+-- Create payment_discrepancies table
+create table if not exists public.payment_discrepancies (
+    id text not null,
+    key text not null,
+    kind "PaymentDiscrepancyKind" not null,
+    "clinicId" text,
+    "paymentId" text,
+    "stripePaymentId" text,
+    "databaseValue" text,
+    "stripeValue" text,
+    "detectedAt" timestamptz not null default now(),
+    "lastSeenAt" timestamptz not null default now(),
+    "resolvedAt" timestamptz,
+
+    primary key (id),
+    constraint payment_discrepancies_paymentId_fkey
+        foreign key ("paymentId") references public.payments(id) on update cascade on delete set null
+);
+
+create unique index if not exists payment_discrepancies_key_key on public.payment_discrepancies (key);
+create index if not exists payment_discrepancies_clinicId_resolvedAt_idx
+on public.payment_discrepancies ("clinicId", "resolvedAt");
+create index if not exists payment_discrepancies_paymentId_idx on public.payment_discrepancies ("paymentId");
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_stripe_events_updated_at on public.stripe_events;
+create trigger update_stripe_events_updated_at
+    before update on public.stripe_events
+    for each row
+    execute function public.update_clinics_updated_at();
+
+drop trigger if exists update_stripe_subscriptions_updated_at on public.stripe_subscriptions;
+create trigger update_stripe_subscriptions_updated_at
+    before update on public.stripe_subscriptions
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.stripe_events enable row level security;
+alter table public.stripe_subscriptions enable row level security;
+alter table public.payment_discrepancies enable row level security;
+
+-- Policy: Admins can read billing sync state; writes happen server-side
+create policy "Admins can read stripe events" on public.stripe_events
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.role = 'admin'
+        )
+    );
+
+create policy "Admins can read subscriptions" on public.stripe_subscriptions
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = stripe_subscriptions."clinicId"
+            and ur.role = 'admin'
+        )
+    );
+
+create policy "Admins can read payment discrepancies" on public.payment_discrepancies
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = payment_discrepancies."clinicId"
+            and ur.role = 'admin'
+        )
+    );
+
+-- Grant necessary permissions
+grant select on public.stripe_events to authenticated;
+grant select on public.stripe_subscriptions to authenticated;
+grant select on public.payment_discrepancies to authenticated;
@@ -0,0 +1,112 @@
+-- ============================================================================
+-- Migration: Visit Note Lifecycle
+-- ============================================================================
+--
+-- Adds the draft -> signed -> amended lifecycle to visit notes and the
+-- append-only addenda table. The lock is also enforced here so signed
+-- content cannot be changed by anything bypassing the API: signed notes
+-- reject edits to their clinical content, and addenda reject updates.
+--
+-- ============================================================================
+
+-- Create enums
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'VisitNoteStatus') then
+        create type "VisitNoteStatus" as enum ('DRAFT', 'SIGNED', 'AMENDED');
+    end if;
+    if not exists (select 1 from pg_type where typname = 'VisitNoteAddendumKind') then
+        create type "VisitNoteAddendumKind" as enum ('ADDENDUM', 'AMENDMENT');
+    end if;
+end $$;
+
+alter table public.visit_notes
+    add column if not exists status "VisitNoteStatus" not null default 'DRAFT';
+
+-- Notes signed before this migration are locked too
+update public.visit_notes set status = 'SIGNED' where "signedAt" is not null and status = 'DRAFT';
+
+create index if not exists visit_notes_status_idx on public.visit_notes (status);
+
+-- Create visit_note_addenda table
+create table if not exists public.visit_note_addenda (
+    id text not null,
+    "visitNoteId" text not null,
+    "clinicId" text not null,
+    kind "VisitNoteAddendumKind" not null default 'ADDENDUM',
+    section text,
+    content text not null,
+    reason text,
+    "authorId" text not null,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint visit_note_addenda_visitNoteId_fkey
+        foreign key ("visitNoteId") references public.visit_notes(id) on update cascade on delete cascade,
+    constraint visit_note_addenda_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create index if not exists visit_note_addenda_visitNoteId_createdAt_idx
+on public.visit_note_addenda ("visitNoteId", "createdAt");
+create index if not exists visit_note_addenda_clinicId_idx on public.visit_note_addenda ("clinicId");
+
+-- Lock signed content
+create or replace function public.prevent_signed_visit_note_changes()
+returns trigger as $$
+begin
+    if old.status <> 'DRAFT' and (
+        new.status = 'DRAFT'
+        or new."chiefComplaint" is distinct from old."chiefComplaint"
+        or new.subjective is distinct from old.subjective
+        or new.objective is distinct from old.objective
+        or new.assessment is distinct from old.assessment
+        or new.plan is distinct from old.plan
+        or new.diagnosis is distinct from old.diagnosis
+        or new.procedures is distinct from old.procedures
+        or new."followUpDate" is distinct from old."followUpDate"
+        or new."signedAt" is distinct from old."signedAt"
+        or new."signedBy" is distinct from old."signedBy"
+    ) then
+        raise exception 'Visit note % is signed and locked', old.id;
+    end if;
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists lock_signed_visit_notes on public.visit_notes;
+create trigger lock_signed_visit_notes
+    before update on public.visit_notes
+    for each row
+    execute function public.prevent_signed_visit_note_changes();
+
+-- Addenda are append-only
+create or replace function public.prevent_visit_note_addendum_updates()
+returns trigger as $$
+begin
+    raise exception 'Visit note addenda are append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists append_only_visit_note_addenda on public.visit_note_addenda;
+create trigger append_only_visit_note_addenda
+    before update on public.visit_note_addenda
+    for each row
+    execute function public.prevent_visit_note_addendum_updates();
+
+-- Add RLS policy (Row Level Security)
+alter table public.visit_note_addenda enable row level security;
+
+-- Policy: Clinic doctors can read addenda; writes happen server-side
+create policy "Doctors can view visit note addenda" on public.visit_note_addenda
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = visit_note_addenda."clinicId"
+            and ur.role = 'doctor'
+        )
+    );
+
+-- Grant necessary permissions
+grant select on public.visit_note_addenda to authenticated;
@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Migration: Visit Note Revisions
+-- ============================================================================
+--
+-- Stores every save of a visit note as an immutable revision so edits
+-- between the AI draft and the signed note can be diffed, and drafts can
+-- be restored to an earlier revision. Existing notes get their current
+-- content as revision 1.
+--
+-- ============================================================================
+
+alter table public.visit_notes
+    add column if not exists revision integer not null default 1;
+
+-- Create visit_note_revisions table
+create table if not exists public.visit_note_revisions (
+    id text not null,
+    "visitNoteId" text not null,
+    "clinicId" text not null,
+    revision integer not null,
+    "chiefComplaint" text,
+    subjective text,
+    objective text,
+    assessment text,
+    plan text,
+    diagnosis text[] not null default '{}',
+    procedures text[] not null default '{}',
+    "followUpDate" timestamptz,
+    "aiGenerated" boolean not null default false,
+    "aiModel" text,
+    "authorId" text not null,
+    "restoredFromRevision" integer,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint visit_note_revisions_visitNoteId_fkey
+        foreign key ("visitNoteId") references public.visit_notes(id) on update cascade on delete cascade,
+    constraint visit_note_revisions_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create unique index if not exists visit_note_revisions_visitNoteId_revision_key
+on public.visit_note_revisions ("visitNoteId", revision);
+create index if not exists visit_note_revisions_clinicId_idx on public.visit_note_revisions ("clinicId");
+
+-- ============================================================================
+-- Backfill revision 1 from existing notes
+-- ============================================================================
+
+insert into public.visit_note_revisions (
+    id, "visitNoteId", "clinicId", revision,
+    "chiefComplaint", subjective, objective, assessment, plan, diagnosis, procedures, "followUpDate",
+    "aiGenerated", "aiModel", "authorId", "createdAt"
+)
+select
+    'vnr_' || md5(vn.id), vn.id, vn."clinicId", vn.revision,
+    vn."chiefComplaint", vn.subjective, vn.objective, vn.assessment, vn.plan, vn.diagnosis, vn.procedures, vn."followUpDate",
+    vn."aiGenerated", vn."aiModel", coalesce(vn."signedBy", d."userId"), vn."updatedAt"
+from public.visit_notes vn
+join public.doctors d on d.id = vn."doctorId"
+on conflict ("visitNoteId", revision) do nothing;
+
+-- Revisions are immutable
+create or replace function public.prevent_visit_note_revision_updates()
+returns trigger as $$
+begin
+    raise exception 'Visit note revisions are immutable';
+end;
+$$ language plpgsql;
+
+drop trigger if exists immutable_visit_note_revisions on public.visit_note_revisions;
+create trigger immutable_visit_note_revisions
+    before update on public.visit_note_revisions
+    for each row
+    execute function public.prevent_visit_note_revision_updates();
+
+-- Add RLS policy (Row Level Security)
+alter table public.visit_note_revisions enable row level security;
+
+-- Policy: Clinic doctors can read revisions; writes happen server-side
+create policy "Doctors can view visit note revisions" on public.visit_note_revisions
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = visit_note_revisions."clinicId"
+            and ur.role = 'doctor'
+        )
+    );
+
+-- Grant necessary permissions
+grant select on public.visit_note_revisions to authenticated;
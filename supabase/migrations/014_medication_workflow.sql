@@ -0,0 +1,98 @@
+-- ============================================================================
+-- Migration: Medication Workflow
+-- ============================================================================
+--
+-- Adds status tracking to medications and patient refill requests that
+-- doctors approve or deny. Only one request per medication may be pending;
+-- the partial unique index below backs the API's 409 on concurrent
+-- submits.
+--
+-- ============================================================================
+
+-- Create enum
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'RefillRequestStatus') then
+        create type "RefillRequestStatus" as enum ('PENDING', 'APPROVED', 'DENIED', 'CANCELLED');
+    end if;
+end $$;
+
+-- Notification types for the refill workflow
+alter type "NotificationType" add value if not exists 'REFILL_REQUESTED';
+alter type "NotificationType" add value if not exists 'REFILL_REQUEST_DECIDED';
+
+-- Status history on medications
+alter table public.medications
+    add column if not exists "statusChangedAt" timestamptz,
+    add column if not exists "statusReason" text;
+
+-- Create medication_refill_requests table
+create table if not exists public.medication_refill_requests (
+    id text not null,
+    "medicationId" text not null,
+    "patientId" text not null,
+    "clinicId" text not null,
+    status "RefillRequestStatus" not null default 'PENDING',
+    "patientNote" text,
+    pharmacy text,
+    "refillsGranted" integer,
+    "decidedBy" text,
+    "decidedAt" timestamptz,
+    "decisionNote" text,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint medication_refill_requests_medicationId_fkey
+        foreign key ("medicationId") references public.medications(id) on update cascade on delete cascade,
+    constraint medication_refill_requests_patientId_fkey
+        foreign key ("patientId") references public.patients(id) on update cascade on delete cascade,
+    constraint medication_refill_requests_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create index if not exists medication_refill_requests_medicationId_status_idx
+on public.medication_refill_requests ("medicationId", status);
+create index if not exists medication_refill_requests_patientId_idx
+on public.medication_refill_requests ("patientId");
+create index if not exists medication_refill_requests_clinicId_status_idx
+on public.medication_refill_requests ("clinicId", status);
+
+-- One pending request per medication
+create unique index if not exists medication_refill_requests_pending_key
+on public.medication_refill_requests ("medicationId")
+where status = 'PENDING';
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_medication_refill_requests_updated_at on public.medication_refill_requests;
+create trigger update_medication_refill_requests_updated_at
+    before update on public.medication_refill_requests
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+alter table public.medication_refill_requests enable row level security;
+
+-- Policy: Clinic doctors can read requests; writes happen server-side
+create policy "Doctors can view refill requests" on public.medication_refill_requests
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = medication_refill_requests."clinicId"
+            and ur.role = 'doctor'
+        )
+    );
+
+-- Policy: Patients can read their own requests
+create policy "Patients can view own refill requests" on public.medication_refill_requests
+    for select using (
+        exists (
+            select 1 from public.patients p
+            where p.id = medication_refill_requests."patientId"
+            and p."userId" = auth.uid()::text
+        )
+    );
+
+-- Grant necessary permissions
+grant select on public.medication_refill_requests to authenticated;
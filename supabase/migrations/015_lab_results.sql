@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: Lab Orders and Results
+-- ============================================================================
+--
+-- Adds the lab order lifecycle columns (cancellation, doctor review,
+-- release to the patient, patient view) and the structured lab_results
+-- table with reference ranges and abnormal flags.
+--
+-- ============================================================================
+
+-- Create enum
+do $$
+begin
+    if not exists (select 1 from pg_type where typname = 'LabResultFlag') then
+        create type "LabResultFlag" as enum ('NORMAL', 'LOW', 'HIGH', 'CRITICAL_LOW', 'CRITICAL_HIGH', 'ABNORMAL');
+    end if;
+end $$;
+
+-- Notification type for the ordering doctor
+alter type "NotificationType" add value if not exists 'LAB_RESULTS_RECEIVED';
+
+alter table public.lab_orders
+    add column if not exists "statusChangedAt" timestamptz,
+    add column if not exists "cancelReason" text,
+    add column if not exists "reviewedAt" timestamptz,
+    add column if not exists "reviewedBy" text,
+    add column if not exists "reviewNote" text,
+    add column if not exists "releasedAt" timestamptz,
+    add column if not exists "releasedBy" text,
+    add column if not exists "patientViewedAt" timestamptz;
+
+create index if not exists lab_orders_patientId_releasedAt_idx on public.lab_orders ("patientId", "releasedAt");
+
+-- Create lab_results table
+create table if not exists public.lab_results (
+    id text not null,
+    "labOrderId" text not null,
+    "clinicId" text not null,
+    code text,
+    name text not null,
+    value text not null,
+    "numericValue" double precision,
+    unit text,
+    "referenceLow" double precision,
+    "referenceHigh" double precision,
+    "criticalLow" double precision,
+    "criticalHigh" double precision,
+    "referenceText" text,
+    flag "LabResultFlag",
+    "observedAt" timestamptz,
+    comment text,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint lab_results_labOrderId_fkey
+        foreign key ("labOrderId") references public.lab_orders(id) on update cascade on delete cascade,
+    constraint lab_results_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create index if not exists lab_results_labOrderId_idx on public.lab_results ("labOrderId");
+create index if not exists lab_results_clinicId_idx on public.lab_results ("clinicId");
+
+-- Add RLS policy (Row Level Security)
+alter table public.lab_results enable row level security;
+
+-- Policy: Clinic doctors can read results; writes happen server-side
+create policy "Doctors can view lab results" on public.lab_results
+    for select using (
+        exists (
+            select 1 from public.user_roles ur
+            where ur.user_id = auth.uid()
+            and ur.clinic_id = lab_results."clinicId"
+            and ur.role = 'doctor'
+        )
+    );
+
+-- Policy: Patients can read their own results once released
+create policy "Patients can view released lab results" on public.lab_results
+    for select using (
+        exists (
+            select 1 from public.lab_orders lo
+            join public.patients p on p.id = lo."patientId"
+            where lo.id = lab_results."labOrderId"
+            and lo."releasedAt" is not null
+            and p."userId" = auth.uid()::text
+        )
+    );
+
+-- Grant necessary permissions
+grant select on public.lab_results to authenticated;
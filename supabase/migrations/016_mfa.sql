@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Migration: TOTP Multi-Factor Authentication
+-- ============================================================================
+--
+-- Adds authenticator enrollments, hashed recovery codes and pending login
+-- challenges, plus the clinic policy that requires MFA for doctors and
+-- admins. Secrets and held sessions are encrypted by the application;
+-- these tables are only read server-side, so RLS is enabled without any
+-- client policies.
+--
+-- ============================================================================
+
+-- Clinic MFA policy
+alter table public.clinic_settings
+    add column if not exists "mfaRequiredForDoctors" boolean not null default false,
+    add column if not exists "mfaRequiredForAdmins" boolean not null default false;
+
+-- Create mfa_enrollments table
+create table if not exists public.mfa_enrollments (
+    id text not null,
+    "userId" text not null,
+    "clinicId" text not null,
+    role "UserRole" not null,
+    "secretEncrypted" text not null,
+    "enabledAt" timestamptz,
+    "lastUsedStep" integer,
+    "lastUsedAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id)
+);
+
+create unique index if not exists mfa_enrollments_userId_key on public.mfa_enrollments ("userId");
+create index if not exists mfa_enrollments_clinicId_enabledAt_idx on public.mfa_enrollments ("clinicId", "enabledAt");
+create index if not exists mfa_enrollments_role_enabledAt_idx on public.mfa_enrollments (role, "enabledAt");
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_mfa_enrollments_updated_at on public.mfa_enrollments;
+create trigger update_mfa_enrollments_updated_at
+    before update on public.mfa_enrollments
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Create mfa_recovery_codes table
+create table if not exists public.mfa_recovery_codes (
+    id text not null,
+    "enrollmentId" text not null,
+    "codeHash" text not null,
+    "usedAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint mfa_recovery_codes_enrollmentId_fkey
+        foreign key ("enrollmentId") references public.mfa_enrollments(id) on update cascade on delete cascade
+);
+
+create index if not exists mfa_recovery_codes_enrollmentId_idx on public.mfa_recovery_codes ("enrollmentId");
+
+-- Create mfa_challenges table
+create table if not exists public.mfa_challenges (
+    id text not null,
+    "tokenHash" text not null,
+    "userId" text not null,
+    "payloadEncrypted" text not null,
+    "enrollmentRequired" boolean not null default false,
+    attempts integer not null default 0,
+    "expiresAt" timestamptz not null,
+    "consumedAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id)
+);
+
+create unique index if not exists mfa_challenges_tokenHash_key on public.mfa_challenges ("tokenHash");
+create index if not exists mfa_challenges_userId_idx on public.mfa_challenges ("userId");
+create index if not exists mfa_challenges_expiresAt_idx on public.mfa_challenges ("expiresAt");
+
+-- Add RLS policy (Row Level Security)
+-- No policies: secrets, recovery codes and held sessions never reach clients
+alter table public.mfa_enrollments enable row level security;
+alter table public.mfa_recovery_codes enable row level security;
+alter table public.mfa_challenges enable row level security;
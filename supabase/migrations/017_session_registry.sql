@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Session Registry
+-- ============================================================================
+--
+-- Server-side record of signed-in sessions, keyed by the Supabase
+-- session_id claim. The application registers sessions and records
+-- activity through Prisma; middleware reads a user's own rows with their
+-- access token to enforce revocation and the idle/absolute timeouts.
+--
+-- ============================================================================
+
+-- Create auth_sessions table
+create table if not exists public.auth_sessions (
+    id text not null,
+    "sessionId" text not null,
+    "userId" text not null,
+    "clinicId" text not null,
+    role "UserRole" not null,
+    "ipAddress" text,
+    "userAgent" text,
+    device text,
+    "lastActiveAt" timestamptz not null default now(),
+    "revokedAt" timestamptz,
+    "revokedBy" text,
+    "revokedReason" text,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id)
+);
+
+create unique index if not exists auth_sessions_sessionId_key on public.auth_sessions ("sessionId");
+create index if not exists auth_sessions_userId_revokedAt_idx on public.auth_sessions ("userId", "revokedAt");
+create index if not exists auth_sessions_clinicId_revokedAt_idx on public.auth_sessions ("clinicId", "revokedAt");
+create index if not exists auth_sessions_lastActiveAt_idx on public.auth_sessions ("lastActiveAt");
+
+-- Add RLS policy (Row Level Security)
+alter table public.auth_sessions enable row level security;
+
+-- Policy: Users can read their own sessions (middleware timeout/revocation check)
+create policy "Users can view own sessions" on public.auth_sessions
+    for select using ("userId" = auth.uid()::text);
+
+-- Grant necessary permissions
+grant select on public.auth_sessions to authenticated;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Migration: Custom Roles and Permission Overrides
+-- ============================================================================
+--
+-- Clinic-defined roles (named bundles of permissions) and per-user
+-- assignments: an optional custom role replacing the built-in role's
+-- permissions, plus individual grants and denials. Permissions are
+-- resolved server-side on every request, so RLS is enabled without any
+-- client policies.
+--
+-- ============================================================================
+
+-- Create clinic_roles table
+create table if not exists public.clinic_roles (
+    id text not null,
+    "clinicId" text not null,
+    name text not null,
+    description text,
+    permissions text[] not null default '{}',
+    "createdBy" text not null,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint clinic_roles_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create unique index if not exists clinic_roles_clinicId_name_key on public.clinic_roles ("clinicId", name);
+create index if not exists clinic_roles_clinicId_idx on public.clinic_roles ("clinicId");
+
+-- Reuse the shared updatedAt trigger function from 005
+drop trigger if exists update_clinic_roles_updated_at on public.clinic_roles;
+create trigger update_clinic_roles_updated_at
+    before update on public.clinic_roles
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Create user_permission_overrides table
+create table if not exists public.user_permission_overrides (
+    id text not null,
+    "userId" text not null,
+    "clinicId" text not null,
+    "clinicRoleId" text,
+    granted text[] not null default '{}',
+    denied text[] not null default '{}',
+    "updatedBy" text not null,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint user_permission_overrides_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict,
+    constraint user_permission_overrides_clinicRoleId_fkey
+        foreign key ("clinicRoleId") references public.clinic_roles(id) on update cascade on delete set null
+);
+
+create unique index if not exists user_permission_overrides_userId_key on public.user_permission_overrides ("userId");
+create index if not exists user_permission_overrides_clinicId_idx on public.user_permission_overrides ("clinicId");
+create index if not exists user_permission_overrides_clinicRoleId_idx on public.user_permission_overrides ("clinicRoleId");
+
+drop trigger if exists update_user_permission_overrides_updated_at on public.user_permission_overrides;
+create trigger update_user_permission_overrides_updated_at
+    before update on public.user_permission_overrides
+    for each row
+    execute function public.update_clinics_updated_at();
+
+-- Add RLS policy (Row Level Security)
+-- No policies: assignments are only read and written through the admin API
+alter table public.clinic_roles enable row level security;
+alter table public.user_permission_overrides enable row level security;
@@ -0,0 +1,197 @@
+-- ============================================================================
+-- Migration: Unified User Identity
+-- ============================================================================
+--
+-- One users row per Supabase auth user (name, email, phone, role, clinic,
+-- status, locale), referenced by the doctor, patient and care-team
+-- profiles. Triggers on auth.users and user_roles keep it in sync, so
+-- identity is always edited through Supabase auth and every signup, seed
+-- and admin path picks it up without application changes.
+--
+-- ============================================================================
+
+-- Create UserStatus enum
+do $$ begin
+    create type "UserStatus" as enum ('ACTIVE', 'PENDING', 'DISABLED');
+exception
+    when duplicate_object then null;
+end $$;
+
+-- Create users table
+create table if not exists public.users (
+    id text not null,
+    "clinicId" text not null,
+    role "UserRole" not null,
+    status "UserStatus" not null default 'ACTIVE',
+    email text not null,
+    "firstName" text,
+    "lastName" text,
+    phone text,
+    locale text not null default 'en-US',
+    "lastSignInAt" timestamptz,
+    "createdAt" timestamptz not null default now(),
+    "updatedAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint users_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create unique index if not exists users_email_key on public.users (email);
+create index if not exists users_clinicId_role_idx on public.users ("clinicId", role);
+create index if not exists users_lastName_firstName_idx on public.users ("lastName", "firstName");
+
+-- Upsert a user's identity from auth.users and user_roles
+-- Patients without a name in their auth metadata use their chart name.
+create or replace function public.sync_user_identity(target_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+    insert into public.users (
+        id, "clinicId", role, status, email, "firstName", "lastName",
+        phone, locale, "lastSignInAt", "createdAt", "updatedAt"
+    )
+    select
+        au.id::text,
+        ur.clinic_id,
+        upper(ur.role)::"UserRole",
+        (case
+            when au.deleted_at is not null or au.banned_until > now() then 'DISABLED'
+            when au.email_confirmed_at is null then 'PENDING'
+            else 'ACTIVE'
+        end)::"UserStatus",
+        lower(au.email),
+        coalesce(nullif(au.raw_user_meta_data->>'firstName', ''), case when ur.role = 'patient' then p."firstName" end),
+        coalesce(nullif(au.raw_user_meta_data->>'lastName', ''), case when ur.role = 'patient' then p."lastName" end),
+        coalesce(nullif(au.phone, ''), nullif(au.raw_user_meta_data->>'phoneNumber', ''), case when ur.role = 'patient' then p.phone end),
+        coalesce(nullif(au.raw_user_meta_data->>'locale', ''), 'en-US'),
+        au.last_sign_in_at,
+        coalesce(au.created_at, now()),
+        now()
+    from auth.users au
+    join public.user_roles ur on ur.user_id = au.id
+    left join public.patients p on p."userId" = au.id::text
+    where au.id = target_user_id
+    and au.email is not null
+    on conflict (id) do update set
+        "clinicId" = excluded."clinicId",
+        role = excluded.role,
+        status = excluded.status,
+        email = excluded.email,
+        "firstName" = excluded."firstName",
+        "lastName" = excluded."lastName",
+        phone = excluded.phone,
+        locale = excluded.locale,
+        "lastSignInAt" = excluded."lastSignInAt",
+        "updatedAt" = now();
+end;
+$$;
+
+create or replace function public.sync_user_identity_from_user_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.sync_user_identity(new.user_id);
+    return new;
+end;
+$$;
+
+create or replace function public.sync_user_identity_from_auth()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.sync_user_identity(new.id);
+    return new;
+end;
+$$;
+
+-- Profiles keep referencing a deleted user, so the identity is disabled instead
+create or replace function public.disable_deleted_user_identity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.users
+    set status = 'DISABLED', "updatedAt" = now()
+    where id = old.id::text;
+    return old;
+end;
+$$;
+
+drop trigger if exists sync_user_identity_on_user_roles on public.user_roles;
+create trigger sync_user_identity_on_user_roles
+    after insert or update of role, clinic_id on public.user_roles
+    for each row
+    execute function public.sync_user_identity_from_user_roles();
+
+drop trigger if exists sync_user_identity_on_auth_update on auth.users;
+create trigger sync_user_identity_on_auth_update
+    after update of email, phone, raw_user_meta_data, email_confirmed_at, banned_until, deleted_at, last_sign_in_at on auth.users
+    for each row
+    execute function public.sync_user_identity_from_auth();
+
+drop trigger if exists disable_user_identity_on_auth_delete on auth.users;
+create trigger disable_user_identity_on_auth_delete
+    after delete on auth.users
+    for each row
+    execute function public.disable_deleted_user_identity();
+
+-- Backfill from existing auth users
+select public.sync_user_identity(user_id) from public.user_roles;
+
+-- Profiles whose auth user no longer exists keep a disabled identity, so the
+-- foreign keys below hold
+insert into public.users (id, "clinicId", role, status, email, "firstName", "lastName", phone)
+select p."userId", p."clinicId", 'PATIENT', 'DISABLED', p."userId" || '@deleted.invalid', p."firstName", p."lastName", p.phone
+from public.patients p
+where not exists (select 1 from public.users u where u.id = p."userId")
+on conflict (id) do nothing;
+
+insert into public.users (id, "clinicId", role, status, email)
+select d."userId", d."clinicId", 'DOCTOR', 'DISABLED', d."userId" || '@deleted.invalid'
+from public.doctors d
+where not exists (select 1 from public.users u where u.id = d."userId")
+on conflict (id) do nothing;
+
+insert into public.users (id, "clinicId", role, status, email, "firstName")
+select distinct on (m."userId") m."userId", m."clinicId", m.role, 'DISABLED', m."userId" || '@deleted.invalid', m."displayName"
+from public.care_team_members m
+where not exists (select 1 from public.users u where u.id = m."userId")
+on conflict (id) do nothing;
+
+-- Link the role profiles to their identity
+alter table public.doctors drop constraint if exists doctors_userId_fkey;
+alter table public.doctors
+    add constraint doctors_userId_fkey
+    foreign key ("userId") references public.users(id) on update cascade on delete restrict;
+
+alter table public.patients drop constraint if exists patients_userId_fkey;
+alter table public.patients
+    add constraint patients_userId_fkey
+    foreign key ("userId") references public.users(id) on update cascade on delete restrict;
+
+alter table public.care_team_members drop constraint if exists care_team_members_userId_fkey;
+alter table public.care_team_members
+    add constraint care_team_members_userId_fkey
+    foreign key ("userId") references public.users(id) on update cascade on delete restrict;
+
+-- Add RLS policy (Row Level Security)
+alter table public.users enable row level security;
+
+-- Policy: Users can read their own identity
+create policy "Users can view own identity" on public.users
+    for select using (id = auth.uid()::text);
+
+-- Grant necessary permissions
+grant select on public.users to authenticated;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration: AI Provider Settings and Usage Accounting
+-- ============================================================================
+--
+-- Clinics choose the model behind their clinical AI features, and every
+-- LLM call is recorded with its token counts and latency. Usage is only
+-- written and read server-side, so RLS is enabled without client policies.
+--
+-- ============================================================================
+
+alter table public.clinic_settings
+    add column if not exists "aiModel" text not null default 'gemini-1.5-flash';
+
+-- Create ai_usage_events table
+create table if not exists public.ai_usage_events (
+    id text not null,
+    "clinicId" text not null,
+    "userId" text,
+    "requestId" text,
+    provider text not null,
+    model text not null,
+    task text not null,
+    "inputTokens" integer not null,
+    "outputTokens" integer not null,
+    "latencyMs" integer not null,
+    success boolean not null,
+    "createdAt" timestamptz not null default now(),
+
+    primary key (id),
+    constraint ai_usage_events_clinicId_fkey
+        foreign key ("clinicId") references public.clinics(id) on update cascade on delete restrict
+);
+
+create index if not exists ai_usage_events_clinicId_createdAt_idx on public.ai_usage_events ("clinicId", "createdAt");
+create index if not exists ai_usage_events_requestId_idx on public.ai_usage_events ("requestId");
+
+-- Add RLS policy (Row Level Security)
+-- No policies: usage is recorded and reported through the application
+alter table public.ai_usage_events enable row level security;
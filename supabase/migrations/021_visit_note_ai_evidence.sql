@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration: Visit Note AI Evidence
+-- ============================================================================
+--
+-- Visit notes drafted from an AI SOAP note keep the draft's statements with
+-- the transcript spans (utterance offsets) each one was drawn from, so the
+-- note page can highlight the source. Stored as JSON alongside the note;
+-- existing RLS on visit_notes applies.
+--
+-- ============================================================================
+
+alter table public.visit_notes
+    add column if not exists "aiEvidence" jsonb;
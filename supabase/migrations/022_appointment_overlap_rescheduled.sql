@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration: Rescheduled Appointments Block Overlaps
+-- ============================================================================
+--
+-- RESCHEDULED appointments still take place at their new time, and the
+-- slot engine (BLOCKING_APPOINTMENT_STATUSES in lib/scheduling/slots.ts)
+-- treats them as occupying the doctor. Recreate the double-booking
+-- exclusion constraint from 006 with the same status set, so the
+-- database backstop and the application check agree.
+--
+-- ============================================================================
+
+-- Drop and re-add in one block: if existing rows violate the new
+-- constraint, the exception rolls the drop back and the 006 constraint stays
+do $$
+begin
+    alter table public.appointments
+        drop constraint if exists appointments_no_doctor_overlap;
+
+    alter table public.appointments
+        add constraint appointments_no_doctor_overlap
+        exclude using gist (
+            "doctorId" with =,
+            tsrange("scheduledAt", "scheduledAt" + make_interval(mins => duration)) with &&
+        )
+        where (status in ('SCHEDULED', 'CONFIRMED', 'RESCHEDULED', 'IN_PROGRESS', 'COMPLETED'));
+exception
+    -- Existing overlapping RESCHEDULED rows must be resolved by hand before
+    -- the constraint can be widened; the advisory lock still protects new writes
+    when exclusion_violation then
+        raise notice 'appointments_no_doctor_overlap not widened: existing overlapping appointments';
+end $$;
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- Migration: Session MFA Verification
+-- ============================================================================
+--
+-- Sessions record when their second factor was verified (login challenge
+-- or enrolling while signed in). A session without it is refused while
+-- the user has MFA enabled or their clinic requires it for their role,
+-- so signing in directly against Supabase with only a password does not
+-- reach the API. Sessions of such users that predate this column must
+-- sign in again.
+--
+-- session_mfa_pending lets middleware, which runs with the user's token,
+-- check this without read access to mfa_enrollments.
+--
+-- ============================================================================
+
+alter table public.auth_sessions
+    add column if not exists "mfaVerifiedAt" timestamptz;
+
+-- Whether the caller's session still owes a second factor (lib/auth/mfa.ts isSessionMfaPending)
+create or replace function public.session_mfa_pending(target_session_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select not exists (
+        select 1 from public.auth_sessions s
+        where s."sessionId" = target_session_id
+        and s."userId" = auth.uid()::text
+        and s."mfaVerifiedAt" is not null
+    )
+    and (
+        exists (
+            select 1 from public.mfa_enrollments e
+            where e."userId" = auth.uid()::text
+            and e."enabledAt" is not null
+        )
+        or exists (
+            select 1 from public.user_roles ur
+            join public.clinic_settings cs on cs."clinicId" = ur.clinic_id
+            where ur.user_id = auth.uid()
+            and ur.role <> 'patient'
+            and (case when ur.role = 'doctor' then cs."mfaRequiredForDoctors" else cs."mfaRequiredForAdmins" end)
+        )
+    );
+$$;
+
+-- Grant necessary permissions
+grant execute on function public.session_mfa_pending(text) to authenticated;
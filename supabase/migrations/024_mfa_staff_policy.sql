@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration: MFA Policy for Nurses and Staff
+-- ============================================================================
+--
+-- Nurses and staff fell under the admin MFA requirement. They get their
+-- own clinic setting, and session_mfa_pending maps every role explicitly
+-- (lib/auth/mfa.ts isMfaRequired). Enrollments recorded nurses and staff
+-- as PATIENT; those are corrected from user_roles.
+--
+-- ============================================================================
+
+alter table public.clinic_settings
+    add column if not exists "mfaRequiredForStaff" boolean not null default false;
+
+-- Keep today's behaviour for clinics that already require MFA for admins
+update public.clinic_settings
+set "mfaRequiredForStaff" = true
+where "mfaRequiredForAdmins";
+
+-- Whether the caller's session still owes a second factor (lib/auth/mfa.ts isSessionMfaPending)
+create or replace function public.session_mfa_pending(target_session_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select not exists (
+        select 1 from public.auth_sessions s
+        where s."sessionId" = target_session_id
+        and s."userId" = auth.uid()::text
+        and s."mfaVerifiedAt" is not null
+    )
+    and (
+        exists (
+            select 1 from public.mfa_enrollments e
+            where e."userId" = auth.uid()::text
+            and e."enabledAt" is not null
+        )
+        or exists (
+            select 1 from public.user_roles ur
+            join public.clinic_settings cs on cs."clinicId" = ur.clinic_id
+            where ur.user_id = auth.uid()
+            and (case ur.role
+                when 'doctor' then cs."mfaRequiredForDoctors"
+                when 'nurse' then cs."mfaRequiredForStaff"
+                when 'staff' then cs."mfaRequiredForStaff"
+                when 'admin' then cs."mfaRequiredForAdmins"
+                else false
+            end)
+        )
+    );
+$$;
+
+-- Grant necessary permissions
+grant execute on function public.session_mfa_pending(text) to authenticated;
+
+-- Enrollments recorded as PATIENT before nurses and staff were mapped
+update public.mfa_enrollments e
+set role = upper(ur.role)::"UserRole"
+from public.user_roles ur
+where ur.user_id::text = e."userId"
+and ur.role in ('nurse', 'staff')
+and e.role = 'PATIENT';
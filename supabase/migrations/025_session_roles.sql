@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Migration: Session Roles for Nurses and Staff
+-- ============================================================================
+--
+-- The session registry recorded nurses and staff as PATIENT. Correct
+-- those rows from user_roles (lib/auth/roles.ts now maps every role).
+--
+-- ============================================================================
+
+update public.auth_sessions s
+set role = upper(ur.role)::"UserRole"
+from public.user_roles ur
+where ur.user_id::text = s."userId"
+and ur.role in ('nurse', 'staff')
+and s.role = 'PATIENT';